@@ -0,0 +1,60 @@
+/**
+ * 認証API クライアント
+ *
+ * ログイン・ログアウトのREST APIとの通信を行うための関数群
+ * セッションIDはHttpOnly Cookieで受け渡すため、クライアントでは保持しない
+ */
+
+import { apiClient } from './api-client';
+
+// ============================================
+// 型定義
+// ============================================
+
+/** サーバー側のユーザーロール */
+export type SessionRole = 'patron' | 'librarian' | 'admin';
+
+/** ログイン入力 */
+export interface LoginInput {
+  readonly email: string;
+  readonly password: string;
+}
+
+/** ログイン結果 */
+export interface LoginResponse {
+  readonly user: {
+    readonly id: string;
+    readonly name: string;
+    readonly email: string;
+    readonly role: SessionRole;
+  };
+  readonly expiresAt: string;
+}
+
+/** APIエラーレスポンス */
+export interface AuthApiError {
+  readonly error: {
+    readonly type: 'VALIDATION_ERROR' | 'INVALID_CREDENTIALS' | 'SESSION_NOT_FOUND';
+    readonly message?: string;
+  };
+}
+
+// ============================================
+// API 関数
+// ============================================
+
+const API_BASE = '/api/auth';
+
+/**
+ * ログイン（成功するとセッションCookieが設定される）
+ */
+export async function login(input: LoginInput): Promise<LoginResponse> {
+  return apiClient.post<LoginResponse>(`${API_BASE}/login`, input);
+}
+
+/**
+ * ログアウト（セッションCookieが削除される）
+ */
+export async function logout(): Promise<void> {
+  await apiClient.post<{ success: boolean }>(`${API_BASE}/logout`, {});
+}
@@ -10,37 +10,103 @@ import { apiClient } from './api-client';
 // 型定義
 // ============================================
 
+/** 書籍への寄与の役割（著者・編者・訳者・画家） */
+export type ContributorRole = 'AUTHOR' | 'EDITOR' | 'TRANSLATOR' | 'ILLUSTRATOR';
+
+/** 人物（書籍の寄与者） */
+export interface Person {
+  readonly id: string;
+  readonly name: string;
+  readonly createdAt: string;
+}
+
+/** 書籍の寄与者 */
+export interface BookContributor {
+  readonly personId: string;
+  readonly name: string;
+  readonly role: ContributorRole;
+  /** 書籍内での表示順（1始まり） */
+  readonly position: number;
+}
+
+/** 寄与者入力（一覧の順序が表示順になる） */
+export interface ContributorInput {
+  readonly name: string;
+  readonly role: ContributorRole;
+}
+
+/** 分類表（NDC: 日本十進分類法、DDC: デューイ十進分類法） */
+export type ClassificationScheme = 'NDC' | 'DDC';
+
+/** 書籍に付与した分類 */
+export interface BookClassification {
+  readonly id: string;
+  readonly scheme: ClassificationScheme;
+  /** 分類記号（例: 913.6） */
+  readonly number: string;
+  readonly label: string;
+}
+
+/** 書籍に付与した件名標目 */
+export interface BookSubjectHeading {
+  readonly id: string;
+  readonly label: string;
+}
+
 /** 書籍マスタ */
 export interface Book {
   readonly id: string;
   readonly title: string;
+  /** 著者表示（寄与者を表示順に並べた文字列） */
   readonly author: string;
+  readonly contributors: readonly BookContributor[];
   readonly publisher: string;
   readonly publicationYear: number | null;
   readonly isbn: string;
+  /** 登録グループの範囲で区切った表示用ISBN（例: 978-4-00-310101-8） */
+  readonly isbnHyphenated: string;
   readonly category: string | null;
+  readonly classification: BookClassification | null;
+  /** 請求記号（例: 913.6/ナ） */
+  readonly callNumber: string | null;
+  readonly subjectHeadings: readonly BookSubjectHeading[];
   readonly createdAt: string;
   readonly updatedAt: string;
 }
 
-/** 書籍登録入力 */
+/** 書籍登録入力（author・contributors の一方を省略した場合はもう一方から作成される） */
 export interface CreateBookInput {
   readonly title: string;
-  readonly author: string;
+  readonly author?: string;
+  readonly contributors?: readonly ContributorInput[];
   readonly publisher: string;
   readonly publicationYear?: number | null;
   readonly isbn: string;
   readonly category?: string | null;
+  readonly classificationId?: string | null;
+  readonly callNumber?: string | null;
+  readonly subjectHeadingIds?: readonly string[];
 }
 
 /** 書籍更新入力 */
 export interface UpdateBookInput {
   readonly title?: string;
   readonly author?: string;
+  readonly contributors?: readonly ContributorInput[];
   readonly publisher?: string | null;
   readonly publicationYear?: number | null;
   readonly isbn?: string;
   readonly category?: string | null;
+  readonly classificationId?: string | null;
+  readonly callNumber?: string | null;
+  /** 件名標目ID一覧（指定した場合は付与済みの件名標目をすべて置き換える） */
+  readonly subjectHeadingIds?: readonly string[];
+}
+
+/** 寄与者別の書籍一覧 */
+export interface ContributorBooks {
+  readonly person: Person;
+  readonly books: readonly Book[];
 }
 
 /** APIエラーレスポンス */
@@ -94,3 +160,14 @@ export async function getBook(id: string): Promise<Book> {
 export async function getBooks(): Promise<readonly Book[]> {
   return apiClient.get<readonly Book[]>('/api/books/search');
 }
+
+/**
+ * 寄与者別の書籍一覧を取得
+ */
+export async function getBooksByContributor(
+  personId: string,
+  role?: ContributorRole
+): Promise<ContributorBooks> {
+  const query = role !== undefined ? `?role=${role}` : '';
+  return apiClient.get<ContributorBooks>(`${API_BASE}/contributors/${personId}${query}`);
+}
@@ -0,0 +1,154 @@
+/**
+ * 書籍一括取り込みAPI クライアント
+ *
+ * CSV・TSV による書籍・蔵書コピーの一括取り込みのREST APIとの通信を行うための関数群
+ */
+
+import { apiClient } from './api-client';
+
+// ============================================
+// 型定義
+// ============================================
+
+/** 取り込みファイル形式 */
+export type BookImportFormat = 'CSV' | 'TSV';
+
+/** 列を対応付けられる取り込み項目 */
+export type BookImportField =
+  | 'title'
+  | 'author'
+  | 'publisher'
+  | 'publicationYear'
+  | 'isbn'
+  | 'category'
+  | 'location'
+  | 'copyCount';
+
+/** 列の対応付け（取り込み項目 → 見出し行の列名） */
+export type BookImportColumnMapping = Readonly<Partial<Record<BookImportField, string>>>;
+
+/** 一括取り込み入力 */
+export interface BookImportInput {
+  readonly content: string;
+  readonly format: BookImportFormat;
+  readonly mapping: BookImportColumnMapping;
+}
+
+/** 行の検証エラー */
+export interface BookImportFieldError {
+  readonly field: string;
+  readonly message: string;
+}
+
+/** ドライランで判定した行の処理 */
+export type BookImportAction = 'CREATE' | 'UPDATE' | 'ERROR';
+
+/** ドライランの行ごとの結果 */
+export interface BookImportPreviewRow {
+  readonly rowNumber: number;
+  readonly action: BookImportAction;
+  readonly isbn: string | null;
+  readonly title: string | null;
+  readonly bookId: string | null;
+  readonly copyCount: number;
+  readonly errors: readonly BookImportFieldError[];
+}
+
+/** ドライランの結果 */
+export interface BookImportPreview {
+  readonly format: BookImportFormat;
+  readonly totalRows: number;
+  readonly createCount: number;
+  readonly updateCount: number;
+  readonly errorCount: number;
+  readonly copyCount: number;
+  readonly rows: readonly BookImportPreviewRow[];
+}
+
+/** 取り込みジョブステータス */
+export type BookImportJobStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED';
+
+/** 取り込みジョブ */
+export interface BookImportJob {
+  readonly id: string;
+  readonly format: BookImportFormat;
+  readonly status: BookImportJobStatus;
+  readonly totalRows: number;
+  readonly processedRows: number;
+  readonly createdCount: number;
+  readonly updatedCount: number;
+  readonly failedCount: number;
+  readonly chunkSize: number;
+  readonly createdBy: string;
+  readonly createdAt: string;
+  readonly updatedAt: string;
+  readonly completedAt: string | null;
+}
+
+/** 取り込み行ステータス */
+export type BookImportRowStatus = 'PENDING' | 'CREATED' | 'UPDATED' | 'FAILED';
+
+/** 取り込み行 */
+export interface BookImportRow {
+  readonly jobId: string;
+  readonly rowNumber: number;
+  readonly status: BookImportRowStatus;
+  readonly bookId: string | null;
+  readonly copiesCreated: number;
+  readonly errors: readonly BookImportFieldError[];
+}
+
+/** APIエラーレスポンス */
+export interface BookImportApiError {
+  readonly error: {
+    readonly type: 'VALIDATION_ERROR' | 'IMPORT_JOB_NOT_FOUND';
+    readonly field?: string;
+    readonly message?: string;
+    readonly jobId?: string;
+  };
+}
+
+// ============================================
+// API 関数
+// ============================================
+
+const API_BASE = '/api/books/imports';
+
+/**
+ * ドライラン（登録・更新・エラーになる行を確認。データは変更しない）
+ */
+export async function previewBookImport(input: BookImportInput): Promise<BookImportPreview> {
+  return apiClient.post<BookImportPreview>(`${API_BASE}/preview`, input);
+}
+
+/**
+ * 取り込みジョブを作成
+ */
+export async function createBookImportJob(input: BookImportInput): Promise<BookImportJob> {
+  return apiClient.post<BookImportJob>(API_BASE, input);
+}
+
+/**
+ * 未処理の行を1チャンク分取り込む（中断したジョブの再開にも使用）
+ */
+export async function runBookImportChunk(jobId: string): Promise<BookImportJob> {
+  return apiClient.post<BookImportJob>(`${API_BASE}/${jobId}/run`, {});
+}
+
+/**
+ * 取り込みジョブ（進捗）を取得
+ */
+export async function getBookImportJob(jobId: string): Promise<BookImportJob> {
+  return apiClient.get<BookImportJob>(`${API_BASE}/${jobId}`);
+}
+
+/**
+ * 取り込み行一覧を取得
+ */
+export async function getBookImportRows(
+  jobId: string,
+  status?: BookImportRowStatus
+): Promise<readonly BookImportRow[]> {
+  const query = status !== undefined ? `?status=${status}` : '';
+  return apiClient.get<readonly BookImportRow[]>(`${API_BASE}/${jobId}/rows${query}`);
+}
@@ -0,0 +1,93 @@
+/**
+ * 延滞料金API クライアント
+ *
+ * 延滞料金・利用者口座のREST APIとの通信を行うための関数群
+ */
+
+import { apiClient } from './api-client';
+
+// ============================================
+// 型定義
+// ============================================
+
+/** 取引種別 */
+export type FineTransactionType = 'CHARGE' | 'REPLACEMENT' | 'PAYMENT' | 'WAIVER' | 'REFUND';
+
+/** 利用者口座の取引 */
+export interface FineTransaction {
+  readonly id: string;
+  readonly userId: string;
+  readonly type: FineTransactionType;
+  readonly amount: number;
+  readonly loanId: string | null;
+  readonly reason: string | null;
+  readonly createdAt: string;
+}
+
+/** 利用者口座（残高と取引履歴） */
+export interface PatronAccount {
+  readonly userId: string;
+  readonly balance: number;
+  readonly transactions: readonly FineTransaction[];
+}
+
+/** 支払い記録入力 */
+export interface RecordPaymentInput {
+  readonly amount: number;
+  readonly note?: string | null;
+}
+
+/** 免除入力 */
+export interface WaiveFineInput {
+  readonly amount: number;
+  readonly reason: string;
+}
+
+/** APIエラーレスポンス */
+export interface FineApiError {
+  readonly error: {
+    readonly type:
+      | 'VALIDATION_ERROR'
+      | 'USER_NOT_FOUND'
+      | 'RATE_NOT_FOUND'
+      | 'DUPLICATE_RATE'
+      | 'AMOUNT_EXCEEDS_BALANCE'
+      | 'REFUND_EXCEEDS_CREDIT';
+    readonly field?: string;
+    readonly message?: string;
+    readonly userId?: string;
+    readonly amount?: number;
+    readonly balance?: number;
+    readonly credit?: number;
+  };
+}
+
+// ============================================
+// API 関数
+// ============================================
+
+const API_BASE = '/api/fines';
+
+/**
+ * 利用者口座（残高と取引履歴）を取得
+ */
+export async function getPatronAccount(userId: string): Promise<PatronAccount> {
+  return apiClient.get<PatronAccount>(`${API_BASE}/accounts/${userId}`);
+}
+
+/**
+ * 現金での支払いを記録
+ */
+export async function recordPayment(
+  userId: string,
+  input: RecordPaymentInput
+): Promise<FineTransaction> {
+  return apiClient.post<FineTransaction>(`${API_BASE}/accounts/${userId}/payments`, input);
+}
+
+/**
+ * 延滞料金を免除
+ */
+export async function waiveFine(userId: string, input: WaiveFineInput): Promise<FineTransaction> {
+  return apiClient.post<FineTransaction>(`${API_BASE}/accounts/${userId}/waivers`, input);
+}
@@ -1,15 +1,52 @@
 export { apiClient, ApiError } from './api-client';
+export {
+  login,
+  logout,
+  type SessionRole,
+  type LoginInput,
+  type LoginResponse,
+  type AuthApiError,
+} from './auth-api';
 export {
   createBook,
   updateBook,
   deleteBook,
   getBook,
   getBooks,
+  getBooksByContributor,
+  type ContributorRole,
+  type Person,
+  type BookContributor,
+  type ContributorInput,
+  type ContributorBooks,
+  type ClassificationScheme,
+  type BookClassification,
+  type BookSubjectHeading,
   type Book,
   type CreateBookInput,
   type UpdateBookInput,
   type BookApiError,
 } from './book-api';
+export {
+  previewBookImport,
+  createBookImportJob,
+  runBookImportChunk,
+  getBookImportJob,
+  getBookImportRows,
+  type BookImportFormat,
+  type BookImportField,
+  type BookImportColumnMapping,
+  type BookImportInput,
+  type BookImportFieldError,
+  type BookImportAction,
+  type BookImportPreviewRow,
+  type BookImportPreview,
+  type BookImportJobStatus,
+  type BookImportJob,
+  type BookImportRowStatus,
+  type BookImportRow,
+  type BookImportApiError,
+} from './book-import-api';
 export {
   searchBooks,
   type SearchBook,
@@ -22,10 +59,20 @@ export {
   createLoan,
   getLoan,
   returnBook,
+  renewLoan,
+  recallLoan,
+  checkoutBatch,
+  returnBatch,
   type Loan,
+  type LoanStatus,
   type LoanReceipt,
+  type AppliedLoanPolicy,
   type ReturnResult,
+  type RecallResult,
   type CreateLoanInput,
+  type BatchMode,
+  type BatchCheckoutReceipt,
+  type BatchReturnReceipt,
   type LoanApiError,
 } from './loan-api';
 export {
@@ -44,11 +91,21 @@ export {
   createReservation,
   cancelReservation,
   getUserReservations,
+  getHoldShelfPullList,
+  getTransitRequests,
+  receiveTransit,
   type Reservation,
   type ReservationStatus,
   type CreateReservationInput,
+  type TransitRequest,
+  type TransitRequestStatus,
   type ReservationApiError,
 } from './reservation-api';
+export {
+  getServicePoints,
+  type ServicePoint,
+  type ServicePointApiError,
+} from './service-point-api';
 export {
   getStatisticsSummary,
   getPopularBooksRanking,
@@ -63,3 +120,14 @@ export {
   type CategoryStatistics,
   type ReportApiError,
 } from './report-api';
+export {
+  getPatronAccount,
+  recordPayment,
+  waiveFine,
+  type FineTransaction,
+  type FineTransactionType,
+  type PatronAccount,
+  type RecordPaymentInput,
+  type WaiveFineInput,
+  type FineApiError,
+} from './fine-api';
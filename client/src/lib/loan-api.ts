@@ -4,12 +4,16 @@
  * 貸出管理のREST APIとの通信を行うための関数群
  */
 
-import { apiClient } from './api-client';
+import { apiClient, ApiError } from './api-client';
+import type { FineTransaction } from './fine-api';
 
 // ============================================
 // 型定義
 // ============================================
 
+/** 貸出ステータス */
+export type LoanStatus = 'ACTIVE' | 'CLAIMED_RETURNED' | 'RETURNED' | 'LOST' | 'DAMAGED';
+
 /** 貸出 */
 export interface Loan {
   readonly id: string;
@@ -18,6 +22,20 @@ export interface Loan {
   readonly borrowedAt: string;
   readonly dueDate: string;
   readonly returnedAt: string | null;
+  readonly status: LoanStatus;
+  readonly renewalCount: number;
+  /** リコール日時（リコールされていなければnull） */
+  readonly recalledAt: string | null;
+}
+
+/** 貸出時に適用された貸出ポリシー */
+export interface AppliedLoanPolicy {
+  readonly policyId: string | null;
+  readonly name: string;
+  readonly loanDurationDays: number;
+  readonly maxRenewals: number;
+  readonly maxItems: number | null;
+  readonly gracePeriodDays: number;
 }
 
 /** 貸出レシート */
@@ -25,6 +43,7 @@ export interface LoanReceipt {
   readonly loan: Loan;
   readonly bookTitle: string;
   readonly userName: string;
+  readonly policy: AppliedLoanPolicy;
 }
 
 /** 返却結果 */
@@ -38,12 +57,101 @@ export interface ReturnResult {
     readonly overdueDays: number;
     readonly recordedAt: string;
   };
+  readonly fine?: FineTransaction;
+}
+
+/** リコール結果 */
+export interface RecallResult {
+  readonly loan: Loan;
+  /** 短縮前の返却期限 */
+  readonly previousDueDate: string;
+  /** 利用者への通知を送信できたか */
+  readonly notified: boolean;
+}
+
+/** 返却処理オプション */
+export interface ReturnBookOptions {
+  /** 実効返却日時（ISO 8601、司書のみ指定可能） */
+  readonly effectiveReturnDate?: string;
+  /** 返却を受け付けたサービスポイントID（予約の受取館と異なる場合は輸送依頼が作成される） */
+  readonly servicePointId?: string;
+}
+
+/** 返却ポストモード */
+export interface BookDropMode {
+  readonly enabled: boolean;
+  readonly updatedAt: string;
+}
+
+/** 貸出作成入力（蔵書コピーIDまたはバーコードで蔵書コピーを指定） */
+export type CreateLoanInput =
+  | { readonly userId: string; readonly bookCopyId: string }
+  | { readonly userId: string; readonly barcode: string };
+
+/** 一括処理の対象（蔵書コピーIDまたはバーコードのリスト） */
+export type BatchCopyReferences =
+  | { readonly bookCopyIds: readonly string[] }
+  | { readonly barcodes: readonly string[] };
+
+/**
+ * 一括処理モード
+ * - ALL_OR_NOTHING: 1件でも失敗した場合はすべて取り消す
+ * - PARTIAL: 成功した項目のみ確定する
+ */
+export type BatchMode = 'ALL_OR_NOTHING' | 'PARTIAL';
+
+/** 一括処理の項目ステータス */
+export type BatchItemStatus = 'SUCCEEDED' | 'FAILED' | 'ROLLED_BACK';
+
+/** 一括貸出入力 */
+export type BatchCheckoutInput = BatchCopyReferences & {
+  readonly userId: string;
+  readonly mode: BatchMode;
+};
+
+/** 一括返却入力 */
+export type BatchReturnInput = BatchCopyReferences & {
+  readonly mode: BatchMode;
+  /** 返却を受け付けたサービスポイントID */
+  readonly servicePointId?: string;
+};
+
+/** 一括貸出の項目結果 */
+export interface BatchCheckoutItem {
+  readonly bookCopyId: string;
+  readonly status: BatchItemStatus;
+  readonly loan: Loan | null;
+  readonly bookTitle: string | null;
+  readonly error: LoanApiError['error'] | null;
 }
 
-/** 貸出作成入力 */
-export interface CreateLoanInput {
+/** 一括貸出レシート */
+export interface BatchCheckoutReceipt {
   readonly userId: string;
+  readonly userName: string;
+  readonly mode: BatchMode;
+  readonly committed: boolean;
+  readonly items: readonly BatchCheckoutItem[];
+  readonly succeededCount: number;
+  readonly failedCount: number;
+}
+
+/** 一括返却の項目結果 */
+export interface BatchReturnItem {
   readonly bookCopyId: string;
+  readonly status: BatchItemStatus;
+  readonly result: ReturnResult | null;
+  readonly error: LoanApiError['error'] | null;
+}
+
+/** 一括返却レシート */
+export interface BatchReturnReceipt {
+  readonly mode: BatchMode;
+  readonly committed: boolean;
+  readonly items: readonly BatchReturnItem[];
+  readonly succeededCount: number;
+  readonly failedCount: number;
+  readonly overdueCount: number;
 }
 
 /** APIエラーレスポンス */
@@ -53,10 +161,23 @@ export interface LoanApiError {
       | 'VALIDATION_ERROR'
       | 'USER_NOT_FOUND'
       | 'COPY_NOT_FOUND'
+      | 'COPY_NOT_ON_LOAN'
       | 'LOAN_NOT_FOUND'
       | 'BOOK_NOT_AVAILABLE'
+      | 'COPY_ON_HOLD'
       | 'LOAN_LIMIT_EXCEEDED'
-      | 'ALREADY_RETURNED';
+      | 'ALREADY_RETURNED'
+      | 'LOAN_OVERDUE'
+      | 'RENEWAL_LIMIT_EXCEEDED'
+      | 'RESERVED_BY_OTHER_USER'
+      | 'CATEGORY_LOAN_LIMIT_EXCEEDED'
+      | 'INVALID_LOAN_STATUS'
+      | 'CLAIM_LIMIT_EXCEEDED'
+      | 'CLAIM_NOT_FOUND'
+      | 'FINES_OUTSTANDING'
+      | 'ALREADY_RECALLED'
+      | 'LOAN_RECALLED'
+      | 'BARCODE_NOT_FOUND';
     readonly field?: string;
     readonly message?: string;
     readonly userId?: string;
@@ -64,6 +185,12 @@ export interface LoanApiError {
     readonly loanId?: string;
     readonly limit?: number;
     readonly currentCount?: number;
+    readonly renewalCount?: number;
+    readonly bookId?: string;
+    readonly category?: string;
+    readonly balance?: number;
+    readonly threshold?: number;
+    readonly barcode?: string;
   };
 }
 
@@ -80,6 +207,51 @@ export async function createLoan(input: CreateLoanInput): Promise<LoanReceipt> {
   return apiClient.post<LoanReceipt>(API_BASE, input);
 }
 
+/**
+ * 取り消された一括処理（409）のレスポンスからレシートを取り出す
+ */
+function extractRolledBackReceipt<T extends { readonly committed: boolean }>(
+  error: unknown
+): T | null {
+  if (error instanceof ApiError && error.status === 409) {
+    const data = error.data as Partial<T> | undefined;
+    if (data?.committed === false) {
+      return data as T;
+    }
+  }
+  return null;
+}
+
+/**
+ * 一括貸出（取り消された場合も項目ごとの結果を含むレシートを返す）
+ */
+export async function checkoutBatch(input: BatchCheckoutInput): Promise<BatchCheckoutReceipt> {
+  try {
+    return await apiClient.post<BatchCheckoutReceipt>(`${API_BASE}/batch`, input);
+  } catch (error) {
+    const receipt = extractRolledBackReceipt<BatchCheckoutReceipt>(error);
+    if (receipt === null) {
+      throw error;
+    }
+    return receipt;
+  }
+}
+
+/**
+ * 一括返却（取り消された場合も項目ごとの結果を含むレシートを返す）
+ */
+export async function returnBatch(input: BatchReturnInput): Promise<BatchReturnReceipt> {
+  try {
+    return await apiClient.post<BatchReturnReceipt>(`${API_BASE}/returns/batch`, input);
+  } catch (error) {
+    const receipt = extractRolledBackReceipt<BatchReturnReceipt>(error);
+    if (receipt === null) {
+      throw error;
+    }
+    return receipt;
+  }
+}
+
 /**
  * 貸出詳細を取得
  */
@@ -90,6 +262,37 @@ export async function getLoan(id: string): Promise<Loan> {
 /**
  * 返却処理
  */
-export async function returnBook(loanId: string): Promise<ReturnResult> {
-  return apiClient.post<ReturnResult>(`${API_BASE}/${loanId}/return`, {});
+export async function returnBook(
+  loanId: string,
+  options: ReturnBookOptions = {}
+): Promise<ReturnResult> {
+  return apiClient.post<ReturnResult>(`${API_BASE}/${loanId}/return`, options);
+}
+
+/**
+ * 返却ポストモードを取得
+ */
+export async function getBookDropMode(): Promise<BookDropMode> {
+  return apiClient.get<BookDropMode>(`${API_BASE}/book-drop`);
+}
+
+/**
+ * 返却ポストモードを切り替え
+ */
+export async function setBookDropMode(enabled: boolean): Promise<BookDropMode> {
+  return apiClient.put<BookDropMode>(`${API_BASE}/book-drop`, { enabled });
+}
+
+/**
+ * 貸出延長
+ */
+export async function renewLoan(loanId: string): Promise<Loan> {
+  return apiClient.post<Loan>(`${API_BASE}/${loanId}/renew`, {});
+}
+
+/**
+ * 貸出をリコール（司書のみ）
+ */
+export async function recallLoan(loanId: string): Promise<RecallResult> {
+  return apiClient.post<RecallResult>(`${API_BASE}/${loanId}/recall`, {});
 }
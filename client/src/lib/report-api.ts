@@ -5,6 +5,7 @@
  */
 
 import { apiClient } from './api-client';
+import type { BookContributor } from './book-api';
 
 // ============================================
 // 型定義
@@ -21,6 +22,8 @@ export interface StatisticsSummary {
   readonly loanCount: number;
   readonly returnCount: number;
   readonly overdueCount: number;
+  /** 延長数（期間内に貸し出した貸出の延長回数の合計） */
+  readonly renewalCount: number;
   readonly dateRange: DateRange;
 }
 
@@ -29,6 +32,7 @@ export interface PopularBookItem {
   readonly bookId: string;
   readonly title: string;
   readonly author: string;
+  readonly contributors: readonly BookContributor[];
   readonly loanCount: number;
   readonly rank: number;
 }
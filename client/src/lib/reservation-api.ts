@@ -13,6 +13,7 @@ import { apiClient } from './api-client';
 /** 予約ステータス */
 export type ReservationStatus =
   | 'PENDING'
+  | 'IN_TRANSIT'
   | 'NOTIFIED'
   | 'FULFILLED'
   | 'EXPIRED'
@@ -28,12 +29,55 @@ export interface Reservation {
   readonly expiresAt: string | null;
   readonly status: ReservationStatus;
   readonly queuePosition: number;
+  /** 取り置き棚に確保した蔵書コピーID */
+  readonly copyId: string | null;
+  /** 休止期限（この日時まで取り置きの通知を保留する、休止していない場合はnull） */
+  readonly suspendedUntil: string | null;
+  /** 受取館のサービスポイントID（指定がない場合はnull） */
+  readonly pickupLocationId: string | null;
+}
+
+/** 予約キューの手動並べ替えの履歴 */
+export interface ReservationQueueChange {
+  readonly id: string;
+  readonly reservationId: string;
+  readonly bookId: string;
+  /** 操作した職員の利用者ID */
+  readonly staffId: string;
+  readonly fromPosition: number;
+  readonly toPosition: number;
+  readonly reason: string;
+  readonly changedAt: string;
+}
+
+/** 輸送依頼ステータス */
+export type TransitRequestStatus = 'IN_TRANSIT' | 'RECEIVED';
+
+/** 輸送依頼（返却されたサービスポイントから予約の受取館への蔵書コピーの輸送） */
+export interface TransitRequest {
+  readonly id: string;
+  readonly copyId: string;
+  readonly reservationId: string;
+  readonly fromServicePointId: string;
+  readonly toServicePointId: string;
+  readonly status: TransitRequestStatus;
+  readonly createdAt: string;
+  readonly receivedAt: string | null;
+}
+
+/** 輸送依頼の受領結果 */
+export interface ReceiveTransitResult {
+  readonly transitRequest: TransitRequest;
+  /** 取り置きを開始して通知された予約（なければnull） */
+  readonly notifiedReservation: Reservation | null;
 }
 
 /** 予約作成入力 */
 export interface CreateReservationInput {
   readonly userId: string;
   readonly bookId: string;
+  /** 受取館のサービスポイントID */
+  readonly pickupLocationId?: string;
 }
 
 /** APIエラーレスポンス */
@@ -45,12 +89,26 @@ export interface ReservationApiError {
       | 'ALREADY_RESERVED'
       | 'RESERVATION_NOT_FOUND'
       | 'BOOK_NOT_FOUND'
-      | 'USER_NOT_FOUND';
+      | 'USER_NOT_FOUND'
+      | 'RESERVATION_LIMIT_EXCEEDED'
+      | 'BOOK_ALREADY_ON_LOAN'
+      | 'PATRON_BLOCKED'
+      | 'INVALID_RESERVATION_STATUS'
+      | 'SERVICE_POINT_NOT_FOUND'
+      | 'TRANSIT_NOT_FOUND'
+      | 'TRANSIT_ALREADY_RECEIVED';
     readonly field?: string;
     readonly message?: string;
     readonly userId?: string;
     readonly bookId?: string;
     readonly reservationId?: string;
+    readonly status?: ReservationStatus;
+    readonly servicePointId?: string;
+    readonly transitRequestId?: string;
+    readonly limit?: number;
+    readonly currentCount?: number;
+    readonly balance?: number;
+    readonly threshold?: number;
   };
 }
 
@@ -76,6 +134,33 @@ export async function cancelReservation(reservationId: string): Promise<void> {
   return apiClient.delete<void>(`${API_BASE}/reservations/${reservationId}`);
 }
 
+/**
+ * 取り置き棚の回収リストを取得（対象日を省略した場合は今日）
+ */
+export async function getHoldShelfPullList(date?: string): Promise<Reservation[]> {
+  const query = date !== undefined ? `?date=${encodeURIComponent(date)}` : '';
+  return apiClient.get<Reservation[]>(`${API_BASE}/reservations/hold-shelf/pull-list${query}`);
+}
+
+/**
+ * 予約を休止（休止期限は YYYY-MM-DD 形式）
+ */
+export async function suspendReservation(
+  reservationId: string,
+  until: string
+): Promise<Reservation> {
+  return apiClient.post<Reservation>(`${API_BASE}/reservations/${reservationId}/suspend`, {
+    until,
+  });
+}
+
+/**
+ * 予約の休止を解除
+ */
+export async function resumeReservation(reservationId: string): Promise<Reservation> {
+  return apiClient.post<Reservation>(`${API_BASE}/reservations/${reservationId}/resume`, {});
+}
+
 /**
  * 利用者の予約一覧を取得
  */
@@ -84,3 +169,84 @@ export async function getUserReservations(
 ): Promise<Reservation[]> {
   return apiClient.get<Reservation[]>(`${API_BASE}/users/${userId}/reservations`);
 }
+
+/**
+ * 利用者の予約待ちの予約をすべて休止（休止期限は YYYY-MM-DD 形式）
+ */
+export async function suspendUserReservations(
+  userId: string,
+  until: string
+): Promise<Reservation[]> {
+  return apiClient.post<Reservation[]>(`${API_BASE}/users/${userId}/reservations/suspend`, {
+    until,
+  });
+}
+
+/**
+ * 利用者の予約の休止をすべて解除
+ */
+export async function resumeUserReservations(userId: string): Promise<Reservation[]> {
+  return apiClient.post<Reservation[]>(`${API_BASE}/users/${userId}/reservations/resume`, {});
+}
+
+/**
+ * 書籍の予約キューを取得（図書館員のみ）
+ */
+export async function getReservationQueue(bookId: string): Promise<Reservation[]> {
+  return apiClient.get<Reservation[]>(`${API_BASE}/books/${bookId}/reservation-queue`);
+}
+
+/**
+ * 書籍の予約キューの変更履歴を取得（図書館員のみ）
+ */
+export async function getReservationQueueChanges(
+  bookId: string
+): Promise<ReservationQueueChange[]> {
+  return apiClient.get<ReservationQueueChange[]>(
+    `${API_BASE}/books/${bookId}/reservation-queue/changes`
+  );
+}
+
+/**
+ * 予約キューの順番を1から振り直す（図書館員のみ）
+ */
+export async function renumberReservationQueue(bookId: string): Promise<Reservation[]> {
+  return apiClient.post<Reservation[]>(
+    `${API_BASE}/books/${bookId}/reservation-queue/renumber`,
+    {}
+  );
+}
+
+/**
+ * 予約キュー内の順番を移動（図書館員のみ）
+ */
+export async function moveReservation(
+  reservationId: string,
+  position: number,
+  reason: string
+): Promise<Reservation> {
+  return apiClient.post<Reservation>(`${API_BASE}/reservations/${reservationId}/move`, {
+    position,
+    reason,
+  });
+}
+
+/**
+ * 輸送依頼の一覧を取得（図書館員のみ、ステータスを省略した場合はすべて）
+ */
+export async function getTransitRequests(
+  status?: TransitRequestStatus
+): Promise<TransitRequest[]> {
+  const query = status !== undefined ? `?status=${status}` : '';
+  return apiClient.get<TransitRequest[]>(`${API_BASE}/transits${query}`);
+}
+
+/**
+ * 輸送依頼の蔵書コピーを受取館で受領（図書館員のみ）
+ */
+export async function receiveTransit(transitRequestId: string): Promise<ReceiveTransitResult> {
+  return apiClient.post<ReceiveTransitResult>(
+    `${API_BASE}/transits/${transitRequestId}/receive`,
+    {}
+  );
+}
@@ -6,6 +6,7 @@
  */
 
 import { apiClient } from './api-client';
+import type { BookClassification, BookContributor, BookSubjectHeading } from './book-api';
 
 // ============================================
 // 型定義
@@ -22,10 +23,16 @@ export interface SearchBook {
   readonly id: string;
   readonly title: string;
   readonly author: string;
+  readonly contributors: readonly BookContributor[];
   readonly publisher: string | null;
   readonly publicationYear: number | null;
   readonly isbn: string;
+  /** 登録グループの範囲で区切った表示用ISBN（例: 978-4-00-310101-8） */
+  readonly isbnHyphenated: string;
   readonly category: string | null;
+  readonly classification: BookClassification | null;
+  readonly callNumber: string | null;
+  readonly subjectHeadings: readonly BookSubjectHeading[];
   readonly availableCopies: number;
   readonly totalCopies: number;
 }
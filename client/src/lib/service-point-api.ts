@@ -0,0 +1,46 @@
+/**
+ * サービスポイントAPI クライアント
+ *
+ * サービスポイント（予約の受取館）のREST APIとの通信を行うための関数群
+ */
+
+import { apiClient } from './api-client';
+
+// ============================================
+// 型定義
+// ============================================
+
+/** サービスポイント（分館・カウンター） */
+export interface ServicePoint {
+  readonly id: string;
+  readonly code: string;
+  readonly name: string;
+  /** 無効化されたサービスポイントは受取館に指定できない */
+  readonly active: boolean;
+  readonly createdAt: string;
+  readonly updatedAt: string;
+}
+
+/** APIエラーレスポンス */
+export interface ServicePointApiError {
+  readonly error: {
+    readonly type: 'VALIDATION_ERROR' | 'SERVICE_POINT_NOT_FOUND' | 'DUPLICATE_SERVICE_POINT';
+    readonly field?: string;
+    readonly message?: string;
+    readonly servicePointId?: string;
+    readonly code?: string;
+  };
+}
+
+// ============================================
+// API 関数
+// ============================================
+
+const API_BASE = '/api/service-points';
+
+/**
+ * サービスポイント一覧を取得（無効化したものを含む）
+ */
+export async function getServicePoints(): Promise<ServicePoint[]> {
+  return apiClient.get<ServicePoint[]>(API_BASE);
+}
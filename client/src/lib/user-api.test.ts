@@ -39,6 +39,7 @@ const mockUserWithLoans: UserWithLoans = {
       borrowedAt: '2024-12-01T10:00:00.000Z',
       dueDate: '2024-12-15T10:00:00.000Z',
       returnedAt: null,
+      status: 'ACTIVE',
       isOverdue: false,
     },
   ],
@@ -50,6 +51,7 @@ const mockUserWithLoans: UserWithLoans = {
       borrowedAt: '2024-11-01T10:00:00.000Z',
       dueDate: '2024-11-15T10:00:00.000Z',
       returnedAt: '2024-11-14T10:00:00.000Z',
+      status: 'RETURNED',
       isOverdue: false,
     },
   ],
@@ -5,6 +5,7 @@
  */
 
 import { apiClient } from './api-client';
+import type { LoanStatus } from './loan-api';
 
 // ============================================
 // 型定義
@@ -29,6 +30,7 @@ export interface LoanSummary {
   readonly borrowedAt: string;
   readonly dueDate: string;
   readonly returnedAt: string | null;
+  readonly status: LoanStatus;
   readonly isOverdue: boolean;
 }
 
@@ -9,20 +9,29 @@ import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { BooksPage } from './BooksPage';
 import * as bookApi from '../lib/book-api';
+import * as bookImportApi from '../lib/book-import-api';
 import type { Book } from '../lib/book-api';
+import type { BookImportJob, BookImportPreview } from '../lib/book-import-api';
+import { ApiError } from '../lib/api-client';
 
 // API モック
 vi.mock('../lib/book-api');
+vi.mock('../lib/book-import-api');
 
 const mockBooks: readonly Book[] = [
   {
     id: 'book-1',
     title: 'TypeScript入門',
     author: '山田太郎',
+    contributors: [],
     publisher: '技術評論社',
     publicationYear: 2024,
     isbn: '9784123456789',
+    isbnHyphenated: '978-4-12-345678-9',
     category: 'プログラミング',
+    classification: null,
+    callNumber: null,
+    subjectHeadings: [],
     createdAt: '2024-01-01T00:00:00.000Z',
     updatedAt: '2024-01-01T00:00:00.000Z',
   },
@@ -30,15 +39,71 @@ const mockBooks: readonly Book[] = [
     id: 'book-2',
     title: 'React実践ガイド',
     author: '佐藤花子',
+    contributors: [],
     publisher: 'オライリー・ジャパン',
     publicationYear: 2023,
     isbn: '9784987654321',
+    isbnHyphenated: '978-4-9876543-2-1',
     category: 'プログラミング',
+    classification: null,
+    callNumber: null,
+    subjectHeadings: [],
     createdAt: '2024-02-01T00:00:00.000Z',
     updatedAt: '2024-02-01T00:00:00.000Z',
   },
 ];
 
+const importCsv = [
+  'タイトル,著者,出版社,ISBN,棚',
+  'TypeScript入門,山田太郎,技術評論社,9784123456789,1F-A-01',
+  '新しい本,鈴木一郎,技術評論社,9784000000000,1F-A-02',
+].join('\n');
+
+const mockPreview: BookImportPreview = {
+  format: 'CSV',
+  totalRows: 2,
+  createCount: 0,
+  updateCount: 1,
+  errorCount: 1,
+  copyCount: 1,
+  rows: [
+    {
+      rowNumber: 2,
+      action: 'UPDATE',
+      isbn: '9784123456789',
+      title: 'TypeScript入門',
+      bookId: 'book-1',
+      copyCount: 1,
+      errors: [],
+    },
+    {
+      rowNumber: 3,
+      action: 'ERROR',
+      isbn: '9784000000000',
+      title: '新しい本',
+      bookId: null,
+      copyCount: 1,
+      errors: [{ field: 'isbn', message: 'Invalid ISBN-13 checksum' }],
+    },
+  ],
+};
+
+const mockImportJob: BookImportJob = {
+  id: 'import-1',
+  format: 'CSV',
+  status: 'PENDING',
+  totalRows: 2,
+  processedRows: 0,
+  createdCount: 0,
+  updatedCount: 0,
+  failedCount: 0,
+  chunkSize: 1,
+  createdBy: 'staff-1',
+  createdAt: '2024-03-01T00:00:00.000Z',
+  updatedAt: '2024-03-01T00:00:00.000Z',
+  completedAt: null,
+};
+
 describe('BooksPage', () => {
   beforeEach(() => {
     vi.resetAllMocks();
@@ -67,6 +132,14 @@ describe('BooksPage', () => {
       });
     });
 
+    it('ISBNがハイフン区切りで表示される', async () => {
+      render(<BooksPage />);
+      
+      await waitFor(() => {
+        expect(screen.getByText('978-4-12-345678-9')).toBeInTheDocument();
+      });
+    });
+
     it('データ取得中はローディング表示', async () => {
       vi.mocked(bookApi.getBooks).mockImplementation(
         () => new Promise(() => {})
@@ -120,10 +193,15 @@ describe('BooksPage', () => {
         id: 'book-3',
         title: 'Node.js完全ガイド',
         author: '田中次郎',
+        contributors: [],
         publisher: 'テスト出版社',
         publicationYear: null,
         isbn: '9781234567890',
+        isbnHyphenated: '978-1-234-56789-0',
         category: null,
+        classification: null,
+        callNumber: null,
+        subjectHeadings: [],
         createdAt: '2024-03-01T00:00:00.000Z',
         updatedAt: '2024-03-01T00:00:00.000Z',
       };
@@ -317,4 +395,129 @@ describe('BooksPage', () => {
       });
     });
   });
+
+  describe('一括取り込み', () => {
+    /** ファイルを選択して列の対応付けまで進める */
+    async function openMappingStep(user: ReturnType<typeof userEvent.setup>): Promise<void> {
+      render(<BooksPage />);
+      await user.click(screen.getByRole('button', { name: '一括取り込み' }));
+      await user.upload(
+        screen.getByLabelText('取り込みファイル（CSV・TSV）'),
+        new File([importCsv], 'books.csv', { type: 'text/csv' })
+      );
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: '次へ' })).toBeEnabled();
+      });
+      await user.click(screen.getByRole('button', { name: '次へ' }));
+    }
+
+    it('見出し行の列名から列の対応付けを推定する', async () => {
+      const user = userEvent.setup();
+      await openMappingStep(user);
+
+      expect(screen.getByLabelText('タイトル *')).toHaveValue('タイトル');
+      expect(screen.getByLabelText('ISBN *')).toHaveValue('ISBN');
+      expect(screen.getByLabelText('配置場所')).toHaveValue('');
+    });
+
+    it('必須項目の列を対応付けるまでドライランできない', async () => {
+      const user = userEvent.setup();
+      await openMappingStep(user);
+
+      await user.selectOptions(screen.getByLabelText('ISBN *'), '');
+
+      expect(screen.getByRole('button', { name: 'ドライラン' })).toBeDisabled();
+    });
+
+    it('ドライランの結果とエラー行を表示する', async () => {
+      const user = userEvent.setup();
+      vi.mocked(bookImportApi.previewBookImport).mockResolvedValue(mockPreview);
+      await openMappingStep(user);
+
+      await user.selectOptions(screen.getByLabelText('配置場所'), '棚');
+      await user.click(screen.getByRole('button', { name: 'ドライラン' }));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('import-preview')).toHaveTextContent(
+          '全2行: 登録 0件 / 更新 1件 / エラー 1件（蔵書コピー 1冊）'
+        );
+      });
+      expect(screen.getByTestId('import-error-row-3')).toHaveTextContent(
+        'Invalid ISBN-13 checksum'
+      );
+      expect(bookImportApi.previewBookImport).toHaveBeenCalledWith({
+        content: importCsv,
+        format: 'CSV',
+        mapping: {
+          title: 'タイトル',
+          author: '著者',
+          publisher: '出版社',
+          isbn: 'ISBN',
+          location: '棚',
+        },
+      });
+    });
+
+    it('取り込みを完了するまでチャンク単位で実行し、進捗を表示する', async () => {
+      const user = userEvent.setup();
+      vi.mocked(bookImportApi.previewBookImport).mockResolvedValue(mockPreview);
+      vi.mocked(bookImportApi.createBookImportJob).mockResolvedValue(mockImportJob);
+      vi.mocked(bookImportApi.runBookImportChunk)
+        .mockResolvedValueOnce({ ...mockImportJob, status: 'IN_PROGRESS', processedRows: 1, updatedCount: 1 })
+        .mockResolvedValueOnce({
+          ...mockImportJob,
+          status: 'COMPLETED',
+          processedRows: 2,
+          updatedCount: 1,
+          failedCount: 1,
+        });
+      vi.mocked(bookImportApi.getBookImportRows).mockResolvedValue([
+        {
+          jobId: 'import-1',
+          rowNumber: 3,
+          status: 'FAILED',
+          bookId: null,
+          copiesCreated: 0,
+          errors: [{ field: 'isbn', message: 'Invalid ISBN-13 checksum' }],
+        },
+      ]);
+      await openMappingStep(user);
+      await user.click(screen.getByRole('button', { name: 'ドライラン' }));
+      await user.click(await screen.findByRole('button', { name: '取り込みを実行' }));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('import-progress')).toHaveTextContent('2 / 2 行を処理しました');
+      });
+      expect(screen.getByTestId('import-progress')).toHaveTextContent(
+        '取り込み完了: 登録 0件 / 更新 1件 / 失敗 1件'
+      );
+      expect(bookImportApi.runBookImportChunk).toHaveBeenCalledTimes(2);
+      expect(bookImportApi.getBookImportRows).toHaveBeenCalledWith('import-1', 'FAILED');
+      // 取り込み後に書籍一覧を再取得する
+      expect(bookApi.getBooks).toHaveBeenCalledTimes(2);
+    });
+
+    it('取り込みが中断された場合は再開できる', async () => {
+      const user = userEvent.setup();
+      vi.mocked(bookImportApi.previewBookImport).mockResolvedValue(mockPreview);
+      vi.mocked(bookImportApi.createBookImportJob).mockResolvedValue(mockImportJob);
+      vi.mocked(bookImportApi.runBookImportChunk)
+        .mockResolvedValueOnce({ ...mockImportJob, status: 'IN_PROGRESS', processedRows: 1 })
+        .mockRejectedValueOnce(new ApiError(500, 'Internal Server Error', {}))
+        .mockResolvedValueOnce({ ...mockImportJob, status: 'COMPLETED', processedRows: 2 });
+      await openMappingStep(user);
+      await user.click(screen.getByRole('button', { name: 'ドライラン' }));
+      await user.click(await screen.findByRole('button', { name: '取り込みを実行' }));
+
+      expect(await screen.findByText('取り込みが中断されました。再開してください')).toBeInTheDocument();
+      expect(screen.getByTestId('import-progress')).toHaveTextContent('1 / 2 行を処理しました');
+
+      await user.click(screen.getByRole('button', { name: '再開' }));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('import-progress')).toHaveTextContent('2 / 2 行を処理しました');
+      });
+      expect(bookImportApi.runBookImportChunk).toHaveBeenLastCalledWith('import-1');
+    });
+  });
 });
@@ -1,13 +1,27 @@
-import React, { useState, useEffect, useCallback, type FormEvent } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, type FormEvent, type ChangeEvent } from 'react';
 import { FormInput, DataTable, ConfirmDialog, Alert, type Column } from '../components';
 import {
   getBooks,
   createBook,
   updateBook,
   deleteBook,
+  previewBookImport,
+  createBookImportJob,
+  runBookImportChunk,
+  getBookImportRows,
+  ApiError,
   type Book,
   type CreateBookInput,
   type UpdateBookInput,
+  type BookImportFormat,
+  type BookImportField,
+  type BookImportColumnMapping,
+  type BookImportInput,
+  type BookImportPreview,
+  type BookImportJob,
+  type BookImportRow,
+  type BookImportFieldError,
+  type BookImportApiError,
 } from '../lib';
 
 // ============================================
@@ -33,6 +47,9 @@ interface AlertInfo {
   type: 'success' | 'error';
 }
 
+/** 一括取り込みウィザードのステップ */
+type ImportStep = 'file' | 'mapping' | 'preview' | 'run';
+
 // ============================================
 // 初期値
 // ============================================
@@ -46,6 +63,460 @@ const initialFormData: BookFormData = {
   category: '',
 };
 
+// ============================================
+// 一括取り込み
+// ============================================
+
+/** 取り込み項目の表示名（列の対応付けの表示順） */
+const IMPORT_FIELD_LABELS: Record<BookImportField, string> = {
+  title: 'タイトル',
+  author: '著者',
+  publisher: '出版社',
+  isbn: 'ISBN',
+  publicationYear: '出版年',
+  category: 'カテゴリ',
+  location: '配置場所',
+  copyCount: '冊数',
+};
+
+/** 列の対応付けが必須の取り込み項目 */
+const REQUIRED_IMPORT_FIELDS: readonly BookImportField[] = ['title', 'author', 'publisher', 'isbn'];
+
+const IMPORT_FIELDS = Object.keys(IMPORT_FIELD_LABELS) as BookImportField[];
+
+/**
+ * ファイル名の拡張子からファイル形式を判定
+ */
+function detectImportFormat(fileName: string): BookImportFormat {
+  return /\.(tsv|tab)$/i.test(fileName) ? 'TSV' : 'CSV';
+}
+
+/**
+ * ファイルの内容をテキスト（UTF-8）として読み込む
+ */
+function readFileAsText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : '');
+    reader.onerror = () => reject(reader.error ?? new Error('ファイルを読み込めませんでした'));
+    reader.readAsText(file);
+  });
+}
+
+/**
+ * 見出し行（最初の行）の列名を取得
+ *
+ * ダブルクォートで囲んだ列名（区切り文字・「""」を含む）にも対応する
+ */
+function parseHeaderRow(content: string, format: BookImportFormat): string[] {
+  const delimiter = format === 'TSV' ? '\t' : ',';
+  const text = content.startsWith('\uFEFF') ? content.slice(1) : content;
+  const columns: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      columns.push(value.trim());
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      break;
+    } else {
+      value += char;
+    }
+  }
+  columns.push(value.trim());
+
+  return columns.filter((column) => column !== '');
+}
+
+/**
+ * 見出し行の列名から列の対応付けを推定
+ *
+ * 項目名（title など）または表示名（タイトル など）と一致する列を対応付ける
+ */
+function guessColumnMapping(headers: readonly string[]): BookImportColumnMapping {
+  const mapping: Partial<Record<BookImportField, string>> = {};
+  for (const field of IMPORT_FIELDS) {
+    const header = headers.find(
+      (h) => h.toLowerCase() === field.toLowerCase() || h === IMPORT_FIELD_LABELS[field]
+    );
+    if (header !== undefined) {
+      mapping[field] = header;
+    }
+  }
+  return mapping;
+}
+
+/**
+ * 行の検証エラーを表示用の文字列に変換
+ */
+function describeFieldErrors(errors: readonly BookImportFieldError[]): string {
+  return errors.map((e) => e.message).join(' / ');
+}
+
+/**
+ * 一括取り込みAPIのエラーを表示用の文字列に変換
+ */
+function describeImportError(error: unknown, fallback: string): string {
+  if (error instanceof ApiError) {
+    const detail = (error.data as Partial<BookImportApiError> | undefined)?.error;
+    if (detail?.message !== undefined) {
+      return detail.message;
+    }
+  }
+  return fallback;
+}
+
+/**
+ * 書籍一括取り込みウィザード
+ *
+ * ファイル選択 → 列の対応付け → ドライラン → 取り込み実行 の順に進む。
+ * 取り込みはチャンク単位で実行し、失敗した場合は中断した位置から再開できる。
+ */
+function BookImportWizard({
+  onClose,
+  onCompleted,
+}: {
+  readonly onClose: () => void;
+  readonly onCompleted: (job: BookImportJob) => void;
+}): React.ReactElement {
+  const [step, setStep] = useState<ImportStep>('file');
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState('');
+  const [format, setFormat] = useState<BookImportFormat>('CSV');
+  const [headers, setHeaders] = useState<readonly string[]>([]);
+  const [mapping, setMapping] = useState<BookImportColumnMapping>({});
+  const [preview, setPreview] = useState<BookImportPreview | null>(null);
+  const [job, setJob] = useState<BookImportJob | null>(null);
+  const [failedRows, setFailedRows] = useState<readonly BookImportRow[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const importInput = useMemo<BookImportInput>(
+    () => ({ content, format, mapping }),
+    [content, format, mapping]
+  );
+
+  // ファイル選択
+  const handleFileChange = useCallback(async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file === undefined) return;
+    setFileName(file.name);
+    setFormat(detectImportFormat(file.name));
+    try {
+      setContent(await readFileAsText(file));
+      setError(null);
+    } catch {
+      setError('ファイルを読み込めませんでした');
+    }
+  }, []);
+
+  // 列の対応付けへ進む
+  const handleProceedToMapping = useCallback(() => {
+    const parsedHeaders = parseHeaderRow(content, format);
+    if (parsedHeaders.length === 0) {
+      setError('見出し行を読み込めませんでした');
+      return;
+    }
+    setHeaders(parsedHeaders);
+    setMapping(guessColumnMapping(parsedHeaders));
+    setError(null);
+    setStep('mapping');
+  }, [content, format]);
+
+  // 列の対応付けを変更
+  const handleMappingChange = useCallback((field: BookImportField, header: string) => {
+    setMapping((prev) => {
+      const next: Partial<Record<BookImportField, string>> = { ...prev };
+      if (header === '') {
+        delete next[field];
+      } else {
+        next[field] = header;
+      }
+      return next;
+    });
+  }, []);
+
+  const missingRequiredFields = REQUIRED_IMPORT_FIELDS.filter(
+    (field) => mapping[field] === undefined
+  );
+
+  // ドライラン
+  const handlePreview = useCallback(async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setPreview(await previewBookImport(importInput));
+      setStep('preview');
+    } catch (e) {
+      setError(describeImportError(e, 'ドライランに失敗しました'));
+    } finally {
+      setBusy(false);
+    }
+  }, [importInput]);
+
+  // 完了するまでチャンク単位で取り込む（失敗した場合は中断した位置から再開できる）
+  const runUntilCompleted = useCallback(async (target: BookImportJob) => {
+    setBusy(true);
+    setError(null);
+    let current = target;
+    try {
+      while (current.status !== 'COMPLETED') {
+        current = await runBookImportChunk(current.id);
+        setJob(current);
+      }
+      if (current.failedCount > 0) {
+        setFailedRows(await getBookImportRows(current.id, 'FAILED'));
+      }
+      onCompleted(current);
+    } catch (e) {
+      setError(describeImportError(e, '取り込みが中断されました。再開してください'));
+    } finally {
+      setBusy(false);
+    }
+  }, [onCompleted]);
+
+  // 取り込み実行
+  const handleRun = useCallback(async () => {
+    setBusy(true);
+    setError(null);
+    let created: BookImportJob;
+    try {
+      created = await createBookImportJob(importInput);
+    } catch (e) {
+      setError(describeImportError(e, '取り込みジョブの作成に失敗しました'));
+      setBusy(false);
+      return;
+    }
+    setJob(created);
+    setStep('run');
+    await runUntilCompleted(created);
+  }, [importInput, runUntilCompleted]);
+
+  return (
+    <div className="books-page-form-overlay" onClick={busy ? undefined : onClose}>
+      <div
+        className="books-page-form-container books-page-import-wizard"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2>書籍の一括取り込み</h2>
+
+        {error !== null && (
+          <p className="books-page-import-error" role="alert">
+            {error}
+          </p>
+        )}
+
+        {/* ステップ1: ファイル選択 */}
+        {step === 'file' && (
+          <div>
+            <label htmlFor="importFile" className="form-input-label">
+              取り込みファイル（CSV・TSV）
+            </label>
+            <input
+              id="importFile"
+              type="file"
+              accept=".csv,.tsv,.txt"
+              onChange={(e) => void handleFileChange(e)}
+            />
+            <label htmlFor="importFormat" className="form-input-label">
+              ファイル形式
+            </label>
+            <select
+              id="importFormat"
+              value={format}
+              onChange={(e: ChangeEvent<HTMLSelectElement>) =>
+                setFormat(e.target.value as BookImportFormat)
+              }
+              className="form-input"
+            >
+              <option value="CSV">CSV（カンマ区切り）</option>
+              <option value="TSV">TSV（タブ区切り）</option>
+            </select>
+            <div className="books-page-form-actions">
+              <button type="button" className="books-page-form-cancel-button" onClick={onClose}>
+                キャンセル
+              </button>
+              <button
+                type="button"
+                className="books-page-form-submit-button"
+                onClick={handleProceedToMapping}
+                disabled={content === ''}
+              >
+                次へ
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* ステップ2: 列の対応付け */}
+        {step === 'mapping' && (
+          <div>
+            <p>{fileName} の列と取り込み項目を対応付けてください。</p>
+            {IMPORT_FIELDS.map((field) => (
+              <div key={field} className="books-page-import-mapping">
+                <label htmlFor={`importMapping-${field}`} className="form-input-label">
+                  {IMPORT_FIELD_LABELS[field]}
+                  {REQUIRED_IMPORT_FIELDS.includes(field) && ' *'}
+                </label>
+                <select
+                  id={`importMapping-${field}`}
+                  value={mapping[field] ?? ''}
+                  onChange={(e: ChangeEvent<HTMLSelectElement>) =>
+                    handleMappingChange(field, e.target.value)
+                  }
+                  className="form-input"
+                >
+                  <option value="">取り込まない</option>
+                  {headers.map((header) => (
+                    <option key={header} value={header}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            <div className="books-page-form-actions">
+              <button
+                type="button"
+                className="books-page-form-cancel-button"
+                onClick={() => setStep('file')}
+                disabled={busy}
+              >
+                戻る
+              </button>
+              <button
+                type="button"
+                className="books-page-form-submit-button"
+                onClick={() => void handlePreview()}
+                disabled={busy || missingRequiredFields.length > 0}
+              >
+                ドライラン
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* ステップ3: ドライラン結果 */}
+        {step === 'preview' && preview !== null && (
+          <div data-testid="import-preview">
+            <p>
+              全{preview.totalRows}行: 登録 {preview.createCount}件 / 更新 {preview.updateCount}件 /
+              エラー {preview.errorCount}件（蔵書コピー {preview.copyCount}冊）
+            </p>
+            {preview.errorCount > 0 && (
+              <table className="books-page-import-table">
+                <thead>
+                  <tr>
+                    <th>行</th>
+                    <th>ISBN</th>
+                    <th>エラー</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows
+                    .filter((row) => row.action === 'ERROR')
+                    .map((row) => (
+                      <tr key={row.rowNumber} data-testid={`import-error-row-${row.rowNumber}`}>
+                        <td>{row.rowNumber}</td>
+                        <td>{row.isbn ?? '-'}</td>
+                        <td>{describeFieldErrors(row.errors)}</td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            )}
+            <div className="books-page-form-actions">
+              <button
+                type="button"
+                className="books-page-form-cancel-button"
+                onClick={() => setStep('mapping')}
+                disabled={busy}
+              >
+                戻る
+              </button>
+              <button
+                type="button"
+                className="books-page-form-submit-button"
+                onClick={() => void handleRun()}
+                disabled={busy || preview.createCount + preview.updateCount === 0}
+              >
+                取り込みを実行
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* ステップ4: 取り込み実行 */}
+        {step === 'run' && job !== null && (
+          <div data-testid="import-progress">
+            <progress value={job.processedRows} max={job.totalRows} />
+            <p>
+              {job.processedRows} / {job.totalRows} 行を処理しました
+            </p>
+            {job.status === 'COMPLETED' && (
+              <p>
+                取り込み完了: 登録 {job.createdCount}件 / 更新 {job.updatedCount}件 / 失敗{' '}
+                {job.failedCount}件
+              </p>
+            )}
+            {failedRows.length > 0 && (
+              <table className="books-page-import-table">
+                <thead>
+                  <tr>
+                    <th>行</th>
+                    <th>エラー</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {failedRows.map((row) => (
+                    <tr key={row.rowNumber}>
+                      <td>{row.rowNumber}</td>
+                      <td>{describeFieldErrors(row.errors)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <div className="books-page-form-actions">
+              {job.status !== 'COMPLETED' && !busy && (
+                <button
+                  type="button"
+                  className="books-page-form-submit-button"
+                  onClick={() => void runUntilCompleted(job)}
+                >
+                  再開
+                </button>
+              )}
+              <button
+                type="button"
+                className="books-page-form-cancel-button"
+                onClick={onClose}
+                disabled={busy}
+              >
+                閉じる
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // ============================================
 // カラム定義
 // ============================================
@@ -56,7 +527,7 @@ const createColumns = (
 ): Column<Book>[] => [
   { key: 'title', header: 'タイトル', sortable: true },
   { key: 'author', header: '著者', sortable: true },
-  { key: 'isbn', header: 'ISBN' },
+  { key: 'isbn', header: 'ISBN', render: (book) => book.isbnHyphenated },
   { key: 'publisher', header: '出版社' },
   { key: 'publicationYear', header: '出版年', render: (book) => book.publicationYear?.toString() ?? '-' },
   { key: 'category', header: 'カテゴリ', render: (book) => book.category ?? '-' },
@@ -110,6 +581,7 @@ export function BooksPage(): React.ReactElement {
   const [alert, setAlert] = useState<AlertInfo | null>(null);
   const [deleteTarget, setDeleteTarget] = useState<Book | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [showImportWizard, setShowImportWizard] = useState(false);
 
   // 書籍一覧を取得
   const fetchBooks = useCallback(async () => {
@@ -259,6 +731,15 @@ export function BooksPage(): React.ReactElement {
     }
   }, [deleteTarget, handleCloseDeleteConfirm, fetchBooks]);
 
+  // 一括取り込み完了
+  const handleImportCompleted = useCallback((job: BookImportJob) => {
+    setAlert({
+      message: `一括取り込みが完了しました（登録 ${job.createdCount}件 / 更新 ${job.updatedCount}件 / 失敗 ${job.failedCount}件）`,
+      type: job.failedCount > 0 ? 'error' : 'success',
+    });
+    void fetchBooks();
+  }, [fetchBooks]);
+
   // アラートを閉じる
   const handleCloseAlert = useCallback(() => {
     setAlert(null);
@@ -291,6 +772,13 @@ export function BooksPage(): React.ReactElement {
         >
           書籍を登録
         </button>
+        <button
+          type="button"
+          className="books-page-import-button"
+          onClick={() => setShowImportWizard(true)}
+        >
+          一括取り込み
+        </button>
       </div>
 
       {/* 書籍一覧 */}
@@ -379,6 +867,14 @@ export function BooksPage(): React.ReactElement {
         </div>
       )}
 
+      {/* 一括取り込みウィザード */}
+      {showImportWizard && (
+        <BookImportWizard
+          onClose={() => setShowImportWizard(false)}
+          onCompleted={handleImportCompleted}
+        />
+      )}
+
       {/* 削除確認ダイアログ */}
       <ConfirmDialog
         isOpen={deleteTarget !== null}
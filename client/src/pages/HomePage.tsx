@@ -30,6 +30,9 @@ export function HomePage(): React.ReactElement {
           <li>
             <Link to="/reports" style={linkStyle}>📊 レポート</Link>
           </li>
+          <li>
+            <Link to="/login" style={linkStyle}>🔑 ログイン</Link>
+          </li>
         </ul>
       </nav>
     </div>
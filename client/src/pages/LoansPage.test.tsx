@@ -9,7 +9,12 @@ import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { LoansPage } from './LoansPage';
 import * as loanApi from '../lib/loan-api';
-import type { LoanReceipt, ReturnResult } from '../lib/loan-api';
+import type {
+  LoanReceipt,
+  ReturnResult,
+  BatchCheckoutReceipt,
+  BatchReturnReceipt,
+} from '../lib/loan-api';
 import { ApiError } from '../lib/api-client';
 
 // API モック
@@ -23,9 +28,20 @@ const mockLoanReceipt: LoanReceipt = {
     borrowedAt: '2024-12-10T10:00:00.000Z',
     dueDate: '2024-12-24T10:00:00.000Z',
     returnedAt: null,
+    status: 'ACTIVE',
+    renewalCount: 0,
+    recalledAt: null,
   },
   bookTitle: 'TypeScript入門',
   userName: '山田太郎',
+  policy: {
+    policyId: null,
+    name: 'デフォルト',
+    loanDurationDays: 14,
+    maxRenewals: 2,
+    maxItems: null,
+    gracePeriodDays: 0,
+  },
 };
 
 const mockReturnResult: ReturnResult = {
@@ -36,6 +52,9 @@ const mockReturnResult: ReturnResult = {
     borrowedAt: '2024-12-10T10:00:00.000Z',
     dueDate: '2024-12-24T10:00:00.000Z',
     returnedAt: '2024-12-15T10:00:00.000Z',
+    status: 'RETURNED',
+    renewalCount: 0,
+    recalledAt: null,
   },
   isOverdue: false,
 };
@@ -48,6 +67,9 @@ const mockOverdueReturnResult: ReturnResult = {
     borrowedAt: '2024-11-01T10:00:00.000Z',
     dueDate: '2024-11-15T10:00:00.000Z',
     returnedAt: '2024-12-10T10:00:00.000Z',
+    status: 'RETURNED',
+    renewalCount: 0,
+    recalledAt: null,
   },
   isOverdue: true,
   overdueDays: 25,
@@ -107,7 +129,45 @@ describe('LoansPage', () => {
 
       await waitFor(() => {
         expect(screen.getByText(/利用者IDは必須です/)).toBeInTheDocument();
-        expect(screen.getByText(/蔵書コピーIDは必須です/)).toBeInTheDocument();
+        expect(screen.getByText(/蔵書コピーIDまたはバーコードは必須です/)).toBeInTheDocument();
+      });
+    });
+
+    it('バーコードリーダーの読み取り（Enter）で、バーコードを指定して貸出する', async () => {
+      vi.mocked(loanApi.createLoan).mockResolvedValue(mockLoanReceipt);
+
+      const user = userEvent.setup();
+      render(<LoansPage />);
+
+      await user.type(screen.getByLabelText(/利用者ID/), 'user-1');
+      await user.type(screen.getByLabelText('バーコード'), 'LIB000000017{Enter}');
+
+      await waitFor(() => {
+        expect(screen.getByText('貸出レシート')).toBeInTheDocument();
+      });
+      expect(loanApi.createLoan).toHaveBeenCalledWith({
+        userId: 'user-1',
+        barcode: 'LIB000000017',
+      });
+    });
+
+    it('バーコードに該当する蔵書コピーがない場合、読み取ったバーコードを示す', async () => {
+      vi.mocked(loanApi.createLoan).mockRejectedValue(
+        new ApiError(404, 'An error occurred', {
+          error: { type: 'BARCODE_NOT_FOUND', barcode: 'LIB999999999' },
+        })
+      );
+
+      const user = userEvent.setup();
+      render(<LoansPage />);
+
+      await user.type(screen.getByLabelText(/利用者ID/), 'user-1');
+      await user.type(screen.getByLabelText('バーコード'), 'LIB999999999{Enter}');
+
+      await waitFor(() => {
+        expect(
+          screen.getByText('バーコード LIB999999999 の蔵書コピーが見つかりません')
+        ).toBeInTheDocument();
       });
     });
 
@@ -125,6 +185,7 @@ describe('LoansPage', () => {
         expect(screen.getByText('貸出レシート')).toBeInTheDocument();
         expect(screen.getByText('TypeScript入門')).toBeInTheDocument();
         expect(screen.getByText('山田太郎')).toBeInTheDocument();
+        expect(screen.getByText('デフォルト（貸出期間14日）')).toBeInTheDocument();
       });
     });
 
@@ -290,6 +351,232 @@ describe('LoansPage', () => {
     });
   });
 
+  describe('貸出延長', () => {
+    it('貸出延長ボタンが表示される', async () => {
+      const user = userEvent.setup();
+      render(<LoansPage />);
+
+      await user.click(screen.getByRole('tab', { name: '返却処理' }));
+
+      expect(screen.getByRole('button', { name: '貸出延長' })).toBeInTheDocument();
+    });
+
+    it('延長が成功した場合、新しい返却期限が表示される', async () => {
+      vi.mocked(loanApi.renewLoan).mockResolvedValue({
+        ...mockLoanReceipt.loan,
+        dueDate: '2025-01-07T10:00:00.000Z',
+        renewalCount: 1,
+      });
+
+      const user = userEvent.setup();
+      render(<LoansPage />);
+
+      await user.click(screen.getByRole('tab', { name: '返却処理' }));
+      await user.type(screen.getByLabelText(/貸出ID/), 'loan-1');
+      await user.click(screen.getByRole('button', { name: '貸出延長' }));
+
+      await waitFor(() => {
+        expect(screen.getByText('延長完了')).toBeInTheDocument();
+        expect(screen.getByText('1回')).toBeInTheDocument();
+      });
+      expect(loanApi.renewLoan).toHaveBeenCalledWith('loan-1');
+    });
+
+    it('貸出IDが未入力の場合はバリデーションエラー', async () => {
+      const user = userEvent.setup();
+      render(<LoansPage />);
+
+      await user.click(screen.getByRole('tab', { name: '返却処理' }));
+      await user.click(screen.getByRole('button', { name: '貸出延長' }));
+
+      await waitFor(() => {
+        expect(screen.getByText(/貸出IDは必須です/)).toBeInTheDocument();
+      });
+      expect(loanApi.renewLoan).not.toHaveBeenCalled();
+    });
+
+    it('他の利用者の予約がある場合、エラーメッセージが表示される', async () => {
+      vi.mocked(loanApi.renewLoan).mockRejectedValue(
+        new ApiError(409, '他の利用者が予約しているため延長できません', {
+          error: { type: 'RESERVED_BY_OTHER_USER', loanId: 'loan-1', bookId: 'book-1' },
+        })
+      );
+
+      const user = userEvent.setup();
+      render(<LoansPage />);
+
+      await user.click(screen.getByRole('tab', { name: '返却処理' }));
+      await user.type(screen.getByLabelText(/貸出ID/), 'loan-1');
+      await user.click(screen.getByRole('button', { name: '貸出延長' }));
+
+      await waitFor(() => {
+        expect(
+          screen.getByText(/他の利用者が予約しているため延長できません/)
+        ).toBeInTheDocument();
+      });
+    });
+  });
+
+  describe('一括スキャン', () => {
+    const mockBatchCheckoutReceipt: BatchCheckoutReceipt = {
+      userId: 'user-1',
+      userName: '山田太郎',
+      mode: 'PARTIAL',
+      committed: true,
+      items: [
+        {
+          bookCopyId: 'copy-1',
+          status: 'SUCCEEDED',
+          loan: mockLoanReceipt.loan,
+          bookTitle: 'TypeScript入門',
+          error: null,
+        },
+        {
+          bookCopyId: 'copy-2',
+          status: 'FAILED',
+          loan: null,
+          bookTitle: null,
+          error: { type: 'BOOK_NOT_AVAILABLE', copyId: 'copy-2' },
+        },
+      ],
+      succeededCount: 1,
+      failedCount: 1,
+    };
+
+    async function scan(user: ReturnType<typeof userEvent.setup>, copyId: string): Promise<void> {
+      await user.type(screen.getByLabelText(/蔵書コピーID（スキャン）/), `${copyId}{Enter}`);
+    }
+
+    it('スキャンした蔵書コピーIDが一覧に追加され、削除できる', async () => {
+      const user = userEvent.setup();
+      render(<LoansPage />);
+
+      await user.click(screen.getByRole('tab', { name: '一括スキャン' }));
+      await scan(user, 'copy-1');
+      await scan(user, 'copy-2');
+
+      expect(screen.getByRole('button', { name: '一括貸出を実行（2件）' })).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'copy-1を削除' }));
+
+      const list = screen.getByRole('list', { name: 'スキャン済みの蔵書コピー' });
+      expect(list).not.toHaveTextContent('copy-1');
+      expect(list).toHaveTextContent('copy-2');
+    });
+
+    it('同じ蔵書コピーIDを二重にスキャンした場合はエラーを表示する', async () => {
+      const user = userEvent.setup();
+      render(<LoansPage />);
+
+      await user.click(screen.getByRole('tab', { name: '一括スキャン' }));
+      await scan(user, 'copy-1');
+      await scan(user, 'copy-1');
+
+      expect(screen.getByText(/copy-1 はスキャン済みです/)).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: '一括貸出を実行（1件）' })).toBeInTheDocument();
+    });
+
+    it('一括貸出の結果が項目ごとに表示される', async () => {
+      vi.mocked(loanApi.checkoutBatch).mockResolvedValue(mockBatchCheckoutReceipt);
+
+      const user = userEvent.setup();
+      render(<LoansPage />);
+
+      await user.click(screen.getByRole('tab', { name: '一括スキャン' }));
+      await user.type(screen.getByLabelText(/利用者ID/), 'user-1');
+      await user.selectOptions(screen.getByLabelText('処理モード'), 'PARTIAL');
+      await scan(user, 'copy-1');
+      await scan(user, 'copy-2');
+      await user.click(screen.getByRole('button', { name: '一括貸出を実行（2件）' }));
+
+      await waitFor(() => {
+        expect(screen.getByText('一括処理完了')).toBeInTheDocument();
+      });
+      expect(loanApi.checkoutBatch).toHaveBeenCalledWith({
+        userId: 'user-1',
+        bookCopyIds: ['copy-1', 'copy-2'],
+        mode: 'PARTIAL',
+      });
+      expect(screen.getByTestId('batch-item-copy-1')).toHaveTextContent('完了');
+      expect(screen.getByTestId('batch-item-copy-2')).toHaveTextContent('貸出できない状態です');
+    });
+
+    it('読み取り対象をバーコードにすると、スキャンしたバーコードで一括貸出する', async () => {
+      vi.mocked(loanApi.checkoutBatch).mockResolvedValue(mockBatchCheckoutReceipt);
+
+      const user = userEvent.setup();
+      render(<LoansPage />);
+
+      await user.click(screen.getByRole('tab', { name: '一括スキャン' }));
+      await user.type(screen.getByLabelText(/利用者ID/), 'user-1');
+      await user.selectOptions(screen.getByLabelText('読み取り対象'), 'barcode');
+      const scanInput = screen.getByLabelText(/バーコード（スキャン）/);
+      await user.type(scanInput, 'LIB000000017{Enter}');
+      await user.type(scanInput, 'LIB000000024{Enter}');
+      await user.click(screen.getByRole('button', { name: '一括貸出を実行（2件）' }));
+
+      await waitFor(() => {
+        expect(screen.getByText('一括処理完了')).toBeInTheDocument();
+      });
+      expect(loanApi.checkoutBatch).toHaveBeenCalledWith({
+        userId: 'user-1',
+        barcodes: ['LIB000000017', 'LIB000000024'],
+        mode: 'ALL_OR_NOTHING',
+      });
+    });
+
+    it('一括貸出で利用者IDが未入力の場合はバリデーションエラー', async () => {
+      const user = userEvent.setup();
+      render(<LoansPage />);
+
+      await user.click(screen.getByRole('tab', { name: '一括スキャン' }));
+      await scan(user, 'copy-1');
+      await user.click(screen.getByRole('button', { name: '一括貸出を実行（1件）' }));
+
+      expect(screen.getByText(/利用者IDは必須です/)).toBeInTheDocument();
+      expect(loanApi.checkoutBatch).not.toHaveBeenCalled();
+    });
+
+    it('取り消された一括返却はスキャン内容を残して結果を表示する', async () => {
+      const rolledBack: BatchReturnReceipt = {
+        mode: 'ALL_OR_NOTHING',
+        committed: false,
+        items: [
+          { bookCopyId: 'copy-1', status: 'ROLLED_BACK', result: null, error: null },
+          {
+            bookCopyId: 'copy-9',
+            status: 'FAILED',
+            result: null,
+            error: { type: 'COPY_NOT_ON_LOAN', copyId: 'copy-9' },
+          },
+        ],
+        succeededCount: 0,
+        failedCount: 1,
+        overdueCount: 0,
+      };
+      vi.mocked(loanApi.returnBatch).mockResolvedValue(rolledBack);
+
+      const user = userEvent.setup();
+      render(<LoansPage />);
+
+      await user.click(screen.getByRole('tab', { name: '一括スキャン' }));
+      await user.click(screen.getByRole('radio', { name: '一括返却' }));
+      await scan(user, 'copy-1');
+      await scan(user, 'copy-9');
+      await user.click(screen.getByRole('button', { name: '一括返却を実行（2件）' }));
+
+      await waitFor(() => {
+        expect(screen.getByText('一括処理を取り消しました')).toBeInTheDocument();
+      });
+      expect(loanApi.returnBatch).toHaveBeenCalledWith({
+        bookCopyIds: ['copy-1', 'copy-9'],
+        mode: 'ALL_OR_NOTHING',
+      });
+      expect(screen.getByTestId('batch-item-copy-9')).toHaveTextContent('貸出中ではありません');
+      expect(screen.getByRole('button', { name: '一括返却を実行（2件）' })).toBeInTheDocument();
+    });
+  });
+
   describe('アクセシビリティ', () => {
     it('タブパネルが正しいaria属性を持つ', () => {
       render(<LoansPage />);
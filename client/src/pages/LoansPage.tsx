@@ -1,6 +1,23 @@
 import React, { useState, useCallback, type FormEvent } from 'react';
 import { FormInput, Alert } from '../components';
-import { createLoan, returnBook, type LoanReceipt, type ReturnResult } from '../lib/loan-api';
+import {
+  createLoan,
+  returnBook,
+  renewLoan,
+  checkoutBatch,
+  returnBatch,
+  type Loan,
+  type LoanReceipt,
+  type ReturnResult,
+  type BatchMode,
+  type BatchItemStatus,
+  type BatchCheckoutItem,
+  type BatchReturnItem,
+  type BatchCheckoutReceipt,
+  type BatchReturnReceipt,
+  type LoanApiError,
+  type BatchCopyReferences,
+} from '../lib/loan-api';
 import { ApiError } from '../lib/api-client';
 
 // ============================================
@@ -8,7 +25,13 @@ import { ApiError } from '../lib/api-client';
 // ============================================
 
 /** タブ種別 */
-type TabType = 'loan' | 'return';
+type TabType = 'loan' | 'return' | 'batch';
+
+/** 一括スキャンの処理種別 */
+type BatchKind = 'checkout' | 'return';
+
+/** スキャンで読み取る値の種別 */
+type ScanTarget = 'copyId' | 'barcode';
 
 /** アラート情報 */
 interface AlertInfo {
@@ -21,6 +44,8 @@ interface ValidationErrors {
   userId?: string;
   bookCopyId?: string;
   loanId?: string;
+  batchUserId?: string;
+  scanCopyId?: string;
 }
 
 // ============================================
@@ -39,6 +64,67 @@ function formatDate(dateString: string): string {
   });
 }
 
+/** スキャンで読み取る値の表示名 */
+const SCAN_TARGET_LABELS: Record<ScanTarget, string> = {
+  copyId: '蔵書コピーID',
+  barcode: 'バーコード',
+};
+
+/**
+ * 貸出・返却のエラーを表示用の文言に変換
+ * バーコードに該当する蔵書コピーがない場合は読み取ったバーコードを示す
+ */
+function describeLoanError(error: ApiError): string {
+  const detail = (error.data as Partial<LoanApiError> | undefined)?.error;
+  if (detail?.type === 'BARCODE_NOT_FOUND') {
+    return `バーコード ${detail.barcode ?? ''} の蔵書コピーが見つかりません`;
+  }
+  return error.message;
+}
+
+/** 一括処理の項目ステータス表示名 */
+const BATCH_ITEM_STATUS_LABELS: Record<BatchItemStatus, string> = {
+  SUCCEEDED: '完了',
+  FAILED: '失敗',
+  ROLLED_BACK: '取消',
+};
+
+/**
+ * 一括処理の項目エラーを表示用の文言に変換
+ */
+function describeBatchItemError(error: LoanApiError['error']): string {
+  switch (error.type) {
+    case 'COPY_NOT_FOUND':
+      return '蔵書コピーが見つかりません';
+    case 'COPY_NOT_ON_LOAN':
+      return '貸出中ではありません';
+    case 'BOOK_NOT_AVAILABLE':
+      return '貸出できない状態です';
+    case 'LOAN_LIMIT_EXCEEDED':
+      return '貸出上限に達しています';
+    case 'CATEGORY_LOAN_LIMIT_EXCEEDED':
+      return `${error.category ?? ''}の貸出上限に達しています`;
+    default:
+      return error.message ?? error.type;
+  }
+}
+
+/**
+ * 一括処理の項目結果の詳細を表示用の文言に変換
+ */
+function describeBatchItem(item: BatchCheckoutItem | BatchReturnItem): string {
+  if (item.error !== null) {
+    return describeBatchItemError(item.error);
+  }
+  if ('loan' in item && item.loan !== null) {
+    return `${item.bookTitle ?? ''}（返却期限: ${formatDate(item.loan.dueDate)}）`;
+  }
+  if ('result' in item && item.result?.isOverdue === true) {
+    return `延滞日数: ${item.result.overdueDays ?? 0}日`;
+  }
+  return '';
+}
+
 // ============================================
 // サブコンポーネント
 // ============================================
@@ -75,6 +161,12 @@ function LoanReceiptDisplay({
           <dt>返却期限</dt>
           <dd>{formatDate(receipt.loan.dueDate)}</dd>
         </div>
+        <div className="receipt-row">
+          <dt>貸出ポリシー</dt>
+          <dd>
+            {receipt.policy.name}（貸出期間{receipt.policy.loanDurationDays}日）
+          </dd>
+        </div>
       </dl>
     </div>
   );
@@ -106,11 +198,86 @@ function ReturnResultDisplay({
             <dd className="overdue-warning">延滞日数: {result.overdueDays}日</dd>
           </div>
         )}
+        {result.fine !== undefined && (
+          <div className="result-row overdue-info">
+            <dt>延滞料金</dt>
+            <dd className="overdue-warning">{result.fine.amount.toLocaleString('ja-JP')}円</dd>
+          </div>
+        )}
       </dl>
     </div>
   );
 }
 
+/**
+ * 貸出延長結果表示コンポーネント
+ */
+function RenewResultDisplay({
+  loan,
+}: {
+  readonly loan: Loan;
+}): React.ReactElement {
+  return (
+    <div className="renew-result" data-testid="renew-result">
+      <h3>延長完了</h3>
+      <dl className="result-details">
+        <div className="result-row">
+          <dt>貸出ID</dt>
+          <dd>{loan.id}</dd>
+        </div>
+        <div className="result-row">
+          <dt>新しい返却期限</dt>
+          <dd>{formatDate(loan.dueDate)}</dd>
+        </div>
+        <div className="result-row">
+          <dt>延長回数</dt>
+          <dd>{loan.renewalCount}回</dd>
+        </div>
+      </dl>
+    </div>
+  );
+}
+
+/**
+ * 一括処理結果表示コンポーネント
+ */
+function BatchResultDisplay({
+  receipt,
+}: {
+  readonly receipt: BatchCheckoutReceipt | BatchReturnReceipt;
+}): React.ReactElement {
+  return (
+    <div className="batch-result" data-testid="batch-result">
+      <h3>{receipt.committed ? '一括処理完了' : '一括処理を取り消しました'}</h3>
+      {'userName' in receipt && <p>利用者: {receipt.userName}</p>}
+      <p>
+        成功 {receipt.succeededCount}件 / 失敗 {receipt.failedCount}件
+        {'overdueCount' in receipt && receipt.overdueCount > 0 && ` / 延滞 ${receipt.overdueCount}件`}
+      </p>
+      <table className="batch-result-table">
+        <thead>
+          <tr>
+            <th>蔵書コピーID</th>
+            <th>結果</th>
+            <th>詳細</th>
+          </tr>
+        </thead>
+        <tbody>
+          {receipt.items.map((item) => (
+            <tr key={item.bookCopyId} data-testid={`batch-item-${item.bookCopyId}`}>
+              <td>{item.bookCopyId}</td>
+              <td>{BATCH_ITEM_STATUS_LABELS[item.status]}</td>
+              <td>
+{describeBatchItem(item)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 // ============================================
 // メインコンポーネント
 // ============================================
@@ -125,6 +292,7 @@ export function LoansPage(): React.ReactElement {
   // 貸出フォーム状態
   const [userId, setUserId] = useState('');
   const [bookCopyId, setBookCopyId] = useState('');
+  const [barcode, setBarcode] = useState('');
   const [loanReceipt, setLoanReceipt] = useState<LoanReceipt | null>(null);
   const [loanLoading, setLoanLoading] = useState(false);
 
@@ -132,6 +300,19 @@ export function LoansPage(): React.ReactElement {
   const [loanId, setLoanId] = useState('');
   const [returnResult, setReturnResult] = useState<ReturnResult | null>(null);
   const [returnLoading, setReturnLoading] = useState(false);
+  const [renewedLoan, setRenewedLoan] = useState<Loan | null>(null);
+
+  // 一括スキャン状態
+  const [batchKind, setBatchKind] = useState<BatchKind>('checkout');
+  const [batchUserId, setBatchUserId] = useState('');
+  const [scanTarget, setScanTarget] = useState<ScanTarget>('copyId');
+  const [scanValue, setScanValue] = useState('');
+  const [scannedValues, setScannedValues] = useState<string[]>([]);
+  const [batchMode, setBatchMode] = useState<BatchMode>('ALL_OR_NOTHING');
+  const [batchReceipt, setBatchReceipt] = useState<
+    BatchCheckoutReceipt | BatchReturnReceipt | null
+  >(null);
+  const [batchLoading, setBatchLoading] = useState(false);
 
   // 共通状態
   const [alert, setAlert] = useState<AlertInfo | null>(null);
@@ -147,13 +328,13 @@ export function LoansPage(): React.ReactElement {
     if (userId.trim() === '') {
       errors.userId = '利用者IDは必須です';
     }
-    if (bookCopyId.trim() === '') {
-      errors.bookCopyId = '蔵書コピーIDは必須です';
+    if (bookCopyId.trim() === '' && barcode.trim() === '') {
+      errors.bookCopyId = '蔵書コピーIDまたはバーコードは必須です';
     }
 
     setValidationErrors(errors);
     return Object.keys(errors).length === 0;
-  }, [userId, bookCopyId]);
+  }, [userId, bookCopyId, barcode]);
 
   const handleLoanSubmit = useCallback(
     async (e: FormEvent) => {
@@ -168,18 +349,21 @@ export function LoansPage(): React.ReactElement {
       setLoanLoading(true);
 
       try {
-        const receipt = await createLoan({
-          userId: userId.trim(),
-          bookCopyId: bookCopyId.trim(),
-        });
+        // 蔵書コピーIDが入力されていればそれを使い、なければバーコードで指定する
+        const receipt = await createLoan(
+          bookCopyId.trim() !== ''
+            ? { userId: userId.trim(), bookCopyId: bookCopyId.trim() }
+            : { userId: userId.trim(), barcode: barcode.trim() }
+        );
         setLoanReceipt(receipt);
         setUserId('');
         setBookCopyId('');
+        setBarcode('');
         setValidationErrors({});
       } catch (error) {
         if (error instanceof ApiError) {
           setAlert({
-            message: error.message,
+            message: describeLoanError(error),
             type: 'error',
           });
         } else {
@@ -192,7 +376,7 @@ export function LoansPage(): React.ReactElement {
         setLoanLoading(false);
       }
     },
-    [userId, bookCopyId, validateLoanForm]
+    [userId, bookCopyId, barcode, validateLoanForm]
   );
 
   // ============================================
@@ -215,6 +399,7 @@ export function LoansPage(): React.ReactElement {
       e.preventDefault();
       setAlert(null);
       setReturnResult(null);
+      setRenewedLoan(null);
 
       if (!validateReturnForm()) {
         return;
@@ -246,6 +431,142 @@ export function LoansPage(): React.ReactElement {
     [loanId, validateReturnForm]
   );
 
+  // ============================================
+  // 貸出延長処理
+  // ============================================
+
+  const handleRenew = useCallback(async () => {
+    setAlert(null);
+    setReturnResult(null);
+    setRenewedLoan(null);
+
+    if (!validateReturnForm()) {
+      return;
+    }
+
+    setReturnLoading(true);
+
+    try {
+      const loan = await renewLoan(loanId.trim());
+      setRenewedLoan(loan);
+      setLoanId('');
+      setValidationErrors({});
+    } catch (error) {
+      if (error instanceof ApiError) {
+        setAlert({
+          message: error.message,
+          type: 'error',
+        });
+      } else {
+        setAlert({
+          message: '予期しないエラーが発生しました',
+          type: 'error',
+        });
+      }
+    } finally {
+      setReturnLoading(false);
+    }
+  }, [loanId, validateReturnForm]);
+
+  // ============================================
+  // 一括スキャン処理
+  // ============================================
+
+  // バーコードリーダー（キーボードウェッジ）は読み取った値に続けてEnterを送るため、
+  // スキャン欄でのEnterごとに1件追加され、フォーカスは入力欄に残る
+  const handleScanSubmit = useCallback(
+    (e: FormEvent) => {
+      e.preventDefault();
+      const value = scanValue.trim();
+
+      if (value === '') {
+        setValidationErrors({ scanCopyId: `${SCAN_TARGET_LABELS[scanTarget]}を入力してください` });
+        return;
+      }
+      if (scannedValues.includes(value)) {
+        setValidationErrors({ scanCopyId: `${value} はスキャン済みです` });
+        setScanValue('');
+        return;
+      }
+
+      setScannedValues((current) => [...current, value]);
+      setScanValue('');
+      setValidationErrors({});
+      setBatchReceipt(null);
+    },
+    [scanValue, scannedValues, scanTarget]
+  );
+
+  const handleScanRemove = useCallback((value: string) => {
+    setScannedValues((current) => current.filter((item) => item !== value));
+  }, []);
+
+  const handleScanTargetChange = useCallback((target: ScanTarget) => {
+    // 蔵書コピーIDとバーコードは混在させられないため、スキャン済みの一覧をリセットする
+    setScanTarget(target);
+    setScannedValues([]);
+    setBatchReceipt(null);
+    setValidationErrors({});
+  }, []);
+
+  const handleBatchSubmit = useCallback(async () => {
+    setAlert(null);
+    setBatchReceipt(null);
+
+    if (batchKind === 'checkout' && batchUserId.trim() === '') {
+      setValidationErrors({ batchUserId: '利用者IDは必須です' });
+      return;
+    }
+    if (scannedValues.length === 0) {
+      setValidationErrors({
+        scanCopyId: `${SCAN_TARGET_LABELS[scanTarget]}を1件以上スキャンしてください`,
+      });
+      return;
+    }
+
+    setBatchLoading(true);
+
+    try {
+      const copies: BatchCopyReferences =
+        scanTarget === 'barcode' ? { barcodes: scannedValues } : { bookCopyIds: scannedValues };
+      const receipt =
+        batchKind === 'checkout'
+          ? await checkoutBatch({
+              userId: batchUserId.trim(),
+              ...copies,
+              mode: batchMode,
+            })
+          : await returnBatch({ ...copies, mode: batchMode });
+      setBatchReceipt(receipt);
+      setValidationErrors({});
+      if (receipt.committed) {
+        // 確定した場合はセッションを終了し、取り消された場合はスキャン内容を残して再試行できるようにする
+        setScannedValues([]);
+        setBatchUserId('');
+      }
+    } catch (error) {
+      if (error instanceof ApiError) {
+        setAlert({
+          message: describeLoanError(error),
+          type: 'error',
+        });
+      } else {
+        setAlert({
+          message: '予期しないエラーが発生しました',
+          type: 'error',
+        });
+      }
+    } finally {
+      setBatchLoading(false);
+    }
+  }, [batchKind, batchUserId, scannedValues, scanTarget, batchMode]);
+
+  const handleBatchKindChange = useCallback((kind: BatchKind) => {
+    setBatchKind(kind);
+    setBatchReceipt(null);
+    setValidationErrors({});
+  }, []);
+
   // ============================================
   // タブ切り替え
   // ============================================
@@ -256,6 +577,8 @@ export function LoansPage(): React.ReactElement {
     setValidationErrors({});
     setLoanReceipt(null);
     setReturnResult(null);
+    setRenewedLoan(null);
+    setBatchReceipt(null);
   }, []);
 
   const handleAlertClose = useCallback(() => {
@@ -294,6 +617,17 @@ export function LoansPage(): React.ReactElement {
         >
           返却処理
         </button>
+        <button
+          type="button"
+          role="tab"
+          id="tab-batch"
+          aria-selected={activeTab === 'batch'}
+          aria-controls="panel-batch"
+          className={`tab ${activeTab === 'batch' ? 'tab-active' : ''}`}
+          onClick={() => handleTabChange('batch')}
+        >
+          一括スキャン
+        </button>
       </div>
 
       {/* アラート */}
@@ -323,12 +657,19 @@ export function LoansPage(): React.ReactElement {
               error={validationErrors.userId}
               disabled={loanLoading}
             />
+            <FormInput
+              id="barcode"
+              label="バーコード"
+              value={barcode}
+              onChange={setBarcode}
+              placeholder="バーコードリーダーで読み取ると貸出処理を実行します"
+              disabled={loanLoading}
+            />
             <FormInput
               id="bookCopyId"
               label="蔵書コピーID"
               value={bookCopyId}
               onChange={setBookCopyId}
-              required
               error={validationErrors.bookCopyId}
               disabled={loanLoading}
             />
@@ -370,9 +711,124 @@ export function LoansPage(): React.ReactElement {
             >
               {returnLoading ? '処理中...' : '返却処理を実行'}
             </button>
+            <button
+              type="button"
+              className="secondary-button"
+              onClick={() => void handleRenew()}
+              disabled={returnLoading}
+            >
+              貸出延長
+            </button>
           </form>
 
           {returnResult !== null && <ReturnResultDisplay result={returnResult} />}
+          {renewedLoan !== null && <RenewResultDisplay loan={renewedLoan} />}
+        </div>
+      )}
+
+      {/* 一括スキャンパネル */}
+      {activeTab === 'batch' && (
+        <div
+          role="tabpanel"
+          id="panel-batch"
+          aria-labelledby="tab-batch"
+          className="tab-panel"
+        >
+          <fieldset className="batch-options" disabled={batchLoading}>
+            <legend>処理内容</legend>
+            <label>
+              <input
+                type="radio"
+                name="batchKind"
+                checked={batchKind === 'checkout'}
+                onChange={() => handleBatchKindChange('checkout')}
+              />
+              一括貸出
+            </label>
+            <label>
+              <input
+                type="radio"
+                name="batchKind"
+                checked={batchKind === 'return'}
+                onChange={() => handleBatchKindChange('return')}
+              />
+              一括返却
+            </label>
+            <label htmlFor="batchMode">処理モード</label>
+            <select
+              id="batchMode"
+              value={batchMode}
+              onChange={(e) => setBatchMode(e.target.value as BatchMode)}
+            >
+              <option value="ALL_OR_NOTHING">すべて成功した場合のみ確定</option>
+              <option value="PARTIAL">成功した項目のみ確定</option>
+            </select>
+            <label htmlFor="scanTarget">読み取り対象</label>
+            <select
+              id="scanTarget"
+              value={scanTarget}
+              onChange={(e) => handleScanTargetChange(e.target.value as ScanTarget)}
+            >
+              <option value="copyId">{SCAN_TARGET_LABELS.copyId}</option>
+              <option value="barcode">{SCAN_TARGET_LABELS.barcode}</option>
+            </select>
+          </fieldset>
+
+          {batchKind === 'checkout' && (
+            <FormInput
+              id="batchUserId"
+              label="利用者ID"
+              value={batchUserId}
+              onChange={setBatchUserId}
+              required
+              error={validationErrors.batchUserId}
+              disabled={batchLoading}
+            />
+          )}
+
+          <form onSubmit={handleScanSubmit} className="scan-form" noValidate>
+            <FormInput
+              id="scanCopyId"
+              label={`${SCAN_TARGET_LABELS[scanTarget]}（スキャン）`}
+              value={scanValue}
+              onChange={setScanValue}
+              error={validationErrors.scanCopyId}
+              disabled={batchLoading}
+            />
+            <button type="submit" className="secondary-button" disabled={batchLoading}>
+              追加
+            </button>
+          </form>
+
+          <ul className="scanned-list" aria-label="スキャン済みの蔵書コピー">
+            {scannedValues.map((value) => (
+              <li key={value}>
+                {value}
+                <button
+                  type="button"
+                  className="link-button"
+                  aria-label={`${value}を削除`}
+                  onClick={() => handleScanRemove(value)}
+                  disabled={batchLoading}
+                >
+                  削除
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <button
+            type="button"
+            className="submit-button"
+            onClick={() => void handleBatchSubmit()}
+            disabled={batchLoading}
+          >
+            {batchLoading
+              ? '処理中...'
+              : `${batchKind === 'checkout' ? '一括貸出' : '一括返却'}を実行（${scannedValues.length}件）`}
+          </button>
+
+          {batchReceipt !== null && <BatchResultDisplay receipt={batchReceipt} />}
         </div>
       )}
     </div>
@@ -0,0 +1,103 @@
+/**
+ * LoginPage テスト
+ *
+ * ログイン画面のテスト
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { LoginPage } from './LoginPage';
+import { AuthProvider } from '../contexts';
+import * as authApi from '../lib/auth-api';
+import type { LoginResponse } from '../lib/auth-api';
+import { ApiError } from '../lib/api-client';
+
+// API モック
+vi.mock('../lib/auth-api');
+
+const mockLoginResponse: LoginResponse = {
+  user: {
+    id: 'user-1',
+    name: '鈴木一郎',
+    email: 'suzuki@example.com',
+    role: 'librarian',
+  },
+  expiresAt: '2024-12-11T10:00:00.000Z',
+};
+
+function renderLoginPage(): void {
+  render(
+    <AuthProvider>
+      <MemoryRouter>
+        <LoginPage />
+      </MemoryRouter>
+    </AuthProvider>
+  );
+}
+
+describe('LoginPage', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('ログインフォームを表示する', () => {
+    renderLoginPage();
+
+    expect(screen.getByLabelText(/メールアドレス/)).toBeInTheDocument();
+    expect(screen.getByLabelText(/パスワード/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'ログイン' })).toBeInTheDocument();
+  });
+
+  it('ログインに成功するとユーザー名とロールを表示する', async () => {
+    vi.mocked(authApi.login).mockResolvedValue(mockLoginResponse);
+    const user = userEvent.setup();
+    renderLoginPage();
+
+    await user.type(screen.getByLabelText(/メールアドレス/), 'suzuki@example.com');
+    await user.type(screen.getByLabelText(/パスワード/), 'secret');
+    await user.click(screen.getByRole('button', { name: 'ログイン' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('鈴木一郎（図書館員）としてログインしています')).toBeInTheDocument();
+    });
+    expect(authApi.login).toHaveBeenCalledWith({
+      email: 'suzuki@example.com',
+      password: 'secret',
+    });
+  });
+
+  it('認証に失敗するとエラーメッセージを表示する', async () => {
+    vi.mocked(authApi.login).mockRejectedValue(new ApiError(401, 'Unauthorized'));
+    const user = userEvent.setup();
+    renderLoginPage();
+
+    await user.type(screen.getByLabelText(/メールアドレス/), 'suzuki@example.com');
+    await user.type(screen.getByLabelText(/パスワード/), 'wrong');
+    await user.click(screen.getByRole('button', { name: 'ログイン' }));
+
+    await waitFor(() => {
+      expect(
+        screen.getByText('メールアドレスまたはパスワードが正しくありません')
+      ).toBeInTheDocument();
+    });
+  });
+
+  it('ログアウトするとログインフォームに戻る', async () => {
+    vi.mocked(authApi.login).mockResolvedValue(mockLoginResponse);
+    vi.mocked(authApi.logout).mockResolvedValue(undefined);
+    const user = userEvent.setup();
+    renderLoginPage();
+
+    await user.type(screen.getByLabelText(/メールアドレス/), 'suzuki@example.com');
+    await user.type(screen.getByLabelText(/パスワード/), 'secret');
+    await user.click(screen.getByRole('button', { name: 'ログイン' }));
+    await user.click(await screen.findByRole('button', { name: 'ログアウト' }));
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'ログイン' })).toBeInTheDocument();
+    });
+    expect(authApi.logout).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,133 @@
+import React, { useState, useCallback, type FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { FormInput, Alert } from '../components';
+import { useAuth, type AuthUser } from '../contexts';
+import { login, logout, type LoginResponse } from '../lib/auth-api';
+import { ApiError } from '../lib/api-client';
+
+// ============================================
+// ヘルパー関数
+// ============================================
+
+/**
+ * ログイン結果を認証コンテキストのユーザーに変換
+ * サーバーの patron はクライアントの user ロールに対応する
+ */
+function toAuthUser(response: LoginResponse): AuthUser {
+  return {
+    id: response.user.id,
+    name: response.user.name,
+    role: response.user.role === 'patron' ? 'user' : response.user.role,
+  };
+}
+
+const ROLE_LABELS: Record<AuthUser['role'], string> = {
+  user: '利用者',
+  librarian: '図書館員',
+  admin: '管理者',
+};
+
+// ============================================
+// コンポーネント
+// ============================================
+
+/**
+ * ログインページ
+ */
+export function LoginPage(): React.ReactElement {
+  const auth = useAuth();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = useCallback(
+    async (e: FormEvent) => {
+      e.preventDefault();
+      setError(null);
+
+      if (email.trim() === '' || password === '') {
+        setError('メールアドレスとパスワードを入力してください');
+        return;
+      }
+
+      setSubmitting(true);
+      try {
+        const response = await login({ email: email.trim(), password });
+        auth.login(toAuthUser(response));
+        setPassword('');
+      } catch (err) {
+        if (err instanceof ApiError && err.status === 401) {
+          setError('メールアドレスまたはパスワードが正しくありません');
+        } else {
+          setError('ログイン中にエラーが発生しました');
+        }
+      } finally {
+        setSubmitting(false);
+      }
+    },
+    [auth, email, password]
+  );
+
+  const handleLogout = useCallback(async () => {
+    setError(null);
+    try {
+      await logout();
+    } catch {
+      // セッションが既に失効していてもクライアント側の状態はクリアする
+    }
+    auth.logout();
+  }, [auth]);
+
+  return (
+    <div className="login-page" data-testid="login-page">
+      <h1>ログイン</h1>
+
+      {error !== null && (
+        <Alert
+          message={error}
+          type="error"
+          onClose={() => {
+            setError(null);
+          }}
+        />
+      )}
+
+      {auth.user !== null ? (
+        <div className="login-status">
+          <p>
+            {auth.user.name}（{ROLE_LABELS[auth.user.role]}）としてログインしています
+          </p>
+          <button type="button" onClick={() => void handleLogout()}>
+            ログアウト
+          </button>
+          <p>
+            <Link to="/">ホームへ戻る</Link>
+          </p>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="login-form">
+          <FormInput
+            id="email"
+            label="メールアドレス"
+            type="email"
+            value={email}
+            onChange={setEmail}
+            required
+          />
+          <FormInput
+            id="password"
+            label="パスワード"
+            type="password"
+            value={password}
+            onChange={setPassword}
+            required
+          />
+          <button type="submit" disabled={submitting}>
+            {submitting ? 'ログイン中...' : 'ログイン'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -32,14 +32,15 @@ const mockStatisticsSummary: StatisticsSummary = {
   loanCount: 150,
   returnCount: 120,
   overdueCount: 10,
+  renewalCount: 20,
   dateRange: mockDateRange,
 };
 
 const mockPopularBooksRanking: PopularBooksRanking = {
   items: [
-    { bookId: 'book-1', title: 'TypeScript入門', author: '山田太郎', loanCount: 50, rank: 1 },
-    { bookId: 'book-2', title: 'React実践ガイド', author: '鈴木花子', loanCount: 40, rank: 2 },
-    { bookId: 'book-3', title: 'Node.js完全入門', author: '佐藤次郎', loanCount: 30, rank: 3 },
+    { bookId: 'book-1', title: 'TypeScript入門', author: '山田太郎', contributors: [], loanCount: 50, rank: 1 },
+    { bookId: 'book-2', title: 'React実践ガイド', author: '鈴木花子', contributors: [], loanCount: 40, rank: 2 },
+    { bookId: 'book-3', title: 'Node.js完全入門', author: '佐藤次郎', contributors: [], loanCount: 30, rank: 3 },
   ],
   dateRange: mockDateRange,
 };
@@ -130,6 +131,8 @@ describe('ReportsPage', () => {
         expect(screen.getByText('120')).toBeInTheDocument();
         expect(screen.getByText('延滞数')).toBeInTheDocument();
         expect(screen.getByText('10')).toBeInTheDocument();
+        expect(screen.getByText('延長数')).toBeInTheDocument();
+        expect(screen.getByText('20')).toBeInTheDocument();
       });
     });
 
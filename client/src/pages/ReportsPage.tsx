@@ -82,6 +82,10 @@ function StatisticsSummaryCard({
           <div className="summary-label">延滞数</div>
           <div className="summary-value">{summary.overdueCount}</div>
         </div>
+        <div className="summary-card">
+          <div className="summary-label">延長数</div>
+          <div className="summary-value">{summary.renewalCount}</div>
+        </div>
       </div>
     </div>
   );
@@ -5,18 +5,29 @@
  * - 予約リクエストフォーム
  * - 予約状況一覧
  * - 予約キャンセル機能
+ * - 予約の休止・休止解除
+ * - 予約キューの管理（並べ替え・番号の振り直し）
+ * - 受取館の指定と輸送中の蔵書の受領
+ * - 予約上限・貸出中・利用停止による予約不可の表示
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, waitFor, within } from '@testing-library/react';
+import { render, screen, waitFor, within, fireEvent } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { ReservationsPage } from './ReservationsPage';
 import * as reservationApi from '../lib/reservation-api';
-import type { Reservation } from '../lib/reservation-api';
+import * as servicePointApi from '../lib/service-point-api';
+import type {
+  Reservation,
+  ReservationQueueChange,
+  TransitRequest,
+} from '../lib/reservation-api';
+import type { ServicePoint } from '../lib/service-point-api';
 import { ApiError } from '../lib/api-client';
 
 // API モック
 vi.mock('../lib/reservation-api');
+vi.mock('../lib/service-point-api');
 
 // ============================================
 // テストデータ
@@ -31,6 +42,9 @@ const mockReservation: Reservation = {
   expiresAt: null,
   status: 'PENDING',
   queuePosition: 1,
+  copyId: null,
+  suspendedUntil: null,
+  pickupLocationId: null,
 };
 
 const mockReservations: Reservation[] = [
@@ -43,6 +57,9 @@ const mockReservations: Reservation[] = [
     expiresAt: null,
     status: 'PENDING',
     queuePosition: 1,
+    copyId: null,
+    suspendedUntil: null,
+    pickupLocationId: null,
   },
   {
     id: 'reservation-2',
@@ -53,6 +70,9 @@ const mockReservations: Reservation[] = [
     expiresAt: '2024-12-17T08:00:00.000Z',
     status: 'NOTIFIED',
     queuePosition: 1,
+    copyId: null,
+    suspendedUntil: null,
+    pickupLocationId: null,
   },
   {
     id: 'reservation-3',
@@ -63,12 +83,43 @@ const mockReservations: Reservation[] = [
     expiresAt: null,
     status: 'CANCELLED',
     queuePosition: 0,
+    copyId: null,
+    suspendedUntil: null,
+    pickupLocationId: null,
+  },
+];
+
+const mockServicePoints: ServicePoint[] = [
+  {
+    id: 'sp-central',
+    code: 'CENTRAL',
+    name: '中央館',
+    active: true,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'sp-east',
+    code: 'EAST',
+    name: '東分館',
+    active: true,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'sp-closed',
+    code: 'CLOSED',
+    name: '閉館分室',
+    active: false,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
   },
 ];
 
 describe('ReservationsPage', () => {
   beforeEach(() => {
     vi.resetAllMocks();
+    vi.mocked(servicePointApi.getServicePoints).mockResolvedValue(mockServicePoints);
   });
 
   describe('画面表示', () => {
@@ -241,6 +292,49 @@ describe('ReservationsPage', () => {
         ).toBeInTheDocument();
       });
     });
+
+    it.each([
+      [
+        '予約上限に達している',
+        {
+          type: 'RESERVATION_LIMIT_EXCEEDED',
+          userId: 'user-1',
+          limit: 5,
+          currentCount: 5,
+        },
+        /予約できる上限（5件）に達しているため予約できません/,
+      ],
+      [
+        'その書籍を借りている',
+        { type: 'BOOK_ALREADY_ON_LOAN', userId: 'user-1', bookId: 'book-1' },
+        /この書籍は現在お借りいただいているため予約できません/,
+      ],
+      [
+        '延滞料金により利用停止中',
+        {
+          type: 'PATRON_BLOCKED',
+          userId: 'user-1',
+          balance: 1500,
+          threshold: 1000,
+        },
+        /未払いの延滞料金（1500円）があるため予約できません/,
+      ],
+    ])('利用者が%sの場合、理由がわかるエラーメッセージが表示される', async (_label, error, message) => {
+      vi.mocked(reservationApi.createReservation).mockRejectedValue(
+        new ApiError(409, 'An error occurred', { error })
+      );
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+
+      await user.type(screen.getByLabelText(/利用者ID/), 'user-1');
+      await user.type(screen.getByLabelText(/書籍ID/), 'book-1');
+      await user.click(screen.getByRole('button', { name: '予約を作成' }));
+
+      await waitFor(() => {
+        expect(screen.getByText(message)).toBeInTheDocument();
+      });
+    });
   });
 
   describe('予約一覧', () => {
@@ -508,4 +602,459 @@ describe('ReservationsPage', () => {
       ).not.toBeInTheDocument();
     });
   });
+
+  describe('予約の休止', () => {
+    const suspendedReservation: Reservation = {
+      ...mockReservation,
+      suspendedUntil: '2099-06-01T12:00:00.000Z',
+    };
+
+    async function searchReservations(
+      user: ReturnType<typeof userEvent.setup>
+    ): Promise<void> {
+      await user.click(screen.getByRole('tab', { name: '予約一覧' }));
+      await user.type(screen.getByLabelText(/利用者ID/), 'user-1');
+      await user.click(screen.getByRole('button', { name: '予約を検索' }));
+
+      await waitFor(() => {
+        expect(screen.getByText('book-1')).toBeInTheDocument();
+      });
+    }
+
+    it('休止中の予約は休止期限とともに表示される', async () => {
+      vi.mocked(reservationApi.getUserReservations).mockResolvedValue([
+        suspendedReservation,
+      ]);
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+      await searchReservations(user);
+
+      expect(screen.getByText(/休止中（〜2099年6月1日）/)).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: '再開' })).toBeInTheDocument();
+    });
+
+    it('休止期限を指定して予約を休止できる', async () => {
+      vi.mocked(reservationApi.getUserReservations).mockResolvedValue([
+        mockReservation,
+      ]);
+      vi.mocked(reservationApi.suspendReservation).mockResolvedValue(
+        suspendedReservation
+      );
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+      await searchReservations(user);
+
+      await user.type(screen.getByLabelText('休止期限'), '2099-06-01');
+      await user.click(screen.getByRole('button', { name: '休止' }));
+
+      await waitFor(() => {
+        expect(reservationApi.suspendReservation).toHaveBeenCalledWith(
+          'reservation-1',
+          '2099-06-01'
+        );
+        expect(screen.getByText(/予約を休止しました/)).toBeInTheDocument();
+        expect(screen.getByText(/休止中（〜2099年6月1日）/)).toBeInTheDocument();
+      });
+    });
+
+    it('休止期限が未入力の場合はバリデーションエラー', async () => {
+      vi.mocked(reservationApi.getUserReservations).mockResolvedValue([
+        mockReservation,
+      ]);
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+      await searchReservations(user);
+
+      await user.click(screen.getByRole('button', { name: '休止' }));
+
+      expect(screen.getByText('休止期限は必須です')).toBeInTheDocument();
+      expect(reservationApi.suspendReservation).not.toHaveBeenCalled();
+    });
+
+    it('休止中の予約を再開できる', async () => {
+      vi.mocked(reservationApi.getUserReservations).mockResolvedValue([
+        suspendedReservation,
+      ]);
+      vi.mocked(reservationApi.resumeReservation).mockResolvedValue(mockReservation);
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+      await searchReservations(user);
+
+      await user.click(screen.getByRole('button', { name: '再開' }));
+
+      await waitFor(() => {
+        expect(reservationApi.resumeReservation).toHaveBeenCalledWith('reservation-1');
+        expect(screen.getByText(/予約の休止を解除しました/)).toBeInTheDocument();
+        expect(screen.getByText('予約待ち')).toBeInTheDocument();
+      });
+    });
+
+    it('利用者の予約をまとめて休止できる', async () => {
+      vi.mocked(reservationApi.getUserReservations).mockResolvedValue([
+        mockReservation,
+      ]);
+      vi.mocked(reservationApi.suspendUserReservations).mockResolvedValue([
+        suspendedReservation,
+      ]);
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+      await searchReservations(user);
+
+      await user.type(screen.getByLabelText('休止期限'), '2099-06-01');
+      await user.click(screen.getByRole('button', { name: 'すべて休止' }));
+
+      await waitFor(() => {
+        expect(reservationApi.suspendUserReservations).toHaveBeenCalledWith(
+          'user-1',
+          '2099-06-01'
+        );
+        expect(screen.getByText(/休止中（〜2099年6月1日）/)).toBeInTheDocument();
+      });
+    });
+
+    it('利用者の予約の休止をまとめて解除できる', async () => {
+      vi.mocked(reservationApi.getUserReservations).mockResolvedValue([
+        suspendedReservation,
+      ]);
+      vi.mocked(reservationApi.resumeUserReservations).mockResolvedValue([
+        mockReservation,
+      ]);
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+      await searchReservations(user);
+
+      await user.click(screen.getByRole('button', { name: 'すべて再開' }));
+
+      await waitFor(() => {
+        expect(reservationApi.resumeUserReservations).toHaveBeenCalledWith('user-1');
+        expect(screen.getByText(/予約の休止をすべて解除しました/)).toBeInTheDocument();
+      });
+    });
+
+    it('通知済みの予約は休止できない', async () => {
+      vi.mocked(reservationApi.getUserReservations).mockResolvedValue([
+        mockReservations[1],
+      ]);
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+      await user.click(screen.getByRole('tab', { name: '予約一覧' }));
+      await user.type(screen.getByLabelText(/利用者ID/), 'user-1');
+      await user.click(screen.getByRole('button', { name: '予約を検索' }));
+
+      await waitFor(() => {
+        expect(screen.getByText('book-2')).toBeInTheDocument();
+      });
+
+      expect(screen.queryByRole('button', { name: '休止' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('予約キューの管理', () => {
+    const queue: Reservation[] = [
+      { ...mockReservation, id: 'reservation-1', userId: 'user-1', queuePosition: 1 },
+      { ...mockReservation, id: 'reservation-2', userId: 'user-2', queuePosition: 3 },
+      { ...mockReservation, id: 'reservation-3', userId: 'user-3', queuePosition: 4 },
+    ];
+
+    const queueChange: ReservationQueueChange = {
+      id: 'queue-change-1',
+      reservationId: 'reservation-3',
+      bookId: 'book-1',
+      staffId: 'librarian-1',
+      fromPosition: 3,
+      toPosition: 1,
+      reason: 'アクセシビリティ対応',
+      changedAt: '2024-12-11T10:00:00.000Z',
+    };
+
+    async function showQueue(user: ReturnType<typeof userEvent.setup>): Promise<void> {
+      await user.click(screen.getByRole('tab', { name: '予約キュー' }));
+      await user.type(screen.getByLabelText(/書籍ID/), 'book-1');
+      await user.click(screen.getByRole('button', { name: 'キューを表示' }));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('queue-item-reservation-1')).toBeInTheDocument();
+      });
+    }
+
+    it('書籍の予約キューと変更履歴が表示される', async () => {
+      vi.mocked(reservationApi.getReservationQueue).mockResolvedValue(queue);
+      vi.mocked(reservationApi.getReservationQueueChanges).mockResolvedValue([queueChange]);
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+      await showQueue(user);
+
+      expect(reservationApi.getReservationQueue).toHaveBeenCalledWith('book-1');
+      expect(screen.getByTestId('queue-item-reservation-3')).toHaveTextContent('user-3');
+      expect(screen.getByText('3 → 1')).toBeInTheDocument();
+      expect(screen.getByText('librarian-1')).toBeInTheDocument();
+    });
+
+    it('ドラッグ＆ドロップで予約の順番を変更できる', async () => {
+      vi.mocked(reservationApi.getReservationQueue).mockResolvedValue(queue);
+      vi.mocked(reservationApi.getReservationQueueChanges).mockResolvedValue([]);
+      vi.mocked(reservationApi.moveReservation).mockResolvedValue({
+        ...queue[2],
+        queuePosition: 1,
+      });
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+      await showQueue(user);
+
+      await user.type(screen.getByLabelText('変更理由'), 'アクセシビリティ対応');
+      fireEvent.dragStart(screen.getByTestId('queue-item-reservation-3'));
+      fireEvent.dragOver(screen.getByTestId('queue-item-reservation-1'));
+      fireEvent.drop(screen.getByTestId('queue-item-reservation-1'));
+
+      await waitFor(() => {
+        expect(reservationApi.moveReservation).toHaveBeenCalledWith(
+          'reservation-3',
+          1,
+          'アクセシビリティ対応'
+        );
+        expect(screen.getByText(/予約の順番を変更しました/)).toBeInTheDocument();
+      });
+      // 変更後の予約キューを再取得する
+      expect(reservationApi.getReservationQueue).toHaveBeenCalledTimes(2);
+    });
+
+    it('上へボタンで予約を1つ前に移動できる', async () => {
+      vi.mocked(reservationApi.getReservationQueue).mockResolvedValue(queue);
+      vi.mocked(reservationApi.getReservationQueueChanges).mockResolvedValue([]);
+      vi.mocked(reservationApi.moveReservation).mockResolvedValue(queue[1]);
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+      await showQueue(user);
+
+      await user.type(screen.getByLabelText('変更理由'), '窓口での申し出');
+      await user.click(screen.getByRole('button', { name: 'user-2の予約を上へ' }));
+
+      await waitFor(() => {
+        expect(reservationApi.moveReservation).toHaveBeenCalledWith(
+          'reservation-2',
+          1,
+          '窓口での申し出'
+        );
+      });
+    });
+
+    it('変更理由が未入力の場合は順番を変更しない', async () => {
+      vi.mocked(reservationApi.getReservationQueue).mockResolvedValue(queue);
+      vi.mocked(reservationApi.getReservationQueueChanges).mockResolvedValue([]);
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+      await showQueue(user);
+
+      await user.click(screen.getByRole('button', { name: 'user-1の予約を下へ' }));
+
+      expect(screen.getByText('変更理由は必須です')).toBeInTheDocument();
+      expect(reservationApi.moveReservation).not.toHaveBeenCalled();
+    });
+
+    it('通知済みの予約は並べ替えできない', async () => {
+      vi.mocked(reservationApi.getReservationQueue).mockResolvedValue([
+        { ...queue[0], status: 'NOTIFIED' },
+        queue[1],
+      ]);
+      vi.mocked(reservationApi.getReservationQueueChanges).mockResolvedValue([]);
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+      await showQueue(user);
+
+      expect(screen.getByTestId('queue-item-reservation-1')).toHaveAttribute(
+        'draggable',
+        'false'
+      );
+      expect(
+        screen.queryByRole('button', { name: 'user-1の予約を下へ' })
+      ).not.toBeInTheDocument();
+    });
+
+    it('予約キューの順番を振り直せる', async () => {
+      vi.mocked(reservationApi.getReservationQueue).mockResolvedValue(queue);
+      vi.mocked(reservationApi.getReservationQueueChanges).mockResolvedValue([]);
+      vi.mocked(reservationApi.renumberReservationQueue).mockResolvedValue(
+        queue.map((r, index) => ({ ...r, queuePosition: index + 1 }))
+      );
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+      await showQueue(user);
+
+      await user.click(screen.getByRole('button', { name: '番号を振り直す' }));
+
+      await waitFor(() => {
+        expect(reservationApi.renumberReservationQueue).toHaveBeenCalledWith('book-1');
+        expect(screen.getByText(/予約キューの順番を振り直しました/)).toBeInTheDocument();
+      });
+      expect(screen.getByTestId('queue-item-reservation-3')).toHaveTextContent(/^3/);
+    });
+
+    it('予約キュー取得エラー時にエラーメッセージが表示される', async () => {
+      vi.mocked(reservationApi.getReservationQueue).mockRejectedValue(
+        new ApiError(403, 'この操作を実行する権限がありません')
+      );
+      vi.mocked(reservationApi.getReservationQueueChanges).mockResolvedValue([]);
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+      await user.click(screen.getByRole('tab', { name: '予約キュー' }));
+      await user.type(screen.getByLabelText(/書籍ID/), 'book-1');
+      await user.click(screen.getByRole('button', { name: 'キューを表示' }));
+
+      await waitFor(() => {
+        expect(
+          screen.getByText(/この操作を実行する権限がありません/)
+        ).toBeInTheDocument();
+      });
+    });
+  });
+
+  describe('受取館の指定', () => {
+    it('有効なサービスポイントのみ受取館の選択肢に表示される', async () => {
+      render(<ReservationsPage />);
+
+      const select = screen.getByLabelText('受取館');
+      await waitFor(() => {
+        expect(within(select).getByRole('option', { name: '中央館' })).toBeInTheDocument();
+      });
+      expect(within(select).getByRole('option', { name: '東分館' })).toBeInTheDocument();
+      expect(within(select).queryByRole('option', { name: '閉館分室' })).not.toBeInTheDocument();
+    });
+
+    it('受取館を指定して予約を作成できる', async () => {
+      vi.mocked(reservationApi.createReservation).mockResolvedValue({
+        ...mockReservation,
+        pickupLocationId: 'sp-east',
+      });
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+      await screen.findByRole('option', { name: '東分館' });
+
+      await user.type(screen.getByLabelText(/利用者ID/), 'user-1');
+      await user.type(screen.getByLabelText(/書籍ID/), 'book-1');
+      await user.selectOptions(screen.getByLabelText('受取館'), 'sp-east');
+      await user.click(screen.getByRole('button', { name: '予約を作成' }));
+
+      await waitFor(() => {
+        expect(reservationApi.createReservation).toHaveBeenCalledWith({
+          userId: 'user-1',
+          bookId: 'book-1',
+          pickupLocationId: 'sp-east',
+        });
+      });
+      expect(screen.getByLabelText('受取館')).toHaveValue('');
+    });
+
+    it('予約一覧に受取館の名称が表示される', async () => {
+      vi.mocked(reservationApi.getUserReservations).mockResolvedValue([
+        { ...mockReservation, pickupLocationId: 'sp-central' },
+      ]);
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+      await screen.findByRole('option', { name: '中央館' });
+
+      await user.click(screen.getByRole('tab', { name: '予約一覧' }));
+      await user.type(screen.getByLabelText(/利用者ID/), 'user-1');
+      await user.click(screen.getByRole('button', { name: '予約を検索' }));
+
+      await waitFor(() => {
+        expect(screen.getByRole('cell', { name: '中央館' })).toBeInTheDocument();
+      });
+    });
+  });
+
+  describe('輸送中の蔵書の受領', () => {
+    const transit: TransitRequest = {
+      id: 'transit-1',
+      copyId: 'copy-1',
+      reservationId: 'reservation-1',
+      fromServicePointId: 'sp-central',
+      toServicePointId: 'sp-east',
+      status: 'IN_TRANSIT',
+      createdAt: '2024-12-10T10:00:00.000Z',
+      receivedAt: null,
+    };
+
+    it('輸送タブを開くと輸送中の蔵書が表示される', async () => {
+      vi.mocked(reservationApi.getTransitRequests).mockResolvedValue([transit]);
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+      await screen.findByRole('option', { name: '中央館' });
+
+      await user.click(screen.getByRole('tab', { name: '輸送' }));
+
+      await waitFor(() => {
+        expect(screen.getByRole('cell', { name: 'copy-1' })).toBeInTheDocument();
+      });
+      expect(reservationApi.getTransitRequests).toHaveBeenCalledWith('IN_TRANSIT');
+      expect(screen.getByRole('cell', { name: '中央館' })).toBeInTheDocument();
+      expect(screen.getByRole('cell', { name: '東分館' })).toBeInTheDocument();
+    });
+
+    it('輸送中の蔵書がない場合はメッセージが表示される', async () => {
+      vi.mocked(reservationApi.getTransitRequests).mockResolvedValue([]);
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+
+      await user.click(screen.getByRole('tab', { name: '輸送' }));
+
+      await waitFor(() => {
+        expect(screen.getByText(/輸送中の蔵書はありません/)).toBeInTheDocument();
+      });
+    });
+
+    it('受領すると一覧から除かれ、予約者に通知される', async () => {
+      vi.mocked(reservationApi.getTransitRequests).mockResolvedValue([transit]);
+      vi.mocked(reservationApi.receiveTransit).mockResolvedValue({
+        transitRequest: { ...transit, status: 'RECEIVED', receivedAt: '2024-12-11T09:00:00.000Z' },
+        notifiedReservation: { ...mockReservation, status: 'NOTIFIED', copyId: 'copy-1' },
+      });
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+      await user.click(screen.getByRole('tab', { name: '輸送' }));
+
+      await user.click(await screen.findByRole('button', { name: 'copy-1を受領' }));
+
+      await waitFor(() => {
+        expect(reservationApi.receiveTransit).toHaveBeenCalledWith('transit-1');
+        expect(screen.getByText(/予約者に取り置きを通知しました/)).toBeInTheDocument();
+      });
+      expect(screen.queryByRole('cell', { name: 'copy-1' })).not.toBeInTheDocument();
+    });
+
+    it('受領済みの場合はエラーメッセージが表示される', async () => {
+      vi.mocked(reservationApi.getTransitRequests).mockResolvedValue([transit]);
+      vi.mocked(reservationApi.receiveTransit).mockRejectedValue(
+        new ApiError(409, 'この輸送依頼は既に受領済みです')
+      );
+
+      const user = userEvent.setup();
+      render(<ReservationsPage />);
+      await user.click(screen.getByRole('tab', { name: '輸送' }));
+
+      await user.click(await screen.findByRole('button', { name: 'copy-1を受領' }));
+
+      await waitFor(() => {
+        expect(screen.getByText(/この輸送依頼は既に受領済みです/)).toBeInTheDocument();
+      });
+    });
+  });
 });
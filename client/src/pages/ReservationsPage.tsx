@@ -1,12 +1,33 @@
-import React, { useState, useCallback, type FormEvent } from 'react';
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  type FormEvent,
+  type ChangeEvent,
+  type DragEvent,
+} from 'react';
 import { FormInput, Alert, DataTable, ConfirmDialog, type Column } from '../components';
 import {
   createReservation,
   cancelReservation,
   getUserReservations,
+  suspendReservation,
+  resumeReservation,
+  suspendUserReservations,
+  resumeUserReservations,
+  getReservationQueue,
+  getReservationQueueChanges,
+  renumberReservationQueue,
+  moveReservation,
+  getTransitRequests,
+  receiveTransit,
   type Reservation,
+  type ReservationQueueChange,
   type ReservationStatus,
+  type TransitRequest,
+  type ReservationApiError,
 } from '../lib/reservation-api';
+import { getServicePoints, type ServicePoint } from '../lib/service-point-api';
 import { ApiError } from '../lib/api-client';
 
 // ============================================
@@ -14,7 +35,7 @@ import { ApiError } from '../lib/api-client';
 // ============================================
 
 /** タブ種別 */
-type TabType = 'create' | 'list';
+type TabType = 'create' | 'list' | 'queue' | 'transit';
 
 /** アラート情報 */
 interface AlertInfo {
@@ -26,6 +47,8 @@ interface AlertInfo {
 interface ValidationErrors {
   userId?: string;
   bookId?: string;
+  suspendUntil?: string;
+  moveReason?: string;
 }
 
 // ============================================
@@ -34,6 +57,7 @@ interface ValidationErrors {
 
 const statusLabels: Record<ReservationStatus, string> = {
   PENDING: '予約待ち',
+  IN_TRANSIT: '輸送中',
   NOTIFIED: '通知済み',
   FULFILLED: '貸出完了',
   EXPIRED: '期限切れ',
@@ -59,6 +83,34 @@ function formatDate(dateString: string | null): string {
   });
 }
 
+/**
+ * 休止中の予約か判定（休止期限を過ぎた予約は通知対象に戻る）
+ */
+function isSuspended(reservation: Reservation): boolean {
+  return (
+    reservation.status === 'PENDING' &&
+    reservation.suspendedUntil !== null &&
+    new Date(reservation.suspendedUntil).getTime() > Date.now()
+  );
+}
+
+/**
+ * ステータスの表示ラベルを取得
+ */
+function getStatusLabel(reservation: Reservation): string {
+  if (isSuspended(reservation)) {
+    return `休止中（〜${formatDate(reservation.suspendedUntil)}）`;
+  }
+  return statusLabels[reservation.status];
+}
+
+/**
+ * 日時をフォーマット
+ */
+function formatDateTime(dateString: string): string {
+  return new Date(dateString).toLocaleString('ja-JP');
+}
+
 /**
  * キャンセル可能なステータスか判定
  */
@@ -66,6 +118,24 @@ function isCancellable(status: ReservationStatus): boolean {
   return status === 'PENDING' || status === 'NOTIFIED';
 }
 
+/**
+ * 予約作成のエラーを表示用の文言に変換
+ * 予約上限・貸出中・利用停止による予約不可は理由がわかる文言にする
+ */
+function describeCreateReservationError(error: ApiError): string {
+  const detail = (error.data as Partial<ReservationApiError> | undefined)?.error;
+  switch (detail?.type) {
+    case 'RESERVATION_LIMIT_EXCEEDED':
+      return `予約できる上限（${String(detail.limit ?? '')}件）に達しているため予約できません。不要な予約をキャンセルしてください`;
+    case 'BOOK_ALREADY_ON_LOAN':
+      return 'この書籍は現在お借りいただいているため予約できません';
+    case 'PATRON_BLOCKED':
+      return `未払いの延滞料金（${String(detail.balance ?? '')}円）があるため予約できません。お支払い後に再度お試しください`;
+    default:
+      return error.message;
+  }
+}
+
 // ============================================
 // メインコンポーネント
 // ============================================
@@ -80,14 +150,36 @@ export function ReservationsPage(): React.ReactElement {
   // 予約作成フォーム状態
   const [createUserId, setCreateUserId] = useState('');
   const [createBookId, setCreateBookId] = useState('');
+  const [createPickupLocationId, setCreatePickupLocationId] = useState('');
   const [createLoading, setCreateLoading] = useState(false);
 
+  // サービスポイント（受取館の選択肢・表示名）
+  const [servicePoints, setServicePoints] = useState<ServicePoint[]>([]);
+
   // 予約一覧状態
   const [searchUserId, setSearchUserId] = useState('');
   const [reservations, setReservations] = useState<Reservation[]>([]);
   const [searchLoading, setSearchLoading] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
 
+  // 予約休止状態
+  const [suspendUntil, setSuspendUntil] = useState('');
+  const [suspendLoading, setSuspendLoading] = useState(false);
+
+  // 予約キュー状態
+  const [queueBookId, setQueueBookId] = useState('');
+  const [queue, setQueue] = useState<Reservation[]>([]);
+  const [queueChanges, setQueueChanges] = useState<ReservationQueueChange[]>([]);
+  const [queueLoading, setQueueLoading] = useState(false);
+  const [hasLoadedQueue, setHasLoadedQueue] = useState(false);
+  const [moveReason, setMoveReason] = useState('');
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  // 輸送依頼状態
+  const [transits, setTransits] = useState<TransitRequest[]>([]);
+  const [transitLoading, setTransitLoading] = useState(false);
+  const [hasLoadedTransits, setHasLoadedTransits] = useState(false);
+
   // キャンセル確認ダイアログ状態
   const [cancelTarget, setCancelTarget] = useState<Reservation | null>(null);
   const [cancelLoading, setCancelLoading] = useState(false);
@@ -96,6 +188,31 @@ export function ReservationsPage(): React.ReactElement {
   const [alert, setAlert] = useState<AlertInfo | null>(null);
   const [validationErrors, setValidationErrors] = useState<ValidationErrors>({});
 
+  // ============================================
+  // サービスポイント取得
+  // ============================================
+
+  useEffect(() => {
+    getServicePoints()
+      .then(setServicePoints)
+      .catch(() => {
+        setAlert({ message: '受取館の一覧の取得に失敗しました', type: 'error' });
+      });
+  }, []);
+
+  /**
+   * サービスポイントの表示名を取得（未登録のIDはそのまま表示）
+   */
+  const getServicePointName = useCallback(
+    (servicePointId: string | null): string => {
+      if (servicePointId === null) {
+        return '-';
+      }
+      return servicePoints.find((sp) => sp.id === servicePointId)?.name ?? servicePointId;
+    },
+    [servicePoints]
+  );
+
   // ============================================
   // 予約作成処理
   // ============================================
@@ -129,6 +246,7 @@ export function ReservationsPage(): React.ReactElement {
         await createReservation({
           userId: createUserId.trim(),
           bookId: createBookId.trim(),
+          ...(createPickupLocationId !== '' && { pickupLocationId: createPickupLocationId }),
         });
         setAlert({
           message: '予約が完了しました',
@@ -136,11 +254,12 @@ export function ReservationsPage(): React.ReactElement {
         });
         setCreateUserId('');
         setCreateBookId('');
+        setCreatePickupLocationId('');
         setValidationErrors({});
       } catch (error) {
         if (error instanceof ApiError) {
           setAlert({
-            message: error.message,
+            message: describeCreateReservationError(error),
             type: 'error',
           });
         } else {
@@ -153,7 +272,7 @@ export function ReservationsPage(): React.ReactElement {
         setCreateLoading(false);
       }
     },
-    [createUserId, createBookId, validateCreateForm]
+    [createUserId, createBookId, createPickupLocationId, validateCreateForm]
   );
 
   // ============================================
@@ -254,15 +373,286 @@ export function ReservationsPage(): React.ReactElement {
   }, []);
 
   // ============================================
-  // タブ切り替え
+  // 予約休止処理
   // ============================================
 
-  const handleTabChange = useCallback((tab: TabType) => {
-    setActiveTab(tab);
-    setAlert(null);
+  const validateSuspendUntil = useCallback((): boolean => {
+    const errors: ValidationErrors = {};
+
+    if (suspendUntil === '') {
+      errors.suspendUntil = '休止期限は必須です';
+    }
+
+    setValidationErrors(errors);
+    return Object.keys(errors).length === 0;
+  }, [suspendUntil]);
+
+  /**
+   * 休止・休止解除の結果で予約一覧を更新
+   */
+  const applyUpdatedReservations = useCallback((updated: Reservation[]) => {
+    const updatedById = new Map(updated.map((r) => [r.id, r]));
+    setReservations((prev) => prev.map((r) => updatedById.get(r.id) ?? r));
+  }, []);
+
+  /**
+   * 休止・休止解除の操作を実行し、結果をアラートに表示
+   */
+  const runSuspendAction = useCallback(
+    async (action: () => Promise<Reservation[]>, successMessage: string) => {
+      setAlert(null);
+      setSuspendLoading(true);
+
+      try {
+        const updated = await action();
+        applyUpdatedReservations(updated);
+        setAlert({
+          message: successMessage,
+          type: 'success',
+        });
+      } catch (error) {
+        if (error instanceof ApiError) {
+          setAlert({
+            message: error.message,
+            type: 'error',
+          });
+        } else {
+          setAlert({
+            message: '予期しないエラーが発生しました',
+            type: 'error',
+          });
+        }
+      } finally {
+        setSuspendLoading(false);
+      }
+    },
+    [applyUpdatedReservations]
+  );
+
+  const handleSuspendClick = useCallback(
+    async (reservation: Reservation) => {
+      if (!validateSuspendUntil()) {
+        return;
+      }
+      await runSuspendAction(
+        async () => [await suspendReservation(reservation.id, suspendUntil)],
+        '予約を休止しました'
+      );
+    },
+    [suspendUntil, validateSuspendUntil, runSuspendAction]
+  );
+
+  const handleResumeClick = useCallback(
+    async (reservation: Reservation) => {
+      setValidationErrors({});
+      await runSuspendAction(
+        async () => [await resumeReservation(reservation.id)],
+        '予約の休止を解除しました'
+      );
+    },
+    [runSuspendAction]
+  );
+
+  const handleSuspendAllClick = useCallback(async () => {
+    if (!validateSuspendUntil()) {
+      return;
+    }
+    await runSuspendAction(
+      () => suspendUserReservations(searchUserId.trim(), suspendUntil),
+      '予約待ちの予約をすべて休止しました'
+    );
+  }, [searchUserId, suspendUntil, validateSuspendUntil, runSuspendAction]);
+
+  const handleResumeAllClick = useCallback(async () => {
     setValidationErrors({});
+    await runSuspendAction(
+      () => resumeUserReservations(searchUserId.trim()),
+      '予約の休止をすべて解除しました'
+    );
+  }, [searchUserId, runSuspendAction]);
+
+  // ============================================
+  // 予約キュー管理処理
+  // ============================================
+
+  const showError = useCallback((error: unknown) => {
+    if (error instanceof ApiError) {
+      setAlert({
+        message: error.message,
+        type: 'error',
+      });
+    } else {
+      setAlert({
+        message: '予期しないエラーが発生しました',
+        type: 'error',
+      });
+    }
+  }, []);
+
+  /**
+   * 予約キューと変更履歴を取得
+   */
+  const loadQueue = useCallback(async (bookId: string) => {
+    const [queueResult, changesResult] = await Promise.all([
+      getReservationQueue(bookId),
+      getReservationQueueChanges(bookId),
+    ]);
+    setQueue(queueResult);
+    setQueueChanges(changesResult);
+    setHasLoadedQueue(true);
+  }, []);
+
+  const handleQueueSubmit = useCallback(
+    async (e: FormEvent) => {
+      e.preventDefault();
+      setAlert(null);
+
+      if (queueBookId.trim() === '') {
+        setValidationErrors({ bookId: '書籍IDは必須です' });
+        return;
+      }
+      setValidationErrors({});
+
+      setQueueLoading(true);
+
+      try {
+        await loadQueue(queueBookId.trim());
+      } catch (error) {
+        showError(error);
+      } finally {
+        setQueueLoading(false);
+      }
+    },
+    [queueBookId, loadQueue, showError]
+  );
+
+  const handleMove = useCallback(
+    async (reservation: Reservation, position: number) => {
+      setAlert(null);
+
+      if (moveReason.trim() === '') {
+        setValidationErrors({ moveReason: '変更理由は必須です' });
+        return;
+      }
+      setValidationErrors({});
+
+      setQueueLoading(true);
+
+      try {
+        await moveReservation(reservation.id, position, moveReason.trim());
+        await loadQueue(reservation.bookId);
+        setAlert({
+          message: '予約の順番を変更しました',
+          type: 'success',
+        });
+        setMoveReason('');
+      } catch (error) {
+        showError(error);
+      } finally {
+        setQueueLoading(false);
+      }
+    },
+    [moveReason, loadQueue, showError]
+  );
+
+  const handleRenumber = useCallback(async () => {
+    setAlert(null);
+    setQueueLoading(true);
+
+    try {
+      const result = await renumberReservationQueue(queueBookId.trim());
+      setQueue(result);
+      setAlert({
+        message: '予約キューの順番を振り直しました',
+        type: 'success',
+      });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setQueueLoading(false);
+    }
+  }, [queueBookId, showError]);
+
+  const handleDragStart = useCallback((reservation: Reservation) => {
+    setDraggedId(reservation.id);
   }, []);
 
+  const handleDragOver = useCallback((e: DragEvent<HTMLLIElement>) => {
+    // ドロップを受け付けるために既定の動作を抑止する
+    e.preventDefault();
+  }, []);
+
+  const handleDrop = useCallback(
+    async (e: DragEvent<HTMLLIElement>, index: number) => {
+      e.preventDefault();
+      const dragged = queue.find((r) => r.id === draggedId);
+      setDraggedId(null);
+      if (dragged === undefined || queue[index]?.id === dragged.id) {
+        return;
+      }
+      await handleMove(dragged, index + 1);
+    },
+    [queue, draggedId, handleMove]
+  );
+
+  // ============================================
+  // 輸送依頼処理
+  // ============================================
+
+  const loadTransits = useCallback(async () => {
+    setTransitLoading(true);
+
+    try {
+      setTransits(await getTransitRequests('IN_TRANSIT'));
+      setHasLoadedTransits(true);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setTransitLoading(false);
+    }
+  }, [showError]);
+
+  const handleReceiveTransit = useCallback(
+    async (transit: TransitRequest) => {
+      setAlert(null);
+      setTransitLoading(true);
+
+      try {
+        const result = await receiveTransit(transit.id);
+        setTransits((prev) => prev.filter((t) => t.id !== transit.id));
+        setAlert({
+          message:
+            result.notifiedReservation !== null
+              ? '受領しました。予約者に取り置きを通知しました'
+              : '受領しました',
+          type: 'success',
+        });
+      } catch (error) {
+        showError(error);
+      } finally {
+        setTransitLoading(false);
+      }
+    },
+    [showError]
+  );
+
+  // ============================================
+  // タブ切り替え
+  // ============================================
+
+  const handleTabChange = useCallback(
+    (tab: TabType) => {
+      setActiveTab(tab);
+      setAlert(null);
+      setValidationErrors({});
+      // 輸送タブを開いたときは輸送中の一覧を取得し直す
+      if (tab === 'transit') {
+        void loadTransits();
+      }
+    },
+    [loadTransits]
+  );
+
   const handleAlertClose = useCallback(() => {
     setAlert(null);
   }, []);
@@ -281,7 +671,7 @@ export function ReservationsPage(): React.ReactElement {
     {
       key: 'status',
       header: 'ステータス',
-      render: (r) => statusLabels[r.status],
+      render: (r) => getStatusLabel(r),
     },
     {
       key: 'queuePosition',
@@ -293,19 +683,98 @@ export function ReservationsPage(): React.ReactElement {
       header: '有効期限',
       render: (r) => formatDate(r.expiresAt),
     },
+    {
+      key: 'pickupLocationId',
+      header: '受取館',
+      render: (r) => getServicePointName(r.pickupLocationId),
+    },
     {
       key: 'actions',
       header: '操作',
-      render: (r) =>
-        isCancellable(r.status) ? (
-          <button
-            type="button"
-            className="cancel-button"
-            onClick={() => handleCancelClick(r)}
-          >
-            キャンセル
-          </button>
-        ) : null,
+      render: (r) => (
+        <>
+          {r.status === 'PENDING' &&
+            (isSuspended(r) ? (
+              <button
+                type="button"
+                className="resume-button"
+                onClick={() => handleResumeClick(r)}
+                disabled={suspendLoading}
+              >
+                再開
+              </button>
+            ) : (
+              <button
+                type="button"
+                className="suspend-button"
+                onClick={() => handleSuspendClick(r)}
+                disabled={suspendLoading}
+              >
+                休止
+              </button>
+            ))}
+          {isCancellable(r.status) && (
+            <button
+              type="button"
+              className="cancel-button"
+              onClick={() => handleCancelClick(r)}
+            >
+              キャンセル
+            </button>
+          )}
+        </>
+      ),
+    },
+  ];
+
+  const queueChangeColumns: Column<ReservationQueueChange>[] = [
+    {
+      key: 'changedAt',
+      header: '変更日時',
+      render: (c) => formatDateTime(c.changedAt),
+    },
+    { key: 'reservationId', header: '予約ID' },
+    {
+      key: 'fromPosition',
+      header: '順番',
+      render: (c) => `${String(c.fromPosition)} → ${String(c.toPosition)}`,
+    },
+    { key: 'staffId', header: '職員' },
+    { key: 'reason', header: '理由' },
+  ];
+
+  const transitColumns: Column<TransitRequest>[] = [
+    {
+      key: 'createdAt',
+      header: '依頼日時',
+      render: (t) => formatDateTime(t.createdAt),
+    },
+    { key: 'copyId', header: '蔵書コピーID' },
+    { key: 'reservationId', header: '予約ID' },
+    {
+      key: 'fromServicePointId',
+      header: '発送元',
+      render: (t) => getServicePointName(t.fromServicePointId),
+    },
+    {
+      key: 'toServicePointId',
+      header: '受取館',
+      render: (t) => getServicePointName(t.toServicePointId),
+    },
+    {
+      key: 'status',
+      header: '操作',
+      render: (t) => (
+        <button
+          type="button"
+          className="receive-button"
+          aria-label={`${t.copyId}を受領`}
+          onClick={() => handleReceiveTransit(t)}
+          disabled={transitLoading}
+        >
+          受領
+        </button>
+      ),
     },
   ];
 
@@ -341,6 +810,28 @@ export function ReservationsPage(): React.ReactElement {
         >
           予約一覧
         </button>
+        <button
+          type="button"
+          role="tab"
+          id="tab-queue"
+          aria-selected={activeTab === 'queue'}
+          aria-controls="panel-queue"
+          className={`tab ${activeTab === 'queue' ? 'tab-active' : ''}`}
+          onClick={() => handleTabChange('queue')}
+        >
+          予約キュー
+        </button>
+        <button
+          type="button"
+          role="tab"
+          id="tab-transit"
+          aria-selected={activeTab === 'transit'}
+          aria-controls="panel-transit"
+          className={`tab ${activeTab === 'transit' ? 'tab-active' : ''}`}
+          onClick={() => handleTabChange('transit')}
+        >
+          輸送
+        </button>
       </div>
 
       {/* アラート */}
@@ -379,6 +870,29 @@ export function ReservationsPage(): React.ReactElement {
               error={validationErrors.bookId}
               disabled={createLoading}
             />
+            <div className="form-input-container">
+              <label htmlFor="createPickupLocation" className="form-input-label">
+                受取館
+              </label>
+              <select
+                id="createPickupLocation"
+                value={createPickupLocationId}
+                onChange={(e: ChangeEvent<HTMLSelectElement>) =>
+                  setCreatePickupLocationId(e.target.value)
+                }
+                className="form-input"
+                disabled={createLoading}
+              >
+                <option value="">指定しない（返却された館で受け取る）</option>
+                {servicePoints
+                  .filter((sp) => sp.active)
+                  .map((sp) => (
+                    <option key={sp.id} value={sp.id}>
+                      {sp.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
             <button
               type="submit"
               className="submit-button"
@@ -421,6 +935,45 @@ export function ReservationsPage(): React.ReactElement {
             <p className="no-data">予約はありません</p>
           )}
 
+          {reservations.length > 0 && (
+            <div className="suspend-form">
+              <div className="form-input-container">
+                <label htmlFor="suspendUntil" className="form-input-label">
+                  休止期限
+                </label>
+                <input
+                  id="suspendUntil"
+                  type="date"
+                  value={suspendUntil}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setSuspendUntil(e.target.value)}
+                  className={`form-input ${validationErrors.suspendUntil !== undefined ? 'form-input-error' : ''}`}
+                  disabled={suspendLoading}
+                />
+                {validationErrors.suspendUntil !== undefined && (
+                  <div className="form-input-error-message" role="alert">
+                    {validationErrors.suspendUntil}
+                  </div>
+                )}
+              </div>
+              <button
+                type="button"
+                className="suspend-all-button"
+                onClick={handleSuspendAllClick}
+                disabled={suspendLoading}
+              >
+                すべて休止
+              </button>
+              <button
+                type="button"
+                className="resume-all-button"
+                onClick={handleResumeAllClick}
+                disabled={suspendLoading}
+              >
+                すべて再開
+              </button>
+            </div>
+          )}
+
           {reservations.length > 0 && (
             <DataTable
               data={reservations}
@@ -431,6 +984,143 @@ export function ReservationsPage(): React.ReactElement {
         </div>
       )}
 
+      {/* 予約キューパネル */}
+      {activeTab === 'queue' && (
+        <div
+          role="tabpanel"
+          id="panel-queue"
+          aria-labelledby="tab-queue"
+          className="tab-panel"
+        >
+          <form onSubmit={handleQueueSubmit} className="search-form" noValidate>
+            <FormInput
+              id="queueBookId"
+              label="書籍ID"
+              value={queueBookId}
+              onChange={setQueueBookId}
+              required
+              error={validationErrors.bookId}
+              disabled={queueLoading}
+            />
+            <button
+              type="submit"
+              className="submit-button"
+              disabled={queueLoading}
+            >
+              {queueLoading ? '読み込み中...' : 'キューを表示'}
+            </button>
+          </form>
+
+          {hasLoadedQueue && queue.length === 0 && (
+            <p className="no-data">予約はありません</p>
+          )}
+
+          {queue.length > 0 && (
+            <>
+              <FormInput
+                id="moveReason"
+                label="変更理由"
+                value={moveReason}
+                onChange={setMoveReason}
+                placeholder="例: アクセシビリティ対応"
+                error={validationErrors.moveReason}
+                disabled={queueLoading}
+              />
+              <p className="queue-hint">
+                予約待ちの予約はドラッグ＆ドロップまたは上へ・下へボタンで並べ替えできます
+              </p>
+              <ol className="reservation-queue">
+                {queue.map((r, index) => {
+                  const movable = r.status === 'PENDING';
+                  return (
+                    <li
+                      key={r.id}
+                      data-testid={`queue-item-${r.id}`}
+                      className={`queue-item ${draggedId === r.id ? 'queue-item-dragging' : ''}`}
+                      draggable={movable && !queueLoading}
+                      onDragStart={() => handleDragStart(r)}
+                      onDragOver={handleDragOver}
+                      onDrop={(e) => handleDrop(e, index)}
+                    >
+                      <span className="queue-position">{r.queuePosition}</span>
+                      <span className="queue-user">{r.userId}</span>
+                      <span className="queue-status">{getStatusLabel(r)}</span>
+                      {movable && (
+                        <>
+                          <button
+                            type="button"
+                            aria-label={`${r.userId}の予約を上へ`}
+                            onClick={() => handleMove(r, index)}
+                            disabled={queueLoading || index === 0}
+                          >
+                            上へ
+                          </button>
+                          <button
+                            type="button"
+                            aria-label={`${r.userId}の予約を下へ`}
+                            onClick={() => handleMove(r, index + 2)}
+                            disabled={queueLoading || index === queue.length - 1}
+                          >
+                            下へ
+                          </button>
+                        </>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+              <button
+                type="button"
+                className="renumber-button"
+                onClick={handleRenumber}
+                disabled={queueLoading}
+              >
+                番号を振り直す
+              </button>
+            </>
+          )}
+
+          {queueChanges.length > 0 && (
+            <>
+              <h2>変更履歴</h2>
+              <DataTable
+                data={queueChanges}
+                columns={queueChangeColumns}
+                keyField="id"
+              />
+            </>
+          )}
+        </div>
+      )}
+
+      {/* 輸送パネル */}
+      {activeTab === 'transit' && (
+        <div
+          role="tabpanel"
+          id="panel-transit"
+          aria-labelledby="tab-transit"
+          className="tab-panel"
+        >
+          <p className="transit-hint">
+            受取館に届いた蔵書コピーを受領すると、予約者への取り置きの通知が行われます
+          </p>
+
+          {transitLoading && transits.length === 0 && <p>読み込み中...</p>}
+
+          {hasLoadedTransits && !transitLoading && transits.length === 0 && (
+            <p className="no-data">輸送中の蔵書はありません</p>
+          )}
+
+          {transits.length > 0 && (
+            <DataTable
+              data={transits}
+              columns={transitColumns}
+              keyField="id"
+            />
+          )}
+        </div>
+      )}
+
       {/* キャンセル確認ダイアログ */}
       <ConfirmDialog
         isOpen={cancelTarget !== null}
@@ -11,20 +11,33 @@ import { render, screen, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { SearchPage } from './SearchPage';
 import * as searchApi from '../lib/search-api';
+import * as bookApi from '../lib/book-api';
 import type { SearchResult, SearchBook } from '../lib/search-api';
 
 // API モック
 vi.mock('../lib/search-api');
+vi.mock('../lib/book-api');
 
 const mockSearchBooks: readonly SearchBook[] = [
   {
     id: 'book-1',
     title: 'TypeScript入門',
-    author: '山田太郎',
+    author: '山田太郎, 佐藤花子 訳',
+    contributors: [
+      { personId: 'person-1', name: '山田太郎', role: 'AUTHOR', position: 1 },
+      { personId: 'person-2', name: '佐藤花子', role: 'TRANSLATOR', position: 2 },
+    ],
     publisher: '技術評論社',
     publicationYear: 2024,
     isbn: '9784123456789',
+    isbnHyphenated: '978-4-12-345678-9',
     category: 'プログラミング',
+    classification: { id: 'class-007', scheme: 'NDC', number: '007.64', label: 'プログラミング' },
+    callNumber: '007.64/ヤ',
+    subjectHeadings: [
+      { id: 'heading-1', label: 'プログラミング（コンピュータ）' },
+      { id: 'heading-2', label: 'TypeScript' },
+    ],
     availableCopies: 3,
     totalCopies: 5,
   },
@@ -32,10 +45,15 @@ const mockSearchBooks: readonly SearchBook[] = [
     id: 'book-2',
     title: 'React実践ガイド',
     author: '佐藤花子',
+    contributors: [],
     publisher: 'オライリー・ジャパン',
     publicationYear: 2023,
     isbn: '9784987654321',
+    isbnHyphenated: '978-4-9876543-2-1',
     category: 'プログラミング',
+    classification: null,
+    callNumber: null,
+    subjectHeadings: [],
     availableCopies: 0,
     totalCopies: 2,
   },
@@ -43,10 +61,15 @@ const mockSearchBooks: readonly SearchBook[] = [
     id: 'book-3',
     title: '図書館学入門',
     author: '鈴木一郎',
+    contributors: [],
     publisher: '岩波書店',
     publicationYear: 2020,
     isbn: '9784000000000',
+    isbnHyphenated: '978-4-00-000000-0',
     category: '図書館学',
+    classification: null,
+    callNumber: null,
+    subjectHeadings: [],
     availableCopies: 1,
     totalCopies: 1,
   },
@@ -323,6 +346,7 @@ describe('SearchPage', () => {
         expect(within(dialog).getByText('TypeScript入門')).toBeInTheDocument();
         expect(within(dialog).getByText('山田太郎')).toBeInTheDocument();
         expect(within(dialog).getByText('技術評論社')).toBeInTheDocument();
+        expect(within(dialog).getByText('978-4-12-345678-9')).toBeInTheDocument();
       });
     });
 
@@ -343,6 +367,67 @@ describe('SearchPage', () => {
       });
     });
 
+    it('分類・請求記号・件名が表示される', async () => {
+      const user = userEvent.setup();
+      render(<SearchPage />);
+
+      await waitFor(() => {
+        expect(screen.getByText('TypeScript入門')).toBeInTheDocument();
+      });
+
+      await user.click(screen.getByText('TypeScript入門'));
+
+      const dialog = await screen.findByRole('dialog');
+      expect(within(dialog).getByText('NDC 007.64 プログラミング')).toBeInTheDocument();
+      expect(within(dialog).getByText('007.64/ヤ')).toBeInTheDocument();
+      expect(
+        within(dialog).getByText('プログラミング（コンピュータ） / TypeScript')
+      ).toBeInTheDocument();
+    });
+
+    it('寄与者の役割が表示され、寄与者をクリックするとその書籍一覧が表示される', async () => {
+      const user = userEvent.setup();
+      vi.mocked(bookApi.getBooksByContributor).mockResolvedValue({
+        person: { id: 'person-2', name: '佐藤花子', createdAt: '2024-01-01T00:00:00.000Z' },
+        books: [
+          {
+            id: 'book-9',
+            title: '翻訳の技法',
+            author: '佐藤花子',
+            contributors: [{ personId: 'person-2', name: '佐藤花子', role: 'AUTHOR', position: 1 }],
+            publisher: '技術評論社',
+            publicationYear: 2022,
+            isbn: '9784000000000',
+            isbnHyphenated: '978-4-00-000000-0',
+            category: null,
+            classification: null,
+            callNumber: null,
+            subjectHeadings: [],
+            createdAt: '2024-01-01T00:00:00.000Z',
+            updatedAt: '2024-01-01T00:00:00.000Z',
+          },
+        ],
+      });
+      render(<SearchPage />);
+
+      await waitFor(() => {
+        expect(screen.getByText('TypeScript入門')).toBeInTheDocument();
+      });
+
+      await user.click(screen.getByText('TypeScript入門'));
+
+      const dialog = await screen.findByRole('dialog');
+      expect(within(dialog).getByText('（訳者）')).toBeInTheDocument();
+
+      await user.click(within(dialog).getByRole('button', { name: '佐藤花子' }));
+
+      await waitFor(() => {
+        expect(bookApi.getBooksByContributor).toHaveBeenCalledWith('person-2');
+        expect(within(dialog).getByText('佐藤花子 の書籍')).toBeInTheDocument();
+        expect(within(dialog).getByText(/翻訳の技法/)).toBeInTheDocument();
+      });
+    });
+
     it('貸出不可の場合は「貸出中」と表示される', async () => {
       const user = userEvent.setup();
       render(<SearchPage />);
@@ -7,6 +7,12 @@ import {
   type SearchSortBy,
   type SearchSortOrder,
 } from '../lib/search-api';
+import {
+  getBooksByContributor,
+  type BookContributor,
+  type ContributorBooks,
+  type ContributorRole,
+} from '../lib/book-api';
 
 // ============================================
 // 型定義
@@ -39,6 +45,14 @@ const initialFormData: SearchFormData = {
   availableOnly: false,
 };
 
+/** 寄与者の役割の表示名 */
+const CONTRIBUTOR_ROLE_LABELS: Record<ContributorRole, string> = {
+  AUTHOR: '著者',
+  EDITOR: '編者',
+  TRANSLATOR: '訳者',
+  ILLUSTRATOR: '画家',
+};
+
 // ============================================
 // カラム定義
 // ============================================
@@ -46,7 +60,7 @@ const initialFormData: SearchFormData = {
 const createColumns = (): Column<SearchBook>[] => [
   { key: 'title', header: 'タイトル', sortable: true },
   { key: 'author', header: '著者', sortable: true },
-  { key: 'isbn', header: 'ISBN' },
+  { key: 'isbn', header: 'ISBN', render: (book) => book.isbnHyphenated },
   { key: 'publisher', header: '出版社', render: (book) => book.publisher ?? '-' },
   { key: 'publicationYear', header: '出版年', sortable: true, render: (book) => book.publicationYear?.toString() ?? '-' },
   { key: 'category', header: 'カテゴリ', render: (book) => book.category ?? '-' },
@@ -83,6 +97,7 @@ export function SearchPage(): React.ReactElement {
   const [sortBy, setSortBy] = useState<SearchSortBy | undefined>(undefined);
   const [sortOrder, setSortOrder] = useState<SearchSortOrder | undefined>(undefined);
   const [selectedBook, setSelectedBook] = useState<SearchBook | null>(null);
+  const [contributorBooks, setContributorBooks] = useState<ContributorBooks | null>(null);
 
   // 検索実行
   const executeSearch = useCallback(async (params: SearchParams) => {
@@ -160,11 +175,22 @@ export function SearchPage(): React.ReactElement {
   // 行クリック
   const handleRowClick = useCallback((book: SearchBook) => {
     setSelectedBook(book);
+    setContributorBooks(null);
   }, []);
 
   // 詳細閉じる
   const handleCloseDetail = useCallback(() => {
     setSelectedBook(null);
+    setContributorBooks(null);
+  }, []);
+
+  // 寄与者クリック（寄与者別の書籍一覧を表示）
+  const handleContributorClick = useCallback(async (contributor: BookContributor) => {
+    try {
+      setContributorBooks(await getBooksByContributor(contributor.personId));
+    } catch {
+      setAlert({ message: '寄与者の書籍一覧の取得に失敗しました', type: 'error' });
+    }
   }, []);
 
   // アラートを閉じる
@@ -305,15 +331,50 @@ export function SearchPage(): React.ReactElement {
               <dt>タイトル</dt>
               <dd>{selectedBook.title}</dd>
               <dt>著者</dt>
-              <dd>{selectedBook.author}</dd>
+              <dd>
+                {selectedBook.contributors.length > 0 ? (
+                  <ul className="search-page-contributors">
+                    {selectedBook.contributors.map((contributor) => (
+                      <li key={`${contributor.personId}-${contributor.role}`}>
+                        <button
+                          type="button"
+                          className="search-page-contributor-button"
+                          onClick={() => void handleContributorClick(contributor)}
+                        >
+                          {contributor.name}
+                        </button>
+                        {contributor.role !== 'AUTHOR' && (
+                          <span>（{CONTRIBUTOR_ROLE_LABELS[contributor.role]}）</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  selectedBook.author
+                )}
+              </dd>
               <dt>出版社</dt>
               <dd>{selectedBook.publisher ?? '-'}</dd>
               <dt>出版年</dt>
               <dd>{selectedBook.publicationYear?.toString() ?? '-'}</dd>
               <dt>ISBN</dt>
-              <dd>{selectedBook.isbn}</dd>
+              <dd>{selectedBook.isbnHyphenated}</dd>
               <dt>カテゴリ</dt>
               <dd>{selectedBook.category ?? '-'}</dd>
+              <dt>分類</dt>
+              <dd>
+                {selectedBook.classification !== null
+                  ? `${selectedBook.classification.scheme} ${selectedBook.classification.number} ${selectedBook.classification.label}`
+                  : '-'}
+              </dd>
+              <dt>請求記号</dt>
+              <dd>{selectedBook.callNumber ?? '-'}</dd>
+              <dt>件名</dt>
+              <dd>
+                {selectedBook.subjectHeadings.length > 0
+                  ? selectedBook.subjectHeadings.map((heading) => heading.label).join(' / ')
+                  : '-'}
+              </dd>
               <dt>貸出状況</dt>
               <dd>
                 貸出可能: {selectedBook.availableCopies} / {selectedBook.totalCopies}
@@ -322,6 +383,19 @@ export function SearchPage(): React.ReactElement {
                 )}
               </dd>
             </dl>
+            {contributorBooks !== null && (
+              <section className="search-page-contributor-books">
+                <h3>{contributorBooks.person.name} の書籍</h3>
+                <ul>
+                  {contributorBooks.books.map((book) => (
+                    <li key={book.id}>
+                      {book.title}
+                      {book.publicationYear !== null && `（${String(book.publicationYear)}）`}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
             <button
               type="button"
               className="search-page-close-button"
@@ -10,10 +10,13 @@ import userEvent from '@testing-library/user-event';
 import { UsersPage } from './UsersPage';
 import * as userApi from '../lib/user-api';
 import type { User, UserWithLoans } from '../lib/user-api';
+import * as fineApi from '../lib/fine-api';
+import type { PatronAccount } from '../lib/fine-api';
 import { ApiError } from '../lib/api-client';
 
 // API モック
 vi.mock('../lib/user-api');
+vi.mock('../lib/fine-api');
 
 const mockUser: User = {
   id: 'user-1',
@@ -45,6 +48,7 @@ const mockUserWithLoans: UserWithLoans = {
       borrowedAt: '2024-12-01T10:00:00.000Z',
       dueDate: '2024-12-15T10:00:00.000Z',
       returnedAt: null,
+      status: 'ACTIVE',
       isOverdue: false,
     },
   ],
@@ -56,14 +60,41 @@ const mockUserWithLoans: UserWithLoans = {
       borrowedAt: '2024-11-01T10:00:00.000Z',
       dueDate: '2024-11-15T10:00:00.000Z',
       returnedAt: '2024-11-14T10:00:00.000Z',
+      status: 'RETURNED',
       isOverdue: false,
     },
   ],
 };
 
+const mockAccount: PatronAccount = {
+  userId: 'user-1',
+  balance: 300,
+  transactions: [
+    {
+      id: 'fine-2',
+      userId: 'user-1',
+      type: 'PAYMENT',
+      amount: 200,
+      loanId: null,
+      reason: null,
+      createdAt: '2024-11-20T10:00:00.000Z',
+    },
+    {
+      id: 'fine-1',
+      userId: 'user-1',
+      type: 'CHARGE',
+      amount: 500,
+      loanId: 'loan-3',
+      reason: '延滞50日',
+      createdAt: '2024-11-18T10:00:00.000Z',
+    },
+  ],
+};
+
 describe('UsersPage', () => {
   beforeEach(() => {
     vi.resetAllMocks();
+    vi.mocked(fineApi.getPatronAccount).mockResolvedValue(mockAccount);
   });
 
   describe('画面表示', () => {
@@ -277,6 +308,63 @@ describe('UsersPage', () => {
       });
     });
 
+    it('貸出履歴に返却申告中・紛失・破損の状態が表示される', async () => {
+      vi.mocked(userApi.searchUsers).mockResolvedValue([mockUser]);
+      vi.mocked(userApi.getUserLoans).mockResolvedValue({
+        ...mockUserWithLoans,
+        loanHistory: [
+          { ...mockUserWithLoans.loanHistory[0]!, status: 'LOST' },
+          { ...mockUserWithLoans.loanHistory[0]!, id: 'loan-3', status: 'DAMAGED' },
+          { ...mockUserWithLoans.loanHistory[0]!, id: 'loan-4', status: 'CLAIMED_RETURNED' },
+        ],
+      });
+
+      const user = userEvent.setup();
+      render(<UsersPage />);
+
+      await user.type(screen.getByLabelText(/検索キーワード/), '山田');
+      await user.click(screen.getByRole('button', { name: '検索' }));
+
+      await waitFor(() => {
+        expect(screen.getByText('山田太郎')).toBeInTheDocument();
+      });
+
+      await user.click(screen.getByText('山田太郎'));
+
+      await waitFor(() => {
+        const detailSection = screen.getByTestId('user-detail');
+        expect(within(detailSection).getByText('紛失')).toBeInTheDocument();
+        expect(within(detailSection).getByText('破損')).toBeInTheDocument();
+        expect(within(detailSection).getByText('返却申告中')).toBeInTheDocument();
+      });
+    });
+
+    it('利用者詳細に延滞料金の残高と取引履歴が表示される', async () => {
+      vi.mocked(userApi.searchUsers).mockResolvedValue([mockUser]);
+      vi.mocked(userApi.getUserLoans).mockResolvedValue(mockUserWithLoans);
+
+      const user = userEvent.setup();
+      render(<UsersPage />);
+
+      await user.type(screen.getByLabelText(/検索キーワード/), '山田');
+      await user.click(screen.getByRole('button', { name: '検索' }));
+
+      await waitFor(() => {
+        expect(screen.getByText('山田太郎')).toBeInTheDocument();
+      });
+
+      await user.click(screen.getByText('山田太郎'));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('fine-balance')).toHaveTextContent('300円');
+      });
+      const detailSection = screen.getByTestId('user-detail');
+      expect(within(detailSection).getByText('延滞50日')).toBeInTheDocument();
+      expect(within(detailSection).getByText('請求')).toBeInTheDocument();
+      expect(within(detailSection).getByText('支払い')).toBeInTheDocument();
+      expect(fineApi.getPatronAccount).toHaveBeenCalledWith('user-1');
+    });
+
     it('詳細を閉じるボタンで詳細を閉じられる', async () => {
       vi.mocked(userApi.searchUsers).mockResolvedValue([mockUser]);
       vi.mocked(userApi.getUserLoans).mockResolvedValue(mockUserWithLoans);
@@ -8,6 +8,13 @@ import {
   type UserWithLoans,
   type LoanSummary,
 } from '../lib/user-api';
+import type { LoanStatus } from '../lib/loan-api';
+import {
+  getPatronAccount,
+  type PatronAccount,
+  type FineTransaction,
+  type FineTransactionType,
+} from '../lib/fine-api';
 import { ApiError } from '../lib/api-client';
 
 // ============================================
@@ -69,6 +76,31 @@ function formatDate(dateString: string): string {
   });
 }
 
+/**
+ * 金額をフォーマット
+ */
+function formatAmount(amount: number): string {
+  return `${amount.toLocaleString('ja-JP')}円`;
+}
+
+/** 貸出ステータスの表示名 */
+const loanStatusLabels: Record<LoanStatus, string> = {
+  ACTIVE: '貸出中',
+  CLAIMED_RETURNED: '返却申告中',
+  RETURNED: '返却済み',
+  LOST: '紛失',
+  DAMAGED: '破損',
+};
+
+/** 取引種別の表示名 */
+const transactionTypeLabels: Record<FineTransactionType, string> = {
+  CHARGE: '請求',
+  REPLACEMENT: '弁償金',
+  PAYMENT: '支払い',
+  WAIVER: '免除',
+  REFUND: '返金',
+};
+
 // ============================================
 // カラム定義
 // ============================================
@@ -118,6 +150,11 @@ const loanColumns: Column<LoanSummary>[] = [
     header: '返却日',
     render: (loan) => (loan.returnedAt !== null ? formatDate(loan.returnedAt) : '-'),
   },
+  {
+    key: 'status',
+    header: '状態',
+    render: (loan) => loanStatusLabels[loan.status],
+  },
   {
     key: 'isOverdue',
     header: '延滞',
@@ -125,6 +162,29 @@ const loanColumns: Column<LoanSummary>[] = [
   },
 ];
 
+const transactionColumns: Column<FineTransaction>[] = [
+  {
+    key: 'createdAt',
+    header: '日付',
+    render: (transaction) => formatDate(transaction.createdAt),
+  },
+  {
+    key: 'type',
+    header: '種別',
+    render: (transaction) => transactionTypeLabels[transaction.type],
+  },
+  {
+    key: 'amount',
+    header: '金額',
+    render: (transaction) => formatAmount(transaction.amount),
+  },
+  {
+    key: 'reason',
+    header: '理由',
+    render: (transaction) => transaction.reason ?? '-',
+  },
+];
+
 // ============================================
 // サブコンポーネント
 // ============================================
@@ -134,9 +194,11 @@ const loanColumns: Column<LoanSummary>[] = [
  */
 function UserDetailDisplay({
   userWithLoans,
+  account,
   onClose,
 }: {
   readonly userWithLoans: UserWithLoans;
+  readonly account: PatronAccount | null;
   readonly onClose: () => void;
 }): React.ReactElement {
   const { user, currentLoans, loanHistory } = userWithLoans;
@@ -197,6 +259,23 @@ function UserDetailDisplay({
           <p className="no-data">貸出履歴はありません</p>
         )}
       </section>
+
+      {account !== null && (
+        <section className="fine-account-section">
+          <h4>延滞料金</h4>
+          <dl className="user-info">
+            <div className="info-row">
+              <dt>未払い残高</dt>
+              <dd data-testid="fine-balance">{formatAmount(account.balance)}</dd>
+            </div>
+          </dl>
+          {account.transactions.length > 0 ? (
+            <DataTable data={account.transactions} columns={transactionColumns} keyField="id" />
+          ) : (
+            <p className="no-data">取引履歴はありません</p>
+          )}
+        </section>
+      )}
     </div>
   );
 }
@@ -225,6 +304,7 @@ export function UsersPage(): React.ReactElement {
 
   // 詳細表示状態
   const [selectedUserWithLoans, setSelectedUserWithLoans] = useState<UserWithLoans | null>(null);
+  const [selectedAccount, setSelectedAccount] = useState<PatronAccount | null>(null);
   const [loadingDetail, setLoadingDetail] = useState(false);
 
   // 共通状態
@@ -346,8 +426,12 @@ export function UsersPage(): React.ReactElement {
     setAlert(null);
 
     try {
-      const userWithLoans = await getUserLoans(user.id);
+      const [userWithLoans, account] = await Promise.all([
+        getUserLoans(user.id),
+        getPatronAccount(user.id),
+      ]);
       setSelectedUserWithLoans(userWithLoans);
+      setSelectedAccount(account);
     } catch (error) {
       if (error instanceof ApiError) {
         setAlert({
@@ -367,6 +451,7 @@ export function UsersPage(): React.ReactElement {
 
   const handleCloseDetail = useCallback(() => {
     setSelectedUserWithLoans(null);
+    setSelectedAccount(null);
   }, []);
 
   // ============================================
@@ -452,6 +537,7 @@ export function UsersPage(): React.ReactElement {
             {selectedUserWithLoans !== null && (
               <UserDetailDisplay
                 userWithLoans={selectedUserWithLoans}
+                account={selectedAccount}
                 onClose={handleCloseDetail}
               />
             )}
@@ -5,4 +5,5 @@ export { LoansPage } from './LoansPage';
 export { UsersPage } from './UsersPage';
 export { ReservationsPage } from './ReservationsPage';
 export { ReportsPage } from './ReportsPage';
+export { LoginPage } from './LoginPage';
 export { NotFoundPage } from './NotFoundPage';
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import { MemoryRouter } from 'react-router-dom';
+import { AuthProvider } from '../contexts';
 import { AppRoutes } from './routes';
 
 describe('AppRoutes', () => {
@@ -86,6 +87,20 @@ describe('AppRoutes', () => {
     });
   });
 
+  describe('ログインルート', () => {
+    it('/login でログインページを表示する', () => {
+      render(
+        <AuthProvider>
+          <MemoryRouter initialEntries={['/login']}>
+            <AppRoutes />
+          </MemoryRouter>
+        </AuthProvider>
+      );
+
+      expect(screen.getByTestId('login-page')).toBeInTheDocument();
+    });
+  });
+
   describe('存在しないルート', () => {
     it('存在しないパスで404ページを表示する', () => {
       render(
@@ -7,6 +7,7 @@ import { LoansPage } from '../pages/LoansPage';
 import { UsersPage } from '../pages/UsersPage';
 import { ReservationsPage } from '../pages/ReservationsPage';
 import { ReportsPage } from '../pages/ReportsPage';
+import { LoginPage } from '../pages/LoginPage';
 import { NotFoundPage } from '../pages/NotFoundPage';
 
 /**
@@ -22,6 +23,7 @@ export function AppRoutes(): React.ReactElement {
       <Route path="/users" element={<UsersPage />} />
       <Route path="/reservations" element={<ReservationsPage />} />
       <Route path="/reports" element={<ReportsPage />} />
+      <Route path="/login" element={<LoginPage />} />
       <Route path="*" element={<NotFoundPage />} />
     </Routes>
   );
@@ -0,0 +1,253 @@
+/**
+ * Express アプリケーション統合テスト
+ *
+ * createApp で組み立てたアプリケーションを通して、
+ * Cookieのセッションがロールガードに届くことを確認します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Router, type Express } from 'express';
+import request from 'supertest';
+import { createApp, type AppRouters } from './app.js';
+import { createAuthController } from './domains/auth/auth-controller.js';
+import { createAuthService, type UserAuthRepository } from './domains/auth/auth-service.js';
+import { hashPassword, verifyPassword } from './domains/auth/password.js';
+import { createInMemorySessionStore, type SessionStore } from './domains/auth/session-store.js';
+import type { SessionId, UserRole } from './domains/auth/types.js';
+import { createClassificationController } from './domains/book/classification-controller.js';
+import type { ClassificationService } from './domains/book/classification-service.js';
+import { createJobController } from './domains/job/job-controller.js';
+import type { JobService } from './domains/job/job-service.js';
+import { createClassificationId, createUserId } from './shared/branded-types.js';
+import { ok, isOk } from './shared/result.js';
+
+// ============================================
+// モックファクトリ
+// ============================================
+
+function createMockClassificationService(): ClassificationService {
+  return {
+    createClassification: vi.fn().mockResolvedValue(
+      ok({
+        id: createClassificationId('class-9'),
+        scheme: 'NDC',
+        number: '9',
+        label: '文学',
+        parentId: null,
+        level: 1,
+        createdAt: new Date('2024-01-01'),
+      })
+    ),
+    getClassificationChildren: vi.fn().mockResolvedValue(ok([])),
+    getClassification: vi.fn(),
+    createSubjectHeading: vi.fn(),
+    searchSubjectHeadings: vi.fn(),
+  };
+}
+
+async function createUserAuthRepository(): Promise<UserAuthRepository> {
+  const users = [
+    {
+      id: 'librarian-001',
+      name: '図書館員',
+      email: 'librarian@example.com',
+      passwordHash: await hashPassword('librarian-password'),
+      role: 'librarian' as const,
+    },
+  ];
+
+  return {
+    findByEmail: (email) => Promise.resolve(users.find((user) => user.email === email) ?? null),
+    validatePassword: verifyPassword,
+  };
+}
+
+function createMockJobService(): JobService {
+  return {
+    listJobs: vi.fn().mockResolvedValue(ok([])),
+    triggerJob: vi.fn(),
+    getRunHistory: vi.fn(),
+    runDueJobs: vi.fn(),
+  };
+}
+
+// ============================================
+// テストセットアップ
+// ============================================
+
+function createTestApp(
+  sessionStore: SessionStore,
+  userAuthRepository: UserAuthRepository,
+  classificationService: ClassificationService,
+  jobService: JobService
+): Express {
+  const routers: AppRouters = {
+    auth: createAuthController(createAuthService({ sessionStore, userAuthRepository })),
+    bookImport: Router(),
+    search: Router(),
+    marc: Router(),
+    classification: createClassificationController(classificationService),
+    book: Router(),
+    loan: Router(),
+    loanPolicy: Router(),
+    user: Router(),
+    reservation: Router(),
+    report: Router(),
+    fine: Router(),
+    calendar: Router(),
+    job: createJobController(jobService),
+    servicePoint: Router(),
+    purchaseSuggestion: Router(),
+  };
+
+  return createApp(routers, {
+    validateSession: async (sessionId) => {
+      const result = await sessionStore.get(sessionId as SessionId);
+      return isOk(result) ? result.value : null;
+    },
+    bookImportBodyLimit: '1mb',
+  });
+}
+
+async function createSession(
+  sessionStore: SessionStore,
+  sessionId: string,
+  role: UserRole,
+  expiresAt: Date = new Date(Date.now() + 60 * 60 * 1000)
+): Promise<string> {
+  await sessionStore.set(sessionId as SessionId, {
+    userId: createUserId(`${role}-001`),
+    role,
+    createdAt: new Date(),
+    expiresAt,
+  });
+  return `sessionId=${sessionId}`;
+}
+
+// ============================================
+// テスト
+// ============================================
+
+describe('createApp', () => {
+  let sessionStore: SessionStore;
+  let classificationService: ClassificationService;
+  let jobService: JobService;
+  let app: Express;
+
+  beforeEach(async () => {
+    sessionStore = createInMemorySessionStore();
+    classificationService = createMockClassificationService();
+    jobService = createMockJobService();
+    app = createTestApp(
+      sessionStore,
+      await createUserAuthRepository(),
+      classificationService,
+      jobService
+    );
+  });
+
+  describe('ログイン・ログアウト', () => {
+    it('ログインで発行されたセッションCookieで図書館員向けの操作を実行できる', async () => {
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'librarian@example.com', password: 'librarian-password' });
+
+      expect(login.status).toBe(200);
+      expect(login.body.user.role).toBe('librarian');
+      const cookie = login.headers['set-cookie'] as unknown as string[];
+
+      const response = await request(app)
+        .post('/api/books/classifications')
+        .set('Cookie', cookie)
+        .send({ scheme: 'NDC', number: '9', label: '文学' });
+
+      expect(response.status).toBe(201);
+    });
+
+    it('パスワードが誤っている場合はセッションを発行しない', async () => {
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'librarian@example.com', password: 'wrong-password' });
+
+      expect(login.status).toBe(401);
+      expect(login.headers['set-cookie']).toBeUndefined();
+    });
+
+    it('ログアウト後のセッションCookieは401を返す', async () => {
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'librarian@example.com', password: 'librarian-password' });
+      const cookie = login.headers['set-cookie'] as unknown as string[];
+
+      const logout = await request(app).post('/api/auth/logout').set('Cookie', cookie);
+      const response = await request(app)
+        .post('/api/books/classifications')
+        .set('Cookie', cookie)
+        .send({ scheme: 'NDC', number: '9', label: '文学' });
+
+      expect(logout.status).toBe(200);
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('セッションとロールガード', () => {
+    it('図書館員のセッションCookieで図書館員向けの操作を実行できる', async () => {
+      const cookie = await createSession(sessionStore, 'session-librarian', 'librarian');
+
+      const response = await request(app)
+        .post('/api/books/classifications')
+        .set('Cookie', cookie)
+        .send({ scheme: 'NDC', number: '9', label: '文学' });
+
+      expect(response.status).toBe(201);
+      expect(classificationService.createClassification).toHaveBeenCalled();
+    });
+
+    it('管理者のセッションCookieで管理者向けの操作を実行できる', async () => {
+      const cookie = await createSession(sessionStore, 'session-admin', 'admin');
+
+      const response = await request(app).get('/api/jobs').set('Cookie', cookie);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('Cookieがない場合は401を返す', async () => {
+      const response = await request(app)
+        .post('/api/books/classifications')
+        .send({ scheme: 'NDC', number: '9', label: '文学' });
+
+      expect(response.status).toBe(401);
+      expect(classificationService.createClassification).not.toHaveBeenCalled();
+    });
+
+    it('存在しない・期限切れのセッションは401を返す', async () => {
+      const expiredCookie = await createSession(
+        sessionStore,
+        'session-expired',
+        'admin',
+        new Date(Date.now() - 1000)
+      );
+
+      const unknown = await request(app).get('/api/jobs').set('Cookie', 'sessionId=unknown');
+      const expired = await request(app).get('/api/jobs').set('Cookie', expiredCookie);
+
+      expect(unknown.status).toBe(401);
+      expect(expired.status).toBe(401);
+      expect(jobService.listJobs).not.toHaveBeenCalled();
+    });
+
+    it('権限のないロールのセッションは403を返す', async () => {
+      const cookie = await createSession(sessionStore, 'session-patron', 'patron');
+
+      const response = await request(app).get('/api/jobs').set('Cookie', cookie);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('ロールガードのないルートはセッションなしで利用できる', async () => {
+      const response = await request(app).get('/api/books/classifications');
+
+      expect(response.status).toBe(200);
+    });
+  });
+});
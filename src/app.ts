@@ -0,0 +1,99 @@
+/**
+ * Express アプリケーションの組み立て
+ *
+ * ミドルウェアとドメインごとのルーターをマウントします。
+ * ルーターの生成（サービス・リポジトリの初期化）はエントリポイントで行います。
+ */
+
+import express, { type Express, type Router } from 'express';
+import { securityHeadersMiddleware, sanitizeInputMiddleware } from './shared/index.js';
+import { createSessionMiddleware } from './domains/auth/rbac.js';
+import type { SessionData } from './domains/auth/types.js';
+
+// ============================================
+// 型定義
+// ============================================
+
+/** ドメインごとのルーター */
+export interface AppRouters {
+  readonly auth: Router;
+  readonly bookImport: Router;
+  readonly search: Router;
+  readonly marc: Router;
+  readonly classification: Router;
+  readonly book: Router;
+  readonly loan: Router;
+  readonly loanPolicy: Router;
+  readonly user: Router;
+  readonly reservation: Router;
+  readonly report: Router;
+  readonly fine: Router;
+  readonly calendar: Router;
+  readonly job: Router;
+  readonly servicePoint: Router;
+  readonly purchaseSuggestion: Router;
+}
+
+/** アプリケーション設定 */
+export interface AppConfig {
+  /**
+   * セッション検証関数（CookieのセッションIDからセッションデータを取得）
+   * 有効なセッションがない場合はnullを返す
+   */
+  readonly validateSession: (sessionId: string) => Promise<SessionData | null>;
+  /** 書籍一括取り込みのリクエストボディ上限（例: '20mb'） */
+  readonly bookImportBodyLimit: string;
+}
+
+// ============================================
+// アプリケーション作成
+// ============================================
+
+/**
+ * Express アプリケーションを作成
+ * @param routers - ドメインごとのルーター
+ * @param config - アプリケーション設定
+ * @returns Express アプリケーション
+ */
+export function createApp(routers: AppRouters, config: AppConfig): Express {
+  const app = express();
+
+  // セキュリティミドルウェア（CSPヘッダー設定等）
+  app.use(securityHeadersMiddleware);
+
+  // JSON パース（書籍一括取り込みは数万行のファイルを受け付けるため、サイズの上限を引き上げる）
+  app.use('/api/books/imports', express.json({ limit: config.bookImportBodyLimit }));
+  app.use(express.json());
+
+  // 入力サニタイズミドルウェア
+  app.use(sanitizeInputMiddleware);
+
+  // セッション注入ミドルウェア（ロールガードは注入されたセッションのロールで判定する）
+  app.use(createSessionMiddleware(config.validateSession));
+
+  // ルート登録
+  app.use('/api/auth', routers.auth);
+  app.use('/api/books/imports', routers.bookImport);
+  // 注意: searchRouterを先にマウントして、/searchが/:idパラメータとして解釈されないようにする
+  app.use('/api/books', routers.search);
+  app.use('/api/books', routers.marc);
+  app.use('/api/books', routers.classification);
+  app.use('/api/books', routers.book);
+  app.use('/api/loans', routers.loan);
+  app.use('/api/loan-policies', routers.loanPolicy);
+  app.use('/api/users', routers.user);
+  app.use('/api/reservations', routers.reservation);
+  app.use('/api/reports', routers.report);
+  app.use('/api/fines', routers.fine);
+  app.use('/api/calendar', routers.calendar);
+  app.use('/api/jobs', routers.job);
+  app.use('/api/service-points', routers.servicePoint);
+  app.use('/api/purchase-suggestions', routers.purchaseSuggestion);
+
+  // ヘルスチェック
+  app.get('/health', (_req, res) => {
+    res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  });
+
+  return app;
+}
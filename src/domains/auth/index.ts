@@ -26,6 +26,9 @@ export {
   createRedisSessionStore,
 } from './session-store.js';
 
+// パスワードハッシュ
+export { hashPassword, verifyPassword } from './password.js';
+
 // 認証サービス
 export type { AuthService, UserAuthRepository, AuthUser } from './auth-service.js';
 export { createAuthService } from './auth-service.js';
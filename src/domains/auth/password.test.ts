@@ -0,0 +1,42 @@
+/**
+ * Password - パスワードハッシュのテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { hashPassword, verifyPassword } from './password.js';
+
+describe('hashPassword', () => {
+  it('scrypt形式のハッシュを生成し、平文を含まない', async () => {
+    const hash = await hashPassword('correct horse');
+
+    expect(hash).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+    expect(hash).not.toContain('correct horse');
+  });
+
+  it('同じパスワードでもソルトが異なるため別のハッシュになる', async () => {
+    const first = await hashPassword('correct horse');
+    const second = await hashPassword('correct horse');
+
+    expect(first).not.toBe(second);
+  });
+});
+
+describe('verifyPassword', () => {
+  it('正しいパスワードで一致する', async () => {
+    const hash = await hashPassword('correct horse');
+
+    await expect(verifyPassword('correct horse', hash)).resolves.toBe(true);
+  });
+
+  it('誤ったパスワードでは一致しない', async () => {
+    const hash = await hashPassword('correct horse');
+
+    await expect(verifyPassword('battery staple', hash)).resolves.toBe(false);
+  });
+
+  it('形式が不正なハッシュでは一致しない', async () => {
+    await expect(verifyPassword('correct horse', '')).resolves.toBe(false);
+    await expect(verifyPassword('correct horse', 'correct horse')).resolves.toBe(false);
+    await expect(verifyPassword('correct horse', 'scrypt$00$00')).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Password - パスワードハッシュ
+ *
+ * scrypt によるパスワードのハッシュ化と検証を提供します。
+ * ハッシュは `scrypt$<ソルト(hex)>$<派生鍵(hex)>` の形式で保存します。
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+// ============================================
+// 定数
+// ============================================
+
+/** ハッシュ形式の識別子 */
+const HASH_SCHEME = 'scrypt';
+
+/** ソルト長（バイト） */
+const SALT_LENGTH = 16;
+
+/** 派生鍵長（バイト） */
+const KEY_LENGTH = 64;
+
+// ============================================
+// ヘルパー関数
+// ============================================
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, derivedKey) => {
+      if (error !== null) {
+        reject(error);
+        return;
+      }
+      resolve(derivedKey);
+    });
+  });
+}
+
+// ============================================
+// ハッシュ化・検証
+// ============================================
+
+/**
+ * パスワードをハッシュ化
+ * @param password - 平文パスワード
+ * @returns 保存用のハッシュ文字列
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const derivedKey = await deriveKey(password, salt);
+  return `${HASH_SCHEME}$${salt.toString('hex')}$${derivedKey.toString('hex')}`;
+}
+
+/**
+ * パスワードがハッシュと一致するか検証
+ * 形式が不正なハッシュは一致しないものとして扱う
+ * @param password - 平文パスワード
+ * @param hash - 保存されたハッシュ文字列
+ * @returns 一致するかどうか
+ */
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  const [scheme, saltHex, keyHex] = hash.split('$');
+  if (scheme !== HASH_SCHEME || saltHex === undefined || keyHex === undefined) {
+    return false;
+  }
+
+  const expectedKey = Buffer.from(keyHex, 'hex');
+  if (expectedKey.length !== KEY_LENGTH) {
+    return false;
+  }
+
+  const derivedKey = await deriveKey(password, Buffer.from(saltHex, 'hex'));
+  return timingSafeEqual(derivedKey, expectedKey);
+}
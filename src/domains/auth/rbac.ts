@@ -244,6 +244,7 @@ function getSessionIdFromCookie(req: Request): string | null {
 
 /**
  * 図書館システムのデフォルトロール設定
+ * canAccessEndpoint の判定用で、ルートの認可には各コントローラーの requireLibrarian / requireAdmin を使う
  */
 export const DEFAULT_ROLE_CONFIG: RoleConfig = {
   // 蔵書管理（図書館員・管理者のみ）
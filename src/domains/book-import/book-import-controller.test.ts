@@ -0,0 +1,250 @@
+/**
+ * BookImportController テスト
+ *
+ * 書籍一括取り込みREST APIのテストを記述します。
+ *
+ * エンドポイント:
+ * - POST /api/books/imports/preview - ドライラン
+ * - POST /api/books/imports - 取り込みジョブ作成
+ * - GET /api/books/imports/:id - 取り込みジョブ取得
+ * - POST /api/books/imports/:id/run - 1チャンク分の取り込み
+ * - GET /api/books/imports/:id/rows - 取り込み行一覧取得
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { type Express } from 'express';
+import request from 'supertest';
+import { createBookImportController } from './book-import-controller.js';
+import type { BookImportService } from './book-import-service.js';
+import type { BookImportJob, BookImportPreview } from './types.js';
+import { createBookImportJobId, createUserId } from '../../shared/branded-types.js';
+import { ok, err } from '../../shared/result.js';
+import type { AuthenticatedRequest } from '../auth/rbac.js';
+import type { UserRole } from '../auth/types.js';
+
+// ============================================
+// モックファクトリ
+// ============================================
+
+function createMockBookImportService(): BookImportService {
+  return {
+    previewImport: vi.fn(),
+    createImportJob: vi.fn(),
+    runImportChunk: vi.fn(),
+    getImportJob: vi.fn(),
+    getImportJobRows: vi.fn(),
+  };
+}
+
+// ============================================
+// テストデータ
+// ============================================
+
+const testJob: BookImportJob = {
+  id: createBookImportJobId('import-001'),
+  format: 'CSV',
+  status: 'PENDING',
+  totalRows: 2,
+  processedRows: 0,
+  createdCount: 0,
+  updatedCount: 0,
+  failedCount: 0,
+  chunkSize: 500,
+  createdBy: createUserId('staff-001'),
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+  completedAt: null,
+};
+
+const testPreview: BookImportPreview = {
+  format: 'CSV',
+  totalRows: 1,
+  createCount: 1,
+  updateCount: 0,
+  errorCount: 0,
+  copyCount: 1,
+  rows: [
+    {
+      rowNumber: 2,
+      action: 'CREATE',
+      isbn: '9784101010014',
+      title: '坊っちゃん',
+      bookId: null,
+      copyCount: 1,
+      errors: [],
+    },
+  ],
+};
+
+const validBody = {
+  content: 'タイトル,著者,出版社,ISBN\n坊っちゃん,夏目漱石,新潮社,9784101010014',
+  format: 'CSV',
+  mapping: { title: 'タイトル', author: '著者', publisher: '出版社', isbn: 'ISBN' },
+};
+
+// ============================================
+// テストセットアップ
+// ============================================
+
+function createTestApp(bookImportService: BookImportService, role?: UserRole): Express {
+  const app = express();
+  app.use(express.json());
+  if (role !== undefined) {
+    app.use((req: AuthenticatedRequest, _res, next) => {
+      req.session = {
+        userId: createUserId('staff-001'),
+        role,
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      };
+      next();
+    });
+  }
+  app.use('/api/books/imports', createBookImportController(bookImportService));
+  return app;
+}
+
+// ============================================
+// テスト
+// ============================================
+
+describe('BookImportController', () => {
+  let mockService: BookImportService;
+  let app: Express;
+
+  beforeEach(() => {
+    mockService = createMockBookImportService();
+    app = createTestApp(mockService, 'librarian');
+  });
+
+  describe('POST /api/books/imports/preview - ドライラン', () => {
+    it('取り込み結果のプレビューを200で返す', async () => {
+      // Arrange
+      vi.mocked(mockService.previewImport).mockResolvedValue(ok(testPreview));
+
+      // Act
+      const response = await request(app).post('/api/books/imports/preview').send(validBody);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body.createCount).toBe(1);
+      expect(mockService.previewImport).toHaveBeenCalledWith(validBody);
+    });
+
+    it('formatが不正な場合は400を返す', async () => {
+      const response = await request(app)
+        .post('/api/books/imports/preview')
+        .send({ ...validBody, format: 'XLSX' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('format');
+      expect(mockService.previewImport).not.toHaveBeenCalled();
+    });
+
+    it('mappingに未知の項目がある場合は400を返す', async () => {
+      const response = await request(app)
+        .post('/api/books/imports/preview')
+        .send({ ...validBody, mapping: { ...validBody.mapping, price: '価格' } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('mapping');
+    });
+
+    it('ファイルの内容の検証エラーは400を返す', async () => {
+      vi.mocked(mockService.previewImport).mockResolvedValue(
+        err({
+          type: 'VALIDATION_ERROR',
+          field: 'mapping.isbn',
+          message: '列が見出し行にありません',
+        })
+      );
+
+      const response = await request(app).post('/api/books/imports/preview').send(validBody);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('利用者ロールの場合は403を返す', async () => {
+      const response = await request(createTestApp(mockService, 'patron'))
+        .post('/api/books/imports/preview')
+        .send(validBody);
+
+      expect(response.status).toBe(403);
+      expect(mockService.previewImport).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/books/imports - 取り込みジョブ作成', () => {
+    it('操作した職員を作成者として取り込みジョブを作成し201を返す', async () => {
+      vi.mocked(mockService.createImportJob).mockResolvedValue(ok(testJob));
+
+      const response = await request(app).post('/api/books/imports').send(validBody);
+
+      expect(response.status).toBe(201);
+      expect(response.body.id).toBe('import-001');
+      expect(mockService.createImportJob).toHaveBeenCalledWith(validBody, 'staff-001');
+    });
+
+    it('contentが未指定の場合は400を返す', async () => {
+      const response = await request(app)
+        .post('/api/books/imports')
+        .send({ ...validBody, content: '' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('content');
+    });
+  });
+
+  describe('GET /api/books/imports/:id - 取り込みジョブ取得', () => {
+    it('取り込みジョブの進捗を返す', async () => {
+      vi.mocked(mockService.getImportJob).mockResolvedValue(ok(testJob));
+
+      const response = await request(app).get('/api/books/imports/import-001');
+
+      expect(response.status).toBe(200);
+      expect(response.body.totalRows).toBe(2);
+    });
+
+    it('取り込みジョブが見つからない場合は404を返す', async () => {
+      vi.mocked(mockService.getImportJob).mockResolvedValue(
+        err({ type: 'IMPORT_JOB_NOT_FOUND', jobId: 'import-999' })
+      );
+
+      const response = await request(app).get('/api/books/imports/import-999');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/books/imports/:id/run - 1チャンク分の取り込み', () => {
+    it('取り込み後のジョブの進捗を返す', async () => {
+      vi.mocked(mockService.runImportChunk).mockResolvedValue(
+        ok({ ...testJob, status: 'COMPLETED', processedRows: 2, createdCount: 2 })
+      );
+
+      const response = await request(app).post('/api/books/imports/import-001/run');
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('COMPLETED');
+      expect(mockService.runImportChunk).toHaveBeenCalledWith('import-001');
+    });
+  });
+
+  describe('GET /api/books/imports/:id/rows - 取り込み行一覧取得', () => {
+    it('ステータスで絞り込んで取得できる', async () => {
+      vi.mocked(mockService.getImportJobRows).mockResolvedValue(ok([]));
+
+      const response = await request(app).get('/api/books/imports/import-001/rows?status=FAILED');
+
+      expect(response.status).toBe(200);
+      expect(mockService.getImportJobRows).toHaveBeenCalledWith('import-001', 'FAILED');
+    });
+
+    it('不正なステータスの場合は400を返す', async () => {
+      const response = await request(app).get('/api/books/imports/import-001/rows?status=DONE');
+
+      expect(response.status).toBe(400);
+      expect(mockService.getImportJobRows).not.toHaveBeenCalled();
+    });
+  });
+});
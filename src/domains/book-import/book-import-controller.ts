@@ -0,0 +1,272 @@
+/**
+ * BookImportController - 書籍一括取り込みREST APIコントローラー
+ *
+ * CSV・TSV による書籍・蔵書コピーの一括取り込みのREST APIエンドポイントを提供します。
+ * いずれも図書館員のみ行えます。
+ *
+ * エンドポイント:
+ * - POST /api/books/imports/preview - ドライラン（登録・更新・エラーになる行の確認）
+ * - POST /api/books/imports - 取り込みジョブ作成
+ * - GET /api/books/imports/:id - 取り込みジョブ（進捗）取得
+ * - POST /api/books/imports/:id/run - 未処理の行を1チャンク分取り込む（中断したジョブの再開にも使用）
+ * - GET /api/books/imports/:id/rows - 取り込み行一覧取得（status で絞り込み）
+ */
+
+import { Router, type Request, type Response } from 'express';
+import type { BookImportJobId } from '../../shared/branded-types.js';
+import { isOk } from '../../shared/result.js';
+import { requireLibrarian, type AuthenticatedRequest } from '../auth/rbac.js';
+import type { BookImportService } from './book-import-service.js';
+import type {
+  BookImportColumnMapping,
+  BookImportError,
+  BookImportField,
+  BookImportFormat,
+  BookImportInput,
+  BookImportRowStatus,
+} from './types.js';
+
+// ============================================
+// リクエストボディ・クエリ型定義
+// ============================================
+
+/** 一括取り込みリクエストボディ */
+interface BookImportRequestBody {
+  content?: unknown;
+  format?: unknown;
+  mapping?: unknown;
+}
+
+/** 取り込み行一覧クエリパラメータ */
+interface ImportRowListQuery {
+  status?: string;
+}
+
+// ============================================
+// 定数
+// ============================================
+
+/** 指定可能なファイル形式 */
+const IMPORT_FORMATS: readonly BookImportFormat[] = ['CSV', 'TSV'];
+
+/** 列の対応付けに指定可能な取り込み項目 */
+const IMPORT_FIELDS: readonly BookImportField[] = [
+  'title',
+  'author',
+  'publisher',
+  'publicationYear',
+  'isbn',
+  'category',
+  'location',
+  'copyCount',
+];
+
+/** 一覧の絞り込みに指定できる取り込み行ステータス */
+const ROW_STATUSES: readonly BookImportRowStatus[] = ['PENDING', 'CREATED', 'UPDATED', 'FAILED'];
+
+// ============================================
+// HTTPステータスコード決定
+// ============================================
+
+/**
+ * BookImportErrorに基づいてHTTPステータスコードを決定
+ */
+function getErrorStatusCode(error: BookImportError): number {
+  switch (error.type) {
+    case 'VALIDATION_ERROR':
+      return 400;
+    case 'IMPORT_JOB_NOT_FOUND':
+      return 404;
+  }
+}
+
+/**
+ * 文字列がファイル形式か判定
+ */
+function isImportFormat(value: unknown): value is BookImportFormat {
+  return (IMPORT_FORMATS as readonly unknown[]).includes(value);
+}
+
+/**
+ * 値が列の対応付け（取り込み項目 → 列名）か判定
+ */
+function isColumnMapping(value: unknown): value is BookImportColumnMapping {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.entries(value).every(
+      ([field, columnName]) =>
+        (IMPORT_FIELDS as readonly string[]).includes(field) && typeof columnName === 'string'
+    )
+  );
+}
+
+/**
+ * 文字列が取り込み行ステータスか判定
+ */
+function isRowStatus(value: string): value is BookImportRowStatus {
+  return (ROW_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * 一括取り込みリクエストボディを検証
+ * @returns 一括取り込み入力、またはバリデーションエラー
+ */
+function parseImportRequestBody(
+  body: BookImportRequestBody
+): { input: BookImportInput } | { error: BookImportError } {
+  if (typeof body.content !== 'string' || body.content === '') {
+    return {
+      error: { type: 'VALIDATION_ERROR', field: 'content', message: 'ファイルの内容は必須です' },
+    };
+  }
+  if (!isImportFormat(body.format)) {
+    return {
+      error: {
+        type: 'VALIDATION_ERROR',
+        field: 'format',
+        message: `formatは ${IMPORT_FORMATS.join(', ')} のいずれかを指定してください`,
+      },
+    };
+  }
+  if (!isColumnMapping(body.mapping)) {
+    return {
+      error: {
+        type: 'VALIDATION_ERROR',
+        field: 'mapping',
+        message: `mappingには ${IMPORT_FIELDS.join(', ')} と列名の対応を指定してください`,
+      },
+    };
+  }
+  return { input: { content: body.content, format: body.format, mapping: body.mapping } };
+}
+
+// ============================================
+// コントローラーファクトリ
+// ============================================
+
+/**
+ * BookImportControllerを作成
+ * @param bookImportService - BookImportServiceインスタンス
+ * @returns Expressルーター
+ */
+export function createBookImportController(bookImportService: BookImportService): Router {
+  const router = Router();
+
+  // ============================================
+  // POST /api/books/imports/preview - ドライラン
+  // ============================================
+
+  router.post('/preview', requireLibrarian, async (req: Request, res: Response): Promise<void> => {
+    const parsed = parseImportRequestBody((req.body ?? {}) as BookImportRequestBody);
+    if ('error' in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    const result = await bookImportService.previewImport(parsed.input);
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // POST /api/books/imports - 取り込みジョブ作成
+  // ============================================
+
+  router.post(
+    '/',
+    requireLibrarian,
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+      // requireLibrarian を通過しているためセッションは存在する
+      if (req.session === undefined) {
+        res.status(401).json({ error: { type: 'UNAUTHORIZED', message: '認証が必要です' } });
+        return;
+      }
+
+      const parsed = parseImportRequestBody((req.body ?? {}) as BookImportRequestBody);
+      if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      const result = await bookImportService.createImportJob(parsed.input, req.session.userId);
+
+      if (isOk(result)) {
+        res.status(201).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // GET /api/books/imports/:id - 取り込みジョブ取得
+  // ============================================
+
+  router.get('/:id', requireLibrarian, async (req: Request, res: Response): Promise<void> => {
+    const result = await bookImportService.getImportJob(req.params.id as BookImportJobId);
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // POST /api/books/imports/:id/run - 1チャンク分の取り込み
+  // ============================================
+
+  router.post('/:id/run', requireLibrarian, async (req: Request, res: Response): Promise<void> => {
+    const result = await bookImportService.runImportChunk(req.params.id as BookImportJobId);
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // GET /api/books/imports/:id/rows - 取り込み行一覧取得
+  // ============================================
+
+  router.get('/:id/rows', requireLibrarian, async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as ImportRowListQuery;
+
+    // バリデーション: statusは取り込み行ステータスのいずれか
+    if (query.status !== undefined && !isRowStatus(query.status)) {
+      res.status(400).json({
+        error: {
+          type: 'VALIDATION_ERROR',
+          field: 'status',
+          message: `statusは ${ROW_STATUSES.join(', ')} のいずれかを指定してください`,
+        },
+      });
+      return;
+    }
+
+    const result = await bookImportService.getImportJobRows(
+      req.params.id as BookImportJobId,
+      query.status
+    );
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,74 @@
+/**
+ * BookImportRepository Interface
+ *
+ * 書籍一括取り込みジョブと取り込み行の永続化を担当するリポジトリのインターフェース定義。
+ * 具体的な実装は Infrastructure 層で行います。
+ */
+
+import type { BookImportJobId } from '../../shared/branded-types.js';
+import type { Result } from '../../shared/result.js';
+import type {
+  BookImportJob,
+  BookImportRow,
+  BookImportRowStatus,
+  BookImportRowResult,
+  CreateBookImportJobInput,
+  BookImportError,
+} from './types.js';
+
+// ============================================
+// リポジトリインターフェース
+// ============================================
+
+/** 書籍一括取り込みリポジトリ */
+export interface BookImportRepository {
+  /**
+   * 取り込みジョブと取り込み行を作成（PENDING状態）
+   * @param input - ファイル形式・チャンクサイズ・取り込み行
+   * @returns 作成された取り込みジョブ
+   */
+  createJob(input: CreateBookImportJobInput): Promise<BookImportJob>;
+
+  /**
+   * IDで取り込みジョブを取得
+   * @param id - 取り込みジョブID
+   * @returns 取り込みジョブまたはIMPORT_JOB_NOT_FOUNDエラー
+   */
+  findJobById(id: BookImportJobId): Promise<Result<BookImportJob, BookImportError>>;
+
+  /**
+   * 未処理の取り込み行を行番号順に取得
+   * @param jobId - 取り込みジョブID
+   * @param limit - 取得する最大行数
+   * @returns 未処理の取り込み行一覧
+   */
+  findPendingRows(jobId: BookImportJobId, limit: number): Promise<BookImportRow[]>;
+
+  /**
+   * 取り込み行一覧を行番号順に取得
+   * @param jobId - 取り込みジョブID
+   * @param status - 絞り込むステータス（省略時はすべて）
+   * @returns 取り込み行一覧
+   */
+  findRows(jobId: BookImportJobId, status?: BookImportRowStatus): Promise<BookImportRow[]>;
+
+  /**
+   * 取り込み行の処理結果を記録
+   * @param jobId - 取り込みジョブID
+   * @param rowNumber - 行番号
+   * @param result - 処理結果
+   */
+  recordRowResult(
+    jobId: BookImportJobId,
+    rowNumber: number,
+    result: BookImportRowResult
+  ): Promise<void>;
+
+  /**
+   * 取り込み行の処理結果から取り込みジョブの進捗を更新
+   * 未処理の行がなくなった場合はCOMPLETEDにする
+   * @param jobId - 取り込みジョブID
+   * @returns 更新された取り込みジョブまたはエラー
+   */
+  refreshJobProgress(jobId: BookImportJobId): Promise<Result<BookImportJob, BookImportError>>;
+}
@@ -0,0 +1,497 @@
+/**
+ * BookImportService Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createBookImportService, type BookImportService } from './book-import-service.js';
+import type { BookImportRepository } from './book-import-repository.js';
+import type {
+  BookImportColumnMapping,
+  BookImportJob,
+  BookImportRow,
+  BookImportRowData,
+} from './types.js';
+import type { BookService } from '../book/book-service.js';
+import type { BookRepository } from '../book/book-repository.js';
+import type { Book, BookCopy } from '../book/types.js';
+import {
+  createBookId,
+  createBookImportJobId,
+  createCopyId,
+  createUserId,
+} from '../../shared/branded-types.js';
+import { ok, err, isOk, isErr } from '../../shared/result.js';
+import { createPassthroughUnitOfWork } from '../../shared/unit-of-work.js';
+
+// ============================================
+// モック作成ヘルパー
+// ============================================
+
+const jobId = createBookImportJobId('import-001');
+
+function createMockBook(overrides: Partial<Book> = {}): Book {
+  return {
+    id: createBookId('book-123'),
+    title: '吾輩は猫である',
+    author: '夏目漱石',
+    contributors: [],
+    publisher: '岩波書店',
+    publicationYear: 1990,
+    isbn: '9784003101018',
+    category: null,
+    classification: null,
+    callNumber: null,
+    subjectHeadings: [],
+    replacementCost: null,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    ...overrides,
+  };
+}
+
+function createMockCopy(): BookCopy {
+  return {
+    id: createCopyId('copy-001'),
+    bookId: createBookId('book-new'),
+    barcode: 'LIB000000017',
+    location: '1F-A-01',
+    status: 'AVAILABLE',
+    createdAt: new Date('2024-01-01'),
+  };
+}
+
+function createMockJob(overrides: Partial<BookImportJob> = {}): BookImportJob {
+  return {
+    id: jobId,
+    format: 'CSV',
+    status: 'PENDING',
+    totalRows: 2,
+    processedRows: 0,
+    createdCount: 0,
+    updatedCount: 0,
+    failedCount: 0,
+    chunkSize: 500,
+    createdBy: createUserId('staff-001'),
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    completedAt: null,
+    ...overrides,
+  };
+}
+
+function createMockRepository(): BookImportRepository {
+  return {
+    createJob: vi.fn().mockResolvedValue(createMockJob()),
+    findJobById: vi.fn().mockResolvedValue(ok(createMockJob())),
+    findPendingRows: vi.fn().mockResolvedValue([]),
+    findRows: vi.fn().mockResolvedValue([]),
+    recordRowResult: vi.fn().mockResolvedValue(undefined),
+    refreshJobProgress: vi.fn().mockResolvedValue(ok(createMockJob({ status: 'IN_PROGRESS' }))),
+  };
+}
+
+type MockBookService = Pick<BookService, 'createBook' | 'updateBook' | 'createBookCopy'>;
+
+function createMockBookService(): MockBookService {
+  return {
+    createBook: vi.fn().mockResolvedValue(ok(createMockBook({ id: createBookId('book-new') }))),
+    updateBook: vi.fn().mockResolvedValue(ok(createMockBook())),
+    createBookCopy: vi.fn().mockResolvedValue(ok(createMockCopy())),
+  };
+}
+
+function createRowData(overrides: Partial<BookImportRowData> = {}): BookImportRowData {
+  return {
+    title: '坊っちゃん',
+    author: '夏目漱石',
+    publisher: '新潮社',
+    publicationYear: 2003,
+    isbn: '9784101010014',
+    category: null,
+    location: '1F-A-01',
+    copyCount: 2,
+    ...overrides,
+  };
+}
+
+function createRow(overrides: Partial<BookImportRow> = {}): BookImportRow {
+  return {
+    jobId,
+    rowNumber: 2,
+    data: createRowData(),
+    status: 'PENDING',
+    bookId: null,
+    copiesCreated: 0,
+    errors: [],
+    ...overrides,
+  };
+}
+
+const mapping: BookImportColumnMapping = {
+  title: 'タイトル',
+  author: '著者',
+  publisher: '出版社',
+  isbn: 'ISBN',
+  publicationYear: '出版年',
+  location: '配置場所',
+  copyCount: '冊数',
+};
+
+const csv = [
+  'タイトル,著者,出版社,ISBN,出版年,配置場所,冊数',
+  '吾輩は猫である,夏目漱石,岩波書店,9784003101018,1990,1F-A-01,1',
+  '坊っちゃん,夏目漱石,新潮社,9784101010014,2003,1F-A-02,3',
+  ',著者なし,出版社,1234567890123,20XX,,',
+  '坊っちゃん（再掲）,夏目漱石,新潮社,9784101010014,,,',
+].join('\n');
+
+// ============================================
+// previewImport テスト
+// ============================================
+
+describe('BookImportService.previewImport', () => {
+  let repository: BookImportRepository;
+  let bookService: MockBookService;
+  let bookRepository: Pick<BookRepository, 'findByIsbn' | 'findByIsbns'>;
+  let service: BookImportService;
+
+  beforeEach(() => {
+    repository = createMockRepository();
+    bookService = createMockBookService();
+    bookRepository = {
+      findByIsbn: vi.fn().mockResolvedValue(null),
+      findByIsbns: vi.fn().mockResolvedValue([createMockBook()]),
+    };
+    service = createBookImportService(
+      repository,
+      bookService,
+      bookRepository,
+      createPassthroughUnitOfWork()
+    );
+  });
+
+  it('行ごとに登録・更新・エラーを判定し、データは変更しない', async () => {
+    const result = await service.previewImport({ content: csv, format: 'CSV', mapping });
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value).toMatchObject({
+        totalRows: 4,
+        createCount: 1,
+        updateCount: 2,
+        errorCount: 1,
+        copyCount: 4,
+      });
+      expect(result.value.rows.map((row) => [row.rowNumber, row.action])).toEqual([
+        [2, 'UPDATE'],
+        [3, 'CREATE'],
+        [4, 'ERROR'],
+        [5, 'UPDATE'],
+      ]);
+      expect(result.value.rows[0]?.bookId).toBe('book-123');
+      // 同じファイル内で先に登録する書籍の更新
+      expect(result.value.rows[3]?.bookId).toBeNull();
+      expect(result.value.rows[2]?.errors.map((e) => e.field)).toEqual([
+        'title',
+        'isbn',
+        'publicationYear',
+      ]);
+    }
+    expect(bookService.createBook).not.toHaveBeenCalled();
+    expect(bookService.updateBook).not.toHaveBeenCalled();
+    expect(repository.createJob).not.toHaveBeenCalled();
+  });
+
+  it('ISBN-10・ハイフン付きのISBNは正規形に変換して登録済みの書籍と照合する', async () => {
+    const result = await service.previewImport({
+      content: 'タイトル,著者,出版社,ISBN\n吾輩は猫である,夏目漱石,岩波書店,4-00-310101-4',
+      format: 'CSV',
+      mapping: { title: 'タイトル', author: '著者', publisher: '出版社', isbn: 'ISBN' },
+    });
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.rows[0]).toMatchObject({
+        action: 'UPDATE',
+        isbn: '9784003101018',
+        bookId: 'book-123',
+      });
+    }
+    expect(bookRepository.findByIsbns).toHaveBeenCalledWith(['9784003101018']);
+  });
+
+  it('冊数を指定して配置場所がない行はエラーにする', async () => {
+    const result = await service.previewImport({
+      content: 'タイトル,著者,出版社,ISBN,冊数\n坊っちゃん,夏目漱石,新潮社,9784101010014,2',
+      format: 'CSV',
+      mapping: {
+        title: 'タイトル',
+        author: '著者',
+        publisher: '出版社',
+        isbn: 'ISBN',
+        copyCount: '冊数',
+      },
+    });
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.rows[0]?.errors).toEqual([
+        { field: 'location', message: '蔵書コピーを登録する場合は配置場所が必須です' },
+      ]);
+    }
+  });
+
+  it('必須項目の列が対応付けられていない場合はエラーを返す', async () => {
+    const result = await service.previewImport({
+      content: csv,
+      format: 'CSV',
+      mapping: { title: 'タイトル', author: '著者', publisher: '出版社' },
+    });
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toMatchObject({ type: 'VALIDATION_ERROR', field: 'mapping.isbn' });
+    }
+  });
+
+  it('対応付けた列が見出し行にない場合はエラーを返す', async () => {
+    const result = await service.previewImport({
+      content: csv,
+      format: 'CSV',
+      mapping: { ...mapping, category: '分類' },
+    });
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toMatchObject({ type: 'VALIDATION_ERROR', field: 'mapping.category' });
+    }
+  });
+
+  it('データ行がない場合はエラーを返す', async () => {
+    const result = await service.previewImport({
+      content: 'タイトル,著者,出版社,ISBN\n',
+      format: 'CSV',
+      mapping,
+    });
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toMatchObject({ type: 'VALIDATION_ERROR', field: 'content' });
+    }
+  });
+
+  it('最大行数を超える場合はエラーを返す', async () => {
+    service = createBookImportService(
+      repository,
+      bookService,
+      bookRepository,
+      createPassthroughUnitOfWork(),
+      { chunkSize: 500, maxRows: 3, maxCopiesPerRow: 100 }
+    );
+
+    const result = await service.previewImport({ content: csv, format: 'CSV', mapping });
+
+    expect(isErr(result)).toBe(true);
+  });
+});
+
+// ============================================
+// createImportJob テスト
+// ============================================
+
+describe('BookImportService.createImportJob', () => {
+  it('検証した行を取り込みジョブとして保存する', async () => {
+    const repository = createMockRepository();
+    const service = createBookImportService(
+      repository,
+      createMockBookService(),
+      { findByIsbn: vi.fn(), findByIsbns: vi.fn() },
+      createPassthroughUnitOfWork(),
+      { chunkSize: 200, maxRows: 50000, maxCopiesPerRow: 100 }
+    );
+
+    const result = await service.createImportJob(
+      { content: csv, format: 'CSV', mapping },
+      createUserId('staff-001')
+    );
+
+    expect(isOk(result)).toBe(true);
+    const input = vi.mocked(repository.createJob).mock.calls[0]?.[0];
+    expect(input?.chunkSize).toBe(200);
+    expect(input?.createdBy).toBe('staff-001');
+    expect(input?.rows).toHaveLength(4);
+    expect(input?.rows[1]).toEqual({
+      rowNumber: 3,
+      data: {
+        title: '坊っちゃん',
+        author: '夏目漱石',
+        publisher: '新潮社',
+        publicationYear: 2003,
+        isbn: '9784101010014',
+        category: null,
+        location: '1F-A-02',
+        copyCount: 3,
+      },
+      errors: [],
+    });
+    expect(input?.rows[2]?.data).toBeNull();
+  });
+});
+
+// ============================================
+// runImportChunk テスト
+// ============================================
+
+describe('BookImportService.runImportChunk', () => {
+  let repository: BookImportRepository;
+  let bookService: MockBookService;
+  let bookRepository: Pick<BookRepository, 'findByIsbn' | 'findByIsbns'>;
+  let service: BookImportService;
+
+  beforeEach(() => {
+    repository = createMockRepository();
+    bookService = createMockBookService();
+    bookRepository = { findByIsbn: vi.fn().mockResolvedValue(null), findByIsbns: vi.fn() };
+    service = createBookImportService(
+      repository,
+      bookService,
+      bookRepository,
+      createPassthroughUnitOfWork()
+    );
+  });
+
+  it('未登録のISBNの行は書籍と指定した冊数の蔵書コピーを登録する', async () => {
+    vi.mocked(repository.findPendingRows).mockResolvedValue([createRow()]);
+
+    const result = await service.runImportChunk(jobId);
+
+    expect(isOk(result)).toBe(true);
+    expect(repository.findPendingRows).toHaveBeenCalledWith(jobId, 500);
+    expect(bookService.createBook).toHaveBeenCalledWith({
+      title: '坊っちゃん',
+      author: '夏目漱石',
+      publisher: '新潮社',
+      publicationYear: 2003,
+      isbn: '9784101010014',
+      category: null,
+    });
+    expect(bookService.createBookCopy).toHaveBeenCalledTimes(2);
+    expect(bookService.createBookCopy).toHaveBeenCalledWith('book-new', { location: '1F-A-01' });
+    expect(repository.recordRowResult).toHaveBeenCalledWith(jobId, 2, {
+      status: 'CREATED',
+      bookId: 'book-new',
+      copiesCreated: 2,
+      errors: [],
+    });
+    expect(repository.refreshJobProgress).toHaveBeenCalledWith(jobId);
+  });
+
+  it('登録済みのISBNの行は書籍を更新して蔵書コピーを追加する', async () => {
+    vi.mocked(repository.findPendingRows).mockResolvedValue([
+      createRow({ data: createRowData({ publicationYear: null, copyCount: 1 }) }),
+    ]);
+    vi.mocked(bookRepository.findByIsbn).mockResolvedValue(createMockBook());
+
+    await service.runImportChunk(jobId);
+
+    expect(bookService.updateBook).toHaveBeenCalledWith('book-123', {
+      title: '坊っちゃん',
+      author: '夏目漱石',
+      publisher: '新潮社',
+    });
+    expect(bookService.createBookCopy).toHaveBeenCalledWith('book-123', { location: '1F-A-01' });
+    expect(repository.recordRowResult).toHaveBeenCalledWith(jobId, 2, {
+      status: 'UPDATED',
+      bookId: 'book-123',
+      copiesCreated: 1,
+      errors: [],
+    });
+  });
+
+  it('検証エラーの行と登録に失敗した行は失敗として記録し、残りの行の取り込みを続ける', async () => {
+    const validationErrors = [{ field: 'isbn', message: 'Invalid ISBN-13 checksum' }];
+    vi.mocked(repository.findPendingRows).mockResolvedValue([
+      createRow({ rowNumber: 2, data: null, errors: validationErrors }),
+      createRow({ rowNumber: 3 }),
+      createRow({ rowNumber: 4 }),
+    ]);
+    vi.mocked(bookService.createBook)
+      .mockResolvedValueOnce(err({ type: 'DUPLICATE_ISBN', isbn: '9784101010014' }))
+      .mockResolvedValueOnce(ok(createMockBook({ id: createBookId('book-new') })));
+
+    await service.runImportChunk(jobId);
+
+    expect(repository.recordRowResult).toHaveBeenNthCalledWith(1, jobId, 2, {
+      status: 'FAILED',
+      bookId: null,
+      copiesCreated: 0,
+      errors: validationErrors,
+    });
+    expect(repository.recordRowResult).toHaveBeenNthCalledWith(2, jobId, 3, {
+      status: 'FAILED',
+      bookId: null,
+      copiesCreated: 0,
+      errors: [{ field: 'isbn', message: 'ISBN 9784101010014 は既に登録されています' }],
+    });
+    expect(vi.mocked(repository.recordRowResult).mock.calls[2]?.[2].status).toBe('CREATED');
+  });
+
+  it('チャンクの処理をユニットオブワークで実行する', async () => {
+    const unitOfWork = createPassthroughUnitOfWork();
+    const runSpy = vi.spyOn(unitOfWork, 'run');
+    service = createBookImportService(repository, bookService, bookRepository, unitOfWork);
+
+    await service.runImportChunk(jobId);
+
+    expect(runSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('完了済みのジョブは処理せずにそのまま返す', async () => {
+    vi.mocked(repository.findJobById).mockResolvedValue(
+      ok(createMockJob({ status: 'COMPLETED', processedRows: 2 }))
+    );
+
+    const result = await service.runImportChunk(jobId);
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.status).toBe('COMPLETED');
+    }
+    expect(repository.findPendingRows).not.toHaveBeenCalled();
+  });
+
+  it('取り込みジョブが存在しない場合はエラーを返す', async () => {
+    vi.mocked(repository.findJobById).mockResolvedValue(
+      err({ type: 'IMPORT_JOB_NOT_FOUND', jobId: 'import-999' })
+    );
+
+    const result = await service.runImportChunk(createBookImportJobId('import-999'));
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.type).toBe('IMPORT_JOB_NOT_FOUND');
+    }
+  });
+});
+
+// ============================================
+// getImportJobRows テスト
+// ============================================
+
+describe('BookImportService.getImportJobRows', () => {
+  it('ステータスで絞り込んだ取り込み行を返す', async () => {
+    const repository = createMockRepository();
+    vi.mocked(repository.findRows).mockResolvedValue([createRow({ status: 'FAILED' })]);
+    const service = createBookImportService(
+      repository,
+      createMockBookService(),
+      { findByIsbn: vi.fn(), findByIsbns: vi.fn() },
+      createPassthroughUnitOfWork()
+    );
+
+    const result = await service.getImportJobRows(jobId, 'FAILED');
+
+    expect(isOk(result)).toBe(true);
+    expect(repository.findRows).toHaveBeenCalledWith(jobId, 'FAILED');
+  });
+});
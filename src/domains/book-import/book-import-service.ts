@@ -0,0 +1,493 @@
+/**
+ * BookImportService - 書籍一括取り込みサービス
+ *
+ * CSV・TSV ファイルから書籍と蔵書コピーを一括で取り込みます。
+ * 列の対応付けに従って各行を読み込み、すべての行を検証します（ISBNは検証して正規形に変換）。
+ *
+ * - ドライラン: 登録・更新・エラーになる行を確認するだけで、データは変更しない
+ * - 取り込み: ファイルを取り込みジョブとして保存し、チャンク単位で処理する。
+ *   チャンクごとに1トランザクションで処理し、処理結果と進捗も同じトランザクションで保存するため、
+ *   途中で中断しても未処理の行から再開できる
+ *
+ * 登録済みのISBNの行は書籍の書誌項目を更新し、指定された冊数の蔵書コピーを追加します。
+ */
+
+import type { BookId, BookImportJobId, UserId } from '../../shared/branded-types.js';
+import type { Result } from '../../shared/result.js';
+import { ok, err, isErr } from '../../shared/result.js';
+import type { UnitOfWork } from '../../shared/unit-of-work.js';
+import { validateRequired } from '../../shared/validation.js';
+import { normalizeISBN } from '../../shared/isbn.js';
+import type { BookRepository } from '../book/book-repository.js';
+import type { BookService } from '../book/book-service.js';
+import type { BookError } from '../book/types.js';
+import type { BookImportRepository } from './book-import-repository.js';
+import { parseDelimitedText } from './delimited-text.js';
+import type {
+  BookImportInput,
+  BookImportField,
+  BookImportFieldError,
+  BookImportRowData,
+  BookImportPreview,
+  BookImportPreviewRow,
+  BookImportJob,
+  BookImportRow,
+  BookImportRowStatus,
+  BookImportRowResult,
+  BookImportConfig,
+  BookImportError,
+} from './types.js';
+import { DEFAULT_BOOK_IMPORT_CONFIG } from './types.js';
+
+// ============================================
+// サービスインターフェース
+// ============================================
+
+/** BookImportService インターフェース */
+export interface BookImportService {
+  /**
+   * ドライラン（登録・更新・エラーになる行の確認のみ）
+   * @param input - ファイルの内容・形式・列の対応付け
+   * @returns 行ごとの処理内容またはエラー（ファイル全体を読み込めない場合）
+   */
+  previewImport(input: BookImportInput): Promise<Result<BookImportPreview, BookImportError>>;
+
+  /**
+   * 取り込みジョブを作成（行の処理は runImportChunk で行う）
+   * @param input - ファイルの内容・形式・列の対応付け
+   * @param createdBy - 取り込みを行う職員のID
+   * @returns 作成された取り込みジョブまたはエラー（ファイル全体を読み込めない場合）
+   */
+  createImportJob(
+    input: BookImportInput,
+    createdBy: UserId
+  ): Promise<Result<BookImportJob, BookImportError>>;
+
+  /**
+   * 取り込みジョブの未処理の行を1チャンク分処理
+   * 完了済みのジョブはそのまま返す
+   * @param jobId - 取り込みジョブID
+   * @returns 進捗を更新した取り込みジョブまたはエラー
+   */
+  runImportChunk(jobId: BookImportJobId): Promise<Result<BookImportJob, BookImportError>>;
+
+  /**
+   * 取り込みジョブを取得
+   * @param jobId - 取り込みジョブID
+   * @returns 取り込みジョブまたはエラー
+   */
+  getImportJob(jobId: BookImportJobId): Promise<Result<BookImportJob, BookImportError>>;
+
+  /**
+   * 取り込みジョブの行を取得
+   * @param jobId - 取り込みジョブID
+   * @param status - 絞り込むステータス（省略時はすべて）
+   * @returns 取り込み行一覧またはエラー
+   */
+  getImportJobRows(
+    jobId: BookImportJobId,
+    status?: BookImportRowStatus
+  ): Promise<Result<BookImportRow[], BookImportError>>;
+}
+
+// ============================================
+// 定数
+// ============================================
+
+/** 列の対応付けが必須の取り込み項目 */
+const REQUIRED_FIELDS: readonly BookImportField[] = ['title', 'author', 'publisher', 'isbn'];
+
+/** ドライランで登録済みの書籍を一度に検索するISBNの数 */
+const ISBN_LOOKUP_BATCH_SIZE = 1000;
+
+// ============================================
+// ヘルパー関数
+// ============================================
+
+/** 読み込んだ行 */
+interface ParsedRow {
+  readonly rowNumber: number;
+  readonly data: BookImportRowData | null;
+  readonly errors: readonly BookImportFieldError[];
+}
+
+/**
+ * 空文字を未指定（null）として扱う
+ */
+function optionalText(value: string): string | null {
+  return value === '' ? null : value;
+}
+
+/**
+ * BookErrorを取り込み行の項目エラーに変換
+ */
+function toFieldErrors(error: BookError): BookImportFieldError[] {
+  switch (error.type) {
+    case 'VALIDATION_ERROR':
+      return [{ field: error.field, message: error.message }];
+    case 'DUPLICATE_ISBN':
+      return [{ field: 'isbn', message: `ISBN ${error.isbn} は既に登録されています` }];
+    case 'DUPLICATE_BARCODE':
+      return [{ field: 'barcode', message: `バーコード ${error.barcode} は既に使用されています` }];
+    case 'DUPLICATE_CLASSIFICATION':
+      return [
+        {
+          field: 'classificationId',
+          message: `分類 ${error.scheme} ${error.number} は既に登録されています`,
+        },
+      ];
+    case 'DUPLICATE_SUBJECT_HEADING':
+      return [
+        { field: 'subjectHeadingIds', message: `件名標目 ${error.label} は既に登録されています` },
+      ];
+    case 'INVALID_COPY_STATUS_TRANSITION':
+      return [
+        {
+          field: 'status',
+          message: `蔵書コピーのステータスを ${error.from} から ${error.to} に変更できません`,
+        },
+      ];
+    case 'NOT_FOUND':
+      return [{ field: 'bookId', message: `書籍 ${error.id} が見つかりません` }];
+  }
+}
+
+/**
+ * 1行分の値を検証して取り込み行データに変換
+ */
+function validateRow(
+  value: (field: BookImportField) => string,
+  config: BookImportConfig
+): { data: BookImportRowData | null; errors: BookImportFieldError[] } {
+  const errors: BookImportFieldError[] = [];
+
+  for (const field of ['title', 'author', 'publisher'] as const) {
+    const requiredResult = validateRequired(value(field), field);
+    if (isErr(requiredResult)) {
+      errors.push({ field, message: requiredResult.error.message });
+    }
+  }
+
+  // ISBNは正規形に変換し、ISBN-10・ハイフン付きで書かれた登録済みの書籍や同じファイル内の行とも照合する
+  const isbnResult = normalizeISBN(value('isbn'));
+  if (isErr(isbnResult)) {
+    errors.push({ field: 'isbn', message: isbnResult.error.message });
+  }
+
+  let publicationYear: number | null = null;
+  if (value('publicationYear') !== '') {
+    if (/^\d{1,4}$/.test(value('publicationYear'))) {
+      publicationYear = parseInt(value('publicationYear'), 10);
+    } else {
+      errors.push({ field: 'publicationYear', message: '出版年は4桁以内の数字で指定してください' });
+    }
+  }
+
+  const location = optionalText(value('location'));
+  let copyCount = location !== null ? 1 : 0;
+  if (value('copyCount') !== '') {
+    copyCount = /^\d+$/.test(value('copyCount')) ? parseInt(value('copyCount'), 10) : -1;
+    if (copyCount < 0 || copyCount > config.maxCopiesPerRow) {
+      errors.push({
+        field: 'copyCount',
+        message: `冊数は0から${String(config.maxCopiesPerRow)}までの整数で指定してください`,
+      });
+    }
+  }
+  if (copyCount > 0 && location === null) {
+    errors.push({ field: 'location', message: '蔵書コピーを登録する場合は配置場所が必須です' });
+  }
+
+  if (errors.length > 0 || isErr(isbnResult)) {
+    return { data: null, errors };
+  }
+  return {
+    data: {
+      title: value('title'),
+      author: value('author'),
+      publisher: value('publisher'),
+      publicationYear,
+      isbn: isbnResult.value,
+      category: optionalText(value('category')),
+      location,
+      copyCount,
+    },
+    errors,
+  };
+}
+
+/**
+ * ファイルを読み込み、列の対応付けに従ってすべての行を検証
+ */
+function readRows(
+  input: BookImportInput,
+  config: BookImportConfig
+): Result<ParsedRow[], BookImportError> {
+  for (const field of REQUIRED_FIELDS) {
+    if (input.mapping[field] === undefined || input.mapping[field].trim() === '') {
+      return err({
+        type: 'VALIDATION_ERROR',
+        field: `mapping.${field}`,
+        message: `${field} に対応する列を指定してください`,
+      });
+    }
+  }
+
+  const parseResult = parseDelimitedText(input.content, input.format);
+  if (isErr(parseResult)) {
+    return parseResult;
+  }
+
+  const [header, ...records] = parseResult.value;
+  if (header === undefined || records.length === 0) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'content',
+      message: '見出し行とデータ行が必要です',
+    });
+  }
+  if (records.length > config.maxRows) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'content',
+      message: `1ファイルで取り込めるのは${String(config.maxRows)}行までです`,
+    });
+  }
+
+  // 取り込み項目ごとの列位置
+  const headerNames = header.map((name) => name.trim());
+  const columnIndexes = new Map<BookImportField, number>();
+  for (const [field, columnName] of Object.entries(input.mapping) as [BookImportField, string][]) {
+    const index = headerNames.indexOf(columnName.trim());
+    if (index === -1) {
+      return err({
+        type: 'VALIDATION_ERROR',
+        field: `mapping.${field}`,
+        message: `列「${columnName}」が見出し行にありません`,
+      });
+    }
+    columnIndexes.set(field, index);
+  }
+
+  return ok(
+    records.map((record, index) => {
+      const value = (field: BookImportField): string => {
+        const columnIndex = columnIndexes.get(field);
+        return columnIndex !== undefined ? (record[columnIndex] ?? '').trim() : '';
+      };
+      // 見出し行を1行目とする
+      return { rowNumber: index + 2, ...validateRow(value, config) };
+    })
+  );
+}
+
+// ============================================
+// サービス実装
+// ============================================
+
+/**
+ * BookImportServiceを作成
+ * @param repository - 一括取り込みリポジトリ
+ * @param bookService - 書籍サービス（書籍・蔵書コピーの登録と書籍の更新）
+ * @param bookRepository - 書籍リポジトリ（登録済みのISBNの確認）
+ * @param unitOfWork - チャンク単位のトランザクション
+ * @param config - 一括取り込み設定
+ * @returns BookImportService
+ */
+export function createBookImportService(
+  repository: BookImportRepository,
+  bookService: Pick<BookService, 'createBook' | 'updateBook' | 'createBookCopy'>,
+  bookRepository: Pick<BookRepository, 'findByIsbn' | 'findByIsbns'>,
+  unitOfWork: UnitOfWork,
+  config: BookImportConfig = DEFAULT_BOOK_IMPORT_CONFIG
+): BookImportService {
+  /**
+   * 登録済みの書籍のIDをISBNごとに取得
+   */
+  async function findExistingBookIds(isbns: readonly string[]): Promise<Map<string, BookId>> {
+    const bookIds = new Map<string, BookId>();
+    for (let start = 0; start < isbns.length; start += ISBN_LOOKUP_BATCH_SIZE) {
+      const books = await bookRepository.findByIsbns(
+        isbns.slice(start, start + ISBN_LOOKUP_BATCH_SIZE)
+      );
+      for (const book of books) {
+        bookIds.set(book.isbn, book.id);
+      }
+    }
+    return bookIds;
+  }
+
+  /**
+   * 1行分の書籍と蔵書コピーを登録（登録済みのISBNの場合は書籍を更新）
+   */
+  async function importRow(row: BookImportRow): Promise<BookImportRowResult> {
+    const data = row.data;
+    if (data === null) {
+      return { status: 'FAILED', bookId: null, copiesCreated: 0, errors: row.errors };
+    }
+
+    const existing = await bookRepository.findByIsbn(data.isbn);
+    const bookResult =
+      existing !== null
+        ? await bookService.updateBook(existing.id, {
+            title: data.title,
+            author: data.author,
+            publisher: data.publisher,
+            ...(data.publicationYear !== null && { publicationYear: data.publicationYear }),
+            ...(data.category !== null && { category: data.category }),
+          })
+        : await bookService.createBook({
+            title: data.title,
+            author: data.author,
+            publisher: data.publisher,
+            publicationYear: data.publicationYear,
+            isbn: data.isbn,
+            category: data.category,
+          });
+    if (isErr(bookResult)) {
+      return {
+        status: 'FAILED',
+        bookId: existing?.id ?? null,
+        copiesCreated: 0,
+        errors: toFieldErrors(bookResult.error),
+      };
+    }
+
+    const bookId = bookResult.value.id;
+    for (let copiesCreated = 0; copiesCreated < data.copyCount; copiesCreated++) {
+      const copyResult = await bookService.createBookCopy(bookId, {
+        location: data.location ?? '',
+      });
+      if (isErr(copyResult)) {
+        return {
+          status: 'FAILED',
+          bookId,
+          copiesCreated,
+          errors: toFieldErrors(copyResult.error),
+        };
+      }
+    }
+
+    return {
+      status: existing !== null ? 'UPDATED' : 'CREATED',
+      bookId,
+      copiesCreated: data.copyCount,
+      errors: [],
+    };
+  }
+
+  return {
+    async previewImport(
+      input: BookImportInput
+    ): Promise<Result<BookImportPreview, BookImportError>> {
+      // 1. ファイルの読み込みと行の検証
+      const rowsResult = readRows(input, config);
+      if (isErr(rowsResult)) {
+        return rowsResult;
+      }
+
+      // 2. 登録済みの書籍を確認
+      const validRows = rowsResult.value.flatMap((row) => (row.data !== null ? [row.data] : []));
+      const existingBookIds = await findExistingBookIds(validRows.map((data) => data.isbn));
+
+      // 3. 行ごとの処理内容（同じファイル内で先に登録する書籍は更新になる）
+      const seenIsbns = new Set<string>();
+      const rows: BookImportPreviewRow[] = rowsResult.value.map((row) => {
+        if (row.data === null) {
+          return {
+            rowNumber: row.rowNumber,
+            action: 'ERROR',
+            isbn: null,
+            title: null,
+            bookId: null,
+            copyCount: 0,
+            errors: row.errors,
+          };
+        }
+
+        const existingBookId = existingBookIds.get(row.data.isbn) ?? null;
+        const action =
+          existingBookId !== null || seenIsbns.has(row.data.isbn) ? 'UPDATE' : 'CREATE';
+        seenIsbns.add(row.data.isbn);
+        return {
+          rowNumber: row.rowNumber,
+          action,
+          isbn: row.data.isbn,
+          title: row.data.title,
+          bookId: existingBookId,
+          copyCount: row.data.copyCount,
+          errors: [],
+        };
+      });
+
+      const countOf = (action: BookImportPreviewRow['action']): number =>
+        rows.filter((row) => row.action === action).length;
+
+      return ok({
+        format: input.format,
+        totalRows: rows.length,
+        createCount: countOf('CREATE'),
+        updateCount: countOf('UPDATE'),
+        errorCount: countOf('ERROR'),
+        copyCount: rows.reduce((sum, row) => sum + row.copyCount, 0),
+        rows,
+      });
+    },
+
+    async createImportJob(
+      input: BookImportInput,
+      createdBy: UserId
+    ): Promise<Result<BookImportJob, BookImportError>> {
+      const rowsResult = readRows(input, config);
+      if (isErr(rowsResult)) {
+        return rowsResult;
+      }
+
+      const job = await repository.createJob({
+        format: input.format,
+        chunkSize: config.chunkSize,
+        createdBy,
+        rows: rowsResult.value,
+      });
+      return ok(job);
+    },
+
+    async runImportChunk(jobId: BookImportJobId): Promise<Result<BookImportJob, BookImportError>> {
+      const jobResult = await repository.findJobById(jobId);
+      if (isErr(jobResult)) {
+        return jobResult;
+      }
+      const job = jobResult.value;
+      if (job.status === 'COMPLETED') {
+        return ok(job);
+      }
+
+      // チャンク内の行の処理結果と進捗を1トランザクションで保存する
+      return unitOfWork.run(async () => {
+        const rows = await repository.findPendingRows(jobId, job.chunkSize);
+        for (const row of rows) {
+          const result = await importRow(row);
+          await repository.recordRowResult(jobId, row.rowNumber, result);
+        }
+        return repository.refreshJobProgress(jobId);
+      });
+    },
+
+    async getImportJob(jobId: BookImportJobId): Promise<Result<BookImportJob, BookImportError>> {
+      return repository.findJobById(jobId);
+    },
+
+    async getImportJobRows(
+      jobId: BookImportJobId,
+      status?: BookImportRowStatus
+    ): Promise<Result<BookImportRow[], BookImportError>> {
+      const jobResult = await repository.findJobById(jobId);
+      if (isErr(jobResult)) {
+        return jobResult;
+      }
+
+      const rows = await repository.findRows(jobId, status);
+      return ok(rows);
+    },
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * 区切り文字形式（CSV・TSV）の読み込み Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseDelimitedText } from './delimited-text.js';
+import { isOk, isErr } from '../../shared/result.js';
+
+describe('parseDelimitedText', () => {
+  it('CSVを行と列に分割する', () => {
+    const result = parseDelimitedText('タイトル,著者\n吾輩は猫である,夏目漱石\n', 'CSV');
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value).toEqual([
+        ['タイトル', '著者'],
+        ['吾輩は猫である', '夏目漱石'],
+      ]);
+    }
+  });
+
+  it('ダブルクォートで囲んだ値の区切り文字・改行・「""」を読み込む', () => {
+    const result = parseDelimitedText('a,b\r\n"x, y","line1\nline2 ""quoted"""\r\n', 'CSV');
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value[1]).toEqual(['x, y', 'line1\nline2 "quoted"']);
+    }
+  });
+
+  it('TSVはタブで分割し、カンマは値として扱う', () => {
+    const result = parseDelimitedText('a\tb\n1,000\t2', 'TSV');
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value).toEqual([
+        ['a', 'b'],
+        ['1,000', '2'],
+      ]);
+    }
+  });
+
+  it('BOMを除去し、空行を無視する', () => {
+    const result = parseDelimitedText('\uFEFFa,b\n\n1,2\n\n', 'CSV');
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+      ]);
+    }
+  });
+
+  it('末尾の空の値を保持する', () => {
+    const result = parseDelimitedText('a,b,c\n1,,\n', 'CSV');
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value[1]).toEqual(['1', '', '']);
+    }
+  });
+
+  it('ダブルクォートが閉じられていない場合はエラーを返す', () => {
+    const result = parseDelimitedText('a,b\n"unterminated,2\n', 'CSV');
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toMatchObject({ type: 'VALIDATION_ERROR', field: 'content' });
+    }
+  });
+});
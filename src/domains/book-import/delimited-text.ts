@@ -0,0 +1,94 @@
+/**
+ * 区切り文字形式（CSV・TSV）の読み込み
+ *
+ * RFC 4180 に沿って、ダブルクォートで囲んだ値（区切り文字・改行・「""」を含む値）を読み込みます。
+ * 表計算ソフトが付けるBOMは除去し、空行は無視します。
+ */
+
+import type { Result } from '../../shared/result.js';
+import { ok, err } from '../../shared/result.js';
+import type { BookImportError, BookImportFormat } from './types.js';
+
+/** ファイル形式ごとの区切り文字 */
+const DELIMITERS: Readonly<Record<BookImportFormat, string>> = {
+  CSV: ',',
+  TSV: '\t',
+};
+
+/**
+ * 行が空行（値が1つで空文字）か判定
+ */
+function isBlankRow(row: readonly string[]): boolean {
+  return row.length === 1 && row[0]?.trim() === '';
+}
+
+/**
+ * 区切り文字形式のテキストを行・列に分割
+ * @param content - ファイルの内容
+ * @param format - ファイル形式
+ * @returns 行ごとの値の配列、またはダブルクォートが閉じられていない場合のエラー
+ */
+export function parseDelimitedText(
+  content: string,
+  format: BookImportFormat
+): Result<string[][], BookImportError> {
+  const delimiter = DELIMITERS[format];
+  const text = content.startsWith('\uFEFF') ? content.slice(1) : content;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  const endRow = (): void => {
+    row.push(value);
+    if (!isBlankRow(row)) {
+      rows.push(row);
+    }
+    row = [];
+    value = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charAt(i);
+
+    if (inQuotes) {
+      if (char !== '"') {
+        value += char;
+      } else if (text.charAt(i + 1) === '"') {
+        value += '"';
+        i++;
+      } else {
+        inQuotes = false;
+      }
+      continue;
+    }
+
+    if (char === '"' && value === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(value);
+      value = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text.charAt(i + 1) === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      value += char;
+    }
+  }
+
+  if (inQuotes) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'content',
+      message: 'ダブルクォートで囲んだ値が閉じられていません',
+    });
+  }
+  if (value !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return ok(rows);
+}
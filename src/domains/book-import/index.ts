@@ -0,0 +1,6 @@
+// BookImport domain - 書籍一括取り込み
+export * from './types.js';
+export * from './delimited-text.js';
+export * from './book-import-repository.js';
+export * from './book-import-service.js';
+export * from './book-import-controller.js';
@@ -0,0 +1,187 @@
+/**
+ * BookImport Domain - 型定義
+ *
+ * 表計算ソフトなどから書き出したCSV・TSVによる書籍・蔵書コピーの一括取り込みの型定義を提供します。
+ */
+
+import type { BookId, BookImportJobId, UserId } from '../../shared/branded-types.js';
+
+// ============================================
+// 取り込みファイル型定義
+// ============================================
+
+/** 取り込みファイル形式 */
+export type BookImportFormat = 'CSV' | 'TSV';
+
+/**
+ * 取り込み項目
+ *
+ * location・copyCount は登録する蔵書コピーの配置場所と冊数
+ */
+export type BookImportField =
+  | 'title'
+  | 'author'
+  | 'publisher'
+  | 'publicationYear'
+  | 'isbn'
+  | 'category'
+  | 'location'
+  | 'copyCount';
+
+/** 列の対応付け（取り込み項目 → 見出し行の列名） */
+export type BookImportColumnMapping = Readonly<Partial<Record<BookImportField, string>>>;
+
+/** 一括取り込み入力 */
+export interface BookImportInput {
+  /** ファイルの内容（1行目は見出し行） */
+  readonly content: string;
+  readonly format: BookImportFormat;
+  readonly mapping: BookImportColumnMapping;
+}
+
+/** 検証済みの取り込み行データ */
+export interface BookImportRowData {
+  readonly title: string;
+  readonly author: string;
+  readonly publisher: string;
+  readonly publicationYear: number | null;
+  readonly isbn: string;
+  readonly category: string | null;
+  readonly location: string | null;
+  /** 登録する蔵書コピーの冊数 */
+  readonly copyCount: number;
+}
+
+/** 取り込み行の項目エラー */
+export interface BookImportFieldError {
+  readonly field: string;
+  readonly message: string;
+}
+
+// ============================================
+// ドライラン型定義
+// ============================================
+
+/** 取り込み時の処理内容 */
+export type BookImportAction = 'CREATE' | 'UPDATE' | 'ERROR';
+
+/** ドライランの行ごとの処理内容 */
+export interface BookImportPreviewRow {
+  /** ファイル上の行番号（見出し行を1行目とする） */
+  readonly rowNumber: number;
+  readonly action: BookImportAction;
+  readonly isbn: string | null;
+  readonly title: string | null;
+  /** 更新する登録済みの書籍（同じファイル内で先に登録する書籍の場合はnull） */
+  readonly bookId: BookId | null;
+  readonly copyCount: number;
+  readonly errors: readonly BookImportFieldError[];
+}
+
+/** ドライランの結果 */
+export interface BookImportPreview {
+  readonly format: BookImportFormat;
+  readonly totalRows: number;
+  readonly createCount: number;
+  readonly updateCount: number;
+  readonly errorCount: number;
+  /** 登録する蔵書コピーの合計冊数 */
+  readonly copyCount: number;
+  readonly rows: readonly BookImportPreviewRow[];
+}
+
+// ============================================
+// 取り込みジョブ型定義
+// ============================================
+
+/**
+ * 取り込みジョブステータス
+ *
+ * PENDING → IN_PROGRESS → COMPLETED の順に進む
+ */
+export type BookImportJobStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED';
+
+/** 取り込みジョブ */
+export interface BookImportJob {
+  readonly id: BookImportJobId;
+  readonly format: BookImportFormat;
+  readonly status: BookImportJobStatus;
+  readonly totalRows: number;
+  /** 処理済みの行数（登録・更新・失敗の合計） */
+  readonly processedRows: number;
+  readonly createdCount: number;
+  readonly updatedCount: number;
+  readonly failedCount: number;
+  /** 1回の実行で処理する行数 */
+  readonly chunkSize: number;
+  readonly createdBy: UserId;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+  readonly completedAt: Date | null;
+}
+
+/** 取り込み行ステータス */
+export type BookImportRowStatus = 'PENDING' | 'CREATED' | 'UPDATED' | 'FAILED';
+
+/** 取り込みジョブの行 */
+export interface BookImportRow {
+  readonly jobId: BookImportJobId;
+  readonly rowNumber: number;
+  /** 検証済みの行データ（検証エラーの行はnull） */
+  readonly data: BookImportRowData | null;
+  readonly status: BookImportRowStatus;
+  readonly bookId: BookId | null;
+  /** 登録した蔵書コピーの冊数 */
+  readonly copiesCreated: number;
+  readonly errors: readonly BookImportFieldError[];
+}
+
+/** 取り込みジョブ作成入力 */
+export interface CreateBookImportJobInput {
+  readonly format: BookImportFormat;
+  readonly chunkSize: number;
+  readonly createdBy: UserId;
+  readonly rows: readonly {
+    readonly rowNumber: number;
+    readonly data: BookImportRowData | null;
+    readonly errors: readonly BookImportFieldError[];
+  }[];
+}
+
+/** 取り込み行の処理結果 */
+export interface BookImportRowResult {
+  readonly status: Exclude<BookImportRowStatus, 'PENDING'>;
+  readonly bookId: BookId | null;
+  readonly copiesCreated: number;
+  readonly errors: readonly BookImportFieldError[];
+}
+
+// ============================================
+// 設定
+// ============================================
+
+/** 一括取り込み設定 */
+export interface BookImportConfig {
+  /** 1回の実行（1トランザクション）で処理する行数 */
+  readonly chunkSize: number;
+  /** 1ファイルで取り込める最大行数（見出し行を除く） */
+  readonly maxRows: number;
+  /** 1行で登録できる蔵書コピーの最大冊数 */
+  readonly maxCopiesPerRow: number;
+}
+
+/** デフォルトの一括取り込み設定 */
+export const DEFAULT_BOOK_IMPORT_CONFIG: BookImportConfig = {
+  chunkSize: 500,
+  maxRows: 50000,
+  maxCopiesPerRow: 100,
+};
+
+// ============================================
+// エラー型定義
+// ============================================
+
+/** 一括取り込みエラー */
+export type BookImportError =
+  | { readonly type: 'VALIDATION_ERROR'; readonly field: string; readonly message: string }
+  | { readonly type: 'IMPORT_JOB_NOT_FOUND'; readonly jobId: string };
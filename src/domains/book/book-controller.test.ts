@@ -11,7 +11,9 @@ import request from 'supertest';
 import { createBookController } from './book-controller.js';
 import type { BookService } from './book-service.js';
 import type { Book, BookCopy } from './types.js';
-import type { BookId, CopyId } from '../../shared/branded-types.js';
+import type { AuthenticatedRequest } from '../auth/rbac.js';
+import type { UserRole } from '../auth/types.js';
+import type { BookId, CopyId, PersonId, UserId } from '../../shared/branded-types.js';
 import { ok, err } from '../../shared/result.js';
 
 // ============================================
@@ -24,15 +26,28 @@ function createMockBookService(): BookService {
     getBookById: vi.fn(),
     updateBook: vi.fn(),
     deleteBook: vi.fn(),
+    getBooksByContributor: vi.fn(),
     createBookCopy: vi.fn(),
     updateCopyStatus: vi.fn(),
+    getCopyByBarcode: vi.fn(),
     getCopiesByBookId: vi.fn(),
   };
 }
 
-function createTestApp(bookService: BookService): Express {
+function createTestApp(bookService: BookService, role?: UserRole): Express {
   const app = express();
   app.use(express.json());
+  if (role !== undefined) {
+    app.use((req: AuthenticatedRequest, _res, next) => {
+      req.session = {
+        userId: 'staff-1' as UserId,
+        role,
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      };
+      next();
+    });
+  }
   const router = createBookController(bookService);
   app.use('/api/books', router);
   return app;
@@ -43,10 +58,15 @@ function createTestBook(overrides?: Partial<Book>): Book {
     id: 'book-1' as BookId,
     title: 'Test Book',
     author: 'Test Author',
+    contributors: [],
     publisher: 'Test Publisher',
     publicationYear: 2024,
     isbn: '9784123456789',
     category: 'Fiction',
+    classification: null,
+    callNumber: null,
+    subjectHeadings: [],
+    replacementCost: null,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
     ...overrides,
@@ -57,6 +77,7 @@ function createTestBookCopy(overrides?: Partial<BookCopy>): BookCopy {
   return {
     id: 'copy-1' as CopyId,
     bookId: 'book-1' as BookId,
+    barcode: 'LIB000000017',
     location: 'Shelf A-1',
     status: 'AVAILABLE',
     createdAt: new Date('2024-01-01'),
@@ -113,6 +134,78 @@ describe('BookController', () => {
       expect(response.body.error.field).toBe('title');
     });
 
+    it('正常系: 寄与者一覧を指定して登録できる（著者表示は省略可能）', async () => {
+      const contributors = [
+        { name: 'ルイス・キャロル', role: 'AUTHOR' },
+        { name: '河合祥一郎', role: 'TRANSLATOR' },
+      ];
+      vi.mocked(mockService.createBook).mockResolvedValue(ok(createTestBook()));
+
+      const response = await request(app).post('/api/books').send({
+        title: 'Test Book',
+        contributors,
+        publisher: 'Test Publisher',
+        isbn: '9784123456789',
+      });
+
+      expect(response.status).toBe(201);
+      const input = vi.mocked(mockService.createBook).mock.calls[0]?.[0];
+      expect(input?.contributors).toEqual(contributors);
+      expect(input).not.toHaveProperty('author');
+    });
+
+    it('異常系: 寄与者一覧が配列でない場合は400を返す', async () => {
+      const response = await request(app).post('/api/books').send({
+        title: 'Test Book',
+        contributors: 'ルイス・キャロル',
+        publisher: 'Test Publisher',
+        isbn: '9784123456789',
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('contributors');
+      expect(mockService.createBook).not.toHaveBeenCalled();
+    });
+
+    it('正常系: 分類・請求記号・件名標目を指定して登録できる', async () => {
+      vi.mocked(mockService.createBook).mockResolvedValue(ok(createTestBook()));
+
+      const response = await request(app)
+        .post('/api/books')
+        .send({
+          title: 'Test Book',
+          author: 'Test Author',
+          publisher: 'Test Publisher',
+          isbn: '9784123456789',
+          classificationId: 'class-9',
+          callNumber: '913.6/テ',
+          subjectHeadingIds: ['heading-1', 'heading-2'],
+        });
+
+      expect(response.status).toBe(201);
+      expect(mockService.createBook).toHaveBeenCalledWith(
+        expect.objectContaining({
+          classificationId: 'class-9',
+          callNumber: '913.6/テ',
+          subjectHeadingIds: ['heading-1', 'heading-2'],
+        })
+      );
+    });
+
+    it('異常系: 件名標目ID一覧が配列でない場合は400を返す', async () => {
+      const response = await request(app).post('/api/books').send({
+        title: 'Test Book',
+        author: 'Test Author',
+        publisher: 'Test Publisher',
+        isbn: '9784123456789',
+        subjectHeadingIds: 'heading-1',
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('subjectHeadingIds');
+      expect(mockService.createBook).not.toHaveBeenCalled();
+    });
+
     it('異常系: ISBN重複で409を返す', async () => {
       vi.mocked(mockService.createBook).mockResolvedValue(
         err({ type: 'DUPLICATE_ISBN', isbn: '9784123456789' })
@@ -146,6 +239,19 @@ describe('BookController', () => {
       expect(mockService.updateBook).toHaveBeenCalledWith('book-1', { title: 'Updated Title' });
     });
 
+    it('正常系: 分類の解除と件名標目の置き換えを指定した項目だけ渡す', async () => {
+      vi.mocked(mockService.updateBook).mockResolvedValue(ok(createTestBook()));
+
+      await request(app)
+        .put('/api/books/book-1')
+        .send({ classificationId: null, subjectHeadingIds: ['heading-1'] });
+
+      expect(mockService.updateBook).toHaveBeenCalledWith('book-1', {
+        classificationId: null,
+        subjectHeadingIds: ['heading-1'],
+      });
+    });
+
     it('異常系: 存在しない書籍で404を返す', async () => {
       vi.mocked(mockService.updateBook).mockResolvedValue(
         err({ type: 'NOT_FOUND', id: 'book-999' })
@@ -197,6 +303,59 @@ describe('BookController', () => {
     });
   });
 
+  // ============================================
+  // GET /api/books/contributors/:personId - 寄与者別の書籍一覧
+  // ============================================
+
+  describe('GET /api/books/contributors/:personId - 寄与者別の書籍一覧', () => {
+    const person = {
+      id: 'person-1' as PersonId,
+      name: '河合祥一郎',
+      createdAt: new Date('2024-01-01'),
+    };
+
+    it('正常系: 人物と書籍一覧を200で返す', async () => {
+      const book = createTestBook({
+        contributors: [
+          { personId: 'person-1' as PersonId, name: '河合祥一郎', role: 'TRANSLATOR', position: 1 },
+        ],
+      });
+      vi.mocked(mockService.getBooksByContributor).mockResolvedValue(ok({ person, books: [book] }));
+
+      const response = await request(app)
+        .get('/api/books/contributors/person-1')
+        .query({ role: 'TRANSLATOR' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.person.name).toBe('河合祥一郎');
+      expect(response.body.books).toHaveLength(1);
+      expect(response.body.books[0].contributors[0].role).toBe('TRANSLATOR');
+      expect(response.body.books[0]).toHaveProperty('isbnHyphenated');
+      expect(mockService.getBooksByContributor).toHaveBeenCalledWith('person-1', 'TRANSLATOR');
+    });
+
+    it('異常系: 不正な役割で400を返す', async () => {
+      const response = await request(app)
+        .get('/api/books/contributors/person-1')
+        .query({ role: 'NARRATOR' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('role');
+      expect(mockService.getBooksByContributor).not.toHaveBeenCalled();
+    });
+
+    it('異常系: 存在しない人物で404を返す', async () => {
+      vi.mocked(mockService.getBooksByContributor).mockResolvedValue(
+        err({ type: 'NOT_FOUND', id: 'unknown' })
+      );
+
+      const response = await request(app).get('/api/books/contributors/unknown');
+
+      expect(response.status).toBe(404);
+      expect(mockService.getBooksByContributor).toHaveBeenCalledWith('unknown', undefined);
+    });
+  });
+
   // ============================================
   // GET /api/books/:id - 書籍詳細取得
   // ============================================
@@ -214,6 +373,16 @@ describe('BookController', () => {
       expect(mockService.getBookById).toHaveBeenCalledWith('book-1');
     });
 
+    it('正常系: 表示用のハイフン区切りISBNを含めて返す', async () => {
+      const book = createTestBook({ isbn: '9784003101018' });
+      vi.mocked(mockService.getBookById).mockResolvedValue(ok(book));
+
+      const response = await request(app).get('/api/books/book-1');
+
+      expect(response.body.isbn).toBe('9784003101018');
+      expect(response.body.isbnHyphenated).toBe('978-4-00-310101-8');
+    });
+
     it('異常系: 存在しない書籍で404を返す', async () => {
       vi.mocked(mockService.getBookById).mockResolvedValue(
         err({ type: 'NOT_FOUND', id: 'book-999' })
@@ -272,5 +441,183 @@ describe('BookController', () => {
       expect(response.status).toBe(400);
       expect(response.body.error.type).toBe('VALIDATION_ERROR');
     });
+
+    it('正常系: 既存のラベルのバーコードを指定して登録できる', async () => {
+      vi.mocked(mockService.createBookCopy).mockResolvedValue(
+        ok(createTestBookCopy({ barcode: 'OLD-0001' }))
+      );
+
+      const response = await request(app).post('/api/books/book-1/copies').send({
+        location: 'Shelf A-1',
+        barcode: 'OLD-0001',
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body.barcode).toBe('OLD-0001');
+      expect(mockService.createBookCopy).toHaveBeenCalledWith('book-1', {
+        location: 'Shelf A-1',
+        barcode: 'OLD-0001',
+      });
+    });
+
+    it('異常系: バーコードが重複する場合409を返す', async () => {
+      vi.mocked(mockService.createBookCopy).mockResolvedValue(
+        err({ type: 'DUPLICATE_BARCODE', barcode: 'OLD-0001' })
+      );
+
+      const response = await request(app).post('/api/books/book-1/copies').send({
+        location: 'Shelf A-1',
+        barcode: 'OLD-0001',
+      });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.type).toBe('DUPLICATE_BARCODE');
+    });
+  });
+
+  // ============================================
+  // GET /api/books/copies/barcode/:barcode - バーコードで蔵書コピー取得
+  // ============================================
+
+  describe('GET /api/books/copies/barcode/:barcode - バーコードで蔵書コピー取得', () => {
+    it('正常系: バーコードに該当する蔵書コピーを返す', async () => {
+      vi.mocked(mockService.getCopyByBarcode).mockResolvedValue(ok(createTestBookCopy()));
+
+      const response = await request(app).get('/api/books/copies/barcode/LIB000000017');
+
+      expect(response.status).toBe(200);
+      expect(response.body.id).toBe('copy-1');
+      expect(mockService.getCopyByBarcode).toHaveBeenCalledWith('LIB000000017');
+      expect(mockService.getBookById).not.toHaveBeenCalled();
+    });
+
+    it('異常系: 該当する蔵書コピーがない場合404を返す', async () => {
+      vi.mocked(mockService.getCopyByBarcode).mockResolvedValue(
+        err({ type: 'NOT_FOUND', id: 'UNKNOWN' })
+      );
+
+      const response = await request(app).get('/api/books/copies/barcode/UNKNOWN');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  // ============================================
+  // PUT /api/books/copies/status - 蔵書コピーのステータス変更
+  // ============================================
+
+  describe('PUT /api/books/copies/status - 蔵書コピーのステータス変更', () => {
+    let librarianApp: Express;
+
+    beforeEach(() => {
+      librarianApp = createTestApp(mockService, 'librarian');
+    });
+
+    it('正常系: 蔵書コピーIDで指定してステータスを変更する', async () => {
+      vi.mocked(mockService.updateCopyStatus).mockResolvedValue(
+        ok(createTestBookCopy({ status: 'MAINTENANCE' }))
+      );
+
+      const response = await request(librarianApp)
+        .put('/api/books/copies/status')
+        .send({ bookCopyId: 'copy-1', status: 'MAINTENANCE' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('MAINTENANCE');
+      expect(mockService.updateCopyStatus).toHaveBeenCalledWith('copy-1', 'MAINTENANCE');
+    });
+
+    it('正常系: バーコードで指定してステータスを変更する', async () => {
+      vi.mocked(mockService.getCopyByBarcode).mockResolvedValue(ok(createTestBookCopy()));
+      vi.mocked(mockService.updateCopyStatus).mockResolvedValue(
+        ok(createTestBookCopy({ status: 'MAINTENANCE' }))
+      );
+
+      const response = await request(librarianApp)
+        .put('/api/books/copies/status')
+        .send({ barcode: 'LIB000000017', status: 'MAINTENANCE' });
+
+      expect(response.status).toBe(200);
+      expect(mockService.getCopyByBarcode).toHaveBeenCalledWith('LIB000000017');
+      expect(mockService.updateCopyStatus).toHaveBeenCalledWith('copy-1', 'MAINTENANCE');
+    });
+
+    it('異常系: 該当する蔵書コピーがないバーコードの場合404を返す', async () => {
+      vi.mocked(mockService.getCopyByBarcode).mockResolvedValue(
+        err({ type: 'NOT_FOUND', id: 'UNKNOWN' })
+      );
+
+      const response = await request(librarianApp)
+        .put('/api/books/copies/status')
+        .send({ barcode: 'UNKNOWN', status: 'MAINTENANCE' });
+
+      expect(response.status).toBe(404);
+      expect(mockService.updateCopyStatus).not.toHaveBeenCalled();
+    });
+
+    it('異常系: 蔵書コピーIDとバーコードのどちらもない場合400を返す', async () => {
+      const response = await request(librarianApp)
+        .put('/api/books/copies/status')
+        .send({ status: 'MAINTENANCE' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('bookCopyId');
+    });
+
+    it('異常系: 不正なステータスの場合400を返す', async () => {
+      const response = await request(librarianApp)
+        .put('/api/books/copies/status')
+        .send({ bookCopyId: 'copy-1', status: 'UNKNOWN' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('status');
+      expect(mockService.updateCopyStatus).not.toHaveBeenCalled();
+    });
+
+    it('異常系: 貸出・予約で管理するステータスは手動で指定できず400を返す', async () => {
+      const response = await request(librarianApp)
+        .put('/api/books/copies/status')
+        .send({ bookCopyId: 'copy-1', status: 'BORROWED' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('status');
+      expect(mockService.updateCopyStatus).not.toHaveBeenCalled();
+    });
+
+    it('異常系: 現在のステータスから変更できない場合409を返す', async () => {
+      vi.mocked(mockService.updateCopyStatus).mockResolvedValue(
+        err({
+          type: 'INVALID_COPY_STATUS_TRANSITION',
+          copyId: 'copy-1',
+          from: 'BORROWED',
+          to: 'MAINTENANCE',
+        })
+      );
+
+      const response = await request(librarianApp)
+        .put('/api/books/copies/status')
+        .send({ bookCopyId: 'copy-1', status: 'MAINTENANCE' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.type).toBe('INVALID_COPY_STATUS_TRANSITION');
+    });
+
+    it('異常系: 未認証の場合401を返す', async () => {
+      const response = await request(app)
+        .put('/api/books/copies/status')
+        .send({ bookCopyId: 'copy-1', status: 'MAINTENANCE' });
+
+      expect(response.status).toBe(401);
+      expect(mockService.updateCopyStatus).not.toHaveBeenCalled();
+    });
+
+    it('異常系: 利用者ロールの場合403を返す', async () => {
+      const response = await request(createTestApp(mockService, 'patron'))
+        .put('/api/books/copies/status')
+        .send({ bookCopyId: 'copy-1', status: 'MAINTENANCE' });
+
+      expect(response.status).toBe(403);
+      expect(mockService.updateCopyStatus).not.toHaveBeenCalled();
+    });
   });
 });
@@ -8,19 +8,37 @@
  * - PUT /api/books/:id - 書籍編集
  * - DELETE /api/books/:id - 書籍削除
  * - GET /api/books/:id - 書籍詳細取得
- * - POST /api/books/:id/copies - 蔵書コピー登録
+ * - POST /api/books/:id/copies - 蔵書コピー登録（既存のラベルのバーコードを指定可能）
+ * - GET /api/books/copies/barcode/:barcode - バーコードで蔵書コピー取得
+ * - PUT /api/books/copies/status - 蔵書コピーのステータス変更（蔵書コピーIDまたはバーコードで指定）
+ * - GET /api/books/contributors/:personId - 寄与者別の書籍一覧（role で役割を絞り込み可能）
+ *
+ * 書籍のレスポンスには表示用のハイフン区切りISBN（isbnHyphenated）と寄与者一覧（contributors）、
+ * 分類（classification）・請求記号（callNumber）・件名標目一覧（subjectHeadings）を含めます。
  */
 
 import { Router, type Request, type Response } from 'express';
-import type { BookId } from '../../shared/branded-types.js';
+import type {
+  BookId,
+  ClassificationId,
+  CopyId,
+  PersonId,
+  SubjectHeadingId,
+} from '../../shared/branded-types.js';
 import { isOk } from '../../shared/result.js';
+import { hyphenateISBN } from '../../shared/isbn.js';
+import { requireLibrarian } from '../auth/rbac.js';
 import type { BookService } from './book-service.js';
+import { CONTRIBUTOR_ROLES, isContributorRole } from './contributors.js';
 import type {
+  Book,
+  BookResponse,
   CreateBookInput,
   UpdateBookInput,
   CreateCopyInput,
   BookError,
   BookCopyStatus,
+  ContributorInput,
 } from './types.js';
 
 // ============================================
@@ -31,28 +49,49 @@ import type {
 interface CreateBookRequestBody {
   title?: string;
   author?: string;
+  contributors?: unknown;
   publisher?: string;
   publicationYear?: number | null;
   isbn?: string;
   category?: string | null;
+  classificationId?: string | null;
+  callNumber?: string | null;
+  subjectHeadingIds?: unknown;
+  replacementCost?: number | null;
 }
 
 /** 書籍更新リクエストボディ */
 interface UpdateBookRequestBody {
   title?: string;
   author?: string;
+  contributors?: unknown;
   publisher?: string | null;
   publicationYear?: number | null;
   isbn?: string;
   category?: string | null;
+  classificationId?: string | null;
+  callNumber?: string | null;
+  subjectHeadingIds?: unknown;
+  replacementCost?: number | null;
 }
 
 /** 蔵書コピー登録リクエストボディ */
 interface CreateCopyRequestBody {
   location?: string;
   status?: BookCopyStatus;
+  barcode?: string;
 }
 
+/** 蔵書コピーステータス変更リクエストボディ */
+interface UpdateCopyStatusRequestBody {
+  bookCopyId?: string;
+  barcode?: string;
+  status?: string;
+}
+
+/** 蔵書コピーのステータスとして手動で指定可能な値（貸出中・取置中は貸出・予約の処理で設定する） */
+const COPY_STATUSES: readonly BookCopyStatus[] = ['AVAILABLE', 'MAINTENANCE', 'LOST', 'DAMAGED'];
+
 // ============================================
 // HTTPステータスコード決定
 // ============================================
@@ -68,9 +107,68 @@ function getErrorStatusCode(error: BookError): number {
       return 404;
     case 'DUPLICATE_ISBN':
       return 409;
+    case 'DUPLICATE_BARCODE':
+      return 409;
+    case 'DUPLICATE_CLASSIFICATION':
+      return 409;
+    case 'DUPLICATE_SUBJECT_HEADING':
+      return 409;
+    case 'INVALID_COPY_STATUS_TRANSITION':
+      return 409;
   }
 }
 
+/**
+ * 書籍をAPIレスポンスに変換（表示用のハイフン区切りISBNを付与）
+ */
+export function toBookResponse(book: Book): BookResponse {
+  return { ...book, isbnHyphenated: hyphenateISBN(book.isbn) };
+}
+
+/**
+ * リクエストボディの値が寄与者一覧（名前・役割を文字列で持つオブジェクトの配列）か判定
+ */
+function isContributorList(value: unknown): value is ContributorInput[] {
+  return (
+    Array.isArray(value) &&
+    value.every((item: unknown) => {
+      if (typeof item !== 'object' || item === null) {
+        return false;
+      }
+      const { name, role } = item as { name?: unknown; role?: unknown };
+      return typeof name === 'string' && typeof role === 'string';
+    })
+  );
+}
+
+/** 寄与者一覧の形式エラー */
+const INVALID_CONTRIBUTORS_ERROR: BookError = {
+  type: 'VALIDATION_ERROR',
+  field: 'contributors',
+  message: 'contributorsは name と role を持つオブジェクトの配列で指定してください',
+};
+
+/**
+ * リクエストボディの値が件名標目ID一覧（文字列の配列）か判定
+ */
+function isSubjectHeadingIdList(value: unknown): value is SubjectHeadingId[] {
+  return Array.isArray(value) && value.every((item: unknown) => typeof item === 'string');
+}
+
+/** 件名標目ID一覧の形式エラー */
+const INVALID_SUBJECT_HEADING_IDS_ERROR: BookError = {
+  type: 'VALIDATION_ERROR',
+  field: 'subjectHeadingIds',
+  message: 'subjectHeadingIdsは件名標目IDの配列で指定してください',
+};
+
+/**
+ * 文字列が蔵書コピーステータスか判定
+ */
+function isCopyStatus(value: string): value is BookCopyStatus {
+  return (COPY_STATUSES as readonly string[]).includes(value);
+}
+
 // ============================================
 // コントローラーファクトリ
 // ============================================
@@ -83,25 +181,149 @@ function getErrorStatusCode(error: BookError): number {
 export function createBookController(bookService: BookService): Router {
   const router = Router();
 
+  // 注意: /copies/... のルートは /:id より先に登録する
+
+  // ============================================
+  // GET /api/books/copies/barcode/:barcode - バーコードで蔵書コピー取得
+  // ============================================
+
+  router.get('/copies/barcode/:barcode', async (req: Request, res: Response): Promise<void> => {
+    const result = await bookService.getCopyByBarcode(req.params.barcode ?? '');
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // PUT /api/books/copies/status - 蔵書コピーのステータス変更
+  // ============================================
+
+  router.put(
+    '/copies/status',
+    requireLibrarian,
+    async (req: Request, res: Response): Promise<void> => {
+      const body = (req.body ?? {}) as UpdateCopyStatusRequestBody;
+
+      // バリデーション: statusは蔵書コピーステータスのいずれか
+      if (body.status === undefined || !isCopyStatus(body.status)) {
+        res.status(400).json({
+          error: {
+            type: 'VALIDATION_ERROR',
+            field: 'status',
+            message: `statusは ${COPY_STATUSES.join(', ')} のいずれかを指定してください`,
+          },
+        });
+        return;
+      }
+
+      // 蔵書コピーIDまたはバーコードで対象を特定する
+      let copyId: CopyId;
+      if (body.bookCopyId !== undefined && body.bookCopyId !== '') {
+        copyId = body.bookCopyId as CopyId;
+      } else if (body.barcode !== undefined && body.barcode !== '') {
+        const copyResult = await bookService.getCopyByBarcode(body.barcode);
+        if (!isOk(copyResult)) {
+          res.status(getErrorStatusCode(copyResult.error)).json({ error: copyResult.error });
+          return;
+        }
+        copyId = copyResult.value.id;
+      } else {
+        res.status(400).json({
+          error: {
+            type: 'VALIDATION_ERROR',
+            field: 'bookCopyId',
+            message: '蔵書コピーIDまたはバーコードは必須です',
+          },
+        });
+        return;
+      }
+
+      const result = await bookService.updateCopyStatus(copyId, body.status);
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // GET /api/books/contributors/:personId - 寄与者別の書籍一覧
+  // ============================================
+
+  router.get('/contributors/:personId', async (req: Request, res: Response): Promise<void> => {
+    const personId = req.params.personId as PersonId;
+    const role = typeof req.query.role === 'string' ? req.query.role : undefined;
+
+    // バリデーション: roleは寄与者の役割のいずれか
+    if (role !== undefined && !isContributorRole(role)) {
+      res.status(400).json({
+        error: {
+          type: 'VALIDATION_ERROR',
+          field: 'role',
+          message: `roleは ${CONTRIBUTOR_ROLES.join(', ')} のいずれかを指定してください`,
+        },
+      });
+      return;
+    }
+
+    const result = await bookService.getBooksByContributor(personId, role);
+
+    if (isOk(result)) {
+      res.status(200).json({
+        person: result.value.person,
+        books: result.value.books.map(toBookResponse),
+      });
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
   // ============================================
   // POST /api/books - 書籍登録
   // ============================================
 
   router.post('/', async (req: Request, res: Response): Promise<void> => {
     const body = req.body as CreateBookRequestBody;
+    if (body.contributors !== undefined && !isContributorList(body.contributors)) {
+      res.status(400).json({ error: INVALID_CONTRIBUTORS_ERROR });
+      return;
+    }
+    if (body.subjectHeadingIds !== undefined && !isSubjectHeadingIdList(body.subjectHeadingIds)) {
+      res.status(400).json({ error: INVALID_SUBJECT_HEADING_IDS_ERROR });
+      return;
+    }
+
+    // 寄与者一覧を指定した場合、著者表示は省略できる
     const input: CreateBookInput = {
       title: body.title ?? '',
-      author: body.author ?? '',
+      ...(body.contributors !== undefined
+        ? {
+            contributors: body.contributors,
+            ...(body.author !== undefined && { author: body.author }),
+          }
+        : { author: body.author ?? '' }),
       publisher: body.publisher ?? '',
       publicationYear: body.publicationYear ?? null,
       isbn: body.isbn ?? '',
       category: body.category ?? null,
+      classificationId: (body.classificationId ?? null) as ClassificationId | null,
+      callNumber: body.callNumber ?? null,
+      ...(body.subjectHeadingIds !== undefined && { subjectHeadingIds: body.subjectHeadingIds }),
+      replacementCost: body.replacementCost ?? null,
     };
 
     const result = await bookService.createBook(input);
 
     if (isOk(result)) {
-      res.status(201).json(result.value);
+      res.status(201).json(toBookResponse(result.value));
     } else {
       const statusCode = getErrorStatusCode(result.error);
       res.status(statusCode).json({ error: result.error });
@@ -115,21 +337,36 @@ export function createBookController(bookService: BookService): Router {
   router.put('/:id', async (req: Request, res: Response): Promise<void> => {
     const bookId = req.params.id as BookId;
     const body = req.body as UpdateBookRequestBody;
+    if (body.contributors !== undefined && !isContributorList(body.contributors)) {
+      res.status(400).json({ error: INVALID_CONTRIBUTORS_ERROR });
+      return;
+    }
+    if (body.subjectHeadingIds !== undefined && !isSubjectHeadingIdList(body.subjectHeadingIds)) {
+      res.status(400).json({ error: INVALID_SUBJECT_HEADING_IDS_ERROR });
+      return;
+    }
 
     // 指定されたフィールドのみを更新対象に含める
     const input: UpdateBookInput = {
       ...(body.title !== undefined && { title: body.title }),
       ...(body.author !== undefined && { author: body.author }),
+      ...(body.contributors !== undefined && { contributors: body.contributors }),
       ...(body.publisher !== undefined && { publisher: body.publisher }),
       ...(body.publicationYear !== undefined && { publicationYear: body.publicationYear }),
       ...(body.isbn !== undefined && { isbn: body.isbn }),
       ...(body.category !== undefined && { category: body.category }),
+      ...(body.classificationId !== undefined && {
+        classificationId: body.classificationId as ClassificationId | null,
+      }),
+      ...(body.callNumber !== undefined && { callNumber: body.callNumber }),
+      ...(body.subjectHeadingIds !== undefined && { subjectHeadingIds: body.subjectHeadingIds }),
+      ...(body.replacementCost !== undefined && { replacementCost: body.replacementCost }),
     };
 
     const result = await bookService.updateBook(bookId, input);
 
     if (isOk(result)) {
-      res.status(200).json(result.value);
+      res.status(200).json(toBookResponse(result.value));
     } else {
       const statusCode = getErrorStatusCode(result.error);
       res.status(statusCode).json({ error: result.error });
@@ -163,7 +400,7 @@ export function createBookController(bookService: BookService): Router {
     const result = await bookService.getBookById(bookId);
 
     if (isOk(result)) {
-      res.status(200).json(result.value);
+      res.status(200).json(toBookResponse(result.value));
     } else {
       const statusCode = getErrorStatusCode(result.error);
       res.status(statusCode).json({ error: result.error });
@@ -180,6 +417,7 @@ export function createBookController(bookService: BookService): Router {
     const input: CreateCopyInput = {
       location: body.location ?? '',
       ...(body.status !== undefined && { status: body.status }),
+      ...(body.barcode !== undefined && body.barcode !== '' && { barcode: body.barcode }),
     };
 
     const result = await bookService.createBookCopy(bookId, input);
@@ -5,13 +5,16 @@
  * 具体的な実装は Infrastructure 層で行います。
  */
 
-import type { BookId, CopyId } from '../../shared/branded-types.js';
+import type { BookId, CopyId, PersonId } from '../../shared/branded-types.js';
 import type { Result } from '../../shared/result.js';
 import type {
   Book,
   CreateBookInput,
   UpdateBookInput,
   BookError,
+  ContributorInput,
+  ContributorRole,
+  Person,
   BookCopy,
   CreateCopyInput,
   BookCopyStatus,
@@ -25,10 +28,17 @@ import type {
 export interface BookRepository {
   /**
    * 新しい書籍を作成
-   * @param input - 書籍登録入力
-   * @returns 作成された書籍または重複エラー
+   *
+   * 寄与者は名前で人物に対応付ける（未登録の名前は人物を作成する）
+   * @param input - 著者表示・寄与者一覧を確定した書籍登録入力
+   * @returns 作成された書籍、重複エラー、または分類・件名標目が未登録の場合のバリデーションエラー
    */
-  create(input: CreateBookInput): Promise<Result<Book, BookError>>;
+  create(
+    input: CreateBookInput & {
+      readonly author: string;
+      readonly contributors: readonly ContributorInput[];
+    }
+  ): Promise<Result<Book, BookError>>;
 
   /**
    * IDで書籍を取得
@@ -38,14 +48,23 @@ export interface BookRepository {
   findById(id: BookId): Promise<Result<Book, BookError>>;
 
   /**
-   * ISBNで書籍を検索
+   * ISBNで書籍を検索（ISBN-10・ハイフン付きなど、いずれの形式でも検索できる）
    * @param isbn - ISBN
-   * @returns 書籍またはnull
+   * @returns 書籍またはnull（ISBNとして無効な値の場合もnull）
    */
   findByIsbn(isbn: string): Promise<Book | null>;
 
+  /**
+   * 複数のISBNで書籍を検索（ISBN-10・ハイフン付きなど、いずれの形式でも検索できる）
+   * @param isbns - ISBN一覧
+   * @returns 見つかった書籍一覧（登録されていないISBNの書籍は含まない）
+   */
+  findByIsbns(isbns: readonly string[]): Promise<Book[]>;
+
   /**
    * 書籍を更新
+   *
+   * 寄与者一覧・件名標目一覧を指定した場合は登録済みのものをすべて置き換える
    * @param id - 書籍ID
    * @param input - 更新入力
    * @returns 更新された書籍またはエラー
@@ -59,6 +78,25 @@ export interface BookRepository {
    */
   delete(id: BookId): Promise<Result<void, BookError>>;
 
+  // ============================================
+  // 寄与者関連メソッド
+  // ============================================
+
+  /**
+   * IDで人物を取得
+   * @param id - 人物ID
+   * @returns 人物またはnull
+   */
+  findPersonById(id: PersonId): Promise<Person | null>;
+
+  /**
+   * 寄与者として人物が関わった書籍一覧を取得（出版年の新しい順、同じ年はタイトル順）
+   * @param personId - 人物ID
+   * @param role - 役割（省略時はすべての役割）
+   * @returns 書籍一覧
+   */
+  findByContributor(personId: PersonId, role?: ContributorRole): Promise<Book[]>;
+
   // ============================================
   // 蔵書コピー関連メソッド
   // ============================================
@@ -69,7 +107,16 @@ export interface BookRepository {
    * @param input - 蔵書コピー登録入力
    * @returns 作成された蔵書コピーまたはエラー
    */
-  createCopy(bookId: BookId, input: CreateCopyInput): Promise<Result<BookCopy, BookError>>;
+  createCopy(
+    bookId: BookId,
+    input: CreateCopyInput & { readonly barcode: string }
+  ): Promise<Result<BookCopy, BookError>>;
+
+  /**
+   * バーコード自動採番用の次の連番を取得
+   * @returns 採番済みの連番（以後同じ値は返さない）
+   */
+  nextCopyBarcodeSequence(): Promise<number>;
 
   /**
    * IDで蔵書コピーを取得
@@ -78,6 +125,13 @@ export interface BookRepository {
    */
   findCopyById(copyId: CopyId): Promise<Result<BookCopy, BookError>>;
 
+  /**
+   * バーコードで蔵書コピーを取得
+   * @param barcode - 蔵書コピーのバーコード
+   * @returns 蔵書コピーまたはNOT_FOUNDエラー
+   */
+  findCopyByBarcode(barcode: string): Promise<Result<BookCopy, BookError>>;
+
   /**
    * 蔵書コピーを更新
    * @param copyId - 蔵書コピーID
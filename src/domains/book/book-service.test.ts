@@ -7,8 +7,21 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { BookService, createBookService } from './book-service.js';
 import type { BookRepository } from './book-repository.js';
-import type { Book, CreateBookInput, UpdateBookInput, BookCopy, CreateCopyInput } from './types.js';
-import { createBookId, createCopyId } from '../../shared/branded-types.js';
+import type {
+  Book,
+  CreateBookInput,
+  UpdateBookInput,
+  BookCopy,
+  CreateCopyInput,
+  ContributorRole,
+} from './types.js';
+import {
+  createBookId,
+  createClassificationId,
+  createCopyId,
+  createPersonId,
+  createSubjectHeadingId,
+} from '../../shared/branded-types.js';
 import { ok, err, isOk, isErr } from '../../shared/result.js';
 
 // ============================================
@@ -20,10 +33,15 @@ function createMockRepository(overrides: Partial<BookRepository> = {}): BookRepo
     create: vi.fn().mockResolvedValue(ok(createMockBook())),
     findById: vi.fn().mockResolvedValue(ok(createMockBook())),
     findByIsbn: vi.fn().mockResolvedValue(null),
+    findByIsbns: vi.fn().mockResolvedValue([]),
     update: vi.fn().mockResolvedValue(ok(createMockBook())),
     delete: vi.fn().mockResolvedValue(ok(undefined)),
+    findPersonById: vi.fn().mockResolvedValue(null),
+    findByContributor: vi.fn().mockResolvedValue([]),
     createCopy: vi.fn().mockResolvedValue(ok(createMockBookCopy())),
+    nextCopyBarcodeSequence: vi.fn().mockResolvedValue(123),
     findCopyById: vi.fn().mockResolvedValue(ok(createMockBookCopy())),
+    findCopyByBarcode: vi.fn().mockResolvedValue(err({ type: 'NOT_FOUND', id: 'unknown' })),
     updateCopy: vi.fn().mockResolvedValue(ok(createMockBookCopy())),
     findCopiesByBookId: vi.fn().mockResolvedValue(ok([])),
     ...overrides,
@@ -35,10 +53,15 @@ function createMockBook(overrides: Partial<Book> = {}): Book {
     id: createBookId('book-123'),
     title: 'テスト書籍',
     author: 'テスト著者',
+    contributors: [],
     publisher: 'テスト出版社',
     publicationYear: 2024,
     isbn: '978-4-12-345678-4',
     category: 'プログラミング',
+    classification: null,
+    callNumber: null,
+    subjectHeadings: [],
+    replacementCost: null,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
     ...overrides,
@@ -49,6 +72,7 @@ function createMockBookCopy(overrides: Partial<BookCopy> = {}): BookCopy {
   return {
     id: createCopyId('copy-123'),
     bookId: createBookId('book-123'),
+    barcode: 'LIB000001236',
     location: '1F-A-01',
     status: 'AVAILABLE',
     createdAt: new Date('2024-01-01'),
@@ -199,6 +223,211 @@ describe('BookService.createBook', () => {
         }
       }
     });
+
+    it('弁償金額が負の場合はVALIDATION_ERRORを返す', async () => {
+      const input: CreateBookInput = {
+        title: 'テスト書籍',
+        author: 'テスト著者',
+        isbn: '978-4-12-345678-4',
+        publisher: 'テスト出版社',
+        replacementCost: -100,
+      };
+
+      const result = await service.createBook(input);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('VALIDATION_ERROR');
+        if (result.error.type === 'VALIDATION_ERROR') {
+          expect(result.error.field).toBe('replacementCost');
+        }
+      }
+    });
+  });
+
+  describe('ISBNの正規化', () => {
+    it('ISBN-10・ハイフン付きのISBNは正規形のISBN-13で登録する', async () => {
+      const input: CreateBookInput = {
+        title: 'テスト書籍',
+        author: 'テスト著者',
+        isbn: '4-00-310101-4',
+        publisher: 'テスト出版社',
+      };
+
+      await service.createBook(input);
+
+      expect(mockRepository.findByIsbn).toHaveBeenCalledWith('9784003101018');
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        ...input,
+        isbn: '9784003101018',
+        contributors: [{ name: 'テスト著者', role: 'AUTHOR' }],
+      });
+    });
+  });
+
+  describe('寄与者', () => {
+    it('寄与者一覧を省略した場合は著者表示を区切って寄与者を登録する', async () => {
+      const input: CreateBookInput = {
+        title: '不思議の国のアリス',
+        author: 'ルイス・キャロル、河合祥一郎 訳',
+        isbn: '978-4-12-345678-4',
+        publisher: 'テスト出版社',
+      };
+
+      await service.createBook(input);
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          author: 'ルイス・キャロル、河合祥一郎 訳',
+          contributors: [
+            { name: 'ルイス・キャロル', role: 'AUTHOR' },
+            { name: '河合祥一郎', role: 'TRANSLATOR' },
+          ],
+        })
+      );
+    });
+
+    it('著者表示を省略した場合は寄与者一覧から著者表示を作成する', async () => {
+      const input: CreateBookInput = {
+        title: '短編集',
+        contributors: [
+          { name: ' 山田太郎 ', role: 'EDITOR' },
+          { name: '佐藤花子', role: 'AUTHOR' },
+          { name: '鈴木一郎', role: 'ILLUSTRATOR' },
+        ],
+        isbn: '978-4-12-345678-4',
+        publisher: 'テスト出版社',
+      };
+
+      await service.createBook(input);
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          author: '山田太郎 編; 佐藤花子; 鈴木一郎 絵',
+          contributors: [
+            { name: '山田太郎', role: 'EDITOR' },
+            { name: '佐藤花子', role: 'AUTHOR' },
+            { name: '鈴木一郎', role: 'ILLUSTRATOR' },
+          ],
+        })
+      );
+    });
+
+    it('寄与者一覧が空の場合はVALIDATION_ERRORを返す', async () => {
+      const result = await service.createBook({
+        title: 'テスト書籍',
+        contributors: [],
+        isbn: '978-4-12-345678-4',
+        publisher: 'テスト出版社',
+      });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+        expect(result.error.field).toBe('contributors');
+      }
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('寄与者の役割が不正な場合はVALIDATION_ERRORを返す', async () => {
+      const result = await service.createBook({
+        title: 'テスト書籍',
+        contributors: [{ name: '山田太郎', role: 'NARRATOR' as ContributorRole }],
+        isbn: '978-4-12-345678-4',
+        publisher: 'テスト出版社',
+      });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+        expect(result.error.field).toBe('contributors');
+      }
+    });
+
+    it('同じ名前・役割の寄与者が重複する場合はVALIDATION_ERRORを返す', async () => {
+      const result = await service.createBook({
+        title: 'テスト書籍',
+        contributors: [
+          { name: '山田太郎', role: 'AUTHOR' },
+          { name: '山田太郎', role: 'AUTHOR' },
+        ],
+        isbn: '978-4-12-345678-4',
+        publisher: 'テスト出版社',
+      });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('VALIDATION_ERROR');
+      }
+    });
+  });
+
+  describe('分類・件名標目', () => {
+    it('分類・件名標目を指定して登録でき、請求記号の前後の空白は除く', async () => {
+      const classificationId = createClassificationId('class-9');
+      const subjectHeadingIds = [createSubjectHeadingId('heading-1')];
+
+      await service.createBook({
+        title: 'テスト書籍',
+        author: 'テスト著者',
+        isbn: '978-4-12-345678-4',
+        publisher: 'テスト出版社',
+        classificationId,
+        callNumber: ' 913.6/テ ',
+        subjectHeadingIds,
+      });
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ classificationId, callNumber: '913.6/テ', subjectHeadingIds })
+      );
+    });
+
+    it('空の請求記号はnullとして登録する', async () => {
+      await service.createBook({
+        title: 'テスト書籍',
+        author: 'テスト著者',
+        isbn: '978-4-12-345678-4',
+        publisher: 'テスト出版社',
+        callNumber: '  ',
+      });
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ callNumber: null })
+      );
+    });
+
+    it('請求記号が50文字を超える場合はVALIDATION_ERRORを返す', async () => {
+      const result = await service.createBook({
+        title: 'テスト書籍',
+        author: 'テスト著者',
+        isbn: '978-4-12-345678-4',
+        publisher: 'テスト出版社',
+        callNumber: '9'.repeat(51),
+      });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+        expect(result.error.field).toBe('callNumber');
+      }
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('同じ件名標目が重複している場合はVALIDATION_ERRORを返す', async () => {
+      const result = await service.createBook({
+        title: 'テスト書籍',
+        author: 'テスト著者',
+        isbn: '978-4-12-345678-4',
+        publisher: 'テスト出版社',
+        subjectHeadingIds: [
+          createSubjectHeadingId('heading-1'),
+          createSubjectHeadingId('heading-1'),
+        ],
+      });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+        expect(result.error.field).toBe('subjectHeadingIds');
+      }
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('ISBN重複チェック', () => {
@@ -350,6 +579,64 @@ describe('BookService.updateBook', () => {
     }
   });
 
+  it('ISBNを更新する場合は正規形のISBN-13で更新する', async () => {
+    const bookId = createBookId('book-123');
+    mockRepository = createMockRepository({
+      findById: vi.fn().mockResolvedValue(ok(createMockBook({ id: bookId }))),
+    });
+    service = createBookService(mockRepository);
+
+    await service.updateBook(bookId, { isbn: '0-306-40615-2' });
+
+    expect(mockRepository.findByIsbn).toHaveBeenCalledWith('9780306406157');
+    expect(mockRepository.update).toHaveBeenCalledWith(bookId, { isbn: '9780306406157' });
+  });
+
+  it('寄与者一覧を更新する場合は著者表示も合わせて更新する', async () => {
+    const bookId = createBookId('book-123');
+
+    await service.updateBook(bookId, {
+      contributors: [
+        { name: 'ルイス・キャロル', role: 'AUTHOR' },
+        { name: '河合祥一郎', role: 'TRANSLATOR' },
+      ],
+    });
+
+    expect(mockRepository.update).toHaveBeenCalledWith(bookId, {
+      author: 'ルイス・キャロル; 河合祥一郎 訳',
+      contributors: [
+        { name: 'ルイス・キャロル', role: 'AUTHOR' },
+        { name: '河合祥一郎', role: 'TRANSLATOR' },
+      ],
+    });
+  });
+
+  it('著者表示だけを更新する場合は寄与者一覧も合わせて更新する', async () => {
+    const bookId = createBookId('book-123');
+
+    await service.updateBook(bookId, { author: '山田太郎、佐藤花子' });
+
+    expect(mockRepository.update).toHaveBeenCalledWith(bookId, {
+      author: '山田太郎、佐藤花子',
+      contributors: [
+        { name: '山田太郎', role: 'AUTHOR' },
+        { name: '佐藤花子', role: 'AUTHOR' },
+      ],
+    });
+  });
+
+  it('件名標目一覧・分類を指定した項目だけ更新する', async () => {
+    const bookId = createBookId('book-123');
+    const subjectHeadingIds = [createSubjectHeadingId('heading-2')];
+
+    await service.updateBook(bookId, { classificationId: null, subjectHeadingIds });
+
+    expect(mockRepository.update).toHaveBeenCalledWith(bookId, {
+      classificationId: null,
+      subjectHeadingIds,
+    });
+  });
+
   it('ISBN更新時に既存ISBNと重複する場合はDUPLICATE_ISBNエラーを返す', async () => {
     const bookId = createBookId('book-123');
     const existingBook = createMockBook({
@@ -417,6 +704,41 @@ describe('BookService.deleteBook', () => {
   });
 });
 
+// ============================================
+// getBooksByContributor テスト
+// ============================================
+
+describe('BookService.getBooksByContributor', () => {
+  const personId = createPersonId('person-1');
+  const person = { id: personId, name: '河合祥一郎', createdAt: new Date('2024-01-01') };
+
+  it('人物と寄与した書籍一覧を返す', async () => {
+    const book = createMockBook({
+      contributors: [{ personId, name: '河合祥一郎', role: 'TRANSLATOR', position: 1 }],
+    });
+    const mockRepository = createMockRepository({
+      findPersonById: vi.fn().mockResolvedValue(person),
+      findByContributor: vi.fn().mockResolvedValue([book]),
+    });
+    const service = createBookService(mockRepository);
+
+    const result = await service.getBooksByContributor(personId, 'TRANSLATOR');
+
+    expect(result).toEqual(ok({ person, books: [book] }));
+    expect(mockRepository.findByContributor).toHaveBeenCalledWith(personId, 'TRANSLATOR');
+  });
+
+  it('存在しない人物はNOT_FOUNDエラーを返す', async () => {
+    const mockRepository = createMockRepository();
+    const service = createBookService(mockRepository);
+
+    const result = await service.getBooksByContributor(personId);
+
+    expect(result).toEqual(err({ type: 'NOT_FOUND', id: 'person-1' }));
+    expect(mockRepository.findByContributor).not.toHaveBeenCalled();
+  });
+});
+
 // ============================================
 // createBookCopy テスト
 // ============================================
@@ -483,6 +805,46 @@ describe('BookService.createBookCopy', () => {
         expect(result.value.status).toBe('MAINTENANCE');
       }
     });
+
+    it('バーコード未指定の場合は接頭辞・連番・チェックディジットで自動採番する', async () => {
+      const bookId = createBookId('book-123');
+
+      await service.createBookCopy(bookId, { location: '1F-A-01' });
+
+      expect(mockRepository.nextCopyBarcodeSequence).toHaveBeenCalled();
+      expect(mockRepository.createCopy).toHaveBeenCalledWith(bookId, {
+        location: '1F-A-01',
+        barcode: 'LIB000001236',
+      });
+    });
+
+    it('設定した接頭辞と桁数で自動採番する', async () => {
+      const bookId = createBookId('book-123');
+      mockRepository = createMockRepository({
+        nextCopyBarcodeSequence: vi.fn().mockResolvedValue(7),
+      });
+      service = createBookService(mockRepository, { prefix: 'SC', sequenceDigits: 4 });
+
+      await service.createBookCopy(bookId, { location: '1F-A-01' });
+
+      expect(mockRepository.createCopy).toHaveBeenCalledWith(bookId, {
+        location: '1F-A-01',
+        barcode: 'SC00079',
+      });
+    });
+
+    it('既存のラベルのバーコードを指定した場合は採番せずに登録する', async () => {
+      const bookId = createBookId('book-123');
+
+      await service.createBookCopy(bookId, { location: '1F-A-01', barcode: ' OLD-0001 ' });
+
+      expect(mockRepository.nextCopyBarcodeSequence).not.toHaveBeenCalled();
+      expect(mockRepository.findCopyByBarcode).toHaveBeenCalledWith('OLD-0001');
+      expect(mockRepository.createCopy).toHaveBeenCalledWith(bookId, {
+        location: '1F-A-01',
+        barcode: 'OLD-0001',
+      });
+    });
   });
 
   describe('エラー系', () => {
@@ -528,6 +890,58 @@ describe('BookService.createBookCopy', () => {
         }
       }
     });
+
+    it('指定したバーコードが他の蔵書コピーで使われている場合はDUPLICATE_BARCODEエラーを返す', async () => {
+      const bookId = createBookId('book-123');
+      mockRepository = createMockRepository({
+        findCopyByBarcode: vi.fn().mockResolvedValue(ok(createMockBookCopy())),
+      });
+      service = createBookService(mockRepository);
+
+      const result = await service.createBookCopy(bookId, {
+        location: '1F-A-01',
+        barcode: 'LIB000001236',
+      });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual({ type: 'DUPLICATE_BARCODE', barcode: 'LIB000001236' });
+      }
+      expect(mockRepository.createCopy).not.toHaveBeenCalled();
+    });
+
+    it('バーコードに使用できない文字が含まれる場合はVALIDATION_ERRORを返す', async () => {
+      const bookId = createBookId('book-123');
+
+      const result = await service.createBookCopy(bookId, {
+        location: '1F-A-01',
+        barcode: 'LIB 0001',
+      });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+        expect(result.error.field).toBe('barcode');
+      }
+    });
+  });
+});
+
+// ============================================
+// getCopyByBarcode テスト
+// ============================================
+
+describe('BookService.getCopyByBarcode', () => {
+  it('前後の空白を除いたバーコードで蔵書コピーを取得する', async () => {
+    const copy = createMockBookCopy();
+    const mockRepository = createMockRepository({
+      findCopyByBarcode: vi.fn().mockResolvedValue(ok(copy)),
+    });
+    const service = createBookService(mockRepository);
+
+    const result = await service.getCopyByBarcode(' LIB000001236\n');
+
+    expect(result).toEqual(ok(copy));
+    expect(mockRepository.findCopyByBarcode).toHaveBeenCalledWith('LIB000001236');
   });
 });
 
@@ -545,42 +959,38 @@ describe('BookService.updateCopyStatus', () => {
   });
 
   describe('正常系', () => {
-    it('蔵書コピーのステータスを更新できる', async () => {
+    it('AVAILABLEからDAMAGEDに変更できる', async () => {
       const copyId = createCopyId('copy-123');
-      const updatedCopy = createMockBookCopy({
-        id: copyId,
-        status: 'BORROWED',
-      });
+      const existingCopy = createMockBookCopy({ id: copyId, status: 'AVAILABLE' });
+      const updatedCopy = createMockBookCopy({ id: copyId, status: 'DAMAGED' });
       mockRepository = createMockRepository({
-        findCopyById: vi.fn().mockResolvedValue(ok(createMockBookCopy({ id: copyId }))),
+        findCopyById: vi.fn().mockResolvedValue(ok(existingCopy)),
         updateCopy: vi.fn().mockResolvedValue(ok(updatedCopy)),
       });
       service = createBookService(mockRepository);
 
-      const result = await service.updateCopyStatus(copyId, 'BORROWED');
+      const result = await service.updateCopyStatus(copyId, 'DAMAGED');
 
       expect(isOk(result)).toBe(true);
       if (isOk(result)) {
-        expect(result.value.status).toBe('BORROWED');
+        expect(result.value.status).toBe('DAMAGED');
       }
     });
 
-    it('AVAILABLEからRESERVEDに変更できる', async () => {
+    it('MAINTENANCEからAVAILABLEに戻せる', async () => {
       const copyId = createCopyId('copy-123');
-      const existingCopy = createMockBookCopy({ id: copyId, status: 'AVAILABLE' });
-      const updatedCopy = createMockBookCopy({ id: copyId, status: 'RESERVED' });
+      const existingCopy = createMockBookCopy({ id: copyId, status: 'MAINTENANCE' });
+      const updatedCopy = createMockBookCopy({ id: copyId, status: 'AVAILABLE' });
       mockRepository = createMockRepository({
         findCopyById: vi.fn().mockResolvedValue(ok(existingCopy)),
         updateCopy: vi.fn().mockResolvedValue(ok(updatedCopy)),
       });
       service = createBookService(mockRepository);
 
-      const result = await service.updateCopyStatus(copyId, 'RESERVED');
+      const result = await service.updateCopyStatus(copyId, 'AVAILABLE');
 
       expect(isOk(result)).toBe(true);
-      if (isOk(result)) {
-        expect(result.value.status).toBe('RESERVED');
-      }
+      expect(mockRepository.updateCopy).toHaveBeenCalledWith(copyId, 'AVAILABLE');
     });
 
     it('AVAILABLEからMAINTENANCEに変更できる', async () => {
@@ -612,13 +1022,40 @@ describe('BookService.updateCopyStatus', () => {
       });
       service = createBookService(mockRepository);
 
-      const result = await service.updateCopyStatus(copyId, 'BORROWED');
+      const result = await service.updateCopyStatus(copyId, 'MAINTENANCE');
 
       expect(isErr(result)).toBe(true);
       if (isErr(result)) {
         expect(result.error.type).toBe('NOT_FOUND');
       }
     });
+
+    it.each([
+      ['AVAILABLE', 'BORROWED'],
+      ['AVAILABLE', 'RESERVED'],
+      ['BORROWED', 'AVAILABLE'],
+      ['RESERVED', 'MAINTENANCE'],
+      ['LOST', 'AVAILABLE'],
+    ] as const)(
+      '%sから%sへの変更は貸出・予約の処理を迂回するためINVALID_COPY_STATUS_TRANSITIONエラーを返す',
+      async (from, to) => {
+        const copyId = createCopyId('copy-123');
+        mockRepository = createMockRepository({
+          findCopyById: vi
+            .fn()
+            .mockResolvedValue(ok(createMockBookCopy({ id: copyId, status: from }))),
+          updateCopy: vi.fn(),
+        });
+        service = createBookService(mockRepository);
+
+        const result = await service.updateCopyStatus(copyId, to);
+
+        expect(result).toEqual(
+          err({ type: 'INVALID_COPY_STATUS_TRANSITION', copyId: 'copy-123', from, to })
+        );
+        expect(mockRepository.updateCopy).not.toHaveBeenCalled();
+      }
+    );
   });
 });
 
@@ -2,22 +2,33 @@
  * BookService - 蔵書管理サービス
  *
  * 蔵書（書籍マスタ）のCRUD操作を提供します。
+ * ISBNは正規形（ハイフンを除いたISBN-13）で保存し、ISBN-10・ハイフン付きで登録された同じ版も重複として検出します。
+ * 蔵書コピーには一意のバーコードを付与し、既存のラベルがなければ接頭辞・連番・チェックディジットで自動採番します。
+ * 寄与者（著者・編者・訳者・画家）は著者表示と常に一致させ、一方だけが指定された場合はもう一方から作成します。
+ * 分類・件名標目は登録済みのもの（分類表・統制語彙）から指定します。
  */
 
-import type { BookId, CopyId } from '../../shared/branded-types.js';
+import type { BookId, CopyId, PersonId, SubjectHeadingId } from '../../shared/branded-types.js';
 import type { Result } from '../../shared/result.js';
-import { ok, err, isErr } from '../../shared/result.js';
-import { validateISBN, validateRequired } from '../../shared/validation.js';
+import { ok, err, isErr, isOk } from '../../shared/result.js';
+import { validateRequired } from '../../shared/validation.js';
+import { normalizeISBN } from '../../shared/isbn.js';
 import type { BookRepository } from './book-repository.js';
+import { formatContributors, isContributorRole, parseContributors } from './contributors.js';
 import type {
   Book,
   CreateBookInput,
   UpdateBookInput,
   BookError,
+  ContributorBooks,
+  ContributorInput,
+  ContributorRole,
   BookCopy,
   CreateCopyInput,
   BookCopyStatus,
+  BarcodeConfig,
 } from './types.js';
+import { DEFAULT_BARCODE_CONFIG, MANUAL_COPY_STATUS_TRANSITIONS } from './types.js';
 
 // ============================================
 // サービスインターフェース
@@ -54,6 +65,17 @@ export interface BookService {
    */
   deleteBook(id: BookId): Promise<Result<void, BookError>>;
 
+  /**
+   * 寄与者として人物が関わった書籍一覧を取得
+   * @param personId - 人物ID
+   * @param role - 役割（省略時はすべての役割）
+   * @returns 人物と書籍一覧、またはNOT_FOUNDエラー
+   */
+  getBooksByContributor(
+    personId: PersonId,
+    role?: ContributorRole
+  ): Promise<Result<ContributorBooks, BookError>>;
+
   // ============================================
   // 蔵書コピー関連メソッド
   // ============================================
@@ -67,13 +89,21 @@ export interface BookService {
   createBookCopy(bookId: BookId, input: CreateCopyInput): Promise<Result<BookCopy, BookError>>;
 
   /**
-   * 蔵書コピーのステータスを更新
+   * 蔵書コピーのステータスを更新（図書館員による手動変更）
+   * MANUAL_COPY_STATUS_TRANSITIONS にない遷移は INVALID_COPY_STATUS_TRANSITION エラーとする
    * @param copyId - 蔵書コピーID
    * @param status - 新しいステータス
    * @returns 更新された蔵書コピーまたはエラー
    */
   updateCopyStatus(copyId: CopyId, status: BookCopyStatus): Promise<Result<BookCopy, BookError>>;
 
+  /**
+   * バーコードで蔵書コピーを取得
+   * @param barcode - 蔵書コピーのバーコード（前後の空白は無視する）
+   * @returns 蔵書コピーまたはNOT_FOUNDエラー
+   */
+  getCopyByBarcode(barcode: string): Promise<Result<BookCopy, BookError>>;
+
   /**
    * 書籍に紐づく蔵書コピー一覧を取得
    * @param bookId - 書籍ID
@@ -86,10 +116,137 @@ export interface BookService {
 // バリデーション関数
 // ============================================
 
+/**
+ * 弁償金額をバリデーション（未指定・nullまたは0以上の整数）
+ */
+function validateReplacementCost(
+  replacementCost: number | null | undefined
+): Result<void, BookError> {
+  if (
+    replacementCost !== undefined &&
+    replacementCost !== null &&
+    (!Number.isInteger(replacementCost) || replacementCost < 0)
+  ) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'replacementCost',
+      message: 'replacementCostは0以上の整数である必要があります',
+    });
+  }
+  return ok(undefined);
+}
+
+/** 請求記号の最大長 */
+const MAX_CALL_NUMBER_LENGTH = 50;
+
+/**
+ * 請求記号・件名標目一覧をバリデーション
+ * @returns 前後の空白を除いた請求記号（空の場合はnull）、またはバリデーションエラー
+ */
+function validateClassificationFields(input: {
+  readonly callNumber?: string | null;
+  readonly subjectHeadingIds?: readonly SubjectHeadingId[];
+}): Result<{ callNumber?: string | null }, BookError> {
+  let callNumber: string | null | undefined = input.callNumber;
+  if (callNumber !== undefined && callNumber !== null) {
+    callNumber = callNumber.trim() === '' ? null : callNumber.trim();
+    if (callNumber !== null && callNumber.length > MAX_CALL_NUMBER_LENGTH) {
+      return err({
+        type: 'VALIDATION_ERROR',
+        field: 'callNumber',
+        message: `callNumberは${String(MAX_CALL_NUMBER_LENGTH)}文字以内で指定してください`,
+      });
+    }
+  }
+
+  if (
+    input.subjectHeadingIds !== undefined &&
+    new Set(input.subjectHeadingIds).size !== input.subjectHeadingIds.length
+  ) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'subjectHeadingIds',
+      message: 'subjectHeadingIdsに同じ件名標目が重複しています',
+    });
+  }
+
+  return ok(callNumber !== undefined ? { callNumber } : {});
+}
+
+/**
+ * 寄与者一覧をバリデーション
+ * @returns 名前の前後の空白を除いた寄与者一覧、またはバリデーションエラー
+ */
+function validateContributors(
+  contributors: readonly ContributorInput[]
+): Result<ContributorInput[], BookError> {
+  if (contributors.length === 0) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'contributors',
+      message: 'contributorsには1人以上の寄与者を指定してください',
+    });
+  }
+
+  const validated: ContributorInput[] = [];
+  for (const [index, contributor] of contributors.entries()) {
+    const name = contributor.name.trim();
+    if (name === '') {
+      return err({
+        type: 'VALIDATION_ERROR',
+        field: 'contributors',
+        message: `contributors[${String(index)}]の名前を指定してください`,
+      });
+    }
+    if (!isContributorRole(contributor.role)) {
+      return err({
+        type: 'VALIDATION_ERROR',
+        field: 'contributors',
+        message: `contributors[${String(index)}]の役割はAUTHOR, EDITOR, TRANSLATOR, ILLUSTRATORのいずれかを指定してください`,
+      });
+    }
+    if (validated.some((c) => c.name === name && c.role === contributor.role)) {
+      return err({
+        type: 'VALIDATION_ERROR',
+        field: 'contributors',
+        message: `contributors[${String(index)}]は同じ名前・役割の寄与者と重複しています`,
+      });
+    }
+    validated.push({ name, role: contributor.role });
+  }
+  return ok(validated);
+}
+
+/**
+ * 寄与者一覧と著者表示を確定（著者表示が空なら寄与者一覧から作成）
+ */
+function resolveContributors(
+  author: string | undefined,
+  contributors: readonly ContributorInput[]
+): Result<{ author: string; contributors: ContributorInput[] }, BookError> {
+  const contributorsResult = validateContributors(contributors);
+  if (isErr(contributorsResult)) {
+    return contributorsResult;
+  }
+  return ok({
+    author:
+      author !== undefined && author.trim() !== ''
+        ? author
+        : formatContributors(contributorsResult.value),
+    contributors: contributorsResult.value,
+  });
+}
+
 /**
  * 書籍登録入力をバリデーション
+ * @returns ISBNを正規形に変換し、著者表示・寄与者一覧を確定した書籍登録入力、またはバリデーションエラー
  */
-function validateCreateBookInput(input: CreateBookInput): Result<CreateBookInput, BookError> {
+function validateCreateBookInput(
+  input: CreateBookInput
+): Result<
+  CreateBookInput & { readonly author: string; readonly contributors: ContributorInput[] },
+  BookError
+> {
   // タイトル必須チェック
   const titleResult = validateRequired(input.title, 'title');
   if (isErr(titleResult)) {
@@ -100,14 +257,26 @@ function validateCreateBookInput(input: CreateBookInput): Result<CreateBookInput
     });
   }
 
-  // 著者必須チェック
-  const authorResult = validateRequired(input.author, 'author');
-  if (isErr(authorResult)) {
-    return err({
-      type: 'VALIDATION_ERROR',
-      field: 'author',
-      message: authorResult.error.message,
-    });
+  // 寄与者一覧の指定がなければ著者必須チェック（著者表示を区切って寄与者一覧を作成）
+  let author: string;
+  let contributors: ContributorInput[];
+  if (input.contributors !== undefined) {
+    const resolved = resolveContributors(input.author, input.contributors);
+    if (isErr(resolved)) {
+      return resolved;
+    }
+    ({ author, contributors } = resolved.value);
+  } else {
+    const authorResult = validateRequired(input.author, 'author');
+    if (isErr(authorResult)) {
+      return err({
+        type: 'VALIDATION_ERROR',
+        field: 'author',
+        message: authorResult.error.message,
+      });
+    }
+    author = authorResult.value;
+    contributors = parseContributors(author);
   }
 
   // ISBN必須チェック
@@ -120,8 +289,8 @@ function validateCreateBookInput(input: CreateBookInput): Result<CreateBookInput
     });
   }
 
-  // ISBN形式チェック
-  const isbnResult = validateISBN(input.isbn);
+  // ISBN形式チェック（正規形に変換）
+  const isbnResult = normalizeISBN(input.isbn);
   if (isErr(isbnResult)) {
     return err({
       type: 'VALIDATION_ERROR',
@@ -140,11 +309,30 @@ function validateCreateBookInput(input: CreateBookInput): Result<CreateBookInput
     });
   }
 
-  return ok(input);
+  // 弁償金額が指定されている場合は0以上の整数であること
+  const replacementCostResult = validateReplacementCost(input.replacementCost);
+  if (isErr(replacementCostResult)) {
+    return replacementCostResult;
+  }
+
+  // 請求記号・件名標目一覧の形式チェック
+  const classificationResult = validateClassificationFields(input);
+  if (isErr(classificationResult)) {
+    return classificationResult;
+  }
+
+  return ok({
+    ...input,
+    ...classificationResult.value,
+    author,
+    contributors,
+    isbn: isbnResult.value,
+  });
 }
 
 /**
  * 書籍更新入力をバリデーション
+ * @returns ISBNを正規形に変換した書籍更新入力、またはバリデーションエラー
  */
 function validateUpdateBookInput(input: UpdateBookInput): Result<UpdateBookInput, BookError> {
   // タイトルが指定されていて空の場合はエラー
@@ -156,8 +344,12 @@ function validateUpdateBookInput(input: UpdateBookInput): Result<UpdateBookInput
     });
   }
 
-  // 著者が指定されていて空の場合はエラー
-  if (input.author !== undefined && input.author.trim() === '') {
+  // 著者が指定されていて空の場合はエラー（寄与者一覧を指定した場合は寄与者一覧から作成する）
+  if (
+    input.contributors === undefined &&
+    input.author !== undefined &&
+    input.author.trim() === ''
+  ) {
     return err({
       type: 'VALIDATION_ERROR',
       field: 'author',
@@ -165,6 +357,18 @@ function validateUpdateBookInput(input: UpdateBookInput): Result<UpdateBookInput
     });
   }
 
+  // 著者表示・寄与者一覧の一方だけが指定された場合はもう一方も合わせて更新する
+  let contributorFields: { author: string; contributors: ContributorInput[] } | undefined;
+  if (input.contributors !== undefined) {
+    const resolved = resolveContributors(input.author, input.contributors);
+    if (isErr(resolved)) {
+      return resolved;
+    }
+    contributorFields = resolved.value;
+  } else if (input.author !== undefined) {
+    contributorFields = { author: input.author, contributors: parseContributors(input.author) };
+  }
+
   // ISBNが指定されていて空の場合はエラー
   if (input.isbn !== undefined && input.isbn.trim() === '') {
     return err({
@@ -174,9 +378,10 @@ function validateUpdateBookInput(input: UpdateBookInput): Result<UpdateBookInput
     });
   }
 
-  // ISBNが指定されている場合は形式チェック
-  if (input.isbn !== undefined && input.isbn.trim() !== '') {
-    const isbnResult = validateISBN(input.isbn);
+  // ISBNが指定されている場合は形式チェック（正規形に変換）
+  let isbn: string | undefined;
+  if (input.isbn !== undefined) {
+    const isbnResult = normalizeISBN(input.isbn);
     if (isErr(isbnResult)) {
       return err({
         type: 'VALIDATION_ERROR',
@@ -184,9 +389,27 @@ function validateUpdateBookInput(input: UpdateBookInput): Result<UpdateBookInput
         message: isbnResult.error.message,
       });
     }
+    isbn = isbnResult.value;
   }
 
-  return ok(input);
+  // 弁償金額が指定されている場合は0以上の整数であること
+  const replacementCostResult = validateReplacementCost(input.replacementCost);
+  if (isErr(replacementCostResult)) {
+    return replacementCostResult;
+  }
+
+  // 請求記号・件名標目一覧の形式チェック
+  const classificationResult = validateClassificationFields(input);
+  if (isErr(classificationResult)) {
+    return classificationResult;
+  }
+
+  return ok({
+    ...input,
+    ...contributorFields,
+    ...classificationResult.value,
+    ...(isbn !== undefined && { isbn }),
+  });
 }
 
 /**
@@ -203,9 +426,52 @@ function validateCreateCopyInput(input: CreateCopyInput): Result<CreateCopyInput
     });
   }
 
+  // 既存のラベルのバーコードが指定されている場合は形式チェック
+  if (input.barcode !== undefined) {
+    const barcode = input.barcode.trim();
+    if (barcode.length > MAX_BARCODE_LENGTH || !BARCODE_PATTERN.test(barcode)) {
+      return err({
+        type: 'VALIDATION_ERROR',
+        field: 'barcode',
+        message: `barcodeは${String(MAX_BARCODE_LENGTH)}文字以内の英数字とハイフンで指定してください`,
+      });
+    }
+  }
+
   return ok(input);
 }
 
+// ============================================
+// バーコード
+// ============================================
+
+/** バーコードに使用できる文字（英数字とハイフン） */
+const BARCODE_PATTERN = /^[A-Za-z0-9-]+$/;
+
+/** バーコードの最大長 */
+const MAX_BARCODE_LENGTH = 64;
+
+/**
+ * 数字列のチェックディジットを計算（GS1 モジュラス10）
+ * 右端の桁から順に重み3, 1を交互に掛けて合計し、10の倍数に足りない値をチェックディジットとする
+ */
+function calculateCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const weight = (digits.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * 連番からバーコードを生成（接頭辞 + 0埋めした連番 + チェックディジット）
+ */
+function generateBarcode(config: BarcodeConfig, sequence: number): string {
+  const digits = String(sequence).padStart(config.sequenceDigits, '0');
+  return `${config.prefix}${digits}${String(calculateCheckDigit(digits))}`;
+}
+
 // ============================================
 // サービス実装
 // ============================================
@@ -213,9 +479,13 @@ function validateCreateCopyInput(input: CreateCopyInput): Result<CreateCopyInput
 /**
  * BookServiceを作成
  * @param repository - 書籍リポジトリ
+ * @param barcodeConfig - バーコード自動採番設定
  * @returns BookService
  */
-export function createBookService(repository: BookRepository): BookService {
+export function createBookService(
+  repository: BookRepository,
+  barcodeConfig: BarcodeConfig = DEFAULT_BARCODE_CONFIG
+): BookService {
   return {
     async createBook(input: CreateBookInput): Promise<Result<Book, BookError>> {
       // 入力バリデーション
@@ -224,8 +494,8 @@ export function createBookService(repository: BookRepository): BookService {
         return validationResult;
       }
 
-      // ISBN重複チェック
-      const existingBook = await repository.findByIsbn(input.isbn);
+      // ISBN重複チェック（ISBN-10・ハイフン付きで登録済みの同じ版も正規形で検出する）
+      const existingBook = await repository.findByIsbn(validationResult.value.isbn);
       if (existingBook !== null) {
         return err({
           type: 'DUPLICATE_ISBN',
@@ -234,7 +504,7 @@ export function createBookService(repository: BookRepository): BookService {
       }
 
       // 書籍作成
-      return repository.create(input);
+      return repository.create(validationResult.value);
     },
 
     async getBookById(id: BookId): Promise<Result<Book, BookError>> {
@@ -255,18 +525,19 @@ export function createBookService(repository: BookRepository): BookService {
       }
 
       // ISBN更新時の重複チェック
-      if (input.isbn !== undefined && input.isbn !== existingResult.value.isbn) {
-        const duplicateBook = await repository.findByIsbn(input.isbn);
+      const { isbn } = validationResult.value;
+      if (isbn !== undefined && isbn !== existingResult.value.isbn) {
+        const duplicateBook = await repository.findByIsbn(isbn);
         if (duplicateBook !== null && duplicateBook.id !== id) {
           return err({
             type: 'DUPLICATE_ISBN',
-            isbn: input.isbn,
+            isbn: input.isbn ?? isbn,
           });
         }
       }
 
       // 書籍更新
-      return repository.update(id, input);
+      return repository.update(id, validationResult.value);
     },
 
     async deleteBook(id: BookId): Promise<Result<void, BookError>> {
@@ -280,6 +551,20 @@ export function createBookService(repository: BookRepository): BookService {
       return repository.delete(id);
     },
 
+    async getBooksByContributor(
+      personId: PersonId,
+      role?: ContributorRole
+    ): Promise<Result<ContributorBooks, BookError>> {
+      // 人物存在チェック
+      const person = await repository.findPersonById(personId);
+      if (person === null) {
+        return err({ type: 'NOT_FOUND', id: personId });
+      }
+
+      const books = await repository.findByContributor(personId, role);
+      return ok({ person, books });
+    },
+
     // ============================================
     // 蔵書コピー関連メソッド
     // ============================================
@@ -300,8 +585,20 @@ export function createBookService(repository: BookRepository): BookService {
         return validationResult;
       }
 
+      // バーコードの決定（既存のラベルは重複チェック、未指定なら自動採番）
+      let barcode: string;
+      if (input.barcode !== undefined) {
+        barcode = input.barcode.trim();
+        const existingCopy = await repository.findCopyByBarcode(barcode);
+        if (isOk(existingCopy)) {
+          return err({ type: 'DUPLICATE_BARCODE', barcode });
+        }
+      } else {
+        barcode = generateBarcode(barcodeConfig, await repository.nextCopyBarcodeSequence());
+      }
+
       // 蔵書コピー作成
-      return repository.createCopy(bookId, input);
+      return repository.createCopy(bookId, { ...input, barcode });
     },
 
     async updateCopyStatus(
@@ -314,10 +611,21 @@ export function createBookService(repository: BookRepository): BookService {
         return copyResult;
       }
 
+      // 貸出・予約の状態遷移を迂回する変更は受け付けない
+      const from = copyResult.value.status;
+      const allowed = MANUAL_COPY_STATUS_TRANSITIONS[from] ?? [];
+      if (!allowed.includes(status)) {
+        return err({ type: 'INVALID_COPY_STATUS_TRANSITION', copyId, from, to: status });
+      }
+
       // ステータス更新
       return repository.updateCopy(copyId, status);
     },
 
+    async getCopyByBarcode(barcode: string): Promise<Result<BookCopy, BookError>> {
+      return repository.findCopyByBarcode(barcode.trim());
+    },
+
     async getCopiesByBookId(bookId: BookId): Promise<Result<BookCopy[], BookError>> {
       // 書籍存在チェック
       const bookResult = await repository.findById(bookId);
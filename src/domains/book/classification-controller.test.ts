@@ -0,0 +1,236 @@
+/**
+ * ClassificationController テスト
+ *
+ * 分類・件名標目REST APIのテストを記述します。
+ *
+ * エンドポイント:
+ * - GET /api/books/classifications - 分類表の閲覧
+ * - GET /api/books/classifications/:id - 分類の詳細
+ * - POST /api/books/classifications - 分類登録（図書館員のみ）
+ * - GET /api/books/subject-headings - 件名標目の検索
+ * - POST /api/books/subject-headings - 件名標目登録（図書館員のみ）
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { type Express } from 'express';
+import request from 'supertest';
+import { createClassificationController } from './classification-controller.js';
+import type { ClassificationService } from './classification-service.js';
+import type { Classification } from './types.js';
+import {
+  createClassificationId,
+  createSubjectHeadingId,
+  createUserId,
+} from '../../shared/branded-types.js';
+import { ok, err } from '../../shared/result.js';
+import type { AuthenticatedRequest } from '../auth/rbac.js';
+import type { UserRole } from '../auth/types.js';
+
+// ============================================
+// モックファクトリ
+// ============================================
+
+function createMockClassificationService(): ClassificationService {
+  return {
+    createClassification: vi.fn(),
+    getClassificationChildren: vi.fn(),
+    getClassification: vi.fn(),
+    createSubjectHeading: vi.fn(),
+    searchSubjectHeadings: vi.fn(),
+  };
+}
+
+// ============================================
+// テストデータ
+// ============================================
+
+const testClassification: Classification = {
+  id: createClassificationId('class-9'),
+  scheme: 'NDC',
+  number: '9',
+  label: '文学',
+  parentId: null,
+  level: 1,
+  createdAt: new Date('2024-01-01'),
+};
+
+// ============================================
+// テストセットアップ
+// ============================================
+
+function createTestApp(classificationService: ClassificationService, role?: UserRole): Express {
+  const app = express();
+  app.use(express.json());
+  if (role !== undefined) {
+    app.use((req: AuthenticatedRequest, _res, next) => {
+      req.session = {
+        userId: createUserId('staff-001'),
+        role,
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      };
+      next();
+    });
+  }
+  app.use('/api/books', createClassificationController(classificationService));
+  return app;
+}
+
+// ============================================
+// テスト
+// ============================================
+
+describe('ClassificationController', () => {
+  let mockService: ClassificationService;
+
+  beforeEach(() => {
+    mockService = createMockClassificationService();
+  });
+
+  describe('GET /api/books/classifications', () => {
+    it('分類表を省略するとNDCの最上位の分類一覧を返す', async () => {
+      vi.mocked(mockService.getClassificationChildren).mockResolvedValue(ok([testClassification]));
+
+      const response = await request(createTestApp(mockService)).get('/api/books/classifications');
+
+      expect(response.status).toBe(200);
+      expect(response.body.items).toHaveLength(1);
+      expect(mockService.getClassificationChildren).toHaveBeenCalledWith('NDC', undefined);
+    });
+
+    it('上位の分類を指定して直下の分類一覧を返す', async () => {
+      vi.mocked(mockService.getClassificationChildren).mockResolvedValue(ok([]));
+
+      await request(createTestApp(mockService))
+        .get('/api/books/classifications')
+        .query({ scheme: 'DDC', parentId: 'class-800' });
+
+      expect(mockService.getClassificationChildren).toHaveBeenCalledWith('DDC', 'class-800');
+    });
+
+    it('分類表がNDC・DDC以外の場合は400を返す', async () => {
+      const response = await request(createTestApp(mockService))
+        .get('/api/books/classifications')
+        .query({ scheme: 'UDC' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('scheme');
+      expect(mockService.getClassificationChildren).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/books/classifications/:id', () => {
+    it('分類を上位・直下の分類とともに返す', async () => {
+      vi.mocked(mockService.getClassification).mockResolvedValue(
+        ok({ classification: testClassification, ancestors: [], children: [] })
+      );
+
+      const response = await request(createTestApp(mockService)).get(
+        '/api/books/classifications/class-9'
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.classification.number).toBe('9');
+    });
+
+    it('存在しない分類は404を返す', async () => {
+      vi.mocked(mockService.getClassification).mockResolvedValue(
+        err({ type: 'NOT_FOUND', id: 'unknown' })
+      );
+
+      const response = await request(createTestApp(mockService)).get(
+        '/api/books/classifications/unknown'
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/books/classifications', () => {
+    it('図書館員は分類を登録できる', async () => {
+      vi.mocked(mockService.createClassification).mockResolvedValue(ok(testClassification));
+
+      const response = await request(createTestApp(mockService, 'librarian'))
+        .post('/api/books/classifications')
+        .send({ scheme: 'NDC', number: '91', label: '日本文学', parentId: 'class-9' });
+
+      expect(response.status).toBe(201);
+      expect(mockService.createClassification).toHaveBeenCalledWith({
+        scheme: 'NDC',
+        number: '91',
+        label: '日本文学',
+        parentId: 'class-9',
+      });
+    });
+
+    it('同じ分類表に同じ分類記号がある場合は409を返す', async () => {
+      vi.mocked(mockService.createClassification).mockResolvedValue(
+        err({ type: 'DUPLICATE_CLASSIFICATION', scheme: 'NDC', number: '9' })
+      );
+
+      const response = await request(createTestApp(mockService, 'librarian'))
+        .post('/api/books/classifications')
+        .send({ scheme: 'NDC', number: '9', label: '文学' });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('利用者は分類を登録できない', async () => {
+      const response = await request(createTestApp(mockService, 'patron'))
+        .post('/api/books/classifications')
+        .send({ scheme: 'NDC', number: '9', label: '文学' });
+
+      expect(response.status).toBe(403);
+      expect(mockService.createClassification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/books/subject-headings', () => {
+    it('検索語で件名標目を検索する', async () => {
+      vi.mocked(mockService.searchSubjectHeadings).mockResolvedValue(ok([]));
+
+      const response = await request(createTestApp(mockService))
+        .get('/api/books/subject-headings')
+        .query({ q: 'fiction' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.items).toEqual([]);
+      expect(mockService.searchSubjectHeadings).toHaveBeenCalledWith('fiction');
+    });
+  });
+
+  describe('POST /api/books/subject-headings', () => {
+    it('図書館員は件名標目を登録できる', async () => {
+      vi.mocked(mockService.createSubjectHeading).mockResolvedValue(
+        ok({
+          id: createSubjectHeadingId('heading-1'),
+          label: '小説',
+          alternateLabels: ['fiction'],
+          classificationId: testClassification.id,
+          createdAt: new Date('2024-01-01'),
+        })
+      );
+
+      const response = await request(createTestApp(mockService, 'librarian'))
+        .post('/api/books/subject-headings')
+        .send({ label: '小説', alternateLabels: ['fiction'], classificationId: 'class-9' });
+
+      expect(response.status).toBe(201);
+      expect(mockService.createSubjectHeading).toHaveBeenCalledWith({
+        label: '小説',
+        alternateLabels: ['fiction'],
+        classificationId: 'class-9',
+      });
+    });
+
+    it('同義語が文字列の配列でない場合は400を返す', async () => {
+      const response = await request(createTestApp(mockService, 'librarian'))
+        .post('/api/books/subject-headings')
+        .send({ label: '小説', alternateLabels: 'fiction' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('alternateLabels');
+      expect(mockService.createSubjectHeading).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * ClassificationController - 分類・件名標目REST APIコントローラー
+ *
+ * 分類表（NDC・DDC）の閲覧と、件名標目（統制語彙）の検索・登録のREST APIエンドポイントを提供します。
+ * 登録は図書館員のみ行えます。
+ *
+ * エンドポイント:
+ * - GET /api/books/classifications - 分類表の閲覧（scheme で分類表、parentId で上位の分類を指定。省略時は最上位の分類）
+ * - GET /api/books/classifications/:id - 分類の詳細（上位の分類と直下の分類を含む）
+ * - POST /api/books/classifications - 分類登録（図書館員のみ）
+ * - GET /api/books/subject-headings - 件名標目の検索（q で優先語・同義語を部分一致検索）
+ * - POST /api/books/subject-headings - 件名標目登録（図書館員のみ）
+ */
+
+import { Router, type Request, type Response } from 'express';
+import type { ClassificationId } from '../../shared/branded-types.js';
+import { isOk } from '../../shared/result.js';
+import { requireLibrarian } from '../auth/rbac.js';
+import type { ClassificationService } from './classification-service.js';
+import { CLASSIFICATION_SCHEMES, isClassificationScheme } from './classification-service.js';
+import type { BookError } from './types.js';
+
+// ============================================
+// リクエストボディ型定義
+// ============================================
+
+/** 分類登録リクエストボディ */
+interface CreateClassificationRequestBody {
+  scheme?: string;
+  number?: string;
+  label?: string;
+  parentId?: string | null;
+}
+
+/** 件名標目登録リクエストボディ */
+interface CreateSubjectHeadingRequestBody {
+  label?: string;
+  alternateLabels?: unknown;
+  classificationId?: string | null;
+}
+
+// ============================================
+// HTTPステータスコード決定
+// ============================================
+
+/**
+ * BookErrorに基づいてHTTPステータスコードを決定
+ */
+function getErrorStatusCode(error: BookError): number {
+  switch (error.type) {
+    case 'VALIDATION_ERROR':
+      return 400;
+    case 'NOT_FOUND':
+      return 404;
+    case 'DUPLICATE_ISBN':
+    case 'DUPLICATE_BARCODE':
+    case 'DUPLICATE_CLASSIFICATION':
+    case 'DUPLICATE_SUBJECT_HEADING':
+    case 'INVALID_COPY_STATUS_TRANSITION':
+      return 409;
+  }
+}
+
+/** 分類表の指定エラー */
+const INVALID_SCHEME_ERROR: BookError = {
+  type: 'VALIDATION_ERROR',
+  field: 'scheme',
+  message: `schemeは ${CLASSIFICATION_SCHEMES.join(', ')} のいずれかを指定してください`,
+};
+
+// ============================================
+// コントローラーファクトリ
+// ============================================
+
+/**
+ * ClassificationControllerを作成
+ * @param classificationService - ClassificationServiceインスタンス
+ * @returns Expressルーター
+ */
+export function createClassificationController(
+  classificationService: ClassificationService
+): Router {
+  const router = Router();
+
+  // ============================================
+  // GET /api/books/classifications - 分類表の閲覧
+  // ============================================
+
+  router.get('/classifications', async (req: Request, res: Response): Promise<void> => {
+    const scheme = typeof req.query.scheme === 'string' ? req.query.scheme : 'NDC';
+    const parentId = typeof req.query.parentId === 'string' ? req.query.parentId : undefined;
+
+    // バリデーション: schemeは分類表のいずれか
+    if (!isClassificationScheme(scheme)) {
+      res.status(400).json({ error: INVALID_SCHEME_ERROR });
+      return;
+    }
+
+    const result = await classificationService.getClassificationChildren(
+      scheme,
+      parentId !== undefined && parentId !== '' ? (parentId as ClassificationId) : undefined
+    );
+
+    if (isOk(result)) {
+      res.status(200).json({ items: result.value });
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // GET /api/books/classifications/:id - 分類の詳細
+  // ============================================
+
+  router.get('/classifications/:id', async (req: Request, res: Response): Promise<void> => {
+    const result = await classificationService.getClassification(req.params.id as ClassificationId);
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // POST /api/books/classifications - 分類登録
+  // ============================================
+
+  router.post(
+    '/classifications',
+    requireLibrarian,
+    async (req: Request, res: Response): Promise<void> => {
+      const body = (req.body ?? {}) as CreateClassificationRequestBody;
+
+      // バリデーション: schemeは分類表のいずれか
+      if (body.scheme === undefined || !isClassificationScheme(body.scheme)) {
+        res.status(400).json({ error: INVALID_SCHEME_ERROR });
+        return;
+      }
+
+      const result = await classificationService.createClassification({
+        scheme: body.scheme,
+        number: body.number ?? '',
+        label: body.label ?? '',
+        parentId:
+          body.parentId !== undefined && body.parentId !== null && body.parentId !== ''
+            ? (body.parentId as ClassificationId)
+            : null,
+      });
+
+      if (isOk(result)) {
+        res.status(201).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // GET /api/books/subject-headings - 件名標目の検索
+  // ============================================
+
+  router.get('/subject-headings', async (req: Request, res: Response): Promise<void> => {
+    const query = typeof req.query.q === 'string' ? req.query.q : undefined;
+    const result = await classificationService.searchSubjectHeadings(query);
+
+    if (isOk(result)) {
+      res.status(200).json({ items: result.value });
+    }
+    // ClassificationService.searchSubjectHeadings は never エラーを返すため、else ブランチは到達不可能
+  });
+
+  // ============================================
+  // POST /api/books/subject-headings - 件名標目登録
+  // ============================================
+
+  router.post(
+    '/subject-headings',
+    requireLibrarian,
+    async (req: Request, res: Response): Promise<void> => {
+      const body = (req.body ?? {}) as CreateSubjectHeadingRequestBody;
+
+      // バリデーション: alternateLabelsは文字列の配列
+      if (
+        body.alternateLabels !== undefined &&
+        (!Array.isArray(body.alternateLabels) ||
+          !body.alternateLabels.every((label: unknown) => typeof label === 'string'))
+      ) {
+        res.status(400).json({
+          error: {
+            type: 'VALIDATION_ERROR',
+            field: 'alternateLabels',
+            message: 'alternateLabelsは文字列の配列で指定してください',
+          },
+        });
+        return;
+      }
+
+      const result = await classificationService.createSubjectHeading({
+        label: body.label ?? '',
+        ...(body.alternateLabels !== undefined && {
+          alternateLabels: body.alternateLabels,
+        }),
+        classificationId:
+          body.classificationId !== undefined &&
+          body.classificationId !== null &&
+          body.classificationId !== ''
+            ? (body.classificationId as ClassificationId)
+            : null,
+      });
+
+      if (isOk(result)) {
+        res.status(201).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  return router;
+}
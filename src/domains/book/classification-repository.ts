@@ -0,0 +1,82 @@
+/**
+ * Classification Repository Interface
+ *
+ * 分類表（NDC・DDC）と件名標目の永続化を担当するリポジトリのインターフェース定義。
+ * 具体的な実装は Infrastructure 層で行います。
+ */
+
+import type { ClassificationId } from '../../shared/branded-types.js';
+import type { Result } from '../../shared/result.js';
+import type {
+  BookError,
+  Classification,
+  ClassificationScheme,
+  CreateClassificationInput,
+  CreateSubjectHeadingInput,
+  SubjectHeading,
+} from './types.js';
+
+// ============================================
+// リポジトリインターフェース
+// ============================================
+
+/** 分類・件名標目リポジトリ */
+export interface ClassificationRepository {
+  // ============================================
+  // 分類関連メソッド
+  // ============================================
+
+  /**
+   * 新しい分類を作成
+   * @param input - 階層の深さを確定した分類登録入力
+   * @returns 作成された分類または重複エラー（同じ分類表に同じ分類記号がある場合）
+   */
+  createClassification(
+    input: CreateClassificationInput & { readonly level: number }
+  ): Promise<Result<Classification, BookError>>;
+
+  /**
+   * IDで分類を取得
+   * @param id - 分類ID
+   * @returns 分類またはnull
+   */
+  findClassificationById(id: ClassificationId): Promise<Classification | null>;
+
+  /**
+   * 直下の分類一覧を取得（分類記号順）
+   * @param scheme - 分類表
+   * @param parentId - 上位の分類ID（nullの場合は最上位の分類）
+   * @returns 分類一覧
+   */
+  findClassificationChildren(
+    scheme: ClassificationScheme,
+    parentId: ClassificationId | null
+  ): Promise<Classification[]>;
+
+  /**
+   * 上位の分類一覧を取得
+   * @param id - 分類ID
+   * @returns 上位の分類一覧（最上位から順に並べ、自身は含まない）
+   */
+  findClassificationAncestors(id: ClassificationId): Promise<Classification[]>;
+
+  // ============================================
+  // 件名標目関連メソッド
+  // ============================================
+
+  /**
+   * 新しい件名標目を作成
+   * @param input - 同義語を確定した件名標目登録入力
+   * @returns 作成された件名標目または重複エラー（同じ優先語がある場合）
+   */
+  createSubjectHeading(
+    input: CreateSubjectHeadingInput & { readonly alternateLabels: readonly string[] }
+  ): Promise<Result<SubjectHeading, BookError>>;
+
+  /**
+   * 件名標目を検索（優先語・同義語の部分一致、大文字小文字を区別しない）
+   * @param query - 検索語（空文字の場合はすべての件名標目）
+   * @returns 件名標目一覧（優先語順）
+   */
+  searchSubjectHeadings(query: string): Promise<SubjectHeading[]>;
+}
@@ -0,0 +1,310 @@
+/**
+ * ClassificationService Unit Tests
+ *
+ * 分類表（NDC・DDC）の閲覧・登録と件名標目の検索・登録のテスト
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  type ClassificationService,
+  createClassificationService,
+} from './classification-service.js';
+import type { ClassificationRepository } from './classification-repository.js';
+import type { Classification, ClassificationScheme, SubjectHeading } from './types.js';
+import { createClassificationId, createSubjectHeadingId } from '../../shared/branded-types.js';
+import { ok, isOk, isErr } from '../../shared/result.js';
+
+// ============================================
+// モックリポジトリ作成ヘルパー
+// ============================================
+
+function createMockRepository(
+  overrides: Partial<ClassificationRepository> = {}
+): ClassificationRepository {
+  return {
+    createClassification: vi.fn().mockResolvedValue(ok(createMockClassification())),
+    findClassificationById: vi.fn().mockResolvedValue(null),
+    findClassificationChildren: vi.fn().mockResolvedValue([]),
+    findClassificationAncestors: vi.fn().mockResolvedValue([]),
+    createSubjectHeading: vi.fn().mockResolvedValue(ok(createMockSubjectHeading())),
+    searchSubjectHeadings: vi.fn().mockResolvedValue([]),
+    ...overrides,
+  };
+}
+
+function createMockClassification(overrides: Partial<Classification> = {}): Classification {
+  return {
+    id: createClassificationId('class-9'),
+    scheme: 'NDC',
+    number: '9',
+    label: '文学',
+    parentId: null,
+    level: 1,
+    createdAt: new Date('2024-01-01'),
+    ...overrides,
+  };
+}
+
+function createMockSubjectHeading(overrides: Partial<SubjectHeading> = {}): SubjectHeading {
+  return {
+    id: createSubjectHeadingId('heading-1'),
+    label: '小説',
+    alternateLabels: ['fiction'],
+    classificationId: createClassificationId('class-9'),
+    createdAt: new Date('2024-01-01'),
+    ...overrides,
+  };
+}
+
+// ============================================
+// createClassification テスト
+// ============================================
+
+describe('ClassificationService.createClassification', () => {
+  let service: ClassificationService;
+  let mockRepository: ClassificationRepository;
+
+  beforeEach(() => {
+    mockRepository = createMockRepository();
+    service = createClassificationService(mockRepository);
+  });
+
+  it('上位の分類を省略すると最上位（階層1）の分類として登録する', async () => {
+    const result = await service.createClassification({
+      scheme: 'NDC',
+      number: ' 9 ',
+      label: '文学',
+    });
+
+    expect(isOk(result)).toBe(true);
+    expect(mockRepository.createClassification).toHaveBeenCalledWith({
+      scheme: 'NDC',
+      number: '9',
+      label: '文学',
+      level: 1,
+    });
+  });
+
+  it('上位の分類の下に登録すると階層は上位の分類の次になる', async () => {
+    const parent = createMockClassification({ level: 2, number: '91' });
+    mockRepository = createMockRepository({
+      findClassificationById: vi.fn().mockResolvedValue(parent),
+    });
+    service = createClassificationService(mockRepository);
+
+    await service.createClassification({
+      scheme: 'NDC',
+      number: '913',
+      label: '小説．物語',
+      parentId: parent.id,
+    });
+
+    expect(mockRepository.createClassification).toHaveBeenCalledWith(
+      expect.objectContaining({ number: '913', parentId: parent.id, level: 3 })
+    );
+  });
+
+  it('上位の分類が別の分類表の場合はVALIDATION_ERRORを返す', async () => {
+    mockRepository = createMockRepository({
+      findClassificationById: vi
+        .fn()
+        .mockResolvedValue(createMockClassification({ scheme: 'DDC', number: '800' })),
+    });
+    service = createClassificationService(mockRepository);
+
+    const result = await service.createClassification({
+      scheme: 'NDC',
+      number: '91',
+      label: '日本文学',
+      parentId: createClassificationId('class-800'),
+    });
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+      expect(result.error.field).toBe('parentId');
+    }
+    expect(mockRepository.createClassification).not.toHaveBeenCalled();
+  });
+
+  it('上位の分類が見つからない場合はNOT_FOUNDを返す', async () => {
+    const result = await service.createClassification({
+      scheme: 'NDC',
+      number: '91',
+      label: '日本文学',
+      parentId: createClassificationId('unknown'),
+    });
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.type).toBe('NOT_FOUND');
+    }
+  });
+
+  it('分類記号が数字でない場合はVALIDATION_ERRORを返す', async () => {
+    const result = await service.createClassification({
+      scheme: 'NDC',
+      number: '913.A',
+      label: '小説',
+    });
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+      expect(result.error.field).toBe('number');
+    }
+  });
+
+  it('分類表がNDC・DDC以外の場合はVALIDATION_ERRORを返す', async () => {
+    const result = await service.createClassification({
+      scheme: 'UDC' as ClassificationScheme,
+      number: '8',
+      label: 'Language',
+    });
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+      expect(result.error.field).toBe('scheme');
+    }
+  });
+
+  it('分類名が空の場合はVALIDATION_ERRORを返す', async () => {
+    const result = await service.createClassification({ scheme: 'NDC', number: '9', label: ' ' });
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+      expect(result.error.field).toBe('label');
+    }
+  });
+});
+
+// ============================================
+// 分類表の閲覧テスト
+// ============================================
+
+describe('ClassificationService 分類表の閲覧', () => {
+  it('上位の分類を省略すると最上位の分類一覧を返す', async () => {
+    const roots = [createMockClassification()];
+    const mockRepository = createMockRepository({
+      findClassificationChildren: vi.fn().mockResolvedValue(roots),
+    });
+    const service = createClassificationService(mockRepository);
+
+    const result = await service.getClassificationChildren('NDC');
+
+    expect(isOk(result) && result.value).toEqual(roots);
+    expect(mockRepository.findClassificationChildren).toHaveBeenCalledWith('NDC', null);
+  });
+
+  it('上位の分類を指定するとその分類表の直下の分類一覧を返す', async () => {
+    const parent = createMockClassification({ scheme: 'DDC', number: '800' });
+    const mockRepository = createMockRepository({
+      findClassificationById: vi.fn().mockResolvedValue(parent),
+    });
+    const service = createClassificationService(mockRepository);
+
+    await service.getClassificationChildren('NDC', parent.id);
+
+    expect(mockRepository.findClassificationChildren).toHaveBeenCalledWith('DDC', parent.id);
+  });
+
+  it('分類を上位の分類・直下の分類とともに取得できる', async () => {
+    const root = createMockClassification();
+    const classification = createMockClassification({
+      id: createClassificationId('class-91'),
+      number: '91',
+      label: '日本文学',
+      parentId: root.id,
+      level: 2,
+    });
+    const child = createMockClassification({
+      id: createClassificationId('class-913'),
+      number: '913',
+      label: '小説．物語',
+      parentId: classification.id,
+      level: 3,
+    });
+    const service = createClassificationService(
+      createMockRepository({
+        findClassificationById: vi.fn().mockResolvedValue(classification),
+        findClassificationAncestors: vi.fn().mockResolvedValue([root]),
+        findClassificationChildren: vi.fn().mockResolvedValue([child]),
+      })
+    );
+
+    const result = await service.getClassification(classification.id);
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value).toEqual({ classification, ancestors: [root], children: [child] });
+    }
+  });
+
+  it('存在しない分類はNOT_FOUNDを返す', async () => {
+    const service = createClassificationService(createMockRepository());
+
+    const result = await service.getClassification(createClassificationId('unknown'));
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.type).toBe('NOT_FOUND');
+    }
+  });
+});
+
+// ============================================
+// 件名標目テスト
+// ============================================
+
+describe('ClassificationService 件名標目', () => {
+  it('同義語の空白・優先語や他の同義語との重複（大文字小文字の違いを含む）を除いて登録する', async () => {
+    const mockRepository = createMockRepository();
+    const service = createClassificationService(mockRepository);
+
+    await service.createSubjectHeading({
+      label: ' 小説 ',
+      alternateLabels: ['Fiction', 'fiction', ' ', '小説', ' novel '],
+    });
+
+    expect(mockRepository.createSubjectHeading).toHaveBeenCalledWith({
+      label: '小説',
+      alternateLabels: ['Fiction', 'novel'],
+    });
+  });
+
+  it('対応する分類が見つからない場合はNOT_FOUNDを返す', async () => {
+    const mockRepository = createMockRepository();
+    const service = createClassificationService(mockRepository);
+
+    const result = await service.createSubjectHeading({
+      label: '小説',
+      classificationId: createClassificationId('unknown'),
+    });
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.type).toBe('NOT_FOUND');
+    }
+    expect(mockRepository.createSubjectHeading).not.toHaveBeenCalled();
+  });
+
+  it('優先語が空の場合はVALIDATION_ERRORを返す', async () => {
+    const service = createClassificationService(createMockRepository());
+
+    const result = await service.createSubjectHeading({ label: '' });
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+      expect(result.error.field).toBe('label');
+    }
+  });
+
+  it('検索語の前後の空白を除いて検索する', async () => {
+    const mockRepository = createMockRepository();
+    const service = createClassificationService(mockRepository);
+
+    await service.searchSubjectHeadings(' fic ');
+    await service.searchSubjectHeadings();
+
+    expect(mockRepository.searchSubjectHeadings).toHaveBeenNthCalledWith(1, 'fic');
+    expect(mockRepository.searchSubjectHeadings).toHaveBeenNthCalledWith(2, '');
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * ClassificationService - 分類・件名標目サービス
+ *
+ * 書籍の分類に使う分類表（NDC・DDC）の階層と、件名に使う統制語彙（件名標目）を管理します。
+ * 分類は上位の分類の下に登録し、階層の深さは上位の分類から決まります。
+ * 件名標目は優先語と同義語を持ち、同義語でも検索できます。
+ */
+
+import type { ClassificationId } from '../../shared/branded-types.js';
+import type { Result } from '../../shared/result.js';
+import { ok, err, isErr } from '../../shared/result.js';
+import { validateRequired } from '../../shared/validation.js';
+import type { ClassificationRepository } from './classification-repository.js';
+import type {
+  BookError,
+  Classification,
+  ClassificationNode,
+  ClassificationScheme,
+  CreateClassificationInput,
+  CreateSubjectHeadingInput,
+  SubjectHeading,
+} from './types.js';
+
+// ============================================
+// 定数
+// ============================================
+
+/** 分類表として指定可能な値 */
+export const CLASSIFICATION_SCHEMES: readonly ClassificationScheme[] = ['NDC', 'DDC'];
+
+/** 分類記号の形式（数字、小数点以下の細分を含む。例: 9, 913, 913.6） */
+const CLASSIFICATION_NUMBER_PATTERN = /^[0-9]+(\.[0-9]+)?$/;
+
+// ============================================
+// サービスインターフェース
+// ============================================
+
+/** ClassificationService インターフェース */
+export interface ClassificationService {
+  /**
+   * 分類を登録
+   * @param input - 分類登録入力
+   * @returns 作成された分類またはエラー
+   */
+  createClassification(
+    input: CreateClassificationInput
+  ): Promise<Result<Classification, BookError>>;
+
+  /**
+   * 直下の分類一覧を取得（分類表の閲覧）
+   * @param scheme - 分類表
+   * @param parentId - 上位の分類ID（省略時は最上位の分類）
+   * @returns 分類一覧、または上位の分類が見つからない場合のエラー
+   */
+  getClassificationChildren(
+    scheme: ClassificationScheme,
+    parentId?: ClassificationId
+  ): Promise<Result<Classification[], BookError>>;
+
+  /**
+   * 分類を上位・直下の分類とともに取得
+   * @param id - 分類ID
+   * @returns 分類の閲覧結果またはNOT_FOUNDエラー
+   */
+  getClassification(id: ClassificationId): Promise<Result<ClassificationNode, BookError>>;
+
+  /**
+   * 件名標目を登録
+   * @param input - 件名標目登録入力
+   * @returns 作成された件名標目またはエラー
+   */
+  createSubjectHeading(
+    input: CreateSubjectHeadingInput
+  ): Promise<Result<SubjectHeading, BookError>>;
+
+  /**
+   * 件名標目を検索（優先語・同義語の部分一致）
+   * @param query - 検索語（省略時はすべての件名標目）
+   * @returns 件名標目一覧
+   */
+  searchSubjectHeadings(query?: string): Promise<Result<SubjectHeading[], never>>;
+}
+
+// ============================================
+// バリデーション関数
+// ============================================
+
+/**
+ * 文字列が分類表か判定
+ */
+export function isClassificationScheme(value: string): value is ClassificationScheme {
+  return (CLASSIFICATION_SCHEMES as readonly string[]).includes(value);
+}
+
+/**
+ * 分類登録入力をバリデーション
+ * @returns 分類記号・分類名の前後の空白を除いた分類登録入力、またはバリデーションエラー
+ */
+function validateCreateClassificationInput(
+  input: CreateClassificationInput
+): Result<CreateClassificationInput, BookError> {
+  if (!isClassificationScheme(input.scheme)) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'scheme',
+      message: `schemeは ${CLASSIFICATION_SCHEMES.join(', ')} のいずれかを指定してください`,
+    });
+  }
+
+  const number = input.number.trim();
+  if (!CLASSIFICATION_NUMBER_PATTERN.test(number)) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'number',
+      message: 'numberは数字の分類記号（例: 913.6）で指定してください',
+    });
+  }
+
+  const labelResult = validateRequired(input.label, 'label');
+  if (isErr(labelResult)) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'label',
+      message: labelResult.error.message,
+    });
+  }
+
+  return ok({ ...input, number, label: labelResult.value.trim() });
+}
+
+/**
+ * 件名標目登録入力をバリデーション
+ * @returns 前後の空白を除き、優先語・他の同義語と重複する同義語を除いた件名標目登録入力、またはバリデーションエラー
+ */
+function validateCreateSubjectHeadingInput(
+  input: CreateSubjectHeadingInput
+): Result<CreateSubjectHeadingInput & { readonly alternateLabels: string[] }, BookError> {
+  const labelResult = validateRequired(input.label, 'label');
+  if (isErr(labelResult)) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'label',
+      message: labelResult.error.message,
+    });
+  }
+  const label = labelResult.value.trim();
+
+  // 大文字小文字の違いだけの同義語は同じ語として扱う
+  const seen = new Set([label.toLowerCase()]);
+  const alternateLabels: string[] = [];
+  for (const alternateLabel of input.alternateLabels ?? []) {
+    const trimmed = alternateLabel.trim();
+    if (trimmed !== '' && !seen.has(trimmed.toLowerCase())) {
+      seen.add(trimmed.toLowerCase());
+      alternateLabels.push(trimmed);
+    }
+  }
+
+  return ok({ ...input, label, alternateLabels });
+}
+
+// ============================================
+// サービス実装
+// ============================================
+
+/**
+ * ClassificationServiceを作成
+ * @param repository - 分類・件名標目リポジトリ
+ * @returns ClassificationServiceインスタンス
+ */
+export function createClassificationService(
+  repository: ClassificationRepository
+): ClassificationService {
+  return {
+    async createClassification(
+      input: CreateClassificationInput
+    ): Promise<Result<Classification, BookError>> {
+      const validationResult = validateCreateClassificationInput(input);
+      if (isErr(validationResult)) {
+        return validationResult;
+      }
+      const validated = validationResult.value;
+
+      // 上位の分類の下に登録する（上位の分類と同じ分類表であること）
+      let level = 1;
+      if (validated.parentId !== undefined && validated.parentId !== null) {
+        const parent = await repository.findClassificationById(validated.parentId);
+        if (parent === null) {
+          return err({ type: 'NOT_FOUND', id: validated.parentId });
+        }
+        if (parent.scheme !== validated.scheme) {
+          return err({
+            type: 'VALIDATION_ERROR',
+            field: 'parentId',
+            message: `上位の分類は同じ分類表（${validated.scheme}）の分類を指定してください`,
+          });
+        }
+        level = parent.level + 1;
+      }
+
+      return repository.createClassification({ ...validated, level });
+    },
+
+    async getClassificationChildren(
+      scheme: ClassificationScheme,
+      parentId?: ClassificationId
+    ): Promise<Result<Classification[], BookError>> {
+      if (parentId === undefined) {
+        return ok(await repository.findClassificationChildren(scheme, null));
+      }
+
+      const parent = await repository.findClassificationById(parentId);
+      if (parent === null) {
+        return err({ type: 'NOT_FOUND', id: parentId });
+      }
+      return ok(await repository.findClassificationChildren(parent.scheme, parent.id));
+    },
+
+    async getClassification(id: ClassificationId): Promise<Result<ClassificationNode, BookError>> {
+      const classification = await repository.findClassificationById(id);
+      if (classification === null) {
+        return err({ type: 'NOT_FOUND', id });
+      }
+
+      const [ancestors, children] = await Promise.all([
+        repository.findClassificationAncestors(id),
+        repository.findClassificationChildren(classification.scheme, id),
+      ]);
+      return ok({ classification, ancestors, children });
+    },
+
+    async createSubjectHeading(
+      input: CreateSubjectHeadingInput
+    ): Promise<Result<SubjectHeading, BookError>> {
+      const validationResult = validateCreateSubjectHeadingInput(input);
+      if (isErr(validationResult)) {
+        return validationResult;
+      }
+      const validated = validationResult.value;
+
+      if (validated.classificationId !== undefined && validated.classificationId !== null) {
+        const classification = await repository.findClassificationById(validated.classificationId);
+        if (classification === null) {
+          return err({ type: 'NOT_FOUND', id: validated.classificationId });
+        }
+      }
+
+      return repository.createSubjectHeading(validated);
+    },
+
+    async searchSubjectHeadings(query?: string): Promise<Result<SubjectHeading[], never>> {
+      return ok(await repository.searchSubjectHeadings(query?.trim() ?? ''));
+    },
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * 寄与者の表示形式 Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseContributors, formatContributors, isContributorRole } from './contributors.js';
+
+describe('parseContributors', () => {
+  it('区切り文字で著者表示を分割し、記号のない名前は著者とする', () => {
+    expect(parseContributors('山田太郎、佐藤花子 / 鈴木一郎; John Smith')).toEqual([
+      { name: '山田太郎', role: 'AUTHOR' },
+      { name: '佐藤花子', role: 'AUTHOR' },
+      { name: '鈴木一郎', role: 'AUTHOR' },
+      { name: 'John Smith', role: 'AUTHOR' },
+    ]);
+  });
+
+  it('空白を挟んだ「編」「訳」「絵」から役割を判定する', () => {
+    expect(parseContributors('山田 太郎 編; ルイス・キャロル，河合祥一郎 訳、鈴木一郎 絵')).toEqual(
+      [
+        { name: '山田 太郎', role: 'EDITOR' },
+        { name: 'ルイス・キャロル', role: 'AUTHOR' },
+        { name: '河合祥一郎', role: 'TRANSLATOR' },
+        { name: '鈴木一郎', role: 'ILLUSTRATOR' },
+      ]
+    );
+  });
+
+  it('半角の「,」では区切らず、「姓, 名」形式の名前を1人として扱う', () => {
+    expect(parseContributors('Tolkien, J. R. R.; Tolkien, Christopher 編')).toEqual([
+      { name: 'Tolkien, J. R. R.', role: 'AUTHOR' },
+      { name: 'Tolkien, Christopher', role: 'EDITOR' },
+    ]);
+  });
+
+  it('名前の一部の「絵」は役割として扱わない', () => {
+    expect(parseContributors('佐藤千絵')).toEqual([{ name: '佐藤千絵', role: 'AUTHOR' }]);
+  });
+
+  it('空の要素と同じ名前・役割の重複は除く', () => {
+    expect(parseContributors(' 山田太郎;; 山田太郎; 山田太郎 訳 ')).toEqual([
+      { name: '山田太郎', role: 'AUTHOR' },
+      { name: '山田太郎', role: 'TRANSLATOR' },
+    ]);
+    expect(parseContributors('   ')).toEqual([]);
+  });
+});
+
+describe('formatContributors', () => {
+  it('表示順に並べ、著者以外には役割の記号を付ける', () => {
+    const contributors = [
+      { name: 'ルイス・キャロル', role: 'AUTHOR' },
+      { name: '河合祥一郎', role: 'TRANSLATOR' },
+      { name: 'ジョン・テニエル', role: 'ILLUSTRATOR' },
+    ] as const;
+
+    const author = formatContributors(contributors);
+
+    expect(author).toBe('ルイス・キャロル; 河合祥一郎 訳; ジョン・テニエル 絵');
+    expect(parseContributors(author)).toEqual(contributors);
+  });
+});
+
+describe('isContributorRole', () => {
+  it('寄与者の役割のみを受け付ける', () => {
+    expect(isContributorRole('EDITOR')).toBe(true);
+    expect(isContributorRole('editor')).toBe(false);
+    expect(isContributorRole('NARRATOR')).toBe(false);
+  });
+});
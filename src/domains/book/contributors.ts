@@ -0,0 +1,94 @@
+/**
+ * 寄与者（著者・編者・訳者・画家）の表示形式
+ *
+ * 著者表示の文字列と寄与者一覧を相互に変換します。
+ * - 区切り文字: 「;」「、」「/」（全角を含む）と全角の「，」
+ *   半角の「,」は区切らない（MARCの100/700フィールドなどの「姓, 名」形式の名前を1人として扱う）
+ * - 役割: 名前の後に空白を挟んで「編」「訳」「絵」を付ける（付かない名前は著者）
+ *   例: 「ルイス・キャロル; 河合祥一郎 訳」→ 著者 ルイス・キャロル、訳者 河合祥一郎
+ *
+ * 既存の著者文字列を寄与者に分割するマイグレーション（040_create_book_contributors）も同じ規則で分割します。
+ */
+
+import type { ContributorInput, ContributorRole } from './types.js';
+
+// ============================================
+// 定数
+// ============================================
+
+/** 寄与者の役割として指定可能な値 */
+export const CONTRIBUTOR_ROLES: readonly ContributorRole[] = [
+  'AUTHOR',
+  'EDITOR',
+  'TRANSLATOR',
+  'ILLUSTRATOR',
+];
+
+/** 著者以外の役割を表す名前の後の記号 */
+const ROLE_SUFFIXES: Readonly<Record<Exclude<ContributorRole, 'AUTHOR'>, string>> = {
+  EDITOR: '編',
+  TRANSLATOR: '訳',
+  ILLUSTRATOR: '絵',
+};
+
+/** 著者表示の区切り文字（前後の空白を含む） */
+const SEPARATOR_PATTERN = /\s*[，、;；/／]\s*/;
+
+/** 寄与者一覧から著者表示を作成するときの区切り文字 */
+const DISPLAY_SEPARATOR = '; ';
+
+/** 名前の後に空白を挟んで付けた役割の記号 */
+const ROLE_SUFFIX_PATTERN = /^(.+?)\s+(編|訳|絵)$/;
+
+// ============================================
+// 変換関数
+// ============================================
+
+/**
+ * 文字列が寄与者の役割か判定
+ */
+export function isContributorRole(value: string): value is ContributorRole {
+  return (CONTRIBUTOR_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * 役割の記号から役割を取得
+ */
+function roleFromSuffix(suffix: string): ContributorRole {
+  const entry = Object.entries(ROLE_SUFFIXES).find(([, value]) => value === suffix);
+  return entry !== undefined ? (entry[0] as ContributorRole) : 'AUTHOR';
+}
+
+/**
+ * 著者表示を寄与者一覧に分割
+ *
+ * 空の要素と、同じ名前・役割の重複は除く
+ * @param author - 著者表示
+ * @returns 寄与者一覧（著者表示での順序）
+ */
+export function parseContributors(author: string): ContributorInput[] {
+  const contributors: ContributorInput[] = [];
+  for (const part of author.trim().split(SEPARATOR_PATTERN)) {
+    if (part === '') {
+      continue;
+    }
+    const match = ROLE_SUFFIX_PATTERN.exec(part);
+    const name = match?.[1] ?? part;
+    const role = match?.[2] !== undefined ? roleFromSuffix(match[2]) : 'AUTHOR';
+    if (!contributors.some((c) => c.name === name && c.role === role)) {
+      contributors.push({ name, role });
+    }
+  }
+  return contributors;
+}
+
+/**
+ * 寄与者一覧を著者表示に変換
+ * @param contributors - 寄与者一覧（表示順）
+ * @returns 著者表示（例: 山田太郎; 佐藤花子 訳）
+ */
+export function formatContributors(contributors: readonly ContributorInput[]): string {
+  return contributors
+    .map((c) => (c.role === 'AUTHOR' ? c.name : `${c.name} ${ROLE_SUFFIXES[c.role]}`))
+    .join(DISPLAY_SEPARATOR);
+}
@@ -3,16 +3,43 @@
 // 型定義
 export type {
   Book,
+  BookResponse,
   BookCopy,
   BookCopyStatus,
+  ContributorRole,
+  Person,
+  BookContributor,
+  ContributorInput,
+  ContributorBooks,
+  ClassificationScheme,
+  Classification,
+  ClassificationNode,
+  CreateClassificationInput,
+  SubjectHeading,
+  CreateSubjectHeadingInput,
+  BookClassification,
+  BookSubjectHeading,
   CreateBookInput,
   UpdateBookInput,
   CreateCopyInput,
+  BarcodeConfig,
+  MarcRecord,
+  MarcControlField,
+  MarcDataField,
+  MarcSubfield,
+  MarcFormat,
+  MarcDuplicateAction,
+  MarcImportOptions,
+  MarcImportRecordStatus,
+  MarcImportRecordResult,
+  MarcImportReport,
   BookError,
 } from './types.js';
+export { DEFAULT_BARCODE_CONFIG } from './types.js';
 
 // リポジトリ
 export type { BookRepository } from './book-repository.js';
+export type { ClassificationRepository } from './classification-repository.js';
 export type {
   SearchRepository,
   SearchBooksInput,
@@ -29,6 +56,35 @@ export { createBookService } from './book-service.js';
 export type { SearchService, SearchInput } from './search-service.js';
 export { createSearchService } from './search-service.js';
 
+// 分類・件名標目サービス
+export type { ClassificationService } from './classification-service.js';
+export {
+  CLASSIFICATION_SCHEMES,
+  isClassificationScheme,
+  createClassificationService,
+} from './classification-service.js';
+
+// 寄与者の表示形式
+export {
+  CONTRIBUTOR_ROLES,
+  isContributorRole,
+  parseContributors,
+  formatContributors,
+} from './contributors.js';
+
+// MARCレコード取り込み・書き出し
+export type { MarcService } from './marc-service.js';
+export { createMarcService } from './marc-service.js';
+export {
+  parseMarc21,
+  parseMarcXml,
+  serializeMarcXml,
+  marcRecordToBookInput,
+  bookToMarcRecord,
+} from './marc.js';
+
 // コントローラー
-export { createBookController } from './book-controller.js';
+export { createBookController, toBookResponse } from './book-controller.js';
 export { createSearchController } from './search-controller.js';
+export { createMarcController } from './marc-controller.js';
+export { createClassificationController } from './classification-controller.js';
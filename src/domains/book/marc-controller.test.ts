@@ -0,0 +1,224 @@
+/**
+ * MarcController テスト
+ *
+ * MARCレコード取り込み・書き出しREST APIのテストを記述します。
+ *
+ * エンドポイント:
+ * - POST /api/books/marc/import - MARCレコード取り込み（図書館員のみ）
+ * - POST /api/books/marc/export - MARCXML 書き出し（図書館員のみ）
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { type Express } from 'express';
+import request from 'supertest';
+import { createMarcController } from './marc-controller.js';
+import type { MarcService } from './marc-service.js';
+import type { MarcImportReport } from './types.js';
+import { createUserId } from '../../shared/branded-types.js';
+import { ok, err } from '../../shared/result.js';
+import type { AuthenticatedRequest } from '../auth/rbac.js';
+import type { UserRole } from '../auth/types.js';
+
+// ============================================
+// モックファクトリ
+// ============================================
+
+function createMockMarcService(): MarcService {
+  return {
+    importMarc: vi.fn(),
+    exportMarcXml: vi.fn(),
+  };
+}
+
+// ============================================
+// テストデータ
+// ============================================
+
+const testReport: MarcImportReport = {
+  format: 'MARCXML',
+  onDuplicate: 'SKIP',
+  records: [],
+  createdCount: 0,
+  updatedCount: 0,
+  skippedCount: 0,
+  failedCount: 0,
+};
+
+const testXml =
+  '<collection><record><leader>00000nam a2200000 i 4500</leader></record></collection>';
+
+// ============================================
+// テストセットアップ
+// ============================================
+
+function createTestApp(marcService: MarcService, role?: UserRole): Express {
+  const app = express();
+  app.use(express.json());
+  if (role !== undefined) {
+    app.use((req: AuthenticatedRequest, _res, next) => {
+      req.session = {
+        userId: createUserId('staff-001'),
+        role,
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      };
+      next();
+    });
+  }
+  app.use('/api/books', createMarcController(marcService));
+  return app;
+}
+
+// ============================================
+// テスト
+// ============================================
+
+describe('MarcController', () => {
+  let mockService: MarcService;
+  let app: Express;
+
+  beforeEach(() => {
+    mockService = createMockMarcService();
+    app = createTestApp(mockService, 'librarian');
+  });
+
+  describe('POST /api/books/marc/import - MARCレコード取り込み', () => {
+    it('Content-Type から MARCXML と判定し、既定ではスキップ指定で取り込む', async () => {
+      // Arrange
+      vi.mocked(mockService.importMarc).mockResolvedValue(ok(testReport));
+
+      // Act
+      const response = await request(app)
+        .post('/api/books/marc/import')
+        .set('Content-Type', 'application/marcxml+xml')
+        .send(testXml);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body.format).toBe('MARCXML');
+      const [data, options] = vi.mocked(mockService.importMarc).mock.calls[0] ?? [];
+      expect(Buffer.from(data ?? new Uint8Array()).toString('utf-8')).toBe(testXml);
+      expect(options).toEqual({ format: 'MARCXML', onDuplicate: 'SKIP' });
+    });
+
+    it('application/marc は MARC21 として取り込み、onDuplicate を指定できる', async () => {
+      // Arrange
+      vi.mocked(mockService.importMarc).mockResolvedValue(
+        ok({ ...testReport, format: 'MARC21', onDuplicate: 'UPDATE' })
+      );
+
+      // Act
+      const response = await request(app)
+        .post('/api/books/marc/import')
+        .query({ onDuplicate: 'UPDATE' })
+        .set('Content-Type', 'application/marc')
+        .send(Buffer.from('00026nam a2200025 i 4500\x1e\x1d', 'binary'));
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(vi.mocked(mockService.importMarc).mock.calls[0]?.[1]).toEqual({
+        format: 'MARC21',
+        onDuplicate: 'UPDATE',
+      });
+    });
+
+    it('対応していない Content-Type の場合は400を返す', async () => {
+      // Act
+      const response = await request(app)
+        .post('/api/books/marc/import')
+        .set('Content-Type', 'text/plain')
+        .send('abc');
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('contentType');
+      expect(mockService.importMarc).not.toHaveBeenCalled();
+    });
+
+    it('不正な onDuplicate の場合は400を返す', async () => {
+      // Act
+      const response = await request(app)
+        .post('/api/books/marc/import')
+        .query({ onDuplicate: 'MERGE' })
+        .set('Content-Type', 'application/xml')
+        .send(testXml);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('onDuplicate');
+    });
+
+    it('データ全体を読み込めない場合は400を返す', async () => {
+      // Arrange
+      vi.mocked(mockService.importMarc).mockResolvedValue(
+        err({ type: 'VALIDATION_ERROR', field: 'data', message: 'XMLの形式が正しくありません' })
+      );
+
+      // Act
+      const response = await request(app)
+        .post('/api/books/marc/import')
+        .set('Content-Type', 'text/xml')
+        .send('<collection>');
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('data');
+    });
+
+    it('利用者ロールの場合は403を返す', async () => {
+      // Act
+      const response = await request(createTestApp(mockService, 'patron'))
+        .post('/api/books/marc/import')
+        .set('Content-Type', 'application/marcxml+xml')
+        .send(testXml);
+
+      // Assert
+      expect(response.status).toBe(403);
+      expect(mockService.importMarc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/books/marc/export - MARCXML 書き出し', () => {
+    it('MARCXML を添付ファイルとして返す', async () => {
+      // Arrange
+      vi.mocked(mockService.exportMarcXml).mockResolvedValue(ok(testXml));
+
+      // Act
+      const response = await request(app)
+        .post('/api/books/marc/export')
+        .send({ bookIds: ['book-001', 'book-002'] });
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('application/marcxml+xml');
+      expect(response.headers['content-disposition']).toBe('attachment; filename="books.xml"');
+      expect(response.text).toBe(testXml);
+      expect(mockService.exportMarcXml).toHaveBeenCalledWith(['book-001', 'book-002']);
+    });
+
+    it('bookIdsが配列でない場合は400を返す', async () => {
+      // Act
+      const response = await request(app).post('/api/books/marc/export').send({ bookIds: 'x' });
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('bookIds');
+      expect(mockService.exportMarcXml).not.toHaveBeenCalled();
+    });
+
+    it('存在しない書籍を含む場合は404を返す', async () => {
+      // Arrange
+      vi.mocked(mockService.exportMarcXml).mockResolvedValue(
+        err({ type: 'NOT_FOUND', id: 'book-999' })
+      );
+
+      // Act
+      const response = await request(app)
+        .post('/api/books/marc/export')
+        .send({ bookIds: ['book-999'] });
+
+      // Assert
+      expect(response.status).toBe(404);
+    });
+  });
+});
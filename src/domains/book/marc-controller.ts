@@ -0,0 +1,217 @@
+/**
+ * MarcController - MARCレコード取り込み・書き出しREST APIコントローラー
+ *
+ * MARC21・MARCXML による書誌データの取り込みと MARCXML での書き出しのREST APIエンドポイントを提供します。
+ * いずれも図書館員のみ行えます。
+ *
+ * エンドポイント:
+ * - POST /api/books/marc/import - MARCレコード取り込み（図書館員のみ）
+ *   Content-Type で形式を指定（application/marc: MARC21、application/marcxml+xml・application/xml・text/xml: MARCXML）
+ *   onDuplicate クエリで既存ISBNの扱いを指定（UPDATE: 更新、SKIP: スキップ、既定は SKIP）
+ * - POST /api/books/marc/export - 指定した書籍の MARCXML 書き出し（図書館員のみ）
+ */
+
+import express, { Router, type Request, type Response } from 'express';
+import type { BookId } from '../../shared/branded-types.js';
+import { isOk } from '../../shared/result.js';
+import { requireLibrarian } from '../auth/rbac.js';
+import type { MarcService } from './marc-service.js';
+import type { BookError, MarcDuplicateAction, MarcFormat } from './types.js';
+
+// ============================================
+// リクエストボディ・クエリ型定義
+// ============================================
+
+/** MARC取り込みクエリパラメータ */
+interface MarcImportQuery {
+  onDuplicate?: string;
+}
+
+/** MARCXML書き出しリクエストボディ */
+interface MarcExportRequestBody {
+  bookIds?: unknown;
+}
+
+/** MARC21 として受け付ける Content-Type */
+const MARC21_CONTENT_TYPES: readonly string[] = ['application/marc'];
+
+/** MARCXML として受け付ける Content-Type */
+const MARCXML_CONTENT_TYPES: readonly string[] = [
+  'application/marcxml+xml',
+  'application/xml',
+  'text/xml',
+];
+
+/** 既存ISBNの扱いとして指定可能な値 */
+const DUPLICATE_ACTIONS: readonly MarcDuplicateAction[] = ['UPDATE', 'SKIP'];
+
+/** 取り込みデータの最大サイズ */
+const MAX_IMPORT_SIZE = '20mb';
+
+// ============================================
+// HTTPステータスコード決定
+// ============================================
+
+/**
+ * BookErrorからHTTPステータスコードを決定
+ */
+function getErrorStatusCode(error: BookError): number {
+  switch (error.type) {
+    case 'VALIDATION_ERROR':
+      return 400;
+    case 'NOT_FOUND':
+      return 404;
+    case 'DUPLICATE_ISBN':
+      return 409;
+    case 'DUPLICATE_BARCODE':
+      return 409;
+    case 'DUPLICATE_CLASSIFICATION':
+      return 409;
+    case 'DUPLICATE_SUBJECT_HEADING':
+      return 409;
+    case 'INVALID_COPY_STATUS_TRANSITION':
+      return 409;
+  }
+}
+
+/**
+ * Content-Type から取り込み形式を判定
+ */
+function detectFormat(req: Request): MarcFormat | null {
+  if (typeof req.is([...MARC21_CONTENT_TYPES]) === 'string') {
+    return 'MARC21';
+  }
+  if (typeof req.is([...MARCXML_CONTENT_TYPES]) === 'string') {
+    return 'MARCXML';
+  }
+  return null;
+}
+
+/**
+ * 文字列が既存ISBNの扱いか判定
+ */
+function isDuplicateAction(value: string): value is MarcDuplicateAction {
+  return (DUPLICATE_ACTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * 値が空でない文字列の配列か判定
+ */
+function isNonEmptyStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((item) => typeof item === 'string' && item !== '')
+  );
+}
+
+// ============================================
+// コントローラーファクトリ
+// ============================================
+
+/**
+ * MarcControllerを作成
+ * @param marcService - MarcServiceインスタンス
+ * @returns Expressルーター
+ */
+export function createMarcController(marcService: MarcService): Router {
+  const router = Router();
+
+  // ============================================
+  // POST /api/books/marc/import - MARCレコード取り込み
+  // ============================================
+
+  router.post(
+    '/marc/import',
+    requireLibrarian,
+    express.raw({
+      type: [...MARC21_CONTENT_TYPES, ...MARCXML_CONTENT_TYPES],
+      limit: MAX_IMPORT_SIZE,
+    }),
+    async (req: Request, res: Response): Promise<void> => {
+      const format = detectFormat(req);
+      if (format === null) {
+        res.status(400).json({
+          error: {
+            type: 'VALIDATION_ERROR',
+            field: 'contentType',
+            message:
+              'Content-Typeには application/marc または application/marcxml+xml を指定してください',
+          },
+        });
+        return;
+      }
+
+      const query = req.query as MarcImportQuery;
+      const onDuplicate = query.onDuplicate ?? 'SKIP';
+      if (!isDuplicateAction(onDuplicate)) {
+        res.status(400).json({
+          error: {
+            type: 'VALIDATION_ERROR',
+            field: 'onDuplicate',
+            message: 'onDuplicateには UPDATE または SKIP を指定してください',
+          },
+        });
+        return;
+      }
+
+      const data: unknown = req.body;
+      if (!Buffer.isBuffer(data) || data.length === 0) {
+        res.status(400).json({
+          error: {
+            type: 'VALIDATION_ERROR',
+            field: 'data',
+            message: '取り込むMARCレコードは必須です',
+          },
+        });
+        return;
+      }
+
+      const result = await marcService.importMarc(data, { format, onDuplicate });
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // POST /api/books/marc/export - MARCXML 書き出し
+  // ============================================
+
+  router.post(
+    '/marc/export',
+    requireLibrarian,
+    async (req: Request, res: Response): Promise<void> => {
+      const body = (req.body ?? {}) as MarcExportRequestBody;
+
+      // バリデーション: bookIdsは空でない文字列の配列
+      if (!isNonEmptyStringArray(body.bookIds)) {
+        res.status(400).json({
+          error: {
+            type: 'VALIDATION_ERROR',
+            field: 'bookIds',
+            message: '書き出す書籍IDの配列は必須です',
+          },
+        });
+        return;
+      }
+
+      const result = await marcService.exportMarcXml(body.bookIds as BookId[]);
+
+      if (isOk(result)) {
+        res.setHeader('Content-Type', 'application/marcxml+xml; charset=utf-8');
+        res.setHeader('Content-Disposition', 'attachment; filename="books.xml"');
+        res.status(200).send(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,228 @@
+/**
+ * MarcService Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMarcService, type MarcService } from './marc-service.js';
+import type { BookService } from './book-service.js';
+import type { BookRepository } from './book-repository.js';
+import type { Book } from './types.js';
+import { createBookId } from '../../shared/branded-types.js';
+import { ok, err, isOk, isErr } from '../../shared/result.js';
+
+// ============================================
+// モック作成ヘルパー
+// ============================================
+
+function createMockBook(overrides: Partial<Book> = {}): Book {
+  return {
+    id: createBookId('book-123'),
+    title: '吾輩は猫である',
+    author: '夏目漱石',
+    contributors: [],
+    publisher: '岩波書店',
+    publicationYear: 1990,
+    isbn: '9784003101018',
+    category: '日本文学',
+    classification: null,
+    callNumber: null,
+    subjectHeadings: [],
+    replacementCost: null,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    ...overrides,
+  };
+}
+
+type MockBookService = Pick<BookService, 'createBook' | 'updateBook' | 'getBookById'>;
+
+function createMockBookService(): MockBookService {
+  return {
+    createBook: vi.fn().mockResolvedValue(ok(createMockBook({ id: createBookId('book-new') }))),
+    updateBook: vi.fn().mockResolvedValue(ok(createMockBook())),
+    getBookById: vi.fn().mockResolvedValue(ok(createMockBook())),
+  };
+}
+
+/**
+ * MARCXML 文書を作成
+ */
+function marcXml(...records: readonly { isbn?: string; title?: string }[]): Uint8Array {
+  const body = records
+    .map(
+      (record) => `<record>
+  <leader>00000nam a2200000 i 4500</leader>
+  ${record.isbn !== undefined ? `<datafield tag="020" ind1=" " ind2=" "><subfield code="a">${record.isbn}</subfield></datafield>` : ''}
+  <datafield tag="100" ind1="1" ind2=" "><subfield code="a">夏目漱石</subfield></datafield>
+  ${record.title !== undefined ? `<datafield tag="245" ind1="1" ind2="0"><subfield code="a">${record.title}</subfield></datafield>` : ''}
+  <datafield tag="264" ind1=" " ind2="1"><subfield code="b">岩波書店</subfield><subfield code="c">1990</subfield></datafield>
+</record>`
+    )
+    .join('\n');
+  return new TextEncoder().encode(
+    `<collection xmlns="http://www.loc.gov/MARC21/slim">${body}</collection>`
+  );
+}
+
+// ============================================
+// importMarc テスト
+// ============================================
+
+describe('MarcService.importMarc', () => {
+  let bookService: MockBookService;
+  let bookRepository: Pick<BookRepository, 'findByIsbn'>;
+  let service: MarcService;
+
+  beforeEach(() => {
+    bookService = createMockBookService();
+    bookRepository = { findByIsbn: vi.fn().mockResolvedValue(null) };
+    service = createMarcService(bookService, bookRepository);
+  });
+
+  it('未登録のISBNのレコードは書籍として登録する', async () => {
+    const result = await service.importMarc(
+      marcXml({ isbn: '9784003101018', title: '吾輩は猫である' }),
+      { format: 'MARCXML', onDuplicate: 'SKIP' }
+    );
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.createdCount).toBe(1);
+      expect(result.value.records[0]).toEqual({
+        index: 0,
+        status: 'CREATED',
+        bookId: 'book-new',
+        isbn: '9784003101018',
+        title: '吾輩は猫である',
+        error: null,
+      });
+    }
+    expect(bookService.createBook).toHaveBeenCalledWith({
+      title: '吾輩は猫である',
+      author: '夏目漱石',
+      publisher: '岩波書店',
+      publicationYear: 1990,
+      isbn: '9784003101018',
+      category: null,
+    });
+  });
+
+  it('登録済みのISBNのレコードは SKIP 指定ではスキップする', async () => {
+    vi.mocked(bookRepository.findByIsbn).mockResolvedValue(createMockBook());
+
+    const result = await service.importMarc(
+      marcXml({ isbn: '9784003101018', title: '吾輩は猫である' }),
+      { format: 'MARCXML', onDuplicate: 'SKIP' }
+    );
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.skippedCount).toBe(1);
+      expect(result.value.records[0]?.bookId).toBe('book-123');
+    }
+    expect(bookService.createBook).not.toHaveBeenCalled();
+    expect(bookService.updateBook).not.toHaveBeenCalled();
+  });
+
+  it('登録済みのISBNのレコードは UPDATE 指定ではレコードにある項目のみ更新する', async () => {
+    vi.mocked(bookRepository.findByIsbn).mockResolvedValue(createMockBook());
+
+    const result = await service.importMarc(
+      marcXml({ isbn: '9784003101018', title: '吾輩は猫である 改版' }),
+      { format: 'MARCXML', onDuplicate: 'UPDATE' }
+    );
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.updatedCount).toBe(1);
+    }
+    expect(bookService.updateBook).toHaveBeenCalledWith('book-123', {
+      title: '吾輩は猫である 改版',
+      author: '夏目漱石',
+      publisher: '岩波書店',
+      publicationYear: 1990,
+    });
+  });
+
+  it('登録に失敗したレコードはエラーを記録し、後続のレコードの取り込みを続ける', async () => {
+    vi.mocked(bookService.createBook)
+      .mockResolvedValueOnce(
+        err({ type: 'VALIDATION_ERROR', field: 'title', message: 'titleは必須です' })
+      )
+      .mockResolvedValueOnce(ok(createMockBook({ id: createBookId('book-new') })));
+
+    const result = await service.importMarc(
+      marcXml({ isbn: '9784003101018' }, { isbn: '9784101010014', title: '坊っちゃん' }),
+      { format: 'MARCXML', onDuplicate: 'SKIP' }
+    );
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.failedCount).toBe(1);
+      expect(result.value.createdCount).toBe(1);
+      expect(result.value.records[0]).toMatchObject({
+        status: 'FAILED',
+        title: null,
+        error: { type: 'VALIDATION_ERROR', field: 'title' },
+      });
+    }
+  });
+
+  it('データ全体を読み込めない場合はエラーを返す', async () => {
+    const result = await service.importMarc(new TextEncoder().encode('<collection><record>'), {
+      format: 'MARCXML',
+      onDuplicate: 'SKIP',
+    });
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toMatchObject({ type: 'VALIDATION_ERROR' });
+    }
+  });
+});
+
+// ============================================
+// exportMarcXml テスト
+// ============================================
+
+describe('MarcService.exportMarcXml', () => {
+  let bookService: MockBookService;
+  let service: MarcService;
+
+  beforeEach(() => {
+    bookService = createMockBookService();
+    service = createMarcService(bookService, { findByIsbn: vi.fn().mockResolvedValue(null) });
+  });
+
+  it('指定した書籍を MARCXML に書き出す', async () => {
+    const result = await service.exportMarcXml([createBookId('book-123')]);
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value).toContain('<subfield code="a">吾輩は猫である</subfield>');
+      expect(result.value).toContain('<controlfield tag="001">book-123</controlfield>');
+    }
+  });
+
+  it('存在しない書籍を含む場合はエラーを返す', async () => {
+    vi.mocked(bookService.getBookById).mockResolvedValue(
+      err({ type: 'NOT_FOUND', id: 'book-999' })
+    );
+
+    const result = await service.exportMarcXml([createBookId('book-999')]);
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toEqual({ type: 'NOT_FOUND', id: 'book-999' });
+    }
+  });
+
+  it('書籍が指定されていない場合はバリデーションエラーを返す', async () => {
+    const result = await service.exportMarcXml([]);
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toMatchObject({ type: 'VALIDATION_ERROR', field: 'bookIds' });
+    }
+  });
+});
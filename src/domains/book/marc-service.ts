@@ -0,0 +1,196 @@
+/**
+ * MarcService - MARCレコード取り込み・書き出しサービス
+ *
+ * MARC21・MARCXML のレコードを書籍マスタに取り込み、書籍マスタを MARCXML に書き出します。
+ * 取り込みはレコード単位で行い、失敗したレコードがあっても残りのレコードの取り込みを続けます。
+ * 既に登録されているISBNのレコードは、指定に従って書籍を更新するか取り込まずにスキップします。
+ */
+
+import type { BookId } from '../../shared/branded-types.js';
+import { TextDecoder } from 'node:util';
+import type { Result } from '../../shared/result.js';
+import { ok, err, isErr } from '../../shared/result.js';
+import type { BookRepository } from './book-repository.js';
+import type { BookService } from './book-service.js';
+import {
+  parseMarc21,
+  parseMarcXml,
+  serializeMarcXml,
+  marcRecordToBookInput,
+  bookToMarcRecord,
+} from './marc.js';
+import type {
+  Book,
+  BookError,
+  CreateBookInput,
+  UpdateBookInput,
+  MarcImportOptions,
+  MarcImportRecordResult,
+  MarcImportRecordStatus,
+  MarcImportReport,
+} from './types.js';
+
+// ============================================
+// サービスインターフェース
+// ============================================
+
+/** MarcService インターフェース */
+export interface MarcService {
+  /**
+   * MARCレコードを取り込む
+   * @param data - MARC21 バイナリまたは MARCXML 文書
+   * @param options - 形式と既存ISBNの扱い
+   * @returns レコードごとの取り込み結果、またはデータ全体を読み込めない場合のエラー
+   */
+  importMarc(
+    data: Uint8Array,
+    options: MarcImportOptions
+  ): Promise<Result<MarcImportReport, BookError>>;
+
+  /**
+   * 書籍を MARCXML に書き出す
+   * @param bookIds - 書き出す書籍のID一覧
+   * @returns MARCXML 文書またはエラー（存在しない書籍を含む場合）
+   */
+  exportMarcXml(bookIds: readonly BookId[]): Promise<Result<string, BookError>>;
+}
+
+// ============================================
+// ヘルパー関数
+// ============================================
+
+/**
+ * 既存書籍の更新入力を作成（レコードに値がない項目は更新しない）
+ */
+function toUpdateInput(input: CreateBookInput): UpdateBookInput {
+  return {
+    ...(input.title !== '' && { title: input.title }),
+    ...(input.author !== '' && { author: input.author }),
+    ...(input.publisher !== '' && { publisher: input.publisher }),
+    ...(input.publicationYear !== null &&
+      input.publicationYear !== undefined && { publicationYear: input.publicationYear }),
+    ...(input.category !== null && input.category !== undefined && { category: input.category }),
+  };
+}
+
+/**
+ * 取り込み結果を作成
+ */
+function toRecordResult(
+  index: number,
+  status: MarcImportRecordStatus,
+  input: CreateBookInput | null,
+  bookId: BookId | null,
+  error: BookError | null = null
+): MarcImportRecordResult {
+  return {
+    index,
+    status,
+    bookId,
+    isbn: input !== null && input.isbn !== '' ? input.isbn : null,
+    title: input !== null && input.title !== '' ? input.title : null,
+    error,
+  };
+}
+
+// ============================================
+// サービス実装
+// ============================================
+
+/**
+ * MarcServiceを作成
+ * @param bookService - 書籍サービス（書籍の登録・更新・取得）
+ * @param bookRepository - 書籍リポジトリ（既存ISBNの確認）
+ * @returns MarcService
+ */
+export function createMarcService(
+  bookService: Pick<BookService, 'createBook' | 'updateBook' | 'getBookById'>,
+  bookRepository: Pick<BookRepository, 'findByIsbn'>
+): MarcService {
+  /**
+   * 1件分のレコードを書籍マスタに取り込む
+   */
+  async function importRecord(
+    index: number,
+    input: CreateBookInput,
+    options: MarcImportOptions
+  ): Promise<MarcImportRecordResult> {
+    const existing = input.isbn !== '' ? await bookRepository.findByIsbn(input.isbn) : null;
+
+    if (existing === null) {
+      const createResult = await bookService.createBook(input);
+      return isErr(createResult)
+        ? toRecordResult(index, 'FAILED', input, null, createResult.error)
+        : toRecordResult(index, 'CREATED', input, createResult.value.id);
+    }
+
+    if (options.onDuplicate === 'SKIP') {
+      return toRecordResult(index, 'SKIPPED', input, existing.id);
+    }
+
+    const updateResult = await bookService.updateBook(existing.id, toUpdateInput(input));
+    return isErr(updateResult)
+      ? toRecordResult(index, 'FAILED', input, existing.id, updateResult.error)
+      : toRecordResult(index, 'UPDATED', input, existing.id);
+  }
+
+  return {
+    async importMarc(
+      data: Uint8Array,
+      options: MarcImportOptions
+    ): Promise<Result<MarcImportReport, BookError>> {
+      // 1. レコードの読み込み
+      const parseResult =
+        options.format === 'MARC21'
+          ? parseMarc21(data)
+          : parseMarcXml(new TextDecoder('utf-8').decode(data));
+      if (isErr(parseResult)) {
+        return parseResult;
+      }
+
+      // 2. レコードごとに取り込み（同じファイル内の重複ISBNも検出できるよう順番に処理する）
+      const records: MarcImportRecordResult[] = [];
+      for (const [index, parsed] of parseResult.value.entries()) {
+        if (isErr(parsed)) {
+          records.push(toRecordResult(index, 'FAILED', null, null, parsed.error));
+          continue;
+        }
+        records.push(await importRecord(index, marcRecordToBookInput(parsed.value), options));
+      }
+
+      const countOf = (status: MarcImportRecordStatus): number =>
+        records.filter((record) => record.status === status).length;
+
+      return ok({
+        format: options.format,
+        onDuplicate: options.onDuplicate,
+        records,
+        createdCount: countOf('CREATED'),
+        updatedCount: countOf('UPDATED'),
+        skippedCount: countOf('SKIPPED'),
+        failedCount: countOf('FAILED'),
+      });
+    },
+
+    async exportMarcXml(bookIds: readonly BookId[]): Promise<Result<string, BookError>> {
+      if (bookIds.length === 0) {
+        return err({
+          type: 'VALIDATION_ERROR',
+          field: 'bookIds',
+          message: '書き出す書籍を1件以上指定してください',
+        });
+      }
+
+      const books: Book[] = [];
+      for (const bookId of bookIds) {
+        const bookResult = await bookService.getBookById(bookId);
+        if (isErr(bookResult)) {
+          return bookResult;
+        }
+        books.push(bookResult.value);
+      }
+
+      return ok(serializeMarcXml(books.map(bookToMarcRecord)));
+    },
+  };
+}
@@ -0,0 +1,377 @@
+/**
+ * MARC レコード変換 Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseMarc21,
+  parseMarcXml,
+  serializeMarcXml,
+  marcRecordToBookInput,
+  bookToMarcRecord,
+} from './marc.js';
+import { parseContributors } from './contributors.js';
+import type { Book, MarcRecord } from './types.js';
+import { createBookId } from '../../shared/branded-types.js';
+import { isOk, isErr } from '../../shared/result.js';
+
+// ============================================
+// テストデータ作成ヘルパー
+// ============================================
+
+/** テスト用フィールド（制御フィールドは文字列、データフィールドはインディケータとサブフィールド） */
+type TestField =
+  | { readonly tag: string; readonly value: string }
+  | {
+      readonly tag: string;
+      readonly indicators: string;
+      readonly subfields: readonly (readonly [string, string])[];
+    };
+
+/**
+ * ISO 2709 形式のバイナリレコードを作成
+ */
+function buildMarc21Record(fields: readonly TestField[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const bodies = fields.map((field) =>
+    encoder.encode(
+      'value' in field
+        ? `${field.value}\x1e`
+        : `${field.indicators}${field.subfields.map(([code, value]) => `\x1f${code}${value}`).join('')}\x1e`
+    )
+  );
+
+  let start = 0;
+  const directory = fields
+    .map((field, index) => {
+      const length = bodies[index]?.length ?? 0;
+      const entry = `${field.tag}${String(length).padStart(4, '0')}${String(start).padStart(5, '0')}`;
+      start += length;
+      return entry;
+    })
+    .join('');
+
+  const baseAddress = 24 + directory.length + 1;
+  const recordLength = baseAddress + start + 1;
+  const leader = `${String(recordLength).padStart(5, '0')}nam a22${String(baseAddress).padStart(5, '0')} i 4500`;
+  const head = encoder.encode(`${leader}${directory}\x1e`);
+
+  const record = new Uint8Array(recordLength);
+  record.set(head, 0);
+  let offset = head.length;
+  for (const body of bodies) {
+    record.set(body, offset);
+    offset += body.length;
+  }
+  record[offset] = 0x1d;
+  return record;
+}
+
+/**
+ * 複数のバイナリレコードを連結
+ */
+function concatRecords(records: readonly Uint8Array[]): Uint8Array {
+  const total = records.reduce((sum, record) => sum + record.length, 0);
+  const data = new Uint8Array(total);
+  let offset = 0;
+  for (const record of records) {
+    data.set(record, offset);
+    offset += record.length;
+  }
+  return data;
+}
+
+const sampleFields: readonly TestField[] = [
+  { tag: '001', value: 'JP12345' },
+  { tag: '008', value: '240101s1905    ja            000 0 jpn d' },
+  { tag: '020', indicators: '  ', subfields: [['a', '9784003101018 (pbk.)']] },
+  { tag: '100', indicators: '1 ', subfields: [['a', '夏目漱石,']] },
+  {
+    tag: '245',
+    indicators: '10',
+    subfields: [
+      ['a', '吾輩は猫である /'],
+      ['c', '夏目漱石 著.'],
+    ],
+  },
+  {
+    tag: '264',
+    indicators: ' 1',
+    subfields: [
+      ['a', '東京 :'],
+      ['b', '岩波書店,'],
+      ['c', '1990.'],
+    ],
+  },
+  { tag: '650', indicators: ' 4', subfields: [['a', '日本文学.']] },
+];
+
+function createMockBook(overrides: Partial<Book> = {}): Book {
+  return {
+    id: createBookId('book-123'),
+    title: '吾輩は猫である',
+    author: '夏目漱石',
+    contributors: [],
+    publisher: '岩波書店',
+    publicationYear: 1990,
+    isbn: '9784003101018',
+    category: '日本文学',
+    classification: null,
+    callNumber: null,
+    subjectHeadings: [],
+    replacementCost: null,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    ...overrides,
+  };
+}
+
+// ============================================
+// parseMarc21 テスト
+// ============================================
+
+describe('parseMarc21', () => {
+  it('リーダー・制御フィールド・データフィールドを読み込める', () => {
+    const result = parseMarc21(buildMarc21Record(sampleFields));
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value).toHaveLength(1);
+      const record = result.value[0];
+      expect(record !== undefined && isOk(record)).toBe(true);
+      if (record !== undefined && isOk(record)) {
+        expect(record.value.leader).toHaveLength(24);
+        expect(record.value.controlFields[0]).toEqual({ tag: '001', value: 'JP12345' });
+        expect(record.value.dataFields.find((f) => f.tag === '245')).toEqual({
+          tag: '245',
+          ind1: '1',
+          ind2: '0',
+          subfields: [
+            { code: 'a', value: '吾輩は猫である /' },
+            { code: 'c', value: '夏目漱石 著.' },
+          ],
+        });
+      }
+    }
+  });
+
+  it('複数のレコードを順に読み込み、末尾の改行は無視する', () => {
+    const data = concatRecords([
+      buildMarc21Record(sampleFields),
+      buildMarc21Record([{ tag: '245', indicators: '00', subfields: [['a', '坊っちゃん']] }]),
+      new TextEncoder().encode('\n'),
+    ]);
+
+    const result = parseMarc21(data);
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value).toHaveLength(2);
+    }
+  });
+
+  it('ディレクトリが壊れたレコードはそのレコードのみエラーとする', () => {
+    const broken = new TextEncoder().encode('00050nam a2200099 i 4500broken\x1e\x1d');
+    const data = concatRecords([broken, buildMarc21Record(sampleFields)]);
+
+    const result = parseMarc21(data);
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      const [first, second] = result.value;
+      expect(first !== undefined && isErr(first)).toBe(true);
+      if (first !== undefined && isErr(first)) {
+        expect(first.error.type).toBe('VALIDATION_ERROR');
+      }
+      expect(second !== undefined && isOk(second)).toBe(true);
+    }
+  });
+
+  it('レコードが含まれていない場合はデータ全体のエラーを返す', () => {
+    const result = parseMarc21(new TextEncoder().encode('\n'));
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toMatchObject({ type: 'VALIDATION_ERROR', field: 'data' });
+    }
+  });
+});
+
+// ============================================
+// parseMarcXml テスト
+// ============================================
+
+describe('parseMarcXml', () => {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- 書誌データ -->
+<marc:collection xmlns:marc="http://www.loc.gov/MARC21/slim">
+  <marc:record>
+    <marc:leader>00000nam a2200000 i 4500</marc:leader>
+    <marc:controlfield tag="001">JP12345</marc:controlfield>
+    <marc:datafield tag="245" ind1="1" ind2="0">
+      <marc:subfield code="a">Tom &amp; Jerry &#x3042;</marc:subfield>
+      <marc:subfield code="b"/>
+    </marc:datafield>
+  </marc:record>
+</marc:collection>`;
+
+  it('名前空間接頭辞付きの MARCXML を読み込み、実体参照を復元する', () => {
+    const result = parseMarcXml(xml);
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      const record = result.value[0];
+      expect(record !== undefined && isOk(record)).toBe(true);
+      if (record !== undefined && isOk(record)) {
+        expect(record.value.leader).toBe('00000nam a2200000 i 4500');
+        expect(record.value.controlFields).toEqual([{ tag: '001', value: 'JP12345' }]);
+        expect(record.value.dataFields[0]?.subfields).toEqual([
+          { code: 'a', value: 'Tom & Jerry あ' },
+          { code: 'b', value: '' },
+        ]);
+      }
+    }
+  });
+
+  it('tag 属性が不正なフィールドを含むレコードはそのレコードのみエラーとする', () => {
+    const result = parseMarcXml(`<collection>
+  <record><datafield tag="24" ind1=" " ind2=" "><subfield code="a">x</subfield></datafield></record>
+  <record><datafield tag="245" ind1=" " ind2=" "><subfield code="a">y</subfield></datafield></record>
+</collection>`);
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.map((record) => record.success)).toEqual([false, true]);
+    }
+  });
+
+  it('終了タグが対応していない場合はデータ全体のエラーを返す', () => {
+    const result = parseMarcXml('<collection><record><leader>x</record></collection>');
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toMatchObject({ type: 'VALIDATION_ERROR', field: 'data' });
+    }
+  });
+
+  it('record 要素がない場合はデータ全体のエラーを返す', () => {
+    const result = parseMarcXml('<collection></collection>');
+
+    expect(isErr(result)).toBe(true);
+  });
+});
+
+// ============================================
+// marcRecordToBookInput テスト
+// ============================================
+
+describe('marcRecordToBookInput', () => {
+  it('書誌項目を書籍登録入力に変換し、ISBD区切り記号とISBNの付記を除く', () => {
+    const result = parseMarc21(buildMarc21Record(sampleFields));
+    const record = isOk(result) ? result.value[0] : undefined;
+    if (record === undefined || !isOk(record)) {
+      throw new Error('レコードを読み込めませんでした');
+    }
+
+    expect(marcRecordToBookInput(record.value)).toEqual({
+      title: '吾輩は猫である',
+      author: '夏目漱石',
+      publisher: '岩波書店',
+      publicationYear: 1990,
+      isbn: '9784003101018',
+      category: '日本文学',
+    });
+  });
+
+  it('「姓, 名」形式の個人名（100 $a）は1人の著者として扱う', () => {
+    const result = parseMarc21(
+      buildMarc21Record([
+        { tag: '100', indicators: '1 ', subfields: [['a', 'Tolkien, John Ronald Reuel,']] },
+        { tag: '245', indicators: '14', subfields: [['a', 'The hobbit /']] },
+      ])
+    );
+    const record = isOk(result) ? result.value[0] : undefined;
+    if (record === undefined || !isOk(record)) {
+      throw new Error('レコードを読み込めませんでした');
+    }
+
+    const input = marcRecordToBookInput(record.value);
+
+    expect(input.author).toBe('Tolkien, John Ronald Reuel');
+    expect(parseContributors(input.author ?? '')).toEqual([
+      { name: 'Tolkien, John Ronald Reuel', role: 'AUTHOR' },
+    ]);
+  });
+
+  it('264 がない場合は 260 を、出版年がない場合は 008 の日付を使う', () => {
+    const record: MarcRecord = {
+      leader: '00000nam a2200000   4500',
+      controlFields: [{ tag: '008', value: '240101s1905    ja            000 0 jpn d' }],
+      dataFields: [
+        {
+          tag: '245',
+          ind1: '0',
+          ind2: '0',
+          subfields: [
+            { code: 'a', value: '坊っちゃん :' },
+            { code: 'b', value: '小説.' },
+          ],
+        },
+        { tag: '260', ind1: ' ', ind2: ' ', subfields: [{ code: 'b', value: '春陽堂' }] },
+        { tag: '700', ind1: '1', ind2: ' ', subfields: [{ code: 'a', value: '夏目漱石' }] },
+      ],
+    };
+
+    expect(marcRecordToBookInput(record)).toEqual({
+      title: '坊っちゃん : 小説',
+      author: '夏目漱石',
+      publisher: '春陽堂',
+      publicationYear: 1905,
+      isbn: '',
+      category: null,
+    });
+  });
+});
+
+// ============================================
+// bookToMarcRecord / serializeMarcXml テスト
+// ============================================
+
+describe('bookToMarcRecord', () => {
+  it('書籍をMARCレコードに変換し、取り込み時に同じ書籍入力に戻る', () => {
+    const record = bookToMarcRecord(createMockBook());
+
+    expect(record.leader).toHaveLength(24);
+    expect(record.controlFields.find((f) => f.tag === '008')?.value).toHaveLength(40);
+    expect(marcRecordToBookInput(record)).toEqual({
+      title: '吾輩は猫である',
+      author: '夏目漱石',
+      publisher: '岩波書店',
+      publicationYear: 1990,
+      isbn: '9784003101018',
+      category: '日本文学',
+    });
+  });
+
+  it('分類がない書籍は 650 を出力しない', () => {
+    const record = bookToMarcRecord(createMockBook({ category: null }));
+
+    expect(record.dataFields.map((f) => f.tag)).not.toContain('650');
+  });
+});
+
+describe('serializeMarcXml', () => {
+  it('特殊文字をエスケープした MARCXML を出力し、読み込むと同じレコードに戻る', () => {
+    const record = bookToMarcRecord(createMockBook({ title: 'Tom & Jerry <完全版>' }));
+
+    const xml = serializeMarcXml([record]);
+    const result = parseMarcXml(xml);
+
+    expect(xml).toContain('<collection xmlns="http://www.loc.gov/MARC21/slim">');
+    expect(xml).toContain('Tom &amp; Jerry &lt;完全版&gt;');
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value[0]).toEqual({ success: true, value: record });
+    }
+  });
+});
@@ -0,0 +1,577 @@
+/**
+ * MARC レコード変換
+ *
+ * MARC21（ISO 2709 バイナリ）・MARCXML の読み込みと MARCXML への書き出し、
+ * MARCレコードと書籍マスタの相互変換を提供します。
+ *
+ * 書籍マスタへの対応:
+ * - タイトル: 245 $a（$b があれば「 : 」で連結）
+ * - 著者: 100 / 110 / 111 $a（なければ 700 $a）
+ * - 出版社: 264 $b（第2インディケータ1を優先、なければ 260 $b）
+ * - 出版年: 264 / 260 $c の4桁の年（なければ 008 の日付1）
+ * - ISBN: 020 $a（「(pbk.)」などの付記は除く）
+ * - 分類: 650 $a（なければ 651 / 655 $a）
+ *
+ * バイナリ形式の文字列はUTF-8として読み込みます（MARC-8のレコードはASCIIの範囲のみ正しく読み込める）。
+ */
+
+import { TextDecoder } from 'node:util';
+import type { Result } from '../../shared/result.js';
+import { ok, err } from '../../shared/result.js';
+import type {
+  Book,
+  BookError,
+  CreateBookInput,
+  MarcControlField,
+  MarcDataField,
+  MarcRecord,
+  MarcSubfield,
+} from './types.js';
+
+// ============================================
+// 定数
+// ============================================
+
+/** レコード終端文字 */
+const RECORD_TERMINATOR = 0x1d;
+
+/** フィールド終端文字 */
+const FIELD_TERMINATOR = 0x1e;
+
+/** サブフィールド区切り文字 */
+const SUBFIELD_DELIMITER = 0x1f;
+
+/** リーダーの長さ */
+const LEADER_LENGTH = 24;
+
+/** ディレクトリの1エントリの長さ（タグ3 + フィールド長4 + 開始位置5） */
+const DIRECTORY_ENTRY_LENGTH = 12;
+
+/** MARCXML の名前空間 */
+const MARCXML_NAMESPACE = 'http://www.loc.gov/MARC21/slim';
+
+/** 書き出すレコードのリーダー（言語資料・単行資料、ISBD区切り記号を使用） */
+const EXPORT_LEADER = '00000nam a2200000 i 4500';
+
+/** XMLのタグ・コメント・処理命令・CDATAに一致するパターン */
+const XML_TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([A-Za-z_][\w.:-]*)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+
+/** XMLの属性に一致するパターン */
+const XML_ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/** XMLの定義済み実体参照 */
+const XML_ENTITIES: Readonly<Record<string, string>> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+// ============================================
+// ヘルパー関数
+// ============================================
+
+/**
+ * レコード単位の読み込みエラーを作成
+ */
+function recordError(message: string): BookError {
+  return { type: 'VALIDATION_ERROR', field: 'record', message };
+}
+
+/**
+ * 制御フィールド（00X）のタグか判定
+ */
+function isControlTag(tag: string): boolean {
+  return tag.startsWith('00');
+}
+
+/**
+ * 固定長の数値項目を読み取る（数字以外を含む場合はnull）
+ */
+function parseFixedNumber(value: string): number | null {
+  return /^\d+$/.test(value) ? parseInt(value, 10) : null;
+}
+
+/**
+ * XMLの実体参照・文字参照を復元
+ */
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9A-Fa-f]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * XMLの特殊文字をエスケープ
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * XMLタグの属性を読み取る
+ */
+function parseXmlAttributes(source: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const match of source.matchAll(XML_ATTRIBUTE_PATTERN)) {
+    const name = match[1] ?? '';
+    attributes.set(name, decodeXmlEntities(match[2] ?? match[3] ?? ''));
+  }
+  return attributes;
+}
+
+/**
+ * 名前空間接頭辞を除いた要素名を取得
+ */
+function localName(name: string): string {
+  const index = name.indexOf(':');
+  return index === -1 ? name : name.slice(index + 1);
+}
+
+// ============================================
+// MARC21（ISO 2709）の読み込み
+// ============================================
+
+/**
+ * 1件分のバイナリレコードを読み込む
+ */
+function parseMarc21Record(bytes: Uint8Array, decoder: TextDecoder): Result<MarcRecord, BookError> {
+  if (bytes.length < LEADER_LENGTH) {
+    return err(recordError('リーダーが24バイトに満たないため読み込めません'));
+  }
+
+  const leader = decoder.decode(bytes.subarray(0, LEADER_LENGTH));
+  const baseAddress = parseFixedNumber(leader.slice(12, 17));
+  if (baseAddress === null || baseAddress <= LEADER_LENGTH || baseAddress > bytes.length) {
+    return err(recordError('リーダーのデータ開始位置が不正です'));
+  }
+
+  // ディレクトリはリーダーの直後からデータ開始位置の直前のフィールド終端文字まで
+  const directory = decoder.decode(bytes.subarray(LEADER_LENGTH, baseAddress - 1));
+  if (directory.length % DIRECTORY_ENTRY_LENGTH !== 0) {
+    return err(recordError('ディレクトリの長さが不正です'));
+  }
+
+  const controlFields: MarcControlField[] = [];
+  const dataFields: MarcDataField[] = [];
+
+  for (let offset = 0; offset < directory.length; offset += DIRECTORY_ENTRY_LENGTH) {
+    const entry = directory.slice(offset, offset + DIRECTORY_ENTRY_LENGTH);
+    const tag = entry.slice(0, 3);
+    const length = parseFixedNumber(entry.slice(3, 7));
+    const start = parseFixedNumber(entry.slice(7, 12));
+    if (length === null || start === null || baseAddress + start + length > bytes.length) {
+      return err(recordError(`フィールド ${tag} のディレクトリが不正です`));
+    }
+
+    let fieldBytes = bytes.subarray(baseAddress + start, baseAddress + start + length);
+    if (fieldBytes[fieldBytes.length - 1] === FIELD_TERMINATOR) {
+      fieldBytes = fieldBytes.subarray(0, fieldBytes.length - 1);
+    }
+
+    if (isControlTag(tag)) {
+      controlFields.push({ tag, value: decoder.decode(fieldBytes) });
+      continue;
+    }
+
+    // データフィールド: インディケータ2文字に続いてサブフィールド区切り文字で区切られたサブフィールド
+    const subfields: MarcSubfield[] = [];
+    let subfieldStart = fieldBytes.indexOf(SUBFIELD_DELIMITER);
+    while (subfieldStart !== -1) {
+      const next = fieldBytes.indexOf(SUBFIELD_DELIMITER, subfieldStart + 1);
+      const subfieldBytes = fieldBytes.subarray(subfieldStart + 1, next === -1 ? undefined : next);
+      if (subfieldBytes.length > 0) {
+        subfields.push({
+          code: decoder.decode(subfieldBytes.subarray(0, 1)),
+          value: decoder.decode(subfieldBytes.subarray(1)),
+        });
+      }
+      subfieldStart = next;
+    }
+
+    const indicators = decoder.decode(fieldBytes.subarray(0, 2)).padEnd(2, ' ');
+    dataFields.push({
+      tag,
+      ind1: indicators.charAt(0),
+      ind2: indicators.charAt(1),
+      subfields,
+    });
+  }
+
+  return ok({ leader, controlFields, dataFields });
+}
+
+/**
+ * MARC21（ISO 2709 バイナリ）のレコード群を読み込む
+ * 読み込めないレコードはそのレコードのエラーとし、後続のレコードの読み込みは続ける
+ * @param data - MARC21 バイナリデータ
+ * @returns レコードごとの読み込み結果、またはレコードが1件もない場合のエラー
+ */
+export function parseMarc21(data: Uint8Array): Result<Result<MarcRecord, BookError>[], BookError> {
+  const decoder = new TextDecoder('utf-8');
+  const records: Result<MarcRecord, BookError>[] = [];
+
+  let start = 0;
+  while (start < data.length) {
+    const end = data.indexOf(RECORD_TERMINATOR, start);
+    const bytes = data.subarray(start, end === -1 ? data.length : end);
+    start = end === -1 ? data.length : end + 1;
+
+    // レコード間・末尾の改行などの空白のみの断片は無視する
+    if (decoder.decode(bytes).trim() === '') {
+      continue;
+    }
+    records.push(parseMarc21Record(bytes, decoder));
+  }
+
+  if (records.length === 0) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'data',
+      message: 'MARC21レコードが含まれていません',
+    });
+  }
+  return ok(records);
+}
+
+// ============================================
+// MARCXML の読み込み
+// ============================================
+
+/** MARCXML読み込み中のレコード */
+interface PendingRecord {
+  leader: string;
+  controlFields: MarcControlField[];
+  dataFields: MarcDataField[];
+  error: string | null;
+}
+
+/**
+ * MARCXML のレコード群を読み込む
+ * XMLとして正しくない場合は全体のエラーとし、タグの欠けたフィールドはそのレコードのエラーとする
+ * @param xml - MARCXML 文書（collection または record 要素）
+ * @returns レコードごとの読み込み結果、またはXMLの形式エラー
+ */
+export function parseMarcXml(xml: string): Result<Result<MarcRecord, BookError>[], BookError> {
+  const documentError = (message: string): Result<Result<MarcRecord, BookError>[], BookError> =>
+    err({ type: 'VALIDATION_ERROR', field: 'data', message });
+
+  const records: Result<MarcRecord, BookError>[] = [];
+  const stack: string[] = [];
+  let record: PendingRecord | null = null;
+  let dataField: { tag: string; ind1: string; ind2: string; subfields: MarcSubfield[] } | null =
+    null;
+  let text = '';
+  let lastIndex = 0;
+
+  /**
+   * 要素の開始を処理
+   */
+  const open = (name: string, attributes: Map<string, string>): void => {
+    text = '';
+    switch (name) {
+      case 'record':
+        record = { leader: '', controlFields: [], dataFields: [], error: null };
+        break;
+      case 'datafield': {
+        const tag = attributes.get('tag') ?? '';
+        if (record !== null && !/^\d{3}$/.test(tag)) {
+          record.error = 'datafield 要素の tag 属性が不正です';
+        }
+        dataField = {
+          tag,
+          ind1: attributes.get('ind1') ?? ' ',
+          ind2: attributes.get('ind2') ?? ' ',
+          subfields: [],
+        };
+        break;
+      }
+    }
+  };
+
+  /**
+   * 要素の終了を処理
+   */
+  const close = (name: string, attributes: Map<string, string>): void => {
+    const value = decodeXmlEntities(text);
+    text = '';
+    if (record === null) {
+      return;
+    }
+    switch (name) {
+      case 'leader':
+        record.leader = value;
+        break;
+      case 'controlfield': {
+        const tag = attributes.get('tag') ?? '';
+        if (!/^\d{3}$/.test(tag)) {
+          record.error = 'controlfield 要素の tag 属性が不正です';
+        }
+        record.controlFields.push({ tag, value });
+        break;
+      }
+      case 'subfield':
+        dataField?.subfields.push({ code: attributes.get('code') ?? '', value });
+        break;
+      case 'datafield':
+        if (dataField !== null) {
+          record.dataFields.push(dataField);
+        }
+        dataField = null;
+        break;
+      case 'record':
+        records.push(
+          record.error !== null
+            ? err(recordError(record.error))
+            : ok({
+                leader: record.leader,
+                controlFields: record.controlFields,
+                dataFields: record.dataFields,
+              })
+        );
+        record = null;
+        break;
+    }
+  };
+
+  // 開始タグの属性は終了時にも参照するため、要素名とともに保持する
+  const attributeStack: Map<string, string>[] = [];
+
+  for (const match of xml.matchAll(XML_TOKEN_PATTERN)) {
+    const between = xml.slice(lastIndex, match.index);
+    lastIndex = match.index + match[0].length;
+    if (between.includes('<')) {
+      return documentError('XMLの形式が正しくありません');
+    }
+    text += between;
+
+    const cdata = match[1];
+    if (cdata !== undefined) {
+      text += cdata.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+      continue;
+    }
+
+    const rawName = match[3];
+    if (rawName === undefined) {
+      // コメント・処理命令・DOCTYPE
+      continue;
+    }
+
+    const name = localName(rawName);
+    const isClosing = match[2] === '/';
+    const isSelfClosing = match[5] === '/';
+
+    if (isClosing) {
+      if (stack.pop() !== name) {
+        return documentError(`${name} 要素の終了タグが開始タグと対応していません`);
+      }
+      close(name, attributeStack.pop() ?? new Map<string, string>());
+      continue;
+    }
+
+    const attributes = parseXmlAttributes(match[4] ?? '');
+    open(name, attributes);
+    if (isSelfClosing) {
+      close(name, attributes);
+    } else {
+      stack.push(name);
+      attributeStack.push(attributes);
+    }
+  }
+
+  if (xml.slice(lastIndex).includes('<') || stack.length > 0) {
+    return documentError('XMLの形式が正しくありません');
+  }
+  if (records.length === 0) {
+    return documentError('MARCXMLレコードが含まれていません');
+  }
+  return ok(records);
+}
+
+// ============================================
+// MARCXML の書き出し
+// ============================================
+
+/**
+ * MARCレコード群を MARCXML の collection 文書に書き出す
+ * @param records - MARCレコード一覧
+ * @returns MARCXML 文書
+ */
+export function serializeMarcXml(records: readonly MarcRecord[]): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<collection xmlns="${MARCXML_NAMESPACE}">`,
+  ];
+
+  for (const record of records) {
+    lines.push('  <record>');
+    lines.push(`    <leader>${escapeXml(record.leader)}</leader>`);
+    for (const field of record.controlFields) {
+      lines.push(
+        `    <controlfield tag="${escapeXml(field.tag)}">${escapeXml(field.value)}</controlfield>`
+      );
+    }
+    for (const field of record.dataFields) {
+      lines.push(
+        `    <datafield tag="${escapeXml(field.tag)}" ind1="${escapeXml(field.ind1)}" ind2="${escapeXml(field.ind2)}">`
+      );
+      for (const subfield of field.subfields) {
+        lines.push(
+          `      <subfield code="${escapeXml(subfield.code)}">${escapeXml(subfield.value)}</subfield>`
+        );
+      }
+      lines.push('    </datafield>');
+    }
+    lines.push('  </record>');
+  }
+
+  lines.push('</collection>');
+  return lines.join('\n') + '\n';
+}
+
+// ============================================
+// 書籍マスタとの相互変換
+// ============================================
+
+/**
+ * 指定タグのフィールドから最初に見つかったサブフィールドの値を取得
+ */
+function findSubfield(
+  record: MarcRecord,
+  tags: readonly string[],
+  code: string,
+  accept: (field: MarcDataField) => boolean = () => true
+): string | null {
+  for (const tag of tags) {
+    for (const field of record.dataFields) {
+      if (field.tag !== tag || !accept(field)) {
+        continue;
+      }
+      const subfield = field.subfields.find((s) => s.code === code && s.value.trim() !== '');
+      if (subfield !== undefined) {
+        return subfield.value;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * 末尾のISBD区切り記号（/ : ; , . =）と空白を除去
+ */
+function stripIsbdPunctuation(value: string): string {
+  return value.replace(/[\s/:;,.=]+$/, '').trim();
+}
+
+/**
+ * 出版年（4桁の年）を取得
+ */
+function findPublicationYear(record: MarcRecord): number | null {
+  const dateStatement =
+    findSubfield(record, ['264'], 'c', (field) => field.ind2 === '1') ??
+    findSubfield(record, ['264', '260'], 'c');
+  const yearMatch = dateStatement?.match(/\d{4}/);
+  if (yearMatch !== undefined && yearMatch !== null) {
+    return parseInt(yearMatch[0], 10);
+  }
+
+  // 008 の 7〜10 文字目（日付1）
+  const fixedData = record.controlFields.find((field) => field.tag === '008')?.value ?? '';
+  return parseFixedNumber(fixedData.slice(7, 11));
+}
+
+/**
+ * MARCレコードを書籍登録入力に変換
+ * 対応するフィールドがない項目は空文字（必須項目）またはnullとし、検証は書籍登録時に行う
+ * @param record - MARCレコード
+ * @returns 書籍登録入力
+ */
+export function marcRecordToBookInput(record: MarcRecord): CreateBookInput {
+  const mainTitle = findSubfield(record, ['245'], 'a');
+  const subtitle = findSubfield(record, ['245'], 'b');
+  const title = [mainTitle, subtitle]
+    .filter((part): part is string => part !== null)
+    .map(stripIsbdPunctuation)
+    .filter((part) => part !== '')
+    .join(' : ');
+
+  const author = findSubfield(record, ['100', '110', '111', '700'], 'a');
+  const publisher =
+    findSubfield(record, ['264'], 'b', (field) => field.ind2 === '1') ??
+    findSubfield(record, ['264', '260'], 'b');
+  const isbn = findSubfield(record, ['020'], 'a');
+  const subject = findSubfield(record, ['650', '651', '655'], 'a');
+
+  return {
+    title,
+    author: author !== null ? stripIsbdPunctuation(author) : '',
+    publisher: publisher !== null ? stripIsbdPunctuation(publisher) : '',
+    publicationYear: findPublicationYear(record),
+    // 「9784003101018 (pbk.)」のような付記を除く
+    isbn: isbn !== null ? (isbn.trim().split(/[\s(]/)[0] ?? '') : '',
+    category: subject !== null ? stripIsbdPunctuation(subject) : null,
+  };
+}
+
+/**
+ * 008 フィールド（固定長データ要素、40文字）を作成
+ */
+function createFixedDataField(book: Book): string {
+  const entered = book.createdAt.toISOString().slice(2, 10).replace(/-/g, '');
+  const date1 = book.publicationYear !== null ? String(book.publicationYear) : '    ';
+  return `${entered}s${date1}    xx ${' '.repeat(17)}und d`;
+}
+
+/**
+ * 書籍マスタをMARCレコードに変換
+ * @param book - 書籍
+ * @returns MARCレコード
+ */
+export function bookToMarcRecord(book: Book): MarcRecord {
+  const dataFields: MarcDataField[] = [
+    { tag: '020', ind1: ' ', ind2: ' ', subfields: [{ code: 'a', value: book.isbn }] },
+    { tag: '100', ind1: '1', ind2: ' ', subfields: [{ code: 'a', value: book.author }] },
+    { tag: '245', ind1: '1', ind2: '0', subfields: [{ code: 'a', value: book.title }] },
+    {
+      tag: '264',
+      ind1: ' ',
+      ind2: '1',
+      subfields: [
+        { code: 'b', value: book.publisher },
+        ...(book.publicationYear !== null
+          ? [{ code: 'c', value: String(book.publicationYear) }]
+          : []),
+      ],
+    },
+  ];
+  if (book.category !== null) {
+    dataFields.push({
+      tag: '650',
+      ind1: ' ',
+      ind2: '4',
+      subfields: [{ code: 'a', value: book.category }],
+    });
+  }
+
+  return {
+    leader: EXPORT_LEADER,
+    controlFields: [
+      { tag: '001', value: book.id },
+      { tag: '008', value: createFixedDataField(book) },
+    ],
+    dataFields,
+  };
+}
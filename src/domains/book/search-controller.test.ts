@@ -43,10 +43,15 @@ function createTestBook(overrides?: Partial<Book>): Book {
     id: 'book-1' as BookId,
     title: 'Test Book',
     author: 'Test Author',
+    contributors: [],
     publisher: 'Test Publisher',
     publicationYear: 2024,
     isbn: '9784123456789',
     category: 'Fiction',
+    classification: null,
+    callNumber: null,
+    subjectHeadings: [],
+    replacementCost: null,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
     ...overrides,
@@ -91,6 +96,15 @@ describe('SearchController', () => {
       expect(mockService.search).toHaveBeenCalledWith(expect.objectContaining({ keyword: 'Test' }));
     });
 
+    it('正常系: 検索結果の書籍に表示用のハイフン区切りISBNを含める', async () => {
+      const books = [createTestBook({ isbn: '9780306406157' })];
+      vi.mocked(mockService.search).mockResolvedValue(ok(createSearchResult(books)));
+
+      const response = await request(app).get('/api/books/search').query({ keyword: '0306406152' });
+
+      expect(response.body.books[0].isbnHyphenated).toBe('978-0-306-40615-7');
+    });
+
     it('正常系: ソートパラメータ付きで検索できる', async () => {
       const books = [
         createTestBook({ id: 'book-1' as BookId, title: 'A Book' }),
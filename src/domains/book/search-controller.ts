@@ -6,6 +6,8 @@
  * エンドポイント:
  * - GET /api/books/search - 検索実行（クエリパラメータ対応）
  *
+ * 検索結果の書籍には表示用のハイフン区切りISBN（isbnHyphenated）を含めます。
+ *
  * Task 3.3: 検索 REST API エンドポイント
  * Requirements: 2.1, 2.3
  */
@@ -13,7 +15,9 @@
 import { Router, type Request, type Response } from 'express';
 import { isOk } from '../../shared/result.js';
 import type { SearchService, SearchInput } from './search-service.js';
+import { toBookResponse } from './book-controller.js';
 import type { SearchSortBy, SearchSortOrder } from './search-repository.js';
+import type { BookResponse } from './types.js';
 
 // ============================================
 // 定数
@@ -75,7 +79,7 @@ function parseSearchSortOrder(value: string | undefined): SearchSortOrder | unde
 
 /** ページネーション付き検索レスポンス */
 interface SearchResponse {
-  readonly books: readonly unknown[];
+  readonly books: readonly BookResponse[];
   readonly total: number;
   readonly page: number;
   readonly limit: number;
@@ -136,7 +140,7 @@ export function createSearchController(searchService: SearchService): Router {
       const totalPages = Math.ceil(total / limit);
 
       const response: SearchResponse = {
-        books,
+        books: books.map(toBookResponse),
         total,
         page,
         limit,
@@ -19,8 +19,10 @@ export type SearchSortOrder = 'asc' | 'desc';
 
 /** 検索入力パラメータ */
 export interface SearchBooksInput {
-  /** 検索キーワード（タイトル、著者、ISBN、カテゴリで部分一致） */
+  /** 検索キーワード（タイトル、著者・寄与者の名前、ISBN、カテゴリで部分一致） */
   readonly keyword: string;
+  /** キーワードをISBNとして解釈できる場合の正規形（ISBN-10・ハイフン付きのキーワードでも書籍のISBNと一致させる） */
+  readonly isbn?: string;
   /** ソートフィールド */
   readonly sortBy?: SearchSortBy;
   /** ソート順序 */
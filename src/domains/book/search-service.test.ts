@@ -23,10 +23,15 @@ function createMockBook(overrides: Partial<Book> = {}): Book {
     id: createBookId('book-123'),
     title: 'テスト書籍',
     author: 'テスト著者',
+    contributors: [],
     publisher: 'テスト出版社',
     publicationYear: 2024,
     isbn: '978-4-12-345678-4',
     category: 'プログラミング',
+    classification: null,
+    callNumber: null,
+    subjectHeadings: [],
+    replacementCost: null,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
     ...overrides,
@@ -112,6 +117,20 @@ describe('SearchService.search', () => {
       }
     });
 
+    it('ISBN-10・ハイフン付きのキーワードは正規形のISBNもリポジトリに渡す', async () => {
+      mockRepository = createMockSearchRepository({
+        search: vi.fn().mockResolvedValue({ books: [], total: 0 }),
+      });
+      service = createSearchService(mockRepository);
+
+      await service.search({ keyword: '4-00-310101-4' });
+
+      expect(mockRepository.search).toHaveBeenCalledWith({
+        keyword: '4-00-310101-4',
+        isbn: '9784003101018',
+      });
+    });
+
     it('カテゴリで検索できる', async () => {
       const books = [
         createMockBook({ id: createBookId('book-1'), category: 'プログラミング' }),
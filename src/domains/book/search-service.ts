@@ -4,11 +4,14 @@
  * 蔵書検索処理を提供します。
  * タイトル、著者、ISBN、カテゴリによる部分一致検索と
  * 検索結果のソート機能を実装します。
+ * ISBNのキーワードは ISBN-10・ハイフン付きなど、いずれの形式でも正規形のISBNと一致します。
+ * 著者のキーワードは編者・訳者・画家を含む寄与者の名前とも一致します。
  * Task 3.2: 詳細検索とフィルタリング機能（出版年範囲、カテゴリ、貸出可能のみ）
  */
 
 import type { Result } from '../../shared/result.js';
-import { ok } from '../../shared/result.js';
+import { ok, isOk } from '../../shared/result.js';
+import { normalizeISBN } from '../../shared/isbn.js';
 import type {
   SearchRepository,
   SearchBooksInput,
@@ -23,7 +26,7 @@ import type {
 
 /** 検索サービスの検索入力 */
 export interface SearchInput {
-  /** 検索キーワード（タイトル、著者、ISBN、カテゴリで部分一致） */
+  /** 検索キーワード（タイトル、著者・寄与者の名前、ISBN、カテゴリで部分一致） */
   readonly keyword: string;
   /** ソートフィールド */
   readonly sortBy?: SearchSortBy;
@@ -61,8 +64,10 @@ export interface SearchService {
 export function createSearchService(repository: SearchRepository): SearchService {
   return {
     async search(input: SearchInput): Promise<Result<SearchBooksResult, never>> {
+      const isbnResult = normalizeISBN(input.keyword);
       const searchParams: SearchBooksInput = {
         keyword: input.keyword,
+        ...(isOk(isbnResult) && { isbn: isbnResult.value }),
         ...(input.sortBy !== undefined && { sortBy: input.sortBy }),
         ...(input.sortOrder !== undefined && { sortOrder: input.sortOrder }),
         ...(input.publicationYearFrom !== undefined && {
@@ -4,7 +4,123 @@
  * 蔵書管理ドメインの型定義を提供します。
  */
 
-import type { BookId, CopyId } from '../../shared/branded-types.js';
+import type {
+  BookId,
+  ClassificationId,
+  CopyId,
+  PersonId,
+  SubjectHeadingId,
+} from '../../shared/branded-types.js';
+
+// ============================================
+// 寄与者（著者・編者・訳者・画家）型定義
+// ============================================
+
+/**
+ * 書籍への寄与の役割
+ * - AUTHOR: 著者
+ * - EDITOR: 編者
+ * - TRANSLATOR: 訳者
+ * - ILLUSTRATOR: 画家（挿絵）
+ */
+export type ContributorRole = 'AUTHOR' | 'EDITOR' | 'TRANSLATOR' | 'ILLUSTRATOR';
+
+/** 人物（書籍の寄与者。同じ名前の人物は1件にまとめる） */
+export interface Person {
+  readonly id: PersonId;
+  readonly name: string;
+  readonly createdAt: Date;
+}
+
+/** 書籍の寄与者 */
+export interface BookContributor {
+  readonly personId: PersonId;
+  readonly name: string;
+  readonly role: ContributorRole;
+  /** 書籍内での表示順（1始まり） */
+  readonly position: number;
+}
+
+/** 寄与者入力（一覧の順序が表示順になる） */
+export interface ContributorInput {
+  readonly name: string;
+  readonly role: ContributorRole;
+}
+
+/** 寄与者別の書籍一覧 */
+export interface ContributorBooks {
+  readonly person: Person;
+  readonly books: readonly Book[];
+}
+
+// ============================================
+// 分類・件名標目型定義
+// ============================================
+
+/**
+ * 分類表
+ * - NDC: 日本十進分類法
+ * - DDC: デューイ十進分類法
+ */
+export type ClassificationScheme = 'NDC' | 'DDC';
+
+/** 分類（分類表の階層の1項目） */
+export interface Classification {
+  readonly id: ClassificationId;
+  readonly scheme: ClassificationScheme;
+  /** 分類記号（例: 913.6） */
+  readonly number: string;
+  /** 分類名（例: 小説．物語） */
+  readonly label: string;
+  /** 上位の分類ID（最上位はnull） */
+  readonly parentId: ClassificationId | null;
+  /** 階層の深さ（最上位が1） */
+  readonly level: number;
+  readonly createdAt: Date;
+}
+
+/** 分類の閲覧結果 */
+export interface ClassificationNode {
+  readonly classification: Classification;
+  /** 上位の分類（最上位から順に並べ、自身は含まない） */
+  readonly ancestors: readonly Classification[];
+  /** 直下の分類（分類記号順） */
+  readonly children: readonly Classification[];
+}
+
+/** 分類登録入力 */
+export interface CreateClassificationInput {
+  readonly scheme: ClassificationScheme;
+  readonly number: string;
+  readonly label: string;
+  /** 上位の分類ID（省略時は最上位の分類。上位の分類と同じ分類表であること） */
+  readonly parentId?: ClassificationId | null;
+}
+
+/** 件名標目（統制語彙の1語） */
+export interface SubjectHeading {
+  readonly id: SubjectHeadingId;
+  /** 優先語 */
+  readonly label: string;
+  /** 同義語・表記ゆれ（件名の検索とカテゴリの対応付けに使用） */
+  readonly alternateLabels: readonly string[];
+  /** 対応する分類ID */
+  readonly classificationId: ClassificationId | null;
+  readonly createdAt: Date;
+}
+
+/** 件名標目登録入力 */
+export interface CreateSubjectHeadingInput {
+  readonly label: string;
+  readonly alternateLabels?: readonly string[];
+  readonly classificationId?: ClassificationId | null;
+}
+
+/** 書籍に付与した分類 */
+export type BookClassification = Pick<Classification, 'id' | 'scheme' | 'number' | 'label'>;
+
+/** 書籍に付与した件名標目 */
+export type BookSubjectHeading = Pick<SubjectHeading, 'id' | 'label'>;
 
 // ============================================
 // 書籍マスタ型定義
@@ -14,46 +130,111 @@ import type { BookId, CopyId } from '../../shared/branded-types.js';
 export interface Book {
   readonly id: BookId;
   readonly title: string;
+  /** 著者表示（寄与者を表示順に並べた文字列。例: 山田太郎, 佐藤花子 訳） */
   readonly author: string;
+  /** 寄与者一覧（表示順） */
+  readonly contributors: readonly BookContributor[];
   readonly publisher: string;
   readonly publicationYear: number | null;
   readonly isbn: string;
   readonly category: string | null;
+  /** 分類 */
+  readonly classification: BookClassification | null;
+  /** 請求記号（例: 913.6/ナ） */
+  readonly callNumber: string | null;
+  /** 件名標目一覧（表示順） */
+  readonly subjectHeadings: readonly BookSubjectHeading[];
+  /** 紛失・破損時に請求する弁償金額（円、nullの場合はデフォルトの弁償金額） */
+  readonly replacementCost: number | null;
   readonly createdAt: Date;
   readonly updatedAt: Date;
 }
 
-/** 書籍登録入力 */
+/** 書籍のAPIレスポンス */
+export interface BookResponse extends Book {
+  /** 表示用のハイフン区切りISBN（例: 978-4-00-310101-8） */
+  readonly isbnHyphenated: string;
+}
+
+/**
+ * 書籍登録入力
+ *
+ * author・contributors の一方を省略した場合はもう一方から作成する（両方の省略は不可）
+ */
 export interface CreateBookInput {
   readonly title: string;
-  readonly author: string;
+  /** 著者表示（省略時は寄与者一覧から作成） */
+  readonly author?: string;
+  /** 寄与者一覧（省略時は著者表示を区切って作成） */
+  readonly contributors?: readonly ContributorInput[];
   readonly publisher: string;
   readonly publicationYear?: number | null;
   readonly isbn: string;
   readonly category?: string | null;
+  readonly classificationId?: ClassificationId | null;
+  readonly callNumber?: string | null;
+  /** 件名標目ID一覧（一覧の順序が表示順になる） */
+  readonly subjectHeadingIds?: readonly SubjectHeadingId[];
+  readonly replacementCost?: number | null;
 }
 
-/** 書籍更新入力 */
+/**
+ * 書籍更新入力
+ *
+ * author・contributors の一方だけを指定した場合はもう一方も合わせて更新する
+ */
 export interface UpdateBookInput {
   readonly title?: string;
   readonly author?: string;
+  /** 寄与者一覧（指定した場合は登録済みの寄与者をすべて置き換える） */
+  readonly contributors?: readonly ContributorInput[];
   readonly publisher?: string | null;
   readonly publicationYear?: number | null;
   readonly isbn?: string;
   readonly category?: string | null;
+  readonly classificationId?: ClassificationId | null;
+  readonly callNumber?: string | null;
+  /** 件名標目ID一覧（指定した場合は付与済みの件名標目をすべて置き換える） */
+  readonly subjectHeadingIds?: readonly SubjectHeadingId[];
+  readonly replacementCost?: number | null;
 }
 
 // ============================================
 // 蔵書コピー型定義
 // ============================================
 
-/** 蔵書コピーステータス */
-export type BookCopyStatus = 'AVAILABLE' | 'BORROWED' | 'RESERVED' | 'MAINTENANCE';
+/**
+ * 蔵書コピーステータス
+ *
+ * LOST / DAMAGED は紛失・破損により貸出対象から除外された状態
+ */
+export type BookCopyStatus =
+  | 'AVAILABLE'
+  | 'BORROWED'
+  | 'RESERVED'
+  | 'MAINTENANCE'
+  | 'LOST'
+  | 'DAMAGED';
+
+/**
+ * 図書館員が手動で変更できる蔵書コピーステータスの遷移（変更前 → 変更後）
+ *
+ * BORROWED / RESERVED への変更と、それらからの変更は貸出・予約の処理でのみ行う。
+ * 貸出中に紛失・破損した蔵書の取消は弁償金の返金を伴うため、貸出の処理で行う。
+ */
+export const MANUAL_COPY_STATUS_TRANSITIONS: Readonly<
+  Partial<Record<BookCopyStatus, readonly BookCopyStatus[]>>
+> = {
+  AVAILABLE: ['MAINTENANCE', 'LOST', 'DAMAGED'],
+  MAINTENANCE: ['AVAILABLE', 'LOST', 'DAMAGED'],
+};
 
 /** 蔵書コピー */
 export interface BookCopy {
   readonly id: CopyId;
   readonly bookId: BookId;
+  /** 蔵書コピーに貼付するバーコード（蔵書全体で一意） */
+  readonly barcode: string;
   readonly location: string;
   readonly status: BookCopyStatus;
   readonly createdAt: Date;
@@ -63,6 +244,102 @@ export interface BookCopy {
 export interface CreateCopyInput {
   readonly location: string;
   readonly status?: BookCopyStatus;
+  /** 既存のラベルのバーコード（省略時は自動採番する） */
+  readonly barcode?: string;
+}
+
+// ============================================
+// バーコード設定
+// ============================================
+
+/** 蔵書コピーのバーコード自動採番設定 */
+export interface BarcodeConfig {
+  /** バーコードの先頭に付ける接頭辞（英大文字・数字） */
+  readonly prefix: string;
+  /** 連番部分の桁数（不足分は0で埋める） */
+  readonly sequenceDigits: number;
+}
+
+/** デフォルトのバーコード自動採番設定 */
+export const DEFAULT_BARCODE_CONFIG: BarcodeConfig = {
+  prefix: 'LIB',
+  sequenceDigits: 8,
+};
+
+// ============================================
+// MARCレコード型定義
+// ============================================
+
+/** MARC制御フィールド（001〜009） */
+export interface MarcControlField {
+  readonly tag: string;
+  readonly value: string;
+}
+
+/** MARCサブフィールド */
+export interface MarcSubfield {
+  readonly code: string;
+  readonly value: string;
+}
+
+/** MARCデータフィールド（010以降） */
+export interface MarcDataField {
+  readonly tag: string;
+  readonly ind1: string;
+  readonly ind2: string;
+  readonly subfields: readonly MarcSubfield[];
+}
+
+/** MARCレコード */
+export interface MarcRecord {
+  readonly leader: string;
+  readonly controlFields: readonly MarcControlField[];
+  readonly dataFields: readonly MarcDataField[];
+}
+
+/**
+ * MARCレコードの形式
+ * - MARC21: ISO 2709 バイナリ形式
+ * - MARCXML: MARC21 XML スキーマ
+ */
+export type MarcFormat = 'MARC21' | 'MARCXML';
+
+/**
+ * 取り込むレコードのISBNが既に登録されている場合の扱い
+ * - UPDATE: 登録済みの書籍をレコードの内容で更新する
+ * - SKIP: 取り込まずにスキップする
+ */
+export type MarcDuplicateAction = 'UPDATE' | 'SKIP';
+
+/** MARC取り込みオプション */
+export interface MarcImportOptions {
+  readonly format: MarcFormat;
+  readonly onDuplicate: MarcDuplicateAction;
+}
+
+/** MARC取り込みのレコードごとの処理結果 */
+export type MarcImportRecordStatus = 'CREATED' | 'UPDATED' | 'SKIPPED' | 'FAILED';
+
+/** MARC取り込みのレコードごとの結果 */
+export interface MarcImportRecordResult {
+  /** ファイル内でのレコードの位置（0始まり） */
+  readonly index: number;
+  readonly status: MarcImportRecordStatus;
+  readonly bookId: BookId | null;
+  readonly isbn: string | null;
+  readonly title: string | null;
+  readonly error: BookError | null;
+}
+
+/** MARC取り込み結果 */
+export interface MarcImportReport {
+  readonly format: MarcFormat;
+  readonly onDuplicate: MarcDuplicateAction;
+  readonly records: readonly MarcImportRecordResult[];
+  readonly createdCount: number;
+  readonly updatedCount: number;
+  readonly skippedCount: number;
+  readonly failedCount: number;
 }
 
 // ============================================
@@ -73,4 +350,17 @@ export interface CreateCopyInput {
 export type BookError =
   | { readonly type: 'VALIDATION_ERROR'; readonly field: string; readonly message: string }
   | { readonly type: 'DUPLICATE_ISBN'; readonly isbn: string }
+  | { readonly type: 'DUPLICATE_BARCODE'; readonly barcode: string }
+  | {
+      readonly type: 'DUPLICATE_CLASSIFICATION';
+      readonly scheme: ClassificationScheme;
+      readonly number: string;
+    }
+  | { readonly type: 'DUPLICATE_SUBJECT_HEADING'; readonly label: string }
+  | {
+      readonly type: 'INVALID_COPY_STATUS_TRANSITION';
+      readonly copyId: string;
+      readonly from: BookCopyStatus;
+      readonly to: BookCopyStatus;
+    }
   | { readonly type: 'NOT_FOUND'; readonly id: string };
@@ -0,0 +1,238 @@
+/**
+ * CalendarController テスト
+ *
+ * 開館カレンダー管理REST APIエンドポイントのテスト。
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express, { type Express } from 'express';
+import request from 'supertest';
+import { createCalendarController } from './calendar-controller.js';
+import type { AuthenticatedRequest } from '../auth/rbac.js';
+import type { UserRole } from '../auth/types.js';
+import type { CalendarService } from './calendar-service.js';
+import type { Holiday, Closure, WeeklyHours } from './types.js';
+import { createHolidayId, createClosureId, createUserId } from '../../shared/branded-types.js';
+import { ok, err } from '../../shared/result.js';
+
+// ============================================
+// モックヘルパー
+// ============================================
+
+function createMockCalendarService(): CalendarService {
+  return {
+    getOpeningCalendar: vi.fn(),
+    getWeeklyHours: vi.fn(),
+    updateWeeklyHours: vi.fn(),
+    getHolidays: vi.fn(),
+    createHoliday: vi.fn(),
+    deleteHoliday: vi.fn(),
+    getClosures: vi.fn(),
+    createClosure: vi.fn(),
+    deleteClosure: vi.fn(),
+  };
+}
+
+function createTestApp(calendarService: CalendarService, role?: UserRole): Express {
+  const app = express();
+  app.use(express.json());
+  if (role !== undefined) {
+    app.use((req: AuthenticatedRequest, _res, next) => {
+      req.session = {
+        userId: createUserId('staff-1'),
+        role,
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      };
+      next();
+    });
+  }
+  app.use('/api/calendar', createCalendarController(calendarService));
+  return app;
+}
+
+const testHoliday: Holiday = {
+  id: createHolidayId('holiday-1'),
+  date: '2000-01-01',
+  name: '元日',
+  recurring: true,
+  createdAt: new Date('2024-01-01'),
+};
+
+const testClosure: Closure = {
+  id: createClosureId('closure-1'),
+  startDate: '2024-06-19',
+  endDate: '2024-06-21',
+  reason: '蔵書点検',
+  createdAt: new Date('2024-06-01'),
+};
+
+const testWeeklyHours: WeeklyHours[] = [
+  { weekday: 0, opensAt: null, closesAt: null },
+  { weekday: 1, opensAt: '09:00', closesAt: '19:00' },
+];
+
+// ============================================
+// テスト
+// ============================================
+
+describe('CalendarController', () => {
+  let mockService: CalendarService;
+  let app: Express;
+  let adminApp: Express;
+
+  beforeEach(() => {
+    mockService = createMockCalendarService();
+    app = createTestApp(mockService);
+    adminApp = createTestApp(mockService, 'admin');
+  });
+
+  describe('GET /api/calendar - 開館カレンダー取得', () => {
+    it('正常系: 開館時間・休館日・臨時休館を200で返す', async () => {
+      vi.mocked(mockService.getOpeningCalendar).mockResolvedValue(
+        ok({ weeklyHours: testWeeklyHours, holidays: [testHoliday], closures: [testClosure] })
+      );
+
+      const response = await request(app).get('/api/calendar');
+
+      expect(response.status).toBe(200);
+      expect(response.body.weeklyHours).toHaveLength(2);
+      expect(response.body.holidays[0].name).toBe('元日');
+      expect(response.body.closures[0].reason).toBe('蔵書点検');
+    });
+  });
+
+  describe('PUT /api/calendar/hours - 開館時間更新', () => {
+    it('正常系: 開館時間を更新して200を返す', async () => {
+      vi.mocked(mockService.updateWeeklyHours).mockResolvedValue(ok(testWeeklyHours));
+
+      const response = await request(adminApp)
+        .put('/api/calendar/hours')
+        .send({ hours: testWeeklyHours });
+
+      expect(response.status).toBe(200);
+      expect(mockService.updateWeeklyHours).toHaveBeenCalledWith({ hours: testWeeklyHours });
+    });
+
+    it('異常系: hoursが配列でない場合は400を返す', async () => {
+      const response = await request(adminApp).put('/api/calendar/hours').send({ hours: 'closed' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('hours');
+      expect(mockService.updateWeeklyHours).not.toHaveBeenCalled();
+    });
+
+    it('異常系: サービスのバリデーションエラーで400を返す', async () => {
+      vi.mocked(mockService.updateWeeklyHours).mockResolvedValue(
+        err({
+          type: 'VALIDATION_ERROR',
+          field: 'hours',
+          message: '全ての曜日を定休日にすることはできません',
+        })
+      );
+
+      const response = await request(adminApp).put('/api/calendar/hours').send({ hours: [] });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('異常系: 図書館員の場合は403を返す', async () => {
+      const librarianApp = createTestApp(mockService, 'librarian');
+
+      const response = await request(librarianApp)
+        .put('/api/calendar/hours')
+        .send({ hours: testWeeklyHours });
+
+      expect(response.status).toBe(403);
+      expect(mockService.updateWeeklyHours).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/calendar/holidays - 休館日登録', () => {
+    it('正常系: 休館日を登録して201を返す', async () => {
+      vi.mocked(mockService.createHoliday).mockResolvedValue(ok(testHoliday));
+
+      const response = await request(adminApp)
+        .post('/api/calendar/holidays')
+        .send({ date: '2000-01-01', name: '元日', recurring: true });
+
+      expect(response.status).toBe(201);
+      expect(mockService.createHoliday).toHaveBeenCalledWith({
+        date: '2000-01-01',
+        name: '元日',
+        recurring: true,
+      });
+    });
+  });
+
+  describe('DELETE /api/calendar/holidays/:id - 休館日削除', () => {
+    it('正常系: 休館日を削除して204を返す', async () => {
+      vi.mocked(mockService.deleteHoliday).mockResolvedValue(ok(undefined));
+
+      const response = await request(adminApp).delete('/api/calendar/holidays/holiday-1');
+
+      expect(response.status).toBe(204);
+      expect(mockService.deleteHoliday).toHaveBeenCalledWith('holiday-1');
+    });
+
+    it('異常系: 存在しない休館日の場合は404を返す', async () => {
+      vi.mocked(mockService.deleteHoliday).mockResolvedValue(
+        err({ type: 'HOLIDAY_NOT_FOUND', holidayId: 'holiday-999' })
+      );
+
+      const response = await request(adminApp).delete('/api/calendar/holidays/holiday-999');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/calendar/closures - 臨時休館登録', () => {
+    it('正常系: 臨時休館を登録して201を返す', async () => {
+      vi.mocked(mockService.createClosure).mockResolvedValue(ok(testClosure));
+
+      const response = await request(adminApp)
+        .post('/api/calendar/closures')
+        .send({ startDate: '2024-06-19', endDate: '2024-06-21', reason: '蔵書点検' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.reason).toBe('蔵書点検');
+    });
+
+    it('異常系: 未認証の場合は401を返す', async () => {
+      const response = await request(app)
+        .post('/api/calendar/closures')
+        .send({ startDate: '2024-06-19', reason: '蔵書点検' });
+
+      expect(response.status).toBe(401);
+      expect(mockService.createClosure).not.toHaveBeenCalled();
+    });
+
+    it('正常系: 終了日を省略した場合は開始日の1日のみとする', async () => {
+      vi.mocked(mockService.createClosure).mockResolvedValue(
+        ok({ ...testClosure, endDate: '2024-06-19' })
+      );
+
+      await request(adminApp)
+        .post('/api/calendar/closures')
+        .send({ startDate: '2024-06-19', reason: '館内整理' });
+
+      expect(mockService.createClosure).toHaveBeenCalledWith({
+        startDate: '2024-06-19',
+        endDate: '2024-06-19',
+        reason: '館内整理',
+      });
+    });
+  });
+
+  describe('DELETE /api/calendar/closures/:id - 臨時休館削除', () => {
+    it('異常系: 存在しない臨時休館の場合は404を返す', async () => {
+      vi.mocked(mockService.deleteClosure).mockResolvedValue(
+        err({ type: 'CLOSURE_NOT_FOUND', closureId: 'closure-999' })
+      );
+
+      const response = await request(adminApp).delete('/api/calendar/closures/closure-999');
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * CalendarController - 開館カレンダー管理REST APIコントローラー
+ *
+ * 開館カレンダー管理のREST APIエンドポイントを提供します。
+ * 開館時間・休館日・臨時休館の変更は返却期限の計算に影響するため、管理者のみ実行できます。
+ *
+ * エンドポイント:
+ * - GET /api/calendar - 開館カレンダー取得
+ * - GET /api/calendar/hours - 開館時間取得
+ * - PUT /api/calendar/hours - 開館時間更新
+ * - GET /api/calendar/holidays - 休館日一覧取得
+ * - POST /api/calendar/holidays - 休館日登録
+ * - DELETE /api/calendar/holidays/:id - 休館日削除
+ * - GET /api/calendar/closures - 臨時休館一覧取得
+ * - POST /api/calendar/closures - 臨時休館登録
+ * - DELETE /api/calendar/closures/:id - 臨時休館削除
+ */
+
+import { Router, type Request, type Response } from 'express';
+import type { HolidayId, ClosureId } from '../../shared/branded-types.js';
+import { isOk } from '../../shared/result.js';
+import { requireAdmin } from '../auth/rbac.js';
+import type { CalendarService } from './calendar-service.js';
+import type {
+  WeeklyHours,
+  CreateHolidayInput,
+  CreateClosureInput,
+  CalendarError,
+} from './types.js';
+
+// ============================================
+// リクエストボディ型定義
+// ============================================
+
+/** 開館時間更新リクエストボディ */
+interface UpdateWeeklyHoursRequestBody {
+  hours?: unknown;
+}
+
+/** 休館日登録リクエストボディ */
+interface CreateHolidayRequestBody {
+  date?: string;
+  name?: string;
+  recurring?: boolean;
+}
+
+/** 臨時休館登録リクエストボディ */
+interface CreateClosureRequestBody {
+  startDate?: string;
+  endDate?: string;
+  reason?: string;
+}
+
+// ============================================
+// HTTPステータスコード決定
+// ============================================
+
+/**
+ * CalendarErrorに基づいてHTTPステータスコードを決定
+ */
+function getErrorStatusCode(error: CalendarError): number {
+  switch (error.type) {
+    case 'VALIDATION_ERROR':
+      return 400;
+    case 'HOLIDAY_NOT_FOUND':
+    case 'CLOSURE_NOT_FOUND':
+      return 404;
+  }
+}
+
+// ============================================
+// コントローラーファクトリ
+// ============================================
+
+/**
+ * CalendarControllerを作成
+ * @param calendarService - CalendarServiceインスタンス
+ * @returns Expressルーター
+ */
+export function createCalendarController(calendarService: CalendarService): Router {
+  const router = Router();
+
+  // ============================================
+  // GET /api/calendar - 開館カレンダー取得
+  // ============================================
+
+  router.get('/', async (_req: Request, res: Response): Promise<void> => {
+    const result = await calendarService.getOpeningCalendar();
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    }
+    // CalendarService.getOpeningCalendar は never エラーを返すため、else ブランチは到達不可能
+  });
+
+  // ============================================
+  // GET /api/calendar/hours - 開館時間取得
+  // ============================================
+
+  router.get('/hours', async (_req: Request, res: Response): Promise<void> => {
+    const result = await calendarService.getWeeklyHours();
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    }
+    // CalendarService.getWeeklyHours は never エラーを返すため、else ブランチは到達不可能
+  });
+
+  // ============================================
+  // PUT /api/calendar/hours - 開館時間更新
+  // ============================================
+
+  router.put('/hours', requireAdmin, async (req: Request, res: Response): Promise<void> => {
+    const body = (req.body ?? {}) as UpdateWeeklyHoursRequestBody;
+
+    // バリデーション: hoursは配列
+    if (!Array.isArray(body.hours)) {
+      res.status(400).json({
+        error: {
+          type: 'VALIDATION_ERROR',
+          field: 'hours',
+          message: 'hoursは曜日ごとの開館時間の配列で指定してください',
+        },
+      });
+      return;
+    }
+
+    const result = await calendarService.updateWeeklyHours({
+      hours: body.hours as WeeklyHours[],
+    });
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // GET /api/calendar/holidays - 休館日一覧取得
+  // ============================================
+
+  router.get('/holidays', async (_req: Request, res: Response): Promise<void> => {
+    const result = await calendarService.getHolidays();
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    }
+    // CalendarService.getHolidays は never エラーを返すため、else ブランチは到達不可能
+  });
+
+  // ============================================
+  // POST /api/calendar/holidays - 休館日登録
+  // ============================================
+
+  router.post('/holidays', requireAdmin, async (req: Request, res: Response): Promise<void> => {
+    const body = (req.body ?? {}) as CreateHolidayRequestBody;
+    const input: CreateHolidayInput = {
+      date: body.date ?? '',
+      name: body.name ?? '',
+      ...(body.recurring !== undefined && { recurring: body.recurring }),
+    };
+
+    const result = await calendarService.createHoliday(input);
+
+    if (isOk(result)) {
+      res.status(201).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // DELETE /api/calendar/holidays/:id - 休館日削除
+  // ============================================
+
+  router.delete(
+    '/holidays/:id',
+    requireAdmin,
+    async (req: Request, res: Response): Promise<void> => {
+      const holidayId = req.params.id as HolidayId;
+
+      const result = await calendarService.deleteHoliday(holidayId);
+
+      if (isOk(result)) {
+        res.status(204).send();
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // GET /api/calendar/closures - 臨時休館一覧取得
+  // ============================================
+
+  router.get('/closures', async (_req: Request, res: Response): Promise<void> => {
+    const result = await calendarService.getClosures();
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    }
+    // CalendarService.getClosures は never エラーを返すため、else ブランチは到達不可能
+  });
+
+  // ============================================
+  // POST /api/calendar/closures - 臨時休館登録
+  // ============================================
+
+  router.post('/closures', requireAdmin, async (req: Request, res: Response): Promise<void> => {
+    const body = (req.body ?? {}) as CreateClosureRequestBody;
+    const input: CreateClosureInput = {
+      startDate: body.startDate ?? '',
+      endDate: body.endDate ?? body.startDate ?? '',
+      reason: body.reason ?? '',
+    };
+
+    const result = await calendarService.createClosure(input);
+
+    if (isOk(result)) {
+      res.status(201).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // DELETE /api/calendar/closures/:id - 臨時休館削除
+  // ============================================
+
+  router.delete(
+    '/closures/:id',
+    requireAdmin,
+    async (req: Request, res: Response): Promise<void> => {
+      const closureId = req.params.id as ClosureId;
+
+      const result = await calendarService.deleteClosure(closureId);
+
+      if (isOk(result)) {
+        res.status(204).send();
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  return router;
+}
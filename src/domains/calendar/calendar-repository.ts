@@ -0,0 +1,77 @@
+/**
+ * Calendar Repository Interface
+ *
+ * 開館カレンダーデータの永続化を担当するリポジトリのインターフェース定義。
+ * 具体的な実装は Infrastructure 層で行います。
+ */
+
+import type { HolidayId, ClosureId } from '../../shared/branded-types.js';
+import type { Result } from '../../shared/result.js';
+import type {
+  WeeklyHours,
+  Holiday,
+  CreateHolidayInput,
+  Closure,
+  CreateClosureInput,
+  CalendarError,
+} from './types.js';
+
+// ============================================
+// リポジトリインターフェース
+// ============================================
+
+/** 開館カレンダーリポジトリ */
+export interface CalendarRepository {
+  /**
+   * 曜日ごとの開館時間を取得
+   * @returns 開館時間一覧（曜日順）
+   */
+  findWeeklyHours(): Promise<WeeklyHours[]>;
+
+  /**
+   * 曜日ごとの開館時間を更新
+   * @param hours - 更新する曜日の開館時間
+   * @returns 更新後の開館時間一覧（曜日順）
+   */
+  updateWeeklyHours(hours: readonly WeeklyHours[]): Promise<WeeklyHours[]>;
+
+  /**
+   * 全ての休館日を取得
+   * @returns 休館日一覧（日付順）
+   */
+  findAllHolidays(): Promise<Holiday[]>;
+
+  /**
+   * 休館日を登録
+   * @param input - 休館日作成入力
+   * @returns 作成された休館日
+   */
+  createHoliday(input: CreateHolidayInput): Promise<Holiday>;
+
+  /**
+   * 休館日を削除
+   * @param id - 休館日ID
+   * @returns 成功またはHOLIDAY_NOT_FOUNDエラー
+   */
+  deleteHoliday(id: HolidayId): Promise<Result<void, CalendarError>>;
+
+  /**
+   * 全ての臨時休館を取得
+   * @returns 臨時休館一覧（開始日順）
+   */
+  findAllClosures(): Promise<Closure[]>;
+
+  /**
+   * 臨時休館を登録
+   * @param input - 臨時休館作成入力
+   * @returns 作成された臨時休館
+   */
+  createClosure(input: CreateClosureInput): Promise<Closure>;
+
+  /**
+   * 臨時休館を削除
+   * @param id - 臨時休館ID
+   * @returns 成功またはCLOSURE_NOT_FOUNDエラー
+   */
+  deleteClosure(id: ClosureId): Promise<Result<void, CalendarError>>;
+}
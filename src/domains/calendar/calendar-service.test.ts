@@ -0,0 +1,423 @@
+/**
+ * CalendarService テスト
+ *
+ * 開館カレンダー管理と開館日に基づく日付計算のテストを記述します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  createCalendarService,
+  isOpenDay,
+  nextOpenDay,
+  previousOpenDay,
+  addOpenDays,
+  countOpenDays,
+  toDateKey,
+  type CalendarService,
+} from './calendar-service.js';
+import type { CalendarRepository } from './calendar-repository.js';
+import type { OpeningCalendar, WeeklyHours, Holiday, Closure } from './types.js';
+import { ALWAYS_OPEN_CALENDAR } from './types.js';
+import { createHolidayId, createClosureId } from '../../shared/branded-types.js';
+import { ok, err, isOk, isErr } from '../../shared/result.js';
+
+// ============================================
+// モックファクトリ
+// ============================================
+
+function createMockCalendarRepository(): CalendarRepository {
+  return {
+    findWeeklyHours: vi.fn().mockResolvedValue([]),
+    updateWeeklyHours: vi.fn(),
+    findAllHolidays: vi.fn().mockResolvedValue([]),
+    createHoliday: vi.fn(),
+    deleteHoliday: vi.fn(),
+    findAllClosures: vi.fn().mockResolvedValue([]),
+    createClosure: vi.fn(),
+    deleteClosure: vi.fn(),
+  };
+}
+
+// ============================================
+// テストデータ
+// ============================================
+
+const sundayClosed: WeeklyHours = { weekday: 0, opensAt: null, closesAt: null };
+
+const newYearsDay: Holiday = {
+  id: createHolidayId('holiday-001'),
+  date: '2000-01-01',
+  name: '元日',
+  recurring: true,
+  createdAt: new Date('2000-01-01'),
+};
+
+const inventoryClosure: Closure = {
+  id: createClosureId('closure-001'),
+  startDate: '2024-06-19',
+  endDate: '2024-06-21',
+  reason: '蔵書点検',
+  createdAt: new Date('2024-06-01'),
+};
+
+/** 日曜定休・元日休館・2024/6/19〜21 蔵書点検の開館カレンダー */
+const testCalendar: OpeningCalendar = {
+  weeklyHours: [sundayClosed],
+  holidays: [newYearsDay],
+  closures: [inventoryClosure],
+};
+
+// ============================================
+// テスト
+// ============================================
+
+describe('開館日の計算', () => {
+  describe('isOpenDay', () => {
+    it('開館時間の設定がない場合は毎日開館とする', () => {
+      expect(isOpenDay(ALWAYS_OPEN_CALENDAR, new Date(2024, 5, 16))).toBe(true);
+    });
+
+    it('定休日の曜日は休館とする', () => {
+      // 2024-06-16 は日曜日
+      expect(isOpenDay(testCalendar, new Date(2024, 5, 16))).toBe(false);
+      expect(isOpenDay(testCalendar, new Date(2024, 5, 17))).toBe(true);
+    });
+
+    it('毎年繰り返す休館日は月日で判定する', () => {
+      expect(isOpenDay(testCalendar, new Date(2025, 0, 1))).toBe(false);
+      expect(isOpenDay(testCalendar, new Date(2025, 0, 2))).toBe(true);
+    });
+
+    it('繰り返さない休館日はその日付のみ休館とする', () => {
+      const calendar: OpeningCalendar = {
+        ...ALWAYS_OPEN_CALENDAR,
+        holidays: [{ ...newYearsDay, date: '2024-07-15', name: '海の日', recurring: false }],
+      };
+
+      expect(isOpenDay(calendar, new Date(2024, 6, 15))).toBe(false);
+      expect(isOpenDay(calendar, new Date(2025, 6, 15))).toBe(true);
+    });
+
+    it('臨時休館の期間は開始日・終了日を含めて休館とする', () => {
+      expect(isOpenDay(testCalendar, new Date(2024, 5, 18))).toBe(true);
+      expect(isOpenDay(testCalendar, new Date(2024, 5, 19))).toBe(false);
+      expect(isOpenDay(testCalendar, new Date(2024, 5, 21, 23, 59))).toBe(false);
+      expect(isOpenDay(testCalendar, new Date(2024, 5, 22))).toBe(true);
+    });
+  });
+
+  describe('nextOpenDay', () => {
+    it('開館日の場合はそのまま返す', () => {
+      const date = new Date(2024, 5, 18, 10, 30);
+
+      expect(nextOpenDay(testCalendar, date)).toEqual(date);
+    });
+
+    it('休館日の場合は時刻を保持して次の開館日を返す', () => {
+      // 6/19〜21 蔵書点検 → 6/22（土）
+      expect(nextOpenDay(testCalendar, new Date(2024, 5, 19, 10, 30))).toEqual(
+        new Date(2024, 5, 22, 10, 30)
+      );
+    });
+
+    it('休館日が連続する場合はすべて飛ばす', () => {
+      // 2024-12-31（火）から元日を飛ばして 1/2
+      const calendar: OpeningCalendar = {
+        ...testCalendar,
+        holidays: [...testCalendar.holidays, { ...newYearsDay, date: '2000-12-31' }],
+      };
+
+      expect(nextOpenDay(calendar, new Date(2024, 11, 31))).toEqual(new Date(2025, 0, 2));
+    });
+  });
+
+  describe('previousOpenDay', () => {
+    it('指定日より前で最後の開館日を返す', () => {
+      // 6/17（月）の前日は日曜定休 → 6/15（土）
+      expect(previousOpenDay(testCalendar, new Date(2024, 5, 17))).toEqual(new Date(2024, 5, 15));
+    });
+  });
+
+  describe('addOpenDays', () => {
+    it('休館日を除いて開館日数分進める', () => {
+      // 6/15（土）から3開館日: 6/17, 6/18, 6/22（6/16 日曜、6/19〜21 蔵書点検）
+      expect(addOpenDays(testCalendar, new Date(2024, 5, 15, 9), 3)).toEqual(
+        new Date(2024, 5, 22, 9)
+      );
+    });
+
+    it('0日の場合は起点の日時を返す', () => {
+      const start = new Date(2024, 5, 15, 9);
+
+      expect(addOpenDays(testCalendar, start, 0)).toEqual(start);
+    });
+  });
+
+  describe('countOpenDays', () => {
+    it('休館日を除いた日数を数える', () => {
+      // 6/15（土）12:00 〜 6/23（日）12:00: 6/17, 6/18, 6/22 の3日
+      expect(
+        countOpenDays(testCalendar, new Date(2024, 5, 15, 12), new Date(2024, 5, 23, 12))
+      ).toBe(3);
+    });
+
+    it('端数の日は1日として数える', () => {
+      expect(
+        countOpenDays(ALWAYS_OPEN_CALENDAR, new Date(2024, 5, 15, 12), new Date(2024, 5, 16, 13))
+      ).toBe(2);
+    });
+
+    it('終点が起点以前の場合は0を返す', () => {
+      expect(
+        countOpenDays(ALWAYS_OPEN_CALENDAR, new Date(2024, 5, 15), new Date(2024, 5, 14))
+      ).toBe(0);
+    });
+  });
+
+  describe('toDateKey', () => {
+    it('ローカル時刻のYYYY-MM-DD形式に変換する', () => {
+      expect(toDateKey(new Date(2024, 0, 5, 23, 59))).toBe('2024-01-05');
+    });
+  });
+});
+
+describe('CalendarService', () => {
+  let mockRepository: ReturnType<typeof createMockCalendarRepository>;
+  let calendarService: CalendarService;
+
+  beforeEach(() => {
+    mockRepository = createMockCalendarRepository();
+    calendarService = createCalendarService(mockRepository);
+  });
+
+  describe('getOpeningCalendar', () => {
+    it('開館時間・休館日・臨時休館をまとめて返す', async () => {
+      // Arrange
+      vi.mocked(mockRepository.findWeeklyHours).mockResolvedValue([sundayClosed]);
+      vi.mocked(mockRepository.findAllHolidays).mockResolvedValue([newYearsDay]);
+      vi.mocked(mockRepository.findAllClosures).mockResolvedValue([inventoryClosure]);
+
+      // Act
+      const result = await calendarService.getOpeningCalendar();
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toEqual(testCalendar);
+      }
+    });
+  });
+
+  describe('updateWeeklyHours', () => {
+    describe('正常系', () => {
+      it('指定した曜日の開館時間を更新する', async () => {
+        // Arrange
+        const hours: WeeklyHours[] = [
+          { weekday: 1, opensAt: null, closesAt: null },
+          { weekday: 6, opensAt: '10:00', closesAt: '17:00' },
+        ];
+        vi.mocked(mockRepository.updateWeeklyHours).mockResolvedValue(hours);
+
+        // Act
+        const result = await calendarService.updateWeeklyHours({ hours });
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        expect(mockRepository.updateWeeklyHours).toHaveBeenCalledWith(hours);
+      });
+    });
+
+    describe('異常系', () => {
+      it('曜日が範囲外の場合はVALIDATION_ERRORを返す', async () => {
+        // Act
+        const result = await calendarService.updateWeeklyHours({
+          hours: [{ weekday: 7, opensAt: '09:00', closesAt: '17:00' }],
+        });
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error).toMatchObject({ type: 'VALIDATION_ERROR', field: 'weekday' });
+        }
+        expect(mockRepository.updateWeeklyHours).not.toHaveBeenCalled();
+      });
+
+      it('時刻の形式が不正な場合はVALIDATION_ERRORを返す', async () => {
+        // Act
+        const result = await calendarService.updateWeeklyHours({
+          hours: [{ weekday: 1, opensAt: '9時', closesAt: '17:00' }],
+        });
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+      });
+
+      it('閉館時刻が開館時刻以前の場合はVALIDATION_ERRORを返す', async () => {
+        // Act
+        const result = await calendarService.updateWeeklyHours({
+          hours: [{ weekday: 1, opensAt: '17:00', closesAt: '09:00' }],
+        });
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error).toMatchObject({ type: 'VALIDATION_ERROR', field: 'closesAt' });
+        }
+      });
+
+      it('同じ曜日が重複している場合はVALIDATION_ERRORを返す', async () => {
+        // Act
+        const result = await calendarService.updateWeeklyHours({
+          hours: [
+            { weekday: 1, opensAt: '09:00', closesAt: '17:00' },
+            { weekday: 1, opensAt: null, closesAt: null },
+          ],
+        });
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+      });
+
+      it('全ての曜日が定休日になる場合はVALIDATION_ERRORを返す', async () => {
+        // Arrange（日曜日は既に定休日）
+        vi.mocked(mockRepository.findWeeklyHours).mockResolvedValue([sundayClosed]);
+        const hours: WeeklyHours[] = [1, 2, 3, 4, 5, 6].map((weekday) => ({
+          weekday,
+          opensAt: null,
+          closesAt: null,
+        }));
+
+        // Act
+        const result = await calendarService.updateWeeklyHours({ hours });
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error).toMatchObject({ type: 'VALIDATION_ERROR', field: 'hours' });
+        }
+        expect(mockRepository.updateWeeklyHours).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('createHoliday', () => {
+    it('有効な入力で休館日を登録する', async () => {
+      // Arrange
+      vi.mocked(mockRepository.createHoliday).mockResolvedValue(newYearsDay);
+
+      // Act
+      const result = await calendarService.createHoliday({
+        date: '2000-01-01',
+        name: '元日',
+        recurring: true,
+      });
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      expect(mockRepository.createHoliday).toHaveBeenCalledWith({
+        date: '2000-01-01',
+        name: '元日',
+        recurring: true,
+      });
+    });
+
+    it('存在しない日付の場合はVALIDATION_ERRORを返す', async () => {
+      // Act
+      const result = await calendarService.createHoliday({ date: '2024-02-30', name: '不正' });
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toMatchObject({ type: 'VALIDATION_ERROR', field: 'date' });
+      }
+    });
+
+    it('名称が空の場合はVALIDATION_ERRORを返す', async () => {
+      // Act
+      const result = await calendarService.createHoliday({ date: '2024-07-15', name: ' ' });
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toMatchObject({ type: 'VALIDATION_ERROR', field: 'name' });
+      }
+    });
+  });
+
+  describe('deleteHoliday', () => {
+    it('存在しない休館日の場合はHOLIDAY_NOT_FOUNDを返す', async () => {
+      // Arrange
+      vi.mocked(mockRepository.deleteHoliday).mockResolvedValue(
+        err({ type: 'HOLIDAY_NOT_FOUND', holidayId: 'holiday-999' })
+      );
+
+      // Act
+      const result = await calendarService.deleteHoliday(createHolidayId('holiday-999'));
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('HOLIDAY_NOT_FOUND');
+      }
+    });
+  });
+
+  describe('createClosure', () => {
+    it('有効な入力で臨時休館を登録する', async () => {
+      // Arrange
+      vi.mocked(mockRepository.createClosure).mockResolvedValue(inventoryClosure);
+
+      // Act
+      const result = await calendarService.createClosure({
+        startDate: '2024-06-19',
+        endDate: '2024-06-21',
+        reason: '蔵書点検',
+      });
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+    });
+
+    it('終了日が開始日より前の場合はVALIDATION_ERRORを返す', async () => {
+      // Act
+      const result = await calendarService.createClosure({
+        startDate: '2024-06-21',
+        endDate: '2024-06-19',
+        reason: '蔵書点検',
+      });
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toMatchObject({ type: 'VALIDATION_ERROR', field: 'endDate' });
+      }
+      expect(mockRepository.createClosure).not.toHaveBeenCalled();
+    });
+
+    it('理由が空の場合はVALIDATION_ERRORを返す', async () => {
+      // Act
+      const result = await calendarService.createClosure({
+        startDate: '2024-06-19',
+        endDate: '2024-06-19',
+        reason: '',
+      });
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+    });
+  });
+
+  describe('deleteClosure', () => {
+    it('臨時休館を削除する', async () => {
+      // Arrange
+      vi.mocked(mockRepository.deleteClosure).mockResolvedValue(ok(undefined));
+
+      // Act
+      const result = await calendarService.deleteClosure(inventoryClosure.id);
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      expect(mockRepository.deleteClosure).toHaveBeenCalledWith(inventoryClosure.id);
+    });
+  });
+});
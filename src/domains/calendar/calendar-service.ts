@@ -0,0 +1,416 @@
+/**
+ * CalendarService - 開館カレンダー管理サービス
+ *
+ * 曜日ごとの開館時間・休館日・臨時休館の管理と、
+ * 開館日に基づく日付計算（返却期限・延滞日数・予約取置期限）を提供します。
+ */
+
+import type { HolidayId, ClosureId } from '../../shared/branded-types.js';
+import type { Result } from '../../shared/result.js';
+import { ok, err, isErr } from '../../shared/result.js';
+import { validateRequired } from '../../shared/validation.js';
+import type { CalendarRepository } from './calendar-repository.js';
+import type {
+  WeeklyHours,
+  UpdateWeeklyHoursInput,
+  Holiday,
+  CreateHolidayInput,
+  Closure,
+  CreateClosureInput,
+  OpeningCalendar,
+  CalendarError,
+} from './types.js';
+
+// ============================================
+// 定数
+// ============================================
+
+/** 開館日を探索する最大日数（長期休館や設定誤りで無限ループしないための上限） */
+const MAX_SEARCH_DAYS = 366;
+
+/** 1日のミリ秒数 */
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// ============================================
+// サービスインターフェース
+// ============================================
+
+/** CalendarService インターフェース */
+export interface CalendarService {
+  /**
+   * 開館カレンダー（開館時間・休館日・臨時休館）を取得
+   * @returns 開館カレンダー
+   */
+  getOpeningCalendar(): Promise<Result<OpeningCalendar, never>>;
+
+  /**
+   * 曜日ごとの開館時間を取得
+   * @returns 開館時間一覧
+   */
+  getWeeklyHours(): Promise<Result<WeeklyHours[], never>>;
+
+  /**
+   * 曜日ごとの開館時間を更新
+   * 全ての曜日を定休日にすることはできない
+   * @param input - 開館時間更新入力
+   * @returns 更新後の開館時間一覧またはエラー
+   */
+  updateWeeklyHours(input: UpdateWeeklyHoursInput): Promise<Result<WeeklyHours[], CalendarError>>;
+
+  /**
+   * 全ての休館日を取得
+   * @returns 休館日一覧
+   */
+  getHolidays(): Promise<Result<Holiday[], never>>;
+
+  /**
+   * 休館日を登録
+   * @param input - 休館日作成入力
+   * @returns 作成された休館日またはエラー
+   */
+  createHoliday(input: CreateHolidayInput): Promise<Result<Holiday, CalendarError>>;
+
+  /**
+   * 休館日を削除
+   * @param id - 休館日ID
+   * @returns 成功またはHOLIDAY_NOT_FOUNDエラー
+   */
+  deleteHoliday(id: HolidayId): Promise<Result<void, CalendarError>>;
+
+  /**
+   * 全ての臨時休館を取得
+   * @returns 臨時休館一覧
+   */
+  getClosures(): Promise<Result<Closure[], never>>;
+
+  /**
+   * 臨時休館を登録
+   * @param input - 臨時休館作成入力
+   * @returns 作成された臨時休館またはエラー
+   */
+  createClosure(input: CreateClosureInput): Promise<Result<Closure, CalendarError>>;
+
+  /**
+   * 臨時休館を削除
+   * @param id - 臨時休館ID
+   * @returns 成功またはCLOSURE_NOT_FOUNDエラー
+   */
+  deleteClosure(id: ClosureId): Promise<Result<void, CalendarError>>;
+}
+
+// ============================================
+// 日付計算
+// ============================================
+
+/**
+ * 日付をローカル時刻のYYYY-MM-DD形式に変換
+ * @param date - 日付
+ * @returns YYYY-MM-DD形式の文字列
+ */
+export function toDateKey(date: Date): string {
+  const year = String(date.getFullYear()).padStart(4, '0');
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * 開館日かどうかを判定
+ * 定休日（開館時刻の設定がない曜日）、休館日、臨時休館の期間は休館とする
+ * @param calendar - 開館カレンダー
+ * @param date - 判定する日付
+ * @returns 開館日の場合true
+ */
+export function isOpenDay(calendar: OpeningCalendar, date: Date): boolean {
+  const hours = calendar.weeklyHours.find((entry) => entry.weekday === date.getDay());
+  if (hours?.opensAt === null) {
+    return false;
+  }
+
+  const dateKey = toDateKey(date);
+  const monthDay = dateKey.slice(5);
+  const isHoliday = calendar.holidays.some((holiday) =>
+    holiday.recurring ? holiday.date.slice(5) === monthDay : holiday.date === dateKey
+  );
+  if (isHoliday) {
+    return false;
+  }
+
+  return !calendar.closures.some(
+    (closure) => closure.startDate <= dateKey && dateKey <= closure.endDate
+  );
+}
+
+/**
+ * 指定日以降で最初の開館日を取得（指定日が開館日の場合はそのまま返す）
+ * 時刻は指定日のものを保持する
+ * @param calendar - 開館カレンダー
+ * @param date - 起点の日付
+ * @returns 開館日
+ */
+export function nextOpenDay(calendar: OpeningCalendar, date: Date): Date {
+  const day = new Date(date);
+  for (let i = 0; i < MAX_SEARCH_DAYS && !isOpenDay(calendar, day); i++) {
+    day.setDate(day.getDate() + 1);
+  }
+  return day;
+}
+
+/**
+ * 指定日より前で最後の開館日を取得
+ * 時刻は指定日のものを保持する
+ * @param calendar - 開館カレンダー
+ * @param date - 起点の日付
+ * @returns 開館日
+ */
+export function previousOpenDay(calendar: OpeningCalendar, date: Date): Date {
+  const day = new Date(date);
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    day.setDate(day.getDate() - 1);
+    if (isOpenDay(calendar, day)) {
+      break;
+    }
+  }
+  return day;
+}
+
+/**
+ * 指定日から開館日を指定日数分進めた日付を取得
+ * @param calendar - 開館カレンダー
+ * @param start - 起点の日付
+ * @param days - 進める開館日数
+ * @returns 日付
+ */
+export function addOpenDays(calendar: OpeningCalendar, start: Date, days: number): Date {
+  const day = new Date(start);
+  let remaining = days;
+  for (let i = 0; remaining > 0 && i < days + MAX_SEARCH_DAYS; i++) {
+    day.setDate(day.getDate() + 1);
+    if (isOpenDay(calendar, day)) {
+      remaining--;
+    }
+  }
+  return day;
+}
+
+/**
+ * 2つの日時の間の開館日数を取得（端数の日は1日として数える）
+ * 延滞日数の計算に使用する
+ * @param calendar - 開館カレンダー
+ * @param from - 起点の日時（返却期限など）
+ * @param to - 終点の日時（返却日時など）
+ * @returns 開館日数（終点が起点以前の場合は0）
+ */
+export function countOpenDays(calendar: OpeningCalendar, from: Date, to: Date): number {
+  const elapsedDays = Math.ceil((to.getTime() - from.getTime()) / MS_PER_DAY);
+  let count = 0;
+  for (let i = 1; i <= elapsedDays; i++) {
+    const day = new Date(from);
+    day.setDate(day.getDate() + i);
+    if (isOpenDay(calendar, day)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+// ============================================
+// バリデーション関数
+// ============================================
+
+/**
+ * YYYY-MM-DD形式の日付をバリデーション
+ */
+function validateDateKey(value: string, field: string): Result<string, CalendarError> {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (match !== null) {
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    if (toDateKey(date) === value) {
+      return ok(value);
+    }
+  }
+  return err({
+    type: 'VALIDATION_ERROR',
+    field,
+    message: `${field}はYYYY-MM-DD形式の有効な日付である必要があります`,
+  });
+}
+
+/**
+ * 開館時間をバリデーション
+ */
+function validateWeeklyHours(hours: WeeklyHours): Result<WeeklyHours, CalendarError> {
+  if (!Number.isInteger(hours.weekday) || hours.weekday < 0 || hours.weekday > 6) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'weekday',
+      message: 'weekdayは0（日曜日）から6（土曜日）の整数である必要があります',
+    });
+  }
+
+  if (hours.opensAt === null && hours.closesAt === null) {
+    return ok(hours);
+  }
+
+  const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+  if (
+    hours.opensAt === null ||
+    hours.closesAt === null ||
+    !timePattern.test(hours.opensAt) ||
+    !timePattern.test(hours.closesAt)
+  ) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'hours',
+      message: '開館時刻と閉館時刻はHH:MM形式で両方指定してください（定休日は両方null）',
+    });
+  }
+
+  if (hours.opensAt >= hours.closesAt) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'closesAt',
+      message: '閉館時刻は開館時刻より後である必要があります',
+    });
+  }
+
+  return ok(hours);
+}
+
+/**
+ * 名称・理由の必須チェック
+ */
+function validateText(value: string, field: string): Result<string, CalendarError> {
+  const result = validateRequired(value, field);
+  if (isErr(result)) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field,
+      message: result.error.message,
+    });
+  }
+  return ok(value);
+}
+
+// ============================================
+// サービス実装
+// ============================================
+
+/**
+ * CalendarServiceを作成
+ * @param repository - 開館カレンダーリポジトリ
+ * @returns CalendarService
+ */
+export function createCalendarService(repository: CalendarRepository): CalendarService {
+  return {
+    async getOpeningCalendar(): Promise<Result<OpeningCalendar, never>> {
+      const [weeklyHours, holidays, closures] = await Promise.all([
+        repository.findWeeklyHours(),
+        repository.findAllHolidays(),
+        repository.findAllClosures(),
+      ]);
+      return ok({ weeklyHours, holidays, closures });
+    },
+
+    async getWeeklyHours(): Promise<Result<WeeklyHours[], never>> {
+      return ok(await repository.findWeeklyHours());
+    },
+
+    async updateWeeklyHours(
+      input: UpdateWeeklyHoursInput
+    ): Promise<Result<WeeklyHours[], CalendarError>> {
+      // 1. 各曜日の開館時間をバリデーション
+      for (const hours of input.hours) {
+        const result = validateWeeklyHours(hours);
+        if (isErr(result)) {
+          return result;
+        }
+      }
+
+      // 2. 同じ曜日の重複指定チェック
+      const weekdays = new Set(input.hours.map((hours) => hours.weekday));
+      if (weekdays.size !== input.hours.length) {
+        return err({
+          type: 'VALIDATION_ERROR',
+          field: 'weekday',
+          message: '同じ曜日が複数指定されています',
+        });
+      }
+
+      // 3. 更新後に開館する曜日が残るかチェック（未設定の曜日は開館扱い）
+      const current = await repository.findWeeklyHours();
+      const hasOpenWeekday = [0, 1, 2, 3, 4, 5, 6].some((weekday) => {
+        const hours =
+          input.hours.find((entry) => entry.weekday === weekday) ??
+          current.find((entry) => entry.weekday === weekday);
+        return hours?.opensAt !== null;
+      });
+      if (!hasOpenWeekday) {
+        return err({
+          type: 'VALIDATION_ERROR',
+          field: 'hours',
+          message: '全ての曜日を定休日にすることはできません',
+        });
+      }
+
+      return ok(await repository.updateWeeklyHours(input.hours));
+    },
+
+    async getHolidays(): Promise<Result<Holiday[], never>> {
+      return ok(await repository.findAllHolidays());
+    },
+
+    async createHoliday(input: CreateHolidayInput): Promise<Result<Holiday, CalendarError>> {
+      const dateResult = validateDateKey(input.date, 'date');
+      if (isErr(dateResult)) {
+        return dateResult;
+      }
+
+      const nameResult = validateText(input.name, 'name');
+      if (isErr(nameResult)) {
+        return nameResult;
+      }
+
+      return ok(await repository.createHoliday(input));
+    },
+
+    async deleteHoliday(id: HolidayId): Promise<Result<void, CalendarError>> {
+      return repository.deleteHoliday(id);
+    },
+
+    async getClosures(): Promise<Result<Closure[], never>> {
+      return ok(await repository.findAllClosures());
+    },
+
+    async createClosure(input: CreateClosureInput): Promise<Result<Closure, CalendarError>> {
+      const startResult = validateDateKey(input.startDate, 'startDate');
+      if (isErr(startResult)) {
+        return startResult;
+      }
+
+      const endResult = validateDateKey(input.endDate, 'endDate');
+      if (isErr(endResult)) {
+        return endResult;
+      }
+
+      if (input.endDate < input.startDate) {
+        return err({
+          type: 'VALIDATION_ERROR',
+          field: 'endDate',
+          message: '終了日は開始日以降である必要があります',
+        });
+      }
+
+      const reasonResult = validateText(input.reason, 'reason');
+      if (isErr(reasonResult)) {
+        return reasonResult;
+      }
+
+      return ok(await repository.createClosure(input));
+    },
+
+    async deleteClosure(id: ClosureId): Promise<Result<void, CalendarError>> {
+      return repository.deleteClosure(id);
+    },
+  };
+}
@@ -0,0 +1,5 @@
+// Calendar domain - 開館カレンダー
+export * from './types.js';
+export * from './calendar-repository.js';
+export * from './calendar-service.js';
+export * from './calendar-controller.js';
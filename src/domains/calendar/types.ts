@@ -0,0 +1,110 @@
+/**
+ * Calendar Domain - 型定義
+ *
+ * 開館カレンダー（曜日ごとの開館時間・休館日・臨時休館）の型定義を提供します。
+ */
+
+import type { HolidayId, ClosureId } from '../../shared/branded-types.js';
+
+// ============================================
+// 開館時間型定義
+// ============================================
+
+/**
+ * 曜日ごとの開館時間
+ *
+ * 開館時刻・閉館時刻がnullの曜日は定休日として扱う
+ */
+export interface WeeklyHours {
+  /** 曜日（0: 日曜日 〜 6: 土曜日） */
+  readonly weekday: number;
+  /** 開館時刻（HH:MM形式） */
+  readonly opensAt: string | null;
+  /** 閉館時刻（HH:MM形式） */
+  readonly closesAt: string | null;
+}
+
+/** 開館時間更新入力（指定した曜日のみ更新） */
+export interface UpdateWeeklyHoursInput {
+  readonly hours: readonly WeeklyHours[];
+}
+
+// ============================================
+// 休館日型定義
+// ============================================
+
+/**
+ * 休館日（祝日・年末年始など）
+ *
+ * 毎年繰り返す休館日は月日のみで判定する
+ */
+export interface Holiday {
+  readonly id: HolidayId;
+  /** 日付（YYYY-MM-DD形式） */
+  readonly date: string;
+  readonly name: string;
+  /** 毎年同じ月日に繰り返す場合はtrue */
+  readonly recurring: boolean;
+  readonly createdAt: Date;
+}
+
+/** 休館日作成入力 */
+export interface CreateHolidayInput {
+  readonly date: string;
+  readonly name: string;
+  readonly recurring?: boolean;
+}
+
+// ============================================
+// 臨時休館型定義
+// ============================================
+
+/** 臨時休館（館内整理・蔵書点検など、期間指定の休館） */
+export interface Closure {
+  readonly id: ClosureId;
+  /** 開始日（YYYY-MM-DD形式） */
+  readonly startDate: string;
+  /** 終了日（YYYY-MM-DD形式、当日を含む） */
+  readonly endDate: string;
+  readonly reason: string;
+  readonly createdAt: Date;
+}
+
+/** 臨時休館作成入力 */
+export interface CreateClosureInput {
+  readonly startDate: string;
+  readonly endDate: string;
+  readonly reason: string;
+}
+
+// ============================================
+// 開館カレンダー型定義
+// ============================================
+
+/**
+ * 開館カレンダー
+ *
+ * 返却期限・延滞日数・予約取置期限の計算に使用する
+ */
+export interface OpeningCalendar {
+  readonly weeklyHours: readonly WeeklyHours[];
+  readonly holidays: readonly Holiday[];
+  readonly closures: readonly Closure[];
+}
+
+/** 休館日の設定がない（毎日開館する）カレンダー */
+export const ALWAYS_OPEN_CALENDAR: OpeningCalendar = {
+  weeklyHours: [],
+  holidays: [],
+  closures: [],
+};
+
+// ============================================
+// エラー型定義
+// ============================================
+
+/** 開館カレンダーエラー */
+export type CalendarError =
+  | { readonly type: 'VALIDATION_ERROR'; readonly field: string; readonly message: string }
+  | { readonly type: 'HOLIDAY_NOT_FOUND'; readonly holidayId: string }
+  | { readonly type: 'CLOSURE_NOT_FOUND'; readonly closureId: string };
@@ -0,0 +1,230 @@
+/**
+ * FineController テスト
+ *
+ * 延滞料金REST APIエンドポイントのテスト。
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express, { type Express } from 'express';
+import request from 'supertest';
+import { createFineController } from './fine-controller.js';
+import type { AuthenticatedRequest } from '../auth/rbac.js';
+import type { UserRole } from '../auth/types.js';
+import type { FineService } from './fine-service.js';
+import type { FineTransaction } from './types.js';
+import type { FineTransactionId, UserId } from '../../shared/branded-types.js';
+import { ok, err } from '../../shared/result.js';
+
+// ============================================
+// モックヘルパー
+// ============================================
+
+function createMockFineService(): FineService {
+  return {
+    getAccount: vi.fn(),
+    recordPayment: vi.fn(),
+    waiveFine: vi.fn(),
+    refund: vi.fn(),
+    assessOverdueFine: vi.fn(),
+    chargeReplacementCost: vi.fn(),
+    reverseReplacementCharge: vi.fn(),
+    checkBorrowingEligibility: vi.fn(),
+    getAllRates: vi.fn(),
+    createRate: vi.fn(),
+    updateRate: vi.fn(),
+    deleteRate: vi.fn(),
+  };
+}
+
+function createTestApp(fineService: FineService, role?: UserRole): Express {
+  const app = express();
+  app.use(express.json());
+  if (role !== undefined) {
+    app.use((req: AuthenticatedRequest, _res, next) => {
+      req.session = {
+        userId: 'staff-1' as UserId,
+        role,
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      };
+      next();
+    });
+  }
+  const router = createFineController(fineService);
+  app.use('/api/fines', router);
+  return app;
+}
+
+function createTestTransaction(overrides?: Partial<FineTransaction>): FineTransaction {
+  return {
+    id: 'fine-1' as FineTransactionId,
+    userId: 'user-1' as UserId,
+    type: 'PAYMENT',
+    amount: 100,
+    loanId: null,
+    reason: null,
+    createdAt: new Date('2024-06-18'),
+    ...overrides,
+  };
+}
+
+// ============================================
+// テスト
+// ============================================
+
+describe('FineController', () => {
+  let mockService: FineService;
+  let app: Express;
+  let librarianApp: Express;
+  let adminApp: Express;
+
+  beforeEach(() => {
+    mockService = createMockFineService();
+    app = createTestApp(mockService);
+    librarianApp = createTestApp(mockService, 'librarian');
+    adminApp = createTestApp(mockService, 'admin');
+  });
+
+  describe('GET /api/fines/accounts/:userId - 利用者口座取得', () => {
+    it('正常系: 残高と取引履歴を200で返す', async () => {
+      vi.mocked(mockService.getAccount).mockResolvedValue(
+        ok({
+          userId: 'user-1' as UserId,
+          balance: 100,
+          transactions: [createTestTransaction({ type: 'CHARGE' })],
+        })
+      );
+
+      const response = await request(app).get('/api/fines/accounts/user-1');
+
+      expect(response.status).toBe(200);
+      expect(response.body.balance).toBe(100);
+      expect(response.body.transactions).toHaveLength(1);
+    });
+
+    it('異常系: 存在しない利用者の場合404を返す', async () => {
+      vi.mocked(mockService.getAccount).mockResolvedValue(
+        err({ type: 'USER_NOT_FOUND', userId: 'missing' })
+      );
+
+      const response = await request(app).get('/api/fines/accounts/missing');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/fines/accounts/:userId/payments - 現金支払いの記録', () => {
+    it('正常系: 支払いを記録して201を返す', async () => {
+      vi.mocked(mockService.recordPayment).mockResolvedValue(ok(createTestTransaction()));
+
+      const response = await request(librarianApp)
+        .post('/api/fines/accounts/user-1/payments')
+        .send({ amount: 100 });
+
+      expect(response.status).toBe(201);
+      expect(mockService.recordPayment).toHaveBeenCalledWith('user-1', {
+        amount: 100,
+        note: null,
+      });
+    });
+
+    it('異常系: 残高を超える支払いの場合409を返す', async () => {
+      vi.mocked(mockService.recordPayment).mockResolvedValue(
+        err({ type: 'AMOUNT_EXCEEDS_BALANCE', userId: 'user-1', amount: 500, balance: 100 })
+      );
+
+      const response = await request(librarianApp)
+        .post('/api/fines/accounts/user-1/payments')
+        .send({ amount: 500 });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.type).toBe('AMOUNT_EXCEEDS_BALANCE');
+    });
+
+    it('異常系: 未認証の場合401を返す', async () => {
+      const response = await request(app)
+        .post('/api/fines/accounts/user-1/payments')
+        .send({ amount: 100 });
+
+      expect(response.status).toBe(401);
+      expect(mockService.recordPayment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/fines/accounts/:userId/waivers - 免除の記録', () => {
+    it('異常系: 理由がない場合400を返す', async () => {
+      vi.mocked(mockService.waiveFine).mockResolvedValue(
+        err({ type: 'VALIDATION_ERROR', field: 'reason', message: 'reason is required' })
+      );
+
+      const response = await request(librarianApp)
+        .post('/api/fines/accounts/user-1/waivers')
+        .send({ amount: 100 });
+
+      expect(response.status).toBe(400);
+      expect(mockService.waiveFine).toHaveBeenCalledWith('user-1', { amount: 100, reason: '' });
+    });
+
+    it('異常系: 利用者が自分の延滞料金を免除しようとした場合403を返す', async () => {
+      const patronApp = createTestApp(mockService, 'patron');
+
+      const response = await request(patronApp)
+        .post('/api/fines/accounts/user-1/waivers')
+        .send({ amount: 100, reason: '自己申告' });
+
+      expect(response.status).toBe(403);
+      expect(mockService.waiveFine).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/fines/accounts/:userId/refunds - 返金の記録', () => {
+    it('異常系: 利用者の場合403を返す', async () => {
+      const patronApp = createTestApp(mockService, 'patron');
+
+      const response = await request(patronApp)
+        .post('/api/fines/accounts/user-1/refunds')
+        .send({ amount: 100, reason: '過払い' });
+
+      expect(response.status).toBe(403);
+      expect(mockService.refund).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/fines/rates - 延滞料金レート登録', () => {
+    it('異常系: 同じカテゴリのレートが存在する場合409を返す', async () => {
+      vi.mocked(mockService.createRate).mockResolvedValue(
+        err({ type: 'DUPLICATE_RATE', bookCategory: '雑誌' })
+      );
+
+      const response = await request(adminApp)
+        .post('/api/fines/rates')
+        .send({ bookCategory: '雑誌', dailyRate: 20 });
+
+      expect(response.status).toBe(409);
+      expect(mockService.createRate).toHaveBeenCalledWith({
+        bookCategory: '雑誌',
+        dailyRate: 20,
+        maxAmount: null,
+      });
+    });
+
+    it('異常系: 図書館員の場合403を返す', async () => {
+      const response = await request(librarianApp)
+        .post('/api/fines/rates')
+        .send({ bookCategory: '雑誌', dailyRate: 20 });
+
+      expect(response.status).toBe(403);
+      expect(mockService.createRate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/fines/rates/:id - 延滞料金レート削除', () => {
+    it('正常系: 延滞料金レートを削除して204を返す', async () => {
+      vi.mocked(mockService.deleteRate).mockResolvedValue(ok(undefined));
+
+      const response = await request(adminApp).delete('/api/fines/rates/rate-1');
+
+      expect(response.status).toBe(204);
+    });
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * FineController - 延滞料金REST APIコントローラー
+ *
+ * 利用者口座と延滞料金レート管理のREST APIエンドポイントを提供します。
+ * 支払い・免除・返金の記録は図書館員以上、レートの変更は管理者のみ実行できます。
+ *
+ * エンドポイント:
+ * - GET /api/fines/accounts/:userId - 利用者口座（残高・取引履歴）取得
+ * - POST /api/fines/accounts/:userId/payments - 現金支払いの記録
+ * - POST /api/fines/accounts/:userId/waivers - 免除の記録
+ * - POST /api/fines/accounts/:userId/refunds - 返金の記録
+ * - GET /api/fines/rates - 延滞料金レート一覧取得
+ * - POST /api/fines/rates - 延滞料金レート登録
+ * - PUT /api/fines/rates/:id - 延滞料金レート編集
+ * - DELETE /api/fines/rates/:id - 延滞料金レート削除
+ */
+
+import { Router, type Request, type Response } from 'express';
+import type { FineRateId, UserId } from '../../shared/branded-types.js';
+import { isOk } from '../../shared/result.js';
+import { requireLibrarian, requireAdmin } from '../auth/rbac.js';
+import type { FineService } from './fine-service.js';
+import type { CreateFineRateInput, UpdateFineRateInput, FineError } from './types.js';
+
+// ============================================
+// リクエストボディ型定義
+// ============================================
+
+/** 支払い・免除・返金リクエストボディ */
+interface FineTransactionRequestBody {
+  amount?: number;
+  note?: string | null;
+  reason?: string;
+}
+
+/** 延滞料金レート登録・更新リクエストボディ */
+interface FineRateRequestBody {
+  bookCategory?: string | null;
+  dailyRate?: number;
+  maxAmount?: number | null;
+}
+
+// ============================================
+// HTTPステータスコード決定
+// ============================================
+
+/**
+ * FineErrorに基づいてHTTPステータスコードを決定
+ */
+function getErrorStatusCode(error: FineError): number {
+  switch (error.type) {
+    case 'VALIDATION_ERROR':
+      return 400;
+    case 'USER_NOT_FOUND':
+    case 'RATE_NOT_FOUND':
+      return 404;
+    case 'DUPLICATE_RATE':
+    case 'AMOUNT_EXCEEDS_BALANCE':
+    case 'REFUND_EXCEEDS_CREDIT':
+    case 'BALANCE_THRESHOLD_EXCEEDED':
+      return 409;
+  }
+}
+
+// ============================================
+// コントローラーファクトリ
+// ============================================
+
+/**
+ * FineControllerを作成
+ * @param fineService - FineServiceインスタンス
+ * @returns Expressルーター
+ */
+export function createFineController(fineService: FineService): Router {
+  const router = Router();
+
+  // ============================================
+  // GET /api/fines/accounts/:userId - 利用者口座取得
+  // ============================================
+
+  router.get('/accounts/:userId', async (req: Request, res: Response): Promise<void> => {
+    const userId = req.params.userId as UserId;
+
+    const result = await fineService.getAccount(userId);
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // POST /api/fines/accounts/:userId/payments - 現金支払いの記録
+  // ============================================
+
+  router.post(
+    '/accounts/:userId/payments',
+    requireLibrarian,
+    async (req: Request, res: Response): Promise<void> => {
+      const userId = req.params.userId as UserId;
+      const body = req.body as FineTransactionRequestBody;
+
+      const result = await fineService.recordPayment(userId, {
+        amount: body.amount ?? 0,
+        note: body.note ?? null,
+      });
+
+      if (isOk(result)) {
+        res.status(201).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // POST /api/fines/accounts/:userId/waivers - 免除の記録
+  // ============================================
+
+  router.post(
+    '/accounts/:userId/waivers',
+    requireLibrarian,
+    async (req: Request, res: Response): Promise<void> => {
+      const userId = req.params.userId as UserId;
+      const body = req.body as FineTransactionRequestBody;
+
+      const result = await fineService.waiveFine(userId, {
+        amount: body.amount ?? 0,
+        reason: body.reason ?? '',
+      });
+
+      if (isOk(result)) {
+        res.status(201).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // POST /api/fines/accounts/:userId/refunds - 返金の記録
+  // ============================================
+
+  router.post(
+    '/accounts/:userId/refunds',
+    requireLibrarian,
+    async (req: Request, res: Response): Promise<void> => {
+      const userId = req.params.userId as UserId;
+      const body = req.body as FineTransactionRequestBody;
+
+      const result = await fineService.refund(userId, {
+        amount: body.amount ?? 0,
+        reason: body.reason ?? '',
+      });
+
+      if (isOk(result)) {
+        res.status(201).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // GET /api/fines/rates - 延滞料金レート一覧取得
+  // ============================================
+
+  router.get('/rates', async (_req: Request, res: Response): Promise<void> => {
+    const result = await fineService.getAllRates();
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    }
+    // FineService.getAllRates は never エラーを返すため、else ブランチは到達不可能
+  });
+
+  // ============================================
+  // POST /api/fines/rates - 延滞料金レート登録
+  // ============================================
+
+  router.post('/rates', requireAdmin, async (req: Request, res: Response): Promise<void> => {
+    const body = req.body as FineRateRequestBody;
+    const input: CreateFineRateInput = {
+      bookCategory: body.bookCategory ?? null,
+      // 未指定の場合はバリデーションエラーとする
+      dailyRate: body.dailyRate ?? Number.NaN,
+      maxAmount: body.maxAmount ?? null,
+    };
+
+    const result = await fineService.createRate(input);
+
+    if (isOk(result)) {
+      res.status(201).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // PUT /api/fines/rates/:id - 延滞料金レート編集
+  // ============================================
+
+  router.put('/rates/:id', requireAdmin, async (req: Request, res: Response): Promise<void> => {
+    const rateId = req.params.id as FineRateId;
+    const body = req.body as FineRateRequestBody;
+
+    // 指定されたフィールドのみを更新対象に含める
+    const input: UpdateFineRateInput = {
+      ...(body.bookCategory !== undefined && { bookCategory: body.bookCategory }),
+      ...(body.dailyRate !== undefined && { dailyRate: body.dailyRate }),
+      ...(body.maxAmount !== undefined && { maxAmount: body.maxAmount }),
+    };
+
+    const result = await fineService.updateRate(rateId, input);
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // DELETE /api/fines/rates/:id - 延滞料金レート削除
+  // ============================================
+
+  router.delete('/rates/:id', requireAdmin, async (req: Request, res: Response): Promise<void> => {
+    const rateId = req.params.id as FineRateId;
+
+    const result = await fineService.deleteRate(rateId);
+
+    if (isOk(result)) {
+      res.status(204).send();
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,60 @@
+/**
+ * FineRateRepository Interface
+ *
+ * 延滞料金レートデータの永続化を担当するリポジトリのインターフェース定義。
+ * 具体的な実装は Infrastructure 層で行います。
+ */
+
+import type { FineRateId } from '../../shared/branded-types.js';
+import type { Result } from '../../shared/result.js';
+import type { FineRate, CreateFineRateInput, UpdateFineRateInput, FineError } from './types.js';
+
+// ============================================
+// リポジトリインターフェース
+// ============================================
+
+/** 延滞料金レートリポジトリ */
+export interface FineRateRepository {
+  /**
+   * 新しい延滞料金レートを作成
+   * @param input - 延滞料金レート作成入力
+   * @returns 作成された延滞料金レートまたはエラー
+   */
+  create(input: CreateFineRateInput): Promise<Result<FineRate, FineError>>;
+
+  /**
+   * IDで延滞料金レートを取得
+   * @param id - 延滞料金レートID
+   * @returns 延滞料金レートまたはRATE_NOT_FOUNDエラー
+   */
+  findById(id: FineRateId): Promise<Result<FineRate, FineError>>;
+
+  /**
+   * 全ての延滞料金レートを取得
+   * @returns 延滞料金レート一覧
+   */
+  findAll(): Promise<FineRate[]>;
+
+  /**
+   * 書籍カテゴリに適用可能な延滞料金レートを取得
+   * カテゴリが一致するもの、またはカテゴリ指定がない（null）ものが対象
+   * @param bookCategory - 書籍カテゴリ
+   * @returns 適用可能な延滞料金レート一覧
+   */
+  findApplicable(bookCategory: string | null): Promise<FineRate[]>;
+
+  /**
+   * 延滞料金レートを更新
+   * @param id - 延滞料金レートID
+   * @param input - 更新入力
+   * @returns 更新された延滞料金レートまたはエラー
+   */
+  update(id: FineRateId, input: UpdateFineRateInput): Promise<Result<FineRate, FineError>>;
+
+  /**
+   * 延滞料金レートを削除
+   * @param id - 延滞料金レートID
+   * @returns 成功またはRATE_NOT_FOUNDエラー
+   */
+  delete(id: FineRateId): Promise<Result<void, FineError>>;
+}
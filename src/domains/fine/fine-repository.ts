@@ -0,0 +1,52 @@
+/**
+ * FineRepository Interface
+ *
+ * 利用者口座の取引データの永続化を担当するリポジトリのインターフェース定義。
+ * 具体的な実装は Infrastructure 層で行います。
+ */
+
+import type { LoanId, UserId } from '../../shared/branded-types.js';
+import type { FineTransaction, CreateFineTransactionInput } from './types.js';
+
+// ============================================
+// リポジトリインターフェース
+// ============================================
+
+/** 利用者口座取引リポジトリ */
+export interface FineRepository {
+  /**
+   * 取引を記録
+   * @param input - 取引作成入力
+   * @returns 記録された取引
+   */
+  createTransaction(input: CreateFineTransactionInput): Promise<FineTransaction>;
+
+  /**
+   * 利用者の取引履歴を取得（新しい順）
+   * @param userId - 利用者ID
+   * @returns 取引の配列
+   */
+  findTransactionsByUserId(userId: UserId): Promise<FineTransaction[]>;
+
+  /**
+   * 貸出に関連する取引履歴を取得（新しい順）
+   * @param loanId - 貸出ID
+   * @returns 取引の配列
+   */
+  findTransactionsByLoanId(loanId: LoanId): Promise<FineTransaction[]>;
+
+  /**
+   * 利用者の未払い残高を取得
+   * 請求・弁償金・返金の合計から支払い・免除の合計を差し引いた金額
+   * @param userId - 利用者ID
+   * @returns 未払い残高（円）
+   */
+  getBalance(userId: UserId): Promise<number>;
+
+  /**
+   * 利用者口座をロック（作業単位の終了まで、同じ利用者の残高確認・取引記録を直列化する）
+   * 作業単位の中で呼び出すこと
+   * @param userId - 利用者ID
+   */
+  lockAccount(userId: UserId): Promise<void>;
+}
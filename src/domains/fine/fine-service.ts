@@ -0,0 +1,532 @@
+/**
+ * FineService - 延滞料金・利用者口座サービス
+ *
+ * 延滞料金・弁償金の請求、支払い・免除・返金の記録、
+ * 延滞料金レートの管理、貸出可否の残高チェックを提供します。
+ */
+
+import type { FineRateId, UserId } from '../../shared/branded-types.js';
+import type { Result } from '../../shared/result.js';
+import { ok, err, isErr } from '../../shared/result.js';
+import type { UnitOfWork } from '../../shared/unit-of-work.js';
+import type { UserRepository } from '../user/user-repository.js';
+import type { FineRepository } from './fine-repository.js';
+import type { FineRateRepository } from './fine-rate-repository.js';
+import type {
+  FineTransaction,
+  PatronAccount,
+  RecordPaymentInput,
+  WaiveFineInput,
+  RefundInput,
+  AssessOverdueFineInput,
+  ChargeReplacementCostInput,
+  ReverseReplacementChargeInput,
+  ReplacementChargeReversal,
+  FineRate,
+  FineRateTerms,
+  CreateFineRateInput,
+  UpdateFineRateInput,
+  FineConfig,
+  FineError,
+} from './types.js';
+import { DEFAULT_FINE_RATE, DEFAULT_FINE_CONFIG } from './types.js';
+
+// ============================================
+// サービスインターフェース
+// ============================================
+
+/** FineService インターフェース */
+export interface FineService {
+  /**
+   * 利用者口座（残高と取引履歴）を取得
+   * @param userId - 利用者ID
+   * @returns 利用者口座またはUSER_NOT_FOUNDエラー
+   */
+  getAccount(userId: UserId): Promise<Result<PatronAccount, FineError>>;
+
+  /**
+   * 現金での支払いを記録
+   * @param userId - 利用者ID
+   * @param input - 支払い入力
+   * @returns 記録された取引またはエラー
+   */
+  recordPayment(
+    userId: UserId,
+    input: RecordPaymentInput
+  ): Promise<Result<FineTransaction, FineError>>;
+
+  /**
+   * 未払い残高を免除
+   * @param userId - 利用者ID
+   * @param input - 免除入力（理由必須）
+   * @returns 記録された取引またはエラー
+   */
+  waiveFine(userId: UserId, input: WaiveFineInput): Promise<Result<FineTransaction, FineError>>;
+
+  /**
+   * 過払い分を返金
+   * @param userId - 利用者ID
+   * @param input - 返金入力（理由必須）
+   * @returns 記録された取引またはエラー
+   */
+  refund(userId: UserId, input: RefundInput): Promise<Result<FineTransaction, FineError>>;
+
+  /**
+   * 延滞日数から延滞料金を計算して請求
+   * @param input - 延滞料金の請求入力
+   * @returns 記録された請求（延滞料金が0円の場合はnull）
+   */
+  assessOverdueFine(input: AssessOverdueFineInput): Promise<Result<FineTransaction | null, never>>;
+
+  /**
+   * 紛失・破損資料の弁償金を請求
+   * @param input - 弁償金の請求入力
+   * @returns 記録された請求（弁償金額が0円の場合はnull）
+   */
+  chargeReplacementCost(
+    input: ChargeReplacementCostInput
+  ): Promise<Result<FineTransaction | null, never>>;
+
+  /**
+   * 貸出に対する直近の弁償金を取り消す（資料発見時）
+   * 弁償金を免除し、支払い済みで過払いが生じた場合はその分を返金する
+   * @param input - 弁償金の取消入力
+   * @returns 記録された免除・返金
+   */
+  reverseReplacementCharge(
+    input: ReverseReplacementChargeInput
+  ): Promise<Result<ReplacementChargeReversal, never>>;
+
+  /**
+   * 未払い残高が閾値未満で新規貸出が可能か確認
+   * @param userId - 利用者ID
+   * @returns 成功またはBALANCE_THRESHOLD_EXCEEDEDエラー
+   */
+  checkBorrowingEligibility(
+    userId: UserId
+  ): Promise<Result<void, Extract<FineError, { type: 'BALANCE_THRESHOLD_EXCEEDED' }>>>;
+
+  /**
+   * 全ての延滞料金レートを取得
+   * @returns 延滞料金レート一覧
+   */
+  getAllRates(): Promise<Result<FineRate[], never>>;
+
+  /**
+   * 延滞料金レートを登録
+   * @param input - 延滞料金レート作成入力
+   * @returns 作成された延滞料金レートまたはエラー
+   */
+  createRate(input: CreateFineRateInput): Promise<Result<FineRate, FineError>>;
+
+  /**
+   * 延滞料金レートを更新
+   * @param id - 延滞料金レートID
+   * @param input - 更新入力
+   * @returns 更新された延滞料金レートまたはエラー
+   */
+  updateRate(id: FineRateId, input: UpdateFineRateInput): Promise<Result<FineRate, FineError>>;
+
+  /**
+   * 延滞料金レートを削除
+   * @param id - 延滞料金レートID
+   * @returns 成功またはRATE_NOT_FOUNDエラー
+   */
+  deleteRate(id: FineRateId): Promise<Result<void, FineError>>;
+}
+
+// ============================================
+// 延滞料金計算
+// ============================================
+
+/**
+ * 適用候補の中から書籍カテゴリに適用する延滞料金レートを選択
+ *
+ * 優先順位: 書籍カテゴリ一致 > 指定なし > デフォルトレート
+ * @param rates - 適用候補の延滞料金レート
+ * @param bookCategory - 書籍カテゴリ
+ * @returns 適用する延滞料金の計算条件
+ */
+export function selectFineRate(
+  rates: readonly FineRate[],
+  bookCategory: string | null
+): FineRateTerms {
+  const categoryRate = rates.find(
+    (rate) => rate.bookCategory !== null && rate.bookCategory === bookCategory
+  );
+  if (categoryRate !== undefined) {
+    return categoryRate;
+  }
+
+  return rates.find((rate) => rate.bookCategory === null) ?? DEFAULT_FINE_RATE;
+}
+
+/**
+ * 延滞日数から延滞料金を計算（上限額で打ち切り）
+ * @param terms - 延滞料金の計算条件
+ * @param overdueDays - 延滞日数
+ * @returns 延滞料金（円）
+ */
+export function calculateOverdueFine(terms: FineRateTerms, overdueDays: number): number {
+  if (overdueDays <= 0) {
+    return 0;
+  }
+
+  const amount = terms.dailyRate * overdueDays;
+  return terms.maxAmount !== null ? Math.min(amount, terms.maxAmount) : amount;
+}
+
+// ============================================
+// バリデーション関数
+// ============================================
+
+/**
+ * 金額をバリデーション（1円以上の整数）
+ */
+function validateAmount(amount: number): Result<number, FineError> {
+  if (!Number.isInteger(amount) || amount < 1) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'amount',
+      message: 'amountは1以上の整数である必要があります',
+    });
+  }
+  return ok(amount);
+}
+
+/**
+ * 理由をバリデーション（必須）
+ */
+function validateReason(reason: string | undefined): Result<string, FineError> {
+  if (reason === undefined || reason.trim() === '') {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'reason',
+      message: 'reason is required',
+    });
+  }
+  return ok(reason.trim());
+}
+
+/**
+ * 延滞料金レートの計算条件をバリデーション（指定されたフィールドのみ）
+ */
+function validateRateTerms(input: UpdateFineRateInput): Result<void, FineError> {
+  if (
+    input.dailyRate !== undefined &&
+    (!Number.isInteger(input.dailyRate) || input.dailyRate < 0)
+  ) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'dailyRate',
+      message: 'dailyRateは0以上の整数である必要があります',
+    });
+  }
+
+  if (
+    input.maxAmount !== undefined &&
+    input.maxAmount !== null &&
+    (!Number.isInteger(input.maxAmount) || input.maxAmount < 1)
+  ) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'maxAmount',
+      message: 'maxAmountは1以上の整数である必要があります',
+    });
+  }
+
+  return ok(undefined);
+}
+
+// ============================================
+// サービス実装
+// ============================================
+
+/**
+ * FineServiceを作成
+ * @param fineRepository - 利用者口座取引リポジトリ
+ * @param fineRateRepository - 延滞料金レートリポジトリ
+ * @param userRepository - 利用者リポジトリ
+ * @param config - 延滞料金設定
+ * @returns FineService
+ */
+export function createFineService(
+  fineRepository: FineRepository,
+  fineRateRepository: FineRateRepository,
+  userRepository: Pick<UserRepository, 'findById'>,
+  unitOfWork: UnitOfWork,
+  config: FineConfig = DEFAULT_FINE_CONFIG
+): FineService {
+  /**
+   * 利用者の存在を確認
+   */
+  async function ensureUserExists(userId: UserId): Promise<Result<void, FineError>> {
+    const userResult = await userRepository.findById(userId);
+    if (isErr(userResult)) {
+      return err({ type: 'USER_NOT_FOUND', userId });
+    }
+    return ok(undefined);
+  }
+
+  /**
+   * 残高を減らす取引（支払い・免除）を記録
+   * 未払い残高を超える金額は記録しない
+   */
+  async function recordCredit(
+    userId: UserId,
+    type: 'PAYMENT' | 'WAIVER',
+    amount: number,
+    reason: string | null
+  ): Promise<Result<FineTransaction, FineError>> {
+    const amountResult = validateAmount(amount);
+    if (isErr(amountResult)) {
+      return amountResult;
+    }
+
+    const userResult = await ensureUserExists(userId);
+    if (isErr(userResult)) {
+      return userResult;
+    }
+
+    // 同時に記録された支払い・免除がともに残高確認を通過して残高を超えないよう、口座をロックする
+    return unitOfWork.run(async (): Promise<Result<FineTransaction, FineError>> => {
+      await fineRepository.lockAccount(userId);
+
+      const balance = await fineRepository.getBalance(userId);
+      if (amount > balance) {
+        return err({ type: 'AMOUNT_EXCEEDS_BALANCE', userId, amount, balance });
+      }
+
+      const transaction = await fineRepository.createTransaction({ userId, type, amount, reason });
+      return ok(transaction);
+    });
+  }
+
+  return {
+    async getAccount(userId: UserId): Promise<Result<PatronAccount, FineError>> {
+      const userResult = await ensureUserExists(userId);
+      if (isErr(userResult)) {
+        return userResult;
+      }
+
+      const balance = await fineRepository.getBalance(userId);
+      const transactions = await fineRepository.findTransactionsByUserId(userId);
+      return ok({ userId, balance, transactions });
+    },
+
+    async recordPayment(
+      userId: UserId,
+      input: RecordPaymentInput
+    ): Promise<Result<FineTransaction, FineError>> {
+      const note = input.note?.trim() ?? '';
+      return recordCredit(userId, 'PAYMENT', input.amount, note !== '' ? note : null);
+    },
+
+    async waiveFine(
+      userId: UserId,
+      input: WaiveFineInput
+    ): Promise<Result<FineTransaction, FineError>> {
+      const reasonResult = validateReason(input.reason);
+      if (isErr(reasonResult)) {
+        return reasonResult;
+      }
+
+      return recordCredit(userId, 'WAIVER', input.amount, reasonResult.value);
+    },
+
+    async refund(userId: UserId, input: RefundInput): Promise<Result<FineTransaction, FineError>> {
+      const amountResult = validateAmount(input.amount);
+      if (isErr(amountResult)) {
+        return amountResult;
+      }
+
+      const reasonResult = validateReason(input.reason);
+      if (isErr(reasonResult)) {
+        return reasonResult;
+      }
+
+      const userResult = await ensureUserExists(userId);
+      if (isErr(userResult)) {
+        return userResult;
+      }
+
+      return unitOfWork.run(async (): Promise<Result<FineTransaction, FineError>> => {
+        await fineRepository.lockAccount(userId);
+
+        // 返金できるのは過払い分（負の残高）まで
+        const credit = -(await fineRepository.getBalance(userId));
+        if (input.amount > credit) {
+          return err({
+            type: 'REFUND_EXCEEDS_CREDIT',
+            userId,
+            amount: input.amount,
+            credit: Math.max(credit, 0),
+          });
+        }
+
+        const transaction = await fineRepository.createTransaction({
+          userId,
+          type: 'REFUND',
+          amount: input.amount,
+          reason: reasonResult.value,
+        });
+        return ok(transaction);
+      });
+    },
+
+    async assessOverdueFine(
+      input: AssessOverdueFineInput
+    ): Promise<Result<FineTransaction | null, never>> {
+      // リコールされた貸出はカテゴリ別レートではなくリコール用のレートを適用
+      const recalled = input.recalled === true;
+      const terms = recalled
+        ? config.recallFineRate
+        : selectFineRate(
+            await fineRateRepository.findApplicable(input.bookCategory),
+            input.bookCategory
+          );
+      const amount = calculateOverdueFine(terms, input.overdueDays);
+      if (amount === 0) {
+        return ok(null);
+      }
+
+      // 並行する支払い・返金の残高確認と直列化するため、口座をロックして記録する
+      return unitOfWork.run(async (): Promise<Result<FineTransaction, never>> => {
+        await fineRepository.lockAccount(input.userId);
+
+        const transaction = await fineRepository.createTransaction({
+          userId: input.userId,
+          type: 'CHARGE',
+          amount,
+          loanId: input.loanId,
+          reason: `延滞${String(input.overdueDays)}日${recalled ? '（リコール）' : ''}`,
+        });
+        return ok(transaction);
+      });
+    },
+
+    async chargeReplacementCost(
+      input: ChargeReplacementCostInput
+    ): Promise<Result<FineTransaction | null, never>> {
+      const amount = input.replacementCost ?? config.defaultReplacementCost;
+      if (amount <= 0) {
+        return ok(null);
+      }
+
+      return unitOfWork.run(async (): Promise<Result<FineTransaction, never>> => {
+        await fineRepository.lockAccount(input.userId);
+
+        const transaction = await fineRepository.createTransaction({
+          userId: input.userId,
+          type: 'REPLACEMENT',
+          amount,
+          loanId: input.loanId,
+          reason: input.reason,
+        });
+        return ok(transaction);
+      });
+    },
+
+    async reverseReplacementCharge(
+      input: ReverseReplacementChargeInput
+    ): Promise<Result<ReplacementChargeReversal, never>> {
+      // 返金額は残高から決めるため、口座をロックして免除・返金を記録する
+      return unitOfWork.run(async (): Promise<Result<ReplacementChargeReversal, never>> => {
+        await fineRepository.lockAccount(input.userId);
+
+        // 取引履歴は新しい順のため、最初に見つかった弁償金が取消対象
+        const transactions = await fineRepository.findTransactionsByLoanId(input.loanId);
+        const charge = transactions.find((transaction) => transaction.type === 'REPLACEMENT');
+        if (charge === undefined) {
+          return ok({ waiver: null, refund: null });
+        }
+
+        const waiver = await fineRepository.createTransaction({
+          userId: input.userId,
+          type: 'WAIVER',
+          amount: charge.amount,
+          loanId: input.loanId,
+          reason: input.reason,
+        });
+
+        // 弁償金が支払い済みの場合は過払い分（弁償金額まで）を返金する
+        const credit = -(await fineRepository.getBalance(input.userId));
+        const refundAmount = Math.min(credit, charge.amount);
+        if (refundAmount <= 0) {
+          return ok({ waiver, refund: null });
+        }
+
+        const refund = await fineRepository.createTransaction({
+          userId: input.userId,
+          type: 'REFUND',
+          amount: refundAmount,
+          loanId: input.loanId,
+          reason: input.reason,
+        });
+        return ok({ waiver, refund });
+      });
+    },
+
+    async checkBorrowingEligibility(
+      userId: UserId
+    ): Promise<Result<void, Extract<FineError, { type: 'BALANCE_THRESHOLD_EXCEEDED' }>>> {
+      const balance = await fineRepository.getBalance(userId);
+      if (balance >= config.balanceThreshold) {
+        return err({
+          type: 'BALANCE_THRESHOLD_EXCEEDED',
+          userId,
+          balance,
+          threshold: config.balanceThreshold,
+        });
+      }
+      return ok(undefined);
+    },
+
+    async getAllRates(): Promise<Result<FineRate[], never>> {
+      const rates = await fineRateRepository.findAll();
+      return ok(rates);
+    },
+
+    async createRate(input: CreateFineRateInput): Promise<Result<FineRate, FineError>> {
+      // 入力バリデーション
+      const validationResult = validateRateTerms(input);
+      if (isErr(validationResult)) {
+        return validationResult;
+      }
+
+      // 延滞料金レート作成
+      return fineRateRepository.create(input);
+    },
+
+    async updateRate(
+      id: FineRateId,
+      input: UpdateFineRateInput
+    ): Promise<Result<FineRate, FineError>> {
+      // 延滞料金レート存在チェック
+      const existingResult = await fineRateRepository.findById(id);
+      if (isErr(existingResult)) {
+        return existingResult;
+      }
+
+      // 入力バリデーション
+      const validationResult = validateRateTerms(input);
+      if (isErr(validationResult)) {
+        return validationResult;
+      }
+
+      // 延滞料金レート更新
+      return fineRateRepository.update(id, input);
+    },
+
+    async deleteRate(id: FineRateId): Promise<Result<void, FineError>> {
+      // 延滞料金レート存在チェック
+      const existingResult = await fineRateRepository.findById(id);
+      if (isErr(existingResult)) {
+        return existingResult;
+      }
+
+      // 延滞料金レート削除
+      return fineRateRepository.delete(id);
+    },
+  };
+}
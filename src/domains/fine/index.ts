@@ -0,0 +1,6 @@
+// Fine domain - 延滞料金・利用者口座
+export * from './types.js';
+export * from './fine-repository.js';
+export * from './fine-rate-repository.js';
+export * from './fine-service.js';
+export * from './fine-controller.js';
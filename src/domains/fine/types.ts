@@ -0,0 +1,203 @@
+/**
+ * Fine Domain - 型定義
+ *
+ * 延滞料金・利用者口座ドメインの型定義を提供します。
+ */
+
+import type { FineTransactionId, FineRateId, LoanId, UserId } from '../../shared/branded-types.js';
+
+// ============================================
+// 取引型定義
+// ============================================
+
+/**
+ * 取引種別
+ *
+ * - CHARGE: 延滞料金等の請求（残高を増やす）
+ * - REPLACEMENT: 紛失・破損資料の弁償金の請求（残高を増やす）
+ * - PAYMENT: 支払い（残高を減らす）
+ * - WAIVER: 免除（残高を減らす）
+ * - REFUND: 過払い分の返金（残高を増やす）
+ */
+export type FineTransactionType = 'CHARGE' | 'REPLACEMENT' | 'PAYMENT' | 'WAIVER' | 'REFUND';
+
+/** 利用者口座の取引 */
+export interface FineTransaction {
+  readonly id: FineTransactionId;
+  readonly userId: UserId;
+  readonly type: FineTransactionType;
+  /** 金額（円、正の整数） */
+  readonly amount: number;
+  /** 関連する貸出ID（延滞料金・弁償金の場合） */
+  readonly loanId: LoanId | null;
+  /** 理由・備考 */
+  readonly reason: string | null;
+  readonly createdAt: Date;
+}
+
+/** 取引作成入力 */
+export interface CreateFineTransactionInput {
+  readonly userId: UserId;
+  readonly type: FineTransactionType;
+  readonly amount: number;
+  readonly loanId?: LoanId | null;
+  readonly reason?: string | null;
+}
+
+/** 利用者口座（残高と取引履歴） */
+export interface PatronAccount {
+  readonly userId: UserId;
+  /** 未払い残高（円、負の場合は過払い） */
+  readonly balance: number;
+  /** 取引履歴（新しい順） */
+  readonly transactions: FineTransaction[];
+}
+
+/** 支払い記録入力 */
+export interface RecordPaymentInput {
+  readonly amount: number;
+  readonly note?: string | null;
+}
+
+/** 免除入力 */
+export interface WaiveFineInput {
+  readonly amount: number;
+  readonly reason: string;
+}
+
+/** 返金入力 */
+export interface RefundInput {
+  readonly amount: number;
+  readonly reason: string;
+}
+
+/** 延滞料金の請求入力 */
+export interface AssessOverdueFineInput {
+  readonly userId: UserId;
+  readonly loanId: LoanId;
+  readonly bookCategory: string | null;
+  readonly overdueDays: number;
+  /** リコールされた貸出の場合はtrue（リコール用のレートを適用する） */
+  readonly recalled?: boolean;
+}
+
+/** 弁償金の請求入力 */
+export interface ChargeReplacementCostInput {
+  readonly userId: UserId;
+  readonly loanId: LoanId;
+  /** 書籍に設定された弁償金額（nullの場合はデフォルトの弁償金額） */
+  readonly replacementCost: number | null;
+  readonly reason: string;
+}
+
+/** 弁償金の取消入力 */
+export interface ReverseReplacementChargeInput {
+  readonly userId: UserId;
+  readonly loanId: LoanId;
+  readonly reason: string;
+}
+
+/** 弁償金の取消結果 */
+export interface ReplacementChargeReversal {
+  /** 弁償金を打ち消す免除（取消対象の弁償金がない場合はnull） */
+  readonly waiver: FineTransaction | null;
+  /** 支払い済みの弁償金の返金（過払いが生じない場合はnull） */
+  readonly refund: FineTransaction | null;
+}
+
+// ============================================
+// 延滞料金レート型定義
+// ============================================
+
+/** 延滞料金の計算条件 */
+export interface FineRateTerms {
+  /** 1日あたりの延滞料金（円） */
+  readonly dailyRate: number;
+  /** 1貸出あたりの上限額（nullの場合は上限なし） */
+  readonly maxAmount: number | null;
+}
+
+/**
+ * 延滞料金レート
+ *
+ * bookCategory が null の場合は全カテゴリに適用される。
+ */
+export interface FineRate extends FineRateTerms {
+  readonly id: FineRateId;
+  readonly bookCategory: string | null;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/** 延滞料金レート作成入力 */
+export interface CreateFineRateInput {
+  readonly bookCategory?: string | null;
+  readonly dailyRate: number;
+  readonly maxAmount?: number | null;
+}
+
+/** 延滞料金レート更新入力 */
+export interface UpdateFineRateInput {
+  readonly bookCategory?: string | null;
+  readonly dailyRate?: number;
+  readonly maxAmount?: number | null;
+}
+
+/** 該当する延滞料金レートがない場合に適用されるデフォルトレート */
+export const DEFAULT_FINE_RATE: FineRateTerms = {
+  dailyRate: 10,
+  maxAmount: 1000,
+};
+
+// ============================================
+// 設定
+// ============================================
+
+/** 延滞料金設定 */
+export interface FineConfig {
+  /** 新規貸出を停止する未払い残高の閾値（円、この金額以上で貸出不可） */
+  readonly balanceThreshold: number;
+  /** 書籍に弁償金額が設定されていない場合の弁償金額（円） */
+  readonly defaultReplacementCost: number;
+  /** リコールされた貸出の延滞料金レート（書籍カテゴリのレートより優先） */
+  readonly recallFineRate: FineRateTerms;
+}
+
+/** デフォルトの延滞料金設定 */
+export const DEFAULT_FINE_CONFIG: FineConfig = {
+  balanceThreshold: 1000,
+  defaultReplacementCost: 3000,
+  recallFineRate: {
+    dailyRate: 50,
+    maxAmount: 3000,
+  },
+};
+
+// ============================================
+// エラー型定義
+// ============================================
+
+/** 延滞料金ドメインエラー */
+export type FineError =
+  | { readonly type: 'VALIDATION_ERROR'; readonly field: string; readonly message: string }
+  | { readonly type: 'USER_NOT_FOUND'; readonly userId: string }
+  | { readonly type: 'RATE_NOT_FOUND'; readonly rateId: string }
+  | { readonly type: 'DUPLICATE_RATE'; readonly bookCategory: string | null }
+  | {
+      readonly type: 'AMOUNT_EXCEEDS_BALANCE';
+      readonly userId: string;
+      readonly amount: number;
+      readonly balance: number;
+    }
+  | {
+      readonly type: 'REFUND_EXCEEDS_CREDIT';
+      readonly userId: string;
+      readonly amount: number;
+      readonly credit: number;
+    }
+  | {
+      readonly type: 'BALANCE_THRESHOLD_EXCEEDED';
+      readonly userId: string;
+      readonly balance: number;
+      readonly threshold: number;
+    };
@@ -0,0 +1,84 @@
+/**
+ * cron形式のスケジュール テスト
+ *
+ * cron式の解析と次回実行日時の計算のテストを記述します。
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCronExpression, isValidCronExpression, nextCronOccurrence } from './cron.js';
+
+describe('cron', () => {
+  describe('parseCronExpression', () => {
+    it('範囲・リスト・間隔を展開する', () => {
+      const schedule = parseCronExpression('*/15 9-11 1,15 * 1-5');
+
+      expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...schedule.hours]).toEqual([9, 10, 11]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+      expect(schedule.months.size).toBe(12);
+      expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+      expect(schedule.dayOfMonthRestricted).toBe(true);
+      expect(schedule.dayOfWeekRestricted).toBe(true);
+    });
+
+    it('曜日の7は日曜日として扱う', () => {
+      const schedule = parseCronExpression('0 0 * * 7');
+
+      expect([...schedule.daysOfWeek]).toEqual([0]);
+    });
+
+    it.each([
+      '* * * *',
+      '60 * * * *',
+      '* 24 * * *',
+      '* * 0 * *',
+      '5-1 * * * *',
+      '*/0 * * * *',
+      'a * * * *',
+    ])('不正なcron式 "%s" は例外を投げる', (expression) => {
+      expect(() => parseCronExpression(expression)).toThrow();
+      expect(isValidCronExpression(expression)).toBe(false);
+    });
+  });
+
+  describe('nextCronOccurrence', () => {
+    it('起点より後の最初の一致する分を返す', () => {
+      const schedule = parseCronExpression('*/15 * * * *');
+
+      expect(nextCronOccurrence(schedule, new Date(2024, 5, 10, 9, 7, 30))).toEqual(
+        new Date(2024, 5, 10, 9, 15)
+      );
+    });
+
+    it('起点ちょうどの時刻は含まない', () => {
+      const schedule = parseCronExpression('0 9 * * *');
+
+      expect(nextCronOccurrence(schedule, new Date(2024, 5, 10, 9, 0))).toEqual(
+        new Date(2024, 5, 11, 9, 0)
+      );
+    });
+
+    it('月・年をまたいで次回実行日時を求める', () => {
+      const schedule = parseCronExpression('30 6 1 1 *');
+
+      expect(nextCronOccurrence(schedule, new Date(2024, 5, 10))).toEqual(
+        new Date(2025, 0, 1, 6, 30)
+      );
+    });
+
+    it('日と曜日の両方が指定された場合はいずれかに一致する日を返す', () => {
+      // 2024-06-10 は月曜日。15日または日曜日 → 6/16（日）より先に 6/15（土）
+      const schedule = parseCronExpression('0 0 15 * 0');
+
+      expect(nextCronOccurrence(schedule, new Date(2024, 5, 10))).toEqual(
+        new Date(2024, 5, 15, 0, 0)
+      );
+    });
+
+    it('存在しない日付のみを指定した場合は例外を投げる', () => {
+      const schedule = parseCronExpression('0 0 30 2 *');
+
+      expect(() => nextCronOccurrence(schedule, new Date(2024, 0, 1))).toThrow();
+    });
+  });
+});
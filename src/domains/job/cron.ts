@@ -0,0 +1,202 @@
+/**
+ * cron形式のスケジュール
+ *
+ * 5フィールド（分 時 日 月 曜日）のcron式を解析し、次回の実行日時を計算します。
+ * 各フィールドは `*`・数値・範囲（`1-5`）・リスト（`1,15`）・間隔（`*\/15`、`9-17/2`）に対応します。
+ * 日時はサーバーのローカル時刻で評価します。
+ */
+
+// ============================================
+// 型定義
+// ============================================
+
+/** 解析済みのcronスケジュール */
+export interface CronSchedule {
+  readonly minutes: ReadonlySet<number>;
+  readonly hours: ReadonlySet<number>;
+  readonly daysOfMonth: ReadonlySet<number>;
+  readonly months: ReadonlySet<number>;
+  /** 曜日（0: 日曜日 〜 6: 土曜日） */
+  readonly daysOfWeek: ReadonlySet<number>;
+  /** 日フィールドが `*` 以外で指定されているか */
+  readonly dayOfMonthRestricted: boolean;
+  /** 曜日フィールドが `*` 以外で指定されているか */
+  readonly dayOfWeekRestricted: boolean;
+}
+
+interface FieldRange {
+  readonly name: string;
+  readonly min: number;
+  readonly max: number;
+}
+
+// ============================================
+// 定数
+// ============================================
+
+const FIELD_RANGES: readonly FieldRange[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  // 7 も日曜日として受け付ける
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+/** 次回実行日時の探索回数の上限（存在しない日付の指定などによる無限ループを防ぐ） */
+const MAX_SEARCH_STEPS = 100_000;
+
+// ============================================
+// 解析
+// ============================================
+
+function parseNumber(value: string, range: FieldRange, expression: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${range.name} "${value}" in cron expression "${expression}"`);
+  }
+  return parseInt(value, 10);
+}
+
+function parseField(field: string, range: FieldRange, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart = '', stepPart, ...rest] = part.split('/');
+    if (rest.length > 0) {
+      throw new Error(`Invalid ${range.name} "${part}" in cron expression "${expression}"`);
+    }
+    const step = stepPart === undefined ? 1 : parseNumber(stepPart, range, expression);
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = range.min;
+      end = range.max;
+    } else if (rangePart.includes('-')) {
+      const [from = '', to = ''] = rangePart.split('-');
+      start = parseNumber(from, range, expression);
+      end = parseNumber(to, range, expression);
+    } else {
+      start = parseNumber(rangePart, range, expression);
+      // `5/15` は5から上限まで15刻み
+      end = stepPart === undefined ? start : range.max;
+    }
+
+    if (step < 1 || start < range.min || end > range.max || start > end) {
+      throw new Error(`Invalid ${range.name} "${part}" in cron expression "${expression}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * cron式を解析
+ * @param expression - cron式（分 時 日 月 曜日）
+ * @returns 解析済みのスケジュール
+ * @throws Error - cron式が不正な場合
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== FIELD_RANGES.length) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELD_RANGES.map((range, i) =>
+    parseField(fields[i] ?? '', range, expression)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !(fields[2] ?? '*').startsWith('*'),
+    dayOfWeekRestricted: !(fields[4] ?? '*').startsWith('*'),
+  };
+}
+
+/**
+ * cron式が正しい形式か判定
+ * @param expression - cron式
+ * @returns 正しい形式の場合はtrue
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ============================================
+// 次回実行日時の計算
+// ============================================
+
+/**
+ * 日付が日・曜日フィールドに一致するか判定
+ * 両方が指定されている場合はいずれかに一致すればよい（cronの慣例）
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  if (schedule.dayOfMonthRestricted) {
+    return dayOfMonth;
+  }
+  if (schedule.dayOfWeekRestricted) {
+    return dayOfWeek;
+  }
+  return true;
+}
+
+/**
+ * 指定日時より後の最初の実行日時を取得
+ * @param schedule - 解析済みのスケジュール
+ * @param after - 起点の日時（この日時ちょうどは含まない）
+ * @returns 次回の実行日時（秒以下は0）
+ * @throws Error - 実行日時が存在しない場合（2月30日の指定など）
+ */
+export function nextCronOccurrence(schedule: CronSchedule, after: Date): Date {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  throw new Error('Cron schedule has no upcoming occurrence');
+}
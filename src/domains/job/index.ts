@@ -0,0 +1,7 @@
+// Job domain - 定期実行ジョブ
+export * from './types.js';
+export * from './cron.js';
+export * from './job-repository.js';
+export * from './job-service.js';
+export * from './library-jobs.js';
+export * from './job-controller.js';
@@ -0,0 +1,197 @@
+/**
+ * JobController テスト
+ *
+ * 定期実行ジョブ管理REST APIのテストを記述します。
+ *
+ * エンドポイント:
+ * - GET /api/jobs - ジョブ一覧取得
+ * - POST /api/jobs/:name/run - ジョブの手動実行
+ * - GET /api/jobs/:name/runs - 実行履歴取得
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { type Express } from 'express';
+import request from 'supertest';
+import { createJobController } from './job-controller.js';
+import type { JobService } from './job-service.js';
+import type { JobInfo, JobRun } from './types.js';
+import { createJobRunId, createUserId } from '../../shared/branded-types.js';
+import { ok, err } from '../../shared/result.js';
+import type { AuthenticatedRequest } from '../auth/rbac.js';
+import type { UserRole } from '../auth/types.js';
+
+// ============================================
+// モックファクトリ
+// ============================================
+
+function createMockJobService(): JobService {
+  return {
+    listJobs: vi.fn(),
+    triggerJob: vi.fn(),
+    getRunHistory: vi.fn(),
+    runDueJobs: vi.fn(),
+  };
+}
+
+// ============================================
+// テストデータ
+// ============================================
+
+const testJobInfo: JobInfo = {
+  name: 'overdue-reminders',
+  description: '返却期限を過ぎた貸出の利用者に延滞リマインダーを送信する',
+  schedule: '0 9 * * *',
+  lastRunAt: new Date('2024-06-10T00:00:00Z'),
+  nextRunAt: new Date('2024-06-11T00:00:00Z'),
+};
+
+const testJobRun: JobRun = {
+  id: createJobRunId('run-001'),
+  jobName: 'overdue-reminders',
+  trigger: 'MANUAL',
+  status: 'SUCCEEDED',
+  startedAt: new Date('2024-06-10T03:00:00Z'),
+  finishedAt: new Date('2024-06-10T03:00:05Z'),
+  summary: '送信 3件、失敗 0件',
+  error: null,
+};
+
+// ============================================
+// テストセットアップ
+// ============================================
+
+function createTestApp(jobService: JobService, role?: UserRole): Express {
+  const app = express();
+  app.use(express.json());
+  if (role !== undefined) {
+    app.use((req: AuthenticatedRequest, _res, next) => {
+      req.session = {
+        userId: createUserId('user-001'),
+        role,
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      };
+      next();
+    });
+  }
+  app.use('/api/jobs', createJobController(jobService));
+  return app;
+}
+
+// ============================================
+// テスト
+// ============================================
+
+describe('JobController', () => {
+  let mockJobService: JobService;
+  let app: Express;
+
+  beforeEach(() => {
+    mockJobService = createMockJobService();
+    app = createTestApp(mockJobService, 'admin');
+  });
+
+  describe('権限チェック', () => {
+    it('未認証の場合は401を返す', async () => {
+      const response = await request(createTestApp(mockJobService)).get('/api/jobs');
+
+      expect(response.status).toBe(401);
+      expect(mockJobService.listJobs).not.toHaveBeenCalled();
+    });
+
+    it('管理者以外の場合は403を返す', async () => {
+      const response = await request(createTestApp(mockJobService, 'librarian')).post(
+        '/api/jobs/overdue-reminders/run'
+      );
+
+      expect(response.status).toBe(403);
+      expect(mockJobService.triggerJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/jobs', () => {
+    it('ジョブ一覧を返す', async () => {
+      vi.mocked(mockJobService.listJobs).mockResolvedValue(ok([testJobInfo]));
+
+      const response = await request(app).get('/api/jobs');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([
+        {
+          ...testJobInfo,
+          lastRunAt: '2024-06-10T00:00:00.000Z',
+          nextRunAt: '2024-06-11T00:00:00.000Z',
+        },
+      ]);
+    });
+  });
+
+  describe('POST /api/jobs/:name/run', () => {
+    it('ジョブを手動実行して実行履歴を返す', async () => {
+      vi.mocked(mockJobService.triggerJob).mockResolvedValue(ok(testJobRun));
+
+      const response = await request(app).post('/api/jobs/overdue-reminders/run');
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('SUCCEEDED');
+      expect(mockJobService.triggerJob).toHaveBeenCalledWith('overdue-reminders');
+    });
+
+    it('存在しないジョブの場合は404を返す', async () => {
+      vi.mocked(mockJobService.triggerJob).mockResolvedValue(
+        err({ type: 'JOB_NOT_FOUND', jobName: 'unknown' })
+      );
+
+      const response = await request(app).post('/api/jobs/unknown/run');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.type).toBe('JOB_NOT_FOUND');
+    });
+
+    it('実行中のジョブの場合は409を返す', async () => {
+      vi.mocked(mockJobService.triggerJob).mockResolvedValue(
+        err({ type: 'JOB_LOCKED', jobName: 'overdue-reminders' })
+      );
+
+      const response = await request(app).post('/api/jobs/overdue-reminders/run');
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.type).toBe('JOB_LOCKED');
+    });
+  });
+
+  describe('GET /api/jobs/:name/runs', () => {
+    it('取得件数の指定がない場合は20件で実行履歴を取得する', async () => {
+      vi.mocked(mockJobService.getRunHistory).mockResolvedValue(ok([testJobRun]));
+
+      const response = await request(app).get('/api/jobs/overdue-reminders/runs');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(mockJobService.getRunHistory).toHaveBeenCalledWith('overdue-reminders', 20);
+    });
+
+    it('指定された取得件数で実行履歴を取得する', async () => {
+      vi.mocked(mockJobService.getRunHistory).mockResolvedValue(ok([]));
+
+      await request(app).get('/api/jobs/overdue-reminders/runs?limit=5');
+
+      expect(mockJobService.getRunHistory).toHaveBeenCalledWith('overdue-reminders', 5);
+    });
+
+    it('取得件数が不正な場合は400を返す', async () => {
+      vi.mocked(mockJobService.getRunHistory).mockResolvedValue(
+        err({
+          type: 'VALIDATION_ERROR',
+          field: 'limit',
+          message: '取得件数は1〜100の整数で指定してください',
+        })
+      );
+
+      const response = await request(app).get('/api/jobs/overdue-reminders/runs?limit=abc');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('limit');
+    });
+  });
+});
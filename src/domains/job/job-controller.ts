@@ -0,0 +1,114 @@
+/**
+ * JobController - 定期実行ジョブ管理REST APIコントローラー
+ *
+ * 定期実行ジョブ管理のREST APIエンドポイントを提供します。
+ * すべてのエンドポイントは管理者のみ利用できます。
+ *
+ * エンドポイント:
+ * - GET /api/jobs - ジョブ一覧取得
+ * - POST /api/jobs/:name/run - ジョブの手動実行
+ * - GET /api/jobs/:name/runs - 実行履歴取得
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { isOk } from '../../shared/result.js';
+import { requireAdmin } from '../auth/rbac.js';
+import type { JobService } from './job-service.js';
+import type { JobError } from './types.js';
+import { DEFAULT_JOB_RUN_HISTORY_LIMIT } from './types.js';
+
+// ============================================
+// リクエスト型定義
+// ============================================
+
+/** 実行履歴取得クエリ */
+interface JobRunsQuery {
+  limit?: string;
+}
+
+// ============================================
+// HTTPステータスコード決定
+// ============================================
+
+/**
+ * JobErrorに基づいてHTTPステータスコードを決定
+ */
+function getErrorStatusCode(error: JobError): number {
+  switch (error.type) {
+    case 'VALIDATION_ERROR':
+      return 400;
+    case 'JOB_NOT_FOUND':
+      return 404;
+    case 'JOB_LOCKED':
+      return 409;
+  }
+}
+
+// ============================================
+// コントローラーファクトリ
+// ============================================
+
+/**
+ * JobControllerを作成
+ * @param jobService - JobServiceインスタンス
+ * @returns Expressルーター
+ */
+export function createJobController(jobService: JobService): Router {
+  const router = Router();
+
+  router.use(requireAdmin);
+
+  // ============================================
+  // GET /api/jobs - ジョブ一覧取得
+  // ============================================
+
+  router.get('/', async (_req: Request, res: Response): Promise<void> => {
+    const result = await jobService.listJobs();
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    }
+    // JobService.listJobs は never エラーを返すため、else ブランチは到達不可能
+  });
+
+  // ============================================
+  // POST /api/jobs/:name/run - ジョブの手動実行
+  // ============================================
+
+  router.post('/:name/run', async (req: Request, res: Response): Promise<void> => {
+    const jobName = req.params.name ?? '';
+    const result = await jobService.triggerJob(jobName);
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // GET /api/jobs/:name/runs - 実行履歴取得
+  // ============================================
+
+  router.get('/:name/runs', async (req: Request, res: Response): Promise<void> => {
+    const jobName = req.params.name ?? '';
+    const query = req.query as JobRunsQuery;
+    // 不正な値はそのままサービスに渡し、VALIDATION_ERRORとする
+    const limit =
+      query.limit === undefined || query.limit === ''
+        ? DEFAULT_JOB_RUN_HISTORY_LIMIT
+        : Number(query.limit);
+
+    const result = await jobService.getRunHistory(jobName, limit);
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,55 @@
+/**
+ * Job Repository Interface
+ *
+ * ジョブの実行状態（前回実行日時・ロック）と実行履歴の永続化を担当するリポジトリのインターフェース定義。
+ * 具体的な実装は Infrastructure 層で行います。
+ */
+
+import type { JobRun, RecordJobRunInput } from './types.js';
+
+// ============================================
+// リポジトリインターフェース
+// ============================================
+
+/** ジョブリポジトリ */
+export interface JobRepository {
+  /**
+   * ジョブの前回の実行開始日時を取得
+   * @param jobName - ジョブ名
+   * @returns 前回の実行開始日時（未実行の場合はnull）
+   */
+  findLastRunAt(jobName: string): Promise<Date | null>;
+
+  /**
+   * ジョブのロックを取得
+   * 他のインスタンスが有効なロックを保持している場合は取得できない
+   * @param jobName - ジョブ名
+   * @param holder - ロック保持者（インスタンスID）
+   * @param now - 現在時刻
+   * @param lockedUntil - ロックの有効期限
+   * @returns ロックを取得できた場合はtrue
+   */
+  tryAcquireLock(jobName: string, holder: string, now: Date, lockedUntil: Date): Promise<boolean>;
+
+  /**
+   * ジョブのロックを解放（保持者が一致する場合のみ）
+   * @param jobName - ジョブ名
+   * @param holder - ロック保持者（インスタンスID）
+   */
+  releaseLock(jobName: string, holder: string): Promise<void>;
+
+  /**
+   * 実行履歴を記録し、ジョブの前回実行日時を実行開始日時に更新
+   * @param input - 実行履歴記録入力
+   * @returns 記録された実行履歴
+   */
+  recordRun(input: RecordJobRunInput): Promise<JobRun>;
+
+  /**
+   * ジョブの実行履歴を取得
+   * @param jobName - ジョブ名
+   * @param limit - 取得件数
+   * @returns 実行履歴（新しい順）
+   */
+  findRunsByJobName(jobName: string, limit: number): Promise<JobRun[]>;
+}
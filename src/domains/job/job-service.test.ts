@@ -0,0 +1,454 @@
+/**
+ * JobService テスト
+ *
+ * 定期実行ジョブの実行判定・ロック・実行履歴記録のテストを記述します。
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createJobService, startJobScheduler } from './job-service.js';
+import type { JobRepository } from './job-repository.js';
+import type { JobDefinition, JobRun, JobSchedulerConfig, RecordJobRunInput } from './types.js';
+import type { Clock } from '../../shared/clock.js';
+import { createJobRunId } from '../../shared/branded-types.js';
+import { isOk, isErr } from '../../shared/result.js';
+
+// ============================================
+// モックファクトリ
+// ============================================
+
+/** 時刻を進められる時計 */
+function createMutableClock(initial: Date): Clock & { set(date: Date): void } {
+  let current = initial;
+  return {
+    now: () => new Date(current),
+    set(date: Date): void {
+      current = date;
+    },
+  };
+}
+
+/**
+ * 前回実行日時・ロック・実行履歴をメモリ上に保持するジョブリポジトリのモック
+ */
+function createInMemoryJobRepository(): JobRepository {
+  const lastRunAt = new Map<string, Date>();
+  const locks = new Map<string, { holder: string; lockedUntil: Date }>();
+  const runs: JobRun[] = [];
+
+  return {
+    findLastRunAt: vi.fn((jobName: string) => Promise.resolve(lastRunAt.get(jobName) ?? null)),
+    tryAcquireLock: vi.fn((jobName: string, holder: string, now: Date, lockedUntil: Date) => {
+      const lock = locks.get(jobName);
+      if (lock !== undefined && lock.lockedUntil >= now) {
+        return Promise.resolve(false);
+      }
+      locks.set(jobName, { holder, lockedUntil });
+      return Promise.resolve(true);
+    }),
+    releaseLock: vi.fn((jobName: string, holder: string) => {
+      if (locks.get(jobName)?.holder === holder) {
+        locks.delete(jobName);
+      }
+      return Promise.resolve();
+    }),
+    recordRun: vi.fn((input: RecordJobRunInput) => {
+      const run: JobRun = { id: createJobRunId(`run-${String(runs.length + 1)}`), ...input };
+      runs.push(run);
+      lastRunAt.set(input.jobName, input.startedAt);
+      return Promise.resolve(run);
+    }),
+    findRunsByJobName: vi.fn((jobName: string, limit: number) =>
+      Promise.resolve(
+        runs
+          .filter((run) => run.jobName === jobName)
+          .reverse()
+          .slice(0, limit)
+      )
+    ),
+  };
+}
+
+function createTestJob(overrides: Partial<JobDefinition> = {}): JobDefinition {
+  return {
+    name: 'test-job',
+    description: 'テスト用ジョブ',
+    schedule: '0 9 * * *',
+    run: vi.fn().mockResolvedValue({ summary: '処理 3件' }),
+    ...overrides,
+  };
+}
+
+// ============================================
+// テストデータ
+// ============================================
+
+const config: JobSchedulerConfig = { instanceId: 'instance-1', lockTtlMs: 10 * 60 * 1000 };
+
+// 2024-06-10（月）8:00（ローカル時刻）
+const startedAt = new Date(2024, 5, 10, 8, 0);
+
+// ============================================
+// テスト
+// ============================================
+
+describe('JobService', () => {
+  let jobRepository: JobRepository;
+  let clock: ReturnType<typeof createMutableClock>;
+
+  beforeEach(() => {
+    jobRepository = createInMemoryJobRepository();
+    clock = createMutableClock(startedAt);
+  });
+
+  describe('createJobService', () => {
+    it('ジョブ名が重複している場合は例外を投げる', () => {
+      expect(() =>
+        createJobService([createTestJob(), createTestJob()], jobRepository, config, clock)
+      ).toThrow('Duplicate job name');
+    });
+
+    it('スケジュールが不正な場合は例外を投げる', () => {
+      expect(() =>
+        createJobService([createTestJob({ schedule: '0 25 * * *' })], jobRepository, config, clock)
+      ).toThrow();
+    });
+  });
+
+  describe('listJobs', () => {
+    it('前回実行日時と次回実行予定日時を含むジョブ一覧を返す', async () => {
+      // Arrange
+      const service = createJobService([createTestJob()], jobRepository, config, clock);
+
+      // Act
+      const result = await service.listJobs();
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toEqual([
+          {
+            name: 'test-job',
+            description: 'テスト用ジョブ',
+            schedule: '0 9 * * *',
+            lastRunAt: null,
+            nextRunAt: new Date(2024, 5, 10, 9, 0),
+          },
+        ]);
+      }
+    });
+  });
+
+  describe('runDueJobs', () => {
+    it('実行予定日時前のジョブは実行しない', async () => {
+      // Arrange
+      const job = createTestJob();
+      const service = createJobService([job], jobRepository, config, clock);
+      clock.set(new Date(2024, 5, 10, 8, 59));
+
+      // Act
+      const result = await service.runDueJobs();
+
+      // Assert
+      expect(isOk(result) && result.value).toEqual([]);
+      expect(job.run).not.toHaveBeenCalled();
+    });
+
+    it('実行予定日時を過ぎたジョブを実行し、実行履歴と前回実行日時を記録する', async () => {
+      // Arrange
+      const job = createTestJob();
+      const service = createJobService([job], jobRepository, config, clock);
+      const now = new Date(2024, 5, 10, 9, 0, 30);
+      clock.set(now);
+
+      // Act
+      const result = await service.runDueJobs();
+
+      // Assert
+      expect(job.run).toHaveBeenCalledWith(now);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toHaveLength(1);
+        expect(result.value[0]).toMatchObject({
+          jobName: 'test-job',
+          trigger: 'SCHEDULED',
+          status: 'SUCCEEDED',
+          startedAt: now,
+          summary: '処理 3件',
+          error: null,
+        });
+      }
+      expect(await jobRepository.findLastRunAt('test-job')).toEqual(now);
+      expect(jobRepository.releaseLock).toHaveBeenCalledWith('test-job', 'instance-1');
+    });
+
+    it('実行済みのジョブは次の予定日時まで再実行しない', async () => {
+      // Arrange
+      const job = createTestJob();
+      const service = createJobService([job], jobRepository, config, clock);
+      clock.set(new Date(2024, 5, 10, 9, 0));
+      await service.runDueJobs();
+
+      // Act
+      clock.set(new Date(2024, 5, 10, 9, 1));
+      await service.runDueJobs();
+      clock.set(new Date(2024, 5, 11, 9, 0));
+      await service.runDueJobs();
+
+      // Assert
+      expect(job.run).toHaveBeenCalledTimes(2);
+    });
+
+    it('停止中に複数回の予定日時を過ぎていても1回だけ実行する', async () => {
+      // Arrange
+      const job = createTestJob();
+      const service = createJobService([job], jobRepository, config, clock);
+      clock.set(new Date(2024, 5, 13, 12, 0));
+
+      // Act
+      await service.runDueJobs();
+      await service.runDueJobs();
+
+      // Assert
+      expect(job.run).toHaveBeenCalledTimes(1);
+    });
+
+    it('他のインスタンスがロックを保持している場合は実行しない', async () => {
+      // Arrange
+      const job = createTestJob();
+      const service = createJobService([job], jobRepository, config, clock);
+      const now = new Date(2024, 5, 10, 9, 0);
+      await jobRepository.tryAcquireLock(
+        'test-job',
+        'instance-2',
+        now,
+        new Date(2024, 5, 10, 9, 10)
+      );
+      clock.set(now);
+
+      // Act
+      const result = await service.runDueJobs();
+
+      // Assert
+      expect(isOk(result) && result.value).toEqual([]);
+      expect(job.run).not.toHaveBeenCalled();
+    });
+
+    it('ロックの取得までに他のインスタンスが実行を終えていた場合は実行しない', async () => {
+      // Arrange
+      const job = createTestJob();
+      const service = createJobService([job], jobRepository, config, clock);
+      const now = new Date(2024, 5, 10, 9, 0);
+      clock.set(now);
+      // 1回目の前回実行日時の確認後に他のインスタンスが実行を記録した状態を再現する
+      vi.mocked(jobRepository.findLastRunAt).mockResolvedValueOnce(null).mockResolvedValueOnce(now);
+
+      // Act
+      const result = await service.runDueJobs();
+
+      // Assert
+      expect(isOk(result) && result.value).toEqual([]);
+      expect(job.run).not.toHaveBeenCalled();
+      expect(jobRepository.releaseLock).toHaveBeenCalledWith('test-job', 'instance-1');
+    });
+
+    it('ジョブが失敗した場合は失敗として記録し、他のジョブの実行を続ける', async () => {
+      // Arrange
+      const failingJob = createTestJob({
+        name: 'failing-job',
+        run: vi.fn().mockRejectedValue(new Error('connection refused')),
+      });
+      const job = createTestJob();
+      const service = createJobService([failingJob, job], jobRepository, config, clock);
+      clock.set(new Date(2024, 5, 10, 9, 0));
+
+      // Act
+      const result = await service.runDueJobs();
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.map((run) => [run.jobName, run.status])).toEqual([
+          ['failing-job', 'FAILED'],
+          ['test-job', 'SUCCEEDED'],
+        ]);
+        expect(result.value[0]?.error).toBe('connection refused');
+        expect(result.value[0]?.summary).toBeNull();
+      }
+      expect(jobRepository.releaseLock).toHaveBeenCalledWith('failing-job', 'instance-1');
+    });
+  });
+
+  describe('triggerJob', () => {
+    it('予定日時前でもジョブを手動実行できる', async () => {
+      // Arrange
+      const job = createTestJob();
+      const service = createJobService([job], jobRepository, config, clock);
+
+      // Act
+      const result = await service.triggerJob('test-job');
+
+      // Assert
+      expect(job.run).toHaveBeenCalledWith(startedAt);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toMatchObject({ trigger: 'MANUAL', status: 'SUCCEEDED' });
+      }
+    });
+
+    it('存在しないジョブの場合はJOB_NOT_FOUNDエラーを返す', async () => {
+      // Arrange
+      const service = createJobService([createTestJob()], jobRepository, config, clock);
+
+      // Act
+      const result = await service.triggerJob('unknown-job');
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual({ type: 'JOB_NOT_FOUND', jobName: 'unknown-job' });
+      }
+    });
+
+    it('ジョブが実行中の場合はJOB_LOCKEDエラーを返す', async () => {
+      // Arrange
+      const job = createTestJob();
+      const service = createJobService([job], jobRepository, config, clock);
+      await jobRepository.tryAcquireLock(
+        'test-job',
+        'instance-2',
+        startedAt,
+        new Date(2024, 5, 10, 8, 10)
+      );
+
+      // Act
+      const result = await service.triggerJob('test-job');
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual({ type: 'JOB_LOCKED', jobName: 'test-job' });
+      }
+      expect(job.run).not.toHaveBeenCalled();
+    });
+
+    it('有効期限切れのロックは取得し直して実行できる', async () => {
+      // Arrange
+      const job = createTestJob();
+      const service = createJobService([job], jobRepository, config, clock);
+      await jobRepository.tryAcquireLock(
+        'test-job',
+        'instance-2',
+        new Date(2024, 5, 10, 7, 0),
+        new Date(2024, 5, 10, 7, 10)
+      );
+
+      // Act
+      const result = await service.triggerJob('test-job');
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      expect(job.run).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getRunHistory', () => {
+    it('実行履歴を新しい順に返す', async () => {
+      // Arrange
+      const service = createJobService([createTestJob()], jobRepository, config, clock);
+      await service.triggerJob('test-job');
+      clock.set(new Date(2024, 5, 10, 8, 30));
+      await service.triggerJob('test-job');
+
+      // Act
+      const result = await service.getRunHistory('test-job', 20);
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.map((run) => run.startedAt)).toEqual([
+          new Date(2024, 5, 10, 8, 30),
+          startedAt,
+        ]);
+      }
+    });
+
+    it.each([0, 101, 1.5, NaN])('取得件数 %s はVALIDATION_ERRORを返す', async (limit) => {
+      // Arrange
+      const service = createJobService([createTestJob()], jobRepository, config, clock);
+
+      // Act
+      const result = await service.getRunHistory('test-job', limit);
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('VALIDATION_ERROR');
+      }
+    });
+
+    it('存在しないジョブの場合はJOB_NOT_FOUNDエラーを返す', async () => {
+      // Arrange
+      const service = createJobService([createTestJob()], jobRepository, config, clock);
+
+      // Act
+      const result = await service.getRunHistory('unknown-job', 20);
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('JOB_NOT_FOUND');
+      }
+    });
+  });
+});
+
+describe('startJobScheduler', () => {
+  it('一定間隔で実行予定のジョブをチェックし、停止後はチェックしない', async () => {
+    vi.useFakeTimers();
+    try {
+      // Arrange
+      const jobService = {
+        listJobs: vi.fn(),
+        triggerJob: vi.fn(),
+        getRunHistory: vi.fn(),
+        runDueJobs: vi.fn().mockResolvedValue({ success: true, value: [] }),
+      };
+
+      // Act
+      const stop = startJobScheduler(jobService, 1000);
+      await vi.advanceTimersByTimeAsync(3000);
+      stop();
+      await vi.advanceTimersByTimeAsync(3000);
+
+      // Assert
+      expect(jobService.runDueJobs).toHaveBeenCalledTimes(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('チェックが失敗した場合はエラーコールバックを呼び出す', async () => {
+    vi.useFakeTimers();
+    try {
+      // Arrange
+      const error = new Error('database unavailable');
+      const onError = vi.fn();
+      const jobService = {
+        listJobs: vi.fn(),
+        triggerJob: vi.fn(),
+        getRunHistory: vi.fn(),
+        runDueJobs: vi.fn().mockRejectedValue(error),
+      };
+
+      // Act
+      const stop = startJobScheduler(jobService, 1000, onError);
+      await vi.advanceTimersByTimeAsync(1000);
+      stop();
+
+      // Assert
+      expect(onError).toHaveBeenCalledWith(error);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * JobService - 定期実行ジョブ管理サービス
+ *
+ * 登録されたジョブをcron形式のスケジュールに従って実行し、実行履歴を記録します。
+ * 前回実行日時は永続化され、サーバーの再起動をまたいでも実行漏れの分は次回のチェックで実行します。
+ * ジョブごとにロックを取得してから実行するため、複数のサーバーインスタンスが
+ * 同じジョブを同時に実行することはありません。
+ */
+
+import type { Result } from '../../shared/result.js';
+import { ok, err } from '../../shared/result.js';
+import type { Clock } from '../../shared/clock.js';
+import { systemClock } from '../../shared/clock.js';
+import type { JobRepository } from './job-repository.js';
+import { parseCronExpression, nextCronOccurrence, type CronSchedule } from './cron.js';
+import type {
+  JobDefinition,
+  JobInfo,
+  JobRun,
+  JobRunStatus,
+  JobTrigger,
+  JobError,
+  JobSchedulerConfig,
+} from './types.js';
+import { MAX_JOB_RUN_HISTORY_LIMIT } from './types.js';
+
+// ============================================
+// サービスインターフェース
+// ============================================
+
+/** JobService インターフェース */
+export interface JobService {
+  /**
+   * 登録されているジョブの一覧を取得
+   * @returns ジョブ一覧（前回実行日時・次回実行予定日時を含む）
+   */
+  listJobs(): Promise<Result<JobInfo[], never>>;
+
+  /**
+   * ジョブを手動で実行
+   * ジョブ自体が失敗した場合も実行履歴として記録し、失敗ステータスの実行履歴を返す
+   * @param jobName - ジョブ名
+   * @returns 実行履歴またはエラー（他のインスタンスで実行中の場合はJOB_LOCKED）
+   */
+  triggerJob(jobName: string): Promise<Result<JobRun, JobError>>;
+
+  /**
+   * ジョブの実行履歴を取得
+   * @param jobName - ジョブ名
+   * @param limit - 取得件数（1〜100）
+   * @returns 実行履歴（新しい順）またはエラー
+   */
+  getRunHistory(jobName: string, limit: number): Promise<Result<JobRun[], JobError>>;
+
+  /**
+   * 実行予定日時を過ぎたジョブを実行
+   * スケジューラーから定期的に呼び出す
+   * @returns このチェックで実行したジョブの実行履歴
+   */
+  runDueJobs(): Promise<Result<JobRun[], never>>;
+}
+
+// ============================================
+// サービス実装
+// ============================================
+
+interface ScheduledJob {
+  readonly definition: JobDefinition;
+  readonly schedule: CronSchedule;
+}
+
+/**
+ * JobService を作成
+ * @param jobs - 登録するジョブ定義
+ * @param jobRepository - ジョブリポジトリ
+ * @param config - ジョブスケジューラー設定
+ * @param clock - 時計（テスト時に差し替える）
+ * @returns JobService
+ * @throws Error - ジョブ名の重複やスケジュールが不正な場合
+ */
+export function createJobService(
+  jobs: readonly JobDefinition[],
+  jobRepository: JobRepository,
+  config: JobSchedulerConfig,
+  clock: Clock = systemClock
+): JobService {
+  const scheduledJobs = new Map<string, ScheduledJob>();
+  for (const definition of jobs) {
+    if (scheduledJobs.has(definition.name)) {
+      throw new Error(`Duplicate job name: ${definition.name}`);
+    }
+    scheduledJobs.set(definition.name, {
+      definition,
+      schedule: parseCronExpression(definition.schedule),
+    });
+  }
+
+  // 一度も実行されていないジョブは、サービス作成時点以降の最初の予定日時に実行する
+  const createdAt = clock.now();
+
+  /**
+   * 次回の実行予定日時を計算
+   */
+  function calculateNextRunAt(job: ScheduledJob, lastRunAt: Date | null): Date {
+    return nextCronOccurrence(job.schedule, lastRunAt ?? createdAt);
+  }
+
+  /**
+   * ジョブのロックを取得して処理を実行（ロックを取得できなければnull）
+   */
+  async function withLock<T>(
+    jobName: string,
+    now: Date,
+    work: () => Promise<T | null>
+  ): Promise<T | null> {
+    const lockedUntil = new Date(now.getTime() + config.lockTtlMs);
+    const acquired = await jobRepository.tryAcquireLock(
+      jobName,
+      config.instanceId,
+      now,
+      lockedUntil
+    );
+    if (!acquired) {
+      return null;
+    }
+
+    try {
+      return await work();
+    } finally {
+      await jobRepository.releaseLock(jobName, config.instanceId);
+    }
+  }
+
+  /**
+   * ジョブを実行して実行履歴を記録
+   * ロックを取得した状態で呼び出すこと
+   */
+  async function execute(job: ScheduledJob, trigger: JobTrigger, startedAt: Date): Promise<JobRun> {
+    let status: JobRunStatus;
+    let summary: string | null = null;
+    let error: string | null = null;
+    try {
+      const outcome = await job.definition.run(startedAt);
+      status = 'SUCCEEDED';
+      summary = outcome.summary;
+    } catch (e) {
+      status = 'FAILED';
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    return jobRepository.recordRun({
+      jobName: job.definition.name,
+      trigger,
+      status,
+      startedAt,
+      finishedAt: clock.now(),
+      summary,
+      error,
+    });
+  }
+
+  return {
+    async listJobs(): Promise<Result<JobInfo[], never>> {
+      const infos: JobInfo[] = [];
+      for (const job of scheduledJobs.values()) {
+        const lastRunAt = await jobRepository.findLastRunAt(job.definition.name);
+        infos.push({
+          name: job.definition.name,
+          description: job.definition.description,
+          schedule: job.definition.schedule,
+          lastRunAt,
+          nextRunAt: calculateNextRunAt(job, lastRunAt),
+        });
+      }
+      return ok(infos);
+    },
+
+    async triggerJob(jobName: string): Promise<Result<JobRun, JobError>> {
+      // 1. ジョブの存在確認
+      const job = scheduledJobs.get(jobName);
+      if (job === undefined) {
+        return err({ type: 'JOB_NOT_FOUND', jobName });
+      }
+
+      // 2. ロックを取得して実行（他のインスタンスで実行中の場合はエラー）
+      const now = clock.now();
+      const run = await withLock(jobName, now, () => execute(job, 'MANUAL', now));
+      if (run === null) {
+        return err({ type: 'JOB_LOCKED', jobName });
+      }
+
+      return ok(run);
+    },
+
+    async getRunHistory(jobName: string, limit: number): Promise<Result<JobRun[], JobError>> {
+      // 1. 取得件数の検証
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_JOB_RUN_HISTORY_LIMIT) {
+        return err({
+          type: 'VALIDATION_ERROR',
+          field: 'limit',
+          message: `取得件数は1〜${String(MAX_JOB_RUN_HISTORY_LIMIT)}の整数で指定してください`,
+        });
+      }
+
+      // 2. ジョブの存在確認
+      if (!scheduledJobs.has(jobName)) {
+        return err({ type: 'JOB_NOT_FOUND', jobName });
+      }
+
+      return ok(await jobRepository.findRunsByJobName(jobName, limit));
+    },
+
+    async runDueJobs(): Promise<Result<JobRun[], never>> {
+      const runs: JobRun[] = [];
+
+      for (const job of scheduledJobs.values()) {
+        const jobName = job.definition.name;
+        const now = clock.now();
+
+        // 1. 実行予定日時を過ぎているか判定
+        const lastRunAt = await jobRepository.findLastRunAt(jobName);
+        if (calculateNextRunAt(job, lastRunAt) > now) {
+          continue;
+        }
+
+        // 2. ロックを取得して実行（他のインスタンスが実行中の場合はスキップ）
+        const run = await withLock(jobName, now, async () => {
+          // ロックの取得までに他のインスタンスが実行を終えていた場合は実行しない
+          const latestRunAt = await jobRepository.findLastRunAt(jobName);
+          if (calculateNextRunAt(job, latestRunAt) > now) {
+            return null;
+          }
+          return execute(job, 'SCHEDULED', now);
+        });
+        if (run !== null) {
+          runs.push(run);
+        }
+      }
+
+      return ok(runs);
+    },
+  };
+}
+
+// ============================================
+// スケジューラー
+// ============================================
+
+/**
+ * 一定間隔で実行予定のジョブをチェックするスケジューラーを開始
+ * 前回のチェックが終わっていない場合はそのチェックをスキップする
+ * @param jobService - JobService
+ * @param intervalMs - チェック間隔（ミリ秒）
+ * @param onError - チェック自体が失敗した場合（データベース接続エラーなど）のコールバック
+ * @returns スケジューラーを停止する関数
+ */
+export function startJobScheduler(
+  jobService: JobService,
+  intervalMs = 60_000,
+  onError?: (error: unknown) => void
+): () => void {
+  let running = false;
+
+  const timer = setInterval(() => {
+    if (running) {
+      return;
+    }
+    running = true;
+    jobService
+      .runDueJobs()
+      .catch((error: unknown) => {
+        onError?.(error);
+      })
+      .finally(() => {
+        running = false;
+      });
+  }, intervalMs);
+
+  return () => {
+    clearInterval(timer);
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * 図書館業務の定期実行ジョブ テスト
+ *
+ * 各ジョブに固定の実行時刻を渡し、対象の抽出と処理結果を検証します。
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createReservationExpiryJob,
+  createOverdueReminderJob,
+  createDueSoonReminderJob,
+  createOverdueSnapshotJob,
+} from './library-jobs.js';
+import type { Loan } from '../loan/types.js';
+import type { OpeningCalendar } from '../calendar/types.js';
+import { ALWAYS_OPEN_CALENDAR } from '../calendar/types.js';
+import { createLoanId, createUserId, createCopyId } from '../../shared/branded-types.js';
+import { ok, err } from '../../shared/result.js';
+import { createFixedClock } from '../../shared/clock.js';
+
+// ============================================
+// テストデータ
+// ============================================
+
+// 2024-06-10（月）9:00（ローカル時刻）
+const clock = createFixedClock(new Date(2024, 5, 10, 9, 0));
+
+function createTestLoan(id: string, dueDate: Date): Loan {
+  return {
+    id: createLoanId(id),
+    userId: createUserId(`user-${id}`),
+    bookCopyId: createCopyId(`copy-${id}`),
+    borrowedAt: new Date(2024, 4, 20),
+    dueDate,
+    returnedAt: null,
+    returnProcessedAt: null,
+    status: 'ACTIVE',
+    renewalCount: 0,
+    loanPolicyId: null,
+    recalledAt: null,
+  };
+}
+
+// ============================================
+// テスト
+// ============================================
+
+describe('library-jobs', () => {
+  describe('createReservationExpiryJob', () => {
+    it('実行時刻を基準に期限切れ予約を処理し、件数を概要に記録する', async () => {
+      // Arrange
+      const reservationService = {
+        expireOverdueReservations: vi
+          .fn()
+          .mockResolvedValue(ok({ expiredCount: 2, nextNotifiedReservations: [{}] })),
+      };
+      const job = createReservationExpiryJob(reservationService);
+
+      // Act
+      const outcome = await job.run(clock.now());
+
+      // Assert
+      expect(reservationService.expireOverdueReservations).toHaveBeenCalledWith(clock.now());
+      expect(outcome.summary).toBe('期限切れ 2件、次順位者への引き継ぎ 1件');
+    });
+  });
+
+  describe('createOverdueReminderJob', () => {
+    it('延滞中の貸出の利用者に延滞リマインダーを送信し、失敗件数も記録する', async () => {
+      // Arrange
+      const loans = [
+        createTestLoan('loan-1', new Date(2024, 5, 1)),
+        createTestLoan('loan-2', new Date(2024, 5, 5)),
+      ];
+      const loanRepository = { findOverdue: vi.fn().mockResolvedValue(loans) };
+      const notificationService = {
+        sendOverdueReminder: vi
+          .fn()
+          .mockResolvedValueOnce(ok(undefined))
+          .mockResolvedValueOnce(err({ type: 'QUEUE_ERROR', message: 'Connection failed' })),
+      };
+      const job = createOverdueReminderJob(loanRepository, notificationService);
+
+      // Act
+      const outcome = await job.run(clock.now());
+
+      // Assert
+      expect(loanRepository.findOverdue).toHaveBeenCalledWith(clock.now());
+      expect(notificationService.sendOverdueReminder).toHaveBeenCalledWith(
+        loans[0]?.userId,
+        loans[0]?.id
+      );
+      expect(outcome.summary).toBe('送信 1件、失敗 1件');
+    });
+  });
+
+  describe('createDueSoonReminderJob', () => {
+    it('返却期限が指定日数後の日にある貸出を対象にリマインダーを送信する', async () => {
+      // Arrange
+      const loan = createTestLoan('loan-1', new Date(2024, 5, 12, 23, 59));
+      const loanRepository = { findDueBetween: vi.fn().mockResolvedValue([loan]) };
+      const notificationService = { sendDueSoonReminder: vi.fn().mockResolvedValue(ok(undefined)) };
+      const job = createDueSoonReminderJob(loanRepository, notificationService, 2);
+
+      // Act
+      const outcome = await job.run(clock.now());
+
+      // Assert
+      expect(loanRepository.findDueBetween).toHaveBeenCalledWith(
+        new Date(2024, 5, 12),
+        new Date(2024, 5, 13)
+      );
+      expect(notificationService.sendDueSoonReminder).toHaveBeenCalledWith(
+        loan.userId,
+        loan.id,
+        loan.dueDate
+      );
+      expect(outcome.summary).toBe('送信 1件、失敗 0件');
+    });
+  });
+
+  describe('createOverdueSnapshotJob', () => {
+    it('延滞日数を開館日数で計算し、実行日の日付でスナップショットを保存する', async () => {
+      // Arrange
+      // 日曜日（0）休館
+      const calendar: OpeningCalendar = {
+        ...ALWAYS_OPEN_CALENDAR,
+        weeklyHours: [{ weekday: 0, opensAt: null, closesAt: null }],
+      };
+      const loans = [
+        // 6/7（金）期限 → 6/8（土）・6/10（月）の2開館日
+        createTestLoan('loan-1', new Date(2024, 5, 7, 9, 0)),
+        // 6/9（日）期限 → 6/10（月）の1開館日
+        createTestLoan('loan-2', new Date(2024, 5, 9, 9, 0)),
+      ];
+      const loanRepository = { findOverdue: vi.fn().mockResolvedValue(loans) };
+      const overdueRecordRepository = { saveSnapshot: vi.fn().mockResolvedValue(2) };
+      const calendarService = { getOpeningCalendar: vi.fn().mockResolvedValue(ok(calendar)) };
+      const job = createOverdueSnapshotJob(
+        loanRepository,
+        overdueRecordRepository,
+        calendarService
+      );
+
+      // Act
+      const outcome = await job.run(clock.now());
+
+      // Assert
+      expect(overdueRecordRepository.saveSnapshot).toHaveBeenCalledWith('2024-06-10', [
+        { loanId: loans[0]?.id, userId: loans[0]?.userId, overdueDays: 2 },
+        { loanId: loans[1]?.id, userId: loans[1]?.userId, overdueDays: 1 },
+      ]);
+      expect(outcome.summary).toBe('2024-06-10 の延滞 2件を記録');
+    });
+
+    it('返却期限後に開館日がない貸出は記録しない', async () => {
+      // Arrange
+      // 6/8（土）期限、実行は6/8（土）の深夜 → 翌日の6/9（日）は休館のため延滞日数0
+      const now = new Date(2024, 5, 8, 23, 0);
+      const calendar: OpeningCalendar = {
+        ...ALWAYS_OPEN_CALENDAR,
+        weeklyHours: [{ weekday: 0, opensAt: null, closesAt: null }],
+      };
+      const loanRepository = {
+        findOverdue: vi.fn().mockResolvedValue([createTestLoan('loan-1', new Date(2024, 5, 8, 9))]),
+      };
+      const overdueRecordRepository = { saveSnapshot: vi.fn().mockResolvedValue(0) };
+      const calendarService = { getOpeningCalendar: vi.fn().mockResolvedValue(ok(calendar)) };
+      const job = createOverdueSnapshotJob(
+        loanRepository,
+        overdueRecordRepository,
+        calendarService
+      );
+
+      // Act
+      await job.run(now);
+
+      // Assert
+      expect(overdueRecordRepository.saveSnapshot).toHaveBeenCalledWith('2024-06-08', []);
+    });
+  });
+});
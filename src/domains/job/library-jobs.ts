@@ -0,0 +1,182 @@
+/**
+ * 図書館業務の定期実行ジョブ
+ *
+ * 予約の期限切れ処理・延滞リマインダー・返却期限前リマインダー・延滞状況スナップショットの
+ * ジョブ定義を提供します。各ジョブは実行時刻を引数で受け取るため、固定の時刻でテストできます。
+ */
+
+import { isOk } from '../../shared/result.js';
+import type { LoanRepository } from '../loan/loan-repository.js';
+import type { OverdueRecordRepository } from '../loan/overdue-record-repository.js';
+import type { Loan, OverdueSnapshotEntry } from '../loan/types.js';
+import type { ReservationService } from '../reservation/reservation-service.js';
+import type { NotificationService } from '../notification/notification-service.js';
+import type { CalendarService } from '../calendar/calendar-service.js';
+import { countOpenDays, toDateKey } from '../calendar/calendar-service.js';
+import { ALWAYS_OPEN_CALENDAR } from '../calendar/types.js';
+import type { JobDefinition, JobOutcome } from './types.js';
+
+// ============================================
+// 定数
+// ============================================
+
+/** 返却期限前リマインダーを送信する日数（返却期限の何日前か） */
+export const DEFAULT_DUE_SOON_REMINDER_DAYS = 2;
+
+// ============================================
+// ヘルパー関数
+// ============================================
+
+/**
+ * 貸出ごとに通知を送信し、送信結果を集計
+ */
+async function sendForEachLoan(
+  loans: readonly Loan[],
+  send: (loan: Loan) => Promise<{ readonly success: boolean }>
+): Promise<{ sent: number; failed: number }> {
+  let sent = 0;
+  let failed = 0;
+  for (const loan of loans) {
+    const result = await send(loan);
+    if (result.success) {
+      sent++;
+    } else {
+      failed++;
+    }
+  }
+  return { sent, failed };
+}
+
+/**
+ * 指定日時の日の開始時刻（ローカル時刻の0時）を取得
+ */
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+// ============================================
+// ジョブ定義
+// ============================================
+
+/**
+ * 予約の期限切れ処理ジョブを作成（15分ごと）
+ * 取り置き期限を過ぎた予約を期限切れにし、次順位者に引き継ぐ
+ * @param reservationService - 予約サービス
+ * @returns ジョブ定義
+ */
+export function createReservationExpiryJob(
+  reservationService: Pick<ReservationService, 'expireOverdueReservations'>
+): JobDefinition {
+  return {
+    name: 'reservation-expiry',
+    description: '取り置き期限を過ぎた予約を期限切れにし、次順位の予約者に引き継ぐ',
+    schedule: '*/15 * * * *',
+    async run(now: Date): Promise<JobOutcome> {
+      const result = await reservationService.expireOverdueReservations(now);
+      // expireOverdueReservations は never エラーを返すため、常に成功する
+      const expiredCount = isOk(result) ? result.value.expiredCount : 0;
+      const notifiedCount = isOk(result) ? result.value.nextNotifiedReservations.length : 0;
+      return {
+        summary: `期限切れ ${String(expiredCount)}件、次順位者への引き継ぎ ${String(notifiedCount)}件`,
+      };
+    },
+  };
+}
+
+/**
+ * 延滞リマインダー送信ジョブを作成（毎日9時）
+ * 返却期限を過ぎた貸出の利用者に延滞リマインダーを送信する
+ * @param loanRepository - 貸出リポジトリ
+ * @param notificationService - 通知サービス
+ * @returns ジョブ定義
+ */
+export function createOverdueReminderJob(
+  loanRepository: Pick<LoanRepository, 'findOverdue'>,
+  notificationService: Pick<NotificationService, 'sendOverdueReminder'>
+): JobDefinition {
+  return {
+    name: 'overdue-reminders',
+    description: '返却期限を過ぎた貸出の利用者に延滞リマインダーを送信する',
+    schedule: '0 9 * * *',
+    async run(now: Date): Promise<JobOutcome> {
+      const loans = await loanRepository.findOverdue(now);
+      const { sent, failed } = await sendForEachLoan(loans, (loan) =>
+        notificationService.sendOverdueReminder(loan.userId, loan.id)
+      );
+      return { summary: `送信 ${String(sent)}件、失敗 ${String(failed)}件` };
+    },
+  };
+}
+
+/**
+ * 返却期限前リマインダー送信ジョブを作成（毎日9時）
+ * 返却期限が指定日数後の日にある貸出の利用者にリマインダーを送信する
+ * @param loanRepository - 貸出リポジトリ
+ * @param notificationService - 通知サービス
+ * @param daysBefore - 返却期限の何日前に送信するか
+ * @returns ジョブ定義
+ */
+export function createDueSoonReminderJob(
+  loanRepository: Pick<LoanRepository, 'findDueBetween'>,
+  notificationService: Pick<NotificationService, 'sendDueSoonReminder'>,
+  daysBefore: number = DEFAULT_DUE_SOON_REMINDER_DAYS
+): JobDefinition {
+  return {
+    name: 'due-soon-reminders',
+    description: `返却期限の${String(daysBefore)}日前の貸出の利用者にリマインダーを送信する`,
+    schedule: '0 9 * * *',
+    async run(now: Date): Promise<JobOutcome> {
+      // 返却期限が指定日数後の日（0時〜翌日0時）にある貸出が対象
+      const from = startOfDay(now);
+      from.setDate(from.getDate() + daysBefore);
+      const to = new Date(from);
+      to.setDate(to.getDate() + 1);
+
+      const loans = await loanRepository.findDueBetween(from, to);
+      const { sent, failed } = await sendForEachLoan(loans, (loan) =>
+        notificationService.sendDueSoonReminder(loan.userId, loan.id, loan.dueDate)
+      );
+      return { summary: `送信 ${String(sent)}件、失敗 ${String(failed)}件` };
+    },
+  };
+}
+
+/**
+ * 延滞状況スナップショットジョブを作成（毎日0時5分）
+ * 延滞中の貸出と延滞日数（開館日数）を日付ごとに記録する
+ * @param loanRepository - 貸出リポジトリ
+ * @param overdueRecordRepository - 延滞記録リポジトリ
+ * @param calendarService - 開館カレンダーサービス
+ * @returns ジョブ定義
+ */
+export function createOverdueSnapshotJob(
+  loanRepository: Pick<LoanRepository, 'findOverdue'>,
+  overdueRecordRepository: Pick<OverdueRecordRepository, 'saveSnapshot'>,
+  calendarService: Pick<CalendarService, 'getOpeningCalendar'>
+): JobDefinition {
+  return {
+    name: 'overdue-snapshot',
+    description: '延滞中の貸出と延滞日数を日次で記録する',
+    schedule: '5 0 * * *',
+    async run(now: Date): Promise<JobOutcome> {
+      const calendarResult = await calendarService.getOpeningCalendar();
+      const calendar = isOk(calendarResult) ? calendarResult.value : ALWAYS_OPEN_CALENDAR;
+
+      // 返却期限後に開館日がない（休館日のみ経過した）貸出は延滞日数0のため記録しない
+      const loans = await loanRepository.findOverdue(now);
+      const entries: OverdueSnapshotEntry[] = [];
+      for (const loan of loans) {
+        const overdueDays = countOpenDays(calendar, loan.dueDate, now);
+        if (overdueDays > 0) {
+          entries.push({ loanId: loan.id, userId: loan.userId, overdueDays });
+        }
+      }
+
+      const snapshotDate = toDateKey(now);
+      const savedCount = await overdueRecordRepository.saveSnapshot(snapshotDate, entries);
+      return { summary: `${snapshotDate} の延滞 ${String(savedCount)}件を記録` };
+    },
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Job Domain - 型定義
+ *
+ * 定期実行ジョブ（予約の期限切れ処理・リマインダー送信など）の型定義を提供します。
+ */
+
+import type { JobRunId } from '../../shared/branded-types.js';
+
+// ============================================
+// ジョブ定義型
+// ============================================
+
+/** ジョブの実行結果（実行履歴に記録する概要） */
+export interface JobOutcome {
+  readonly summary: string;
+}
+
+/**
+ * ジョブ定義
+ *
+ * スケジュールはcron形式（分 時 日 月 曜日、サーバーのローカル時刻）で指定する
+ */
+export interface JobDefinition {
+  /** ジョブ名（URLに使用するため英小文字とハイフンのみ） */
+  readonly name: string;
+  readonly description: string;
+  /** 実行スケジュール（cron形式） */
+  readonly schedule: string;
+  /**
+   * ジョブを実行
+   * 失敗した場合は例外を投げる（実行履歴に失敗として記録される）
+   * @param now - 実行時刻
+   * @returns 実行結果
+   */
+  run(now: Date): Promise<JobOutcome>;
+}
+
+// ============================================
+// 実行履歴型定義
+// ============================================
+
+/** 実行契機 */
+export type JobTrigger =
+  | 'SCHEDULED' // スケジュールによる実行
+  | 'MANUAL'; // 管理者による手動実行
+
+/** 実行結果ステータス */
+export type JobRunStatus = 'SUCCEEDED' | 'FAILED';
+
+/** ジョブ実行履歴 */
+export interface JobRun {
+  readonly id: JobRunId;
+  readonly jobName: string;
+  readonly trigger: JobTrigger;
+  readonly status: JobRunStatus;
+  readonly startedAt: Date;
+  readonly finishedAt: Date;
+  /** 実行結果の概要（失敗時はnull） */
+  readonly summary: string | null;
+  /** 失敗時のエラーメッセージ（成功時はnull） */
+  readonly error: string | null;
+}
+
+/** ジョブ実行履歴記録入力 */
+export interface RecordJobRunInput {
+  readonly jobName: string;
+  readonly trigger: JobTrigger;
+  readonly status: JobRunStatus;
+  readonly startedAt: Date;
+  readonly finishedAt: Date;
+  readonly summary: string | null;
+  readonly error: string | null;
+}
+
+// ============================================
+// ジョブ情報型定義
+// ============================================
+
+/** ジョブ一覧の項目 */
+export interface JobInfo {
+  readonly name: string;
+  readonly description: string;
+  readonly schedule: string;
+  /** 前回の実行開始日時（未実行の場合はnull） */
+  readonly lastRunAt: Date | null;
+  /** 次回のスケジュール実行予定日時 */
+  readonly nextRunAt: Date;
+}
+
+// ============================================
+// 設定型定義
+// ============================================
+
+/** ジョブスケジューラー設定 */
+export interface JobSchedulerConfig {
+  /** サーバーインスタンスの識別子（ジョブのロック保持者として記録） */
+  readonly instanceId: string;
+  /** ジョブのロックの有効期間（ミリ秒、実行中に異常終了した場合はこの期間後に解放される） */
+  readonly lockTtlMs: number;
+}
+
+/** デフォルトのロック有効期間（10分） */
+export const DEFAULT_JOB_LOCK_TTL_MS = 10 * 60 * 1000;
+
+/** 実行履歴のデフォルトの取得件数 */
+export const DEFAULT_JOB_RUN_HISTORY_LIMIT = 20;
+
+/** 実行履歴の取得件数の上限 */
+export const MAX_JOB_RUN_HISTORY_LIMIT = 100;
+
+// ============================================
+// エラー型定義
+// ============================================
+
+/** ジョブエラー */
+export type JobError =
+  | { readonly type: 'VALIDATION_ERROR'; readonly field: string; readonly message: string }
+  | { readonly type: 'JOB_NOT_FOUND'; readonly jobName: string }
+  | { readonly type: 'JOB_LOCKED'; readonly jobName: string };
@@ -0,0 +1,28 @@
+/**
+ * BookDrop Repository Interface
+ *
+ * 返却ポストモードの永続化を担当するリポジトリのインターフェース定義。
+ * 具体的な実装は Infrastructure 層で行います。
+ */
+
+import type { BookDropMode } from './types.js';
+
+// ============================================
+// リポジトリインターフェース
+// ============================================
+
+/** 返却ポストモードリポジトリ */
+export interface BookDropRepository {
+  /**
+   * 現在の返却ポストモードを取得
+   * @returns 返却ポストモード
+   */
+  getMode(): Promise<BookDropMode>;
+
+  /**
+   * 返却ポストモードを切り替え
+   * @param enabled - 有効にする場合はtrue
+   * @returns 更新後の返却ポストモード
+   */
+  setMode(enabled: boolean): Promise<BookDropMode>;
+}
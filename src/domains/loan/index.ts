@@ -4,3 +4,8 @@ export * from './loan-repository.js';
 export * from './loan-service.js';
 export * from './loan-controller.js';
 export * from './overdue-record-repository.js';
+export * from './loan-policy-repository.js';
+export * from './loan-policy-service.js';
+export * from './loan-policy-controller.js';
+export * from './return-claim-repository.js';
+export * from './book-drop-repository.js';
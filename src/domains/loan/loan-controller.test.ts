@@ -4,8 +4,11 @@
  * TDDに従い、貸出管理REST APIのテストを先に記述します。
  *
  * エンドポイント:
- * - POST /api/loans - 貸出処理
+ * - POST /api/loans - 貸出処理（蔵書コピーIDまたはバーコード）
+ * - POST /api/loans/batch - 一括貸出（蔵書コピーIDまたはバーコード）
+ * - POST /api/loans/returns/batch - 一括返却（蔵書コピーIDまたはバーコード）
  * - GET /api/loans/:id - 貸出詳細
+ * - GET/PUT /api/loans/book-drop - 返却ポストモード
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
@@ -13,10 +16,30 @@ import express, { type Express } from 'express';
 import request from 'supertest';
 import { createLoanController } from './loan-controller.js';
 import type { LoanService } from './loan-service.js';
-import { createUserId, createCopyId, createLoanId } from '../../shared/branded-types.js';
-import { ok, err } from '../../shared/result.js';
-import type { Loan, LoanReceipt, LoanError, ReturnResult, OverdueRecord } from './types.js';
-import { createOverdueRecordId } from '../../shared/branded-types.js';
+import type { BookService } from '../book/book-service.js';
+import type { BookCopy, BookError } from '../book/types.js';
+import {
+  createUserId,
+  createCopyId,
+  createLoanId,
+  createBookId,
+} from '../../shared/branded-types.js';
+import { ok, err, type Result } from '../../shared/result.js';
+import type {
+  Loan,
+  LoanReceipt,
+  LoanError,
+  ReturnResult,
+  RecallResult,
+  OverdueRecord,
+  ReturnClaim,
+  BatchCheckoutReceipt,
+  BatchReturnReceipt,
+} from './types.js';
+import { DEFAULT_LOAN_POLICY } from './types.js';
+import type { AuthenticatedRequest } from '../auth/rbac.js';
+import type { UserRole } from '../auth/types.js';
+import { createOverdueRecordId, createReturnClaimId } from '../../shared/branded-types.js';
 
 // ============================================
 // モックファクトリ
@@ -30,6 +53,32 @@ function createMockLoanService(): LoanService {
     getBulkCopyLoanStatus: vi.fn(),
     getLoanById: vi.fn(),
     returnBook: vi.fn(),
+    renewLoan: vi.fn(),
+    markLost: vi.fn(),
+    markDamaged: vi.fn(),
+    reinstateLostOrDamaged: vi.fn(),
+    claimReturned: vi.fn(),
+    recordClaimSearch: vi.fn(),
+    resolveReturnClaim: vi.fn(),
+    getBookDropMode: vi.fn(),
+    setBookDropMode: vi.fn(),
+    checkoutBatch: vi.fn(),
+    returnBatch: vi.fn(),
+    recallLoan: vi.fn(),
+    recallForReservation: vi.fn(),
+  };
+}
+
+function createMockBookService(
+  copies: readonly BookCopy[] = []
+): Pick<BookService, 'getCopyByBarcode'> {
+  return {
+    getCopyByBarcode: vi.fn((barcode: string): Promise<Result<BookCopy, BookError>> => {
+      const copy = copies.find((c) => c.barcode === barcode);
+      return Promise.resolve(
+        copy !== undefined ? ok(copy) : err({ type: 'NOT_FOUND', id: barcode })
+      );
+    }),
   };
 }
 
@@ -48,22 +97,93 @@ const testLoan: Loan = {
   borrowedAt: new Date('2024-06-01'),
   dueDate: new Date('2024-06-15'),
   returnedAt: null,
+  returnProcessedAt: null,
+  status: 'ACTIVE',
+  renewalCount: 0,
+  loanPolicyId: null,
+  recalledAt: null,
 };
 
 const testLoanReceipt: LoanReceipt = {
   loan: testLoan,
   bookTitle: '吾輩は猫である',
   userName: '山田太郎',
+  policy: DEFAULT_LOAN_POLICY,
+};
+
+const secondCopyId = createCopyId('copy-457');
+
+const scannedCopies: BookCopy[] = [
+  {
+    id: testCopyId,
+    bookId: createBookId('book-001'),
+    barcode: 'LIB000000017',
+    location: 'A棚-1段目',
+    status: 'AVAILABLE',
+    createdAt: new Date('2024-01-01'),
+  },
+  {
+    id: secondCopyId,
+    bookId: createBookId('book-002'),
+    barcode: 'LIB000000024',
+    location: 'A棚-2段目',
+    status: 'AVAILABLE',
+    createdAt: new Date('2024-01-01'),
+  },
+];
+
+const testBatchCheckoutReceipt: BatchCheckoutReceipt = {
+  userId: testUserId,
+  userName: '山田太郎',
+  mode: 'ALL_OR_NOTHING',
+  committed: true,
+  items: [
+    {
+      bookCopyId: testCopyId,
+      status: 'SUCCEEDED',
+      loan: testLoan,
+      bookTitle: '吾輩は猫である',
+      error: null,
+    },
+    {
+      bookCopyId: secondCopyId,
+      status: 'SUCCEEDED',
+      loan: { ...testLoan, bookCopyId: secondCopyId },
+      bookTitle: '坊っちゃん',
+      error: null,
+    },
+  ],
+  succeededCount: 2,
+  failedCount: 0,
 };
 
 // ============================================
 // テストセットアップ
 // ============================================
 
-function createTestApp(loanService: LoanService): Express {
+function createTestApp(
+  loanService: LoanService,
+  bookService: Pick<BookService, 'getCopyByBarcode'> = createMockBookService(scannedCopies)
+): Express {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/loans', createLoanController(loanService, bookService));
+  return app;
+}
+
+function createAuthenticatedTestApp(loanService: LoanService, role: UserRole): Express {
   const app = express();
   app.use(express.json());
-  app.use('/api/loans', createLoanController(loanService));
+  app.use((req: AuthenticatedRequest, _res, next) => {
+    req.session = {
+      userId: testUserId,
+      role,
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    };
+    next();
+  });
+  app.use('/api/loans', createLoanController(loanService, createMockBookService(scannedCopies)));
   return app;
 }
 
@@ -115,6 +235,24 @@ describe('LoanController', () => {
           bookCopyId: testCopyId,
         });
       });
+
+      it('バーコードで指定した蔵書コピーを貸出する', async () => {
+        // Arrange
+        vi.mocked(mockLoanService.createLoanWithReceipt).mockResolvedValue(ok(testLoanReceipt));
+
+        // Act
+        const response = await request(app).post('/api/loans').send({
+          userId: testUserId,
+          barcode: 'LIB000000017',
+        });
+
+        // Assert
+        expect(response.status).toBe(201);
+        expect(mockLoanService.createLoanWithReceipt).toHaveBeenCalledWith({
+          userId: testUserId,
+          bookCopyId: testCopyId,
+        });
+      });
     });
 
     describe('異常系 - バリデーションエラー', () => {
@@ -184,6 +322,22 @@ describe('LoanController', () => {
     });
 
     describe('異常系 - 蔵書コピーエラー', () => {
+      it('バーコードに該当する蔵書コピーがない場合404を返す', async () => {
+        // Act
+        const response = await request(app).post('/api/loans').send({
+          userId: testUserId,
+          barcode: 'LIB999999999',
+        });
+
+        // Assert
+        expect(response.status).toBe(404);
+        expect(response.body.error).toEqual({
+          type: 'BARCODE_NOT_FOUND',
+          barcode: 'LIB999999999',
+        });
+        expect(mockLoanService.createLoanWithReceipt).not.toHaveBeenCalled();
+      });
+
       it('存在しない蔵書コピーの場合404を返す', async () => {
         // Arrange
         const error: LoanError = {
@@ -224,6 +378,315 @@ describe('LoanController', () => {
     });
   });
 
+  describe('POST /api/loans/batch - 一括貸出', () => {
+    let librarianApp: Express;
+
+    beforeEach(() => {
+      librarianApp = createAuthenticatedTestApp(mockLoanService, 'librarian');
+    });
+
+    describe('正常系', () => {
+      it('一括貸出が確定した場合はレシートを201で返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanService.checkoutBatch).mockResolvedValue(ok(testBatchCheckoutReceipt));
+
+        // Act
+        const response = await request(librarianApp)
+          .post('/api/loans/batch')
+          .send({ userId: testUserId, bookCopyIds: [testCopyId, secondCopyId], mode: 'PARTIAL' });
+
+        // Assert
+        expect(response.status).toBe(201);
+        expect(response.body.items).toHaveLength(2);
+        expect(response.body.succeededCount).toBe(2);
+        expect(mockLoanService.checkoutBatch).toHaveBeenCalledWith({
+          userId: testUserId,
+          bookCopyIds: [testCopyId, secondCopyId],
+          mode: 'PARTIAL',
+        });
+      });
+
+      it('modeを省略した場合はALL_OR_NOTHINGとして処理する', async () => {
+        // Arrange
+        vi.mocked(mockLoanService.checkoutBatch).mockResolvedValue(ok(testBatchCheckoutReceipt));
+
+        // Act
+        await request(librarianApp)
+          .post('/api/loans/batch')
+          .send({ userId: testUserId, bookCopyIds: [testCopyId] });
+
+        // Assert
+        expect(mockLoanService.checkoutBatch).toHaveBeenCalledWith({
+          userId: testUserId,
+          bookCopyIds: [testCopyId],
+          mode: 'ALL_OR_NOTHING',
+        });
+      });
+
+      it('バーコードで指定した蔵書コピーを一括貸出する', async () => {
+        // Arrange
+        vi.mocked(mockLoanService.checkoutBatch).mockResolvedValue(ok(testBatchCheckoutReceipt));
+
+        // Act
+        const response = await request(librarianApp)
+          .post('/api/loans/batch')
+          .send({ userId: testUserId, barcodes: ['LIB000000017', 'LIB000000024'] });
+
+        // Assert
+        expect(response.status).toBe(201);
+        expect(mockLoanService.checkoutBatch).toHaveBeenCalledWith({
+          userId: testUserId,
+          bookCopyIds: [testCopyId, secondCopyId],
+          mode: 'ALL_OR_NOTHING',
+        });
+      });
+    });
+
+    describe('異常系', () => {
+      it('未認証の場合401を返す', async () => {
+        // Act
+        const response = await request(app)
+          .post('/api/loans/batch')
+          .send({ userId: testUserId, bookCopyIds: [testCopyId] });
+
+        // Assert
+        expect(response.status).toBe(401);
+        expect(mockLoanService.checkoutBatch).not.toHaveBeenCalled();
+      });
+
+      it('利用者の場合403を返す', async () => {
+        // Arrange
+        const patronApp = createAuthenticatedTestApp(mockLoanService, 'patron');
+
+        // Act
+        const response = await request(patronApp)
+          .post('/api/loans/batch')
+          .send({ userId: testUserId, bookCopyIds: [testCopyId] });
+
+        // Assert
+        expect(response.status).toBe(403);
+        expect(mockLoanService.checkoutBatch).not.toHaveBeenCalled();
+      });
+
+      it('一括貸出が取り消された場合はレシートを409で返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanService.checkoutBatch).mockResolvedValue(
+          ok({
+            ...testBatchCheckoutReceipt,
+            committed: false,
+            items: [
+              {
+                bookCopyId: testCopyId,
+                status: 'ROLLED_BACK',
+                loan: null,
+                bookTitle: '吾輩は猫である',
+                error: null,
+              },
+              {
+                bookCopyId: secondCopyId,
+                status: 'FAILED',
+                loan: null,
+                bookTitle: null,
+                error: { type: 'BOOK_NOT_AVAILABLE', copyId: secondCopyId },
+              },
+            ],
+            succeededCount: 0,
+            failedCount: 1,
+          })
+        );
+
+        // Act
+        const response = await request(librarianApp)
+          .post('/api/loans/batch')
+          .send({ userId: testUserId, bookCopyIds: [testCopyId, secondCopyId] });
+
+        // Assert
+        expect(response.status).toBe(409);
+        expect(response.body.committed).toBe(false);
+        expect(response.body.items[1].error.type).toBe('BOOK_NOT_AVAILABLE');
+      });
+
+      it('userIdが未指定の場合400を返す', async () => {
+        // Act
+        const response = await request(librarianApp)
+          .post('/api/loans/batch')
+          .send({ bookCopyIds: [testCopyId] });
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect(response.body.error).toHaveProperty('field', 'userId');
+      });
+
+      it('bookCopyIdsが配列でない場合400を返す', async () => {
+        // Act
+        const response = await request(librarianApp)
+          .post('/api/loans/batch')
+          .send({ userId: testUserId, bookCopyIds: testCopyId });
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect(response.body.error).toHaveProperty('field', 'bookCopyIds');
+        expect(mockLoanService.checkoutBatch).not.toHaveBeenCalled();
+      });
+
+      it('barcodesが配列でない場合400を返す', async () => {
+        // Act
+        const response = await request(librarianApp)
+          .post('/api/loans/batch')
+          .send({ userId: testUserId, barcodes: 'LIB000000017' });
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect(response.body.error).toHaveProperty('field', 'barcodes');
+        expect(mockLoanService.checkoutBatch).not.toHaveBeenCalled();
+      });
+
+      it('不正なmodeの場合400を返す', async () => {
+        // Act
+        const response = await request(librarianApp)
+          .post('/api/loans/batch')
+          .send({ userId: testUserId, bookCopyIds: [testCopyId], mode: 'BEST_EFFORT' });
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect(response.body.error).toHaveProperty('field', 'mode');
+      });
+
+      it('バッチ全体で貸出上限を超える場合409を返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanService.checkoutBatch).mockResolvedValue(
+          err({ type: 'LOAN_LIMIT_EXCEEDED', userId: testUserId, limit: 5, currentCount: 4 })
+        );
+
+        // Act
+        const response = await request(librarianApp)
+          .post('/api/loans/batch')
+          .send({ userId: testUserId, bookCopyIds: [testCopyId, secondCopyId] });
+
+        // Assert
+        expect(response.status).toBe(409);
+        expect(response.body.error).toHaveProperty('type', 'LOAN_LIMIT_EXCEEDED');
+      });
+    });
+  });
+
+  describe('POST /api/loans/returns/batch - 一括返却', () => {
+    let librarianApp: Express;
+
+    beforeEach(() => {
+      librarianApp = createAuthenticatedTestApp(mockLoanService, 'librarian');
+    });
+
+    const returnedLoan: Loan = { ...testLoan, status: 'RETURNED', returnedAt: new Date() };
+    const testBatchReturnReceipt: BatchReturnReceipt = {
+      mode: 'PARTIAL',
+      committed: true,
+      items: [
+        {
+          bookCopyId: testCopyId,
+          status: 'SUCCEEDED',
+          result: { loan: returnedLoan, isOverdue: false },
+          error: null,
+        },
+        {
+          bookCopyId: secondCopyId,
+          status: 'FAILED',
+          result: null,
+          error: { type: 'COPY_NOT_ON_LOAN', copyId: secondCopyId },
+        },
+      ],
+      succeededCount: 1,
+      failedCount: 1,
+      overdueCount: 0,
+    };
+
+    it('正常系: 部分成功モードで確定した場合はレシートを200で返す', async () => {
+      // Arrange
+      vi.mocked(mockLoanService.returnBatch).mockResolvedValue(ok(testBatchReturnReceipt));
+
+      // Act
+      const response = await request(librarianApp)
+        .post('/api/loans/returns/batch')
+        .send({ bookCopyIds: [testCopyId, secondCopyId], mode: 'PARTIAL' });
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body.items[1].error.type).toBe('COPY_NOT_ON_LOAN');
+      expect(mockLoanService.returnBatch).toHaveBeenCalledWith({
+        bookCopyIds: [testCopyId, secondCopyId],
+        mode: 'PARTIAL',
+      });
+    });
+
+    it('異常系: 取り消された場合はレシートを409で返す', async () => {
+      // Arrange
+      vi.mocked(mockLoanService.returnBatch).mockResolvedValue(
+        ok({ ...testBatchReturnReceipt, mode: 'ALL_OR_NOTHING', committed: false })
+      );
+
+      // Act
+      const response = await request(librarianApp)
+        .post('/api/loans/returns/batch')
+        .send({ bookCopyIds: [testCopyId, secondCopyId] });
+
+      // Assert
+      expect(response.status).toBe(409);
+      expect(response.body.committed).toBe(false);
+    });
+
+    it('異常系: 空文字の蔵書コピーIDを含む場合400を返す', async () => {
+      // Act
+      const response = await request(librarianApp)
+        .post('/api/loans/returns/batch')
+        .send({ bookCopyIds: [testCopyId, ''] });
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body.error).toHaveProperty('field', 'bookCopyIds');
+      expect(mockLoanService.returnBatch).not.toHaveBeenCalled();
+    });
+
+    it('正常系: バーコードで指定した蔵書コピーを返却する', async () => {
+      // Arrange
+      vi.mocked(mockLoanService.returnBatch).mockResolvedValue(ok(testBatchReturnReceipt));
+
+      // Act
+      const response = await request(librarianApp)
+        .post('/api/loans/returns/batch')
+        .send({ barcodes: ['LIB000000024', 'LIB000000017'], mode: 'PARTIAL' });
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockLoanService.returnBatch).toHaveBeenCalledWith({
+        bookCopyIds: [secondCopyId, testCopyId],
+        mode: 'PARTIAL',
+      });
+    });
+
+    it('異常系: 該当する蔵書コピーがないバーコードを含む場合404を返す', async () => {
+      // Act
+      const response = await request(librarianApp)
+        .post('/api/loans/returns/batch')
+        .send({ barcodes: ['LIB000000017', 'UNKNOWN-1'] });
+
+      // Assert
+      expect(response.status).toBe(404);
+      expect(response.body.error).toEqual({ type: 'BARCODE_NOT_FOUND', barcode: 'UNKNOWN-1' });
+      expect(mockLoanService.returnBatch).not.toHaveBeenCalled();
+    });
+
+    it('異常系: 未認証の場合401を返す', async () => {
+      // Act
+      const response = await request(app)
+        .post('/api/loans/returns/batch')
+        .send({ bookCopyIds: [testCopyId] });
+
+      // Assert
+      expect(response.status).toBe(401);
+      expect(mockLoanService.returnBatch).not.toHaveBeenCalled();
+    });
+  });
+
   describe('GET /api/loans/:id - 貸出詳細', () => {
     describe('正常系', () => {
       it('存在する貸出の詳細を取得して200を返す', async () => {
@@ -319,7 +782,41 @@ describe('LoanController', () => {
         await request(app).post(`/api/loans/${testLoanId}/return`);
 
         // Assert
-        expect(mockLoanService.returnBook).toHaveBeenCalledWith(testLoanId);
+        expect(mockLoanService.returnBook).toHaveBeenCalledWith(testLoanId, {
+          effectiveReturnDate: null,
+        });
+      });
+
+      it('返却を受け付けたサービスポイントがサービスに渡される', async () => {
+        // Arrange
+        const returnResult: ReturnResult = {
+          loan: { ...testLoan, returnedAt: new Date('2024-06-10') },
+          isOverdue: false,
+        };
+        vi.mocked(mockLoanService.returnBook).mockResolvedValue(ok(returnResult));
+
+        // Act
+        await request(app)
+          .post(`/api/loans/${testLoanId}/return`)
+          .send({ servicePointId: 'sp-east' });
+
+        // Assert
+        expect(mockLoanService.returnBook).toHaveBeenCalledWith(testLoanId, {
+          effectiveReturnDate: null,
+          servicePointId: 'sp-east',
+        });
+      });
+
+      it('サービスポイントIDが文字列でない場合400を返す', async () => {
+        // Act
+        const response = await request(app)
+          .post(`/api/loans/${testLoanId}/return`)
+          .send({ servicePointId: 42 });
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect(response.body.error).toHaveProperty('field', 'servicePointId');
+        expect(mockLoanService.returnBook).not.toHaveBeenCalled();
       });
     });
 
@@ -357,4 +854,577 @@ describe('LoanController', () => {
       });
     });
   });
+
+  describe('POST /api/loans/:id/return - 実効返却日時の指定', () => {
+    const returnResult: ReturnResult = {
+      loan: { ...testLoan, returnedAt: new Date('2024-06-14T18:00:00Z') },
+      isOverdue: false,
+    };
+
+    describe('正常系', () => {
+      it('司書は実効返却日時を指定して返却できる', async () => {
+        // Arrange
+        const librarianApp = createAuthenticatedTestApp(mockLoanService, 'librarian');
+        vi.mocked(mockLoanService.returnBook).mockResolvedValue(ok(returnResult));
+
+        // Act
+        const response = await request(librarianApp)
+          .post(`/api/loans/${testLoanId}/return`)
+          .send({ effectiveReturnDate: '2024-06-14T18:00:00.000Z' });
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(mockLoanService.returnBook).toHaveBeenCalledWith(testLoanId, {
+          effectiveReturnDate: new Date('2024-06-14T18:00:00.000Z'),
+        });
+      });
+
+      it('管理者も実効返却日時を指定して返却できる', async () => {
+        // Arrange
+        const adminApp = createAuthenticatedTestApp(mockLoanService, 'admin');
+        vi.mocked(mockLoanService.returnBook).mockResolvedValue(ok(returnResult));
+
+        // Act
+        const response = await request(adminApp)
+          .post(`/api/loans/${testLoanId}/return`)
+          .send({ effectiveReturnDate: '2024-06-14T18:00:00.000Z' });
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(mockLoanService.returnBook).toHaveBeenCalled();
+      });
+    });
+
+    describe('異常系', () => {
+      it('未認証で実効返却日時を指定した場合401を返す', async () => {
+        // Act
+        const response = await request(app)
+          .post(`/api/loans/${testLoanId}/return`)
+          .send({ effectiveReturnDate: '2024-06-14T18:00:00.000Z' });
+
+        // Assert
+        expect(response.status).toBe(401);
+        expect(mockLoanService.returnBook).not.toHaveBeenCalled();
+      });
+
+      it('利用者が実効返却日時を指定した場合403を返す', async () => {
+        // Arrange
+        const patronApp = createAuthenticatedTestApp(mockLoanService, 'patron');
+
+        // Act
+        const response = await request(patronApp)
+          .post(`/api/loans/${testLoanId}/return`)
+          .send({ effectiveReturnDate: '2024-06-14T18:00:00.000Z' });
+
+        // Assert
+        expect(response.status).toBe(403);
+        expect(mockLoanService.returnBook).not.toHaveBeenCalled();
+      });
+
+      it('不正な日付形式の場合400を返す', async () => {
+        // Arrange
+        const librarianApp = createAuthenticatedTestApp(mockLoanService, 'librarian');
+
+        // Act
+        const response = await request(librarianApp)
+          .post(`/api/loans/${testLoanId}/return`)
+          .send({ effectiveReturnDate: 'not-a-date' });
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect(response.body.error).toHaveProperty('field', 'effectiveReturnDate');
+        expect(mockLoanService.returnBook).not.toHaveBeenCalled();
+      });
+
+      it('サービスのバリデーションエラーで400を返す', async () => {
+        // Arrange
+        const librarianApp = createAuthenticatedTestApp(mockLoanService, 'librarian');
+        vi.mocked(mockLoanService.returnBook).mockResolvedValue(
+          err({
+            type: 'VALIDATION_ERROR',
+            field: 'effectiveReturnDate',
+            message: '実効返却日時は貸出日時から現在までの範囲で指定してください',
+          })
+        );
+
+        // Act
+        const response = await request(librarianApp)
+          .post(`/api/loans/${testLoanId}/return`)
+          .send({ effectiveReturnDate: '2099-01-01T00:00:00.000Z' });
+
+        // Assert
+        expect(response.status).toBe(400);
+      });
+    });
+  });
+
+  describe('返却ポストモード', () => {
+    describe('GET /api/loans/book-drop', () => {
+      it('現在の返却ポストモードを返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanService.getBookDropMode).mockResolvedValue(
+          ok({ enabled: true, updatedAt: new Date('2024-06-17T00:00:00Z') })
+        );
+
+        // Act
+        const response = await request(app).get('/api/loans/book-drop');
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(response.body).toHaveProperty('enabled', true);
+        expect(mockLoanService.getLoanById).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('PUT /api/loans/book-drop', () => {
+      let librarianApp: Express;
+
+      beforeEach(() => {
+        librarianApp = createAuthenticatedTestApp(mockLoanService, 'librarian');
+      });
+
+      it('返却ポストモードを切り替えて200を返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanService.setBookDropMode).mockResolvedValue(
+          ok({ enabled: false, updatedAt: new Date('2024-06-17T00:00:00Z') })
+        );
+
+        // Act
+        const response = await request(librarianApp)
+          .put('/api/loans/book-drop')
+          .send({ enabled: false });
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(response.body).toHaveProperty('enabled', false);
+        expect(mockLoanService.setBookDropMode).toHaveBeenCalledWith(false);
+      });
+
+      it('enabledが真偽値でない場合400を返す', async () => {
+        // Act
+        const response = await request(librarianApp)
+          .put('/api/loans/book-drop')
+          .send({ enabled: 'yes' });
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect(response.body.error).toHaveProperty('field', 'enabled');
+        expect(mockLoanService.setBookDropMode).not.toHaveBeenCalled();
+      });
+
+      it('未認証の場合401を返す', async () => {
+        // Act
+        const response = await request(app).put('/api/loans/book-drop').send({ enabled: true });
+
+        // Assert
+        expect(response.status).toBe(401);
+        expect(mockLoanService.setBookDropMode).not.toHaveBeenCalled();
+      });
+
+      it('利用者の場合403を返す', async () => {
+        // Arrange
+        const patronApp = createAuthenticatedTestApp(mockLoanService, 'patron');
+
+        // Act
+        const response = await request(patronApp)
+          .put('/api/loans/book-drop')
+          .send({ enabled: true });
+
+        // Assert
+        expect(response.status).toBe(403);
+        expect(mockLoanService.setBookDropMode).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('POST /api/loans/:id/renew - 貸出延長', () => {
+    describe('正常系', () => {
+      it('貸出を延長し200を返す', async () => {
+        // Arrange
+        const renewedLoan: Loan = {
+          ...testLoan,
+          dueDate: new Date('2024-06-29'),
+          renewalCount: 1,
+        };
+        vi.mocked(mockLoanService.renewLoan).mockResolvedValue(ok(renewedLoan));
+
+        // Act
+        const response = await request(app).post(`/api/loans/${testLoanId}/renew`);
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(response.body).toHaveProperty('renewalCount', 1);
+        expect(mockLoanService.renewLoan).toHaveBeenCalledWith(testLoanId);
+      });
+    });
+
+    describe('異常系', () => {
+      it('存在しない貸出の場合404を返す', async () => {
+        // Arrange
+        const error: LoanError = { type: 'LOAN_NOT_FOUND', loanId: testLoanId };
+        vi.mocked(mockLoanService.renewLoan).mockResolvedValue(err(error));
+
+        // Act
+        const response = await request(app).post(`/api/loans/${testLoanId}/renew`);
+
+        // Assert
+        expect(response.status).toBe(404);
+      });
+
+      it('延長上限に達している場合409を返す', async () => {
+        // Arrange
+        const error: LoanError = {
+          type: 'RENEWAL_LIMIT_EXCEEDED',
+          loanId: testLoanId,
+          limit: 2,
+          renewalCount: 2,
+        };
+        vi.mocked(mockLoanService.renewLoan).mockResolvedValue(err(error));
+
+        // Act
+        const response = await request(app).post(`/api/loans/${testLoanId}/renew`);
+
+        // Assert
+        expect(response.status).toBe(409);
+        expect(response.body.error).toHaveProperty('type', 'RENEWAL_LIMIT_EXCEEDED');
+      });
+
+      it('他の利用者の予約がある場合409を返す', async () => {
+        // Arrange
+        const error: LoanError = {
+          type: 'RESERVED_BY_OTHER_USER',
+          loanId: testLoanId,
+          bookId: 'book-001',
+        };
+        vi.mocked(mockLoanService.renewLoan).mockResolvedValue(err(error));
+
+        // Act
+        const response = await request(app).post(`/api/loans/${testLoanId}/renew`);
+
+        // Assert
+        expect(response.status).toBe(409);
+        expect(response.body.error).toHaveProperty('type', 'RESERVED_BY_OTHER_USER');
+      });
+    });
+  });
+
+  describe('POST /api/loans/:id/recall - 貸出のリコール', () => {
+    const recallResult: RecallResult = {
+      loan: { ...testLoan, dueDate: new Date('2024-06-13'), recalledAt: new Date('2024-06-10') },
+      previousDueDate: testLoan.dueDate,
+      notified: true,
+    };
+
+    it('正常系: 司書はリコールしてリコール結果を200で返す', async () => {
+      // Arrange
+      const librarianApp = createAuthenticatedTestApp(mockLoanService, 'librarian');
+      vi.mocked(mockLoanService.recallLoan).mockResolvedValue(ok(recallResult));
+
+      // Act
+      const response = await request(librarianApp).post(`/api/loans/${testLoanId}/recall`);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body.notified).toBe(true);
+      expect(response.body.previousDueDate).toBe(testLoan.dueDate.toISOString());
+      expect(mockLoanService.recallLoan).toHaveBeenCalledWith(testLoanId);
+    });
+
+    it('異常系: 未認証の場合401を返す', async () => {
+      // Act
+      const response = await request(app).post(`/api/loans/${testLoanId}/recall`);
+
+      // Assert
+      expect(response.status).toBe(401);
+      expect(mockLoanService.recallLoan).not.toHaveBeenCalled();
+    });
+
+    it('異常系: 利用者の場合403を返す', async () => {
+      // Arrange
+      const patronApp = createAuthenticatedTestApp(mockLoanService, 'patron');
+
+      // Act
+      const response = await request(patronApp).post(`/api/loans/${testLoanId}/recall`);
+
+      // Assert
+      expect(response.status).toBe(403);
+      expect(mockLoanService.recallLoan).not.toHaveBeenCalled();
+    });
+
+    it('異常系: リコール済みの場合409を返す', async () => {
+      // Arrange
+      const librarianApp = createAuthenticatedTestApp(mockLoanService, 'librarian');
+      vi.mocked(mockLoanService.recallLoan).mockResolvedValue(
+        err({ type: 'ALREADY_RECALLED', loanId: testLoanId })
+      );
+
+      // Act
+      const response = await request(librarianApp).post(`/api/loans/${testLoanId}/recall`);
+
+      // Assert
+      expect(response.status).toBe(409);
+      expect(response.body.error).toHaveProperty('type', 'ALREADY_RECALLED');
+    });
+  });
+
+  describe('POST /api/loans/:id/lost - 紛失処理', () => {
+    let librarianApp: Express;
+
+    beforeEach(() => {
+      librarianApp = createAuthenticatedTestApp(mockLoanService, 'librarian');
+    });
+
+    it('正常系: 紛失処理の結果を200で返す', async () => {
+      // Arrange
+      vi.mocked(mockLoanService.markLost).mockResolvedValue(
+        ok({ loan: { ...testLoan, status: 'LOST', returnedAt: new Date() }, charge: null })
+      );
+
+      // Act
+      const response = await request(librarianApp).post(`/api/loans/${testLoanId}/lost`);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body.loan.status).toBe('LOST');
+      expect(mockLoanService.markLost).toHaveBeenCalledWith(testLoanId);
+    });
+
+    it('異常系: 利用者の場合403を返す', async () => {
+      // Arrange
+      const patronApp = createAuthenticatedTestApp(mockLoanService, 'patron');
+
+      // Act
+      const response = await request(patronApp).post(`/api/loans/${testLoanId}/lost`);
+
+      // Assert
+      expect(response.status).toBe(403);
+      expect(mockLoanService.markLost).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/loans/:id/damaged - 破損処理', () => {
+    let librarianApp: Express;
+
+    beforeEach(() => {
+      librarianApp = createAuthenticatedTestApp(mockLoanService, 'librarian');
+    });
+
+    it('異常系: 返却済みでない貸出の場合409を返す', async () => {
+      // Arrange
+      const error: LoanError = {
+        type: 'INVALID_LOAN_STATUS',
+        loanId: testLoanId,
+        status: 'ACTIVE',
+      };
+      vi.mocked(mockLoanService.markDamaged).mockResolvedValue(err(error));
+
+      // Act
+      const response = await request(librarianApp).post(`/api/loans/${testLoanId}/damaged`);
+
+      // Assert
+      expect(response.status).toBe(409);
+      expect(response.body.error).toHaveProperty('type', 'INVALID_LOAN_STATUS');
+    });
+
+    it('異常系: 未認証の場合401を返す', async () => {
+      // Act
+      const response = await request(app).post(`/api/loans/${testLoanId}/damaged`);
+
+      // Assert
+      expect(response.status).toBe(401);
+      expect(mockLoanService.markDamaged).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/loans/:id/reinstate - 紛失・破損の取消', () => {
+    let librarianApp: Express;
+
+    beforeEach(() => {
+      librarianApp = createAuthenticatedTestApp(mockLoanService, 'librarian');
+    });
+
+    it('正常系: 取消結果を200で返す', async () => {
+      // Arrange
+      vi.mocked(mockLoanService.reinstateLostOrDamaged).mockResolvedValue(
+        ok({
+          loan: { ...testLoan, status: 'RETURNED', returnedAt: new Date() },
+          waiver: null,
+          refund: null,
+        })
+      );
+
+      // Act
+      const response = await request(librarianApp).post(`/api/loans/${testLoanId}/reinstate`);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body.loan.status).toBe('RETURNED');
+    });
+
+    it('異常系: 利用者の場合403を返す', async () => {
+      // Arrange
+      const patronApp = createAuthenticatedTestApp(mockLoanService, 'patron');
+
+      // Act
+      const response = await request(patronApp).post(`/api/loans/${testLoanId}/reinstate`);
+
+      // Assert
+      expect(response.status).toBe(403);
+      expect(mockLoanService.reinstateLostOrDamaged).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('返却申告', () => {
+    const testClaim: ReturnClaim = {
+      id: createReturnClaimId('claim-001'),
+      loanId: testLoanId,
+      userId: testUserId,
+      claimedBy: testUserId,
+      claimedAt: new Date('2024-06-12'),
+      searchCount: 0,
+      lastSearchedAt: null,
+      resolution: null,
+      resolvedAt: null,
+    };
+
+    describe('POST /api/loans/:id/claim-returned - 返却済み申告の受付', () => {
+      it('正常系: 作成された返却申告を201で返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanService.claimReturned).mockResolvedValue(ok(testClaim));
+
+        // Act
+        const response = await request(app)
+          .post(`/api/loans/${testLoanId}/claim-returned`)
+          .send({ claimedBy: 'librarian-001' });
+
+        // Assert
+        expect(response.status).toBe(201);
+        expect(response.body.id).toBe('claim-001');
+        expect(mockLoanService.claimReturned).toHaveBeenCalledWith(testLoanId, {
+          claimedBy: 'librarian-001',
+        });
+      });
+
+      it('正常系: 申告者を省略した場合はnullを渡す', async () => {
+        // Arrange
+        vi.mocked(mockLoanService.claimReturned).mockResolvedValue(ok(testClaim));
+
+        // Act
+        const response = await request(app).post(`/api/loans/${testLoanId}/claim-returned`);
+
+        // Assert
+        expect(response.status).toBe(201);
+        expect(mockLoanService.claimReturned).toHaveBeenCalledWith(testLoanId, {
+          claimedBy: null,
+        });
+      });
+
+      it('異常系: 未解決の申告数が上限に達している場合409を返す', async () => {
+        // Arrange
+        const error: LoanError = {
+          type: 'CLAIM_LIMIT_EXCEEDED',
+          userId: testUserId,
+          limit: 2,
+          currentCount: 2,
+        };
+        vi.mocked(mockLoanService.claimReturned).mockResolvedValue(err(error));
+
+        // Act
+        const response = await request(app).post(`/api/loans/${testLoanId}/claim-returned`);
+
+        // Assert
+        expect(response.status).toBe(409);
+        expect(response.body.error).toHaveProperty('type', 'CLAIM_LIMIT_EXCEEDED');
+      });
+    });
+
+    describe('POST /api/loans/:id/claim-returned/searches - 館内捜索の記録', () => {
+      it('正常系: 更新された返却申告を200で返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanService.recordClaimSearch).mockResolvedValue(
+          ok({ ...testClaim, searchCount: 1, lastSearchedAt: new Date() })
+        );
+
+        // Act
+        const response = await request(app).post(
+          `/api/loans/${testLoanId}/claim-returned/searches`
+        );
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(response.body.searchCount).toBe(1);
+      });
+
+      it('異常系: 未解決の返却申告がない場合404を返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanService.recordClaimSearch).mockResolvedValue(
+          err({ type: 'CLAIM_NOT_FOUND', loanId: testLoanId })
+        );
+
+        // Act
+        const response = await request(app).post(
+          `/api/loans/${testLoanId}/claim-returned/searches`
+        );
+
+        // Assert
+        expect(response.status).toBe(404);
+        expect(response.body.error).toHaveProperty('type', 'CLAIM_NOT_FOUND');
+      });
+    });
+
+    describe('POST /api/loans/:id/claim-returned/resolve - 返却申告の解決', () => {
+      let librarianApp: Express;
+
+      beforeEach(() => {
+        librarianApp = createAuthenticatedTestApp(mockLoanService, 'librarian');
+      });
+
+      it('正常系: 解決結果を200で返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanService.resolveReturnClaim).mockResolvedValue(
+          ok({
+            claim: { ...testClaim, resolution: 'FOUND', resolvedAt: new Date() },
+            loan: { ...testLoan, status: 'RETURNED', returnedAt: new Date('2024-06-12') },
+            charge: null,
+          })
+        );
+
+        // Act
+        const response = await request(librarianApp)
+          .post(`/api/loans/${testLoanId}/claim-returned/resolve`)
+          .send({ resolution: 'FOUND' });
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(response.body.claim.resolution).toBe('FOUND');
+        expect(mockLoanService.resolveReturnClaim).toHaveBeenCalledWith(testLoanId, 'FOUND');
+      });
+
+      it('異常系: 不正な解決結果の場合400を返す', async () => {
+        // Act
+        const response = await request(librarianApp)
+          .post(`/api/loans/${testLoanId}/claim-returned/resolve`)
+          .send({ resolution: 'UNKNOWN' });
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect(response.body.error).toHaveProperty('field', 'resolution');
+        expect(mockLoanService.resolveReturnClaim).not.toHaveBeenCalled();
+      });
+
+      it('異常系: 利用者が自分の申告を解決しようとした場合403を返す', async () => {
+        // Arrange
+        const patronApp = createAuthenticatedTestApp(mockLoanService, 'patron');
+
+        // Act
+        const response = await request(patronApp)
+          .post(`/api/loans/${testLoanId}/claim-returned/resolve`)
+          .send({ resolution: 'RETURNED' });
+
+        // Assert
+        expect(response.status).toBe(403);
+        expect(mockLoanService.resolveReturnClaim).not.toHaveBeenCalled();
+      });
+    });
+  });
 });
@@ -2,18 +2,40 @@
  * LoanController - 貸出管理REST APIコントローラー
  *
  * 貸出管理のREST APIエンドポイントを提供します。
+ * 貸出・一括貸出・一括返却の対象は蔵書コピーIDの代わりにバーコードでも指定できます。
  *
  * エンドポイント:
- * - POST /api/loans - 貸出処理
+ * - POST /api/loans - 貸出処理（bookCopyId または barcode）
+ * - POST /api/loans/batch - 一括貸出（bookCopyIds または barcodes）
+ * - POST /api/loans/returns/batch - 一括返却（bookCopyIds または barcodes、返却を受け付けたサービスポイントを指定可能）
+ * - GET /api/loans/book-drop - 返却ポストモード取得
+ * - PUT /api/loans/book-drop - 返却ポストモード切り替え
  * - GET /api/loans/:id - 貸出詳細
- * - POST /api/loans/:id/return - 返却処理
+ * - POST /api/loans/:id/return - 返却処理（実効返却日時の指定は図書館員のみ）
+ * - POST /api/loans/:id/renew - 貸出延長
+ * - POST /api/loans/:id/recall - 貸出のリコール（図書館員のみ）
+ * - POST /api/loans/:id/lost - 紛失処理
+ * - POST /api/loans/:id/damaged - 破損処理
+ * - POST /api/loans/:id/reinstate - 紛失・破損の取消
+ * - POST /api/loans/:id/claim-returned - 返却済み申告の受付
+ * - POST /api/loans/:id/claim-returned/searches - 返却申告の館内捜索を記録
+ * - POST /api/loans/:id/claim-returned/resolve - 返却申告の解決
  */
 
-import { Router, type Request, type Response } from 'express';
-import type { LoanId, UserId, CopyId } from '../../shared/branded-types.js';
-import { isOk } from '../../shared/result.js';
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import type { LoanId, UserId, CopyId, ServicePointId } from '../../shared/branded-types.js';
+import { ok, err, isOk, type Result } from '../../shared/result.js';
+import { requireLibrarian } from '../auth/rbac.js';
+import type { BookService } from '../book/book-service.js';
 import type { LoanService } from './loan-service.js';
-import type { CreateLoanInput, LoanError } from './types.js';
+import type {
+  BatchMode,
+  CreateLoanInput,
+  ClaimReturnedInput,
+  LoanError,
+  ReturnBookInput,
+  ReturnClaimResolution,
+} from './types.js';
 
 // ============================================
 // リクエストボディ型定義
@@ -23,8 +45,52 @@ import type { CreateLoanInput, LoanError } from './types.js';
 interface CreateLoanRequestBody {
   userId?: string;
   bookCopyId?: string;
+  barcode?: string;
 }
 
+/** 一括貸出リクエストボディ */
+interface BatchCheckoutRequestBody {
+  userId?: string;
+  bookCopyIds?: unknown;
+  barcodes?: unknown;
+  mode?: string;
+}
+
+/** 一括返却リクエストボディ */
+interface BatchReturnRequestBody {
+  bookCopyIds?: unknown;
+  barcodes?: unknown;
+  mode?: string;
+  servicePointId?: unknown;
+}
+
+/** 返却リクエストボディ */
+interface ReturnBookRequestBody {
+  effectiveReturnDate?: string | null;
+  servicePointId?: unknown;
+}
+
+/** 返却ポストモード切り替えリクエストボディ */
+interface SetBookDropModeRequestBody {
+  enabled?: unknown;
+}
+
+/** 返却申告リクエストボディ */
+interface ClaimReturnedRequestBody {
+  claimedBy?: string | null;
+}
+
+/** 返却申告解決リクエストボディ */
+interface ResolveReturnClaimRequestBody {
+  resolution?: string;
+}
+
+/** 返却申告の解決結果として指定可能な値 */
+const RETURN_CLAIM_RESOLUTIONS: readonly string[] = ['FOUND', 'RETURNED', 'LOST'];
+
+/** 一括処理モードとして指定可能な値 */
+const BATCH_MODES: readonly string[] = ['ALL_OR_NOTHING', 'PARTIAL'];
+
 // ============================================
 // HTTPステータスコード決定
 // ============================================
@@ -40,17 +106,138 @@ function getErrorStatusCode(error: LoanError): number {
       return 404;
     case 'COPY_NOT_FOUND':
       return 404;
+    case 'COPY_NOT_ON_LOAN':
+      return 409;
     case 'LOAN_NOT_FOUND':
       return 404;
     case 'BOOK_NOT_AVAILABLE':
       return 409;
+    case 'COPY_ON_HOLD':
+      return 409;
     case 'LOAN_LIMIT_EXCEEDED':
       return 409;
     case 'ALREADY_RETURNED':
       return 409;
+    case 'LOAN_OVERDUE':
+      return 409;
+    case 'RENEWAL_LIMIT_EXCEEDED':
+      return 409;
+    case 'RESERVED_BY_OTHER_USER':
+      return 409;
+    case 'CATEGORY_LOAN_LIMIT_EXCEEDED':
+      return 409;
+    case 'INVALID_LOAN_STATUS':
+      return 409;
+    case 'FINES_OUTSTANDING':
+      return 409;
+    case 'CLAIM_LIMIT_EXCEEDED':
+      return 409;
+    case 'CLAIM_NOT_FOUND':
+      return 404;
+    case 'ALREADY_RECALLED':
+      return 409;
+    case 'LOAN_RECALLED':
+      return 409;
   }
 }
 
+// ============================================
+// 一括処理リクエストの検証
+// ============================================
+
+/** 一括処理リクエストの検証エラー */
+interface BatchRequestValidationError {
+  readonly type: 'VALIDATION_ERROR';
+  readonly field: string;
+  readonly message: string;
+}
+
+/** 指定されたバーコードの蔵書コピーが見つからないエラー */
+interface BarcodeNotFoundError {
+  readonly type: 'BARCODE_NOT_FOUND';
+  readonly barcode: string;
+}
+
+/**
+ * 値が空文字を含まない文字列の配列か判定
+ */
+function isNonEmptyStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item !== '');
+}
+
+/**
+ * 一括処理リクエストの蔵書コピーIDリスト（またはバーコードリスト）と処理モードを検証
+ * bookCopyIds が指定されていればそちらを優先する
+ * @returns 検証エラー（問題がなければnull）
+ */
+function validateBatchRequest(
+  bookCopyIds: unknown,
+  barcodes: unknown,
+  mode: string | undefined
+): BatchRequestValidationError | null {
+  if (bookCopyIds === undefined && barcodes !== undefined) {
+    if (!isNonEmptyStringArray(barcodes)) {
+      return {
+        type: 'VALIDATION_ERROR',
+        field: 'barcodes',
+        message: 'barcodesはバーコードの配列で指定してください',
+      };
+    }
+  } else if (!isNonEmptyStringArray(bookCopyIds)) {
+    return {
+      type: 'VALIDATION_ERROR',
+      field: 'bookCopyIds',
+      message: 'bookCopyIdsは蔵書コピーIDの配列で指定してください',
+    };
+  }
+  if (mode !== undefined && !BATCH_MODES.includes(mode)) {
+    return {
+      type: 'VALIDATION_ERROR',
+      field: 'mode',
+      message: 'modeはALL_OR_NOTHING, PARTIALのいずれかを指定してください',
+    };
+  }
+  return null;
+}
+
+// ============================================
+// 返却場所の検証
+// ============================================
+
+/**
+ * 返却を受け付けたサービスポイントIDを検証
+ * @returns 検証エラー（省略またはnullの場合も問題なしとしてnull）
+ */
+function validateServicePointId(servicePointId: unknown): BatchRequestValidationError | null {
+  if (servicePointId === undefined || servicePointId === null) {
+    return null;
+  }
+  if (typeof servicePointId !== 'string' || servicePointId === '') {
+    return {
+      type: 'VALIDATION_ERROR',
+      field: 'servicePointId',
+      message: 'servicePointIdはサービスポイントIDで指定してください',
+    };
+  }
+  return null;
+}
+
+// ============================================
+// 権限チェック
+// ============================================
+
+/**
+ * 実効返却日時が指定された返却リクエストのみ図書館員権限を要求する
+ */
+function requireLibrarianForBackdatedReturn(req: Request, res: Response, next: NextFunction): void {
+  const body = (req.body ?? {}) as ReturnBookRequestBody;
+  if (body.effectiveReturnDate === undefined || body.effectiveReturnDate === null) {
+    next();
+    return;
+  }
+  requireLibrarian(req, res, next);
+}
+
 // ============================================
 // コントローラーファクトリ
 // ============================================
@@ -58,11 +245,57 @@ function getErrorStatusCode(error: LoanError): number {
 /**
  * LoanControllerを作成
  * @param loanService - LoanServiceインスタンス
+ * @param bookService - BookServiceインスタンス（バーコードから蔵書コピーを特定する）
  * @returns Expressルーター
  */
-export function createLoanController(loanService: LoanService): Router {
+export function createLoanController(
+  loanService: LoanService,
+  bookService: Pick<BookService, 'getCopyByBarcode'>
+): Router {
   const router = Router();
 
+  /**
+   * バーコードを蔵書コピーIDに解決する
+   */
+  async function resolveBarcode(barcode: string): Promise<Result<CopyId, BarcodeNotFoundError>> {
+    const copyResult = await bookService.getCopyByBarcode(barcode);
+    if (!isOk(copyResult)) {
+      return err({ type: 'BARCODE_NOT_FOUND', barcode });
+    }
+    return ok(copyResult.value.id);
+  }
+
+  /**
+   * 複数のバーコードを蔵書コピーIDに解決する
+   * @returns 指定順の蔵書コピーIDまたは最初に見つからなかったバーコードのエラー
+   */
+  async function resolveBarcodes(
+    barcodes: readonly string[]
+  ): Promise<Result<CopyId[], BarcodeNotFoundError>> {
+    const copyIds: CopyId[] = [];
+    for (const barcode of barcodes) {
+      const copyIdResult = await resolveBarcode(barcode);
+      if (!isOk(copyIdResult)) {
+        return copyIdResult;
+      }
+      copyIds.push(copyIdResult.value);
+    }
+    return ok(copyIds);
+  }
+
+  /**
+   * 一括処理の対象を蔵書コピーIDのリストとして取得（検証済みのリクエストであること）
+   */
+  async function resolveBatchCopyIds(
+    bookCopyIds: unknown,
+    barcodes: unknown
+  ): Promise<Result<CopyId[], BarcodeNotFoundError>> {
+    if (bookCopyIds === undefined && isNonEmptyStringArray(barcodes)) {
+      return resolveBarcodes(barcodes);
+    }
+    return ok(bookCopyIds as CopyId[]);
+  }
+
   // ============================================
   // POST /api/loans - 貸出処理
   // ============================================
@@ -82,13 +315,23 @@ export function createLoanController(loanService: LoanService): Router {
       return;
     }
 
-    // バリデーション: bookCopyIdが必須
-    if (body.bookCopyId === undefined || body.bookCopyId === '') {
+    // 蔵書コピーIDまたはバーコードで貸出する蔵書コピーを特定する
+    let bookCopyId: CopyId;
+    if (body.bookCopyId !== undefined && body.bookCopyId !== '') {
+      bookCopyId = body.bookCopyId as CopyId;
+    } else if (body.barcode !== undefined && body.barcode !== '') {
+      const copyIdResult = await resolveBarcode(body.barcode);
+      if (!isOk(copyIdResult)) {
+        res.status(404).json({ error: copyIdResult.error });
+        return;
+      }
+      bookCopyId = copyIdResult.value;
+    } else {
       res.status(400).json({
         error: {
           type: 'VALIDATION_ERROR',
           field: 'bookCopyId',
-          message: '蔵書コピーIDは必須です',
+          message: '蔵書コピーIDまたはバーコードは必須です',
         },
       });
       return;
@@ -96,7 +339,7 @@ export function createLoanController(loanService: LoanService): Router {
 
     const input: CreateLoanInput = {
       userId: body.userId as UserId,
-      bookCopyId: body.bookCopyId as CopyId,
+      bookCopyId,
     };
 
     const result = await loanService.createLoanWithReceipt(input);
@@ -109,6 +352,136 @@ export function createLoanController(loanService: LoanService): Router {
     }
   });
 
+  // ============================================
+  // POST /api/loans/batch - 一括貸出
+  // ============================================
+
+  router.post('/batch', requireLibrarian, async (req: Request, res: Response): Promise<void> => {
+    const body = (req.body ?? {}) as BatchCheckoutRequestBody;
+
+    // バリデーション: userIdが必須
+    if (body.userId === undefined || body.userId === '') {
+      res.status(400).json({
+        error: {
+          type: 'VALIDATION_ERROR',
+          field: 'userId',
+          message: '利用者IDは必須です',
+        },
+      });
+      return;
+    }
+
+    // バリデーション: bookCopyIds（またはbarcodes）とmode
+    const validationError = validateBatchRequest(body.bookCopyIds, body.barcodes, body.mode);
+    if (validationError !== null) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const copyIdsResult = await resolveBatchCopyIds(body.bookCopyIds, body.barcodes);
+    if (!isOk(copyIdsResult)) {
+      res.status(404).json({ error: copyIdsResult.error });
+      return;
+    }
+
+    const result = await loanService.checkoutBatch({
+      userId: body.userId as UserId,
+      bookCopyIds: copyIdsResult.value,
+      mode: (body.mode ?? 'ALL_OR_NOTHING') as BatchMode,
+    });
+
+    if (isOk(result)) {
+      // 取り消された場合もレシートを返し、項目ごとの失敗理由を確認できるようにする
+      res.status(result.value.committed ? 201 : 409).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // POST /api/loans/returns/batch - 一括返却
+  // ============================================
+
+  router.post(
+    '/returns/batch',
+    requireLibrarian,
+    async (req: Request, res: Response): Promise<void> => {
+      const body = (req.body ?? {}) as BatchReturnRequestBody;
+
+      // バリデーション: bookCopyIds（またはbarcodes）、modeと返却を受け付けたサービスポイント
+      const validationError =
+        validateBatchRequest(body.bookCopyIds, body.barcodes, body.mode) ??
+        validateServicePointId(body.servicePointId);
+      if (validationError !== null) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const copyIdsResult = await resolveBatchCopyIds(body.bookCopyIds, body.barcodes);
+      if (!isOk(copyIdsResult)) {
+        res.status(404).json({ error: copyIdsResult.error });
+        return;
+      }
+
+      const result = await loanService.returnBatch({
+        bookCopyIds: copyIdsResult.value,
+        mode: (body.mode ?? 'ALL_OR_NOTHING') as BatchMode,
+        ...(typeof body.servicePointId === 'string' && {
+          servicePointId: body.servicePointId as ServicePointId,
+        }),
+      });
+
+      if (isOk(result)) {
+        res.status(result.value.committed ? 200 : 409).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // GET /api/loans/book-drop - 返却ポストモード取得
+  // ============================================
+
+  router.get('/book-drop', async (_req: Request, res: Response): Promise<void> => {
+    const result = await loanService.getBookDropMode();
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    }
+    // LoanService.getBookDropMode は never エラーを返すため、else ブランチは到達不可能
+  });
+
+  // ============================================
+  // PUT /api/loans/book-drop - 返却ポストモード切り替え
+  // ============================================
+
+  // 返却ポストモード中の返却は全て実効返却日時が遡るため、切り替えは図書館員に限る
+  router.put('/book-drop', requireLibrarian, async (req: Request, res: Response): Promise<void> => {
+    const body = (req.body ?? {}) as SetBookDropModeRequestBody;
+
+    // バリデーション: enabledは真偽値
+    if (typeof body.enabled !== 'boolean') {
+      res.status(400).json({
+        error: {
+          type: 'VALIDATION_ERROR',
+          field: 'enabled',
+          message: 'enabledは真偽値で指定してください',
+        },
+      });
+      return;
+    }
+
+    const result = await loanService.setBookDropMode(body.enabled);
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    }
+    // LoanService.setBookDropMode は never エラーを返すため、else ブランチは到達不可能
+  });
+
   // ============================================
   // GET /api/loans/:id - 貸出詳細
   // ============================================
@@ -130,10 +503,61 @@ export function createLoanController(loanService: LoanService): Router {
   // POST /api/loans/:id/return - 返却処理
   // ============================================
 
-  router.post('/:id/return', async (req: Request, res: Response): Promise<void> => {
+  router.post(
+    '/:id/return',
+    requireLibrarianForBackdatedReturn,
+    async (req: Request, res: Response): Promise<void> => {
+      const loanId = req.params.id as LoanId;
+      const body = (req.body ?? {}) as ReturnBookRequestBody;
+
+      let effectiveReturnDate: Date | null = null;
+      if (body.effectiveReturnDate !== undefined && body.effectiveReturnDate !== null) {
+        // バリデーション: 実効返却日時は日付形式
+        effectiveReturnDate = new Date(body.effectiveReturnDate);
+        if (isNaN(effectiveReturnDate.getTime())) {
+          res.status(400).json({
+            error: {
+              type: 'VALIDATION_ERROR',
+              field: 'effectiveReturnDate',
+              message: '実効返却日時は有効な日付形式で指定してください',
+            },
+          });
+          return;
+        }
+      }
+
+      // バリデーション: 返却を受け付けたサービスポイント
+      const servicePointError = validateServicePointId(body.servicePointId);
+      if (servicePointError !== null) {
+        res.status(400).json({ error: servicePointError });
+        return;
+      }
+
+      const input: ReturnBookInput = {
+        effectiveReturnDate,
+        ...(typeof body.servicePointId === 'string' && {
+          servicePointId: body.servicePointId as ServicePointId,
+        }),
+      };
+      const result = await loanService.returnBook(loanId, input);
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // POST /api/loans/:id/renew - 貸出延長
+  // ============================================
+
+  router.post('/:id/renew', async (req: Request, res: Response): Promise<void> => {
     const loanId = req.params.id as LoanId;
 
-    const result = await loanService.returnBook(loanId);
+    const result = await loanService.renewLoan(loanId);
 
     if (isOk(result)) {
       res.status(200).json(result.value);
@@ -143,5 +567,167 @@ export function createLoanController(loanService: LoanService): Router {
     }
   });
 
+  // ============================================
+  // POST /api/loans/:id/recall - 貸出のリコール
+  // ============================================
+
+  router.post(
+    '/:id/recall',
+    requireLibrarian,
+    async (req: Request, res: Response): Promise<void> => {
+      const loanId = req.params.id as LoanId;
+
+      const result = await loanService.recallLoan(loanId);
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // POST /api/loans/:id/lost - 紛失処理
+  // ============================================
+
+  router.post('/:id/lost', requireLibrarian, async (req: Request, res: Response): Promise<void> => {
+    const loanId = req.params.id as LoanId;
+
+    const result = await loanService.markLost(loanId);
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // POST /api/loans/:id/damaged - 破損処理
+  // ============================================
+
+  router.post(
+    '/:id/damaged',
+    requireLibrarian,
+    async (req: Request, res: Response): Promise<void> => {
+      const loanId = req.params.id as LoanId;
+
+      const result = await loanService.markDamaged(loanId);
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // POST /api/loans/:id/reinstate - 紛失・破損の取消
+  // ============================================
+
+  router.post(
+    '/:id/reinstate',
+    requireLibrarian,
+    async (req: Request, res: Response): Promise<void> => {
+      const loanId = req.params.id as LoanId;
+
+      const result = await loanService.reinstateLostOrDamaged(loanId);
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // POST /api/loans/:id/claim-returned - 返却済み申告の受付
+  // ============================================
+
+  router.post('/:id/claim-returned', async (req: Request, res: Response): Promise<void> => {
+    const loanId = req.params.id as LoanId;
+    const body = (req.body ?? {}) as ClaimReturnedRequestBody;
+
+    const input: ClaimReturnedInput = {
+      claimedBy:
+        body.claimedBy === undefined || body.claimedBy === null || body.claimedBy === ''
+          ? null
+          : (body.claimedBy as UserId),
+    };
+
+    const result = await loanService.claimReturned(loanId, input);
+
+    if (isOk(result)) {
+      res.status(201).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // POST /api/loans/:id/claim-returned/searches - 返却申告の館内捜索を記録
+  // ============================================
+
+  router.post(
+    '/:id/claim-returned/searches',
+    async (req: Request, res: Response): Promise<void> => {
+      const loanId = req.params.id as LoanId;
+
+      const result = await loanService.recordClaimSearch(loanId);
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // POST /api/loans/:id/claim-returned/resolve - 返却申告の解決
+  // ============================================
+
+  router.post(
+    '/:id/claim-returned/resolve',
+    requireLibrarian,
+    async (req: Request, res: Response): Promise<void> => {
+      const loanId = req.params.id as LoanId;
+      const body = (req.body ?? {}) as ResolveReturnClaimRequestBody;
+
+      // バリデーション: resolutionは FOUND, RETURNED, LOST のいずれか
+      if (body.resolution === undefined || !RETURN_CLAIM_RESOLUTIONS.includes(body.resolution)) {
+        res.status(400).json({
+          error: {
+            type: 'VALIDATION_ERROR',
+            field: 'resolution',
+            message: '解決結果は FOUND, RETURNED, LOST のいずれかを指定してください',
+          },
+        });
+        return;
+      }
+
+      const result = await loanService.resolveReturnClaim(
+        loanId,
+        body.resolution as ReturnClaimResolution
+      );
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
   return router;
 }
@@ -0,0 +1,202 @@
+/**
+ * LoanPolicyController テスト
+ *
+ * 貸出ポリシー管理REST APIエンドポイントのテスト。
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express, { type Express } from 'express';
+import request from 'supertest';
+import { createLoanPolicyController } from './loan-policy-controller.js';
+import type { AuthenticatedRequest } from '../auth/rbac.js';
+import type { UserRole } from '../auth/types.js';
+import type { LoanPolicyService } from './loan-policy-service.js';
+import type { LoanPolicy } from './types.js';
+import type { LoanPolicyId, UserId } from '../../shared/branded-types.js';
+import { ok, err } from '../../shared/result.js';
+
+// ============================================
+// モックヘルパー
+// ============================================
+
+function createMockLoanPolicyService(): LoanPolicyService {
+  return {
+    createPolicy: vi.fn(),
+    getPolicyById: vi.fn(),
+    getAllPolicies: vi.fn(),
+    updatePolicy: vi.fn(),
+    deletePolicy: vi.fn(),
+  };
+}
+
+function createTestApp(loanPolicyService: LoanPolicyService, role?: UserRole): Express {
+  const app = express();
+  app.use(express.json());
+  if (role !== undefined) {
+    app.use((req: AuthenticatedRequest, _res, next) => {
+      req.session = {
+        userId: 'staff-1' as UserId,
+        role,
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      };
+      next();
+    });
+  }
+  const router = createLoanPolicyController(loanPolicyService);
+  app.use('/api/loan-policies', router);
+  return app;
+}
+
+function createTestPolicy(overrides?: Partial<LoanPolicy>): LoanPolicy {
+  return {
+    id: 'policy-1' as LoanPolicyId,
+    name: '雑誌',
+    bookCategory: '雑誌',
+    patronCategory: null,
+    loanDurationDays: 7,
+    maxRenewals: 0,
+    maxItems: 3,
+    gracePeriodDays: 0,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    ...overrides,
+  };
+}
+
+// ============================================
+// テスト
+// ============================================
+
+describe('LoanPolicyController', () => {
+  let mockService: LoanPolicyService;
+  let app: Express;
+  let adminApp: Express;
+
+  beforeEach(() => {
+    mockService = createMockLoanPolicyService();
+    app = createTestApp(mockService);
+    adminApp = createTestApp(mockService, 'admin');
+  });
+
+  describe('GET /api/loan-policies - 貸出ポリシー一覧取得', () => {
+    it('正常系: 貸出ポリシー一覧を200で返す', async () => {
+      vi.mocked(mockService.getAllPolicies).mockResolvedValue(ok([createTestPolicy()]));
+
+      const response = await request(app).get('/api/loan-policies');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].name).toBe('雑誌');
+    });
+  });
+
+  describe('POST /api/loan-policies - 貸出ポリシー登録', () => {
+    it('正常系: 貸出ポリシーを登録して201を返す', async () => {
+      vi.mocked(mockService.createPolicy).mockResolvedValue(ok(createTestPolicy()));
+
+      const response = await request(adminApp).post('/api/loan-policies').send({
+        name: '雑誌',
+        bookCategory: '雑誌',
+        loanDurationDays: 7,
+        maxRenewals: 0,
+        maxItems: 3,
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body.id).toBe('policy-1');
+      expect(mockService.createPolicy).toHaveBeenCalledWith({
+        name: '雑誌',
+        bookCategory: '雑誌',
+        patronCategory: null,
+        loanDurationDays: 7,
+        maxRenewals: 0,
+        maxItems: 3,
+      });
+    });
+
+    it('異常系: バリデーションエラーで400を返す', async () => {
+      vi.mocked(mockService.createPolicy).mockResolvedValue(
+        err({ type: 'VALIDATION_ERROR', field: 'name', message: 'name is required' })
+      );
+
+      const response = await request(adminApp).post('/api/loan-policies').send({});
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('name');
+    });
+
+    it('異常系: 同じカテゴリの組み合わせが存在する場合409を返す', async () => {
+      vi.mocked(mockService.createPolicy).mockResolvedValue(
+        err({ type: 'DUPLICATE_POLICY', bookCategory: '雑誌', patronCategory: null })
+      );
+
+      const response = await request(adminApp).post('/api/loan-policies').send({
+        name: '雑誌',
+        bookCategory: '雑誌',
+        loanDurationDays: 7,
+        maxRenewals: 0,
+      });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.type).toBe('DUPLICATE_POLICY');
+    });
+  });
+
+  describe('GET /api/loan-policies/:id - 貸出ポリシー詳細取得', () => {
+    it('異常系: 存在しないポリシーの場合404を返す', async () => {
+      vi.mocked(mockService.getPolicyById).mockResolvedValue(
+        err({ type: 'POLICY_NOT_FOUND', policyId: 'missing' })
+      );
+
+      const response = await request(app).get('/api/loan-policies/missing');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.type).toBe('POLICY_NOT_FOUND');
+    });
+  });
+
+  describe('PUT /api/loan-policies/:id - 貸出ポリシー編集', () => {
+    it('正常系: 指定されたフィールドのみ更新して200を返す', async () => {
+      vi.mocked(mockService.updatePolicy).mockResolvedValue(
+        ok(createTestPolicy({ loanDurationDays: 10 }))
+      );
+
+      const response = await request(adminApp)
+        .put('/api/loan-policies/policy-1')
+        .send({ loanDurationDays: 10 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.loanDurationDays).toBe(10);
+      expect(mockService.updatePolicy).toHaveBeenCalledWith('policy-1', { loanDurationDays: 10 });
+    });
+
+    it('異常系: 図書館員の場合403を返す', async () => {
+      const librarianApp = createTestApp(mockService, 'librarian');
+
+      const response = await request(librarianApp)
+        .put('/api/loan-policies/policy-1')
+        .send({ loanDurationDays: 10 });
+
+      expect(response.status).toBe(403);
+      expect(mockService.updatePolicy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/loan-policies/:id - 貸出ポリシー削除', () => {
+    it('正常系: 貸出ポリシーを削除して204を返す', async () => {
+      vi.mocked(mockService.deletePolicy).mockResolvedValue(ok(undefined));
+
+      const response = await request(adminApp).delete('/api/loan-policies/policy-1');
+
+      expect(response.status).toBe(204);
+    });
+
+    it('異常系: 未認証の場合401を返す', async () => {
+      const response = await request(app).delete('/api/loan-policies/policy-1');
+
+      expect(response.status).toBe(401);
+      expect(mockService.deletePolicy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * LoanPolicyController - 貸出ポリシー管理REST APIコントローラー
+ *
+ * 貸出ポリシー管理のREST APIエンドポイントを提供します。
+ * 登録・編集・削除は管理者のみ実行できます。
+ *
+ * エンドポイント:
+ * - GET /api/loan-policies - 貸出ポリシー一覧取得
+ * - POST /api/loan-policies - 貸出ポリシー登録
+ * - GET /api/loan-policies/:id - 貸出ポリシー詳細取得
+ * - PUT /api/loan-policies/:id - 貸出ポリシー編集
+ * - DELETE /api/loan-policies/:id - 貸出ポリシー削除
+ */
+
+import { Router, type Request, type Response } from 'express';
+import type { LoanPolicyId } from '../../shared/branded-types.js';
+import { isOk } from '../../shared/result.js';
+import { requireAdmin } from '../auth/rbac.js';
+import type { LoanPolicyService } from './loan-policy-service.js';
+import type { CreateLoanPolicyInput, UpdateLoanPolicyInput, LoanPolicyError } from './types.js';
+
+// ============================================
+// リクエストボディ型定義
+// ============================================
+
+/** 貸出ポリシー登録リクエストボディ */
+interface CreateLoanPolicyRequestBody {
+  name?: string;
+  bookCategory?: string | null;
+  patronCategory?: string | null;
+  loanDurationDays?: number;
+  maxRenewals?: number;
+  maxItems?: number | null;
+  gracePeriodDays?: number;
+}
+
+/** 貸出ポリシー更新リクエストボディ */
+type UpdateLoanPolicyRequestBody = CreateLoanPolicyRequestBody;
+
+// ============================================
+// HTTPステータスコード決定
+// ============================================
+
+/**
+ * LoanPolicyErrorに基づいてHTTPステータスコードを決定
+ */
+function getErrorStatusCode(error: LoanPolicyError): number {
+  switch (error.type) {
+    case 'VALIDATION_ERROR':
+      return 400;
+    case 'POLICY_NOT_FOUND':
+      return 404;
+    case 'DUPLICATE_POLICY':
+      return 409;
+  }
+}
+
+// ============================================
+// コントローラーファクトリ
+// ============================================
+
+/**
+ * LoanPolicyControllerを作成
+ * @param loanPolicyService - LoanPolicyServiceインスタンス
+ * @returns Expressルーター
+ */
+export function createLoanPolicyController(loanPolicyService: LoanPolicyService): Router {
+  const router = Router();
+
+  // ============================================
+  // GET /api/loan-policies - 貸出ポリシー一覧取得
+  // ============================================
+
+  router.get('/', async (_req: Request, res: Response): Promise<void> => {
+    const result = await loanPolicyService.getAllPolicies();
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    }
+    // LoanPolicyService.getAllPolicies は never エラーを返すため、else ブランチは到達不可能
+  });
+
+  // ============================================
+  // POST /api/loan-policies - 貸出ポリシー登録
+  // ============================================
+
+  router.post('/', requireAdmin, async (req: Request, res: Response): Promise<void> => {
+    const body = req.body as CreateLoanPolicyRequestBody;
+    const input: CreateLoanPolicyInput = {
+      name: body.name ?? '',
+      bookCategory: body.bookCategory ?? null,
+      patronCategory: body.patronCategory ?? null,
+      loanDurationDays: body.loanDurationDays ?? 0,
+      maxRenewals: body.maxRenewals ?? 0,
+      maxItems: body.maxItems ?? null,
+      ...(body.gracePeriodDays !== undefined && { gracePeriodDays: body.gracePeriodDays }),
+    };
+
+    const result = await loanPolicyService.createPolicy(input);
+
+    if (isOk(result)) {
+      res.status(201).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // GET /api/loan-policies/:id - 貸出ポリシー詳細取得
+  // ============================================
+
+  router.get('/:id', async (req: Request, res: Response): Promise<void> => {
+    const policyId = req.params.id as LoanPolicyId;
+
+    const result = await loanPolicyService.getPolicyById(policyId);
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // PUT /api/loan-policies/:id - 貸出ポリシー編集
+  // ============================================
+
+  router.put('/:id', requireAdmin, async (req: Request, res: Response): Promise<void> => {
+    const policyId = req.params.id as LoanPolicyId;
+    const body = req.body as UpdateLoanPolicyRequestBody;
+
+    // 指定されたフィールドのみを更新対象に含める
+    const input: UpdateLoanPolicyInput = {
+      ...(body.name !== undefined && { name: body.name }),
+      ...(body.bookCategory !== undefined && { bookCategory: body.bookCategory }),
+      ...(body.patronCategory !== undefined && { patronCategory: body.patronCategory }),
+      ...(body.loanDurationDays !== undefined && { loanDurationDays: body.loanDurationDays }),
+      ...(body.maxRenewals !== undefined && { maxRenewals: body.maxRenewals }),
+      ...(body.maxItems !== undefined && { maxItems: body.maxItems }),
+      ...(body.gracePeriodDays !== undefined && { gracePeriodDays: body.gracePeriodDays }),
+    };
+
+    const result = await loanPolicyService.updatePolicy(policyId, input);
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // DELETE /api/loan-policies/:id - 貸出ポリシー削除
+  // ============================================
+
+  router.delete('/:id', requireAdmin, async (req: Request, res: Response): Promise<void> => {
+    const policyId = req.params.id as LoanPolicyId;
+
+    const result = await loanPolicyService.deletePolicy(policyId);
+
+    if (isOk(result)) {
+      res.status(204).send();
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,69 @@
+/**
+ * LoanPolicyRepository Interface
+ *
+ * 貸出ポリシーデータの永続化を担当するリポジトリのインターフェース定義。
+ * 具体的な実装は Infrastructure 層で行います。
+ */
+
+import type { LoanPolicyId } from '../../shared/branded-types.js';
+import type { Result } from '../../shared/result.js';
+import type {
+  LoanPolicy,
+  CreateLoanPolicyInput,
+  UpdateLoanPolicyInput,
+  LoanPolicyError,
+} from './types.js';
+
+// ============================================
+// リポジトリインターフェース
+// ============================================
+
+/** 貸出ポリシーリポジトリ */
+export interface LoanPolicyRepository {
+  /**
+   * 新しい貸出ポリシーを作成
+   * @param input - 貸出ポリシー作成入力
+   * @returns 作成された貸出ポリシーまたはエラー
+   */
+  create(input: CreateLoanPolicyInput): Promise<Result<LoanPolicy, LoanPolicyError>>;
+
+  /**
+   * IDで貸出ポリシーを取得
+   * @param id - 貸出ポリシーID
+   * @returns 貸出ポリシーまたはPOLICY_NOT_FOUNDエラー
+   */
+  findById(id: LoanPolicyId): Promise<Result<LoanPolicy, LoanPolicyError>>;
+
+  /**
+   * 全ての貸出ポリシーを取得
+   * @returns 貸出ポリシー一覧
+   */
+  findAll(): Promise<LoanPolicy[]>;
+
+  /**
+   * 書籍カテゴリ・利用者区分に適用可能な貸出ポリシーを取得
+   * カテゴリが一致するもの、またはカテゴリ指定がない（null）ものが対象
+   * @param bookCategory - 書籍カテゴリ
+   * @param patronCategory - 利用者区分
+   * @returns 適用可能な貸出ポリシー一覧
+   */
+  findApplicable(bookCategory: string | null, patronCategory: string | null): Promise<LoanPolicy[]>;
+
+  /**
+   * 貸出ポリシーを更新
+   * @param id - 貸出ポリシーID
+   * @param input - 更新入力
+   * @returns 更新された貸出ポリシーまたはエラー
+   */
+  update(
+    id: LoanPolicyId,
+    input: UpdateLoanPolicyInput
+  ): Promise<Result<LoanPolicy, LoanPolicyError>>;
+
+  /**
+   * 貸出ポリシーを削除
+   * @param id - 貸出ポリシーID
+   * @returns 成功またはPOLICY_NOT_FOUNDエラー
+   */
+  delete(id: LoanPolicyId): Promise<Result<void, LoanPolicyError>>;
+}
@@ -0,0 +1,265 @@
+/**
+ * LoanPolicyService テスト
+ *
+ * 貸出ポリシーのCRUD操作とポリシー解決のテスト。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  createLoanPolicyService,
+  selectLoanPolicy,
+  toAppliedLoanPolicy,
+  type LoanPolicyService,
+} from './loan-policy-service.js';
+import type { LoanPolicyRepository } from './loan-policy-repository.js';
+import type { LoanPolicy, CreateLoanPolicyInput } from './types.js';
+import { DEFAULT_LOAN_POLICY } from './types.js';
+import { createLoanPolicyId } from '../../shared/branded-types.js';
+import { ok, err, isOk, isErr } from '../../shared/result.js';
+
+// ============================================
+// モックファクトリ
+// ============================================
+
+function createMockLoanPolicyRepository(): LoanPolicyRepository {
+  return {
+    create: vi.fn(),
+    findById: vi.fn(),
+    findAll: vi.fn(),
+    findApplicable: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  };
+}
+
+function createTestPolicy(overrides: Partial<LoanPolicy> = {}): LoanPolicy {
+  return {
+    id: createLoanPolicyId('policy-001'),
+    name: '標準',
+    bookCategory: null,
+    patronCategory: null,
+    loanDurationDays: 14,
+    maxRenewals: 2,
+    maxItems: null,
+    gracePeriodDays: 0,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    ...overrides,
+  };
+}
+
+// ============================================
+// テスト
+// ============================================
+
+describe('LoanPolicyService', () => {
+  let service: LoanPolicyService;
+  let mockRepository: LoanPolicyRepository;
+
+  beforeEach(() => {
+    mockRepository = createMockLoanPolicyRepository();
+    service = createLoanPolicyService(mockRepository);
+  });
+
+  describe('createPolicy', () => {
+    const validInput: CreateLoanPolicyInput = {
+      name: '雑誌',
+      bookCategory: '雑誌',
+      loanDurationDays: 7,
+      maxRenewals: 0,
+      maxItems: 3,
+    };
+
+    describe('正常系', () => {
+      it('有効な入力で貸出ポリシーを登録できる', async () => {
+        // Arrange
+        const policy = createTestPolicy({ name: '雑誌', bookCategory: '雑誌' });
+        vi.mocked(mockRepository.create).mockResolvedValue(ok(policy));
+
+        // Act
+        const result = await service.createPolicy(validInput);
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        expect(mockRepository.create).toHaveBeenCalledWith(validInput);
+      });
+    });
+
+    describe('異常系', () => {
+      it('ポリシー名が空の場合エラーを返す', async () => {
+        // Act
+        const result = await service.createPolicy({ ...validInput, name: ' ' });
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+          expect(result.error.field).toBe('name');
+        }
+        expect(mockRepository.create).not.toHaveBeenCalled();
+      });
+
+      it('貸出期間が1日未満の場合エラーを返す', async () => {
+        // Act
+        const result = await service.createPolicy({ ...validInput, loanDurationDays: 0 });
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+          expect(result.error.field).toBe('loanDurationDays');
+        }
+      });
+
+      it('延長上限が負の場合エラーを返す', async () => {
+        // Act
+        const result = await service.createPolicy({ ...validInput, maxRenewals: -1 });
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+          expect(result.error.field).toBe('maxRenewals');
+        }
+      });
+
+      it('カテゴリ別貸出上限が整数でない場合エラーを返す', async () => {
+        // Act
+        const result = await service.createPolicy({ ...validInput, maxItems: 1.5 });
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+          expect(result.error.field).toBe('maxItems');
+        }
+      });
+
+      it('猶予期間が負の場合エラーを返す', async () => {
+        // Act
+        const result = await service.createPolicy({ ...validInput, gracePeriodDays: -1 });
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+          expect(result.error.field).toBe('gracePeriodDays');
+        }
+      });
+    });
+  });
+
+  describe('updatePolicy', () => {
+    it('存在するポリシーを更新できる', async () => {
+      // Arrange
+      const policy = createTestPolicy();
+      vi.mocked(mockRepository.findById).mockResolvedValue(ok(policy));
+      vi.mocked(mockRepository.update).mockResolvedValue(ok({ ...policy, loanDurationDays: 21 }));
+
+      // Act
+      const result = await service.updatePolicy(policy.id, { loanDurationDays: 21 });
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.loanDurationDays).toBe(21);
+      }
+    });
+
+    it('存在しないポリシーの場合エラーを返す', async () => {
+      // Arrange
+      const policyId = createLoanPolicyId('missing');
+      vi.mocked(mockRepository.findById).mockResolvedValue(
+        err({ type: 'POLICY_NOT_FOUND', policyId })
+      );
+
+      // Act
+      const result = await service.updatePolicy(policyId, { loanDurationDays: 21 });
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('POLICY_NOT_FOUND');
+      }
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('不正な値の場合エラーを返す', async () => {
+      // Arrange
+      const policy = createTestPolicy();
+      vi.mocked(mockRepository.findById).mockResolvedValue(ok(policy));
+
+      // Act
+      const result = await service.updatePolicy(policy.id, { maxItems: 0 });
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deletePolicy', () => {
+    it('存在するポリシーを削除できる', async () => {
+      // Arrange
+      const policy = createTestPolicy();
+      vi.mocked(mockRepository.findById).mockResolvedValue(ok(policy));
+      vi.mocked(mockRepository.delete).mockResolvedValue(ok(undefined));
+
+      // Act
+      const result = await service.deletePolicy(policy.id);
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      expect(mockRepository.delete).toHaveBeenCalledWith(policy.id);
+    });
+  });
+});
+
+describe('selectLoanPolicy', () => {
+  const generalPolicy = createTestPolicy({ id: createLoanPolicyId('general') });
+  const studentPolicy = createTestPolicy({
+    id: createLoanPolicyId('student'),
+    patronCategory: 'student',
+  });
+  const magazinePolicy = createTestPolicy({
+    id: createLoanPolicyId('magazine'),
+    bookCategory: '雑誌',
+  });
+  const studentMagazinePolicy = createTestPolicy({
+    id: createLoanPolicyId('student-magazine'),
+    bookCategory: '雑誌',
+    patronCategory: 'student',
+  });
+  const allPolicies = [generalPolicy, studentPolicy, magazinePolicy, studentMagazinePolicy];
+
+  it('書籍カテゴリと利用者区分の両方が一致するポリシーを優先する', () => {
+    expect(selectLoanPolicy(allPolicies, '雑誌', 'student')).toBe(studentMagazinePolicy);
+  });
+
+  it('書籍カテゴリの一致を利用者区分の一致より優先する', () => {
+    const policies = [generalPolicy, studentPolicy, magazinePolicy];
+    expect(selectLoanPolicy(policies, '雑誌', 'student')).toBe(magazinePolicy);
+  });
+
+  it('利用者区分のみ一致するポリシーを指定なしより優先する', () => {
+    expect(selectLoanPolicy(allPolicies, '日本文学', 'student')).toBe(studentPolicy);
+  });
+
+  it('カテゴリが一致しないポリシーは選択しない', () => {
+    expect(selectLoanPolicy([magazinePolicy, studentPolicy], '日本文学', null)).toBeNull();
+  });
+});
+
+describe('toAppliedLoanPolicy', () => {
+  it('ポリシーがない場合はデフォルトポリシーを返す', () => {
+    expect(toAppliedLoanPolicy(null)).toEqual(DEFAULT_LOAN_POLICY);
+  });
+
+  it('ポリシーの貸出条件を適用ポリシーに変換する', () => {
+    const policy = createTestPolicy({ loanDurationDays: 7, maxItems: 3, gracePeriodDays: 2 });
+
+    expect(toAppliedLoanPolicy(policy)).toEqual({
+      policyId: policy.id,
+      name: '標準',
+      loanDurationDays: 7,
+      maxRenewals: 2,
+      maxItems: 3,
+      gracePeriodDays: 2,
+    });
+  });
+});
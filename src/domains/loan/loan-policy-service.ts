@@ -0,0 +1,292 @@
+/**
+ * LoanPolicyService - 貸出ポリシー管理サービス
+ *
+ * 書籍カテゴリ・利用者区分ごとの貸出ポリシーのCRUD操作と、
+ * 貸出時に適用するポリシーの解決を提供します。
+ */
+
+import type { LoanPolicyId } from '../../shared/branded-types.js';
+import type { Result } from '../../shared/result.js';
+import { ok, err, isErr } from '../../shared/result.js';
+import { validateRequired } from '../../shared/validation.js';
+import type { LoanPolicyRepository } from './loan-policy-repository.js';
+import type {
+  LoanPolicy,
+  CreateLoanPolicyInput,
+  UpdateLoanPolicyInput,
+  LoanPolicyError,
+  AppliedLoanPolicy,
+} from './types.js';
+import { DEFAULT_LOAN_POLICY } from './types.js';
+
+// ============================================
+// サービスインターフェース
+// ============================================
+
+/** LoanPolicyService インターフェース */
+export interface LoanPolicyService {
+  /**
+   * 新しい貸出ポリシーを登録
+   * @param input - 貸出ポリシー作成入力
+   * @returns 作成された貸出ポリシーまたはエラー
+   */
+  createPolicy(input: CreateLoanPolicyInput): Promise<Result<LoanPolicy, LoanPolicyError>>;
+
+  /**
+   * IDで貸出ポリシーを取得
+   * @param id - 貸出ポリシーID
+   * @returns 貸出ポリシーまたはPOLICY_NOT_FOUNDエラー
+   */
+  getPolicyById(id: LoanPolicyId): Promise<Result<LoanPolicy, LoanPolicyError>>;
+
+  /**
+   * 全ての貸出ポリシーを取得
+   * @returns 貸出ポリシー一覧
+   */
+  getAllPolicies(): Promise<Result<LoanPolicy[], never>>;
+
+  /**
+   * 貸出ポリシーを更新
+   * @param id - 貸出ポリシーID
+   * @param input - 更新入力
+   * @returns 更新された貸出ポリシーまたはエラー
+   */
+  updatePolicy(
+    id: LoanPolicyId,
+    input: UpdateLoanPolicyInput
+  ): Promise<Result<LoanPolicy, LoanPolicyError>>;
+
+  /**
+   * 貸出ポリシーを削除
+   * @param id - 貸出ポリシーID
+   * @returns 成功またはPOLICY_NOT_FOUNDエラー
+   */
+  deletePolicy(id: LoanPolicyId): Promise<Result<void, LoanPolicyError>>;
+}
+
+// ============================================
+// ポリシー解決
+// ============================================
+
+/**
+ * 適用候補の中から最も具体的な貸出ポリシーを選択
+ *
+ * 優先順位: 書籍カテゴリ+利用者区分 > 書籍カテゴリのみ > 利用者区分のみ > 指定なし
+ * @param policies - 適用候補の貸出ポリシー
+ * @param bookCategory - 書籍カテゴリ
+ * @param patronCategory - 利用者区分
+ * @returns 選択された貸出ポリシー（該当なしの場合はnull）
+ */
+export function selectLoanPolicy(
+  policies: readonly LoanPolicy[],
+  bookCategory: string | null,
+  patronCategory: string | null
+): LoanPolicy | null {
+  let selected: LoanPolicy | null = null;
+  let selectedScore = -1;
+
+  for (const policy of policies) {
+    if (policy.bookCategory !== null && policy.bookCategory !== bookCategory) {
+      continue;
+    }
+    if (policy.patronCategory !== null && policy.patronCategory !== patronCategory) {
+      continue;
+    }
+
+    const score = (policy.bookCategory !== null ? 2 : 0) + (policy.patronCategory !== null ? 1 : 0);
+    if (score > selectedScore) {
+      selected = policy;
+      selectedScore = score;
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * 貸出ポリシーを適用ポリシーに変換（nullの場合はデフォルトポリシー）
+ * @param policy - 貸出ポリシー
+ * @returns 適用ポリシー
+ */
+export function toAppliedLoanPolicy(policy: LoanPolicy | null): AppliedLoanPolicy {
+  if (policy === null) {
+    return DEFAULT_LOAN_POLICY;
+  }
+
+  return {
+    policyId: policy.id,
+    name: policy.name,
+    loanDurationDays: policy.loanDurationDays,
+    maxRenewals: policy.maxRenewals,
+    maxItems: policy.maxItems,
+    gracePeriodDays: policy.gracePeriodDays,
+  };
+}
+
+// ============================================
+// バリデーション関数
+// ============================================
+
+/**
+ * 整数の下限チェック
+ */
+function validateMinInteger(
+  value: number,
+  min: number,
+  field: string
+): Result<number, LoanPolicyError> {
+  if (!Number.isInteger(value) || value < min) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field,
+      message: `${field}は${String(min)}以上の整数である必要があります`,
+    });
+  }
+  return ok(value);
+}
+
+/**
+ * 貸出条件をバリデーション（指定されたフィールドのみ）
+ */
+function validateTerms(input: UpdateLoanPolicyInput): Result<void, LoanPolicyError> {
+  if (input.loanDurationDays !== undefined) {
+    const result = validateMinInteger(input.loanDurationDays, 1, 'loanDurationDays');
+    if (isErr(result)) {
+      return result;
+    }
+  }
+
+  if (input.maxRenewals !== undefined) {
+    const result = validateMinInteger(input.maxRenewals, 0, 'maxRenewals');
+    if (isErr(result)) {
+      return result;
+    }
+  }
+
+  if (input.maxItems !== undefined && input.maxItems !== null) {
+    const result = validateMinInteger(input.maxItems, 1, 'maxItems');
+    if (isErr(result)) {
+      return result;
+    }
+  }
+
+  if (input.gracePeriodDays !== undefined) {
+    const result = validateMinInteger(input.gracePeriodDays, 0, 'gracePeriodDays');
+    if (isErr(result)) {
+      return result;
+    }
+  }
+
+  return ok(undefined);
+}
+
+/**
+ * 貸出ポリシー作成入力をバリデーション
+ */
+function validateCreatePolicyInput(
+  input: CreateLoanPolicyInput
+): Result<CreateLoanPolicyInput, LoanPolicyError> {
+  // ポリシー名必須チェック
+  const nameResult = validateRequired(input.name, 'name');
+  if (isErr(nameResult)) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'name',
+      message: nameResult.error.message,
+    });
+  }
+
+  const termsResult = validateTerms(input);
+  if (isErr(termsResult)) {
+    return termsResult;
+  }
+
+  return ok(input);
+}
+
+/**
+ * 貸出ポリシー更新入力をバリデーション
+ */
+function validateUpdatePolicyInput(
+  input: UpdateLoanPolicyInput
+): Result<UpdateLoanPolicyInput, LoanPolicyError> {
+  // ポリシー名が指定されていて空の場合はエラー
+  if (input.name !== undefined && input.name.trim() === '') {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'name',
+      message: 'name cannot be empty',
+    });
+  }
+
+  const termsResult = validateTerms(input);
+  if (isErr(termsResult)) {
+    return termsResult;
+  }
+
+  return ok(input);
+}
+
+// ============================================
+// サービス実装
+// ============================================
+
+/**
+ * LoanPolicyServiceを作成
+ * @param repository - 貸出ポリシーリポジトリ
+ * @returns LoanPolicyService
+ */
+export function createLoanPolicyService(repository: LoanPolicyRepository): LoanPolicyService {
+  return {
+    async createPolicy(input: CreateLoanPolicyInput): Promise<Result<LoanPolicy, LoanPolicyError>> {
+      // 入力バリデーション
+      const validationResult = validateCreatePolicyInput(input);
+      if (isErr(validationResult)) {
+        return validationResult;
+      }
+
+      // 貸出ポリシー作成
+      return repository.create(input);
+    },
+
+    async getPolicyById(id: LoanPolicyId): Promise<Result<LoanPolicy, LoanPolicyError>> {
+      return repository.findById(id);
+    },
+
+    async getAllPolicies(): Promise<Result<LoanPolicy[], never>> {
+      const policies = await repository.findAll();
+      return ok(policies);
+    },
+
+    async updatePolicy(
+      id: LoanPolicyId,
+      input: UpdateLoanPolicyInput
+    ): Promise<Result<LoanPolicy, LoanPolicyError>> {
+      // 貸出ポリシー存在チェック
+      const existingResult = await repository.findById(id);
+      if (isErr(existingResult)) {
+        return existingResult;
+      }
+
+      // 入力バリデーション
+      const validationResult = validateUpdatePolicyInput(input);
+      if (isErr(validationResult)) {
+        return validationResult;
+      }
+
+      // 貸出ポリシー更新
+      return repository.update(id, input);
+    },
+
+    async deletePolicy(id: LoanPolicyId): Promise<Result<void, LoanPolicyError>> {
+      // 貸出ポリシー存在チェック
+      const existingResult = await repository.findById(id);
+      if (isErr(existingResult)) {
+        return existingResult;
+      }
+
+      // 貸出ポリシー削除
+      return repository.delete(id);
+    },
+  };
+}
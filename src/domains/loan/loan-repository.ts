@@ -5,9 +5,9 @@
  * 具体的な実装は Infrastructure 層で行います。
  */
 
-import type { LoanId, UserId, CopyId } from '../../shared/branded-types.js';
+import type { LoanId, UserId, CopyId, LoanPolicyId } from '../../shared/branded-types.js';
 import type { Result } from '../../shared/result.js';
-import type { Loan, CreateLoanInput, LoanError } from './types.js';
+import type { Loan, LoanStatus, CreateLoanInput, LoanError } from './types.js';
 
 // ============================================
 // リポジトリインターフェース
@@ -19,9 +19,14 @@ export interface LoanRepository {
    * 新しい貸出を作成
    * @param input - 貸出作成入力
    * @param dueDate - 返却期限
+   * @param loanPolicyId - 適用された貸出ポリシーID（デフォルトポリシーの場合はnull）
    * @returns 作成された貸出またはエラー
    */
-  create(input: CreateLoanInput, dueDate: Date): Promise<Result<Loan, LoanError>>;
+  create(
+    input: CreateLoanInput,
+    dueDate: Date,
+    loanPolicyId: LoanPolicyId | null
+  ): Promise<Result<Loan, LoanError>>;
 
   /**
    * IDで貸出を取得
@@ -37,6 +42,14 @@ export interface LoanRepository {
    */
   countActiveLoans(userId: UserId): Promise<number>;
 
+  /**
+   * ユーザーの指定カテゴリの書籍のアクティブな貸出数を取得
+   * @param userId - ユーザーID
+   * @param category - 書籍カテゴリ
+   * @returns アクティブな貸出数
+   */
+  countActiveLoansByBookCategory(userId: UserId, category: string): Promise<number>;
+
   /**
    * ユーザーのアクティブな貸出一覧を取得
    * @param userId - ユーザーID
@@ -59,10 +72,70 @@ export interface LoanRepository {
   findActiveByMultipleCopyIds(copyIds: readonly CopyId[]): Promise<Loan[]>;
 
   /**
-   * 貸出を更新（返却処理用）
+   * 複数の蔵書コピーの返却済みの貸出の平均貸出日数を取得
+   * @param copyIds - 蔵書コピーIDの配列
+   * @returns 平均貸出日数（返却済みの貸出がない場合はnull）
+   */
+  findAverageLoanDays(copyIds: readonly CopyId[]): Promise<number | null>;
+
+  /**
+   * 返却期限を過ぎた貸出中（ACTIVE）の貸出一覧を取得
+   * 返却申告中の貸出は含まない
+   * @param asOf - 基準日時（この日時より前に返却期限が切れたもの）
+   * @returns 延滞中の貸出一覧（返却期限の古い順）
+   */
+  findOverdue(asOf: Date): Promise<Loan[]>;
+
+  /**
+   * 返却期限が指定期間内の貸出中（ACTIVE）の貸出一覧を取得
+   * @param from - 期間の開始日時（この日時を含む）
+   * @param to - 期間の終了日時（この日時を含まない）
+   * @returns 貸出一覧（返却期限の古い順）
+   */
+  findDueBetween(from: Date, to: Date): Promise<Loan[]>;
+
+  /**
+   * 貸出を更新（返却処理用、ステータスをRETURNEDにする）
+   * @param id - 貸出ID
+   * @param returnedAt - 返却日（実効返却日時）
+   * @param processedAt - 返却処理を実際に行った日時
+   * @returns 更新された貸出またはエラー
+   */
+  updateReturnedAt(
+    id: LoanId,
+    returnedAt: Date,
+    processedAt: Date
+  ): Promise<Result<Loan, LoanError>>;
+
+  /**
+   * 貸出ステータスを更新（紛失・破損・返却申告処理用）
+   * @param id - 貸出ID
+   * @param status - 新しいステータス
+   * @param returnedAt - 返却日（貸出を終了した日時、貸出を継続する場合はnull）
+   * @returns 更新された貸出またはエラー
+   */
+  updateStatus(
+    id: LoanId,
+    status: LoanStatus,
+    returnedAt: Date | null
+  ): Promise<Result<Loan, LoanError>>;
+
+  /**
+   * 貸出を延長（返却期限を更新し、延長回数を1増やす）
+   * 貸出中（ACTIVE・未返却・未リコール）の貸出のみ更新し、それ以外はエラーを返す
+   * @param id - 貸出ID
+   * @param dueDate - 新しい返却期限
+   * @returns 更新された貸出またはエラー
+   */
+  renew(id: LoanId, dueDate: Date): Promise<Result<Loan, LoanError>>;
+
+  /**
+   * 貸出をリコール（返却期限を短縮し、リコール日時を記録）
+   * 貸出中（ACTIVE・未返却・未リコール）の貸出のみ更新し、それ以外はエラーを返す
    * @param id - 貸出ID
-   * @param returnedAt - 返却日
+   * @param dueDate - 短縮後の返却期限
+   * @param recalledAt - リコール日時
    * @returns 更新された貸出またはエラー
    */
-  updateReturnedAt(id: LoanId, returnedAt: Date): Promise<Result<Loan, LoanError>>;
+  recall(id: LoanId, dueDate: Date, recalledAt: Date): Promise<Result<Loan, LoanError>>;
 }
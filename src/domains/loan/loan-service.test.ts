@@ -4,7 +4,7 @@
  * TDDに従い、テストを先に記述します。
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { createLoanService, type LoanService } from './loan-service.js';
 import type { LoanRepository } from './loan-repository.js';
 import type { BookRepository } from '../book/book-repository.js';
@@ -14,13 +14,39 @@ import {
   createCopyId,
   createLoanId,
   createBookId,
+  createClosureId,
+  createHolidayId,
+  createServicePointId,
 } from '../../shared/branded-types.js';
 import { ok, err, isOk, isErr } from '../../shared/result.js';
-import type { Loan, CreateLoanInput, OverdueRecord } from './types.js';
+import type { Loan, CreateLoanInput, OverdueRecord, LoanPolicy } from './types.js';
+import { DEFAULT_LOAN_POLICY } from './types.js';
 import type { User } from '../user/types.js';
 import type { BookCopy, Book } from '../book/types.js';
 import type { OverdueRecordRepository } from './overdue-record-repository.js';
-import { createOverdueRecordId } from '../../shared/branded-types.js';
+import type { ReservationRepository } from '../reservation/reservation-repository.js';
+import type { Reservation } from '../reservation/types.js';
+import type { LoanPolicyRepository } from './loan-policy-repository.js';
+import { createPassthroughUnitOfWork, type UnitOfWork } from '../../shared/unit-of-work.js';
+import { createInMemoryEventBus, type EventBus } from '../../shared/domain-events.js';
+import type { FineService } from '../fine/fine-service.js';
+import type { FineTransaction } from '../fine/types.js';
+import {
+  createOverdueRecordId,
+  createReservationId,
+  createLoanPolicyId,
+  createFineTransactionId,
+  createReturnClaimId,
+} from '../../shared/branded-types.js';
+import type { ReturnClaimRepository } from './return-claim-repository.js';
+import type { BookDropRepository } from './book-drop-repository.js';
+import type { CalendarService } from '../calendar/calendar-service.js';
+import { toDateKey } from '../calendar/calendar-service.js';
+import type { OpeningCalendar } from '../calendar/types.js';
+import { ALWAYS_OPEN_CALENDAR } from '../calendar/types.js';
+import type { ReturnClaim } from './types.js';
+import type { NotificationService } from '../notification/notification-service.js';
+import type { ReservationService } from '../reservation/reservation-service.js';
 
 // ============================================
 // モックファクトリ
@@ -34,18 +60,26 @@ function createMockLoanRepository(): LoanRepository {
     findActiveByUserId: vi.fn(),
     findActiveByCopyId: vi.fn(),
     findActiveByMultipleCopyIds: vi.fn(),
+    findOverdue: vi.fn(),
+    findDueBetween: vi.fn(),
     updateReturnedAt: vi.fn(),
+    updateStatus: vi.fn(),
+    renew: vi.fn(),
+    recall: vi.fn(),
+    countActiveLoansByBookCategory: vi.fn(),
+    findAverageLoanDays: vi.fn(),
   };
 }
 
 function createMockBookRepository(): Pick<
   BookRepository,
-  'findCopyById' | 'updateCopy' | 'findById'
+  'findCopyById' | 'updateCopy' | 'findById' | 'findCopiesByBookId'
 > {
   return {
-    findCopyById: vi.fn(),
+    findCopyById: vi.fn().mockResolvedValue(ok(testBookCopy)),
     updateCopy: vi.fn(),
     findById: vi.fn(),
+    findCopiesByBookId: vi.fn(),
   };
 }
 
@@ -61,6 +95,79 @@ function createMockOverdueRecordRepository(): OverdueRecordRepository {
     findById: vi.fn(),
     findByLoanId: vi.fn(),
     findByUserId: vi.fn(),
+    saveSnapshot: vi.fn(),
+  };
+}
+
+function createMockReservationRepository(): Pick<
+  ReservationRepository,
+  'findActiveByBookId' | 'findHoldByCopyId'
+> {
+  return {
+    findActiveByBookId: vi.fn(),
+    findHoldByCopyId: vi.fn().mockResolvedValue(null),
+  };
+}
+
+function createMockLoanPolicyRepository(): Pick<
+  LoanPolicyRepository,
+  'findById' | 'findApplicable'
+> {
+  return {
+    findById: vi.fn(),
+    findApplicable: vi.fn().mockResolvedValue([]),
+  };
+}
+
+function createMockFineService(): Pick<
+  FineService,
+  | 'checkBorrowingEligibility'
+  | 'assessOverdueFine'
+  | 'chargeReplacementCost'
+  | 'reverseReplacementCharge'
+> {
+  return {
+    checkBorrowingEligibility: vi.fn().mockResolvedValue(ok(undefined)),
+    assessOverdueFine: vi.fn().mockResolvedValue(ok(null)),
+    chargeReplacementCost: vi.fn().mockResolvedValue(ok(null)),
+    reverseReplacementCharge: vi.fn().mockResolvedValue(ok({ waiver: null, refund: null })),
+  };
+}
+
+function createMockReturnClaimRepository(): ReturnClaimRepository {
+  return {
+    create: vi.fn(),
+    findOpenByLoanId: vi.fn().mockResolvedValue(null),
+    countOpenByUserId: vi.fn().mockResolvedValue(0),
+    recordSearch: vi.fn(),
+    resolve: vi.fn(),
+  };
+}
+
+function createMockBookDropRepository(): BookDropRepository {
+  return {
+    getMode: vi.fn().mockResolvedValue({ enabled: false, updatedAt: new Date('2024-01-01') }),
+    setMode: vi.fn(),
+  };
+}
+
+function createMockCalendarService(): Pick<CalendarService, 'getOpeningCalendar'> {
+  return {
+    getOpeningCalendar: vi.fn().mockResolvedValue(ok(ALWAYS_OPEN_CALENDAR)),
+  };
+}
+
+function createMockNotificationService(): Pick<NotificationService, 'sendLoanRecalled'> {
+  return {
+    sendLoanRecalled: vi.fn().mockResolvedValue(ok(undefined)),
+  };
+}
+
+function createMockReservationService(): Pick<ReservationService, 'allocateReturnedCopy'> {
+  return {
+    allocateReturnedCopy: vi
+      .fn()
+      .mockResolvedValue(ok({ notifiedReservation: null, transitRequest: null })),
   };
 }
 
@@ -71,6 +178,12 @@ function createMockOverdueRecordRepository(): OverdueRecordRepository {
 const testUserId = createUserId('user-123');
 const testCopyId = createCopyId('copy-456');
 const testLoanId = createLoanId('loan-789');
+
+/** 日曜定休の開館カレンダー */
+const sundayClosedCalendar: OpeningCalendar = {
+  ...ALWAYS_OPEN_CALENDAR,
+  weeklyHours: [{ weekday: 0, opensAt: null, closesAt: null }],
+};
 const testBookId = createBookId('book-001');
 
 const testUser: User = {
@@ -81,11 +194,13 @@ const testUser: User = {
   phone: '090-1234-5678',
   registeredAt: new Date('2024-01-01'),
   loanLimit: 5,
+  patronCategory: null,
 };
 
 const testBookCopy: BookCopy = {
   id: testCopyId,
   bookId: testBookId,
+  barcode: 'LIB000000017',
   location: 'A棚-1段目',
   status: 'AVAILABLE',
   createdAt: new Date('2024-01-01'),
@@ -95,10 +210,15 @@ const testBook: Book = {
   id: testBookId,
   title: '吾輩は猫である',
   author: '夏目漱石',
+  contributors: [],
   publisher: '岩波書店',
   publicationYear: 1905,
   isbn: '978-4-00-310101-7',
   category: '日本文学',
+  classification: null,
+  callNumber: null,
+  subjectHeadings: [],
+  replacementCost: null,
   createdAt: new Date('2024-01-01'),
   updatedAt: new Date('2024-01-01'),
 };
@@ -110,6 +230,26 @@ const testLoan: Loan = {
   borrowedAt: new Date('2024-06-01'),
   dueDate: new Date('2024-06-15'),
   returnedAt: null,
+  returnProcessedAt: null,
+  status: 'ACTIVE',
+  renewalCount: 0,
+  loanPolicyId: null,
+  recalledAt: null,
+};
+
+const testLoanPolicyId = createLoanPolicyId('policy-001');
+
+const testLoanPolicy: LoanPolicy = {
+  id: testLoanPolicyId,
+  name: '日本文学・一般',
+  bookCategory: '日本文学',
+  patronCategory: null,
+  loanDurationDays: 7,
+  maxRenewals: 1,
+  maxItems: 2,
+  gracePeriodDays: 3,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
 };
 
 const testOverdueRecordId = createOverdueRecordId('overdue-001');
@@ -131,17 +271,45 @@ describe('LoanService', () => {
   let mockBookRepository: ReturnType<typeof createMockBookRepository>;
   let mockUserRepository: ReturnType<typeof createMockUserRepository>;
   let mockOverdueRecordRepository: ReturnType<typeof createMockOverdueRecordRepository>;
+  let mockReservationRepository: ReturnType<typeof createMockReservationRepository>;
+  let mockLoanPolicyRepository: ReturnType<typeof createMockLoanPolicyRepository>;
+  let mockFineService: ReturnType<typeof createMockFineService>;
+  let mockReturnClaimRepository: ReturnType<typeof createMockReturnClaimRepository>;
+  let mockBookDropRepository: ReturnType<typeof createMockBookDropRepository>;
+  let mockCalendarService: ReturnType<typeof createMockCalendarService>;
+  let mockNotificationService: ReturnType<typeof createMockNotificationService>;
+  let mockReservationService: ReturnType<typeof createMockReservationService>;
+  let eventBus: EventBus;
 
   beforeEach(() => {
     mockLoanRepository = createMockLoanRepository();
     mockBookRepository = createMockBookRepository();
     mockUserRepository = createMockUserRepository();
     mockOverdueRecordRepository = createMockOverdueRecordRepository();
+    mockReservationRepository = createMockReservationRepository();
+    mockLoanPolicyRepository = createMockLoanPolicyRepository();
+    mockFineService = createMockFineService();
+    mockReturnClaimRepository = createMockReturnClaimRepository();
+    mockBookDropRepository = createMockBookDropRepository();
+    mockCalendarService = createMockCalendarService();
+    mockNotificationService = createMockNotificationService();
+    mockReservationService = createMockReservationService();
+    eventBus = createInMemoryEventBus();
     loanService = createLoanService(
       mockLoanRepository,
       mockBookRepository,
       mockUserRepository,
-      mockOverdueRecordRepository
+      mockOverdueRecordRepository,
+      mockReservationRepository,
+      mockLoanPolicyRepository,
+      createPassthroughUnitOfWork(),
+      mockFineService,
+      mockReturnClaimRepository,
+      mockBookDropRepository,
+      mockCalendarService,
+      mockNotificationService,
+      eventBus,
+      mockReservationService
     );
   });
 
@@ -156,6 +324,7 @@ describe('LoanService', () => {
 
         vi.mocked(mockUserRepository.findById).mockResolvedValue(ok(testUser));
         vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
         vi.mocked(mockLoanRepository.countActiveLoans).mockResolvedValue(0);
         vi.mocked(mockLoanRepository.create).mockResolvedValue(ok(testLoan));
         vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
@@ -183,6 +352,7 @@ describe('LoanService', () => {
 
         vi.mocked(mockUserRepository.findById).mockResolvedValue(ok(testUser));
         vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
         vi.mocked(mockLoanRepository.countActiveLoans).mockResolvedValue(0);
         vi.mocked(mockLoanRepository.create).mockResolvedValue(ok(testLoan));
         vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
@@ -196,6 +366,54 @@ describe('LoanService', () => {
         expect(mockBookRepository.updateCopy).toHaveBeenCalledWith(testCopyId, 'BORROWED');
       });
 
+      it('貸出作成と蔵書状態の更新を1つの作業単位で実行する', async () => {
+        // Arrange
+        const events: string[] = [];
+        const unitOfWork: UnitOfWork = {
+          run: async (work) => {
+            events.push('begin');
+            const result = await work();
+            events.push('end');
+            return result;
+          },
+        };
+        const service = createLoanService(
+          mockLoanRepository,
+          mockBookRepository,
+          mockUserRepository,
+          mockOverdueRecordRepository,
+          mockReservationRepository,
+          mockLoanPolicyRepository,
+          unitOfWork,
+          mockFineService,
+          mockReturnClaimRepository,
+          mockBookDropRepository,
+          mockCalendarService,
+          mockNotificationService,
+          eventBus,
+          mockReservationService
+        );
+
+        vi.mocked(mockUserRepository.findById).mockResolvedValue(ok(testUser));
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
+        vi.mocked(mockLoanRepository.countActiveLoans).mockResolvedValue(0);
+        vi.mocked(mockLoanRepository.create).mockImplementation(() => {
+          events.push('create');
+          return Promise.resolve(ok(testLoan));
+        });
+        vi.mocked(mockBookRepository.updateCopy).mockImplementation(() => {
+          events.push('updateCopy');
+          return Promise.resolve(ok({ ...testBookCopy, status: 'BORROWED' as const }));
+        });
+
+        // Act
+        await service.createLoan({ userId: testUserId, bookCopyId: testCopyId });
+
+        // Assert
+        expect(events).toEqual(['begin', 'create', 'updateCopy', 'end']);
+      });
+
       it('返却期限が14日後に設定される', async () => {
         // Arrange
         const input: CreateLoanInput = {
@@ -205,6 +423,7 @@ describe('LoanService', () => {
 
         vi.mocked(mockUserRepository.findById).mockResolvedValue(ok(testUser));
         vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
         vi.mocked(mockLoanRepository.countActiveLoans).mockResolvedValue(0);
         vi.mocked(mockLoanRepository.create).mockResolvedValue(ok(testLoan));
         vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
@@ -227,6 +446,45 @@ describe('LoanService', () => {
           expect(dueDate.toDateString()).toBe(expectedDueDate.toDateString());
         }
       });
+
+      it('返却期限が休館日の場合は次の開館日に繰り延べる', async () => {
+        // Arrange（14日後が元日）
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(2024, 11, 18, 10, 0, 0));
+        vi.mocked(mockCalendarService.getOpeningCalendar).mockResolvedValue(
+          ok({
+            ...ALWAYS_OPEN_CALENDAR,
+            holidays: [
+              {
+                id: createHolidayId('holiday-001'),
+                date: '2000-01-01',
+                name: '元日',
+                recurring: true,
+                createdAt: new Date('2000-01-01'),
+              },
+            ],
+          })
+        );
+        vi.mocked(mockUserRepository.findById).mockResolvedValue(ok(testUser));
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
+        vi.mocked(mockLoanRepository.countActiveLoans).mockResolvedValue(0);
+        vi.mocked(mockLoanRepository.create).mockResolvedValue(ok(testLoan));
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'BORROWED' })
+        );
+
+        // Act
+        await loanService.createLoan({ userId: testUserId, bookCopyId: testCopyId });
+        vi.useRealTimers();
+
+        // Assert
+        expect(mockLoanRepository.create).toHaveBeenCalledWith(
+          { userId: testUserId, bookCopyId: testCopyId },
+          new Date(2025, 0, 2, 10, 0, 0),
+          null
+        );
+      });
     });
 
     describe('異常系 - 利用者', () => {
@@ -275,6 +533,38 @@ describe('LoanService', () => {
           }
         }
       });
+
+      it('未払いの延滞料金が閾値以上の場合エラーを返す', async () => {
+        // Arrange
+        const input: CreateLoanInput = {
+          userId: testUserId,
+          bookCopyId: testCopyId,
+        };
+
+        vi.mocked(mockUserRepository.findById).mockResolvedValue(ok(testUser));
+        vi.mocked(mockFineService.checkBorrowingEligibility).mockResolvedValue(
+          err({
+            type: 'BALANCE_THRESHOLD_EXCEEDED',
+            userId: testUserId,
+            balance: 1200,
+            threshold: 1000,
+          })
+        );
+
+        // Act
+        const result = await loanService.createLoan(input);
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error.type).toBe('FINES_OUTSTANDING');
+          if (result.error.type === 'FINES_OUTSTANDING') {
+            expect(result.error.balance).toBe(1200);
+            expect(result.error.threshold).toBe(1000);
+          }
+        }
+        expect(mockLoanRepository.create).not.toHaveBeenCalled();
+      });
     });
 
     describe('異常系 - 蔵書コピー', () => {
@@ -366,6 +656,188 @@ describe('LoanService', () => {
         }
       });
     });
+
+    describe('取り置き', () => {
+      const reservedCopy: BookCopy = { ...testBookCopy, status: 'RESERVED' };
+      const hold: Reservation = {
+        id: createReservationId('reservation-001'),
+        userId: testUserId,
+        bookId: testBookId,
+        reservedAt: new Date('2024-06-01'),
+        notifiedAt: new Date('2024-06-10'),
+        expiresAt: new Date('2024-06-18'),
+        status: 'NOTIFIED',
+        queuePosition: 1,
+        copyId: testCopyId,
+        suspendedUntil: null,
+        pickupLocationId: null,
+      };
+
+      beforeEach(() => {
+        vi.mocked(mockUserRepository.findById).mockResolvedValue(ok(testUser));
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(reservedCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
+        vi.mocked(mockLoanRepository.countActiveLoans).mockResolvedValue(0);
+        vi.mocked(mockLoanRepository.create).mockResolvedValue(ok(testLoan));
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'BORROWED' })
+        );
+      });
+
+      it('取り置き中の蔵書コピーを予約者本人に貸し出し、貸出作成イベントを発行する', async () => {
+        // Arrange
+        vi.mocked(mockReservationRepository.findHoldByCopyId).mockResolvedValue(hold);
+        const created = vi.fn().mockResolvedValue(undefined);
+        eventBus.subscribe('LoanCreated', created);
+
+        // Act
+        const result = await loanService.createLoan({ userId: testUserId, bookCopyId: testCopyId });
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        expect(mockReservationRepository.findHoldByCopyId).toHaveBeenCalledWith(testCopyId);
+        expect(mockBookRepository.updateCopy).toHaveBeenCalledWith(testCopyId, 'BORROWED');
+        expect(created).toHaveBeenCalledWith(
+          expect.objectContaining({
+            type: 'LoanCreated',
+            loanId: testLoan.id,
+            userId: testUserId,
+            bookId: testBook.id,
+            copyId: testCopyId,
+          })
+        );
+      });
+
+      it('取り置き中の蔵書コピーを予約者以外に貸し出そうとするとエラーを返す', async () => {
+        // Arrange
+        vi.mocked(mockReservationRepository.findHoldByCopyId).mockResolvedValue({
+          ...hold,
+          userId: createUserId('user-999'),
+        });
+
+        // Act
+        const result = await loanService.createLoan({ userId: testUserId, bookCopyId: testCopyId });
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error).toEqual({ type: 'COPY_ON_HOLD', copyId: testCopyId });
+        }
+        expect(mockLoanRepository.create).not.toHaveBeenCalled();
+      });
+
+      it('貸出可能な蔵書コピーの貸出では取り置きを確認しない', async () => {
+        // Arrange
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+
+        // Act
+        const result = await loanService.createLoan({ userId: testUserId, bookCopyId: testCopyId });
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        expect(mockReservationRepository.findHoldByCopyId).not.toHaveBeenCalled();
+      });
+
+      it('貸出に失敗した場合は貸出作成イベントを発行しない', async () => {
+        // Arrange
+        vi.mocked(mockReservationRepository.findHoldByCopyId).mockResolvedValue({
+          ...hold,
+          userId: createUserId('user-999'),
+        });
+        const created = vi.fn().mockResolvedValue(undefined);
+        eventBus.subscribe('LoanCreated', created);
+
+        // Act
+        await loanService.createLoan({ userId: testUserId, bookCopyId: testCopyId });
+
+        // Assert
+        expect(created).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('貸出ポリシー', () => {
+      beforeEach(() => {
+        vi.mocked(mockUserRepository.findById).mockResolvedValue(ok(testUser));
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
+        vi.mocked(mockLoanRepository.countActiveLoans).mockResolvedValue(0);
+        vi.mocked(mockLoanRepository.create).mockResolvedValue(ok(testLoan));
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'BORROWED' })
+        );
+      });
+
+      it('書籍カテゴリと利用者区分で貸出ポリシーを検索する', async () => {
+        // Arrange
+        const student: User = { ...testUser, patronCategory: 'student' };
+        vi.mocked(mockUserRepository.findById).mockResolvedValue(ok(student));
+
+        // Act
+        await loanService.createLoan({ userId: testUserId, bookCopyId: testCopyId });
+
+        // Assert
+        expect(mockLoanPolicyRepository.findApplicable).toHaveBeenCalledWith('日本文学', 'student');
+      });
+
+      it('適用ポリシーの貸出期間で返却期限が設定され、ポリシーIDが記録される', async () => {
+        // Arrange
+        vi.mocked(mockLoanPolicyRepository.findApplicable).mockResolvedValue([testLoanPolicy]);
+        vi.mocked(mockLoanRepository.countActiveLoansByBookCategory).mockResolvedValue(0);
+
+        // Act
+        await loanService.createLoan({ userId: testUserId, bookCopyId: testCopyId });
+
+        // Assert
+        const createCall = vi.mocked(mockLoanRepository.create).mock.calls[0];
+        expect(createCall).toBeDefined();
+        if (createCall !== undefined) {
+          const [, dueDate, loanPolicyId] = createCall;
+          const expectedDueDate = new Date();
+          expectedDueDate.setDate(expectedDueDate.getDate() + 7);
+
+          expect(dueDate.toDateString()).toBe(expectedDueDate.toDateString());
+          expect(loanPolicyId).toBe(testLoanPolicyId);
+        }
+      });
+
+      it('該当するポリシーがない場合はデフォルトポリシーが適用される', async () => {
+        // Act
+        await loanService.createLoan({ userId: testUserId, bookCopyId: testCopyId });
+
+        // Assert
+        const createCall = vi.mocked(mockLoanRepository.create).mock.calls[0];
+        expect(createCall?.[2]).toBeNull();
+        expect(mockLoanRepository.countActiveLoansByBookCategory).not.toHaveBeenCalled();
+      });
+
+      it('カテゴリ別の貸出上限に達している場合エラーを返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanPolicyRepository.findApplicable).mockResolvedValue([testLoanPolicy]);
+        vi.mocked(mockLoanRepository.countActiveLoansByBookCategory).mockResolvedValue(2);
+
+        // Act
+        const result = await loanService.createLoan({
+          userId: testUserId,
+          bookCopyId: testCopyId,
+        });
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error.type).toBe('CATEGORY_LOAN_LIMIT_EXCEEDED');
+          if (result.error.type === 'CATEGORY_LOAN_LIMIT_EXCEEDED') {
+            expect(result.error.category).toBe('日本文学');
+            expect(result.error.limit).toBe(2);
+            expect(result.error.currentCount).toBe(2);
+          }
+        }
+        expect(mockLoanRepository.countActiveLoansByBookCategory).toHaveBeenCalledWith(
+          testUserId,
+          '日本文学'
+        );
+        expect(mockLoanRepository.create).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe('createLoanWithReceipt', () => {
@@ -395,6 +867,42 @@ describe('LoanService', () => {
           expect(result.value.loan).toEqual(testLoan);
           expect(result.value.bookTitle).toBe('吾輩は猫である');
           expect(result.value.userName).toBe('山田太郎');
+          expect(result.value.policy).toEqual(DEFAULT_LOAN_POLICY);
+        }
+      });
+
+      it('レシートに適用された貸出ポリシーが含まれる', async () => {
+        // Arrange
+        const input: CreateLoanInput = {
+          userId: testUserId,
+          bookCopyId: testCopyId,
+        };
+
+        vi.mocked(mockUserRepository.findById).mockResolvedValue(ok(testUser));
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
+        vi.mocked(mockLoanRepository.countActiveLoans).mockResolvedValue(0);
+        vi.mocked(mockLoanRepository.countActiveLoansByBookCategory).mockResolvedValue(0);
+        vi.mocked(mockLoanPolicyRepository.findApplicable).mockResolvedValue([testLoanPolicy]);
+        vi.mocked(mockLoanRepository.create).mockResolvedValue(ok(testLoan));
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'BORROWED' })
+        );
+
+        // Act
+        const result = await loanService.createLoanWithReceipt(input);
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.policy).toEqual({
+            policyId: testLoanPolicyId,
+            name: '日本文学・一般',
+            loanDurationDays: 7,
+            maxRenewals: 1,
+            maxItems: 2,
+            gracePeriodDays: 3,
+          });
         }
       });
 
@@ -577,43 +1085,131 @@ describe('LoanService', () => {
         }
       });
 
-      it('返却処理で貸出記録に返却日が記録される', async () => {
-        // Arrange（期限内返却のシナリオ）
-        const futureDate = new Date();
-        futureDate.setDate(futureDate.getDate() + 7);
-
-        const activeLoan: Loan = {
-          ...testLoan,
-          dueDate: futureDate,
-          returnedAt: null,
-        };
-        const returnedLoan: Loan = {
-          ...activeLoan,
-          returnedAt: new Date(),
-        };
-
-        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(activeLoan));
+      it('返却が完了すると返却イベントを発行する', async () => {
+        // Arrange
+        const returnedLoan: Loan = { ...testLoan, returnedAt: new Date(), status: 'RETURNED' };
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(
+          ok({ ...testLoan, dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) })
+        );
         vi.mocked(mockLoanRepository.updateReturnedAt).mockResolvedValue(ok(returnedLoan));
         vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
           ok({ ...testBookCopy, status: 'AVAILABLE' })
         );
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        const returned = vi.fn().mockResolvedValue(undefined);
+        eventBus.subscribe('LoanReturned', returned);
 
         // Act
         await loanService.returnBook(testLoanId);
 
         // Assert
-        expect(mockLoanRepository.updateReturnedAt).toHaveBeenCalledWith(
-          testLoanId,
-          expect.any(Date)
+        expect(returned).toHaveBeenCalledWith(
+          expect.objectContaining({
+            type: 'LoanReturned',
+            loanId: testLoanId,
+            bookId: testBookCopy.bookId,
+            copyId: testCopyId,
+          })
         );
       });
 
-      it('返却処理で蔵書状態がAVAILABLEに更新される', async () => {
-        // Arrange（期限内返却のシナリオ）
-        const futureDate = new Date();
-        futureDate.setDate(futureDate.getDate() + 7);
-
-        const activeLoan: Loan = {
+      it('返却と同じ作業単位内で予約待ちの取り置きを確保する', async () => {
+        // Arrange
+        let inUnitOfWork = false;
+        const unitOfWork: UnitOfWork = {
+          run: async (work) => {
+            inUnitOfWork = true;
+            try {
+              return await work();
+            } finally {
+              inUnitOfWork = false;
+            }
+          },
+        };
+        const allocatedInUnitOfWork: boolean[] = [];
+        vi.mocked(mockReservationService.allocateReturnedCopy).mockImplementation(() => {
+          allocatedInUnitOfWork.push(inUnitOfWork);
+          return Promise.resolve(ok({ notifiedReservation: null, transitRequest: null }));
+        });
+        const service = createLoanService(
+          mockLoanRepository,
+          mockBookRepository,
+          mockUserRepository,
+          mockOverdueRecordRepository,
+          mockReservationRepository,
+          mockLoanPolicyRepository,
+          unitOfWork,
+          mockFineService,
+          mockReturnClaimRepository,
+          mockBookDropRepository,
+          mockCalendarService,
+          mockNotificationService,
+          eventBus,
+          mockReservationService
+        );
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(
+          ok({ ...testLoan, dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) })
+        );
+        vi.mocked(mockLoanRepository.updateReturnedAt).mockResolvedValue(
+          ok({ ...testLoan, returnedAt: new Date(), status: 'RETURNED' })
+        );
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'AVAILABLE' })
+        );
+
+        // Act
+        const result = await service.returnBook(testLoanId, {
+          servicePointId: createServicePointId('sp-east'),
+        });
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        expect(mockReservationService.allocateReturnedCopy).toHaveBeenCalledWith(
+          testBookCopy.bookId,
+          testCopyId,
+          'sp-east'
+        );
+        expect(allocatedInUnitOfWork).toEqual([true]);
+      });
+
+      it('返却処理で貸出記録に返却日が記録される', async () => {
+        // Arrange（期限内返却のシナリオ）
+        const futureDate = new Date();
+        futureDate.setDate(futureDate.getDate() + 7);
+
+        const activeLoan: Loan = {
+          ...testLoan,
+          dueDate: futureDate,
+          returnedAt: null,
+        };
+        const returnedLoan: Loan = {
+          ...activeLoan,
+          returnedAt: new Date(),
+        };
+
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(activeLoan));
+        vi.mocked(mockLoanRepository.updateReturnedAt).mockResolvedValue(ok(returnedLoan));
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'AVAILABLE' })
+        );
+
+        // Act
+        await loanService.returnBook(testLoanId);
+
+        // Assert
+        expect(mockLoanRepository.updateReturnedAt).toHaveBeenCalledWith(
+          testLoanId,
+          expect.any(Date),
+          expect.any(Date)
+        );
+      });
+
+      it('返却処理で蔵書状態がAVAILABLEに更新される', async () => {
+        // Arrange（期限内返却のシナリオ）
+        const futureDate = new Date();
+        futureDate.setDate(futureDate.getDate() + 7);
+
+        const activeLoan: Loan = {
           ...testLoan,
           dueDate: futureDate,
           returnedAt: null,
@@ -732,6 +1328,8 @@ describe('LoanService', () => {
         vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
           ok({ ...testBookCopy, status: 'AVAILABLE' })
         );
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
         vi.mocked(mockOverdueRecordRepository.create).mockResolvedValue(ok(testOverdueRecord));
 
         // Act
@@ -773,6 +1371,8 @@ describe('LoanService', () => {
         vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
           ok({ ...testBookCopy, status: 'AVAILABLE' })
         );
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
         vi.mocked(mockOverdueRecordRepository.create).mockResolvedValue(ok(expectedOverdueRecord));
 
         // Act
@@ -789,6 +1389,151 @@ describe('LoanService', () => {
       });
     });
 
+    describe('開館カレンダー', () => {
+      const fixedNow = new Date('2024-06-18T12:00:00Z');
+
+      beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(fixedNow);
+        vi.mocked(mockCalendarService.getOpeningCalendar).mockResolvedValue(
+          ok(sundayClosedCalendar)
+        );
+        vi.mocked(mockLoanRepository.updateReturnedAt).mockImplementation((_id, returnedAt) =>
+          Promise.resolve(ok({ ...testLoan, returnedAt, status: 'RETURNED' }))
+        );
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'AVAILABLE' })
+        );
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('休館日は延滞日数に含めない', async () => {
+        // Arrange（期限 6/15（土）、返却 6/18（火）、6/16 は日曜定休）
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(
+          ok({ ...testLoan, dueDate: new Date('2024-06-15T12:00:00Z') })
+        );
+        vi.mocked(mockOverdueRecordRepository.create).mockResolvedValue(
+          ok({ ...testOverdueRecord, overdueDays: 2 })
+        );
+
+        // Act
+        const result = await loanService.returnBook(testLoanId);
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.overdueDays).toBe(2);
+        }
+        expect(mockOverdueRecordRepository.create).toHaveBeenCalledWith({
+          loanId: testLoanId,
+          overdueDays: 2,
+        });
+        expect(mockFineService.assessOverdueFine).toHaveBeenCalledWith(
+          expect.objectContaining({ overdueDays: 2 })
+        );
+      });
+
+      it('期限後に休館日しか経過していない返却は延滞としない', async () => {
+        // Arrange（期限 6/15（土）、返却 6/16（日）の返却ポスト投函を翌営業日に処理）
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(
+          ok({ ...testLoan, dueDate: new Date('2024-06-15T12:00:00Z') })
+        );
+
+        // Act
+        const result = await loanService.returnBook(testLoanId, {
+          effectiveReturnDate: new Date('2024-06-16T10:00:00Z'),
+        });
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.isOverdue).toBe(false);
+        }
+        expect(mockOverdueRecordRepository.create).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('猶予期間', () => {
+      it('ポリシーの猶予期間内の返却は延滞とならない', async () => {
+        // Arrange
+        const pastDate = new Date();
+        pastDate.setDate(pastDate.getDate() - 2); // 2日前が期限（猶予期間3日以内）
+
+        const activeLoan: Loan = {
+          ...testLoan,
+          dueDate: pastDate,
+          returnedAt: null,
+          loanPolicyId: testLoanPolicyId,
+        };
+
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(activeLoan));
+        vi.mocked(mockLoanPolicyRepository.findById).mockResolvedValue(ok(testLoanPolicy));
+        vi.mocked(mockLoanRepository.updateReturnedAt).mockResolvedValue(
+          ok({ ...activeLoan, returnedAt: new Date() })
+        );
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'AVAILABLE' })
+        );
+
+        // Act
+        const result = await loanService.returnBook(testLoanId);
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.isOverdue).toBe(false);
+        }
+        expect(mockLoanPolicyRepository.findById).toHaveBeenCalledWith(testLoanPolicyId);
+        expect(mockOverdueRecordRepository.create).not.toHaveBeenCalled();
+      });
+
+      it('猶予期間を過ぎた返却は返却期限からの日数で延滞となる', async () => {
+        // Arrange
+        const fixedNow = new Date('2024-06-20T12:00:00Z');
+        vi.useFakeTimers();
+        vi.setSystemTime(fixedNow);
+
+        const activeLoan: Loan = {
+          ...testLoan,
+          dueDate: new Date('2024-06-15T12:00:00Z'), // 5日前が期限（猶予期間3日超過）
+          returnedAt: null,
+          loanPolicyId: testLoanPolicyId,
+        };
+
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(activeLoan));
+        vi.mocked(mockLoanPolicyRepository.findById).mockResolvedValue(ok(testLoanPolicy));
+        vi.mocked(mockLoanRepository.updateReturnedAt).mockResolvedValue(
+          ok({ ...activeLoan, returnedAt: fixedNow })
+        );
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'AVAILABLE' })
+        );
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
+        vi.mocked(mockOverdueRecordRepository.create).mockResolvedValue(
+          ok({ ...testOverdueRecord, overdueDays: 5 })
+        );
+
+        // Act
+        const result = await loanService.returnBook(testLoanId);
+
+        // Restore real timers
+        vi.useRealTimers();
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.isOverdue).toBe(true);
+          expect(result.value.overdueDays).toBe(5);
+        }
+      });
+    });
+
     describe('延滞記録保存', () => {
       it('延滞時に延滞記録が作成される', async () => {
         // Arrange
@@ -810,6 +1555,8 @@ describe('LoanService', () => {
         vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
           ok({ ...testBookCopy, status: 'AVAILABLE' })
         );
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
         vi.mocked(mockOverdueRecordRepository.create).mockResolvedValue(ok(testOverdueRecord));
 
         // Act
@@ -844,6 +1591,8 @@ describe('LoanService', () => {
         vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
           ok({ ...testBookCopy, status: 'AVAILABLE' })
         );
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
         vi.mocked(mockOverdueRecordRepository.create).mockResolvedValue(ok(testOverdueRecord));
 
         // Act
@@ -890,7 +1639,7 @@ describe('LoanService', () => {
         }
       });
 
-      it('延滞記録保存に失敗しても返却処理は成功する', async () => {
+      it('延滞記録保存に失敗した場合は返却処理全体がエラーとなる', async () => {
         // Arrange
         const pastDate = new Date();
         pastDate.setDate(pastDate.getDate() - 3); // 3日前が期限
@@ -918,12 +1667,1882 @@ describe('LoanService', () => {
         const result = await loanService.returnBook(testLoanId);
 
         // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+          expect(result.error.field).toBe('overdueRecord');
+        }
+      });
+    });
+
+    describe('延滞料金', () => {
+      const testFine: FineTransaction = {
+        id: createFineTransactionId('fine-001'),
+        userId: testUserId,
+        type: 'CHARGE',
+        amount: 30,
+        loanId: testLoanId,
+        reason: '延滞3日',
+        createdAt: new Date('2024-06-18'),
+      };
+
+      it('延滞返却時に書籍カテゴリと延滞日数で延滞料金を請求する', async () => {
+        // Arrange
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-06-18T12:00:00Z'));
+        const dueDate = new Date('2024-06-15T12:00:00Z'); // 3日前が期限
+
+        const activeLoan: Loan = { ...testLoan, dueDate, returnedAt: null };
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(activeLoan));
+        vi.mocked(mockLoanRepository.updateReturnedAt).mockResolvedValue(
+          ok({ ...activeLoan, returnedAt: new Date() })
+        );
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'AVAILABLE' })
+        );
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
+        vi.mocked(mockOverdueRecordRepository.create).mockResolvedValue(ok(testOverdueRecord));
+        vi.mocked(mockFineService.assessOverdueFine).mockResolvedValue(ok(testFine));
+
+        // Act
+        const result = await loanService.returnBook(testLoanId);
+        vi.useRealTimers();
+
+        // Assert
+        expect(mockFineService.assessOverdueFine).toHaveBeenCalledWith({
+          userId: testUserId,
+          loanId: testLoanId,
+          bookCategory: '日本文学',
+          overdueDays: 3,
+        });
         expect(isOk(result)).toBe(true);
         if (isOk(result)) {
-          expect(result.value.isOverdue).toBe(true);
-          expect(result.value.overdueRecord).toBeUndefined();
+          expect(result.value.fine).toEqual(testFine);
         }
       });
+
+      it('リコールされた貸出の延滞返却はリコール用のレートで請求する', async () => {
+        // Arrange
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-06-18T12:00:00Z'));
+        const dueDate = new Date('2024-06-15T12:00:00Z'); // 3日前が期限
+
+        const recalledLoan: Loan = {
+          ...testLoan,
+          dueDate,
+          returnedAt: null,
+          recalledAt: new Date('2024-06-12T12:00:00Z'),
+        };
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(recalledLoan));
+        vi.mocked(mockLoanRepository.updateReturnedAt).mockResolvedValue(
+          ok({ ...recalledLoan, returnedAt: new Date() })
+        );
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'AVAILABLE' })
+        );
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
+        vi.mocked(mockOverdueRecordRepository.create).mockResolvedValue(ok(testOverdueRecord));
+
+        // Act
+        await loanService.returnBook(testLoanId);
+        vi.useRealTimers();
+
+        // Assert
+        expect(mockFineService.assessOverdueFine).toHaveBeenCalledWith({
+          userId: testUserId,
+          loanId: testLoanId,
+          bookCategory: '日本文学',
+          overdueDays: 3,
+          recalled: true,
+        });
+      });
+
+      it('期限内返却では延滞料金を請求しない', async () => {
+        // Arrange
+        const futureDate = new Date();
+        futureDate.setDate(futureDate.getDate() + 7); // 7日後が期限
+
+        const activeLoan: Loan = { ...testLoan, dueDate: futureDate, returnedAt: null };
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(activeLoan));
+        vi.mocked(mockLoanRepository.updateReturnedAt).mockResolvedValue(
+          ok({ ...activeLoan, returnedAt: new Date() })
+        );
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'AVAILABLE' })
+        );
+
+        // Act
+        const result = await loanService.returnBook(testLoanId);
+
+        // Assert
+        expect(mockFineService.assessOverdueFine).not.toHaveBeenCalled();
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.fine).toBeUndefined();
+        }
+      });
+    });
+
+    describe('実効返却日時', () => {
+      const processedAt = new Date('2024-06-20T10:00:00Z');
+
+      beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(processedAt);
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(testLoan));
+        vi.mocked(mockLoanRepository.updateReturnedAt).mockImplementation((_id, returnedAt) =>
+          Promise.resolve(
+            ok({ ...testLoan, returnedAt, returnProcessedAt: processedAt, status: 'RETURNED' })
+          )
+        );
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'AVAILABLE' })
+        );
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('指定した実効返却日時で返却日を記録し、処理日時も記録する', async () => {
+        // Arrange
+        const effectiveReturnDate = new Date('2024-06-14T18:00:00Z');
+
+        // Act
+        const result = await loanService.returnBook(testLoanId, { effectiveReturnDate });
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.isOverdue).toBe(false);
+        }
+        expect(mockLoanRepository.updateReturnedAt).toHaveBeenCalledWith(
+          testLoanId,
+          effectiveReturnDate,
+          processedAt
+        );
+        expect(mockOverdueRecordRepository.create).not.toHaveBeenCalled();
+      });
+
+      it('延滞日数と延滞記録は実効返却日時で計算する', async () => {
+        // Arrange
+        // 期限 6/15、実効返却日 6/17、処理日 6/20 → 延滞2日
+        vi.mocked(mockOverdueRecordRepository.create).mockResolvedValue(
+          ok({ ...testOverdueRecord, overdueDays: 2 })
+        );
+
+        // Act
+        const result = await loanService.returnBook(testLoanId, {
+          effectiveReturnDate: new Date('2024-06-17T00:00:00Z'),
+        });
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.overdueDays).toBe(2);
+        }
+        expect(mockOverdueRecordRepository.create).toHaveBeenCalledWith({
+          loanId: testLoanId,
+          overdueDays: 2,
+        });
+      });
+
+      it('未来の実効返却日時は指定できない', async () => {
+        // Act
+        const result = await loanService.returnBook(testLoanId, {
+          effectiveReturnDate: new Date('2024-06-21T00:00:00Z'),
+        });
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error).toMatchObject({
+            type: 'VALIDATION_ERROR',
+            field: 'effectiveReturnDate',
+          });
+        }
+        expect(mockLoanRepository.updateReturnedAt).not.toHaveBeenCalled();
+      });
+
+      it('貸出日時より前の実効返却日時は指定できない', async () => {
+        // Act
+        const result = await loanService.returnBook(testLoanId, {
+          effectiveReturnDate: new Date('2024-05-31T00:00:00Z'),
+        });
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error.type).toBe('VALIDATION_ERROR');
+        }
+      });
+    });
+
+    describe('返却ポストモード', () => {
+      // 2024-06-17 は月曜日（現地時刻で指定）
+      const mondayMorning = new Date(2024, 5, 17, 9, 0, 0);
+      const dueSaturday: Loan = { ...testLoan, dueDate: new Date(2024, 5, 15, 18, 0, 0) };
+
+      beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(mondayMorning);
+        vi.mocked(mockCalendarService.getOpeningCalendar).mockResolvedValue(
+          ok(sundayClosedCalendar)
+        );
+        vi.mocked(mockBookDropRepository.getMode).mockResolvedValue({
+          enabled: true,
+          updatedAt: mondayMorning,
+        });
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(dueSaturday));
+        vi.mocked(mockLoanRepository.updateReturnedAt).mockImplementation(
+          (_id, returnedAt, returnProcessedAt) =>
+            Promise.resolve(ok({ ...dueSaturday, returnedAt, returnProcessedAt }))
+        );
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'AVAILABLE' })
+        );
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('定休日を除いた最終開館日に返却されたものとして処理する', async () => {
+        // Act
+        const result = await loanService.returnBook(testLoanId);
+
+        // Assert（日曜定休のため土曜日に遡る）
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.isOverdue).toBe(false);
+        }
+        expect(mockLoanRepository.updateReturnedAt).toHaveBeenCalledWith(
+          testLoanId,
+          new Date(2024, 5, 15, 0, 0, 0),
+          mondayMorning
+        );
+      });
+
+      it('開館カレンダーの休館日をすべて遡る', async () => {
+        // Arrange（日曜定休に加えて土曜日を臨時休館とする）
+        vi.mocked(mockCalendarService.getOpeningCalendar).mockResolvedValue(
+          ok({
+            ...sundayClosedCalendar,
+            closures: [
+              {
+                id: createClosureId('closure-001'),
+                startDate: '2024-06-15',
+                endDate: '2024-06-15',
+                reason: '蔵書点検',
+                createdAt: new Date('2024-06-01'),
+              },
+            ],
+          })
+        );
+
+        // Act
+        await loanService.returnBook(testLoanId);
+
+        // Assert（土日が休館のため金曜日に遡る）
+        expect(mockLoanRepository.updateReturnedAt).toHaveBeenCalledWith(
+          testLoanId,
+          new Date(2024, 5, 14, 0, 0, 0),
+          mondayMorning
+        );
+      });
+
+      it('最終開館日が貸出日時より前の場合は貸出日時に遡る', async () => {
+        // Arrange
+        const borrowedAt = new Date(2024, 5, 15, 16, 0, 0);
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(
+          ok({ ...dueSaturday, borrowedAt })
+        );
+
+        // Act
+        await loanService.returnBook(testLoanId);
+
+        // Assert
+        expect(mockLoanRepository.updateReturnedAt).toHaveBeenCalledWith(
+          testLoanId,
+          borrowedAt,
+          mondayMorning
+        );
+      });
+
+      it('実効返却日時が指定された場合は返却ポストモードより優先する', async () => {
+        // Arrange
+        const effectiveReturnDate = new Date(2024, 5, 15, 12, 0, 0);
+
+        // Act
+        await loanService.returnBook(testLoanId, { effectiveReturnDate });
+
+        // Assert
+        expect(mockLoanRepository.updateReturnedAt).toHaveBeenCalledWith(
+          testLoanId,
+          effectiveReturnDate,
+          mondayMorning
+        );
+        expect(mockBookDropRepository.getMode).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  // ============================================
+  // 貸出延長
+  // ============================================
+
+  describe('renewLoan', () => {
+    const otherUserReservation: Reservation = {
+      id: createReservationId('reservation-001'),
+      userId: createUserId('user-999'),
+      bookId: testBookId,
+      reservedAt: new Date('2024-06-05'),
+      notifiedAt: null,
+      expiresAt: null,
+      status: 'PENDING',
+      queuePosition: 1,
+      copyId: null,
+      suspendedUntil: null,
+      pickupLocationId: null,
+    };
+
+    function createActiveLoan(overrides?: Partial<Loan>): Loan {
+      const dueDate = new Date();
+      dueDate.setDate(dueDate.getDate() + 3); // 3日後が期限
+      return { ...testLoan, dueDate, returnedAt: null, ...overrides };
+    }
+
+    describe('正常系', () => {
+      it('返却期限を14日延長し、延長回数を増やす', async () => {
+        // Arrange
+        const activeLoan = createActiveLoan();
+        const expectedDueDate = new Date(activeLoan.dueDate);
+        expectedDueDate.setDate(expectedDueDate.getDate() + 14);
+        const renewedLoan: Loan = { ...activeLoan, dueDate: expectedDueDate, renewalCount: 1 };
+
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(activeLoan));
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockReservationRepository.findActiveByBookId).mockResolvedValue([]);
+        vi.mocked(mockLoanRepository.renew).mockResolvedValue(ok(renewedLoan));
+
+        // Act
+        const result = await loanService.renewLoan(testLoanId);
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.renewalCount).toBe(1);
+        }
+        expect(mockReservationRepository.findActiveByBookId).toHaveBeenCalledWith(testBookId);
+        expect(mockLoanRepository.renew).toHaveBeenCalledWith(testLoanId, expectedDueDate);
+      });
+
+      it('延長後の返却期限が休館日の場合は次の開館日に繰り延べる', async () => {
+        // Arrange
+        const activeLoan = createActiveLoan();
+        const closedDate = new Date(activeLoan.dueDate);
+        closedDate.setDate(closedDate.getDate() + 14);
+        const expectedDueDate = new Date(closedDate);
+        expectedDueDate.setDate(expectedDueDate.getDate() + 1);
+
+        vi.mocked(mockCalendarService.getOpeningCalendar).mockResolvedValue(
+          ok({
+            ...ALWAYS_OPEN_CALENDAR,
+            closures: [
+              {
+                id: createClosureId('closure-001'),
+                startDate: toDateKey(closedDate),
+                endDate: toDateKey(closedDate),
+                reason: '館内整理',
+                createdAt: new Date(),
+              },
+            ],
+          })
+        );
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(activeLoan));
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockReservationRepository.findActiveByBookId).mockResolvedValue([]);
+        vi.mocked(mockLoanRepository.renew).mockResolvedValue(
+          ok({ ...activeLoan, dueDate: expectedDueDate, renewalCount: 1 })
+        );
+
+        // Act
+        await loanService.renewLoan(testLoanId);
+
+        // Assert
+        expect(mockLoanRepository.renew).toHaveBeenCalledWith(testLoanId, expectedDueDate);
+      });
+
+      it('貸出時のポリシーの貸出期間で延長する', async () => {
+        // Arrange
+        const activeLoan = createActiveLoan({ loanPolicyId: testLoanPolicyId });
+        const expectedDueDate = new Date(activeLoan.dueDate);
+        expectedDueDate.setDate(expectedDueDate.getDate() + 7);
+
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(activeLoan));
+        vi.mocked(mockLoanPolicyRepository.findById).mockResolvedValue(ok(testLoanPolicy));
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockReservationRepository.findActiveByBookId).mockResolvedValue([]);
+        vi.mocked(mockLoanRepository.renew).mockResolvedValue(
+          ok({ ...activeLoan, dueDate: expectedDueDate, renewalCount: 1 })
+        );
+
+        // Act
+        const result = await loanService.renewLoan(testLoanId);
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        expect(mockLoanRepository.renew).toHaveBeenCalledWith(testLoanId, expectedDueDate);
+      });
+
+      it('本人の予約や通知済みの予約のみであれば延長できる', async () => {
+        // Arrange
+        const activeLoan = createActiveLoan();
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(activeLoan));
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockReservationRepository.findActiveByBookId).mockResolvedValue([
+          { ...otherUserReservation, userId: testUserId },
+          { ...otherUserReservation, status: 'NOTIFIED', queuePosition: 2 },
+        ]);
+        vi.mocked(mockLoanRepository.renew).mockResolvedValue(
+          ok({ ...activeLoan, renewalCount: 1 })
+        );
+
+        // Act
+        const result = await loanService.renewLoan(testLoanId);
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+      });
+    });
+
+    describe('異常系', () => {
+      it('存在しない貸出の場合エラーを返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(
+          err({ type: 'LOAN_NOT_FOUND', loanId: testLoanId })
+        );
+
+        // Act
+        const result = await loanService.renewLoan(testLoanId);
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error.type).toBe('LOAN_NOT_FOUND');
+        }
+      });
+
+      it('既に返却済みの場合エラーを返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(
+          ok(createActiveLoan({ returnedAt: new Date() }))
+        );
+
+        // Act
+        const result = await loanService.renewLoan(testLoanId);
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error.type).toBe('ALREADY_RETURNED');
+        }
+        expect(mockLoanRepository.renew).not.toHaveBeenCalled();
+      });
+
+      it('延滞中の場合エラーを返す', async () => {
+        // Arrange
+        const pastDate = new Date();
+        pastDate.setDate(pastDate.getDate() - 1); // 1日前が期限
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(
+          ok(createActiveLoan({ dueDate: pastDate }))
+        );
+
+        // Act
+        const result = await loanService.renewLoan(testLoanId);
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error.type).toBe('LOAN_OVERDUE');
+        }
+        expect(mockLoanRepository.renew).not.toHaveBeenCalled();
+      });
+
+      it('延長回数が上限に達している場合エラーを返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(
+          ok(createActiveLoan({ renewalCount: 2 }))
+        );
+
+        // Act
+        const result = await loanService.renewLoan(testLoanId);
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error.type).toBe('RENEWAL_LIMIT_EXCEEDED');
+          if (result.error.type === 'RENEWAL_LIMIT_EXCEEDED') {
+            expect(result.error.limit).toBe(2);
+            expect(result.error.renewalCount).toBe(2);
+          }
+        }
+        expect(mockLoanRepository.renew).not.toHaveBeenCalled();
+      });
+
+      it('貸出時のポリシーの延長上限に達している場合エラーを返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(
+          ok(createActiveLoan({ renewalCount: 1, loanPolicyId: testLoanPolicyId }))
+        );
+        vi.mocked(mockLoanPolicyRepository.findById).mockResolvedValue(ok(testLoanPolicy));
+
+        // Act
+        const result = await loanService.renewLoan(testLoanId);
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error.type).toBe('RENEWAL_LIMIT_EXCEEDED');
+          if (result.error.type === 'RENEWAL_LIMIT_EXCEEDED') {
+            expect(result.error.limit).toBe(1);
+          }
+        }
+        expect(mockLoanRepository.renew).not.toHaveBeenCalled();
+      });
+
+      it('リコールされた貸出は延長できない', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(
+          ok(createActiveLoan({ recalledAt: new Date() }))
+        );
+
+        // Act
+        const result = await loanService.renewLoan(testLoanId);
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error).toEqual({ type: 'LOAN_RECALLED', loanId: testLoanId });
+        }
+        expect(mockLoanRepository.renew).not.toHaveBeenCalled();
+      });
+
+      it('他の利用者の予約待ちがある場合エラーを返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(createActiveLoan()));
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockReservationRepository.findActiveByBookId).mockResolvedValue([
+          otherUserReservation,
+        ]);
+
+        // Act
+        const result = await loanService.renewLoan(testLoanId);
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error.type).toBe('RESERVED_BY_OTHER_USER');
+        }
+        expect(mockLoanRepository.renew).not.toHaveBeenCalled();
+      });
+
+      it('延長を判定した後に返却された場合は作業単位内の更新で検出してエラーを返す', async () => {
+        // Arrange
+        const unitOfWork = createPassthroughUnitOfWork();
+        const run = vi.spyOn(unitOfWork, 'run');
+        const service = createLoanService(
+          mockLoanRepository,
+          mockBookRepository,
+          mockUserRepository,
+          mockOverdueRecordRepository,
+          mockReservationRepository,
+          mockLoanPolicyRepository,
+          unitOfWork,
+          mockFineService,
+          mockReturnClaimRepository,
+          mockBookDropRepository,
+          mockCalendarService,
+          mockNotificationService,
+          eventBus,
+          mockReservationService
+        );
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(createActiveLoan()));
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockReservationRepository.findActiveByBookId).mockResolvedValue([]);
+        vi.mocked(mockLoanRepository.renew).mockResolvedValue(
+          err({ type: 'ALREADY_RETURNED', loanId: testLoanId })
+        );
+
+        // Act
+        const result = await service.renewLoan(testLoanId);
+
+        // Assert
+        expect(result).toEqual(err({ type: 'ALREADY_RETURNED', loanId: testLoanId }));
+        expect(run).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+
+  describe('リコール', () => {
+    const otherUserId = createUserId('user-999');
+    const secondCopyId = createCopyId('copy-457');
+
+    function mockRecall(): void {
+      vi.mocked(mockLoanRepository.recall).mockImplementation((id, dueDate, recalledAt) =>
+        Promise.resolve(ok({ ...testLoan, id, dueDate, recalledAt }))
+      );
+    }
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    describe('recallLoan', () => {
+      it('返却期限を今日から猶予日数後に短縮し、利用者に通知する', async () => {
+        // Arrange
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-06-10T12:00:00Z'));
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(testLoan));
+        mockRecall();
+
+        // Act
+        const result = await loanService.recallLoan(testLoanId);
+
+        // Assert
+        const expectedDueDate = new Date('2024-06-13T12:00:00Z');
+        expect(mockLoanRepository.recall).toHaveBeenCalledWith(
+          testLoanId,
+          expectedDueDate,
+          new Date('2024-06-10T12:00:00Z')
+        );
+        expect(mockNotificationService.sendLoanRecalled).toHaveBeenCalledWith(
+          testUserId,
+          testLoanId,
+          expectedDueDate
+        );
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.loan.dueDate).toEqual(expectedDueDate);
+          expect(result.value.previousDueDate).toEqual(testLoan.dueDate);
+          expect(result.value.notified).toBe(true);
+        }
+      });
+
+      it('最低貸出保証期間（貸出日から7日）より前には短縮しない', async () => {
+        // Arrange
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-06-02T00:00:00Z'));
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(testLoan));
+        mockRecall();
+
+        // Act
+        const result = await loanService.recallLoan(testLoanId);
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.loan.dueDate).toEqual(new Date('2024-06-08T00:00:00Z'));
+        }
+      });
+
+      it('短縮後の返却期限が休館日の場合は次の開館日とする', async () => {
+        // Arrange
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-06-06T12:00:00Z')); // 3日後は日曜日
+        vi.mocked(mockCalendarService.getOpeningCalendar).mockResolvedValue(
+          ok(sundayClosedCalendar)
+        );
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(testLoan));
+        mockRecall();
+
+        // Act
+        const result = await loanService.recallLoan(testLoanId);
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.loan.dueDate).toEqual(new Date('2024-06-10T12:00:00Z'));
+        }
+      });
+
+      it('元の返却期限より延長しない', async () => {
+        // Arrange
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-06-14T12:00:00Z'));
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(testLoan));
+        mockRecall();
+
+        // Act
+        const result = await loanService.recallLoan(testLoanId);
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.loan.dueDate).toEqual(testLoan.dueDate);
+        }
+      });
+
+      it('通知に失敗してもリコールは確定し、未通知として返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(testLoan));
+        mockRecall();
+        vi.mocked(mockNotificationService.sendLoanRecalled).mockResolvedValue(
+          err({ type: 'QUEUE_ERROR', message: 'Redis connection refused' })
+        );
+
+        // Act
+        const result = await loanService.recallLoan(testLoanId);
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.notified).toBe(false);
+        }
+      });
+
+      it('リコール済みの貸出はエラーを返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(
+          ok({ ...testLoan, recalledAt: new Date('2024-06-10') })
+        );
+
+        // Act
+        const result = await loanService.recallLoan(testLoanId);
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error).toEqual({ type: 'ALREADY_RECALLED', loanId: testLoanId });
+        }
+        expect(mockLoanRepository.recall).not.toHaveBeenCalled();
+        expect(mockNotificationService.sendLoanRecalled).not.toHaveBeenCalled();
+      });
+
+      it('貸出中以外の貸出はエラーを返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(
+          ok({ ...testLoan, status: 'CLAIMED_RETURNED' })
+        );
+
+        // Act
+        const result = await loanService.recallLoan(testLoanId);
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error.type).toBe('INVALID_LOAN_STATUS');
+        }
+        expect(mockLoanRepository.recall).not.toHaveBeenCalled();
+      });
+
+      it('返却済みの貸出はエラーを返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(
+          ok({ ...testLoan, returnedAt: new Date('2024-06-10'), status: 'RETURNED' })
+        );
+
+        // Act
+        const result = await loanService.recallLoan(testLoanId);
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error.type).toBe('ALREADY_RETURNED');
+        }
+      });
+    });
+
+    describe('recallForReservation', () => {
+      function createAutoRecallService(): LoanService {
+        return createLoanService(
+          mockLoanRepository,
+          mockBookRepository,
+          mockUserRepository,
+          mockOverdueRecordRepository,
+          mockReservationRepository,
+          mockLoanPolicyRepository,
+          createPassthroughUnitOfWork(),
+          mockFineService,
+          mockReturnClaimRepository,
+          mockBookDropRepository,
+          mockCalendarService,
+          mockNotificationService,
+          eventBus,
+          mockReservationService,
+          undefined,
+          { minimumLoanDays: 7, returnPeriodDays: 3, autoRecallOnReservation: true }
+        );
+      }
+
+      beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-06-10T12:00:00Z'));
+        vi.mocked(mockBookRepository.findCopiesByBookId).mockResolvedValue(
+          ok([
+            { ...testBookCopy, status: 'BORROWED' },
+            { ...testBookCopy, id: secondCopyId, status: 'BORROWED' },
+          ])
+        );
+        mockRecall();
+      });
+
+      it('返却期限が最も遅い他の利用者の貸出をリコールする', async () => {
+        // Arrange
+        const laterLoan: Loan = {
+          ...testLoan,
+          id: createLoanId('loan-790'),
+          bookCopyId: secondCopyId,
+          dueDate: new Date('2024-06-20'),
+        };
+        vi.mocked(mockLoanRepository.findActiveByMultipleCopyIds).mockResolvedValue([
+          testLoan,
+          laterLoan,
+        ]);
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(laterLoan));
+
+        // Act
+        const result = await createAutoRecallService().recallForReservation(
+          testBookId,
+          otherUserId
+        );
+
+        // Assert
+        expect(mockLoanRepository.findActiveByMultipleCopyIds).toHaveBeenCalledWith([
+          testCopyId,
+          secondCopyId,
+        ]);
+        expect(mockLoanRepository.findById).toHaveBeenCalledWith(laterLoan.id);
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value?.previousDueDate).toEqual(laterLoan.dueDate);
+        }
+      });
+
+      it('予約者本人の貸出・リコール済みの貸出・短縮できない貸出はリコールしない', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findActiveByMultipleCopyIds).mockResolvedValue([
+          { ...testLoan, userId: otherUserId },
+          { ...testLoan, recalledAt: new Date('2024-06-09') },
+          { ...testLoan, dueDate: new Date('2024-06-12T12:00:00Z') },
+        ]);
+
+        // Act
+        const result = await createAutoRecallService().recallForReservation(
+          testBookId,
+          otherUserId
+        );
+
+        // Assert
+        expect(result).toEqual(ok(null));
+        expect(mockLoanRepository.recall).not.toHaveBeenCalled();
+      });
+
+      it('予約登録イベントを購読して自動リコールを行う', async () => {
+        // Arrange
+        const loan: Loan = { ...testLoan, dueDate: new Date('2024-06-20') };
+        vi.mocked(mockLoanRepository.findActiveByMultipleCopyIds).mockResolvedValue([loan]);
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(loan));
+        createAutoRecallService();
+
+        // Act
+        await eventBus.publish({
+          type: 'ReservationPlaced',
+          reservationId: createReservationId('reservation-001'),
+          userId: otherUserId,
+          bookId: testBookId,
+          occurredAt: new Date(),
+        });
+
+        // Assert
+        expect(mockLoanRepository.recall).toHaveBeenCalledWith(
+          testLoanId,
+          expect.any(Date),
+          expect.any(Date)
+        );
+      });
+
+      it('自動リコールが無効な場合は何もしない', async () => {
+        // Act
+        const result = await loanService.recallForReservation(testBookId, otherUserId);
+
+        // Assert
+        expect(result).toEqual(ok(null));
+        expect(mockBookRepository.findCopiesByBookId).not.toHaveBeenCalled();
+        expect(mockLoanRepository.recall).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('紛失・破損処理', () => {
+    const replacementCharge: FineTransaction = {
+      id: createFineTransactionId('fine-101'),
+      userId: testUserId,
+      type: 'REPLACEMENT',
+      amount: 2500,
+      loanId: testLoanId,
+      reason: '紛失',
+      createdAt: new Date('2024-06-20'),
+    };
+    const returnedLoan: Loan = {
+      ...testLoan,
+      returnedAt: new Date('2024-06-10'),
+      status: 'RETURNED',
+    };
+
+    describe('markLost', () => {
+      it('貸出を終了し、蔵書コピーを紛失状態にして書籍の弁償金額を請求する', async () => {
+        // Arrange
+        const lostLoan: Loan = { ...testLoan, returnedAt: new Date(), status: 'LOST' };
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(testLoan));
+        vi.mocked(mockLoanRepository.updateStatus).mockResolvedValue(ok(lostLoan));
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'LOST' })
+        );
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(
+          ok({ ...testBook, replacementCost: 2500 })
+        );
+        vi.mocked(mockFineService.chargeReplacementCost).mockResolvedValue(ok(replacementCharge));
+
+        // Act
+        const result = await loanService.markLost(testLoanId);
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.loan.status).toBe('LOST');
+          expect(result.value.charge).toEqual(replacementCharge);
+        }
+        expect(mockLoanRepository.updateStatus).toHaveBeenCalledWith(
+          testLoanId,
+          'LOST',
+          expect.any(Date)
+        );
+        expect(mockBookRepository.updateCopy).toHaveBeenCalledWith(testCopyId, 'LOST');
+        expect(mockFineService.chargeReplacementCost).toHaveBeenCalledWith({
+          userId: testUserId,
+          loanId: testLoanId,
+          replacementCost: 2500,
+          reason: '紛失',
+        });
+      });
+
+      it('返却済みの貸出は紛失処理できない', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(returnedLoan));
+
+        // Act
+        const result = await loanService.markLost(testLoanId);
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error.type).toBe('ALREADY_RETURNED');
+        }
+        expect(mockLoanRepository.updateStatus).not.toHaveBeenCalled();
+        expect(mockFineService.chargeReplacementCost).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('markDamaged', () => {
+      it('返却済みの蔵書コピーを破損状態にして弁償金を請求する', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(returnedLoan));
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
+        vi.mocked(mockLoanRepository.updateStatus).mockResolvedValue(
+          ok({ ...returnedLoan, status: 'DAMAGED' })
+        );
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'DAMAGED' })
+        );
+
+        // Act
+        const result = await loanService.markDamaged(testLoanId);
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        expect(mockLoanRepository.updateStatus).toHaveBeenCalledWith(
+          testLoanId,
+          'DAMAGED',
+          returnedLoan.returnedAt
+        );
+        expect(mockBookRepository.updateCopy).toHaveBeenCalledWith(testCopyId, 'DAMAGED');
+        expect(mockFineService.chargeReplacementCost).toHaveBeenCalledWith({
+          userId: testUserId,
+          loanId: testLoanId,
+          replacementCost: null,
+          reason: '破損',
+        });
+      });
+
+      it('貸出中の貸出は破損処理できない', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(testLoan));
+
+        // Act
+        const result = await loanService.markDamaged(testLoanId);
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error).toEqual({
+            type: 'INVALID_LOAN_STATUS',
+            loanId: testLoanId,
+            status: 'ACTIVE',
+          });
+        }
+      });
+
+      it('蔵書コピーが再度貸し出されている場合はエラーを返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(returnedLoan));
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'BORROWED' })
+        );
+
+        // Act
+        const result = await loanService.markDamaged(testLoanId);
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error.type).toBe('BOOK_NOT_AVAILABLE');
+        }
+        expect(mockLoanRepository.updateStatus).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('reinstateLostOrDamaged', () => {
+      it('紛失資料が見つかった場合、返却済みに戻して弁償金を取り消す', async () => {
+        // Arrange
+        const lostLoan: Loan = {
+          ...testLoan,
+          returnedAt: new Date('2024-06-20'),
+          status: 'LOST',
+        };
+        const waiver: FineTransaction = {
+          ...replacementCharge,
+          id: createFineTransactionId('fine-102'),
+          type: 'WAIVER',
+          reason: '紛失の取消',
+        };
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(lostLoan));
+        vi.mocked(mockLoanRepository.updateStatus).mockResolvedValue(
+          ok({ ...lostLoan, status: 'RETURNED' })
+        );
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockFineService.reverseReplacementCharge).mockResolvedValue(
+          ok({ waiver, refund: null })
+        );
+
+        // Act
+        const result = await loanService.reinstateLostOrDamaged(testLoanId);
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.loan.status).toBe('RETURNED');
+          expect(result.value.waiver).toEqual(waiver);
+          expect(result.value.refund).toBeNull();
+        }
+        expect(mockBookRepository.updateCopy).toHaveBeenCalledWith(testCopyId, 'AVAILABLE');
+        expect(mockFineService.reverseReplacementCharge).toHaveBeenCalledWith({
+          userId: testUserId,
+          loanId: testLoanId,
+          reason: '紛失の取消',
+        });
+      });
+
+      it('紛失・破損処理されていない貸出は取り消せない', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(returnedLoan));
+
+        // Act
+        const result = await loanService.reinstateLostOrDamaged(testLoanId);
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error.type).toBe('INVALID_LOAN_STATUS');
+        }
+        expect(mockFineService.reverseReplacementCharge).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('返却申告', () => {
+    const claimedAt = new Date('2024-06-12T10:00:00Z');
+    const claimedLoan: Loan = { ...testLoan, status: 'CLAIMED_RETURNED' };
+    const openClaim: ReturnClaim = {
+      id: createReturnClaimId('claim-001'),
+      loanId: testLoanId,
+      userId: testUserId,
+      claimedBy: testUserId,
+      claimedAt: claimedAt,
+      searchCount: 0,
+      lastSearchedAt: null,
+      resolution: null,
+      resolvedAt: null,
+    };
+
+    describe('claimReturned', () => {
+      it('貸出を返却申告中にし、申告者と申告日時を記録する', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(testLoan));
+        vi.mocked(mockLoanRepository.updateStatus).mockResolvedValue(ok(claimedLoan));
+        vi.mocked(mockReturnClaimRepository.create).mockResolvedValue(openClaim);
+
+        // Act
+        const result = await loanService.claimReturned(testLoanId, {});
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value).toEqual(openClaim);
+        }
+        expect(mockLoanRepository.updateStatus).toHaveBeenCalledWith(
+          testLoanId,
+          'CLAIMED_RETURNED',
+          null
+        );
+        expect(mockReturnClaimRepository.create).toHaveBeenCalledWith({
+          loanId: testLoanId,
+          userId: testUserId,
+          claimedBy: testUserId,
+        });
+        // 資料は見つかるまで貸出中のまま
+        expect(mockBookRepository.updateCopy).not.toHaveBeenCalled();
+      });
+
+      it('職員が代理で申告を受け付けた場合は職員を申告者として記録する', async () => {
+        // Arrange
+        const librarianId = createUserId('librarian-001');
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(testLoan));
+        vi.mocked(mockUserRepository.findById).mockResolvedValue(
+          ok({ ...testUser, id: librarianId })
+        );
+        vi.mocked(mockLoanRepository.updateStatus).mockResolvedValue(ok(claimedLoan));
+        vi.mocked(mockReturnClaimRepository.create).mockResolvedValue({
+          ...openClaim,
+          claimedBy: librarianId,
+        });
+
+        // Act
+        const result = await loanService.claimReturned(testLoanId, { claimedBy: librarianId });
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        expect(mockReturnClaimRepository.create).toHaveBeenCalledWith({
+          loanId: testLoanId,
+          userId: testUserId,
+          claimedBy: librarianId,
+        });
+      });
+
+      it('未解決の返却申告が上限に達している場合はエラーを返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(testLoan));
+        vi.mocked(mockReturnClaimRepository.countOpenByUserId).mockResolvedValue(2);
+
+        // Act
+        const result = await loanService.claimReturned(testLoanId, {});
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error).toEqual({
+            type: 'CLAIM_LIMIT_EXCEEDED',
+            userId: testUserId,
+            limit: 2,
+            currentCount: 2,
+          });
+        }
+        expect(mockLoanRepository.updateStatus).not.toHaveBeenCalled();
+        expect(mockReturnClaimRepository.create).not.toHaveBeenCalled();
+      });
+
+      it('設定した上限で未解決の返却申告数を制限する', async () => {
+        // Arrange
+        const service = createLoanService(
+          mockLoanRepository,
+          mockBookRepository,
+          mockUserRepository,
+          mockOverdueRecordRepository,
+          mockReservationRepository,
+          mockLoanPolicyRepository,
+          createPassthroughUnitOfWork(),
+          mockFineService,
+          mockReturnClaimRepository,
+          mockBookDropRepository,
+          mockCalendarService,
+          mockNotificationService,
+          eventBus,
+          mockReservationService,
+          { maxOpenClaims: 1 }
+        );
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(testLoan));
+        vi.mocked(mockReturnClaimRepository.countOpenByUserId).mockResolvedValue(1);
+
+        // Act
+        const result = await service.claimReturned(testLoanId, {});
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error.type).toBe('CLAIM_LIMIT_EXCEEDED');
+        }
+      });
+
+      it('既に返却申告中の貸出は申告できない', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(claimedLoan));
+
+        // Act
+        const result = await loanService.claimReturned(testLoanId, {});
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error).toEqual({
+            type: 'INVALID_LOAN_STATUS',
+            loanId: testLoanId,
+            status: 'CLAIMED_RETURNED',
+          });
+        }
+      });
+
+      it('存在しない申告者を指定した場合はエラーを返す', async () => {
+        // Arrange
+        const unknownId = createUserId('unknown-user');
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(testLoan));
+        vi.mocked(mockUserRepository.findById).mockResolvedValue(
+          err({ type: 'NOT_FOUND', id: unknownId })
+        );
+
+        // Act
+        const result = await loanService.claimReturned(testLoanId, { claimedBy: unknownId });
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error.type).toBe('USER_NOT_FOUND');
+        }
+        expect(mockReturnClaimRepository.create).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('recordClaimSearch', () => {
+      it('未解決の返却申告に館内捜索を記録する', async () => {
+        // Arrange
+        const searchedClaim: ReturnClaim = {
+          ...openClaim,
+          searchCount: 1,
+          lastSearchedAt: new Date(),
+        };
+        vi.mocked(mockReturnClaimRepository.findOpenByLoanId).mockResolvedValue(openClaim);
+        vi.mocked(mockReturnClaimRepository.recordSearch).mockResolvedValue(searchedClaim);
+
+        // Act
+        const result = await loanService.recordClaimSearch(testLoanId);
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.searchCount).toBe(1);
+        }
+        expect(mockReturnClaimRepository.recordSearch).toHaveBeenCalledWith(
+          openClaim.id,
+          expect.any(Date)
+        );
+      });
+
+      it('未解決の返却申告がない場合はエラーを返す', async () => {
+        // Act
+        const result = await loanService.recordClaimSearch(testLoanId);
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error).toEqual({ type: 'CLAIM_NOT_FOUND', loanId: testLoanId });
+        }
+      });
+    });
+
+    describe('resolveReturnClaim', () => {
+      beforeEach(() => {
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(claimedLoan));
+        vi.mocked(mockReturnClaimRepository.findOpenByLoanId).mockResolvedValue(openClaim);
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'AVAILABLE' })
+        );
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
+      });
+
+      it('館内で見つかった場合は申告日を返却日として返却処理する', async () => {
+        // Arrange
+        const returnedLoan: Loan = { ...testLoan, returnedAt: claimedAt, status: 'RETURNED' };
+        vi.mocked(mockLoanRepository.updateReturnedAt).mockResolvedValue(ok(returnedLoan));
+        vi.mocked(mockReturnClaimRepository.resolve).mockResolvedValue({
+          ...openClaim,
+          resolution: 'FOUND',
+          resolvedAt: new Date(),
+        });
+
+        // Act
+        const result = await loanService.resolveReturnClaim(testLoanId, 'FOUND');
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.loan.status).toBe('RETURNED');
+          expect(result.value.claim.resolution).toBe('FOUND');
+          expect(result.value.charge).toBeNull();
+        }
+        expect(mockLoanRepository.updateReturnedAt).toHaveBeenCalledWith(
+          testLoanId,
+          claimedAt,
+          expect.any(Date)
+        );
+        expect(mockBookRepository.updateCopy).toHaveBeenCalledWith(testCopyId, 'AVAILABLE');
+        expect(mockReturnClaimRepository.resolve).toHaveBeenCalledWith(
+          openClaim.id,
+          'FOUND',
+          expect.any(Date)
+        );
+      });
+
+      it('利用者が返却した場合も延滞は申告日時点で判定する', async () => {
+        // Arrange
+        // 期限 6/15、申告 6/12、実際の返却 6/30 → 申告日時点では延滞していない
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-06-30T10:00:00Z'));
+        vi.mocked(mockLoanRepository.updateReturnedAt).mockResolvedValue(
+          ok({ ...testLoan, returnedAt: new Date(), status: 'RETURNED' })
+        );
+        vi.mocked(mockReturnClaimRepository.resolve).mockResolvedValue({
+          ...openClaim,
+          resolution: 'RETURNED',
+          resolvedAt: new Date(),
+        });
+
+        // Act
+        const result = await loanService.resolveReturnClaim(testLoanId, 'RETURNED');
+
+        vi.useRealTimers();
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        expect(mockLoanRepository.updateReturnedAt).toHaveBeenCalledWith(
+          testLoanId,
+          new Date('2024-06-30T10:00:00Z'),
+          new Date('2024-06-30T10:00:00Z')
+        );
+        expect(mockOverdueRecordRepository.create).not.toHaveBeenCalled();
+        expect(mockFineService.assessOverdueFine).not.toHaveBeenCalled();
+      });
+
+      it('見つからなかった場合は紛失として処理し弁償金を請求する', async () => {
+        // Arrange
+        const charge: FineTransaction = {
+          id: createFineTransactionId('fine-201'),
+          userId: testUserId,
+          type: 'REPLACEMENT',
+          amount: 3000,
+          loanId: testLoanId,
+          reason: '紛失',
+          createdAt: new Date(),
+        };
+        vi.mocked(mockLoanRepository.updateStatus).mockResolvedValue(
+          ok({ ...testLoan, returnedAt: new Date(), status: 'LOST' })
+        );
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'LOST' })
+        );
+        vi.mocked(mockFineService.chargeReplacementCost).mockResolvedValue(ok(charge));
+        vi.mocked(mockReturnClaimRepository.resolve).mockResolvedValue({
+          ...openClaim,
+          resolution: 'LOST',
+          resolvedAt: new Date(),
+        });
+        const returned = vi.fn().mockResolvedValue(undefined);
+        eventBus.subscribe('LoanReturned', returned);
+
+        // Act
+        const result = await loanService.resolveReturnClaim(testLoanId, 'LOST');
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.loan.status).toBe('LOST');
+          expect(result.value.charge).toEqual(charge);
+        }
+        expect(mockBookRepository.updateCopy).toHaveBeenCalledWith(testCopyId, 'LOST');
+        expect(mockReturnClaimRepository.resolve).toHaveBeenCalledWith(
+          openClaim.id,
+          'LOST',
+          expect.any(Date)
+        );
+        expect(returned).not.toHaveBeenCalled();
+      });
+
+      it('返却申告中でない貸出はエラーを返す', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(testLoan));
+
+        // Act
+        const result = await loanService.resolveReturnClaim(testLoanId, 'FOUND');
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error.type).toBe('INVALID_LOAN_STATUS');
+        }
+        expect(mockReturnClaimRepository.resolve).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('返却申告中の貸出に対する他の処理', () => {
+      it('通常の返却処理で申告を返却として解決し、延滞は申告日時点で判定する', async () => {
+        // Arrange
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-06-30T10:00:00Z'));
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(claimedLoan));
+        vi.mocked(mockReturnClaimRepository.findOpenByLoanId).mockResolvedValue(openClaim);
+        vi.mocked(mockLoanRepository.updateReturnedAt).mockResolvedValue(
+          ok({ ...testLoan, returnedAt: new Date(), status: 'RETURNED' })
+        );
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'AVAILABLE' })
+        );
+
+        // Act
+        const result = await loanService.returnBook(testLoanId);
+
+        vi.useRealTimers();
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.isOverdue).toBe(false);
+        }
+        expect(mockReturnClaimRepository.resolve).toHaveBeenCalledWith(
+          openClaim.id,
+          'RETURNED',
+          expect.any(Date)
+        );
+      });
+
+      it('紛失処理で申告を紛失として解決する', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(claimedLoan));
+        vi.mocked(mockReturnClaimRepository.findOpenByLoanId).mockResolvedValue(openClaim);
+        vi.mocked(mockLoanRepository.updateStatus).mockResolvedValue(
+          ok({ ...testLoan, returnedAt: new Date(), status: 'LOST' })
+        );
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'LOST' })
+        );
+        vi.mocked(mockBookRepository.findCopyById).mockResolvedValue(ok(testBookCopy));
+        vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
+
+        // Act
+        const result = await loanService.markLost(testLoanId);
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        expect(mockReturnClaimRepository.resolve).toHaveBeenCalledWith(
+          openClaim.id,
+          'LOST',
+          expect.any(Date)
+        );
+      });
+
+      it('返却申告中の貸出は延長できない', async () => {
+        // Arrange
+        vi.mocked(mockLoanRepository.findById).mockResolvedValue(ok(claimedLoan));
+
+        // Act
+        const result = await loanService.renewLoan(testLoanId);
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error.type).toBe('INVALID_LOAN_STATUS');
+        }
+        expect(mockLoanRepository.renew).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('一括貸出・一括返却', () => {
+    const secondCopyId = createCopyId('copy-457');
+    const unavailableCopyId = createCopyId('copy-458');
+
+    /** 作業単位の実行回数を数えるUnitOfWork */
+    function createCountingUnitOfWork(): UnitOfWork & {
+      runCount: () => number;
+      nestedRunCount: () => number;
+    } {
+      let count = 0;
+      let nestedCount = 0;
+      let depth = 0;
+      const unitOfWork: UnitOfWork = {
+        run: async (work) => {
+          if (depth > 0) {
+            nestedCount += 1;
+          } else {
+            count += 1;
+          }
+          depth += 1;
+          try {
+            return await work();
+          } finally {
+            depth -= 1;
+          }
+        },
+      };
+      return { ...unitOfWork, runCount: () => count, nestedRunCount: () => nestedCount };
+    }
+
+    function createServiceWith(unitOfWork: UnitOfWork): LoanService {
+      return createLoanService(
+        mockLoanRepository,
+        mockBookRepository,
+        mockUserRepository,
+        mockOverdueRecordRepository,
+        mockReservationRepository,
+        mockLoanPolicyRepository,
+        unitOfWork,
+        mockFineService,
+        mockReturnClaimRepository,
+        mockBookDropRepository,
+        mockCalendarService,
+        mockNotificationService,
+        eventBus,
+        mockReservationService
+      );
+    }
+
+    beforeEach(() => {
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(ok(testUser));
+      vi.mocked(mockBookRepository.findById).mockResolvedValue(ok(testBook));
+      vi.mocked(mockLoanRepository.countActiveLoans).mockResolvedValue(0);
+      vi.mocked(mockBookRepository.findCopyById).mockImplementation((copyId) =>
+        Promise.resolve(
+          ok({
+            ...testBookCopy,
+            id: copyId,
+            status: copyId === unavailableCopyId ? ('BORROWED' as const) : ('AVAILABLE' as const),
+          })
+        )
+      );
+      vi.mocked(mockLoanRepository.create).mockImplementation((input: CreateLoanInput) =>
+        Promise.resolve(ok({ ...testLoan, bookCopyId: input.bookCopyId }))
+      );
+      vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+        ok({ ...testBookCopy, status: 'BORROWED' })
+      );
+    });
+
+    describe('checkoutBatch', () => {
+      describe('正常系', () => {
+        it('ALL_OR_NOTHINGで全項目を1つの作業単位で貸し出す', async () => {
+          // Arrange
+          const unitOfWork = createCountingUnitOfWork();
+          const service = createServiceWith(unitOfWork);
+
+          // Act
+          const result = await service.checkoutBatch({
+            userId: testUserId,
+            bookCopyIds: [testCopyId, secondCopyId],
+            mode: 'ALL_OR_NOTHING',
+          });
+
+          // Assert
+          expect(isOk(result)).toBe(true);
+          if (isOk(result)) {
+            expect(result.value.committed).toBe(true);
+            expect(result.value.userName).toBe('山田太郎');
+            expect(result.value.succeededCount).toBe(2);
+            expect(result.value.items.map((item) => item.status)).toEqual([
+              'SUCCEEDED',
+              'SUCCEEDED',
+            ]);
+            expect(result.value.items[1]!.loan!.bookCopyId).toBe(secondCopyId);
+            expect(result.value.items[0]!.bookTitle).toBe('吾輩は猫である');
+          }
+          expect(unitOfWork.runCount()).toBe(1);
+          // 項目ごとの入れ子の作業単位（失敗した項目の処理だけを取り消すため）
+          expect(unitOfWork.nestedRunCount()).toBe(2);
+        });
+
+        it('PARTIALでは失敗した項目以外を確定する', async () => {
+          // Arrange
+          const unitOfWork = createCountingUnitOfWork();
+          const service = createServiceWith(unitOfWork);
+
+          // Act
+          const result = await service.checkoutBatch({
+            userId: testUserId,
+            bookCopyIds: [testCopyId, unavailableCopyId, secondCopyId],
+            mode: 'PARTIAL',
+          });
+
+          // Assert
+          expect(isOk(result)).toBe(true);
+          if (isOk(result)) {
+            expect(result.value.committed).toBe(true);
+            expect(result.value.items.map((item) => item.status)).toEqual([
+              'SUCCEEDED',
+              'FAILED',
+              'SUCCEEDED',
+            ]);
+            expect(result.value.items[1]!.error).toEqual({
+              type: 'BOOK_NOT_AVAILABLE',
+              copyId: unavailableCopyId,
+            });
+            expect(result.value.succeededCount).toBe(2);
+            expect(result.value.failedCount).toBe(1);
+          }
+          expect(unitOfWork.runCount()).toBe(3);
+          expect(unitOfWork.nestedRunCount()).toBe(0);
+        });
+      });
+
+      describe('異常系', () => {
+        it('ALL_OR_NOTHINGで1件でも失敗した場合は全項目を取り消す', async () => {
+          // Act
+          const result = await loanService.checkoutBatch({
+            userId: testUserId,
+            bookCopyIds: [testCopyId, unavailableCopyId],
+            mode: 'ALL_OR_NOTHING',
+          });
+
+          // Assert
+          expect(isOk(result)).toBe(true);
+          if (isOk(result)) {
+            expect(result.value.committed).toBe(false);
+            expect(result.value.items[0]).toMatchObject({ status: 'ROLLED_BACK', loan: null });
+            expect(result.value.items[1]).toMatchObject({ status: 'FAILED', loan: null });
+            expect(result.value.succeededCount).toBe(0);
+            expect(result.value.failedCount).toBe(1);
+          }
+        });
+
+        it('ALL_OR_NOTHINGでバッチ全体が貸出上限を超える場合は貸出を行わない', async () => {
+          // Arrange（上限5冊・貸出中4冊に2冊を追加）
+          vi.mocked(mockLoanRepository.countActiveLoans).mockResolvedValue(4);
+
+          // Act
+          const result = await loanService.checkoutBatch({
+            userId: testUserId,
+            bookCopyIds: [testCopyId, secondCopyId],
+            mode: 'ALL_OR_NOTHING',
+          });
+
+          // Assert
+          expect(isErr(result)).toBe(true);
+          if (isErr(result)) {
+            expect(result.error).toEqual({
+              type: 'LOAN_LIMIT_EXCEEDED',
+              userId: testUserId,
+              limit: 5,
+              currentCount: 4,
+            });
+          }
+          expect(mockLoanRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('未払いの延滞料金が閾値以上の場合は貸出を行わない', async () => {
+          // Arrange
+          vi.mocked(mockFineService.checkBorrowingEligibility).mockResolvedValue(
+            err({
+              type: 'BALANCE_THRESHOLD_EXCEEDED',
+              userId: testUserId,
+              balance: 1000,
+              threshold: 500,
+            })
+          );
+
+          // Act
+          const result = await loanService.checkoutBatch({
+            userId: testUserId,
+            bookCopyIds: [testCopyId],
+            mode: 'PARTIAL',
+          });
+
+          // Assert
+          expect(isErr(result)).toBe(true);
+          if (isErr(result)) {
+            expect(result.error.type).toBe('FINES_OUTSTANDING');
+          }
+          expect(mockLoanRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('蔵書コピーIDが重複している場合はVALIDATION_ERRORを返す', async () => {
+          // Act
+          const result = await loanService.checkoutBatch({
+            userId: testUserId,
+            bookCopyIds: [testCopyId, testCopyId],
+            mode: 'PARTIAL',
+          });
+
+          // Assert
+          expect(isErr(result)).toBe(true);
+          if (isErr(result)) {
+            expect(result.error).toMatchObject({ type: 'VALIDATION_ERROR', field: 'bookCopyIds' });
+          }
+        });
+
+        it('蔵書コピーIDが空の場合はVALIDATION_ERRORを返す', async () => {
+          // Act
+          const result = await loanService.checkoutBatch({
+            userId: testUserId,
+            bookCopyIds: [],
+            mode: 'ALL_OR_NOTHING',
+          });
+
+          // Assert
+          expect(isErr(result)).toBe(true);
+          expect(mockUserRepository.findById).not.toHaveBeenCalled();
+        });
+
+        it('存在しない利用者の場合はUSER_NOT_FOUNDを返す', async () => {
+          // Arrange
+          vi.mocked(mockUserRepository.findById).mockResolvedValue(
+            err({ type: 'NOT_FOUND', id: testUserId })
+          );
+
+          // Act
+          const result = await loanService.checkoutBatch({
+            userId: testUserId,
+            bookCopyIds: [testCopyId],
+            mode: 'ALL_OR_NOTHING',
+          });
+
+          // Assert
+          expect(isErr(result)).toBe(true);
+          if (isErr(result)) {
+            expect(result.error.type).toBe('USER_NOT_FOUND');
+          }
+        });
+      });
+    });
+
+    describe('returnBatch', () => {
+      beforeEach(() => {
+        const dueDate = new Date();
+        dueDate.setDate(dueDate.getDate() + 7);
+        const loansByCopyId = new Map<string, Loan>([
+          [testCopyId, { ...testLoan, dueDate }],
+          [
+            secondCopyId,
+            { ...testLoan, id: createLoanId('loan-790'), bookCopyId: secondCopyId, dueDate },
+          ],
+        ]);
+        vi.mocked(mockLoanRepository.findActiveByCopyId).mockImplementation((copyId) =>
+          Promise.resolve(loansByCopyId.get(copyId) ?? null)
+        );
+        vi.mocked(mockLoanRepository.findById).mockImplementation((loanId) => {
+          const loan = [...loansByCopyId.values()].find((candidate) => candidate.id === loanId);
+          return Promise.resolve(loan ? ok(loan) : err({ type: 'LOAN_NOT_FOUND', loanId }));
+        });
+        vi.mocked(mockLoanRepository.updateReturnedAt).mockImplementation((loanId, returnedAt) => {
+          const loan = [...loansByCopyId.values()].find((candidate) => candidate.id === loanId)!;
+          return Promise.resolve(ok({ ...loan, returnedAt, status: 'RETURNED' as const }));
+        });
+        vi.mocked(mockBookRepository.updateCopy).mockResolvedValue(
+          ok({ ...testBookCopy, status: 'AVAILABLE' })
+        );
+      });
+
+      it('正常系: 蔵書コピーIDから貸出を特定して返却する', async () => {
+        // Act
+        const result = await loanService.returnBatch({
+          bookCopyIds: [testCopyId, secondCopyId],
+          mode: 'ALL_OR_NOTHING',
+        });
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.committed).toBe(true);
+          expect(result.value.succeededCount).toBe(2);
+          expect(result.value.overdueCount).toBe(0);
+          expect(result.value.items[1]!.result!.loan.id).toBe('loan-790');
+        }
+        expect(mockBookRepository.updateCopy).toHaveBeenCalledWith(secondCopyId, 'AVAILABLE');
+      });
+
+      it('正常系: PARTIALでは貸出中でないコピーのみ失敗とする', async () => {
+        // Act
+        const result = await loanService.returnBatch({
+          bookCopyIds: [testCopyId, unavailableCopyId],
+          mode: 'PARTIAL',
+        });
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.committed).toBe(true);
+          expect(result.value.items[0]!.status).toBe('SUCCEEDED');
+          expect(result.value.items[1]).toMatchObject({
+            status: 'FAILED',
+            error: { type: 'COPY_NOT_ON_LOAN', copyId: unavailableCopyId },
+          });
+        }
+      });
+
+      it('異常系: ALL_OR_NOTHINGで貸出中でないコピーを含む場合は全項目を取り消す', async () => {
+        // Act
+        const result = await loanService.returnBatch({
+          bookCopyIds: [testCopyId, unavailableCopyId],
+          mode: 'ALL_OR_NOTHING',
+        });
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.committed).toBe(false);
+          expect(result.value.items[0]).toMatchObject({ status: 'ROLLED_BACK', result: null });
+          expect(result.value.succeededCount).toBe(0);
+        }
+      });
+    });
+  });
+
+  describe('返却ポストモードの切り替え', () => {
+    it('返却ポストモードを有効にできる', async () => {
+      // Arrange
+      const mode = { enabled: true, updatedAt: new Date() };
+      vi.mocked(mockBookDropRepository.setMode).mockResolvedValue(mode);
+
+      // Act
+      const result = await loanService.setBookDropMode(true);
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toEqual(mode);
+      }
+      expect(mockBookDropRepository.setMode).toHaveBeenCalledWith(true);
+    });
+
+    it('現在の返却ポストモードを取得できる', async () => {
+      // Act
+      const result = await loanService.getBookDropMode();
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.enabled).toBe(false);
+      }
     });
   });
 });
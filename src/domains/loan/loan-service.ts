@@ -1,15 +1,30 @@
 /**
  * LoanService - 貸出管理サービス
  *
- * 貸出の作成・返却処理を提供します。
+ * 貸出の作成・返却処理（返却ポストの遡及返却を含む）、リコール、紛失・破損処理、返却申告の処理を提供します。
+ * 返却された蔵書コピーは同じ作業単位内で予約待ちの取り置きに確保し、
+ * 貸出・返却の完了はドメインイベント（LoanCreated / LoanReturned）として発行します。
+ * 予約の登録（ReservationPlaced）を購読して自動リコールを行います。
  */
 
 import type { Result } from '../../shared/result.js';
-import { ok, err, isErr } from '../../shared/result.js';
-import type { CopyId, LoanId } from '../../shared/branded-types.js';
+import { ok, err, isOk, isErr } from '../../shared/result.js';
+import type { BookId, CopyId, LoanId, ServicePointId, UserId } from '../../shared/branded-types.js';
+import type { UnitOfWork } from '../../shared/unit-of-work.js';
+import type { EventBus } from '../../shared/domain-events.js';
 import type { LoanRepository } from './loan-repository.js';
 import type { BookRepository } from '../book/book-repository.js';
 import type { UserRepository } from '../user/user-repository.js';
+import type { ReservationRepository } from '../reservation/reservation-repository.js';
+import type { ReservationService } from '../reservation/reservation-service.js';
+import type { FineService } from '../fine/fine-service.js';
+import type { CalendarService } from '../calendar/calendar-service.js';
+import type { NotificationService } from '../notification/notification-service.js';
+import { nextOpenDay, previousOpenDay, countOpenDays } from '../calendar/calendar-service.js';
+import type { OpeningCalendar } from '../calendar/types.js';
+import { ALWAYS_OPEN_CALENDAR } from '../calendar/types.js';
+import type { Book } from '../book/types.js';
+import type { User } from '../user/types.js';
 import type {
   Loan,
   CreateLoanInput,
@@ -17,10 +32,39 @@ import type {
   LoanReceipt,
   CopyLoanStatus,
   ReturnResult,
+  LossResult,
+  LossReversalResult,
   CreateOverdueRecordInput,
+  AppliedLoanPolicy,
+  ReturnClaim,
+  ClaimReturnedInput,
+  ReturnClaimResolution,
+  ReturnClaimResolutionResult,
+  ReturnClaimConfig,
+  ReturnBookInput,
+  BookDropMode,
+  BatchMode,
+  BatchCheckoutInput,
+  BatchCheckoutItem,
+  BatchCheckoutReceipt,
+  BatchItemStatus,
+  BatchReturnInput,
+  BatchReturnItem,
+  BatchReturnReceipt,
+  RecallResult,
+  RecallConfig,
+} from './types.js';
+import {
+  DEFAULT_LOAN_POLICY,
+  DEFAULT_RETURN_CLAIM_CONFIG,
+  DEFAULT_RECALL_CONFIG,
+  MAX_BATCH_SIZE,
 } from './types.js';
-import { DEFAULT_LOAN_DURATION_DAYS } from './types.js';
 import type { OverdueRecordRepository } from './overdue-record-repository.js';
+import type { ReturnClaimRepository } from './return-claim-repository.js';
+import type { BookDropRepository } from './book-drop-repository.js';
+import type { LoanPolicyRepository } from './loan-policy-repository.js';
+import { selectLoanPolicy, toAppliedLoanPolicy } from './loan-policy-service.js';
 
 // ============================================
 // サービスインターフェース
@@ -67,10 +111,149 @@ export interface LoanService {
 
   /**
    * 書籍を返却
+   * 実効返却日時の指定がない場合、返却ポストモード中は最終開館日に返却されたものとして処理する
    * @param loanId - 貸出ID
+   * @param input - 返却入力（実効返却日時、返却を受け付けたサービスポイント）
    * @returns 返却結果（延滞情報を含む）またはエラー
    */
-  returnBook(loanId: LoanId): Promise<Result<ReturnResult, LoanError>>;
+  returnBook(loanId: LoanId, input?: ReturnBookInput): Promise<Result<ReturnResult, LoanError>>;
+
+  /**
+   * 複数の蔵書コピーを1人の利用者にまとめて貸し出す
+   * - 貸出上限・延滞料金はバッチ全体で判定する
+   * - ALL_OR_NOTHING: 1件でも失敗した場合はすべて取り消す
+   * - PARTIAL: 成功した項目のみ確定する
+   * @param input - 一括貸出入力（userId, bookCopyIds, mode）
+   * @returns 項目ごとの結果を含むレシートまたはエラー
+   */
+  checkoutBatch(input: BatchCheckoutInput): Promise<Result<BatchCheckoutReceipt, LoanError>>;
+
+  /**
+   * 複数の蔵書コピーをまとめて返却する（各コピーの貸出中の貸出を返却）
+   * @param input - 一括返却入力（bookCopyIds, mode, servicePointId）
+   * @returns 項目ごとの結果を含むレシートまたはエラー
+   */
+  returnBatch(input: BatchReturnInput): Promise<Result<BatchReturnReceipt, LoanError>>;
+
+  /**
+   * 返却ポストモードを取得
+   * @returns 返却ポストモード
+   */
+  getBookDropMode(): Promise<Result<BookDropMode, never>>;
+
+  /**
+   * 返却ポストモードを切り替え
+   * @param enabled - 有効にする場合はtrue
+   * @returns 更新後の返却ポストモード
+   */
+  setBookDropMode(enabled: boolean): Promise<Result<BookDropMode, never>>;
+
+  /**
+   * 貸出を延長
+   * 他の利用者の予約待ちがある場合、延滞中の場合、延長上限に達している場合は延長不可
+   * @param loanId - 貸出ID
+   * @returns 延長後の貸出またはエラー
+   */
+  renewLoan(loanId: LoanId): Promise<Result<Loan, LoanError>>;
+
+  /**
+   * 貸出をリコールする
+   * 返却期限を最低貸出保証期間を下回らない範囲で短縮し、利用者に通知する。
+   * リコールされた貸出は延長できず、延滞時はリコール用のレートで延滞料金を請求する
+   * @param loanId - 貸出ID
+   * @returns リコール結果またはエラー
+   */
+  recallLoan(loanId: LoanId): Promise<Result<RecallResult, LoanError>>;
+
+  /**
+   * 予約の登録を契機に、書籍の貸出中のコピーを1件リコールする
+   * 自動リコールが無効な場合や、返却期限を短縮できる貸出がない場合は何もしない
+   * @param bookId - 予約された書籍ID
+   * @param requesterId - 予約した利用者ID（本人の貸出はリコールしない）
+   * @returns リコール結果（リコールしなかった場合はnull）
+   */
+  recallForReservation(
+    bookId: BookId,
+    requesterId: UserId
+  ): Promise<Result<RecallResult | null, never>>;
+
+  /**
+   * 貸出中の資料を紛失として処理
+   * 貸出を終了し、蔵書コピーを貸出対象から除外して利用者に弁償金を請求する
+   * @param loanId - 貸出ID
+   * @returns 紛失処理結果またはエラー
+   */
+  markLost(loanId: LoanId): Promise<Result<LossResult, LoanError>>;
+
+  /**
+   * 返却済みの資料を破損として処理
+   * 蔵書コピーを貸出対象から除外して利用者に弁償金を請求する
+   * @param loanId - 貸出ID
+   * @returns 破損処理結果またはエラー
+   */
+  markDamaged(loanId: LoanId): Promise<Result<LossResult, LoanError>>;
+
+  /**
+   * 紛失・破損処理を取り消す（資料が見つかった・修復できた場合）
+   * 弁償金を免除・返金し、蔵書コピーを貸出可能に戻す
+   * @param loanId - 貸出ID
+   * @returns 取消結果またはエラー
+   */
+  reinstateLostOrDamaged(loanId: LoanId): Promise<Result<LossReversalResult, LoanError>>;
+
+  /**
+   * 利用者の返却済み申告を受け付ける
+   * 貸出を返却申告中にして延滞の計上を停止する（利用者ごとの未解決申告数に上限あり）
+   * @param loanId - 貸出ID
+   * @param input - 返却申告入力（申告者）
+   * @returns 作成された返却申告またはエラー
+   */
+  claimReturned(loanId: LoanId, input: ClaimReturnedInput): Promise<Result<ReturnClaim, LoanError>>;
+
+  /**
+   * 返却申告に対する館内捜索の実施を記録
+   * @param loanId - 貸出ID
+   * @returns 更新された返却申告またはエラー
+   */
+  recordClaimSearch(loanId: LoanId): Promise<Result<ReturnClaim, LoanError>>;
+
+  /**
+   * 返却申告を解決する
+   * - FOUND: 申告日に返却されたものとして返却処理
+   * - RETURNED: 現在日時で返却処理（延滞は申告日時点で判定）
+   * - LOST: 紛失として処理し弁償金を請求
+   * @param loanId - 貸出ID
+   * @param resolution - 解決結果
+   * @returns 解決結果またはエラー
+   */
+  resolveReturnClaim(
+    loanId: LoanId,
+    resolution: ReturnClaimResolution
+  ): Promise<Result<ReturnClaimResolutionResult, LoanError>>;
+}
+
+// ============================================
+// 内部型定義
+// ============================================
+
+/** 貸出処理結果 */
+interface CheckoutResult {
+  readonly loan: Loan;
+  readonly book: Book;
+  readonly user: User;
+  readonly policy: AppliedLoanPolicy;
+}
+
+/** 一括処理の項目ごとの処理結果 */
+interface BatchOutcome<T> {
+  readonly copyId: CopyId;
+  readonly result: Result<T, LoanError>;
+}
+
+/** 一括処理の実行結果 */
+interface BatchRun<T> {
+  readonly committed: boolean;
+  readonly outcomes: readonly BatchOutcome<T>[];
 }
 
 // ============================================
@@ -80,157 +263,1013 @@ export interface LoanService {
 /** LoanService 実装を作成 */
 export function createLoanService(
   loanRepository: LoanRepository,
-  bookRepository: Pick<BookRepository, 'findCopyById' | 'updateCopy' | 'findById'>,
+  bookRepository: Pick<
+    BookRepository,
+    'findCopyById' | 'updateCopy' | 'findById' | 'findCopiesByBookId'
+  >,
   userRepository: Pick<UserRepository, 'findById'>,
-  overdueRecordRepository: OverdueRecordRepository
+  overdueRecordRepository: OverdueRecordRepository,
+  reservationRepository: Pick<ReservationRepository, 'findActiveByBookId' | 'findHoldByCopyId'>,
+  loanPolicyRepository: Pick<LoanPolicyRepository, 'findById' | 'findApplicable'>,
+  unitOfWork: UnitOfWork,
+  fineService: Pick<
+    FineService,
+    | 'checkBorrowingEligibility'
+    | 'assessOverdueFine'
+    | 'chargeReplacementCost'
+    | 'reverseReplacementCharge'
+  >,
+  returnClaimRepository: ReturnClaimRepository,
+  bookDropRepository: BookDropRepository,
+  calendarService: Pick<CalendarService, 'getOpeningCalendar'>,
+  notificationService: Pick<NotificationService, 'sendLoanRecalled'>,
+  eventBus: EventBus,
+  reservationService: Pick<ReservationService, 'allocateReturnedCopy'>,
+  claimConfig: ReturnClaimConfig = DEFAULT_RETURN_CLAIM_CONFIG,
+  recallConfig: RecallConfig = DEFAULT_RECALL_CONFIG
 ): LoanService {
-  return {
-    async createLoan(input: CreateLoanInput): Promise<Result<Loan, LoanError>> {
-      const { userId, bookCopyId } = input;
+  /**
+   * 書籍カテゴリ・利用者区分から適用する貸出ポリシーを解決
+   */
+  async function resolvePolicy(book: Book, user: User): Promise<AppliedLoanPolicy> {
+    const candidates = await loanPolicyRepository.findApplicable(
+      book.category,
+      user.patronCategory
+    );
+    return toAppliedLoanPolicy(selectLoanPolicy(candidates, book.category, user.patronCategory));
+  }
 
-      // 1. 利用者の存在確認
-      const userResult = await userRepository.findById(userId);
-      if (isErr(userResult)) {
+  /**
+   * 開館カレンダーを取得
+   */
+  async function loadCalendar(): Promise<OpeningCalendar> {
+    const calendarResult = await calendarService.getOpeningCalendar();
+    return isOk(calendarResult) ? calendarResult.value : ALWAYS_OPEN_CALENDAR;
+  }
+
+  /**
+   * 今日からの日数で返却期限を計算（休館日の場合は次の開館日に繰り延べる）
+   */
+  async function calculateDueDate(from: Date, loanDurationDays: number): Promise<Date> {
+    const dueDate = new Date(from);
+    dueDate.setDate(dueDate.getDate() + loanDurationDays);
+    return nextOpenDay(await loadCalendar(), dueDate);
+  }
+
+  /**
+   * 貸出時に適用された貸出ポリシーを取得（削除済みの場合はデフォルトポリシー）
+   */
+  async function getLoanPolicy(loan: Loan): Promise<AppliedLoanPolicy> {
+    if (loan.loanPolicyId === null) {
+      return DEFAULT_LOAN_POLICY;
+    }
+
+    const policyResult = await loanPolicyRepository.findById(loan.loanPolicyId);
+    if (isErr(policyResult)) {
+      return DEFAULT_LOAN_POLICY;
+    }
+    return toAppliedLoanPolicy(policyResult.value);
+  }
+
+  /**
+   * 貸出処理（チェック、貸出記録の作成、蔵書状態の更新）
+   * 作業単位内で実行し、途中で失敗した場合はロールバックする
+   */
+  async function checkout(input: CreateLoanInput): Promise<Result<CheckoutResult, LoanError>> {
+    const result = await unitOfWork.run(() => checkoutInUnitOfWork(input));
+    if (isOk(result)) {
+      await publishLoanCreated(result.value.loan, result.value.book.id);
+    }
+    return result;
+  }
+
+  async function checkoutInUnitOfWork(
+    input: CreateLoanInput
+  ): Promise<Result<CheckoutResult, LoanError>> {
+    const { userId, bookCopyId } = input;
+
+    // 1. 利用者の存在確認
+    const userResult = await userRepository.findById(userId);
+    if (isErr(userResult)) {
+      return err({
+        type: 'USER_NOT_FOUND',
+        userId: userId,
+      });
+    }
+    const user = userResult.value;
+
+    // 2. 未払いの延滞料金が閾値以上の利用者は貸出不可
+    const eligibilityResult = await fineService.checkBorrowingEligibility(userId);
+    if (isErr(eligibilityResult)) {
+      return err({
+        type: 'FINES_OUTSTANDING',
+        userId: userId,
+        balance: eligibilityResult.error.balance,
+        threshold: eligibilityResult.error.threshold,
+      });
+    }
+
+    // 3. 利用者の貸出上限チェック
+    const activeLoansCount = await loanRepository.countActiveLoans(userId);
+    if (activeLoansCount >= user.loanLimit) {
+      return err({
+        type: 'LOAN_LIMIT_EXCEEDED',
+        userId: userId,
+        limit: user.loanLimit,
+        currentCount: activeLoansCount,
+      });
+    }
+
+    // 4. 蔵書コピーの存在確認
+    const copyResult = await bookRepository.findCopyById(bookCopyId);
+    if (isErr(copyResult)) {
+      return err({
+        type: 'COPY_NOT_FOUND',
+        copyId: bookCopyId,
+      });
+    }
+    const copy = copyResult.value;
+
+    // 5. 蔵書コピーの状態チェック（AVAILABLEのみ貸出可能。取り置き中のコピーは予約者本人のみ）
+    if (copy.status === 'RESERVED') {
+      const hold = await reservationRepository.findHoldByCopyId(bookCopyId);
+      if (hold === null) {
         return err({
-          type: 'USER_NOT_FOUND',
-          userId: userId,
+          type: 'BOOK_NOT_AVAILABLE',
+          copyId: bookCopyId,
         });
       }
-      const user = userResult.value;
-
-      // 2. 利用者の貸出上限チェック
-      const activeLoansCount = await loanRepository.countActiveLoans(userId);
-      if (activeLoansCount >= user.loanLimit) {
+      if (hold.userId !== userId) {
         return err({
-          type: 'LOAN_LIMIT_EXCEEDED',
-          userId: userId,
-          limit: user.loanLimit,
-          currentCount: activeLoansCount,
+          type: 'COPY_ON_HOLD',
+          copyId: bookCopyId,
         });
       }
+    } else if (copy.status !== 'AVAILABLE') {
+      return err({
+        type: 'BOOK_NOT_AVAILABLE',
+        copyId: bookCopyId,
+      });
+    }
 
-      // 3. 蔵書コピーの存在確認
-      const copyResult = await bookRepository.findCopyById(bookCopyId);
-      if (isErr(copyResult)) {
+    // 6. 書籍マスタを取得（ポリシー解決・レシート用）
+    const bookResult = await bookRepository.findById(copy.bookId);
+    if (isErr(bookResult)) {
+      return err({
+        type: 'VALIDATION_ERROR',
+        field: 'book',
+        message: '書籍情報の取得に失敗しました',
+      });
+    }
+    const book = bookResult.value;
+
+    // 7. 貸出ポリシーを解決し、カテゴリ別の貸出上限をチェック
+    const policy = await resolvePolicy(book, user);
+    if (policy.maxItems !== null && book.category !== null) {
+      const categoryLoansCount = await loanRepository.countActiveLoansByBookCategory(
+        userId,
+        book.category
+      );
+      if (categoryLoansCount >= policy.maxItems) {
         return err({
-          type: 'COPY_NOT_FOUND',
-          copyId: bookCopyId,
+          type: 'CATEGORY_LOAN_LIMIT_EXCEEDED',
+          userId: userId,
+          category: book.category,
+          limit: policy.maxItems,
+          currentCount: categoryLoansCount,
         });
       }
-      const copy = copyResult.value;
+    }
+
+    // 8. 返却期限を計算（今日 + ポリシーの貸出期間、休館日の場合は次の開館日）
+    const dueDate = await calculateDueDate(new Date(), policy.loanDurationDays);
+
+    // 9. 貸出記録の作成
+    const loanResult = await loanRepository.create(input, dueDate, policy.policyId);
+    if (isErr(loanResult)) {
+      return loanResult;
+    }
+
+    // 10. 蔵書コピーの状態を「BORROWED」に更新（失敗時は貸出記録もロールバック）
+    const updateResult = await bookRepository.updateCopy(bookCopyId, 'BORROWED');
+    if (isErr(updateResult)) {
+      return err({
+        type: 'VALIDATION_ERROR',
+        field: 'bookCopy',
+        message: '蔵書状態の更新に失敗しました',
+      });
+    }
+
+    return ok({ loan: loanResult.value, book, user, policy });
+  }
+
+  /**
+   * 貸出作成イベントを発行（作業単位のコミット後に呼び出すこと）
+   */
+  async function publishLoanCreated(loan: Loan, bookId: BookId): Promise<void> {
+    await eventBus.publish({
+      type: 'LoanCreated',
+      loanId: loan.id,
+      userId: loan.userId,
+      bookId,
+      copyId: loan.bookCopyId,
+      occurredAt: new Date(),
+    });
+  }
+
+  /**
+   * 返却イベントを発行（作業単位のコミット後に呼び出すこと）
+   * 蔵書コピーが書架に戻せる状態になった場合のみ呼び出す
+   * @param servicePointId - 返却を受け付けたサービスポイント（不明な場合はnull）
+   */
+  async function publishLoanReturned(
+    loan: Loan,
+    servicePointId: ServicePointId | null = null
+  ): Promise<void> {
+    const copyResult = await bookRepository.findCopyById(loan.bookCopyId);
+    if (isErr(copyResult)) {
+      return;
+    }
+
+    await eventBus.publish({
+      type: 'LoanReturned',
+      loanId: loan.id,
+      userId: loan.userId,
+      bookId: copyResult.value.bookId,
+      copyId: loan.bookCopyId,
+      servicePointId,
+      occurredAt: new Date(),
+    });
+  }
+
+  /**
+   * 蔵書コピーの書籍マスタを取得（取得できない場合はnull）
+   */
+  async function findBook(copyId: CopyId): Promise<Book | null> {
+    const copyResult = await bookRepository.findCopyById(copyId);
+    if (isErr(copyResult)) {
+      return null;
+    }
+
+    const bookResult = await bookRepository.findById(copyResult.value.bookId);
+    return isErr(bookResult) ? null : bookResult.value;
+  }
+
+  /**
+   * 蔵書コピーを書架に戻し、予約待ちがあれば取り置きに確保する
+   * 返却と同じ作業単位内で確保し、コミット前に他の利用者へ貸し出されないようにする
+   * 作業単位内で呼び出すこと
+   * @param servicePointId - 返却を受け付けたサービスポイント（不明な場合はnull）
+   */
+  async function shelveCopy(
+    copyId: CopyId,
+    servicePointId: ServicePointId | null
+  ): Promise<Result<void, LoanError>> {
+    const copyUpdateResult = await bookRepository.updateCopy(copyId, 'AVAILABLE');
+    if (isErr(copyUpdateResult)) {
+      return err({
+        type: 'VALIDATION_ERROR',
+        field: 'bookCopy',
+        message: '蔵書状態の更新に失敗しました',
+      });
+    }
+
+    await reservationService.allocateReturnedCopy(
+      copyUpdateResult.value.bookId,
+      copyId,
+      servicePointId
+    );
+    return ok(undefined);
+  }
+
+  /**
+   * 紛失・破損として貸出ステータスと蔵書状態を更新し、弁償金を請求する
+   * 作業単位内で呼び出すこと
+   */
+  async function recordLoss(
+    loan: Loan,
+    status: 'LOST' | 'DAMAGED',
+    returnedAt: Date
+  ): Promise<Result<LossResult, LoanError>> {
+    // 1. 貸出ステータスを更新
+    const updateResult = await loanRepository.updateStatus(loan.id, status, returnedAt);
+    if (isErr(updateResult)) {
+      return updateResult;
+    }
+
+    // 2. 蔵書コピーを貸出対象から除外
+    const copyUpdateResult = await bookRepository.updateCopy(loan.bookCopyId, status);
+    if (isErr(copyUpdateResult)) {
+      return err({
+        type: 'VALIDATION_ERROR',
+        field: 'bookCopy',
+        message: '蔵書状態の更新に失敗しました',
+      });
+    }
+
+    // 3. 書籍の弁償金額を請求
+    const book = await findBook(loan.bookCopyId);
+    const chargeResult = await fineService.chargeReplacementCost({
+      userId: loan.userId,
+      loanId: loan.id,
+      replacementCost: book?.replacementCost ?? null,
+      reason: status === 'LOST' ? '紛失' : '破損',
+    });
+    const charge = isOk(chargeResult) ? chargeResult.value : null;
+
+    return ok({ loan: updateResult.value, charge });
+  }
+
+  /**
+   * 紛失処理（貸出中の貸出のみ）
+   */
+  async function markLostInUnitOfWork(loanId: LoanId): Promise<Result<LossResult, LoanError>> {
+    const loanResult = await loanRepository.findById(loanId);
+    if (isErr(loanResult)) {
+      return loanResult;
+    }
+    const loan = loanResult.value;
+
+    if (loan.returnedAt !== null) {
+      return err({
+        type: 'ALREADY_RETURNED',
+        loanId: loanId,
+      });
+    }
+
+    const now = new Date();
+    const lossResult = await recordLoss(loan, 'LOST', now);
+    if (isErr(lossResult)) {
+      return lossResult;
+    }
+
+    // 返却申告中の場合は申告を紛失として解決
+    const claim = await findOpenClaim(loan);
+    if (claim !== null) {
+      await returnClaimRepository.resolve(claim.id, 'LOST', now);
+    }
+
+    return lossResult;
+  }
+
+  /**
+   * 破損処理（返却済みで、蔵書コピーが再度貸し出されていない貸出のみ）
+   */
+  async function markDamagedInUnitOfWork(loanId: LoanId): Promise<Result<LossResult, LoanError>> {
+    const loanResult = await loanRepository.findById(loanId);
+    if (isErr(loanResult)) {
+      return loanResult;
+    }
+    const loan = loanResult.value;
+
+    if (loan.status !== 'RETURNED' || loan.returnedAt === null) {
+      return err({
+        type: 'INVALID_LOAN_STATUS',
+        loanId: loanId,
+        status: loan.status,
+      });
+    }
 
-      // 4. 蔵書コピーの状態チェック（AVAILABLEのみ貸出可能）
-      if (copy.status !== 'AVAILABLE') {
+    const copyResult = await bookRepository.findCopyById(loan.bookCopyId);
+    if (isErr(copyResult)) {
+      return err({
+        type: 'COPY_NOT_FOUND',
+        copyId: loan.bookCopyId,
+      });
+    }
+    if (copyResult.value.status === 'BORROWED') {
+      return err({
+        type: 'BOOK_NOT_AVAILABLE',
+        copyId: loan.bookCopyId,
+      });
+    }
+
+    return recordLoss(loan, 'DAMAGED', loan.returnedAt);
+  }
+
+  /**
+   * 紛失・破損の取消処理
+   */
+  async function reinstateInUnitOfWork(
+    loanId: LoanId
+  ): Promise<Result<LossReversalResult, LoanError>> {
+    // 1. 貸出記録の取得（紛失・破損処理済みのみ取消可能）
+    const loanResult = await loanRepository.findById(loanId);
+    if (isErr(loanResult)) {
+      return loanResult;
+    }
+    const loan = loanResult.value;
+
+    if ((loan.status !== 'LOST' && loan.status !== 'DAMAGED') || loan.returnedAt === null) {
+      return err({
+        type: 'INVALID_LOAN_STATUS',
+        loanId: loanId,
+        status: loan.status,
+      });
+    }
+
+    // 2. 返却済みに戻す（紛失資料は発見日を返却日とする）
+    const returnedAt = loan.status === 'LOST' ? new Date() : loan.returnedAt;
+    const updateResult = await loanRepository.updateStatus(loanId, 'RETURNED', returnedAt);
+    if (isErr(updateResult)) {
+      return updateResult;
+    }
+
+    // 3. 蔵書コピーを貸出可能に戻す（予約待ちがあれば取り置きに確保）
+    const shelveResult = await shelveCopy(loan.bookCopyId, null);
+    if (isErr(shelveResult)) {
+      return shelveResult;
+    }
+
+    // 4. 弁償金を免除し、支払い済みの場合は返金
+    const reversalResult = await fineService.reverseReplacementCharge({
+      userId: loan.userId,
+      loanId: loanId,
+      reason: loan.status === 'LOST' ? '紛失の取消' : '破損の取消',
+    });
+    const reversal = isOk(reversalResult) ? reversalResult.value : { waiver: null, refund: null };
+
+    return ok({ loan: updateResult.value, ...reversal });
+  }
+
+  /**
+   * 返却申告中の貸出の未解決の申告を取得（返却申告中でなければnull）
+   */
+  async function findOpenClaim(loan: Loan): Promise<ReturnClaim | null> {
+    if (loan.status !== 'CLAIMED_RETURNED') {
+      return null;
+    }
+    return returnClaimRepository.findOpenByLoanId(loan.id);
+  }
+
+  /**
+   * 返却を記録し、蔵書状態の更新と延滞記録の作成を行う
+   * 延滞は overdueAsOf 時点で判定する（返却申告中の貸出は申告日時点）
+   * 作業単位内で呼び出すこと
+   * @param servicePointId - 返却を受け付けたサービスポイント（不明な場合はnull）
+   */
+  async function completeReturn(
+    loan: Loan,
+    returnedAt: Date,
+    overdueAsOf: Date,
+    servicePointId: ServicePointId | null
+  ): Promise<Result<ReturnResult, LoanError>> {
+    // 1. 返却日（実効返却日時）と処理日時を記録
+    const updateResult = await loanRepository.updateReturnedAt(loan.id, returnedAt, new Date());
+    if (isErr(updateResult)) {
+      return updateResult;
+    }
+
+    // 2. 蔵書コピーの状態を「AVAILABLE」に更新（予約待ちがあれば取り置きに確保）
+    const shelveResult = await shelveCopy(loan.bookCopyId, servicePointId);
+    if (isErr(shelveResult)) {
+      return shelveResult;
+    }
+
+    // 3. 延滞判定（休館日は延滞日数に含めず、ポリシーの猶予期間内の返却は延滞としない）
+    const policy = await getLoanPolicy(loan);
+    const overdueDays = countOpenDays(await loadCalendar(), loan.dueDate, overdueAsOf);
+    const isOverdue = overdueDays > policy.gracePeriodDays;
+
+    if (isOverdue) {
+      // 4. 延滞記録を作成（失敗時は返却処理全体をロールバック）
+      const overdueInput: CreateOverdueRecordInput = {
+        loanId: loan.id,
+        overdueDays: overdueDays,
+      };
+      const overdueRecordResult = await overdueRecordRepository.create(overdueInput);
+
+      if (isErr(overdueRecordResult)) {
         return err({
-          type: 'BOOK_NOT_AVAILABLE',
-          copyId: bookCopyId,
+          type: 'VALIDATION_ERROR',
+          field: 'overdueRecord',
+          message: '延滞記録の保存に失敗しました',
         });
       }
 
-      // 5. 返却期限を計算（今日 + DEFAULT_LOAN_DURATION_DAYS）
-      const today = new Date();
-      const dueDate = new Date(today);
-      dueDate.setDate(dueDate.getDate() + DEFAULT_LOAN_DURATION_DAYS);
+      // 5. 書籍カテゴリのレート（リコールされた貸出はリコール用のレート）で延滞料金を請求
+      const fineResult = await fineService.assessOverdueFine({
+        userId: loan.userId,
+        loanId: loan.id,
+        bookCategory: (await findBook(loan.bookCopyId))?.category ?? null,
+        overdueDays: overdueDays,
+        ...(loan.recalledAt !== null && { recalled: true }),
+      });
+      const fine = isOk(fineResult) ? fineResult.value : null;
 
-      // 6. 貸出記録の作成
-      const loanResult = await loanRepository.create(input, dueDate);
-      if (isErr(loanResult)) {
-        return loanResult;
-      }
+      return ok({
+        loan: updateResult.value,
+        isOverdue,
+        overdueDays,
+        overdueRecord: overdueRecordResult.value,
+        ...(fine !== null && { fine }),
+      });
+    }
+
+    return ok({
+      loan: updateResult.value,
+      isOverdue,
+    });
+  }
 
-      // 7. 蔵書コピーの状態を「BORROWED」に更新
-      const updateResult = await bookRepository.updateCopy(bookCopyId, 'BORROWED');
-      if (isErr(updateResult)) {
-        // 注意: トランザクション管理が必要（ここでは簡略化）
+  /**
+   * 最終開館日（処理日より前で最後の開館日）の開始時刻を取得
+   */
+  async function getLastOpenDay(now: Date): Promise<Date> {
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+    return previousOpenDay(await loadCalendar(), today);
+  }
+
+  /**
+   * 実効返却日時を決定
+   * 明示的な指定、返却ポストモード（最終開館日）、処理日時の順に優先する
+   */
+  async function resolveEffectiveReturnDate(
+    loan: Loan,
+    input: ReturnBookInput,
+    now: Date
+  ): Promise<Result<Date, LoanError>> {
+    const requested = input.effectiveReturnDate ?? null;
+    if (requested !== null) {
+      if (requested > now || requested < loan.borrowedAt) {
         return err({
           type: 'VALIDATION_ERROR',
-          field: 'bookCopy',
-          message: '蔵書状態の更新に失敗しました',
+          field: 'effectiveReturnDate',
+          message: '実効返却日時は貸出日時から現在までの範囲で指定してください',
         });
       }
+      return ok(requested);
+    }
+
+    const bookDropMode = await bookDropRepository.getMode();
+    if (!bookDropMode.enabled) {
+      return ok(now);
+    }
+
+    // 最終開館日が貸出日より前の場合は貸出日時を返却日時とする
+    const lastOpenDay = await getLastOpenDay(now);
+    return ok(lastOpenDay < loan.borrowedAt ? loan.borrowedAt : lastOpenDay);
+  }
 
+  /**
+   * 返却処理（返却日の記録、蔵書状態の更新、延滞記録の作成）
+   * 作業単位内で実行し、途中で失敗した場合はロールバックする
+   */
+  async function returnInUnitOfWork(
+    loanId: LoanId,
+    input: ReturnBookInput
+  ): Promise<Result<ReturnResult, LoanError>> {
+    // 1. 貸出記録の取得
+    const loanResult = await loanRepository.findById(loanId);
+    if (isErr(loanResult)) {
       return loanResult;
-    },
+    }
+    const loan = loanResult.value;
 
-    async createLoanWithReceipt(input: CreateLoanInput): Promise<Result<LoanReceipt, LoanError>> {
-      const { userId, bookCopyId } = input;
+    // 2. 既に返却済みかチェック
+    if (loan.returnedAt !== null) {
+      return err({
+        type: 'ALREADY_RETURNED',
+        loanId: loanId,
+      });
+    }
 
-      // 1. 利用者の存在確認
-      const userResult = await userRepository.findById(userId);
+    // 3. 実効返却日時を決定
+    const now = new Date();
+    const effectiveResult = await resolveEffectiveReturnDate(loan, input, now);
+    if (isErr(effectiveResult)) {
+      return effectiveResult;
+    }
+    const returnedAt = effectiveResult.value;
+
+    // 4. 返却処理（返却申告中の場合は申告日時点で延滞を判定）
+    const claim = await findOpenClaim(loan);
+    const overdueAsOf =
+      claim !== null && claim.claimedAt < returnedAt ? claim.claimedAt : returnedAt;
+    const returnResult = await completeReturn(
+      loan,
+      returnedAt,
+      overdueAsOf,
+      input.servicePointId ?? null
+    );
+    if (isErr(returnResult)) {
+      return returnResult;
+    }
+
+    // 5. 返却申告中の場合は申告を返却として解決
+    if (claim !== null) {
+      await returnClaimRepository.resolve(claim.id, 'RETURNED', now);
+    }
+
+    return returnResult;
+  }
+
+  /**
+   * 返却申告の受付処理
+   */
+  async function claimReturnedInUnitOfWork(
+    loanId: LoanId,
+    input: ClaimReturnedInput
+  ): Promise<Result<ReturnClaim, LoanError>> {
+    // 1. 貸出記録の取得（貸出中のみ申告可能）
+    const loanResult = await loanRepository.findById(loanId);
+    if (isErr(loanResult)) {
+      return loanResult;
+    }
+    const loan = loanResult.value;
+
+    if (loan.returnedAt !== null) {
+      return err({
+        type: 'ALREADY_RETURNED',
+        loanId: loanId,
+      });
+    }
+    if (loan.status !== 'ACTIVE') {
+      return err({
+        type: 'INVALID_LOAN_STATUS',
+        loanId: loanId,
+        status: loan.status,
+      });
+    }
+
+    // 2. 申告者の存在確認（省略時は利用者本人）
+    const claimedBy = input.claimedBy ?? loan.userId;
+    if (claimedBy !== loan.userId) {
+      const userResult = await userRepository.findById(claimedBy);
       if (isErr(userResult)) {
         return err({
           type: 'USER_NOT_FOUND',
-          userId: userId,
+          userId: claimedBy,
         });
       }
-      const user = userResult.value;
+    }
 
-      // 2. 利用者の貸出上限チェック
-      const activeLoansCount = await loanRepository.countActiveLoans(userId);
-      if (activeLoansCount >= user.loanLimit) {
-        return err({
-          type: 'LOAN_LIMIT_EXCEEDED',
-          userId: userId,
-          limit: user.loanLimit,
-          currentCount: activeLoansCount,
-        });
-      }
+    // 3. 未解決の返却申告数の上限チェック
+    const openClaimsCount = await returnClaimRepository.countOpenByUserId(loan.userId);
+    if (openClaimsCount >= claimConfig.maxOpenClaims) {
+      return err({
+        type: 'CLAIM_LIMIT_EXCEEDED',
+        userId: loan.userId,
+        limit: claimConfig.maxOpenClaims,
+        currentCount: openClaimsCount,
+      });
+    }
 
-      // 3. 蔵書コピーの存在確認
-      const copyResult = await bookRepository.findCopyById(bookCopyId);
-      if (isErr(copyResult)) {
-        return err({
-          type: 'COPY_NOT_FOUND',
-          copyId: bookCopyId,
-        });
+    // 4. 貸出を返却申告中にし、申告を記録
+    const updateResult = await loanRepository.updateStatus(loanId, 'CLAIMED_RETURNED', null);
+    if (isErr(updateResult)) {
+      return updateResult;
+    }
+
+    const claim = await returnClaimRepository.create({
+      loanId: loanId,
+      userId: loan.userId,
+      claimedBy: claimedBy,
+    });
+
+    return ok(claim);
+  }
+
+  /**
+   * 返却申告の解決処理
+   */
+  async function resolveClaimInUnitOfWork(
+    loanId: LoanId,
+    resolution: ReturnClaimResolution
+  ): Promise<Result<ReturnClaimResolutionResult, LoanError>> {
+    // 1. 貸出記録と未解決の返却申告の取得
+    const loanResult = await loanRepository.findById(loanId);
+    if (isErr(loanResult)) {
+      return loanResult;
+    }
+    const loan = loanResult.value;
+
+    if (loan.status !== 'CLAIMED_RETURNED') {
+      return err({
+        type: 'INVALID_LOAN_STATUS',
+        loanId: loanId,
+        status: loan.status,
+      });
+    }
+
+    const claim = await findOpenClaim(loan);
+    if (claim === null) {
+      return err({
+        type: 'CLAIM_NOT_FOUND',
+        loanId: loanId,
+      });
+    }
+
+    // 2. 解決結果に応じて貸出を終了
+    const now = new Date();
+    let resolvedLoan: Loan;
+    let charge: ReturnClaimResolutionResult['charge'];
+
+    if (resolution === 'LOST') {
+      const lossResult = await recordLoss(loan, 'LOST', now);
+      if (isErr(lossResult)) {
+        return lossResult;
+      }
+      resolvedLoan = lossResult.value.loan;
+      charge = lossResult.value.charge;
+    } else {
+      // 館内で見つかった場合は申告日を返却日とする
+      const returnedAt = resolution === 'FOUND' ? claim.claimedAt : now;
+      const returnResult = await completeReturn(loan, returnedAt, claim.claimedAt, null);
+      if (isErr(returnResult)) {
+        return returnResult;
       }
-      const copy = copyResult.value;
+      resolvedLoan = returnResult.value.loan;
+      charge = returnResult.value.fine ?? null;
+    }
 
-      // 4. 蔵書コピーの状態チェック（AVAILABLEのみ貸出可能）
-      if (copy.status !== 'AVAILABLE') {
-        return err({
-          type: 'BOOK_NOT_AVAILABLE',
-          copyId: bookCopyId,
-        });
+    // 3. 返却申告を解決済みにする
+    const resolvedClaim = await returnClaimRepository.resolve(claim.id, resolution, now);
+
+    return ok({ claim: resolvedClaim, loan: resolvedLoan, charge });
+  }
+
+  /**
+   * 延長処理（状態・延長回数・予約待ちのチェック、返却期限の更新）
+   * 貸出中でなくなった場合（同時に返却・リコールされた場合）は更新時にエラーとなる
+   */
+  async function renewInUnitOfWork(loanId: LoanId): Promise<Result<Loan, LoanError>> {
+    // 1. 貸出記録の取得
+    const loanResult = await loanRepository.findById(loanId);
+    if (isErr(loanResult)) {
+      return loanResult;
+    }
+    const loan = loanResult.value;
+
+    // 2. 既に返却済みかチェック
+    if (loan.returnedAt !== null) {
+      return err({
+        type: 'ALREADY_RETURNED',
+        loanId: loanId,
+      });
+    }
+
+    // 3. 返却申告中の貸出は延長不可
+    if (loan.status !== 'ACTIVE') {
+      return err({
+        type: 'INVALID_LOAN_STATUS',
+        loanId: loanId,
+        status: loan.status,
+      });
+    }
+
+    // 3-2. リコールされた貸出は延長不可
+    if (loan.recalledAt !== null) {
+      return err({
+        type: 'LOAN_RECALLED',
+        loanId: loanId,
+      });
+    }
+
+    // 4. 延滞中の貸出は延長不可
+    const now = new Date();
+    if (now > loan.dueDate) {
+      return err({
+        type: 'LOAN_OVERDUE',
+        loanId: loanId,
+        dueDate: loan.dueDate,
+      });
+    }
+
+    // 5. 延長回数の上限チェック（貸出時に適用されたポリシーに従う）
+    const policy = await getLoanPolicy(loan);
+    if (loan.renewalCount >= policy.maxRenewals) {
+      return err({
+        type: 'RENEWAL_LIMIT_EXCEEDED',
+        loanId: loanId,
+        limit: policy.maxRenewals,
+        renewalCount: loan.renewalCount,
+      });
+    }
+
+    // 6. 他の利用者の予約待ち（PENDING）がないかチェック
+    const copyResult = await bookRepository.findCopyById(loan.bookCopyId);
+    if (isErr(copyResult)) {
+      return err({
+        type: 'COPY_NOT_FOUND',
+        copyId: loan.bookCopyId,
+      });
+    }
+    const bookId = copyResult.value.bookId;
+
+    const reservations = await reservationRepository.findActiveByBookId(bookId);
+    const hasPendingByOthers = reservations.some(
+      (reservation) => reservation.status === 'PENDING' && reservation.userId !== loan.userId
+    );
+    if (hasPendingByOthers) {
+      return err({
+        type: 'RESERVED_BY_OTHER_USER',
+        loanId: loanId,
+        bookId: bookId,
+      });
+    }
+
+    // 7. 返却期限を延長（現在の返却期限 + ポリシーの貸出期間、休館日の場合は次の開館日）
+    const newDueDate = await calculateDueDate(loan.dueDate, policy.loanDurationDays);
+
+    return loanRepository.renew(loanId, newDueDate);
+  }
+
+  /**
+   * リコール後の返却期限を計算
+   * 今日 + 猶予日数と、貸出日 + 最低貸出日数の遅い方（休館日の場合は次の開館日）。
+   * 元の返却期限より後になる場合は元の返却期限のままとする
+   */
+  async function calculateRecallDueDate(loan: Loan, now: Date): Promise<Date> {
+    const returnBy = new Date(now);
+    returnBy.setDate(returnBy.getDate() + recallConfig.returnPeriodDays);
+    const guaranteedUntil = new Date(loan.borrowedAt);
+    guaranteedUntil.setDate(guaranteedUntil.getDate() + recallConfig.minimumLoanDays);
+
+    const recallDueDate = nextOpenDay(
+      await loadCalendar(),
+      returnBy > guaranteedUntil ? returnBy : guaranteedUntil
+    );
+    return recallDueDate < loan.dueDate ? recallDueDate : loan.dueDate;
+  }
+
+  /**
+   * リコール処理（状態チェック、返却期限の短縮）
+   */
+  async function recallInUnitOfWork(
+    loanId: LoanId
+  ): Promise<Result<{ loan: Loan; previousDueDate: Date }, LoanError>> {
+    // 1. 貸出記録の取得
+    const loanResult = await loanRepository.findById(loanId);
+    if (isErr(loanResult)) {
+      return loanResult;
+    }
+    const loan = loanResult.value;
+
+    // 2. 返却済み・貸出中以外（返却申告中・紛失等）の貸出はリコール不可
+    if (loan.returnedAt !== null) {
+      return err({
+        type: 'ALREADY_RETURNED',
+        loanId: loanId,
+      });
+    }
+    if (loan.status !== 'ACTIVE') {
+      return err({
+        type: 'INVALID_LOAN_STATUS',
+        loanId: loanId,
+        status: loan.status,
+      });
+    }
+
+    // 3. 二重のリコールは不可
+    if (loan.recalledAt !== null) {
+      return err({
+        type: 'ALREADY_RECALLED',
+        loanId: loanId,
+      });
+    }
+
+    // 4. 返却期限を短縮してリコール日時を記録
+    const now = new Date();
+    const dueDate = await calculateRecallDueDate(loan, now);
+    const recallResult = await loanRepository.recall(loanId, dueDate, now);
+    if (isErr(recallResult)) {
+      return recallResult;
+    }
+
+    return ok({ loan: recallResult.value, previousDueDate: loan.dueDate });
+  }
+
+  /**
+   * リコールを実行し、確定後に利用者へ通知する（通知の失敗はリコールを取り消さない）
+   */
+  async function recall(loanId: LoanId): Promise<Result<RecallResult, LoanError>> {
+    const recallResult = await unitOfWork.run(() => recallInUnitOfWork(loanId));
+    if (isErr(recallResult)) {
+      return recallResult;
+    }
+    const { loan, previousDueDate } = recallResult.value;
+
+    const notifyResult = await notificationService.sendLoanRecalled(
+      loan.userId,
+      loan.id,
+      loan.dueDate
+    );
+
+    return ok({ loan, previousDueDate, notified: isOk(notifyResult) });
+  }
+
+  /**
+   * 一括処理の蔵書コピーIDリストを検証
+   */
+  function validateBatchCopyIds(copyIds: readonly CopyId[]): Result<void, LoanError> {
+    if (copyIds.length === 0) {
+      return err({
+        type: 'VALIDATION_ERROR',
+        field: 'bookCopyIds',
+        message: '蔵書コピーIDを1件以上指定してください',
+      });
+    }
+    if (copyIds.length > MAX_BATCH_SIZE) {
+      return err({
+        type: 'VALIDATION_ERROR',
+        field: 'bookCopyIds',
+        message: `一度に処理できるのは${String(MAX_BATCH_SIZE)}件までです`,
+      });
+    }
+    if (new Set(copyIds).size !== copyIds.length) {
+      return err({
+        type: 'VALIDATION_ERROR',
+        field: 'bookCopyIds',
+        message: '同じ蔵書コピーIDが重複しています',
+      });
+    }
+    return ok(undefined);
+  }
+
+  /**
+   * 一括処理を実行
+   * - ALL_OR_NOTHING: 全項目を1つの作業単位で処理し、失敗があればロールバックする
+   *   （各項目は入れ子の作業単位で処理するため、失敗した項目の処理だけを取り消して
+   *   残りの項目の処理を続け、全ての失敗理由を返す）
+   * - PARTIAL: 項目ごとに作業単位を分けて処理する
+   */
+  async function runBatch<T>(
+    copyIds: readonly CopyId[],
+    mode: BatchMode,
+    processItem: (copyId: CopyId) => Promise<Result<T, LoanError>>
+  ): Promise<BatchRun<T>> {
+    if (mode === 'PARTIAL') {
+      const outcomes: BatchOutcome<T>[] = [];
+      for (const copyId of copyIds) {
+        const result = await unitOfWork.run(() => processItem(copyId));
+        outcomes.push({ copyId, result });
       }
+      return { committed: true, outcomes };
+    }
 
-      // 5. 書籍マスタを取得（レシート用）
-      const bookResult = await bookRepository.findById(copy.bookId);
-      if (isErr(bookResult)) {
-        return err({
-          type: 'VALIDATION_ERROR',
-          field: 'book',
-          message: '書籍情報の取得に失敗しました',
-        });
+    const outcomes: BatchOutcome<T>[] = [];
+    const runResult = await unitOfWork.run(async (): Promise<Result<void, void>> => {
+      for (const copyId of copyIds) {
+        const result = await unitOfWork.run(() => processItem(copyId));
+        outcomes.push({ copyId, result });
       }
-      const book = bookResult.value;
+      return outcomes.some((outcome) => isErr(outcome.result)) ? err(undefined) : ok(undefined);
+    });
+    return { committed: isOk(runResult), outcomes };
+  }
 
-      // 6. 返却期限を計算（今日 + DEFAULT_LOAN_DURATION_DAYS）
-      const today = new Date();
-      const dueDate = new Date(today);
-      dueDate.setDate(dueDate.getDate() + DEFAULT_LOAN_DURATION_DAYS);
+  /**
+   * 項目の処理結果とバッチの確定有無から項目ステータスを決定
+   */
+  function toBatchItemStatus<T>(result: Result<T, LoanError>, committed: boolean): BatchItemStatus {
+    if (isErr(result)) {
+      return 'FAILED';
+    }
+    return committed ? 'SUCCEEDED' : 'ROLLED_BACK';
+  }
+
+  /**
+   * 返却処理（蔵書コピーIDから貸出中の貸出を特定して返却）
+   */
+  async function returnByCopyInUnitOfWork(
+    copyId: CopyId,
+    servicePointId: ServicePointId | null
+  ): Promise<Result<ReturnResult, LoanError>> {
+    const activeLoan = await loanRepository.findActiveByCopyId(copyId);
+    if (activeLoan === null) {
+      return err({
+        type: 'COPY_NOT_ON_LOAN',
+        copyId,
+      });
+    }
+    return returnInUnitOfWork(activeLoan.id, { servicePointId });
+  }
 
-      // 7. 貸出記録の作成
-      const loanResult = await loanRepository.create(input, dueDate);
-      if (isErr(loanResult)) {
-        return loanResult;
+  const service: LoanService = {
+    async createLoan(input: CreateLoanInput): Promise<Result<Loan, LoanError>> {
+      const checkoutResult = await checkout(input);
+      if (isErr(checkoutResult)) {
+        return checkoutResult;
       }
 
-      // 8. 蔵書コピーの状態を「BORROWED」に更新
-      const updateResult = await bookRepository.updateCopy(bookCopyId, 'BORROWED');
-      if (isErr(updateResult)) {
-        return err({
-          type: 'VALIDATION_ERROR',
-          field: 'bookCopy',
-          message: '蔵書状態の更新に失敗しました',
-        });
+      return ok(checkoutResult.value.loan);
+    },
+
+    async createLoanWithReceipt(input: CreateLoanInput): Promise<Result<LoanReceipt, LoanError>> {
+      const checkoutResult = await checkout(input);
+      if (isErr(checkoutResult)) {
+        return checkoutResult;
       }
+      const { loan, book, user, policy } = checkoutResult.value;
 
-      // 9. レシート情報を生成して返す
+      // レシート情報を生成して返す
       const receipt: LoanReceipt = {
-        loan: loanResult.value,
+        loan,
         bookTitle: book.title,
         userName: user.name,
+        policy,
       };
 
       return ok(receipt);
@@ -296,74 +1335,247 @@ export function createLoanService(
       return await loanRepository.findById(id);
     },
 
-    async returnBook(loanId: LoanId): Promise<Result<ReturnResult, LoanError>> {
-      // 1. 貸出記録の取得
-      const loanResult = await loanRepository.findById(loanId);
-      if (isErr(loanResult)) {
-        return loanResult;
+    async returnBook(
+      loanId: LoanId,
+      input: ReturnBookInput = {}
+    ): Promise<Result<ReturnResult, LoanError>> {
+      const result = await unitOfWork.run(() => returnInUnitOfWork(loanId, input));
+      if (isOk(result)) {
+        await publishLoanReturned(result.value.loan, input.servicePointId ?? null);
       }
-      const loan = loanResult.value;
+      return result;
+    },
 
-      // 2. 既に返却済みかチェック
-      if (loan.returnedAt !== null) {
-        return err({
-          type: 'ALREADY_RETURNED',
-          loanId: loanId,
-        });
+    async checkoutBatch(
+      input: BatchCheckoutInput
+    ): Promise<Result<BatchCheckoutReceipt, LoanError>> {
+      const { userId, bookCopyIds, mode } = input;
+
+      // 1. 蔵書コピーIDリストの検証
+      const validation = validateBatchCopyIds(bookCopyIds);
+      if (isErr(validation)) {
+        return validation;
       }
 
-      // 3. 返却日を記録
-      const now = new Date();
-      const updateResult = await loanRepository.updateReturnedAt(loanId, now);
-      if (isErr(updateResult)) {
-        return updateResult;
+      // 2. 利用者の存在確認
+      const userResult = await userRepository.findById(userId);
+      if (isErr(userResult)) {
+        return err({
+          type: 'USER_NOT_FOUND',
+          userId,
+        });
       }
+      const user = userResult.value;
 
-      // 4. 蔵書コピーの状態を「AVAILABLE」に更新
-      const copyUpdateResult = await bookRepository.updateCopy(loan.bookCopyId, 'AVAILABLE');
-      if (isErr(copyUpdateResult)) {
+      // 3. 未払いの延滞料金はバッチ全体で1回だけ判定
+      const eligibilityResult = await fineService.checkBorrowingEligibility(userId);
+      if (isErr(eligibilityResult)) {
         return err({
-          type: 'VALIDATION_ERROR',
-          field: 'bookCopy',
-          message: '蔵書状態の更新に失敗しました',
+          type: 'FINES_OUTSTANDING',
+          userId,
+          balance: eligibilityResult.error.balance,
+          threshold: eligibilityResult.error.threshold,
         });
       }
 
-      // 5. 延滞判定
-      const isOverdue = now > loan.dueDate;
+      // 4. ALL_OR_NOTHINGの場合はバッチ全体で貸出上限を超えないかを事前に判定
+      //    （PARTIALの場合は上限に達した時点以降の項目が個別に失敗する）
+      if (mode === 'ALL_OR_NOTHING') {
+        const activeLoansCount = await loanRepository.countActiveLoans(userId);
+        if (activeLoansCount + bookCopyIds.length > user.loanLimit) {
+          return err({
+            type: 'LOAN_LIMIT_EXCEEDED',
+            userId,
+            limit: user.loanLimit,
+            currentCount: activeLoansCount,
+          });
+        }
+      }
 
-      if (isOverdue) {
-        const timeDiff = now.getTime() - loan.dueDate.getTime();
-        const overdueDays = Math.ceil(timeDiff / (1000 * 60 * 60 * 24));
+      // 5. 各項目の貸出処理
+      const { committed, outcomes } = await runBatch(bookCopyIds, mode, (bookCopyId) =>
+        checkoutInUnitOfWork({ userId, bookCopyId })
+      );
 
-        // 6. 延滞記録を作成（失敗しても返却処理は成功とする）
-        const overdueInput: CreateOverdueRecordInput = {
-          loanId: loanId,
-          overdueDays: overdueDays,
+      const items: BatchCheckoutItem[] = outcomes.map(({ copyId, result }) => {
+        const status = toBatchItemStatus(result, committed);
+        return {
+          bookCopyId: copyId,
+          status,
+          loan: status === 'SUCCEEDED' && isOk(result) ? result.value.loan : null,
+          bookTitle: isOk(result) ? result.value.book.title : null,
+          error: isErr(result) ? result.error : null,
         };
-        const overdueRecordResult = await overdueRecordRepository.create(overdueInput);
-
-        if (isErr(overdueRecordResult)) {
-          // 延滞記録保存に失敗しても返却処理は成功
-          return ok({
-            loan: updateResult.value,
-            isOverdue,
-            overdueDays,
-          });
+      });
+
+      // 6. コミットされた貸出の貸出作成イベントを発行
+      for (const { result } of outcomes) {
+        if (toBatchItemStatus(result, committed) === 'SUCCEEDED' && isOk(result)) {
+          await publishLoanCreated(result.value.loan, result.value.book.id);
         }
+      }
 
-        return ok({
-          loan: updateResult.value,
-          isOverdue,
-          overdueDays,
-          overdueRecord: overdueRecordResult.value,
-        });
+      return ok({
+        userId,
+        userName: user.name,
+        mode,
+        committed,
+        items,
+        succeededCount: items.filter((item) => item.status === 'SUCCEEDED').length,
+        failedCount: items.filter((item) => item.status === 'FAILED').length,
+      });
+    },
+
+    async returnBatch(input: BatchReturnInput): Promise<Result<BatchReturnReceipt, LoanError>> {
+      const { bookCopyIds, mode, servicePointId = null } = input;
+
+      // 1. 蔵書コピーIDリストの検証
+      const validation = validateBatchCopyIds(bookCopyIds);
+      if (isErr(validation)) {
+        return validation;
+      }
+
+      // 2. 各項目の返却処理
+      const { committed, outcomes } = await runBatch(bookCopyIds, mode, (copyId) =>
+        returnByCopyInUnitOfWork(copyId, servicePointId)
+      );
+
+      const items: BatchReturnItem[] = outcomes.map(({ copyId, result }) => {
+        const status = toBatchItemStatus(result, committed);
+        return {
+          bookCopyId: copyId,
+          status,
+          result: status === 'SUCCEEDED' && isOk(result) ? result.value : null,
+          error: isErr(result) ? result.error : null,
+        };
+      });
+
+      // 3. コミットされた返却の返却イベントを発行
+      for (const item of items) {
+        if (item.result !== null) {
+          await publishLoanReturned(item.result.loan, servicePointId);
+        }
       }
 
       return ok({
-        loan: updateResult.value,
-        isOverdue,
+        mode,
+        committed,
+        items,
+        succeededCount: items.filter((item) => item.status === 'SUCCEEDED').length,
+        failedCount: items.filter((item) => item.status === 'FAILED').length,
+        overdueCount: items.filter((item) => item.result?.isOverdue === true).length,
       });
     },
+
+    async getBookDropMode(): Promise<Result<BookDropMode, never>> {
+      return ok(await bookDropRepository.getMode());
+    },
+
+    async setBookDropMode(enabled: boolean): Promise<Result<BookDropMode, never>> {
+      return ok(await bookDropRepository.setMode(enabled));
+    },
+
+    async renewLoan(loanId: LoanId): Promise<Result<Loan, LoanError>> {
+      return unitOfWork.run(() => renewInUnitOfWork(loanId));
+    },
+
+    async recallLoan(loanId: LoanId): Promise<Result<RecallResult, LoanError>> {
+      return recall(loanId);
+    },
+
+    async recallForReservation(
+      bookId: BookId,
+      requesterId: UserId
+    ): Promise<Result<RecallResult | null, never>> {
+      if (!recallConfig.autoRecallOnReservation) {
+        return ok(null);
+      }
+
+      // 1. 書籍の貸出中のコピーから、リコールできる他の利用者の貸出を探す
+      const copiesResult = await bookRepository.findCopiesByBookId(bookId);
+      if (isErr(copiesResult)) {
+        return ok(null);
+      }
+      const activeLoans = await loanRepository.findActiveByMultipleCopyIds(
+        copiesResult.value.map((copy) => copy.id)
+      );
+      const now = new Date();
+      const candidates: Loan[] = [];
+      for (const loan of activeLoans) {
+        if (loan.status !== 'ACTIVE' || loan.recalledAt !== null || loan.userId === requesterId) {
+          continue;
+        }
+        // 最低貸出保証期間により返却期限を短縮できない貸出は対象外
+        if ((await calculateRecallDueDate(loan, now)) < loan.dueDate) {
+          candidates.push(loan);
+        }
+      }
+
+      // 2. 返却期限が最も遅い貸出をリコール（予約者の待ち時間を最も短縮できる）
+      const target = candidates.reduce<Loan | null>(
+        (latest, loan) => (latest === null || loan.dueDate > latest.dueDate ? loan : latest),
+        null
+      );
+      if (target === null) {
+        return ok(null);
+      }
+
+      const recallResult = await recall(target.id);
+      return ok(isOk(recallResult) ? recallResult.value : null);
+    },
+
+    async markLost(loanId: LoanId): Promise<Result<LossResult, LoanError>> {
+      return unitOfWork.run(() => markLostInUnitOfWork(loanId));
+    },
+
+    async markDamaged(loanId: LoanId): Promise<Result<LossResult, LoanError>> {
+      return unitOfWork.run(() => markDamagedInUnitOfWork(loanId));
+    },
+
+    async reinstateLostOrDamaged(loanId: LoanId): Promise<Result<LossReversalResult, LoanError>> {
+      const result = await unitOfWork.run(() => reinstateInUnitOfWork(loanId));
+      if (isOk(result)) {
+        await publishLoanReturned(result.value.loan);
+      }
+      return result;
+    },
+
+    async claimReturned(
+      loanId: LoanId,
+      input: ClaimReturnedInput
+    ): Promise<Result<ReturnClaim, LoanError>> {
+      return unitOfWork.run(() => claimReturnedInUnitOfWork(loanId, input));
+    },
+
+    async recordClaimSearch(loanId: LoanId): Promise<Result<ReturnClaim, LoanError>> {
+      const claim = await returnClaimRepository.findOpenByLoanId(loanId);
+      if (claim === null) {
+        return err({
+          type: 'CLAIM_NOT_FOUND',
+          loanId: loanId,
+        });
+      }
+
+      return ok(await returnClaimRepository.recordSearch(claim.id, new Date()));
+    },
+
+    async resolveReturnClaim(
+      loanId: LoanId,
+      resolution: ReturnClaimResolution
+    ): Promise<Result<ReturnClaimResolutionResult, LoanError>> {
+      const result = await unitOfWork.run(() => resolveClaimInUnitOfWork(loanId, resolution));
+      // 紛失と判定した場合は蔵書コピーが書架に戻らないため発行しない
+      if (isOk(result) && resolution !== 'LOST') {
+        await publishLoanReturned(result.value.loan);
+      }
+      return result;
+    },
   };
+
+  // 予約の登録時、貸出ポリシーが許可する場合は貸出中のコピーをリコール
+  eventBus.subscribe('ReservationPlaced', async (event) => {
+    await service.recallForReservation(event.bookId, event.userId);
+  });
+
+  return service;
 }
@@ -7,7 +7,7 @@
 
 import type { LoanId, UserId, OverdueRecordId } from '../../shared/branded-types.js';
 import type { Result } from '../../shared/result.js';
-import type { OverdueRecord, CreateOverdueRecordInput } from './types.js';
+import type { OverdueRecord, CreateOverdueRecordInput, OverdueSnapshotEntry } from './types.js';
 
 // ============================================
 // エラー型
@@ -53,4 +53,13 @@ export interface OverdueRecordRepository {
    * @returns 延滞記録の配列
    */
   findByUserId(userId: UserId): Promise<OverdueRecord[]>;
+
+  /**
+   * 延滞状況のスナップショットを保存
+   * 同じ日付・貸出のスナップショットが既にある場合は上書きする
+   * @param snapshotDate - スナップショットの日付（YYYY-MM-DD）
+   * @param entries - 延滞中の貸出
+   * @returns 保存した件数
+   */
+  saveSnapshot(snapshotDate: string, entries: readonly OverdueSnapshotEntry[]): Promise<number>;
 }
@@ -0,0 +1,58 @@
+/**
+ * ReturnClaim Repository Interface
+ *
+ * 返却申告データの永続化を担当するリポジトリのインターフェース定義。
+ * 具体的な実装は Infrastructure 層で行います。
+ */
+
+import type { LoanId, ReturnClaimId, UserId } from '../../shared/branded-types.js';
+import type { ReturnClaim, CreateReturnClaimInput, ReturnClaimResolution } from './types.js';
+
+// ============================================
+// リポジトリインターフェース
+// ============================================
+
+/** 返却申告リポジトリ */
+export interface ReturnClaimRepository {
+  /**
+   * 返却申告を作成
+   * @param input - 返却申告作成入力
+   * @returns 作成された返却申告
+   */
+  create(input: CreateReturnClaimInput): Promise<ReturnClaim>;
+
+  /**
+   * 貸出の未解決の返却申告を取得
+   * @param loanId - 貸出ID
+   * @returns 未解決の返却申告またはnull
+   */
+  findOpenByLoanId(loanId: LoanId): Promise<ReturnClaim | null>;
+
+  /**
+   * 利用者の未解決の返却申告数を取得
+   * @param userId - 利用者ID
+   * @returns 未解決の返却申告数
+   */
+  countOpenByUserId(userId: UserId): Promise<number>;
+
+  /**
+   * 館内捜索の実施を記録（捜索回数を1増やす）
+   * @param id - 返却申告ID
+   * @param searchedAt - 捜索日時
+   * @returns 更新された返却申告
+   */
+  recordSearch(id: ReturnClaimId, searchedAt: Date): Promise<ReturnClaim>;
+
+  /**
+   * 返却申告を解決
+   * @param id - 返却申告ID
+   * @param resolution - 解決結果
+   * @param resolvedAt - 解決日時
+   * @returns 更新された返却申告
+   */
+  resolve(
+    id: ReturnClaimId,
+    resolution: ReturnClaimResolution,
+    resolvedAt: Date
+  ): Promise<ReturnClaim>;
+}
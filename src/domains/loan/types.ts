@@ -4,12 +4,31 @@
  * 貸出管理ドメインの型定義を提供します。
  */
 
-import type { LoanId, UserId, CopyId } from '../../shared/branded-types.js';
+import type {
+  LoanId,
+  UserId,
+  CopyId,
+  LoanPolicyId,
+  ReturnClaimId,
+  ServicePointId,
+} from '../../shared/branded-types.js';
+import type { FineTransaction } from '../fine/types.js';
 
 // ============================================
 // 貸出型定義
 // ============================================
 
+/**
+ * 貸出ステータス
+ *
+ * - ACTIVE: 貸出中
+ * - CLAIMED_RETURNED: 利用者が返却済みと申告し、確認中（延滞の計上を停止）
+ * - RETURNED: 返却済み
+ * - LOST: 紛失により貸出を終了
+ * - DAMAGED: 返却後に破損が判明
+ */
+export type LoanStatus = 'ACTIVE' | 'CLAIMED_RETURNED' | 'RETURNED' | 'LOST' | 'DAMAGED';
+
 /** 貸出 */
 export interface Loan {
   readonly id: LoanId;
@@ -17,7 +36,17 @@ export interface Loan {
   readonly bookCopyId: CopyId;
   readonly borrowedAt: Date;
   readonly dueDate: Date;
+  /** 返却日時（紛失により貸出を終了した場合は終了日時）。返却ポスト等で遡及した場合は実効返却日時 */
   readonly returnedAt: Date | null;
+  /** 返却処理を実際に行った日時（返却処理前、または返却処理を経ずに終了した貸出はnull） */
+  readonly returnProcessedAt: Date | null;
+  readonly status: LoanStatus;
+  /** 貸出延長回数 */
+  readonly renewalCount: number;
+  /** 貸出時に適用された貸出ポリシーID（デフォルトポリシーの場合はnull） */
+  readonly loanPolicyId: LoanPolicyId | null;
+  /** リコールされた日時（リコールされていない場合はnull） */
+  readonly recalledAt: Date | null;
 }
 
 /** 貸出作成入力 */
@@ -26,6 +55,27 @@ export interface CreateLoanInput {
   readonly bookCopyId: CopyId;
 }
 
+/** 返却入力 */
+export interface ReturnBookInput {
+  /** 実効返却日時（省略時は返却ポストモードに従い、無効な場合は処理日時） */
+  readonly effectiveReturnDate?: Date | null;
+  /** 返却を受け付けたサービスポイント（予約の受取館と異なる場合は輸送依頼を作成する） */
+  readonly servicePointId?: ServicePointId | null;
+}
+
+// ============================================
+// 返却ポストモード
+// ============================================
+
+/**
+ * 返却ポストモード
+ * 有効な間は、すべての返却を最終開館日に返却されたものとして処理する
+ */
+export interface BookDropMode {
+  readonly enabled: boolean;
+  readonly updatedAt: Date;
+}
+
 // ============================================
 // 返却期限設定
 // ============================================
@@ -33,6 +83,78 @@ export interface CreateLoanInput {
 /** デフォルト貸出期間（日数） */
 export const DEFAULT_LOAN_DURATION_DAYS = 14;
 
+/** 貸出延長の上限回数 */
+export const MAX_RENEWAL_COUNT = 2;
+
+// ============================================
+// 貸出ポリシー型定義
+// ============================================
+
+/** 貸出ポリシーの貸出条件 */
+export interface LoanPolicyTerms {
+  /** 貸出期間（日数） */
+  readonly loanDurationDays: number;
+  /** 貸出延長の上限回数 */
+  readonly maxRenewals: number;
+  /** 同一カテゴリの同時貸出上限（nullの場合は制限なし） */
+  readonly maxItems: number | null;
+  /** 延滞猶予期間（日数） */
+  readonly gracePeriodDays: number;
+}
+
+/**
+ * 貸出ポリシー
+ *
+ * bookCategory / patronCategory が null の場合は全カテゴリに適用される。
+ */
+export interface LoanPolicy extends LoanPolicyTerms {
+  readonly id: LoanPolicyId;
+  readonly name: string;
+  readonly bookCategory: string | null;
+  readonly patronCategory: string | null;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/** 貸出ポリシー作成入力 */
+export interface CreateLoanPolicyInput {
+  readonly name: string;
+  readonly bookCategory?: string | null;
+  readonly patronCategory?: string | null;
+  readonly loanDurationDays: number;
+  readonly maxRenewals: number;
+  readonly maxItems?: number | null;
+  readonly gracePeriodDays?: number;
+}
+
+/** 貸出ポリシー更新入力 */
+export interface UpdateLoanPolicyInput {
+  readonly name?: string;
+  readonly bookCategory?: string | null;
+  readonly patronCategory?: string | null;
+  readonly loanDurationDays?: number;
+  readonly maxRenewals?: number;
+  readonly maxItems?: number | null;
+  readonly gracePeriodDays?: number;
+}
+
+/** 貸出時に適用された貸出ポリシー */
+export interface AppliedLoanPolicy extends LoanPolicyTerms {
+  /** 貸出ポリシーID（デフォルトポリシーの場合はnull） */
+  readonly policyId: LoanPolicyId | null;
+  readonly name: string;
+}
+
+/** 該当する貸出ポリシーがない場合に適用されるデフォルトポリシー */
+export const DEFAULT_LOAN_POLICY: AppliedLoanPolicy = {
+  policyId: null,
+  name: 'デフォルト',
+  loanDurationDays: DEFAULT_LOAN_DURATION_DAYS,
+  maxRenewals: MAX_RENEWAL_COUNT,
+  maxItems: null,
+  gracePeriodDays: 0,
+};
+
 // ============================================
 // 貸出レシート
 // ============================================
@@ -42,6 +164,8 @@ export interface LoanReceipt {
   readonly loan: Loan;
   readonly bookTitle: string;
   readonly userName: string;
+  /** 適用された貸出ポリシー */
+  readonly policy: AppliedLoanPolicy;
 }
 
 // ============================================
@@ -54,8 +178,206 @@ export interface ReturnResult {
   readonly isOverdue: boolean;
   readonly overdueDays?: number;
   readonly overdueRecord?: OverdueRecord;
+  /** 延滞により請求された延滞料金 */
+  readonly fine?: FineTransaction;
 }
 
+// ============================================
+// 一括貸出・一括返却
+// ============================================
+
+/**
+ * 一括処理モード
+ * - ALL_OR_NOTHING: 1件でも失敗した場合はすべて取り消す
+ * - PARTIAL: 成功した項目のみ確定する
+ */
+export type BatchMode = 'ALL_OR_NOTHING' | 'PARTIAL';
+
+/** 一括処理で1回に扱える蔵書コピーの最大件数 */
+export const MAX_BATCH_SIZE = 50;
+
+/** 一括貸出入力 */
+export interface BatchCheckoutInput {
+  readonly userId: UserId;
+  readonly bookCopyIds: readonly CopyId[];
+  readonly mode: BatchMode;
+}
+
+/** 一括返却入力 */
+export interface BatchReturnInput {
+  readonly bookCopyIds: readonly CopyId[];
+  readonly mode: BatchMode;
+  /** 返却を受け付けたサービスポイント */
+  readonly servicePointId?: ServicePointId | null;
+}
+
+/**
+ * 一括処理の項目ステータス
+ * - SUCCEEDED: 処理が確定した
+ * - FAILED: 処理に失敗した
+ * - ROLLED_BACK: 処理できたが、他の項目の失敗により取り消された（ALL_OR_NOTHINGのみ）
+ */
+export type BatchItemStatus = 'SUCCEEDED' | 'FAILED' | 'ROLLED_BACK';
+
+/** 一括貸出の項目結果 */
+export interface BatchCheckoutItem {
+  readonly bookCopyId: CopyId;
+  readonly status: BatchItemStatus;
+  /** 作成された貸出（SUCCEEDEDの場合のみ） */
+  readonly loan: Loan | null;
+  /** 書籍タイトル（FAILEDの場合はnull） */
+  readonly bookTitle: string | null;
+  /** 失敗理由（FAILEDの場合のみ） */
+  readonly error: LoanError | null;
+}
+
+/** 一括貸出レシート */
+export interface BatchCheckoutReceipt {
+  readonly userId: UserId;
+  readonly userName: string;
+  readonly mode: BatchMode;
+  /** 処理が確定した場合はtrue（ALL_OR_NOTHINGで失敗があった場合はfalse） */
+  readonly committed: boolean;
+  readonly items: readonly BatchCheckoutItem[];
+  readonly succeededCount: number;
+  readonly failedCount: number;
+}
+
+/** 一括返却の項目結果 */
+export interface BatchReturnItem {
+  readonly bookCopyId: CopyId;
+  readonly status: BatchItemStatus;
+  /** 返却結果（SUCCEEDEDの場合のみ） */
+  readonly result: ReturnResult | null;
+  /** 失敗理由（FAILEDの場合のみ） */
+  readonly error: LoanError | null;
+}
+
+/** 一括返却レシート */
+export interface BatchReturnReceipt {
+  readonly mode: BatchMode;
+  /** 処理が確定した場合はtrue（ALL_OR_NOTHINGで失敗があった場合はfalse） */
+  readonly committed: boolean;
+  readonly items: readonly BatchReturnItem[];
+  readonly succeededCount: number;
+  readonly failedCount: number;
+  /** 延滞していた返却の件数 */
+  readonly overdueCount: number;
+}
+
+// ============================================
+// 紛失・破損処理結果
+// ============================================
+
+/** 紛失・破損処理結果 */
+export interface LossResult {
+  readonly loan: Loan;
+  /** 請求された弁償金（弁償金額が0円の場合はnull） */
+  readonly charge: FineTransaction | null;
+}
+
+/** 紛失・破損の取消結果（資料発見時） */
+export interface LossReversalResult {
+  readonly loan: Loan;
+  /** 弁償金を打ち消す免除 */
+  readonly waiver: FineTransaction | null;
+  /** 支払い済みの弁償金の返金 */
+  readonly refund: FineTransaction | null;
+}
+
+// ============================================
+// 返却申告型定義
+// ============================================
+
+/**
+ * 返却申告の解決結果
+ *
+ * - FOUND: 館内で資料が見つかった（申告日に返却済みとして処理）
+ * - RETURNED: 利用者が資料を返却した
+ * - LOST: 資料が見つからず紛失として処理
+ */
+export type ReturnClaimResolution = 'FOUND' | 'RETURNED' | 'LOST';
+
+/** 返却申告（利用者が返却済みと主張している貸出） */
+export interface ReturnClaim {
+  readonly id: ReturnClaimId;
+  readonly loanId: LoanId;
+  /** 貸出を受けている利用者 */
+  readonly userId: UserId;
+  /** 申告した人（利用者本人または代理で申告を受け付けた職員） */
+  readonly claimedBy: UserId;
+  readonly claimedAt: Date;
+  /** 館内捜索の実施回数 */
+  readonly searchCount: number;
+  readonly lastSearchedAt: Date | null;
+  /** 解決結果（未解決の場合はnull） */
+  readonly resolution: ReturnClaimResolution | null;
+  readonly resolvedAt: Date | null;
+}
+
+/** 返却申告作成入力 */
+export interface CreateReturnClaimInput {
+  readonly loanId: LoanId;
+  readonly userId: UserId;
+  readonly claimedBy: UserId;
+}
+
+/** 返却申告入力 */
+export interface ClaimReturnedInput {
+  /** 申告した人（省略時は貸出を受けている利用者本人） */
+  readonly claimedBy?: UserId | null;
+}
+
+/** 返却申告の解決結果 */
+export interface ReturnClaimResolutionResult {
+  readonly claim: ReturnClaim;
+  readonly loan: Loan;
+  /** 解決時に請求された延滞料金または弁償金 */
+  readonly charge: FineTransaction | null;
+}
+
+/** 返却申告設定 */
+export interface ReturnClaimConfig {
+  /** 利用者1人あたりの未解決の返却申告の上限 */
+  readonly maxOpenClaims: number;
+}
+
+/** デフォルトの返却申告設定 */
+export const DEFAULT_RETURN_CLAIM_CONFIG: ReturnClaimConfig = {
+  maxOpenClaims: 2,
+};
+
+// ============================================
+// リコール
+// ============================================
+
+/** リコール結果 */
+export interface RecallResult {
+  /** 返却期限を短縮した貸出 */
+  readonly loan: Loan;
+  /** リコール前の返却期限 */
+  readonly previousDueDate: Date;
+  /** 利用者への通知をキューに登録できた場合はtrue */
+  readonly notified: boolean;
+}
+
+/** リコール設定 */
+export interface RecallConfig {
+  /** 貸出日から保証する最低貸出日数（リコールしてもこの日数より前には短縮しない） */
+  readonly minimumLoanDays: number;
+  /** リコールから返却期限までの猶予日数 */
+  readonly returnPeriodDays: number;
+  /** 予約の登録時に貸出中のコピーを自動でリコールするか */
+  readonly autoRecallOnReservation: boolean;
+}
+
+/** デフォルトのリコール設定 */
+export const DEFAULT_RECALL_CONFIG: RecallConfig = {
+  minimumLoanDays: 7,
+  returnPeriodDays: 3,
+  autoRecallOnReservation: false,
+};
+
 // ============================================
 // 延滞記録型定義
 // ============================================
@@ -77,6 +399,14 @@ export interface CreateOverdueRecordInput {
   readonly overdueDays: number;
 }
 
+/** 延滞状況スナップショットの項目（日次で延滞中の貸出を記録する） */
+export interface OverdueSnapshotEntry {
+  readonly loanId: LoanId;
+  readonly userId: UserId;
+  /** スナップショット時点の延滞日数（開館日数） */
+  readonly overdueDays: number;
+}
+
 // ============================================
 // 貸出状況型定義
 // ============================================
@@ -99,6 +429,7 @@ export interface CopyLoanStatus {
 export type LoanError =
   | { readonly type: 'VALIDATION_ERROR'; readonly field: string; readonly message: string }
   | { readonly type: 'BOOK_NOT_AVAILABLE'; readonly copyId: string }
+  | { readonly type: 'COPY_ON_HOLD'; readonly copyId: string }
   | {
       readonly type: 'LOAN_LIMIT_EXCEEDED';
       readonly userId: string;
@@ -107,5 +438,51 @@ export type LoanError =
     }
   | { readonly type: 'USER_NOT_FOUND'; readonly userId: string }
   | { readonly type: 'COPY_NOT_FOUND'; readonly copyId: string }
+  | { readonly type: 'COPY_NOT_ON_LOAN'; readonly copyId: string }
   | { readonly type: 'LOAN_NOT_FOUND'; readonly loanId: string }
-  | { readonly type: 'ALREADY_RETURNED'; readonly loanId: string };
+  | { readonly type: 'ALREADY_RETURNED'; readonly loanId: string }
+  | { readonly type: 'LOAN_OVERDUE'; readonly loanId: string; readonly dueDate: Date }
+  | {
+      readonly type: 'RENEWAL_LIMIT_EXCEEDED';
+      readonly loanId: string;
+      readonly limit: number;
+      readonly renewalCount: number;
+    }
+  | { readonly type: 'RESERVED_BY_OTHER_USER'; readonly loanId: string; readonly bookId: string }
+  | {
+      readonly type: 'CATEGORY_LOAN_LIMIT_EXCEEDED';
+      readonly userId: string;
+      readonly category: string;
+      readonly limit: number;
+      readonly currentCount: number;
+    }
+  | {
+      readonly type: 'INVALID_LOAN_STATUS';
+      readonly loanId: string;
+      readonly status: LoanStatus;
+    }
+  | {
+      readonly type: 'CLAIM_LIMIT_EXCEEDED';
+      readonly userId: string;
+      readonly limit: number;
+      readonly currentCount: number;
+    }
+  | { readonly type: 'CLAIM_NOT_FOUND'; readonly loanId: string }
+  | { readonly type: 'ALREADY_RECALLED'; readonly loanId: string }
+  | { readonly type: 'LOAN_RECALLED'; readonly loanId: string }
+  | {
+      readonly type: 'FINES_OUTSTANDING';
+      readonly userId: string;
+      readonly balance: number;
+      readonly threshold: number;
+    };
+
+/** 貸出ポリシーエラー */
+export type LoanPolicyError =
+  | { readonly type: 'VALIDATION_ERROR'; readonly field: string; readonly message: string }
+  | { readonly type: 'POLICY_NOT_FOUND'; readonly policyId: string }
+  | {
+      readonly type: 'DUPLICATE_POLICY';
+      readonly bookCategory: string | null;
+      readonly patronCategory: string | null;
+    };
@@ -13,7 +13,12 @@ import {
   type NotificationHistoryRecord,
 } from './email-sender.js';
 import { createUserId, createBookId, createLoanId } from '../../shared/branded-types.js';
-import type { ReservationAvailableJobData, OverdueReminderJobData } from './types.js';
+import type {
+  ReservationAvailableJobData,
+  OverdueReminderJobData,
+  DueSoonReminderJobData,
+  LoanRecalledJobData,
+} from './types.js';
 
 describe('EmailSender', () => {
   describe('createMockEmailSender', () => {
@@ -286,4 +291,70 @@ describe('EmailNotificationProcessor', () => {
       expect(sentEmails[0]?.subject).toContain('延滞');
     });
   });
+
+  describe('返却期限前リマインダー', () => {
+    it('返却期限前リマインダーメールに返却期限を記載する', async () => {
+      // Arrange
+      const processor = createEmailNotificationProcessor({
+        emailSender: mockEmailSender,
+        historyRepository: mockHistoryRepository,
+        userLookup: mockUserLookup,
+        bookLookup: mockBookLookup,
+        loanLookup: vi.fn((_loanId: string) =>
+          Promise.resolve({ bookTitle: 'テスト書籍', dueDate: new Date('2024-12-20') })
+        ),
+      });
+
+      const dueDate = new Date('2024-12-20');
+      const jobData: DueSoonReminderJobData = {
+        type: 'DUE_SOON_REMINDER',
+        userId: createUserId('user-1'),
+        loanId: createLoanId('loan-1'),
+        dueDate,
+        timestamp: new Date(),
+      };
+
+      // Act
+      const result = await processor(jobData);
+
+      // Assert
+      expect(result.success).toBe(true);
+      const sentEmails = mockEmailSender.getSentEmails();
+      expect(sentEmails[0]?.subject).toContain('返却期限のお知らせ');
+      expect(sentEmails[0]?.body).toContain(dueDate.toLocaleDateString('ja-JP'));
+    });
+  });
+
+  describe('リコール通知', () => {
+    it('リコール通知メールに短縮後の返却期限を記載する', async () => {
+      // Arrange
+      const processor = createEmailNotificationProcessor({
+        emailSender: mockEmailSender,
+        historyRepository: mockHistoryRepository,
+        userLookup: mockUserLookup,
+        bookLookup: mockBookLookup,
+        loanLookup: vi.fn((_loanId: string) =>
+          Promise.resolve({ bookTitle: 'リコール書籍', dueDate: new Date('2024-12-31') })
+        ),
+      });
+
+      const dueDate = new Date('2024-12-20');
+      const jobData: LoanRecalledJobData = {
+        type: 'LOAN_RECALLED',
+        userId: createUserId('user-1'),
+        loanId: createLoanId('loan-1'),
+        dueDate,
+        timestamp: new Date(),
+      };
+
+      // Act
+      const result = await processor(jobData);
+
+      // Assert
+      expect(result.success).toBe(true);
+      const sentEmails = mockEmailSender.getSentEmails();
+      expect(sentEmails[0]?.subject).toContain('返却期限変更');
+      expect(sentEmails[0]?.body).toContain(dueDate.toLocaleDateString('ja-JP'));
+    });
+  });
 });
@@ -194,7 +194,7 @@ export function createEmailNotificationProcessor(
       subject = `【図書館】予約書籍「${book.title}」が貸出可能になりました`;
       body = `${user.name} 様\n\nご予約いただいた書籍「${book.title}」が返却され、貸出可能になりました。\n\n予約有効期限は7日間です。お早めにご来館ください。\n\n図書館`;
     } else {
-      // OVERDUE_REMINDER
+      // OVERDUE_REMINDER / DUE_SOON_REMINDER / LOAN_RECALLED
       if (loanLookup === undefined) {
         return err({
           type: 'SEND_ERROR',
@@ -212,8 +212,16 @@ export function createEmailNotificationProcessor(
         });
       }
 
-      subject = `【図書館】延滞のお知らせ - 「${loan.bookTitle}」`;
-      body = `${user.name} 様\n\n貸出中の書籍「${loan.bookTitle}」の返却期限（${loan.dueDate.toLocaleDateString('ja-JP')}）を過ぎております。\n\nお早めにご返却ください。\n\n図書館`;
+      if (data.type === 'OVERDUE_REMINDER') {
+        subject = `【図書館】延滞のお知らせ - 「${loan.bookTitle}」`;
+        body = `${user.name} 様\n\n貸出中の書籍「${loan.bookTitle}」の返却期限（${loan.dueDate.toLocaleDateString('ja-JP')}）を過ぎております。\n\nお早めにご返却ください。\n\n図書館`;
+      } else if (data.type === 'DUE_SOON_REMINDER') {
+        subject = `【図書館】返却期限のお知らせ - 「${loan.bookTitle}」`;
+        body = `${user.name} 様\n\n貸出中の書籍「${loan.bookTitle}」の返却期限は${data.dueDate.toLocaleDateString('ja-JP')}です。\n\n期限までにご返却いただくか、貸出の延長をご検討ください。\n\n図書館`;
+      } else {
+        subject = `【図書館】返却期限変更のお知らせ - 「${loan.bookTitle}」`;
+        body = `${user.name} 様\n\n貸出中の書籍「${loan.bookTitle}」を他の利用者が必要としているため、返却期限を${data.dueDate.toLocaleDateString('ja-JP')}に変更しました。\n\n期限までにご返却ください。期限を過ぎた場合は通常より高い延滞料金がかかります。\n\n図書館`;
+      }
     }
 
     // メールを送信
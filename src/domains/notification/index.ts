@@ -10,6 +10,8 @@ export type {
   NotificationJobData,
   ReservationAvailableJobData,
   OverdueReminderJobData,
+  DueSoonReminderJobData,
+  LoanRecalledJobData,
   JobStatus,
   NotificationJob,
   NotificationError,
@@ -8,7 +8,14 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { createNotificationService } from './notification-service.js';
 import type { NotificationQueue } from './notification-queue.js';
 import type { NotificationJobData } from './types.js';
-import { createUserId, createBookId, createLoanId } from '../../shared/branded-types.js';
+import {
+  createUserId,
+  createBookId,
+  createLoanId,
+  createReservationId,
+  createCopyId,
+} from '../../shared/branded-types.js';
+import { createInMemoryEventBus } from '../../shared/domain-events.js';
 
 describe('NotificationService', () => {
   let mockQueue: NotificationQueue;
@@ -128,6 +135,79 @@ describe('NotificationService', () => {
     });
   });
 
+  describe('sendDueSoonReminder', () => {
+    it('返却期限を含む返却期限前リマインダーをキューに追加できる', async () => {
+      // Arrange
+      const service = createNotificationService(mockQueue);
+      const userId = createUserId('user-1');
+      const loanId = createLoanId('loan-1');
+      const dueDate = new Date('2024-12-20');
+
+      // Act
+      const result = await service.sendDueSoonReminder(userId, loanId, dueDate);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(enqueuedJobs[0]).toMatchObject({
+        type: 'DUE_SOON_REMINDER',
+        userId: userId,
+        loanId: loanId,
+        dueDate: dueDate,
+      });
+    });
+  });
+
+  describe('sendLoanRecalled', () => {
+    it('短縮後の返却期限を含むリコール通知をキューに追加できる', async () => {
+      // Arrange
+      const service = createNotificationService(mockQueue);
+      const userId = createUserId('user-1');
+      const loanId = createLoanId('loan-1');
+      const dueDate = new Date('2024-12-20');
+
+      // Act
+      const result = await service.sendLoanRecalled(userId, loanId, dueDate);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(enqueuedJobs[0]).toMatchObject({
+        type: 'LOAN_RECALLED',
+        userId: userId,
+        loanId: loanId,
+        dueDate: dueDate,
+      });
+    });
+  });
+
+  describe('イベント購読', () => {
+    it('予約の取り置き開始イベントで予約者に貸出可能通知を送信する', async () => {
+      // Arrange
+      const eventBus = createInMemoryEventBus();
+      createNotificationService(mockQueue, eventBus);
+      const userId = createUserId('user-1');
+      const bookId = createBookId('book-1');
+
+      // Act
+      await eventBus.publish({
+        type: 'ReservationNotified',
+        reservationId: createReservationId('reservation-1'),
+        userId,
+        bookId,
+        copyId: createCopyId('copy-1'),
+        expiresAt: new Date('2024-12-27'),
+        occurredAt: new Date('2024-12-20'),
+      });
+
+      // Assert
+      expect(enqueuedJobs).toHaveLength(1);
+      expect(enqueuedJobs[0]).toMatchObject({
+        type: 'RESERVATION_AVAILABLE',
+        userId: userId,
+        bookId: bookId,
+      });
+    });
+  });
+
   describe('getJobStatus', () => {
     it('ジョブのステータスを取得できる', async () => {
       // Arrange
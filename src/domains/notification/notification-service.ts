@@ -2,10 +2,13 @@
  * NotificationService - 通知サービス
  *
  * 非同期通知の送信を提供します。
+ * イベントバスが指定された場合は予約の取り置き開始（ReservationNotified）を購読し、
+ * 予約者に貸出可能通知を送信します。
  */
 
 import type { Result } from '../../shared/result.js';
 import type { BookId, LoanId, UserId } from '../../shared/branded-types.js';
+import type { EventBus } from '../../shared/domain-events.js';
 import type { NotificationQueue, JobStatusInfo } from './notification-queue.js';
 import type { NotificationError } from './types.js';
 
@@ -34,6 +37,32 @@ export interface NotificationService {
    */
   sendOverdueReminder(userId: UserId, loanId: LoanId): Promise<Result<void, NotificationError>>;
 
+  /**
+   * 返却期限前リマインダー通知を送信
+   * @param userId - 利用者ID
+   * @param loanId - 貸出ID
+   * @param dueDate - 返却期限
+   * @returns 成功またはエラー
+   */
+  sendDueSoonReminder(
+    userId: UserId,
+    loanId: LoanId,
+    dueDate: Date
+  ): Promise<Result<void, NotificationError>>;
+
+  /**
+   * リコール（返却期限の短縮）通知を送信
+   * @param userId - 利用者ID
+   * @param loanId - 貸出ID
+   * @param dueDate - 短縮後の返却期限
+   * @returns 成功またはエラー
+   */
+  sendLoanRecalled(
+    userId: UserId,
+    loanId: LoanId,
+    dueDate: Date
+  ): Promise<Result<void, NotificationError>>;
+
   /**
    * ジョブのステータスを取得
    * @param jobId - ジョブID
@@ -49,10 +78,14 @@ export interface NotificationService {
 /**
  * NotificationService を作成
  * @param queue - 通知キュー
+ * @param eventBus - イベントバス（省略時はイベントを購読しない）
  * @returns NotificationService
  */
-export function createNotificationService(queue: NotificationQueue): NotificationService {
-  return {
+export function createNotificationService(
+  queue: NotificationQueue,
+  eventBus?: EventBus
+): NotificationService {
+  const service: NotificationService = {
     async sendReservationAvailable(
       userId: UserId,
       bookId: BookId
@@ -89,8 +122,55 @@ export function createNotificationService(queue: NotificationQueue): Notificatio
       return { success: true, value: undefined };
     },
 
+    async sendDueSoonReminder(
+      userId: UserId,
+      loanId: LoanId,
+      dueDate: Date
+    ): Promise<Result<void, NotificationError>> {
+      const result = await queue.enqueue({
+        type: 'DUE_SOON_REMINDER',
+        userId,
+        loanId,
+        dueDate,
+        timestamp: new Date(),
+      });
+
+      if (!result.success) {
+        return result;
+      }
+
+      return { success: true, value: undefined };
+    },
+
+    async sendLoanRecalled(
+      userId: UserId,
+      loanId: LoanId,
+      dueDate: Date
+    ): Promise<Result<void, NotificationError>> {
+      const result = await queue.enqueue({
+        type: 'LOAN_RECALLED',
+        userId,
+        loanId,
+        dueDate,
+        timestamp: new Date(),
+      });
+
+      if (!result.success) {
+        return result;
+      }
+
+      return { success: true, value: undefined };
+    },
+
     async getJobStatus(jobId: string): Promise<Result<JobStatusInfo, NotificationError>> {
       return queue.getJobStatus(jobId);
     },
   };
+
+  // 予約の取り置き開始時に予約者へ貸出可能通知を送信
+  eventBus?.subscribe('ReservationNotified', async (event) => {
+    await service.sendReservationAvailable(event.userId, event.bookId);
+  });
+
+  return service;
 }
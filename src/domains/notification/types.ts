@@ -13,7 +13,9 @@ import type { BookId, LoanId, UserId } from '../../shared/branded-types.js';
 /** 通知タイプ */
 export type NotificationType =
   | 'RESERVATION_AVAILABLE' // 予約書籍の貸出可能通知
-  | 'OVERDUE_REMINDER'; // 延滞リマインダー
+  | 'OVERDUE_REMINDER' // 延滞リマインダー
+  | 'DUE_SOON_REMINDER' // 返却期限前リマインダー
+  | 'LOAN_RECALLED'; // リコール（返却期限の短縮）通知
 
 // ============================================
 // 通知ジョブ型定義
@@ -35,8 +37,32 @@ export interface OverdueReminderJobData {
   readonly timestamp: Date;
 }
 
+/** 返却期限前リマインダー通知ジョブデータ */
+export interface DueSoonReminderJobData {
+  readonly type: 'DUE_SOON_REMINDER';
+  readonly userId: UserId;
+  readonly loanId: LoanId;
+  /** 返却期限 */
+  readonly dueDate: Date;
+  readonly timestamp: Date;
+}
+
+/** リコール通知ジョブデータ */
+export interface LoanRecalledJobData {
+  readonly type: 'LOAN_RECALLED';
+  readonly userId: UserId;
+  readonly loanId: LoanId;
+  /** 短縮後の返却期限 */
+  readonly dueDate: Date;
+  readonly timestamp: Date;
+}
+
 /** 通知ジョブデータ（ユニオン型） */
-export type NotificationJobData = ReservationAvailableJobData | OverdueReminderJobData;
+export type NotificationJobData =
+  | ReservationAvailableJobData
+  | OverdueReminderJobData
+  | DueSoonReminderJobData
+  | LoanRecalledJobData;
 
 // ============================================
 // ジョブ状態型定義
@@ -0,0 +1,5 @@
+// PurchaseSuggestion domain - 購入リクエスト（選書）
+export * from './types.js';
+export * from './purchase-suggestion-repository.js';
+export * from './purchase-suggestion-service.js';
+export * from './purchase-suggestion-controller.js';
@@ -0,0 +1,323 @@
+/**
+ * PurchaseSuggestionController テスト
+ *
+ * 購入リクエストREST APIのテストを記述します。
+ *
+ * エンドポイント:
+ * - POST /api/purchase-suggestions - 購入リクエスト登録
+ * - GET /api/purchase-suggestions - 購入リクエスト一覧取得
+ * - POST /api/purchase-suggestions/:id/approve - 承認（図書館員のみ）
+ * - POST /api/purchase-suggestions/:id/reject - 却下（図書館員のみ）
+ * - POST /api/purchase-suggestions/:id/order - 発注済みにする（図書館員のみ）
+ * - POST /api/purchase-suggestions/:id/receive - 受け入れ（図書館員のみ）
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { type Express } from 'express';
+import request from 'supertest';
+import { createPurchaseSuggestionController } from './purchase-suggestion-controller.js';
+import type { PurchaseSuggestionService } from './purchase-suggestion-service.js';
+import type { PurchaseSuggestion } from './types.js';
+import { createPurchaseSuggestionId, createUserId } from '../../shared/branded-types.js';
+import { ok, err } from '../../shared/result.js';
+import type { AuthenticatedRequest } from '../auth/rbac.js';
+import type { UserRole } from '../auth/types.js';
+
+// ============================================
+// モックファクトリ
+// ============================================
+
+function createMockPurchaseSuggestionService(): PurchaseSuggestionService {
+  return {
+    submitSuggestion: vi.fn(),
+    getSuggestions: vi.fn(),
+    approveSuggestion: vi.fn(),
+    rejectSuggestion: vi.fn(),
+    markOrdered: vi.fn(),
+    receiveSuggestion: vi.fn(),
+  };
+}
+
+// ============================================
+// テストデータ
+// ============================================
+
+const testSuggestion: PurchaseSuggestion = {
+  id: createPurchaseSuggestionId('suggestion-001'),
+  userId: createUserId('user-001'),
+  title: '新しい本',
+  author: '著者A',
+  isbn: null,
+  note: null,
+  status: 'SUBMITTED',
+  handledBy: null,
+  rejectionReason: null,
+  bookId: null,
+  reservationId: null,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+};
+
+// ============================================
+// テストセットアップ
+// ============================================
+
+function createTestApp(
+  purchaseSuggestionService: PurchaseSuggestionService,
+  role?: UserRole
+): Express {
+  const app = express();
+  app.use(express.json());
+  if (role !== undefined) {
+    app.use((req: AuthenticatedRequest, _res, next) => {
+      req.session = {
+        userId: createUserId('staff-001'),
+        role,
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      };
+      next();
+    });
+  }
+  app.use(
+    '/api/purchase-suggestions',
+    createPurchaseSuggestionController(purchaseSuggestionService)
+  );
+  return app;
+}
+
+// ============================================
+// テスト
+// ============================================
+
+describe('PurchaseSuggestionController', () => {
+  let mockService: PurchaseSuggestionService;
+  let app: Express;
+
+  beforeEach(() => {
+    mockService = createMockPurchaseSuggestionService();
+    app = createTestApp(mockService, 'librarian');
+  });
+
+  describe('POST /api/purchase-suggestions - 購入リクエスト登録', () => {
+    it('利用者ロールでも購入リクエストを登録でき201を返す', async () => {
+      // Arrange
+      vi.mocked(mockService.submitSuggestion).mockResolvedValue(ok(testSuggestion));
+
+      // Act
+      const response = await request(createTestApp(mockService, 'patron'))
+        .post('/api/purchase-suggestions')
+        .send({ userId: 'user-001', title: '新しい本', author: '著者A' });
+
+      // Assert
+      expect(response.status).toBe(201);
+      expect(mockService.submitSuggestion).toHaveBeenCalledWith({
+        userId: 'user-001',
+        title: '新しい本',
+        author: '著者A',
+      });
+    });
+
+    it('userIdが未指定の場合は400を返す', async () => {
+      // Act
+      const response = await request(app)
+        .post('/api/purchase-suggestions')
+        .send({ title: '新しい本' });
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('userId');
+      expect(mockService.submitSuggestion).not.toHaveBeenCalled();
+    });
+
+    it('既に蔵書にある書籍の場合は409を返す', async () => {
+      // Arrange
+      vi.mocked(mockService.submitSuggestion).mockResolvedValue(
+        err({ type: 'BOOK_ALREADY_IN_CATALOGUE', isbn: '9784003101018', bookId: 'book-001' })
+      );
+
+      // Act
+      const response = await request(app)
+        .post('/api/purchase-suggestions')
+        .send({ userId: 'user-001', title: '新しい本', isbn: '9784003101018' });
+
+      // Assert
+      expect(response.status).toBe(409);
+      expect(response.body.error.bookId).toBe('book-001');
+    });
+  });
+
+  describe('GET /api/purchase-suggestions - 購入リクエスト一覧取得', () => {
+    it('ステータスと利用者で絞り込んで取得できる', async () => {
+      // Arrange
+      vi.mocked(mockService.getSuggestions).mockResolvedValue(ok([testSuggestion]));
+
+      // Act
+      const response = await request(app)
+        .get('/api/purchase-suggestions')
+        .query({ status: 'SUBMITTED', userId: 'user-001' });
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(mockService.getSuggestions).toHaveBeenCalledWith({
+        status: 'SUBMITTED',
+        userId: 'user-001',
+      });
+    });
+
+    it('不正なステータスの場合は400を返す', async () => {
+      // Act
+      const response = await request(app)
+        .get('/api/purchase-suggestions')
+        .query({ status: 'UNKNOWN' });
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(mockService.getSuggestions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/purchase-suggestions/:id/approve - 承認', () => {
+    it('操作した職員を担当者として承認し200を返す', async () => {
+      // Arrange
+      vi.mocked(mockService.approveSuggestion).mockResolvedValue(
+        ok({ ...testSuggestion, status: 'APPROVED' })
+      );
+
+      // Act
+      const response = await request(app).post('/api/purchase-suggestions/suggestion-001/approve');
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('APPROVED');
+      expect(mockService.approveSuggestion).toHaveBeenCalledWith('suggestion-001', 'staff-001');
+    });
+
+    it('ステータスが不正な場合は409を返す', async () => {
+      // Arrange
+      vi.mocked(mockService.approveSuggestion).mockResolvedValue(
+        err({
+          type: 'INVALID_SUGGESTION_STATUS',
+          suggestionId: 'suggestion-001',
+          currentStatus: 'REJECTED',
+          expectedStatus: 'SUBMITTED',
+        })
+      );
+
+      // Act
+      const response = await request(app).post('/api/purchase-suggestions/suggestion-001/approve');
+
+      // Assert
+      expect(response.status).toBe(409);
+    });
+
+    it('利用者ロールの場合は403を返す', async () => {
+      // Act
+      const response = await request(createTestApp(mockService, 'patron')).post(
+        '/api/purchase-suggestions/suggestion-001/approve'
+      );
+
+      // Assert
+      expect(response.status).toBe(403);
+      expect(mockService.approveSuggestion).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/purchase-suggestions/:id/reject - 却下', () => {
+    it('理由を指定して却下し200を返す', async () => {
+      // Arrange
+      vi.mocked(mockService.rejectSuggestion).mockResolvedValue(
+        ok({ ...testSuggestion, status: 'REJECTED', rejectionReason: '収集方針の対象外' })
+      );
+
+      // Act
+      const response = await request(app)
+        .post('/api/purchase-suggestions/suggestion-001/reject')
+        .send({ reason: '収集方針の対象外' });
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockService.rejectSuggestion).toHaveBeenCalledWith(
+        'suggestion-001',
+        'staff-001',
+        '収集方針の対象外'
+      );
+    });
+  });
+
+  describe('POST /api/purchase-suggestions/:id/order - 発注済みにする', () => {
+    it('発注済みにして200を返す', async () => {
+      // Arrange
+      vi.mocked(mockService.markOrdered).mockResolvedValue(
+        ok({ ...testSuggestion, status: 'ORDERED' })
+      );
+
+      // Act
+      const response = await request(app).post('/api/purchase-suggestions/suggestion-001/order');
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockService.markOrdered).toHaveBeenCalledWith('suggestion-001', 'staff-001');
+    });
+  });
+
+  describe('POST /api/purchase-suggestions/:id/receive - 受け入れ', () => {
+    it('受け入れた書籍を指定して受け入れ、予約の結果を返す', async () => {
+      // Arrange
+      vi.mocked(mockService.receiveSuggestion).mockResolvedValue(
+        ok({
+          suggestion: { ...testSuggestion, status: 'RECEIVED' },
+          reservationError: {
+            type: 'PATRON_BLOCKED',
+            userId: 'user-001',
+            balance: 1500,
+            threshold: 1000,
+          },
+        })
+      );
+
+      // Act
+      const response = await request(app)
+        .post('/api/purchase-suggestions/suggestion-001/receive')
+        .send({ bookId: 'book-001' });
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body.suggestion.status).toBe('RECEIVED');
+      expect(response.body.reservationError.type).toBe('PATRON_BLOCKED');
+      expect(mockService.receiveSuggestion).toHaveBeenCalledWith(
+        'suggestion-001',
+        'book-001',
+        'staff-001'
+      );
+    });
+
+    it('bookIdが未指定の場合は400を返す', async () => {
+      // Act
+      const response = await request(app)
+        .post('/api/purchase-suggestions/suggestion-001/receive')
+        .send({});
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body.error.field).toBe('bookId');
+      expect(mockService.receiveSuggestion).not.toHaveBeenCalled();
+    });
+
+    it('受け入れた書籍が見つからない場合は404を返す', async () => {
+      // Arrange
+      vi.mocked(mockService.receiveSuggestion).mockResolvedValue(
+        err({ type: 'BOOK_NOT_FOUND', bookId: 'book-999' })
+      );
+
+      // Act
+      const response = await request(app)
+        .post('/api/purchase-suggestions/suggestion-001/receive')
+        .send({ bookId: 'book-999' });
+
+      // Assert
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * PurchaseSuggestionController - 購入リクエストREST APIコントローラー
+ *
+ * 購入リクエストの登録・一覧と、図書館員による選書の進行のREST APIエンドポイントを提供します。
+ * 登録・一覧は利用者も行え、承認・却下・発注・受け入れは図書館員のみ行えます。
+ *
+ * エンドポイント:
+ * - POST /api/purchase-suggestions - 購入リクエスト登録
+ * - GET /api/purchase-suggestions - 購入リクエスト一覧取得（status, userId で絞り込み）
+ * - POST /api/purchase-suggestions/:id/approve - 承認（図書館員のみ）
+ * - POST /api/purchase-suggestions/:id/reject - 却下（図書館員のみ）
+ * - POST /api/purchase-suggestions/:id/order - 発注済みにする（図書館員のみ）
+ * - POST /api/purchase-suggestions/:id/receive - 受け入れ・リクエストした利用者の予約（図書館員のみ）
+ */
+
+import { Router, type Request, type Response } from 'express';
+import type { BookId, PurchaseSuggestionId, UserId } from '../../shared/branded-types.js';
+import { isOk } from '../../shared/result.js';
+import { requireLibrarian, type AuthenticatedRequest } from '../auth/rbac.js';
+import type { PurchaseSuggestionService } from './purchase-suggestion-service.js';
+import type {
+  PurchaseSuggestionError,
+  PurchaseSuggestionFilter,
+  PurchaseSuggestionStatus,
+} from './types.js';
+
+// ============================================
+// リクエストボディ・クエリ型定義
+// ============================================
+
+/** 購入リクエスト登録リクエストボディ */
+interface SubmitSuggestionRequestBody {
+  userId?: string;
+  title?: string;
+  author?: string;
+  isbn?: string;
+  note?: string;
+}
+
+/** 購入リクエスト一覧クエリパラメータ */
+interface SuggestionListQuery {
+  status?: string;
+  userId?: string;
+}
+
+/** 却下リクエストボディ */
+interface RejectSuggestionRequestBody {
+  reason?: string;
+}
+
+/** 受け入れリクエストボディ */
+interface ReceiveSuggestionRequestBody {
+  bookId?: string;
+}
+
+// ============================================
+// 定数
+// ============================================
+
+/** 一覧の絞り込みに指定できるステータス */
+const SUGGESTION_STATUSES: readonly PurchaseSuggestionStatus[] = [
+  'SUBMITTED',
+  'APPROVED',
+  'REJECTED',
+  'ORDERED',
+  'RECEIVED',
+];
+
+// ============================================
+// HTTPステータスコード決定
+// ============================================
+
+/**
+ * PurchaseSuggestionErrorに基づいてHTTPステータスコードを決定
+ */
+function getErrorStatusCode(error: PurchaseSuggestionError): number {
+  switch (error.type) {
+    case 'VALIDATION_ERROR':
+      return 400;
+    case 'PURCHASE_SUGGESTION_NOT_FOUND':
+    case 'USER_NOT_FOUND':
+    case 'BOOK_NOT_FOUND':
+      return 404;
+    case 'BOOK_ALREADY_IN_CATALOGUE':
+    case 'INVALID_SUGGESTION_STATUS':
+      return 409;
+  }
+}
+
+/**
+ * 文字列が購入リクエストステータスか判定
+ */
+function isSuggestionStatus(value: string): value is PurchaseSuggestionStatus {
+  return (SUGGESTION_STATUSES as readonly string[]).includes(value);
+}
+
+// ============================================
+// コントローラーファクトリ
+// ============================================
+
+/**
+ * PurchaseSuggestionControllerを作成
+ * @param purchaseSuggestionService - PurchaseSuggestionServiceインスタンス
+ * @returns Expressルーター
+ */
+export function createPurchaseSuggestionController(
+  purchaseSuggestionService: PurchaseSuggestionService
+): Router {
+  const router = Router();
+
+  // ============================================
+  // POST /api/purchase-suggestions - 購入リクエスト登録
+  // ============================================
+
+  router.post('/', async (req: Request, res: Response): Promise<void> => {
+    const body = (req.body ?? {}) as SubmitSuggestionRequestBody;
+
+    // バリデーション: userIdが必須
+    if (body.userId === undefined || body.userId === '') {
+      res.status(400).json({
+        error: {
+          type: 'VALIDATION_ERROR',
+          field: 'userId',
+          message: '利用者IDは必須です',
+        },
+      });
+      return;
+    }
+
+    const result = await purchaseSuggestionService.submitSuggestion({
+      userId: body.userId as UserId,
+      title: body.title ?? '',
+      ...(body.author !== undefined && { author: body.author }),
+      ...(body.isbn !== undefined && { isbn: body.isbn }),
+      ...(body.note !== undefined && { note: body.note }),
+    });
+
+    if (isOk(result)) {
+      res.status(201).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // GET /api/purchase-suggestions - 購入リクエスト一覧取得
+  // ============================================
+
+  router.get('/', async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as SuggestionListQuery;
+
+    // バリデーション: statusは購入リクエストステータスのいずれか
+    if (query.status !== undefined && !isSuggestionStatus(query.status)) {
+      res.status(400).json({
+        error: {
+          type: 'VALIDATION_ERROR',
+          field: 'status',
+          message: `statusは ${SUGGESTION_STATUSES.join(', ')} のいずれかを指定してください`,
+        },
+      });
+      return;
+    }
+
+    const filter: PurchaseSuggestionFilter = {
+      ...(query.status !== undefined && { status: query.status }),
+      ...(query.userId !== undefined && query.userId !== '' && { userId: query.userId as UserId }),
+    };
+
+    const result = await purchaseSuggestionService.getSuggestions(filter);
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    }
+    // PurchaseSuggestionService.getSuggestions は never エラーを返すため、else ブランチは到達不可能
+  });
+
+  // ============================================
+  // POST /api/purchase-suggestions/:id/approve - 承認
+  // ============================================
+
+  router.post(
+    '/:id/approve',
+    requireLibrarian,
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+      // requireLibrarian を通過しているためセッションは存在する
+      if (req.session === undefined) {
+        res.status(401).json({ error: { type: 'UNAUTHORIZED', message: '認証が必要です' } });
+        return;
+      }
+
+      const result = await purchaseSuggestionService.approveSuggestion(
+        req.params.id as PurchaseSuggestionId,
+        req.session.userId
+      );
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // POST /api/purchase-suggestions/:id/reject - 却下
+  // ============================================
+
+  router.post(
+    '/:id/reject',
+    requireLibrarian,
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+      // requireLibrarian を通過しているためセッションは存在する
+      if (req.session === undefined) {
+        res.status(401).json({ error: { type: 'UNAUTHORIZED', message: '認証が必要です' } });
+        return;
+      }
+
+      const body = (req.body ?? {}) as RejectSuggestionRequestBody;
+      const result = await purchaseSuggestionService.rejectSuggestion(
+        req.params.id as PurchaseSuggestionId,
+        req.session.userId,
+        body.reason ?? ''
+      );
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // POST /api/purchase-suggestions/:id/order - 発注済みにする
+  // ============================================
+
+  router.post(
+    '/:id/order',
+    requireLibrarian,
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+      // requireLibrarian を通過しているためセッションは存在する
+      if (req.session === undefined) {
+        res.status(401).json({ error: { type: 'UNAUTHORIZED', message: '認証が必要です' } });
+        return;
+      }
+
+      const result = await purchaseSuggestionService.markOrdered(
+        req.params.id as PurchaseSuggestionId,
+        req.session.userId
+      );
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // POST /api/purchase-suggestions/:id/receive - 受け入れ
+  // ============================================
+
+  router.post(
+    '/:id/receive',
+    requireLibrarian,
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+      // requireLibrarian を通過しているためセッションは存在する
+      if (req.session === undefined) {
+        res.status(401).json({ error: { type: 'UNAUTHORIZED', message: '認証が必要です' } });
+        return;
+      }
+
+      // バリデーション: bookIdが必須（受け入れた書籍は先に蔵書として登録する）
+      const body = (req.body ?? {}) as ReceiveSuggestionRequestBody;
+      if (body.bookId === undefined || body.bookId === '') {
+        res.status(400).json({
+          error: {
+            type: 'VALIDATION_ERROR',
+            field: 'bookId',
+            message: '受け入れた書籍の書籍IDは必須です',
+          },
+        });
+        return;
+      }
+
+      const result = await purchaseSuggestionService.receiveSuggestion(
+        req.params.id as PurchaseSuggestionId,
+        body.bookId as BookId,
+        req.session.userId
+      );
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  return router;
+}
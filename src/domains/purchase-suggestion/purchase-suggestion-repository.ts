@@ -0,0 +1,66 @@
+/**
+ * PurchaseSuggestionRepository Interface
+ *
+ * 購入リクエストデータの永続化を担当するリポジトリのインターフェース定義。
+ * 具体的な実装は Infrastructure 層で行います。
+ */
+
+import type { PurchaseSuggestionId, ReservationId } from '../../shared/branded-types.js';
+import type { Result } from '../../shared/result.js';
+import type {
+  PurchaseSuggestion,
+  CreatePurchaseSuggestionInput,
+  PurchaseSuggestionStatusChange,
+  PurchaseSuggestionFilter,
+  PurchaseSuggestionError,
+} from './types.js';
+
+// ============================================
+// リポジトリインターフェース
+// ============================================
+
+/** 購入リクエストリポジトリ */
+export interface PurchaseSuggestionRepository {
+  /**
+   * 新しい購入リクエストを作成（SUBMITTED状態）
+   * @param input - 購入リクエスト登録入力
+   * @returns 作成された購入リクエスト
+   */
+  create(input: CreatePurchaseSuggestionInput): Promise<PurchaseSuggestion>;
+
+  /**
+   * IDで購入リクエストを取得
+   * @param id - 購入リクエストID
+   * @returns 購入リクエストまたはPURCHASE_SUGGESTION_NOT_FOUNDエラー
+   */
+  findById(id: PurchaseSuggestionId): Promise<Result<PurchaseSuggestion, PurchaseSuggestionError>>;
+
+  /**
+   * 購入リクエスト一覧を取得
+   * @param filter - 絞り込み条件（ステータス・リクエストした利用者）
+   * @returns 購入リクエスト一覧（登録日の古い順）
+   */
+  findAll(filter: PurchaseSuggestionFilter): Promise<PurchaseSuggestion[]>;
+
+  /**
+   * 購入リクエストのステータスを変更
+   * @param id - 購入リクエストID
+   * @param change - 変更後のステータスと担当職員（却下理由・受け入れた書籍）
+   * @returns 更新された購入リクエストまたはエラー
+   */
+  updateStatus(
+    id: PurchaseSuggestionId,
+    change: PurchaseSuggestionStatusChange
+  ): Promise<Result<PurchaseSuggestion, PurchaseSuggestionError>>;
+
+  /**
+   * 受け入れ時に作成した予約を記録
+   * @param id - 購入リクエストID
+   * @param reservationId - リクエストした利用者の予約ID
+   * @returns 更新された購入リクエストまたはエラー
+   */
+  assignReservation(
+    id: PurchaseSuggestionId,
+    reservationId: ReservationId
+  ): Promise<Result<PurchaseSuggestion, PurchaseSuggestionError>>;
+}
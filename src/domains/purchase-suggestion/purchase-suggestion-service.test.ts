@@ -0,0 +1,449 @@
+/**
+ * PurchaseSuggestionService テスト
+ *
+ * 購入リクエストの登録と、承認・却下・発注・受け入れ（リクエストした利用者の予約）のテスト。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  createPurchaseSuggestionService,
+  type PurchaseSuggestionService,
+} from './purchase-suggestion-service.js';
+import type { PurchaseSuggestionRepository } from './purchase-suggestion-repository.js';
+import type { PurchaseSuggestion } from './types.js';
+import type { BookRepository } from '../book/book-repository.js';
+import type { UserRepository } from '../user/user-repository.js';
+import type { ReservationService } from '../reservation/reservation-service.js';
+import type { Book } from '../book/types.js';
+import type { User } from '../user/types.js';
+import type { Reservation } from '../reservation/types.js';
+import {
+  createBookId,
+  createPurchaseSuggestionId,
+  createReservationId,
+  createUserId,
+} from '../../shared/branded-types.js';
+import { ok, err, isOk, isErr } from '../../shared/result.js';
+
+// ============================================
+// モックファクトリ
+// ============================================
+
+function createMockPurchaseSuggestionRepository(): PurchaseSuggestionRepository {
+  return {
+    create: vi.fn(),
+    findById: vi.fn(),
+    findAll: vi.fn(),
+    updateStatus: vi.fn(),
+    assignReservation: vi.fn(),
+  };
+}
+
+function createTestSuggestion(overrides: Partial<PurchaseSuggestion> = {}): PurchaseSuggestion {
+  return {
+    id: createPurchaseSuggestionId('suggestion-001'),
+    userId: createUserId('user-001'),
+    title: '新しい本',
+    author: '著者A',
+    isbn: '9784003101018',
+    note: null,
+    status: 'SUBMITTED',
+    handledBy: null,
+    rejectionReason: null,
+    bookId: null,
+    reservationId: null,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    ...overrides,
+  };
+}
+
+function createTestBook(): Book {
+  return {
+    id: createBookId('book-001'),
+    title: '新しい本',
+    author: '著者A',
+    contributors: [],
+    publisher: '出版社A',
+    publicationYear: null,
+    isbn: '9784003101018',
+    category: null,
+    classification: null,
+    callNumber: null,
+    subjectHeadings: [],
+    replacementCost: null,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+}
+
+function createTestUser(): User {
+  return {
+    id: createUserId('user-001'),
+    name: 'テスト利用者',
+    email: 'test@example.com',
+    address: '東京都',
+    phone: '03-1234-5678',
+    registeredAt: new Date('2024-01-01'),
+    loanLimit: 5,
+    patronCategory: null,
+  };
+}
+
+function createTestReservation(): Reservation {
+  return {
+    id: createReservationId('reservation-001'),
+    userId: createUserId('user-001'),
+    bookId: createBookId('book-001'),
+    reservedAt: new Date('2024-02-01'),
+    notifiedAt: new Date('2024-02-01'),
+    expiresAt: new Date('2024-02-08'),
+    status: 'NOTIFIED',
+    queuePosition: 1,
+    copyId: null,
+    suspendedUntil: null,
+    pickupLocationId: null,
+  };
+}
+
+// ============================================
+// テスト
+// ============================================
+
+describe('PurchaseSuggestionService', () => {
+  let service: PurchaseSuggestionService;
+  let mockRepository: PurchaseSuggestionRepository;
+  let userRepository: Pick<UserRepository, 'findById'>;
+  let bookRepository: Pick<BookRepository, 'findById' | 'findByIsbn'>;
+  let reservationService: Pick<ReservationService, 'placeAcquisitionHold'>;
+
+  beforeEach(() => {
+    mockRepository = createMockPurchaseSuggestionRepository();
+    userRepository = {
+      findById: vi.fn().mockResolvedValue(ok(createTestUser())),
+    };
+    bookRepository = {
+      findById: vi.fn().mockResolvedValue(ok(createTestBook())),
+      findByIsbn: vi.fn().mockResolvedValue(null),
+    };
+    reservationService = {
+      placeAcquisitionHold: vi.fn().mockResolvedValue(ok(createTestReservation())),
+    };
+    service = createPurchaseSuggestionService(
+      mockRepository,
+      userRepository,
+      bookRepository,
+      reservationService
+    );
+  });
+
+  describe('submitSuggestion', () => {
+    it('蔵書にない書籍の購入リクエストを登録できる', async () => {
+      // Arrange
+      vi.mocked(mockRepository.create).mockResolvedValue(createTestSuggestion());
+
+      // Act
+      const result = await service.submitSuggestion({
+        userId: createUserId('user-001'),
+        title: ' 新しい本 ',
+        author: '著者A',
+        isbn: '9784003101018',
+        note: ' ',
+      });
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        userId: 'user-001',
+        title: '新しい本',
+        author: '著者A',
+        isbn: '9784003101018',
+      });
+    });
+
+    it('ISBN-10・ハイフン付きのISBNは正規形で登録する', async () => {
+      // Act
+      await service.submitSuggestion({
+        userId: createUserId('user-001'),
+        title: '新しい本',
+        isbn: '4-00-310101-4',
+      });
+
+      // Assert
+      expect(bookRepository.findByIsbn).toHaveBeenCalledWith('9784003101018');
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ isbn: '9784003101018' })
+      );
+    });
+
+    it('既に蔵書にある書籍はBOOK_ALREADY_IN_CATALOGUEエラーを返す', async () => {
+      // Arrange
+      vi.mocked(bookRepository.findByIsbn).mockResolvedValue(createTestBook());
+
+      // Act
+      const result = await service.submitSuggestion({
+        userId: createUserId('user-001'),
+        title: '新しい本',
+        isbn: '9784003101018',
+      });
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual({
+          type: 'BOOK_ALREADY_IN_CATALOGUE',
+          isbn: '9784003101018',
+          bookId: 'book-001',
+        });
+      }
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('タイトルが空の場合はバリデーションエラーを返す', async () => {
+      // Act
+      const result = await service.submitSuggestion({
+        userId: createUserId('user-001'),
+        title: ' ',
+      });
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+        expect(result.error.field).toBe('title');
+      }
+    });
+
+    it('ISBNの形式が不正な場合はバリデーションエラーを返す', async () => {
+      // Act
+      const result = await service.submitSuggestion({
+        userId: createUserId('user-001'),
+        title: '新しい本',
+        isbn: '1234',
+      });
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+        expect(result.error.field).toBe('isbn');
+      }
+    });
+
+    it('存在しない利用者の場合はUSER_NOT_FOUNDエラーを返す', async () => {
+      // Arrange
+      vi.mocked(userRepository.findById).mockResolvedValue(
+        err({ type: 'NOT_FOUND', id: 'user-999' })
+      );
+
+      // Act
+      const result = await service.submitSuggestion({
+        userId: createUserId('user-999'),
+        title: '新しい本',
+      });
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('USER_NOT_FOUND');
+      }
+    });
+  });
+
+  describe('選書の進行', () => {
+    it('登録されたリクエストを承認し、担当職員を記録する', async () => {
+      // Arrange
+      vi.mocked(mockRepository.findById).mockResolvedValue(ok(createTestSuggestion()));
+      vi.mocked(mockRepository.updateStatus).mockResolvedValue(
+        ok(createTestSuggestion({ status: 'APPROVED' }))
+      );
+
+      // Act
+      const result = await service.approveSuggestion(
+        createPurchaseSuggestionId('suggestion-001'),
+        createUserId('staff-001')
+      );
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      expect(mockRepository.updateStatus).toHaveBeenCalledWith('suggestion-001', {
+        status: 'APPROVED',
+        handledBy: 'staff-001',
+      });
+    });
+
+    it('却下する場合は理由を記録する', async () => {
+      // Arrange
+      vi.mocked(mockRepository.findById).mockResolvedValue(ok(createTestSuggestion()));
+      vi.mocked(mockRepository.updateStatus).mockResolvedValue(
+        ok(createTestSuggestion({ status: 'REJECTED' }))
+      );
+
+      // Act
+      const result = await service.rejectSuggestion(
+        createPurchaseSuggestionId('suggestion-001'),
+        createUserId('staff-001'),
+        ' 収集方針の対象外 '
+      );
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      expect(mockRepository.updateStatus).toHaveBeenCalledWith('suggestion-001', {
+        status: 'REJECTED',
+        handledBy: 'staff-001',
+        rejectionReason: '収集方針の対象外',
+      });
+    });
+
+    it('却下の理由が空の場合はバリデーションエラーを返す', async () => {
+      // Act
+      const result = await service.rejectSuggestion(
+        createPurchaseSuggestionId('suggestion-001'),
+        createUserId('staff-001'),
+        ''
+      );
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+        expect(result.error.field).toBe('reason');
+      }
+      expect(mockRepository.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('承認されていないリクエストを発注済みにしようとした場合はINVALID_SUGGESTION_STATUSエラーを返す', async () => {
+      // Arrange
+      vi.mocked(mockRepository.findById).mockResolvedValue(ok(createTestSuggestion()));
+
+      // Act
+      const result = await service.markOrdered(
+        createPurchaseSuggestionId('suggestion-001'),
+        createUserId('staff-001')
+      );
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual({
+          type: 'INVALID_SUGGESTION_STATUS',
+          suggestionId: 'suggestion-001',
+          currentStatus: 'SUBMITTED',
+          expectedStatus: 'APPROVED',
+        });
+      }
+      expect(mockRepository.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('存在しないリクエストの場合はPURCHASE_SUGGESTION_NOT_FOUNDエラーを返す', async () => {
+      // Arrange
+      vi.mocked(mockRepository.findById).mockResolvedValue(
+        err({ type: 'PURCHASE_SUGGESTION_NOT_FOUND', suggestionId: 'suggestion-999' })
+      );
+
+      // Act
+      const result = await service.approveSuggestion(
+        createPurchaseSuggestionId('suggestion-999'),
+        createUserId('staff-001')
+      );
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('PURCHASE_SUGGESTION_NOT_FOUND');
+      }
+    });
+  });
+
+  describe('receiveSuggestion', () => {
+    beforeEach(() => {
+      vi.mocked(mockRepository.findById).mockResolvedValue(
+        ok(createTestSuggestion({ status: 'ORDERED' }))
+      );
+      vi.mocked(mockRepository.updateStatus).mockResolvedValue(
+        ok(createTestSuggestion({ status: 'RECEIVED', bookId: createBookId('book-001') }))
+      );
+    });
+
+    it('受け入れた書籍をリクエストした利用者のために予約し、予約を記録する', async () => {
+      // Arrange
+      vi.mocked(mockRepository.assignReservation).mockResolvedValue(
+        ok(
+          createTestSuggestion({
+            status: 'RECEIVED',
+            bookId: createBookId('book-001'),
+            reservationId: createReservationId('reservation-001'),
+          })
+        )
+      );
+
+      // Act
+      const result = await service.receiveSuggestion(
+        createPurchaseSuggestionId('suggestion-001'),
+        createBookId('book-001'),
+        createUserId('staff-001')
+      );
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.suggestion.reservationId).toBe('reservation-001');
+        expect(result.value.reservationError).toBeNull();
+      }
+      expect(mockRepository.updateStatus).toHaveBeenCalledWith('suggestion-001', {
+        status: 'RECEIVED',
+        handledBy: 'staff-001',
+        bookId: 'book-001',
+      });
+      expect(reservationService.placeAcquisitionHold).toHaveBeenCalledWith({
+        userId: 'user-001',
+        bookId: 'book-001',
+      });
+      expect(mockRepository.assignReservation).toHaveBeenCalledWith(
+        'suggestion-001',
+        'reservation-001'
+      );
+    });
+
+    it('予約を作成できなかった場合も受け入れは完了とし、理由を返す', async () => {
+      // Arrange
+      vi.mocked(reservationService.placeAcquisitionHold).mockResolvedValue(
+        err({ type: 'RESERVATION_LIMIT_EXCEEDED', userId: 'user-001', limit: 5, currentCount: 5 })
+      );
+
+      // Act
+      const result = await service.receiveSuggestion(
+        createPurchaseSuggestionId('suggestion-001'),
+        createBookId('book-001'),
+        createUserId('staff-001')
+      );
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.suggestion.status).toBe('RECEIVED');
+        expect(result.value.reservationError?.type).toBe('RESERVATION_LIMIT_EXCEEDED');
+      }
+      expect(mockRepository.assignReservation).not.toHaveBeenCalled();
+    });
+
+    it('受け入れた書籍が登録されていない場合はBOOK_NOT_FOUNDエラーを返す', async () => {
+      // Arrange
+      vi.mocked(bookRepository.findById).mockResolvedValue(
+        err({ type: 'NOT_FOUND', id: 'book-999' })
+      );
+
+      // Act
+      const result = await service.receiveSuggestion(
+        createPurchaseSuggestionId('suggestion-001'),
+        createBookId('book-999'),
+        createUserId('staff-001')
+      );
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('BOOK_NOT_FOUND');
+      }
+      expect(mockRepository.updateStatus).not.toHaveBeenCalled();
+      expect(reservationService.placeAcquisitionHold).not.toHaveBeenCalled();
+    });
+  });
+});
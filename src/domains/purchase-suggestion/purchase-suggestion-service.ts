@@ -0,0 +1,305 @@
+/**
+ * PurchaseSuggestionService - 購入リクエスト管理サービス
+ *
+ * 利用者・図書館員からの、蔵書にない書籍の購入リクエストの登録と選書の進行を提供します。
+ * リクエストは 登録 → 承認 → 発注 → 受け入れ の順に進み、承認前であれば却下できます。
+ * 受け入れ時は登録した書籍をリクエストした利用者のために予約します。
+ */
+
+import type { BookId, PurchaseSuggestionId, UserId } from '../../shared/branded-types.js';
+import type { Result } from '../../shared/result.js';
+import { ok, err, isErr } from '../../shared/result.js';
+import { validateRequired } from '../../shared/validation.js';
+import { normalizeISBN } from '../../shared/isbn.js';
+import type { BookRepository } from '../book/book-repository.js';
+import type { UserRepository } from '../user/user-repository.js';
+import type { ReservationService } from '../reservation/reservation-service.js';
+import type { PurchaseSuggestionRepository } from './purchase-suggestion-repository.js';
+import type {
+  PurchaseSuggestion,
+  CreatePurchaseSuggestionInput,
+  PurchaseSuggestionStatus,
+  PurchaseSuggestionStatusChange,
+  PurchaseSuggestionFilter,
+  ReceivePurchaseSuggestionResult,
+  PurchaseSuggestionError,
+} from './types.js';
+
+// ============================================
+// サービスインターフェース
+// ============================================
+
+/** PurchaseSuggestionService インターフェース */
+export interface PurchaseSuggestionService {
+  /**
+   * 購入リクエストを登録
+   * ISBNを指定した場合、その書籍が既に蔵書にあれば登録できない
+   * @param input - 購入リクエスト登録入力
+   * @returns 登録された購入リクエストまたはエラー
+   */
+  submitSuggestion(
+    input: CreatePurchaseSuggestionInput
+  ): Promise<Result<PurchaseSuggestion, PurchaseSuggestionError>>;
+
+  /**
+   * 購入リクエスト一覧を取得
+   * @param filter - 絞り込み条件（ステータス・リクエストした利用者）
+   * @returns 購入リクエスト一覧（登録日の古い順）
+   */
+  getSuggestions(filter: PurchaseSuggestionFilter): Promise<Result<PurchaseSuggestion[], never>>;
+
+  /**
+   * 購入リクエストを承認（SUBMITTED → APPROVED）
+   * @param id - 購入リクエストID
+   * @param staffId - 承認した職員のID
+   * @returns 更新された購入リクエストまたはエラー
+   */
+  approveSuggestion(
+    id: PurchaseSuggestionId,
+    staffId: UserId
+  ): Promise<Result<PurchaseSuggestion, PurchaseSuggestionError>>;
+
+  /**
+   * 購入リクエストを却下（SUBMITTED → REJECTED）
+   * @param id - 購入リクエストID
+   * @param staffId - 却下した職員のID
+   * @param reason - 購入しない理由
+   * @returns 更新された購入リクエストまたはエラー
+   */
+  rejectSuggestion(
+    id: PurchaseSuggestionId,
+    staffId: UserId,
+    reason: string
+  ): Promise<Result<PurchaseSuggestion, PurchaseSuggestionError>>;
+
+  /**
+   * 購入リクエストの書籍を発注済みにする（APPROVED → ORDERED）
+   * @param id - 購入リクエストID
+   * @param staffId - 発注した職員のID
+   * @returns 更新された購入リクエストまたはエラー
+   */
+  markOrdered(
+    id: PurchaseSuggestionId,
+    staffId: UserId
+  ): Promise<Result<PurchaseSuggestion, PurchaseSuggestionError>>;
+
+  /**
+   * 発注した書籍を受け入れ（ORDERED → RECEIVED）、リクエストした利用者のために予約する
+   * 予約の作成に失敗しても受け入れは完了とし、失敗した理由を結果に含める
+   * @param id - 購入リクエストID
+   * @param bookId - 受け入れて登録した書籍のID
+   * @param staffId - 受け入れた職員のID
+   * @returns 受け入れ処理の結果またはエラー
+   */
+  receiveSuggestion(
+    id: PurchaseSuggestionId,
+    bookId: BookId,
+    staffId: UserId
+  ): Promise<Result<ReceivePurchaseSuggestionResult, PurchaseSuggestionError>>;
+}
+
+// ============================================
+// バリデーション関数
+// ============================================
+
+/**
+ * 購入リクエスト登録入力をバリデーション
+ */
+function validateCreateInput(
+  input: CreatePurchaseSuggestionInput
+): Result<CreatePurchaseSuggestionInput, PurchaseSuggestionError> {
+  const titleResult = validateRequired(input.title, 'title');
+  if (isErr(titleResult)) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'title',
+      message: titleResult.error.message,
+    });
+  }
+
+  // ISBNは書籍と同じ正規形で保存する
+  if (input.isbn !== undefined && input.isbn.trim() !== '') {
+    const isbnResult = normalizeISBN(input.isbn);
+    if (isErr(isbnResult)) {
+      return err({
+        type: 'VALIDATION_ERROR',
+        field: 'isbn',
+        message: isbnResult.error.message,
+      });
+    }
+    return ok({ ...input, isbn: isbnResult.value });
+  }
+
+  return ok(input);
+}
+
+/**
+ * 空白のみの任意項目を未指定として扱う
+ */
+function optionalText(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed === undefined || trimmed === '' ? undefined : trimmed;
+}
+
+// ============================================
+// サービス実装
+// ============================================
+
+/**
+ * PurchaseSuggestionServiceを作成
+ * @param repository - 購入リクエストリポジトリ
+ * @param userRepository - 利用者リポジトリ（リクエストした利用者の確認）
+ * @param bookRepository - 書籍リポジトリ（蔵書の確認）
+ * @param reservationService - 予約サービス（受け入れ時の予約）
+ * @returns PurchaseSuggestionService
+ */
+export function createPurchaseSuggestionService(
+  repository: PurchaseSuggestionRepository,
+  userRepository: Pick<UserRepository, 'findById'>,
+  bookRepository: Pick<BookRepository, 'findById' | 'findByIsbn'>,
+  reservationService: Pick<ReservationService, 'placeAcquisitionHold'>
+): PurchaseSuggestionService {
+  /**
+   * 現在のステータスを確認してからステータスを変更する
+   */
+  async function transition(
+    id: PurchaseSuggestionId,
+    expectedStatus: PurchaseSuggestionStatus,
+    change: PurchaseSuggestionStatusChange
+  ): Promise<Result<PurchaseSuggestion, PurchaseSuggestionError>> {
+    const existingResult = await repository.findById(id);
+    if (isErr(existingResult)) {
+      return existingResult;
+    }
+
+    const currentStatus = existingResult.value.status;
+    if (currentStatus !== expectedStatus) {
+      return err({
+        type: 'INVALID_SUGGESTION_STATUS',
+        suggestionId: id,
+        currentStatus,
+        expectedStatus,
+      });
+    }
+
+    return repository.updateStatus(id, change);
+  }
+
+  return {
+    async submitSuggestion(
+      input: CreatePurchaseSuggestionInput
+    ): Promise<Result<PurchaseSuggestion, PurchaseSuggestionError>> {
+      // 1. 入力バリデーション
+      const validationResult = validateCreateInput(input);
+      if (isErr(validationResult)) {
+        return validationResult;
+      }
+
+      // 2. 利用者の存在確認
+      const userResult = await userRepository.findById(input.userId);
+      if (isErr(userResult)) {
+        return err({ type: 'USER_NOT_FOUND', userId: input.userId });
+      }
+
+      // 3. 既に蔵書にある書籍はリクエストできない（予約を案内する）
+      const isbn = optionalText(validationResult.value.isbn);
+      if (isbn !== undefined) {
+        const existingBook = await bookRepository.findByIsbn(isbn);
+        if (existingBook !== null) {
+          return err({ type: 'BOOK_ALREADY_IN_CATALOGUE', isbn, bookId: existingBook.id });
+        }
+      }
+
+      const author = optionalText(input.author);
+      const note = optionalText(input.note);
+      const suggestion = await repository.create({
+        userId: input.userId,
+        title: input.title.trim(),
+        ...(author !== undefined && { author }),
+        ...(isbn !== undefined && { isbn }),
+        ...(note !== undefined && { note }),
+      });
+      return ok(suggestion);
+    },
+
+    async getSuggestions(
+      filter: PurchaseSuggestionFilter
+    ): Promise<Result<PurchaseSuggestion[], never>> {
+      const suggestions = await repository.findAll(filter);
+      return ok(suggestions);
+    },
+
+    async approveSuggestion(
+      id: PurchaseSuggestionId,
+      staffId: UserId
+    ): Promise<Result<PurchaseSuggestion, PurchaseSuggestionError>> {
+      return transition(id, 'SUBMITTED', { status: 'APPROVED', handledBy: staffId });
+    },
+
+    async rejectSuggestion(
+      id: PurchaseSuggestionId,
+      staffId: UserId,
+      reason: string
+    ): Promise<Result<PurchaseSuggestion, PurchaseSuggestionError>> {
+      const reasonResult = validateRequired(reason, 'reason');
+      if (isErr(reasonResult)) {
+        return err({
+          type: 'VALIDATION_ERROR',
+          field: 'reason',
+          message: reasonResult.error.message,
+        });
+      }
+
+      return transition(id, 'SUBMITTED', {
+        status: 'REJECTED',
+        handledBy: staffId,
+        rejectionReason: reason.trim(),
+      });
+    },
+
+    async markOrdered(
+      id: PurchaseSuggestionId,
+      staffId: UserId
+    ): Promise<Result<PurchaseSuggestion, PurchaseSuggestionError>> {
+      return transition(id, 'APPROVED', { status: 'ORDERED', handledBy: staffId });
+    },
+
+    async receiveSuggestion(
+      id: PurchaseSuggestionId,
+      bookId: BookId,
+      staffId: UserId
+    ): Promise<Result<ReceivePurchaseSuggestionResult, PurchaseSuggestionError>> {
+      // 1. 受け入れた書籍が登録済みであることを確認
+      const bookResult = await bookRepository.findById(bookId);
+      if (isErr(bookResult)) {
+        return err({ type: 'BOOK_NOT_FOUND', bookId });
+      }
+
+      // 2. 受け入れ済みにする
+      const receivedResult = await transition(id, 'ORDERED', {
+        status: 'RECEIVED',
+        handledBy: staffId,
+        bookId,
+      });
+      if (isErr(receivedResult)) {
+        return receivedResult;
+      }
+      const received = receivedResult.value;
+
+      // 3. リクエストした利用者のために予約（貸出可能な蔵書コピーがあればすぐに取り置く）
+      const reservationResult = await reservationService.placeAcquisitionHold({
+        userId: received.userId,
+        bookId,
+      });
+      if (!reservationResult.success) {
+        return ok({ suggestion: received, reservationError: reservationResult.error });
+      }
+
+      const assignResult = await repository.assignReservation(id, reservationResult.value.id);
+      if (isErr(assignResult)) {
+        return assignResult;
+      }
+      return ok({ suggestion: assignResult.value, reservationError: null });
+    },
+  };
+}
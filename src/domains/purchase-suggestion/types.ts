@@ -0,0 +1,101 @@
+/**
+ * PurchaseSuggestion Domain - 型定義
+ *
+ * 蔵書にない書籍の購入リクエスト（利用者・図書館員からの購入希望）の型定義を提供します。
+ */
+
+import type {
+  BookId,
+  PurchaseSuggestionId,
+  ReservationId,
+  UserId,
+} from '../../shared/branded-types.js';
+import type { ReservationError } from '../reservation/types.js';
+
+// ============================================
+// 購入リクエスト型定義
+// ============================================
+
+/**
+ * 購入リクエストステータス
+ *
+ * SUBMITTED → APPROVED → ORDERED → RECEIVED の順に進む。
+ * 選書で購入しないと判断したリクエストは SUBMITTED から REJECTED にする
+ */
+export type PurchaseSuggestionStatus =
+  | 'SUBMITTED'
+  | 'APPROVED'
+  | 'REJECTED'
+  | 'ORDERED'
+  | 'RECEIVED';
+
+/** 購入リクエスト */
+export interface PurchaseSuggestion {
+  readonly id: PurchaseSuggestionId;
+  /** リクエストした利用者（受け入れ時にこの利用者のために予約する） */
+  readonly userId: UserId;
+  readonly title: string;
+  readonly author: string | null;
+  readonly isbn: string | null;
+  /** リクエスト理由などの補足 */
+  readonly note: string | null;
+  readonly status: PurchaseSuggestionStatus;
+  /** 最後にステータスを変更した職員 */
+  readonly handledBy: UserId | null;
+  /** 購入しない理由（REJECTEDの場合のみ） */
+  readonly rejectionReason: string | null;
+  /** 受け入れて登録した書籍（RECEIVEDの場合のみ） */
+  readonly bookId: BookId | null;
+  /** 受け入れ時にリクエストした利用者のために作成した予約 */
+  readonly reservationId: ReservationId | null;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/** 購入リクエスト登録入力 */
+export interface CreatePurchaseSuggestionInput {
+  readonly userId: UserId;
+  readonly title: string;
+  readonly author?: string;
+  readonly isbn?: string;
+  readonly note?: string;
+}
+
+/** 購入リクエストのステータス変更 */
+export interface PurchaseSuggestionStatusChange {
+  readonly status: PurchaseSuggestionStatus;
+  readonly handledBy: UserId;
+  readonly rejectionReason?: string;
+  readonly bookId?: BookId;
+}
+
+/** 購入リクエスト一覧の絞り込み条件 */
+export interface PurchaseSuggestionFilter {
+  readonly status?: PurchaseSuggestionStatus;
+  readonly userId?: UserId;
+}
+
+/** 受け入れ処理の結果 */
+export interface ReceivePurchaseSuggestionResult {
+  readonly suggestion: PurchaseSuggestion;
+  /** リクエストした利用者の予約を作成できなかった理由（作成できた場合はnull） */
+  readonly reservationError: ReservationError | null;
+}
+
+// ============================================
+// エラー型定義
+// ============================================
+
+/** 購入リクエストエラー */
+export type PurchaseSuggestionError =
+  | { readonly type: 'VALIDATION_ERROR'; readonly field: string; readonly message: string }
+  | { readonly type: 'PURCHASE_SUGGESTION_NOT_FOUND'; readonly suggestionId: string }
+  | { readonly type: 'USER_NOT_FOUND'; readonly userId: string }
+  | { readonly type: 'BOOK_NOT_FOUND'; readonly bookId: string }
+  | { readonly type: 'BOOK_ALREADY_IN_CATALOGUE'; readonly isbn: string; readonly bookId: string }
+  | {
+      readonly type: 'INVALID_SUGGESTION_STATUS';
+      readonly suggestionId: string;
+      readonly currentStatus: PurchaseSuggestionStatus;
+      readonly expectedStatus: PurchaseSuggestionStatus;
+    };
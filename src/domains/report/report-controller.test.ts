@@ -13,11 +13,15 @@ import type {
   StatisticsSummary,
   PopularBooksRanking,
   CategoryStatistics,
+  ClassificationStatistics,
+  OpenReturnClaimsReport,
+  ReservationWaitReport,
+  PurchaseCandidatesReport,
   ReportError,
 } from './types.js';
 import { ok, err } from '../../shared/result.js';
 import { createReportController } from './report-controller.js';
-import type { BookId } from '../../shared/branded-types.js';
+import type { BookId, CopyId, LoanId, ReturnClaimId, UserId } from '../../shared/branded-types.js';
 
 // ============================================
 // モックサービスファクトリ
@@ -28,12 +32,18 @@ function createMockReportService(): ReportService {
     getStatisticsSummary: vi.fn(),
     getPopularBooksRanking: vi.fn(),
     getCategoryStatistics: vi.fn(),
+    getClassificationStatistics: vi.fn(),
     exportStatisticsSummaryToCsv: vi.fn(),
     exportPopularBooksRankingToCsv: vi.fn(),
     exportCategoryStatisticsToCsv: vi.fn(),
     formatStatisticsSummaryAsTable: vi.fn(),
     formatPopularBooksRankingAsTable: vi.fn(),
     formatCategoryStatisticsAsTable: vi.fn(),
+    getOpenReturnClaims: vi.fn(),
+    getReservationWaitReport: vi.fn(),
+    getPurchaseCandidates: vi.fn(),
+    exportPurchaseCandidatesToCsv: vi.fn(),
+    formatPurchaseCandidatesAsTable: vi.fn(),
   };
 }
 
@@ -74,6 +84,7 @@ describe('GET /api/reports/summary', () => {
       loanCount: 150,
       returnCount: 120,
       overdueCount: 10,
+      renewalCount: 20,
       dateRange,
     };
 
@@ -88,6 +99,7 @@ describe('GET /api/reports/summary', () => {
       loanCount: 150,
       returnCount: 120,
       overdueCount: 10,
+      renewalCount: 20,
     });
   });
 
@@ -152,6 +164,7 @@ describe('GET /api/reports/loans', () => {
       loanCount: 150,
       returnCount: 120,
       overdueCount: 10,
+      renewalCount: 20,
       dateRange,
     };
 
@@ -166,6 +179,7 @@ describe('GET /api/reports/loans', () => {
       loanCount: 150,
       returnCount: 120,
       overdueCount: 10,
+      renewalCount: 20,
     });
   });
 
@@ -200,6 +214,7 @@ describe('GET /api/reports/popular', () => {
           bookId: 'book-1' as BookId,
           title: '人気の本',
           author: '著者A',
+          contributors: [],
           loanCount: 50,
           rank: 1,
         },
@@ -207,6 +222,7 @@ describe('GET /api/reports/popular', () => {
           bookId: 'book-2' as BookId,
           title: '次に人気の本',
           author: '著者B',
+          contributors: [],
           loanCount: 30,
           rank: 2,
         },
@@ -292,7 +308,7 @@ describe('GET /api/reports/export', () => {
   });
 
   it('統計サマリーをCSVエクスポートできる（type=summary）', async () => {
-    const csvContent = '項目,件数\n貸出数,150\n返却数,120\n延滞数,10';
+    const csvContent = '項目,件数\n貸出数,150\n返却数,120\n延滞数,10\n延長数,20';
 
     vi.mocked(mockService.exportStatisticsSummaryToCsv).mockResolvedValue(ok(csvContent));
 
@@ -334,6 +350,29 @@ describe('GET /api/reports/export', () => {
     expect(response.text).toContain('小説');
   });
 
+  it('購入候補は期間を指定せずにCSVエクスポートできる（type=purchase-candidates）', async () => {
+    const csvContent =
+      'タイトル,著者,ISBN,蔵書数,予約数,1冊あたりの予約数,購入推奨冊数\n人気の本,著者A,9784003101018,2,10,5.00,2';
+
+    vi.mocked(mockService.exportPurchaseCandidatesToCsv).mockResolvedValue(ok(csvContent));
+
+    const response = await request(app)
+      .get('/api/reports/export')
+      .query({ type: 'purchase-candidates' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-disposition']).toContain('purchase-candidates.csv');
+    expect(response.text).toContain('人気の本');
+  });
+
+  it('期間を指定するレポートで期間が未指定の場合は400を返す', async () => {
+    const response = await request(app).get('/api/reports/export').query({ type: 'summary' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.field).toBe('startDate');
+    expect(mockService.exportStatisticsSummaryToCsv).not.toHaveBeenCalled();
+  });
+
   it('typeパラメータが未指定の場合は400を返す', async () => {
     const response = await request(app)
       .get('/api/reports/export')
@@ -415,3 +454,215 @@ describe('GET /api/reports/category', () => {
     expect(response.body.error.type).toBe('VALIDATION_ERROR');
   });
 });
+
+// ============================================
+// GET /api/reports/classification - 分類別統計取得
+// ============================================
+
+describe('GET /api/reports/classification', () => {
+  let mockService: ReportService;
+  let app: Express;
+
+  beforeEach(() => {
+    mockService = createMockReportService();
+    app = createTestApp(mockService);
+  });
+
+  it('分類表・階層を指定して分類別貸出統計を取得できる', async () => {
+    const stats: ClassificationStatistics = {
+      scheme: 'DDC',
+      level: 2,
+      items: [{ classification: null, loanCount: 10, percentage: 100 }],
+      totalLoanCount: 10,
+      dateRange: createTestDateRange(),
+    };
+    vi.mocked(mockService.getClassificationStatistics).mockResolvedValue(ok(stats));
+
+    const response = await request(app)
+      .get('/api/reports/classification')
+      .query({ startDate: '2024-01-01', endDate: '2024-12-31', scheme: 'DDC', level: '2' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.level).toBe(2);
+    expect(mockService.getClassificationStatistics).toHaveBeenCalledWith(
+      expect.any(Object),
+      'DDC',
+      2
+    );
+  });
+
+  it('分類表・階層を省略するとNDCの最上位の分類で集計する', async () => {
+    vi.mocked(mockService.getClassificationStatistics).mockResolvedValue(
+      err({ type: 'VALIDATION_ERROR', field: 'level', message: 'invalid' })
+    );
+
+    await request(app)
+      .get('/api/reports/classification')
+      .query({ startDate: '2024-01-01', endDate: '2024-12-31' });
+
+    expect(mockService.getClassificationStatistics).toHaveBeenCalledWith(
+      expect.any(Object),
+      'NDC',
+      1
+    );
+  });
+
+  it('分類表がNDC・DDC以外の場合は400を返す', async () => {
+    const response = await request(app)
+      .get('/api/reports/classification')
+      .query({ startDate: '2024-01-01', endDate: '2024-12-31', scheme: 'UDC' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.field).toBe('scheme');
+    expect(mockService.getClassificationStatistics).not.toHaveBeenCalled();
+  });
+});
+
+// ============================================
+// GET /api/reports/return-claims - 未解決の返却申告一覧
+// ============================================
+
+describe('GET /api/reports/return-claims', () => {
+  let mockService: ReportService;
+  let app: Express;
+
+  beforeEach(() => {
+    mockService = createMockReportService();
+    app = createTestApp(mockService);
+  });
+
+  it('未解決の返却申告一覧を経過日数付きで取得できる', async () => {
+    const report: OpenReturnClaimsReport = {
+      items: [
+        {
+          claimId: 'claim-001' as ReturnClaimId,
+          loanId: 'loan-001' as LoanId,
+          userId: 'user-001' as UserId,
+          userName: '山田太郎',
+          bookCopyId: 'copy-001' as CopyId,
+          bookTitle: '吾輩は猫である',
+          claimedBy: 'user-001' as UserId,
+          claimedAt: new Date('2024-06-10'),
+          searchCount: 2,
+          lastSearchedAt: new Date('2024-06-20'),
+          ageDays: 20,
+        },
+      ],
+      totalCount: 1,
+    };
+
+    vi.mocked(mockService.getOpenReturnClaims).mockResolvedValue(ok(report));
+
+    const response = await request(app).get('/api/reports/return-claims');
+
+    expect(response.status).toBe(200);
+    expect(response.body.totalCount).toBe(1);
+    expect(response.body.items[0].ageDays).toBe(20);
+    expect(response.body.items[0].searchCount).toBe(2);
+  });
+});
+
+// ============================================
+// GET /api/reports/reservation-waits - 予約の待ち時間・未受取率
+// ============================================
+
+describe('GET /api/reports/reservation-waits', () => {
+  let mockService: ReportService;
+  let app: Express;
+
+  beforeEach(() => {
+    mockService = createMockReportService();
+    app = createTestApp(mockService);
+  });
+
+  it('期間を指定して予約の待ち時間・未受取率を取得できる', async () => {
+    const report: ReservationWaitReport = {
+      books: [
+        {
+          bookId: 'book-001' as BookId,
+          title: '吾輩は猫である',
+          category: '文学',
+          copyCount: 2,
+          reservationCount: 10,
+          activeReservationCount: 6,
+          holdsPerCopy: 3,
+          averageWaitDays: 12.5,
+          noShowRate: 0.25,
+        },
+      ],
+      categories: [
+        {
+          category: '文学',
+          copyCount: 2,
+          reservationCount: 10,
+          activeReservationCount: 6,
+          averageWaitDays: 12.5,
+          noShowRate: 0.25,
+        },
+      ],
+      dateRange: createTestDateRange(),
+    };
+
+    vi.mocked(mockService.getReservationWaitReport).mockResolvedValue(ok(report));
+
+    const response = await request(app)
+      .get('/api/reports/reservation-waits')
+      .query({ startDate: '2024-01-01', endDate: '2024-12-31' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.books[0].holdsPerCopy).toBe(3);
+    expect(response.body.categories[0].noShowRate).toBe(0.25);
+    expect(mockService.getReservationWaitReport).toHaveBeenCalledWith({
+      startDate: new Date('2024-01-01'),
+      endDate: new Date('2024-12-31'),
+    });
+  });
+
+  it('期間が指定されていない場合は400を返す', async () => {
+    const response = await request(app).get('/api/reports/reservation-waits');
+
+    expect(response.status).toBe(400);
+    expect(mockService.getReservationWaitReport).not.toHaveBeenCalled();
+  });
+});
+
+// ============================================
+// GET /api/reports/purchase-candidates - 予約数に基づく購入候補
+// ============================================
+
+describe('GET /api/reports/purchase-candidates', () => {
+  let mockService: ReportService;
+  let app: Express;
+
+  beforeEach(() => {
+    mockService = createMockReportService();
+    app = createTestApp(mockService);
+  });
+
+  it('購入候補を取得できる', async () => {
+    const report: PurchaseCandidatesReport = {
+      items: [
+        {
+          bookId: 'book-001' as BookId,
+          title: '吾輩は猫である',
+          author: '夏目漱石',
+          isbn: '9784003101018',
+          copyCount: 2,
+          activeReservationCount: 10,
+          holdsPerCopy: 5,
+          additionalCopies: 2,
+        },
+      ],
+      holdsPerCopyThreshold: 3,
+      totalAdditionalCopies: 2,
+    };
+
+    vi.mocked(mockService.getPurchaseCandidates).mockResolvedValue(ok(report));
+
+    const response = await request(app).get('/api/reports/purchase-candidates');
+
+    expect(response.status).toBe(200);
+    expect(response.body.items[0].additionalCopies).toBe(2);
+    expect(response.body.totalAdditionalCopies).toBe(2);
+  });
+});
@@ -8,11 +8,17 @@
  * - GET /api/reports/loans - 貸出統計（期間指定）
  * - GET /api/reports/popular - 人気書籍ランキング
  * - GET /api/reports/category - カテゴリ別貸出統計
+ * - GET /api/reports/classification - 分類別貸出統計（scheme で分類表、level で集計する階層を指定）
  * - GET /api/reports/export - CSVエクスポート
+ * - GET /api/reports/return-claims - 未解決の返却申告一覧（経過日数順）
+ * - GET /api/reports/reservation-waits - 予約の待ち時間・未受取率（書籍別・カテゴリ別）
+ * - GET /api/reports/purchase-candidates - 予約数に基づく購入候補（買い増す冊数付き）
  */
 
 import { Router, type Request, type Response } from 'express';
+import type { Result } from '../../shared/result.js';
 import { isOk } from '../../shared/result.js';
+import { CLASSIFICATION_SCHEMES, isClassificationScheme } from '../book/classification-service.js';
 import type { ReportService } from './report-service.js';
 import type { DateRange, ReportError } from './types.js';
 
@@ -31,6 +37,15 @@ interface PopularBooksQuery extends DateRangeQuery {
   limit?: string;
 }
 
+/** 分類別貸出統計クエリパラメータ */
+interface ClassificationStatisticsQuery extends DateRangeQuery {
+  scheme?: string;
+  level?: string;
+}
+
+/** CSVエクスポートの種類 */
+const EXPORT_TYPES = ['summary', 'popular', 'category', 'purchase-candidates'] as const;
+
 /** CSVエクスポートクエリパラメータ */
 interface ExportQuery extends DateRangeQuery {
   type?: string;
@@ -234,11 +249,65 @@ export function createReportController(reportService: ReportService): Router {
   });
 
   // ============================================
-  // GET /api/reports/export - CSVエクスポート
+  // GET /api/reports/classification - 分類別貸出統計取得
   // ============================================
 
-  router.get('/export', async (req: Request, res: Response): Promise<void> => {
-    const query = req.query as ExportQuery;
+  router.get('/classification', async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as ClassificationStatisticsQuery;
+    const parseResult = parseDateRange(query);
+
+    if (!parseResult.success) {
+      res.status(400).json({ error: parseResult.error });
+      return;
+    }
+
+    // 分類表は省略時 NDC、階層は省略時 最上位
+    const scheme = query.scheme ?? 'NDC';
+    if (!isClassificationScheme(scheme)) {
+      res.status(400).json({
+        error: {
+          type: 'VALIDATION_ERROR',
+          field: 'scheme',
+          message: `schemeは ${CLASSIFICATION_SCHEMES.join(', ')} のいずれかを指定してください`,
+        },
+      });
+      return;
+    }
+    const level = query.level !== undefined && query.level !== '' ? Number(query.level) : 1;
+
+    const result = await reportService.getClassificationStatistics(
+      parseResult.dateRange,
+      scheme,
+      level
+    );
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // GET /api/reports/return-claims - 未解決の返却申告一覧
+  // ============================================
+
+  router.get('/return-claims', async (_req: Request, res: Response): Promise<void> => {
+    const result = await reportService.getOpenReturnClaims();
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    }
+    // ReportService.getOpenReturnClaims は never エラーを返すため、else ブランチは到達不可能
+  });
+
+  // ============================================
+  // GET /api/reports/reservation-waits - 予約の待ち時間・未受取率
+  // ============================================
+
+  router.get('/reservation-waits', async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as DateRangeQuery;
     const parseResult = parseDateRange(query);
 
     if (!parseResult.success) {
@@ -246,6 +315,35 @@ export function createReportController(reportService: ReportService): Router {
       return;
     }
 
+    const result = await reportService.getReservationWaitReport(parseResult.dateRange);
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // GET /api/reports/purchase-candidates - 予約数に基づく購入候補
+  // ============================================
+
+  router.get('/purchase-candidates', async (_req: Request, res: Response): Promise<void> => {
+    const result = await reportService.getPurchaseCandidates();
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    }
+    // ReportService.getPurchaseCandidates は never エラーを返すため、else ブランチは到達不可能
+  });
+
+  // ============================================
+  // GET /api/reports/export - CSVエクスポート
+  // ============================================
+
+  router.get('/export', async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as ExportQuery;
     const exportType = query.type;
 
     // type パラメータのバリデーション
@@ -254,55 +352,68 @@ export function createReportController(reportService: ReportService): Router {
         error: {
           type: 'VALIDATION_ERROR',
           field: 'type',
-          message: 'typeパラメータを指定してください（summary, popular, category）',
+          message: `typeパラメータを指定してください（${EXPORT_TYPES.join(', ')}）`,
         },
       });
       return;
     }
 
-    const validTypes = ['summary', 'popular', 'category'];
-    if (!validTypes.includes(exportType)) {
+    if (!(EXPORT_TYPES as readonly string[]).includes(exportType)) {
       res.status(400).json({
         error: {
           type: 'VALIDATION_ERROR',
           field: 'type',
-          message: 'typeパラメータは summary, popular, category のいずれかを指定してください',
+          message: `typeパラメータは ${EXPORT_TYPES.join(', ')} のいずれかを指定してください`,
         },
       });
       return;
     }
 
     // タイプに応じたCSVエクスポート
-    let csvResult;
+    let csvResult: Result<string, ReportError>;
     let filename: string;
-    const limit = parseLimit(query.limit, 10);
 
-    switch (exportType) {
-      case 'summary':
-        csvResult = await reportService.exportStatisticsSummaryToCsv(parseResult.dateRange);
-        filename = 'statistics-summary.csv';
-        break;
-      case 'popular':
-        csvResult = await reportService.exportPopularBooksRankingToCsv(
-          parseResult.dateRange,
-          limit
-        );
-        filename = 'popular-books.csv';
-        break;
-      case 'category':
-        csvResult = await reportService.exportCategoryStatisticsToCsv(parseResult.dateRange);
-        filename = 'category-statistics.csv';
-        break;
-      default:
-        // ここには到達しないはず
-        res.status(400).json({
-          error: {
-            type: 'VALIDATION_ERROR',
-            field: 'type',
-            message: 'typeパラメータが不正です',
-          },
-        });
+    if (exportType === 'purchase-candidates') {
+      // 購入候補は現時点の予約状況から算出するため期間の指定は不要
+      csvResult = await reportService.exportPurchaseCandidatesToCsv();
+      filename = 'purchase-candidates.csv';
+    } else {
+      const parseResult = parseDateRange(query);
+
+      if (!parseResult.success) {
+        res.status(400).json({ error: parseResult.error });
         return;
+      }
+
+      const limit = parseLimit(query.limit, 10);
+
+      switch (exportType) {
+        case 'summary':
+          csvResult = await reportService.exportStatisticsSummaryToCsv(parseResult.dateRange);
+          filename = 'statistics-summary.csv';
+          break;
+        case 'popular':
+          csvResult = await reportService.exportPopularBooksRankingToCsv(
+            parseResult.dateRange,
+            limit
+          );
+          filename = 'popular-books.csv';
+          break;
+        case 'category':
+          csvResult = await reportService.exportCategoryStatisticsToCsv(parseResult.dateRange);
+          filename = 'category-statistics.csv';
+          break;
+        default:
+          // ここには到達しないはず
+          res.status(400).json({
+            error: {
+              type: 'VALIDATION_ERROR',
+              field: 'type',
+              message: 'typeパラメータが不正です',
+            },
+          });
+          return;
+      }
     }
 
     if (isOk(csvResult)) {
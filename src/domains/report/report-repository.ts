@@ -5,7 +5,16 @@
  * 具体的な実装は Infrastructure 層で行います。
  */
 
-import type { DateRange, PopularBookItem, CategoryStatisticsItem } from './types.js';
+import type { ClassificationScheme } from '../book/types.js';
+import type {
+  DateRange,
+  PopularBookItem,
+  CategoryStatisticsItem,
+  ClassificationLoanCount,
+  OpenReturnClaimItem,
+  ReservationWaitStatisticsItem,
+  HoldRatioStatisticsItem,
+} from './types.js';
 
 // ============================================
 // リポジトリインターフェース
@@ -27,6 +36,14 @@ export interface ReportRepository {
    */
   countReturns(dateRange: DateRange): Promise<number>;
 
+  /**
+   * 期間内に貸し出した貸出の延長回数の合計を取得
+   * 延長した貸出は1件の貸出として数え、延長回数はここで別に集計する
+   * @param dateRange - 集計期間
+   * @returns 延長回数の合計
+   */
+  countRenewals(dateRange: DateRange): Promise<number>;
+
   /**
    * 期間内の延滞数を取得
    * @param dateRange - 集計期間
@@ -48,4 +65,34 @@ export interface ReportRepository {
    * @returns カテゴリ別貸出統計項目の配列
    */
   getCategoryStatistics(dateRange: DateRange): Promise<CategoryStatisticsItem[]>;
+
+  /**
+   * 書籍の分類ごとの貸出数を取得
+   * @param dateRange - 集計期間
+   * @param scheme - 分類表（他の分類表の分類の書籍は未分類として集計する）
+   * @returns 分類ごとの貸出数の配列（最上位の分類からの分類を含む）
+   */
+  getClassificationLoanCounts(
+    dateRange: DateRange,
+    scheme: ClassificationScheme
+  ): Promise<ClassificationLoanCount[]>;
+
+  /**
+   * 未解決の返却申告を取得
+   * @returns 未解決の返却申告項目の配列（申告日の古い順）
+   */
+  getOpenReturnClaims(): Promise<OpenReturnClaimItem[]>;
+
+  /**
+   * 期間内に登録された予約の書籍別集計を取得
+   * @param dateRange - 集計期間（予約日）
+   * @returns 書籍別の予約集計の配列
+   */
+  getReservationWaitStatistics(dateRange: DateRange): Promise<ReservationWaitStatisticsItem[]>;
+
+  /**
+   * アクティブな予約がある書籍の予約数と蔵書コピー数を取得
+   * @returns 書籍別のアクティブな予約数と蔵書コピー数の配列
+   */
+  getHoldRatioStatistics(): Promise<HoldRatioStatisticsItem[]>;
 }
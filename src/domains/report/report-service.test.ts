@@ -4,12 +4,28 @@
  * TDD: RED → GREEN → REFACTOR
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { createReportService, type ReportService } from './report-service.js';
 import type { ReportRepository } from './report-repository.js';
-import type { DateRange, PopularBookItem, CategoryStatisticsItem } from './types.js';
+import type {
+  DateRange,
+  PopularBookItem,
+  CategoryStatisticsItem,
+  ClassificationLoanCount,
+  OpenReturnClaimItem,
+  ReservationWaitStatisticsItem,
+  HoldRatioStatisticsItem,
+} from './types.js';
 import { isOk, isErr } from '../../shared/result.js';
-import { createBookId } from '../../shared/branded-types.js';
+import type { BookClassification } from '../book/types.js';
+import {
+  createBookId,
+  createClassificationId,
+  createCopyId,
+  createLoanId,
+  createReturnClaimId,
+  createUserId,
+} from '../../shared/branded-types.js';
 
 // ============================================
 // モックリポジトリ
@@ -19,9 +35,14 @@ function createMockReportRepository(overrides: Partial<ReportRepository> = {}):
   return {
     countLoans: () => Promise.resolve(0),
     countReturns: () => Promise.resolve(0),
+    countRenewals: () => Promise.resolve(0),
     countOverdues: () => Promise.resolve(0),
     getPopularBooks: () => Promise.resolve([]),
     getCategoryStatistics: () => Promise.resolve([]),
+    getClassificationLoanCounts: () => Promise.resolve([]),
+    getOpenReturnClaims: () => Promise.resolve([]),
+    getReservationWaitStatistics: () => Promise.resolve([]),
+    getHoldRatioStatistics: () => Promise.resolve([]),
     ...overrides,
   };
 }
@@ -45,6 +66,7 @@ describe('ReportService', () => {
         countLoans: () => Promise.resolve(100),
         countReturns: () => Promise.resolve(90),
         countOverdues: () => Promise.resolve(10),
+        countRenewals: () => Promise.resolve(25),
       });
       service = createReportService(mockRepository);
 
@@ -57,6 +79,8 @@ describe('ReportService', () => {
         expect(result.value.loanCount).toBe(100);
         expect(result.value.returnCount).toBe(90);
         expect(result.value.overdueCount).toBe(10);
+        // 延長は貸出数に含めず、延長回数として集計する
+        expect(result.value.renewalCount).toBe(25);
         expect(result.value.dateRange).toEqual(dateRange);
       }
     });
@@ -114,9 +138,30 @@ describe('ReportService', () => {
         endDate: new Date('2024-01-31'),
       };
       const mockPopularBooks: PopularBookItem[] = [
-        { bookId: createBookId('book-1'), title: '本A', author: '著者A', loanCount: 50, rank: 1 },
-        { bookId: createBookId('book-2'), title: '本B', author: '著者B', loanCount: 30, rank: 2 },
-        { bookId: createBookId('book-3'), title: '本C', author: '著者C', loanCount: 20, rank: 3 },
+        {
+          bookId: createBookId('book-1'),
+          title: '本A',
+          author: '著者A',
+          contributors: [],
+          loanCount: 50,
+          rank: 1,
+        },
+        {
+          bookId: createBookId('book-2'),
+          title: '本B',
+          author: '著者B',
+          contributors: [],
+          loanCount: 30,
+          rank: 2,
+        },
+        {
+          bookId: createBookId('book-3'),
+          title: '本C',
+          author: '著者C',
+          contributors: [],
+          loanCount: 20,
+          rank: 3,
+        },
       ];
       mockRepository = createMockReportRepository({
         getPopularBooks: () => Promise.resolve(mockPopularBooks),
@@ -250,6 +295,431 @@ describe('ReportService', () => {
     });
   });
 
+  describe('getClassificationStatistics', () => {
+    const dateRange: DateRange = {
+      startDate: new Date('2024-01-01'),
+      endDate: new Date('2024-01-31'),
+    };
+
+    function createClassification(number: string, label: string): BookClassification {
+      return { id: createClassificationId(`class-${number}`), scheme: 'NDC', number, label };
+    }
+
+    const literature = createClassification('9', '文学');
+    const japaneseLiterature = createClassification('91', '日本文学');
+    const novels = createClassification('913', '小説．物語');
+    const englishLiterature = createClassification('93', '英米文学');
+    const technology = createClassification('5', '技術');
+
+    const counts: ClassificationLoanCount[] = [
+      { path: [literature, japaneseLiterature, novels], loanCount: 40 },
+      { path: [literature, japaneseLiterature], loanCount: 10 },
+      { path: [literature, englishLiterature], loanCount: 20 },
+      { path: [literature], loanCount: 5 },
+      { path: [technology], loanCount: 15 },
+      { path: [], loanCount: 10 },
+    ];
+
+    it('最上位の分類に下位の分類の貸出数をまとめる（未分類は最後）', async () => {
+      service = createReportService(
+        createMockReportRepository({
+          getClassificationLoanCounts: () => Promise.resolve(counts),
+        })
+      );
+
+      const result = await service.getClassificationStatistics(dateRange, 'NDC', 1);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.items).toEqual([
+          { classification: literature, loanCount: 75, percentage: 75 },
+          { classification: technology, loanCount: 15, percentage: 15 },
+          { classification: null, loanCount: 10, percentage: 10 },
+        ]);
+        expect(result.value.totalLoanCount).toBe(100);
+        expect(result.value.scheme).toBe('NDC');
+        expect(result.value.level).toBe(1);
+      }
+    });
+
+    it('指定した階層より上位の分類の書籍はその分類のまま集計する', async () => {
+      service = createReportService(
+        createMockReportRepository({
+          getClassificationLoanCounts: () => Promise.resolve(counts),
+        })
+      );
+
+      const result = await service.getClassificationStatistics(dateRange, 'NDC', 2);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(
+          result.value.items.map((item) => [item.classification?.number ?? null, item.loanCount])
+        ).toEqual([
+          ['91', 50],
+          ['93', 20],
+          ['5', 15],
+          ['9', 5],
+          [null, 10],
+        ]);
+      }
+    });
+
+    it('階層が1未満の場合はVALIDATION_ERRORを返す', async () => {
+      service = createReportService(createMockReportRepository());
+
+      const result = await service.getClassificationStatistics(dateRange, 'NDC', 0);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+        expect(result.error.field).toBe('level');
+      }
+    });
+
+    it('無効な期間でエラーを返す', async () => {
+      service = createReportService(createMockReportRepository());
+
+      const result = await service.getClassificationStatistics(
+        { startDate: dateRange.endDate, endDate: dateRange.startDate },
+        'NDC',
+        1
+      );
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('INVALID_DATE_RANGE');
+      }
+    });
+  });
+
+  describe('getOpenReturnClaims', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    function createClaimItem(id: string, claimedAt: Date): OpenReturnClaimItem {
+      return {
+        claimId: createReturnClaimId(id),
+        loanId: createLoanId(`loan-${id}`),
+        userId: createUserId('user-001'),
+        userName: '山田太郎',
+        bookCopyId: createCopyId(`copy-${id}`),
+        bookTitle: '吾輩は猫である',
+        claimedBy: createUserId('user-001'),
+        claimedAt,
+        searchCount: 0,
+        lastSearchedAt: null,
+      };
+    }
+
+    it('未解決の返却申告を経過日数付きで申告日の古い順に取得できる', async () => {
+      // Arrange
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-06-30T12:00:00Z'));
+      mockRepository = createMockReportRepository({
+        getOpenReturnClaims: () =>
+          Promise.resolve([
+            createClaimItem('claim-002', new Date('2024-06-25T09:00:00Z')),
+            createClaimItem('claim-001', new Date('2024-06-10T09:00:00Z')),
+          ]),
+      });
+      service = createReportService(mockRepository);
+
+      // Act
+      const result = await service.getOpenReturnClaims();
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.totalCount).toBe(2);
+        expect(result.value.items[0]?.claimId).toBe('claim-001');
+        expect(result.value.items[0]?.ageDays).toBe(20);
+        expect(result.value.items[1]?.claimId).toBe('claim-002');
+        expect(result.value.items[1]?.ageDays).toBe(5);
+      }
+    });
+
+    it('未解決の返却申告がない場合は空の一覧を返す', async () => {
+      // Arrange
+      mockRepository = createMockReportRepository();
+      service = createReportService(mockRepository);
+
+      // Act
+      const result = await service.getOpenReturnClaims();
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.items).toHaveLength(0);
+        expect(result.value.totalCount).toBe(0);
+      }
+    });
+  });
+
+  describe('getReservationWaitReport', () => {
+    const dateRange: DateRange = {
+      startDate: new Date('2024-01-01'),
+      endDate: new Date('2024-06-30'),
+    };
+
+    function createStatisticsItem(
+      overrides: Partial<ReservationWaitStatisticsItem> = {}
+    ): ReservationWaitStatisticsItem {
+      return {
+        bookId: createBookId('book-001'),
+        title: '吾輩は猫である',
+        category: '文学',
+        copyCount: 2,
+        reservationCount: 10,
+        activeReservationCount: 6,
+        notifiedCount: 4,
+        totalWaitDays: 50,
+        fulfilledCount: 3,
+        expiredCount: 1,
+        ...overrides,
+      };
+    }
+
+    it('書籍別の平均待ち日数・未受取率・蔵書コピーあたりの予約数を算出し、予約の多い順に並べる', async () => {
+      // Arrange
+      mockRepository = createMockReportRepository({
+        getReservationWaitStatistics: () =>
+          Promise.resolve([
+            createStatisticsItem({
+              bookId: createBookId('book-002'),
+              title: '坊っちゃん',
+              activeReservationCount: 1,
+            }),
+            createStatisticsItem(),
+          ]),
+      });
+      service = createReportService(mockRepository);
+
+      // Act
+      const result = await service.getReservationWaitReport(dateRange);
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.books.map((b) => b.bookId)).toEqual(['book-001', 'book-002']);
+        expect(result.value.books[0]).toEqual({
+          bookId: 'book-001',
+          title: '吾輩は猫である',
+          category: '文学',
+          copyCount: 2,
+          reservationCount: 10,
+          activeReservationCount: 6,
+          holdsPerCopy: 3,
+          averageWaitDays: 12.5,
+          noShowRate: 0.25,
+        });
+        expect(result.value.dateRange).toEqual(dateRange);
+      }
+    });
+
+    it('取り置きの実績・蔵書コピーがない書籍は平均待ち日数・未受取率・予約数の比率をnullとする', async () => {
+      // Arrange
+      mockRepository = createMockReportRepository({
+        getReservationWaitStatistics: () =>
+          Promise.resolve([
+            createStatisticsItem({
+              copyCount: 0,
+              notifiedCount: 0,
+              totalWaitDays: 0,
+              fulfilledCount: 0,
+              expiredCount: 0,
+            }),
+          ]),
+      });
+      service = createReportService(mockRepository);
+
+      // Act
+      const result = await service.getReservationWaitReport(dateRange);
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.books[0]?.holdsPerCopy).toBeNull();
+        expect(result.value.books[0]?.averageWaitDays).toBeNull();
+        expect(result.value.books[0]?.noShowRate).toBeNull();
+      }
+    });
+
+    it('カテゴリ別に合算し、カテゴリ未設定の書籍は「その他」として予約数の多い順に並べる', async () => {
+      // Arrange
+      mockRepository = createMockReportRepository({
+        getReservationWaitStatistics: () =>
+          Promise.resolve([
+            createStatisticsItem(),
+            createStatisticsItem({
+              bookId: createBookId('book-002'),
+              notifiedCount: 1,
+              totalWaitDays: 10,
+              fulfilledCount: 0,
+              expiredCount: 1,
+            }),
+            createStatisticsItem({
+              bookId: createBookId('book-003'),
+              category: null,
+              reservationCount: 3,
+            }),
+          ]),
+      });
+      service = createReportService(mockRepository);
+
+      // Act
+      const result = await service.getReservationWaitReport(dateRange);
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.categories).toEqual([
+          {
+            category: '文学',
+            copyCount: 4,
+            reservationCount: 20,
+            activeReservationCount: 12,
+            averageWaitDays: 12,
+            noShowRate: 0.4,
+          },
+          {
+            category: 'その他',
+            copyCount: 2,
+            reservationCount: 3,
+            activeReservationCount: 6,
+            averageWaitDays: 12.5,
+            noShowRate: 0.25,
+          },
+        ]);
+      }
+    });
+
+    it('開始日が終了日より後の場合はエラーを返す', async () => {
+      // Arrange
+      mockRepository = createMockReportRepository();
+      service = createReportService(mockRepository);
+
+      // Act
+      const result = await service.getReservationWaitReport({
+        startDate: new Date('2024-02-01'),
+        endDate: new Date('2024-01-01'),
+      });
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('INVALID_DATE_RANGE');
+      }
+    });
+  });
+
+  describe('getPurchaseCandidates', () => {
+    function createHoldRatioItem(
+      overrides: Partial<HoldRatioStatisticsItem> = {}
+    ): HoldRatioStatisticsItem {
+      return {
+        bookId: createBookId('book-001'),
+        title: '吾輩は猫である',
+        author: '夏目漱石',
+        isbn: '9784003101018',
+        copyCount: 2,
+        activeReservationCount: 10,
+        ...overrides,
+      };
+    }
+
+    it('1冊あたりの予約数が上限を超える書籍を、買い増す冊数の多い順に挙げる', async () => {
+      // Arrange
+      mockRepository = createMockReportRepository({
+        getHoldRatioStatistics: () =>
+          Promise.resolve([
+            createHoldRatioItem(),
+            createHoldRatioItem({
+              bookId: createBookId('book-002'),
+              title: '坊っちゃん',
+              copyCount: 1,
+              activeReservationCount: 14,
+            }),
+            // 1冊あたり3件ちょうどは上限以下のため候補外
+            createHoldRatioItem({ bookId: createBookId('book-003'), activeReservationCount: 6 }),
+          ]),
+      });
+      service = createReportService(mockRepository);
+
+      // Act
+      const result = await service.getPurchaseCandidates();
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.holdsPerCopyThreshold).toBe(3);
+        expect(result.value.items.map((item) => [item.bookId, item.additionalCopies])).toEqual([
+          ['book-002', 4],
+          ['book-001', 2],
+        ]);
+        expect(result.value.items[1]?.holdsPerCopy).toBe(5);
+        expect(result.value.totalAdditionalCopies).toBe(6);
+      }
+    });
+
+    it('蔵書コピーがない書籍は予約数から必要な冊数を算出し、1冊あたりの予約数はnullとする', async () => {
+      // Arrange
+      mockRepository = createMockReportRepository({
+        getHoldRatioStatistics: () =>
+          Promise.resolve([createHoldRatioItem({ copyCount: 0, activeReservationCount: 4 })]),
+      });
+      service = createReportService(mockRepository);
+
+      // Act
+      const result = await service.getPurchaseCandidates();
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.items[0]?.holdsPerCopy).toBeNull();
+        expect(result.value.items[0]?.additionalCopies).toBe(2);
+      }
+    });
+
+    it('設定した1冊あたりの予約数の上限で判定する', async () => {
+      // Arrange
+      mockRepository = createMockReportRepository({
+        getHoldRatioStatistics: () => Promise.resolve([createHoldRatioItem()]),
+      });
+      service = createReportService(mockRepository, { holdsPerCopyThreshold: 5 });
+
+      // Act
+      const result = await service.getPurchaseCandidates();
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.items).toEqual([]);
+        expect(result.value.holdsPerCopyThreshold).toBe(5);
+      }
+    });
+
+    it('購入候補をCSV形式でエクスポートできる', async () => {
+      // Arrange
+      mockRepository = createMockReportRepository({
+        getHoldRatioStatistics: () => Promise.resolve([createHoldRatioItem()]),
+      });
+      service = createReportService(mockRepository);
+
+      // Act
+      const result = await service.exportPurchaseCandidatesToCsv();
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toBe(
+          'タイトル,著者,ISBN,蔵書数,予約数,1冊あたりの予約数,購入推奨冊数\n' +
+            '吾輩は猫である,夏目漱石,9784003101018,2,10,5.00,2'
+        );
+      }
+    });
+  });
+
   describe('validateDateRange', () => {
     it('同日の開始日と終了日は有効', async () => {
       // Arrange
@@ -301,6 +771,7 @@ describe('ReportService', () => {
         expect(csvLines[1]).toBe('貸出数,100');
         expect(csvLines[2]).toBe('返却数,90');
         expect(csvLines[3]).toBe('延滞数,10');
+        expect(csvLines[4]).toBe('延長数,0');
       }
     });
 
@@ -332,8 +803,22 @@ describe('ReportService', () => {
         endDate: new Date('2024-01-31'),
       };
       const mockPopularBooks: PopularBookItem[] = [
-        { bookId: createBookId('book-1'), title: '本A', author: '著者A', loanCount: 50, rank: 1 },
-        { bookId: createBookId('book-2'), title: '本B', author: '著者B', loanCount: 30, rank: 2 },
+        {
+          bookId: createBookId('book-1'),
+          title: '本A',
+          author: '著者A',
+          contributors: [],
+          loanCount: 50,
+          rank: 1,
+        },
+        {
+          bookId: createBookId('book-2'),
+          title: '本B',
+          author: '著者B',
+          contributors: [],
+          loanCount: 30,
+          rank: 2,
+        },
       ];
       mockRepository = createMockReportRepository({
         getPopularBooks: () => Promise.resolve(mockPopularBooks),
@@ -387,6 +872,7 @@ describe('ReportService', () => {
           bookId: createBookId('book-1'),
           title: '本A, 続編',
           author: '著者A, Jr.',
+          contributors: [],
           loanCount: 50,
           rank: 1,
         },
@@ -486,6 +972,7 @@ describe('ReportService', () => {
           ['貸出数', '100'],
           ['返却数', '90'],
           ['延滞数', '10'],
+          ['延長数', '0'],
         ]);
       }
     });
@@ -499,8 +986,22 @@ describe('ReportService', () => {
         endDate: new Date('2024-01-31'),
       };
       const mockPopularBooks: PopularBookItem[] = [
-        { bookId: createBookId('book-1'), title: '本A', author: '著者A', loanCount: 50, rank: 1 },
-        { bookId: createBookId('book-2'), title: '本B', author: '著者B', loanCount: 30, rank: 2 },
+        {
+          bookId: createBookId('book-1'),
+          title: '本A',
+          author: '著者A',
+          contributors: [],
+          loanCount: 50,
+          rank: 1,
+        },
+        {
+          bookId: createBookId('book-2'),
+          title: '本B',
+          author: '著者B',
+          contributors: [],
+          loanCount: 30,
+          rank: 2,
+        },
       ];
       mockRepository = createMockReportRepository({
         getPopularBooks: () => Promise.resolve(mockPopularBooks),
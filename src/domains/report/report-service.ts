@@ -1,20 +1,35 @@
 /**
  * ReportService - レポート・統計サービス
  *
- * 貸出統計、人気書籍ランキング、カテゴリ別統計を提供します。
+ * 貸出統計、人気書籍ランキング、カテゴリ別統計、未解決の返却申告一覧を提供します。
+ * 分類別統計は分類表（NDC・DDC）の任意の階層の分類に下位の分類の貸出数をまとめて集計します。
+ * 予約の待ち時間・未受取率を書籍別・カテゴリ別に集計し、予約の多い書籍の買い増しの判断に用います。
+ * 蔵書コピー1冊あたりの予約数が設定した上限を超える書籍を、買い増す冊数とともに購入候補として挙げます。
  */
 
 import type { Result } from '../../shared/result.js';
 import { ok, err, isOk } from '../../shared/result.js';
+import type { ClassificationScheme } from '../book/types.js';
 import type { ReportRepository } from './report-repository.js';
 import type {
   DateRange,
   StatisticsSummary,
   PopularBooksRanking,
   CategoryStatistics,
+  ClassificationLoanCount,
+  ClassificationStatistics,
+  ClassificationStatisticsItem,
+  OpenReturnClaimsReport,
+  ReservationWaitReport,
+  ReservationWaitStatisticsItem,
+  ReservationWaitCategoryItem,
+  PurchaseCandidateConfig,
+  PurchaseCandidateItem,
+  PurchaseCandidatesReport,
   ReportError,
   TableData,
 } from './types.js';
+import { DEFAULT_PURCHASE_CANDIDATE_CONFIG } from './types.js';
 
 // ============================================
 // サービスインターフェース
@@ -47,6 +62,42 @@ export interface ReportService {
    */
   getCategoryStatistics(dateRange: DateRange): Promise<Result<CategoryStatistics, ReportError>>;
 
+  /**
+   * 分類別貸出統計を取得（指定した階層の分類にまとめて集計）
+   * @param dateRange - 集計期間
+   * @param scheme - 分類表
+   * @param level - 集計する階層の深さ（最上位が1）
+   * @returns 分類別貸出統計（貸出数の多い順）またはエラー
+   */
+  getClassificationStatistics(
+    dateRange: DateRange,
+    scheme: ClassificationScheme,
+    level: number
+  ): Promise<Result<ClassificationStatistics, ReportError>>;
+
+  /**
+   * 未解決の返却申告を経過日数付きで取得（申告日の古い順）
+   * @returns 未解決の返却申告レポート
+   */
+  getOpenReturnClaims(): Promise<Result<OpenReturnClaimsReport, never>>;
+
+  /**
+   * 予約の待ち時間・未受取率を書籍別・カテゴリ別に取得
+   * 期間内に登録された予約を対象とし、書籍はアクティブな予約の多い順に並べる
+   * @param dateRange - 集計期間（予約日）
+   * @returns 予約の待ち時間・未受取率レポートまたはエラー
+   */
+  getReservationWaitReport(
+    dateRange: DateRange
+  ): Promise<Result<ReservationWaitReport, ReportError>>;
+
+  /**
+   * 蔵書コピー1冊あたりのアクティブな予約数が上限を超える書籍を購入候補として取得
+   * 現時点の予約状況から算出するため期間は指定しない
+   * @returns 購入候補レポート（買い増す冊数の多い順）
+   */
+  getPurchaseCandidates(): Promise<Result<PurchaseCandidatesReport, never>>;
+
   // ============================================
   // CSVエクスポート機能 (Task 9.2)
   // ============================================
@@ -76,6 +127,12 @@ export interface ReportService {
    */
   exportCategoryStatisticsToCsv(dateRange: DateRange): Promise<Result<string, ReportError>>;
 
+  /**
+   * 購入候補をCSV形式でエクスポート
+   * @returns CSV文字列
+   */
+  exportPurchaseCandidatesToCsv(): Promise<Result<string, never>>;
+
   // ============================================
   // 表形式データ整形機能 (Task 9.2)
   // ============================================
@@ -104,6 +161,12 @@ export interface ReportService {
    * @returns 表形式データまたはエラー
    */
   formatCategoryStatisticsAsTable(dateRange: DateRange): Promise<Result<TableData, ReportError>>;
+
+  /**
+   * 購入候補を表形式のデータに整形
+   * @returns 表形式データ
+   */
+  formatPurchaseCandidatesAsTable(): Promise<Result<TableData, never>>;
 }
 
 // ============================================
@@ -119,6 +182,126 @@ function isValidDateRange(dateRange: DateRange): boolean {
   return dateRange.startDate <= dateRange.endDate;
 }
 
+// ============================================
+// 分類別貸出統計の集計
+// ============================================
+
+/**
+ * 分類ごとの貸出数を指定した階層の分類にまとめる（貸出数の多い順、未分類は最後）
+ */
+function rollUpByLevel(
+  counts: readonly ClassificationLoanCount[],
+  level: number
+): ClassificationStatisticsItem[] {
+  const totals = new Map<string, Omit<ClassificationStatisticsItem, 'percentage'>>();
+  for (const count of counts) {
+    // 指定した階層より上位の分類の書籍はその分類のまま集計する
+    const classification =
+      count.path.length === 0 ? null : count.path[Math.min(level, count.path.length) - 1];
+    const key = classification?.id ?? '';
+    totals.set(key, {
+      classification: classification ?? null,
+      loanCount: (totals.get(key)?.loanCount ?? 0) + count.loanCount,
+    });
+  }
+
+  const totalLoanCount = counts.reduce((sum, count) => sum + count.loanCount, 0);
+  return [...totals.values()]
+    .map((item) => ({
+      ...item,
+      percentage: totalLoanCount === 0 ? 0 : roundTo((item.loanCount / totalLoanCount) * 100, 1),
+    }))
+    .sort((a, b) => {
+      if ((a.classification === null) !== (b.classification === null)) {
+        return a.classification === null ? 1 : -1;
+      }
+      return b.loanCount - a.loanCount;
+    });
+}
+
+// ============================================
+// 予約の待ち時間・未受取率の集計
+// ============================================
+
+/** カテゴリ未設定の書籍の集計名 */
+const UNCATEGORIZED = 'その他';
+
+/**
+ * 小数点以下の指定桁数に丸める
+ */
+function roundTo(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * 予約から取り置き開始までの平均日数を算出（取り置きの実績がない場合はnull）
+ */
+function toAverageWaitDays(totalWaitDays: number, notifiedCount: number): number | null {
+  return notifiedCount === 0 ? null : roundTo(totalWaitDays / notifiedCount, 1);
+}
+
+/**
+ * 取り置きの未受取率を算出（取り置きの結果がない場合はnull）
+ */
+function toNoShowRate(fulfilledCount: number, expiredCount: number): number | null {
+  const total = fulfilledCount + expiredCount;
+  return total === 0 ? null : roundTo(expiredCount / total, 2);
+}
+
+/**
+ * 書籍別の予約集計をカテゴリ別に合算（予約数の多い順）
+ */
+function aggregateByCategory(
+  items: readonly ReservationWaitStatisticsItem[]
+): ReservationWaitCategoryItem[] {
+  const totals = new Map<
+    string,
+    Omit<ReservationWaitStatisticsItem, 'bookId' | 'title' | 'category'>
+  >();
+  for (const item of items) {
+    const category = item.category ?? UNCATEGORIZED;
+    const total = totals.get(category);
+    totals.set(category, {
+      copyCount: (total?.copyCount ?? 0) + item.copyCount,
+      reservationCount: (total?.reservationCount ?? 0) + item.reservationCount,
+      activeReservationCount: (total?.activeReservationCount ?? 0) + item.activeReservationCount,
+      notifiedCount: (total?.notifiedCount ?? 0) + item.notifiedCount,
+      totalWaitDays: (total?.totalWaitDays ?? 0) + item.totalWaitDays,
+      fulfilledCount: (total?.fulfilledCount ?? 0) + item.fulfilledCount,
+      expiredCount: (total?.expiredCount ?? 0) + item.expiredCount,
+    });
+  }
+
+  return [...totals.entries()]
+    .map(([category, total]) => ({
+      category,
+      copyCount: total.copyCount,
+      reservationCount: total.reservationCount,
+      activeReservationCount: total.activeReservationCount,
+      averageWaitDays: toAverageWaitDays(total.totalWaitDays, total.notifiedCount),
+      noShowRate: toNoShowRate(total.fulfilledCount, total.expiredCount),
+    }))
+    .sort((a, b) => b.reservationCount - a.reservationCount);
+}
+
+// ============================================
+// 予約数に基づく購入候補の算出
+// ============================================
+
+/**
+ * 1冊あたりの予約数を上限以下にするために買い増す冊数を算出
+ * 例: 上限3冊・予約10件・蔵書2冊の場合、必要な蔵書は4冊のため2冊を買い増す
+ */
+function calculateAdditionalCopies(
+  activeReservationCount: number,
+  copyCount: number,
+  holdsPerCopyThreshold: number
+): number {
+  const requiredCopies = Math.ceil(activeReservationCount / holdsPerCopyThreshold);
+  return Math.max(requiredCopies - copyCount, 0);
+}
+
 // ============================================
 // CSV出力ユーティリティ (Task 9.2)
 // ============================================
@@ -155,8 +338,15 @@ function tableDataToCsv(tableData: TableData): string {
 // サービス実装
 // ============================================
 
-/** ReportService 実装を作成 */
-export function createReportService(reportRepository: ReportRepository): ReportService {
+/**
+ * ReportService 実装を作成
+ * @param reportRepository - レポートリポジトリ
+ * @param purchaseCandidateConfig - 購入候補レポートの設定（1冊あたりの予約数の上限）
+ */
+export function createReportService(
+  reportRepository: ReportRepository,
+  purchaseCandidateConfig: PurchaseCandidateConfig = DEFAULT_PURCHASE_CANDIDATE_CONFIG
+): ReportService {
   return {
     async getStatisticsSummary(
       dateRange: DateRange
@@ -170,16 +360,18 @@ export function createReportService(reportRepository: ReportRepository): ReportS
       }
 
       // 各統計を集計
-      const [loanCount, returnCount, overdueCount] = await Promise.all([
+      const [loanCount, returnCount, overdueCount, renewalCount] = await Promise.all([
         reportRepository.countLoans(dateRange),
         reportRepository.countReturns(dateRange),
         reportRepository.countOverdues(dateRange),
+        reportRepository.countRenewals(dateRange),
       ]);
 
       return ok({
         loanCount,
         returnCount,
         overdueCount,
+        renewalCount,
         dateRange,
       });
     },
@@ -229,6 +421,127 @@ export function createReportService(reportRepository: ReportRepository): ReportS
       });
     },
 
+    async getClassificationStatistics(
+      dateRange: DateRange,
+      scheme: ClassificationScheme,
+      level: number
+    ): Promise<Result<ClassificationStatistics, ReportError>> {
+      // 期間の妥当性チェック
+      if (!isValidDateRange(dateRange)) {
+        return err({
+          type: 'INVALID_DATE_RANGE',
+          message: '開始日は終了日より前である必要があります',
+        });
+      }
+
+      // 階層の深さは1以上の整数
+      if (!Number.isInteger(level) || level < 1) {
+        return err({
+          type: 'VALIDATION_ERROR',
+          field: 'level',
+          message: 'levelは1以上の整数で指定してください',
+        });
+      }
+
+      const counts = await reportRepository.getClassificationLoanCounts(dateRange, scheme);
+
+      return ok({
+        scheme,
+        level,
+        items: rollUpByLevel(counts, level),
+        totalLoanCount: counts.reduce((sum, count) => sum + count.loanCount, 0),
+        dateRange,
+      });
+    },
+
+    async getOpenReturnClaims(): Promise<Result<OpenReturnClaimsReport, never>> {
+      const claims = await reportRepository.getOpenReturnClaims();
+
+      // 申告からの経過日数を算出し、古い順に並べる
+      const now = Date.now();
+      const items = claims
+        .map((claim) => ({
+          ...claim,
+          ageDays: Math.floor((now - claim.claimedAt.getTime()) / (1000 * 60 * 60 * 24)),
+        }))
+        .sort((a, b) => a.claimedAt.getTime() - b.claimedAt.getTime());
+
+      return ok({
+        items,
+        totalCount: items.length,
+      });
+    },
+
+    async getReservationWaitReport(
+      dateRange: DateRange
+    ): Promise<Result<ReservationWaitReport, ReportError>> {
+      // 期間の妥当性チェック
+      if (!isValidDateRange(dateRange)) {
+        return err({
+          type: 'INVALID_DATE_RANGE',
+          message: '開始日は終了日より前である必要があります',
+        });
+      }
+
+      const items = await reportRepository.getReservationWaitStatistics(dateRange);
+
+      // 書籍別: 予約の多い書籍（買い増しの候補）を先頭に、同数なら待ち時間の長い順
+      const books = items
+        .map((item) => ({
+          bookId: item.bookId,
+          title: item.title,
+          category: item.category,
+          copyCount: item.copyCount,
+          reservationCount: item.reservationCount,
+          activeReservationCount: item.activeReservationCount,
+          holdsPerCopy:
+            item.copyCount === 0 ? null : roundTo(item.activeReservationCount / item.copyCount, 2),
+          averageWaitDays: toAverageWaitDays(item.totalWaitDays, item.notifiedCount),
+          noShowRate: toNoShowRate(item.fulfilledCount, item.expiredCount),
+        }))
+        .sort(
+          (a, b) =>
+            b.activeReservationCount - a.activeReservationCount ||
+            (b.averageWaitDays ?? 0) - (a.averageWaitDays ?? 0)
+        );
+
+      return ok({
+        books,
+        categories: aggregateByCategory(items),
+        dateRange,
+      });
+    },
+
+    async getPurchaseCandidates(): Promise<Result<PurchaseCandidatesReport, never>> {
+      const { holdsPerCopyThreshold } = purchaseCandidateConfig;
+      const statistics = await reportRepository.getHoldRatioStatistics();
+
+      // 1冊あたりの予約数が上限を超える書籍（買い増す冊数が1冊以上）のみを候補とする
+      const items: PurchaseCandidateItem[] = statistics
+        .map((item) => ({
+          ...item,
+          holdsPerCopy:
+            item.copyCount === 0 ? null : roundTo(item.activeReservationCount / item.copyCount, 2),
+          additionalCopies: calculateAdditionalCopies(
+            item.activeReservationCount,
+            item.copyCount,
+            holdsPerCopyThreshold
+          ),
+        }))
+        .filter((item) => item.additionalCopies > 0)
+        .sort(
+          (a, b) =>
+            b.additionalCopies - a.additionalCopies ||
+            b.activeReservationCount - a.activeReservationCount
+        );
+
+      return ok({
+        items,
+        holdsPerCopyThreshold,
+        totalAdditionalCopies: items.reduce((sum, item) => sum + item.additionalCopies, 0),
+      });
+    },
+
     // ============================================
     // 表形式データ整形機能 (Task 9.2)
     // ============================================
@@ -248,6 +561,7 @@ export function createReportService(reportRepository: ReportRepository): ReportS
           ['貸出数', String(summary.loanCount)],
           ['返却数', String(summary.returnCount)],
           ['延滞数', String(summary.overdueCount)],
+          ['延長数', String(summary.renewalCount)],
         ],
       });
     },
@@ -292,6 +606,35 @@ export function createReportService(reportRepository: ReportRepository): ReportS
       });
     },
 
+    async formatPurchaseCandidatesAsTable(): Promise<Result<TableData, never>> {
+      const reportResult = await this.getPurchaseCandidates();
+      if (!isOk(reportResult)) {
+        return reportResult;
+      }
+
+      const report = reportResult.value;
+      return ok({
+        headers: [
+          'タイトル',
+          '著者',
+          'ISBN',
+          '蔵書数',
+          '予約数',
+          '1冊あたりの予約数',
+          '購入推奨冊数',
+        ],
+        rows: report.items.map((item) => [
+          item.title,
+          item.author,
+          item.isbn,
+          String(item.copyCount),
+          String(item.activeReservationCount),
+          item.holdsPerCopy === null ? '-' : item.holdsPerCopy.toFixed(2),
+          String(item.additionalCopies),
+        ]),
+      });
+    },
+
     // ============================================
     // CSVエクスポート機能 (Task 9.2)
     // ============================================
@@ -327,5 +670,14 @@ export function createReportService(reportRepository: ReportRepository): ReportS
 
       return ok(tableDataToCsv(tableResult.value));
     },
+
+    async exportPurchaseCandidatesToCsv(): Promise<Result<string, never>> {
+      const tableResult = await this.formatPurchaseCandidatesAsTable();
+      if (!isOk(tableResult)) {
+        return tableResult;
+      }
+
+      return ok(tableDataToCsv(tableResult.value));
+    },
   };
 }
@@ -4,7 +4,8 @@
  * レポート・統計ドメインの型定義を提供します。
  */
 
-import type { BookId } from '../../shared/branded-types.js';
+import type { BookId, CopyId, LoanId, ReturnClaimId, UserId } from '../../shared/branded-types.js';
+import type { BookClassification, BookContributor, ClassificationScheme } from '../book/types.js';
 
 // ============================================
 // 期間指定
@@ -28,6 +29,8 @@ export interface StatisticsSummary {
   readonly returnCount: number;
   /** 延滞数 */
   readonly overdueCount: number;
+  /** 延長数（期間内に貸し出した貸出の延長回数の合計） */
+  readonly renewalCount: number;
   /** 集計期間 */
   readonly dateRange: DateRange;
 }
@@ -41,6 +44,8 @@ export interface PopularBookItem {
   readonly bookId: BookId;
   readonly title: string;
   readonly author: string;
+  /** 寄与者一覧（表示順） */
+  readonly contributors: readonly BookContributor[];
   readonly loanCount: number;
   readonly rank: number;
 }
@@ -69,6 +74,173 @@ export interface CategoryStatistics {
   readonly dateRange: DateRange;
 }
 
+// ============================================
+// 分類別貸出統計
+// ============================================
+
+/** 書籍の分類ごとの貸出数 */
+export interface ClassificationLoanCount {
+  /** 最上位の分類から書籍の分類までの分類（未分類の書籍は空） */
+  readonly path: readonly BookClassification[];
+  readonly loanCount: number;
+}
+
+/** 分類別貸出統計項目 */
+export interface ClassificationStatisticsItem {
+  /** 分類（未分類の書籍はnull） */
+  readonly classification: BookClassification | null;
+  readonly loanCount: number;
+  readonly percentage: number;
+}
+
+/**
+ * 分類別貸出統計
+ *
+ * 指定した階層の分類に下位の分類の貸出数をまとめる（指定した階層より上位の分類の書籍はその分類のまま集計する）
+ */
+export interface ClassificationStatistics {
+  readonly scheme: ClassificationScheme;
+  /** 集計した階層の深さ（最上位が1） */
+  readonly level: number;
+  readonly items: readonly ClassificationStatisticsItem[];
+  readonly totalLoanCount: number;
+  readonly dateRange: DateRange;
+}
+
+// ============================================
+// 未解決の返却申告
+// ============================================
+
+/** 未解決の返却申告項目 */
+export interface OpenReturnClaimItem {
+  readonly claimId: ReturnClaimId;
+  readonly loanId: LoanId;
+  readonly userId: UserId;
+  readonly userName: string;
+  readonly bookCopyId: CopyId;
+  readonly bookTitle: string;
+  readonly claimedBy: UserId;
+  readonly claimedAt: Date;
+  /** 館内捜索の実施回数 */
+  readonly searchCount: number;
+  readonly lastSearchedAt: Date | null;
+}
+
+/** 未解決の返却申告レポート項目 */
+export interface OpenReturnClaimReportItem extends OpenReturnClaimItem {
+  /** 申告からの経過日数 */
+  readonly ageDays: number;
+}
+
+/** 未解決の返却申告レポート（申告日の古い順） */
+export interface OpenReturnClaimsReport {
+  readonly items: readonly OpenReturnClaimReportItem[];
+  readonly totalCount: number;
+}
+
+// ============================================
+// 予約の待ち時間・未受取率
+// ============================================
+
+/** 書籍別の予約集計（期間内に登録された予約が対象） */
+export interface ReservationWaitStatisticsItem {
+  readonly bookId: BookId;
+  readonly title: string;
+  readonly category: string | null;
+  /** 貸出できる蔵書コピー数（紛失・破損を除く） */
+  readonly copyCount: number;
+  readonly reservationCount: number;
+  /** 予約待ち・輸送中・取り置き中の予約数 */
+  readonly activeReservationCount: number;
+  /** 取り置きを開始した予約数 */
+  readonly notifiedCount: number;
+  /** 取り置きを開始した予約の、予約から取り置き開始までの日数の合計 */
+  readonly totalWaitDays: number;
+  /** 取り置き後に貸出完了となった予約数 */
+  readonly fulfilledCount: number;
+  /** 取り置き後に受け取られず期限切れとなった予約数 */
+  readonly expiredCount: number;
+}
+
+/** 予約の待ち時間・未受取率の書籍別項目 */
+export interface ReservationWaitBookItem {
+  readonly bookId: BookId;
+  readonly title: string;
+  readonly category: string | null;
+  readonly copyCount: number;
+  readonly reservationCount: number;
+  readonly activeReservationCount: number;
+  /** 蔵書コピー1冊あたりのアクティブな予約数（蔵書コピーがない場合はnull） */
+  readonly holdsPerCopy: number | null;
+  /** 予約から取り置き開始までの平均日数（取り置きの実績がない場合はnull） */
+  readonly averageWaitDays: number | null;
+  /** 取り置きの未受取率（0〜1、取り置きの結果がない場合はnull） */
+  readonly noShowRate: number | null;
+}
+
+/** 予約の待ち時間・未受取率のカテゴリ別項目 */
+export interface ReservationWaitCategoryItem {
+  /** カテゴリ（未設定の書籍は「その他」） */
+  readonly category: string;
+  readonly copyCount: number;
+  readonly reservationCount: number;
+  readonly activeReservationCount: number;
+  readonly averageWaitDays: number | null;
+  readonly noShowRate: number | null;
+}
+
+/** 予約の待ち時間・未受取率レポート */
+export interface ReservationWaitReport {
+  /** 書籍別（アクティブな予約の多い順） */
+  readonly books: readonly ReservationWaitBookItem[];
+  /** カテゴリ別（予約数の多い順） */
+  readonly categories: readonly ReservationWaitCategoryItem[];
+  readonly dateRange: DateRange;
+}
+
+// ============================================
+// 予約数に基づく購入候補
+// ============================================
+
+/** 購入候補レポートの設定 */
+export interface PurchaseCandidateConfig {
+  /** 蔵書コピー1冊あたりのアクティブな予約数の上限（これを超える書籍を購入候補とする） */
+  readonly holdsPerCopyThreshold: number;
+}
+
+/** デフォルトの購入候補レポートの設定 */
+export const DEFAULT_PURCHASE_CANDIDATE_CONFIG: PurchaseCandidateConfig = {
+  holdsPerCopyThreshold: 3,
+};
+
+/** 書籍別のアクティブな予約数と蔵書コピー数（アクティブな予約がある書籍のみ） */
+export interface HoldRatioStatisticsItem {
+  readonly bookId: BookId;
+  readonly title: string;
+  readonly author: string;
+  readonly isbn: string;
+  /** 貸出できる蔵書コピー数（紛失・破損を除く） */
+  readonly copyCount: number;
+  /** 予約待ち・輸送中・取り置き中の予約数 */
+  readonly activeReservationCount: number;
+}
+
+/** 購入候補項目 */
+export interface PurchaseCandidateItem extends HoldRatioStatisticsItem {
+  /** 蔵書コピー1冊あたりのアクティブな予約数（蔵書コピーがない場合はnull） */
+  readonly holdsPerCopy: number | null;
+  /** 1冊あたりの予約数を上限以下にするために買い増す冊数 */
+  readonly additionalCopies: number;
+}
+
+/** 購入候補レポート（買い増す冊数の多い順） */
+export interface PurchaseCandidatesReport {
+  readonly items: readonly PurchaseCandidateItem[];
+  readonly holdsPerCopyThreshold: number;
+  /** 買い増す冊数の合計 */
+  readonly totalAdditionalCopies: number;
+}
+
 // ============================================
 // エラー型定義
 // ============================================
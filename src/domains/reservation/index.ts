@@ -6,11 +6,18 @@ export type {
   CreateReservationInput,
   ReservationError,
   ReservationStatus,
+  ReservationLimitConfig,
+  TransitRequest,
+  TransitRequestStatus,
 } from './types.js';
+export { DEFAULT_RESERVATION_LIMIT_CONFIG } from './types.js';
 
 // Service
 export type { ReservationService } from './reservation-service.js';
-export { createReservationService } from './reservation-service.js';
+export {
+  createReservationService,
+  parseReservationLimitsByPatronCategory,
+} from './reservation-service.js';
 
 // Repository
 export type { ReservationRepository } from './reservation-repository.js';
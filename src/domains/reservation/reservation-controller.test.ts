@@ -6,7 +6,18 @@
  * エンドポイント:
  * - POST /api/reservations - 予約作成
  * - DELETE /api/reservations/:id - 予約キャンセル
+ * - GET /api/reservations/hold-shelf/pull-list - 取り置き棚の回収リスト
+ * - POST /api/reservations/:id/suspend - 予約の休止
+ * - POST /api/reservations/:id/resume - 予約の休止解除
  * - GET /api/users/:id/reservations - 利用者の予約一覧
+ * - POST /api/users/:id/reservations/suspend - 利用者の予約の一括休止
+ * - POST /api/users/:id/reservations/resume - 利用者の予約の一括休止解除
+ * - GET /api/books/:id/reservation-queue - 書籍の予約キュー取得
+ * - GET /api/books/:id/reservation-queue/changes - 予約キューの変更履歴取得
+ * - POST /api/books/:id/reservation-queue/renumber - 予約キューの順番の振り直し
+ * - POST /api/reservations/:id/move - 予約キュー内の順番の移動
+ * - GET /api/transits - 輸送依頼一覧取得
+ * - POST /api/transits/:id/receive - 輸送依頼の受取館での受領
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
@@ -15,9 +26,25 @@ import request from 'supertest';
 import { createReservationController } from './reservation-controller.js';
 import type { ReservationService } from './reservation-service.js';
 import type { ReservationRepository } from './reservation-repository.js';
-import { createReservationId, createUserId, createBookId } from '../../shared/branded-types.js';
+import {
+  createReservationId,
+  createUserId,
+  createBookId,
+  createCopyId,
+  createReservationQueueChangeId,
+  createServicePointId,
+  createTransitRequestId,
+} from '../../shared/branded-types.js';
 import { ok, err } from '../../shared/result.js';
-import type { Reservation, ReservationError } from './types.js';
+import type {
+  Reservation,
+  ReservationError,
+  ReservationQueueChange,
+  TransitRequest,
+} from './types.js';
+import type { AuthenticatedRequest } from '../auth/rbac.js';
+import type { UserRole } from '../auth/types.js';
+import { toDateKey } from '../calendar/calendar-service.js';
 
 // ============================================
 // モックファクトリ
@@ -26,9 +53,24 @@ import type { Reservation, ReservationError } from './types.js';
 function createMockReservationService(): ReservationService {
   return {
     createReservation: vi.fn(),
+    placeAcquisitionHold: vi.fn(),
     cancelReservation: vi.fn(),
     processReturnedBook: vi.fn(),
+    allocateReturnedCopy: vi.fn(),
+    fulfillReservationForLoan: vi.fn(),
     expireOverdueReservations: vi.fn(),
+    getHoldShelfPullList: vi.fn(),
+    suspendReservation: vi.fn(),
+    resumeReservation: vi.fn(),
+    suspendUserReservations: vi.fn(),
+    resumeUserReservations: vi.fn(),
+    getReservationQueue: vi.fn(),
+    moveReservation: vi.fn(),
+    renumberQueue: vi.fn(),
+    getQueueChanges: vi.fn(),
+    estimateWait: vi.fn(),
+    getTransitRequests: vi.fn(),
+    receiveTransit: vi.fn(),
   };
 }
 
@@ -55,6 +97,9 @@ const testReservation: Reservation = {
   expiresAt: null,
   status: 'PENDING',
   queuePosition: 1,
+  copyId: null,
+  suspendedUntil: null,
+  pickupLocationId: null,
 };
 
 // ============================================
@@ -63,10 +108,22 @@ const testReservation: Reservation = {
 
 function createTestApp(
   reservationService: ReservationService,
-  reservationRepository: Pick<ReservationRepository, 'findByUserId'>
+  reservationRepository: Pick<ReservationRepository, 'findByUserId'>,
+  role?: UserRole
 ): Express {
   const app = express();
   app.use(express.json());
+  if (role !== undefined) {
+    app.use((req: AuthenticatedRequest, _res, next) => {
+      req.session = {
+        userId: createUserId('librarian-1'),
+        role,
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      };
+      next();
+    });
+  }
   app.use('/api', createReservationController(reservationService, reservationRepository));
   return app;
 }
@@ -127,6 +184,25 @@ describe('ReservationController', () => {
           bookId: testBookId,
         });
       });
+
+      it('受取館を指定した場合はサービスに渡される', async () => {
+        // Arrange
+        vi.mocked(mockReservationService.createReservation).mockResolvedValue(ok(testReservation));
+
+        // Act
+        await request(app).post('/api/reservations').send({
+          userId: testUserId,
+          bookId: testBookId,
+          pickupLocationId: 'sp-central',
+        });
+
+        // Assert
+        expect(mockReservationService.createReservation).toHaveBeenCalledWith({
+          userId: testUserId,
+          bookId: testBookId,
+          pickupLocationId: 'sp-central',
+        });
+      });
     });
 
     describe('異常系 - バリデーションエラー', () => {
@@ -153,6 +229,20 @@ describe('ReservationController', () => {
         expect(response.body.error).toHaveProperty('type', 'VALIDATION_ERROR');
         expect(response.body.error).toHaveProperty('field', 'bookId');
       });
+
+      it('pickupLocationIdが文字列でない場合400を返す', async () => {
+        // Act
+        const response = await request(app).post('/api/reservations').send({
+          userId: testUserId,
+          bookId: testBookId,
+          pickupLocationId: 123,
+        });
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect(response.body.error).toHaveProperty('field', 'pickupLocationId');
+        expect(mockReservationService.createReservation).not.toHaveBeenCalled();
+      });
     });
 
     describe('異常系 - ビジネスルールエラー', () => {
@@ -232,6 +322,39 @@ describe('ReservationController', () => {
         expect(response.status).toBe(409);
         expect(response.body.error).toHaveProperty('type', 'ALREADY_RESERVED');
       });
+
+      it.each<[string, ReservationError]>([
+        [
+          '予約上限に達している',
+          {
+            type: 'RESERVATION_LIMIT_EXCEEDED',
+            userId: testUserId,
+            limit: 5,
+            currentCount: 5,
+          },
+        ],
+        [
+          'その書籍を借りている',
+          { type: 'BOOK_ALREADY_ON_LOAN', userId: testUserId, bookId: testBookId },
+        ],
+        [
+          '延滞料金により利用停止中',
+          { type: 'PATRON_BLOCKED', userId: testUserId, balance: 1500, threshold: 1000 },
+        ],
+      ])('利用者が%sの場合409とエラー種別を返す', async (_label, error) => {
+        // Arrange
+        vi.mocked(mockReservationService.createReservation).mockResolvedValue(err(error));
+
+        // Act
+        const response = await request(app).post('/api/reservations').send({
+          userId: testUserId,
+          bookId: testBookId,
+        });
+
+        // Assert
+        expect(response.status).toBe(409);
+        expect(response.body.error).toEqual(error);
+      });
     });
   });
 
@@ -283,6 +406,252 @@ describe('ReservationController', () => {
     });
   });
 
+  // ============================================
+  // GET /api/reservations/hold-shelf/pull-list - 取り置き棚の回収リスト
+  // ============================================
+
+  describe('GET /api/reservations/hold-shelf/pull-list - 取り置き棚の回収リスト', () => {
+    it('正常系: 指定日の回収リストを200で返す', async () => {
+      // Arrange
+      const expiredHold: Reservation = {
+        ...testReservation,
+        status: 'EXPIRED',
+        notifiedAt: new Date('2024-06-10T10:00:00Z'),
+        expiresAt: new Date('2024-06-18T10:00:00Z'),
+        copyId: createCopyId('copy-001'),
+      };
+      vi.mocked(mockReservationService.getHoldShelfPullList).mockResolvedValue(ok([expiredHold]));
+
+      // Act
+      const response = await request(app).get(
+        '/api/reservations/hold-shelf/pull-list?date=2024-06-18'
+      );
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].copyId).toBe('copy-001');
+      expect(mockReservationService.getHoldShelfPullList).toHaveBeenCalledWith('2024-06-18');
+    });
+
+    it('正常系: 対象日の指定がない場合は今日の回収リストを返す', async () => {
+      // Arrange
+      vi.mocked(mockReservationService.getHoldShelfPullList).mockResolvedValue(ok([]));
+
+      // Act
+      const response = await request(app).get('/api/reservations/hold-shelf/pull-list');
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockReservationService.getHoldShelfPullList).toHaveBeenCalledWith(
+        toDateKey(new Date())
+      );
+    });
+
+    it('異常系: 対象日の形式が不正な場合400を返す', async () => {
+      // Arrange
+      vi.mocked(mockReservationService.getHoldShelfPullList).mockResolvedValue(
+        err({
+          type: 'VALIDATION_ERROR',
+          field: 'date',
+          message: '対象日はYYYY-MM-DD形式で指定してください',
+        })
+      );
+
+      // Act
+      const response = await request(app).get(
+        '/api/reservations/hold-shelf/pull-list?date=tomorrow'
+      );
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body.error).toHaveProperty('field', 'date');
+    });
+  });
+
+  // ============================================
+  // POST /api/reservations/:id/suspend - 予約の休止
+  // ============================================
+
+  describe('POST /api/reservations/:id/suspend - 予約の休止', () => {
+    const suspendedReservation: Reservation = {
+      ...testReservation,
+      suspendedUntil: new Date(2099, 5, 1),
+    };
+
+    describe('正常系', () => {
+      it('予約を休止し200を返す', async () => {
+        // Arrange
+        vi.mocked(mockReservationService.suspendReservation).mockResolvedValue(
+          ok(suspendedReservation)
+        );
+
+        // Act
+        const response = await request(app)
+          .post(`/api/reservations/${testReservationId}/suspend`)
+          .send({ until: '2099-06-01' });
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(response.body).toHaveProperty('id', testReservationId);
+        expect(response.body).toHaveProperty('queuePosition', 1);
+        expect(mockReservationService.suspendReservation).toHaveBeenCalledWith(
+          testReservationId,
+          '2099-06-01'
+        );
+      });
+    });
+
+    describe('異常系', () => {
+      it('休止期限が未指定の場合は400を返す', async () => {
+        // Act
+        const response = await request(app)
+          .post(`/api/reservations/${testReservationId}/suspend`)
+          .send({});
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect(response.body.error).toHaveProperty('type', 'VALIDATION_ERROR');
+        expect(response.body.error).toHaveProperty('field', 'until');
+        expect(mockReservationService.suspendReservation).not.toHaveBeenCalled();
+      });
+
+      it('休止期限の形式が不正な場合は400を返す', async () => {
+        // Arrange
+        const error: ReservationError = {
+          type: 'VALIDATION_ERROR',
+          field: 'until',
+          message: '休止期限はYYYY-MM-DD形式で指定してください',
+        };
+        vi.mocked(mockReservationService.suspendReservation).mockResolvedValue(err(error));
+
+        // Act
+        const response = await request(app)
+          .post(`/api/reservations/${testReservationId}/suspend`)
+          .send({ until: '2099/06/01' });
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect(response.body.error).toHaveProperty('field', 'until');
+      });
+
+      it('通知済みの予約の場合は409を返す', async () => {
+        // Arrange
+        const error: ReservationError = {
+          type: 'INVALID_RESERVATION_STATUS',
+          reservationId: testReservationId,
+          status: 'NOTIFIED',
+        };
+        vi.mocked(mockReservationService.suspendReservation).mockResolvedValue(err(error));
+
+        // Act
+        const response = await request(app)
+          .post(`/api/reservations/${testReservationId}/suspend`)
+          .send({ until: '2099-06-01' });
+
+        // Assert
+        expect(response.status).toBe(409);
+        expect(response.body.error).toHaveProperty('type', 'INVALID_RESERVATION_STATUS');
+      });
+
+      it('存在しない予約の場合は404を返す', async () => {
+        // Arrange
+        const error: ReservationError = {
+          type: 'RESERVATION_NOT_FOUND',
+          reservationId: 'non-existent',
+        };
+        vi.mocked(mockReservationService.suspendReservation).mockResolvedValue(err(error));
+
+        // Act
+        const response = await request(app)
+          .post('/api/reservations/non-existent/suspend')
+          .send({ until: '2099-06-01' });
+
+        // Assert
+        expect(response.status).toBe(404);
+      });
+    });
+  });
+
+  // ============================================
+  // POST /api/reservations/:id/resume - 予約の休止解除
+  // ============================================
+
+  describe('POST /api/reservations/:id/resume - 予約の休止解除', () => {
+    it('予約の休止を解除し200を返す', async () => {
+      // Arrange
+      vi.mocked(mockReservationService.resumeReservation).mockResolvedValue(ok(testReservation));
+
+      // Act
+      const response = await request(app).post(`/api/reservations/${testReservationId}/resume`);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('suspendedUntil', null);
+      expect(mockReservationService.resumeReservation).toHaveBeenCalledWith(testReservationId);
+    });
+
+    it('通知済みの予約の場合は409を返す', async () => {
+      // Arrange
+      const error: ReservationError = {
+        type: 'INVALID_RESERVATION_STATUS',
+        reservationId: testReservationId,
+        status: 'NOTIFIED',
+      };
+      vi.mocked(mockReservationService.resumeReservation).mockResolvedValue(err(error));
+
+      // Act
+      const response = await request(app).post(`/api/reservations/${testReservationId}/resume`);
+
+      // Assert
+      expect(response.status).toBe(409);
+    });
+  });
+
+  // ============================================
+  // GET /api/reservations/:id/estimate - 予約の受取可能見込み
+  // ============================================
+
+  describe('GET /api/reservations/:id/estimate - 予約の受取可能見込み', () => {
+    it('受取可能見込みを取得し200を返す', async () => {
+      // Arrange
+      vi.mocked(mockReservationService.estimateWait).mockResolvedValue(
+        ok({
+          reservationId: testReservationId,
+          bookId: testBookId,
+          status: 'PENDING',
+          queuePosition: 2,
+          reservationsAhead: 1,
+          estimatedAvailableAt: new Date('2024-02-01T00:00:00Z'),
+          averageLoanDays: 12.5,
+          noShowRate: 0.1,
+        })
+      );
+
+      // Act
+      const response = await request(app).get(`/api/reservations/${testReservationId}/estimate`);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('reservationsAhead', 1);
+      expect(response.body).toHaveProperty('estimatedAvailableAt', '2024-02-01T00:00:00.000Z');
+      expect(mockReservationService.estimateWait).toHaveBeenCalledWith(testReservationId);
+    });
+
+    it('存在しない予約の場合は404を返す', async () => {
+      // Arrange
+      vi.mocked(mockReservationService.estimateWait).mockResolvedValue(
+        err({ type: 'RESERVATION_NOT_FOUND', reservationId: testReservationId })
+      );
+
+      // Act
+      const response = await request(app).get(`/api/reservations/${testReservationId}/estimate`);
+
+      // Assert
+      expect(response.status).toBe(404);
+    });
+  });
+
   // ============================================
   // GET /api/users/:id/reservations - 利用者の予約一覧
   // ============================================
@@ -302,6 +671,9 @@ describe('ReservationController', () => {
             expiresAt: new Date('2024-06-12T10:00:00Z'),
             status: 'NOTIFIED',
             queuePosition: 1,
+            copyId: null,
+            suspendedUntil: null,
+            pickupLocationId: null,
           },
         ];
         vi.mocked(mockReservationRepository.findByUserId).mockResolvedValue(reservations);
@@ -340,4 +712,400 @@ describe('ReservationController', () => {
       });
     });
   });
+
+  // ============================================
+  // POST /api/users/:id/reservations/suspend - 利用者の予約の一括休止
+  // ============================================
+
+  describe('POST /api/users/:id/reservations/suspend - 利用者の予約の一括休止', () => {
+    it('利用者の予約をまとめて休止し200を返す', async () => {
+      // Arrange
+      const suspended: Reservation = { ...testReservation, suspendedUntil: new Date(2099, 5, 1) };
+      vi.mocked(mockReservationService.suspendUserReservations).mockResolvedValue(ok([suspended]));
+
+      // Act
+      const response = await request(app)
+        .post(`/api/users/${testUserId}/reservations/suspend`)
+        .send({ until: '2099-06-01' });
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(mockReservationService.suspendUserReservations).toHaveBeenCalledWith(
+        testUserId,
+        '2099-06-01'
+      );
+    });
+
+    it('休止期限が未指定の場合は400を返す', async () => {
+      // Act
+      const response = await request(app)
+        .post(`/api/users/${testUserId}/reservations/suspend`)
+        .send({});
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body.error).toHaveProperty('field', 'until');
+      expect(mockReservationService.suspendUserReservations).not.toHaveBeenCalled();
+    });
+
+    it('存在しない利用者の場合は404を返す', async () => {
+      // Arrange
+      const error: ReservationError = { type: 'USER_NOT_FOUND', userId: 'non-existent' };
+      vi.mocked(mockReservationService.suspendUserReservations).mockResolvedValue(err(error));
+
+      // Act
+      const response = await request(app)
+        .post('/api/users/non-existent/reservations/suspend')
+        .send({ until: '2099-06-01' });
+
+      // Assert
+      expect(response.status).toBe(404);
+    });
+  });
+
+  // ============================================
+  // POST /api/users/:id/reservations/resume - 利用者の予約の一括休止解除
+  // ============================================
+
+  describe('POST /api/users/:id/reservations/resume - 利用者の予約の一括休止解除', () => {
+    it('利用者の予約の休止をまとめて解除し200を返す', async () => {
+      // Arrange
+      vi.mocked(mockReservationService.resumeUserReservations).mockResolvedValue(
+        ok([testReservation])
+      );
+
+      // Act
+      const response = await request(app).post(`/api/users/${testUserId}/reservations/resume`);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(mockReservationService.resumeUserReservations).toHaveBeenCalledWith(testUserId);
+    });
+  });
+
+  // ============================================
+  // 予約キューの管理（図書館員のみ）
+  // ============================================
+
+  describe('予約キューの管理', () => {
+    let librarianApp: Express;
+
+    beforeEach(() => {
+      librarianApp = createTestApp(mockReservationService, mockReservationRepository, 'librarian');
+    });
+
+    describe('GET /api/books/:id/reservation-queue - 書籍の予約キュー取得', () => {
+      it('予約キューを取得し200を返す', async () => {
+        // Arrange
+        vi.mocked(mockReservationService.getReservationQueue).mockResolvedValue(
+          ok([testReservation])
+        );
+
+        // Act
+        const response = await request(librarianApp).get(
+          `/api/books/${testBookId}/reservation-queue`
+        );
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(response.body).toHaveLength(1);
+        expect(mockReservationService.getReservationQueue).toHaveBeenCalledWith(testBookId);
+      });
+
+      it('管理者も予約キューを取得できる', async () => {
+        // Arrange
+        const adminApp = createTestApp(mockReservationService, mockReservationRepository, 'admin');
+        vi.mocked(mockReservationService.getReservationQueue).mockResolvedValue(ok([]));
+
+        // Act
+        const response = await request(adminApp).get(`/api/books/${testBookId}/reservation-queue`);
+
+        // Assert
+        expect(response.status).toBe(200);
+      });
+
+      it('存在しない書籍の場合は404を返す', async () => {
+        // Arrange
+        const error: ReservationError = { type: 'BOOK_NOT_FOUND', bookId: 'non-existent' };
+        vi.mocked(mockReservationService.getReservationQueue).mockResolvedValue(err(error));
+
+        // Act
+        const response = await request(librarianApp).get(
+          '/api/books/non-existent/reservation-queue'
+        );
+
+        // Assert
+        expect(response.status).toBe(404);
+      });
+
+      it('未認証の場合は401を返す', async () => {
+        // Act
+        const response = await request(app).get(`/api/books/${testBookId}/reservation-queue`);
+
+        // Assert
+        expect(response.status).toBe(401);
+        expect(mockReservationService.getReservationQueue).not.toHaveBeenCalled();
+      });
+
+      it('利用者ロールの場合は403を返す', async () => {
+        // Arrange
+        const patronApp = createTestApp(
+          mockReservationService,
+          mockReservationRepository,
+          'patron'
+        );
+
+        // Act
+        const response = await request(patronApp).get(`/api/books/${testBookId}/reservation-queue`);
+
+        // Assert
+        expect(response.status).toBe(403);
+        expect(mockReservationService.getReservationQueue).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('GET /api/books/:id/reservation-queue/changes - 予約キューの変更履歴取得', () => {
+      it('変更履歴を取得し200を返す', async () => {
+        // Arrange
+        const change: ReservationQueueChange = {
+          id: createReservationQueueChangeId('queue-change-1'),
+          reservationId: testReservationId,
+          bookId: testBookId,
+          staffId: createUserId('librarian-1'),
+          fromPosition: 3,
+          toPosition: 1,
+          reason: 'アクセシビリティ対応',
+          changedAt: new Date('2024-06-02T10:00:00Z'),
+        };
+        vi.mocked(mockReservationService.getQueueChanges).mockResolvedValue(ok([change]));
+
+        // Act
+        const response = await request(librarianApp).get(
+          `/api/books/${testBookId}/reservation-queue/changes`
+        );
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(response.body[0]).toHaveProperty('staffId', 'librarian-1');
+        expect(response.body[0]).toHaveProperty('reason', 'アクセシビリティ対応');
+      });
+    });
+
+    describe('POST /api/books/:id/reservation-queue/renumber - 予約キューの順番の振り直し', () => {
+      it('予約キューの順番を振り直し200を返す', async () => {
+        // Arrange
+        vi.mocked(mockReservationService.renumberQueue).mockResolvedValue(ok([testReservation]));
+
+        // Act
+        const response = await request(librarianApp).post(
+          `/api/books/${testBookId}/reservation-queue/renumber`
+        );
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(response.body[0]).toHaveProperty('queuePosition', 1);
+        expect(mockReservationService.renumberQueue).toHaveBeenCalledWith(testBookId);
+      });
+    });
+
+    describe('POST /api/reservations/:id/move - 予約キュー内の順番の移動', () => {
+      it('操作した図書館員のIDとともに順番を移動し200を返す', async () => {
+        // Arrange
+        vi.mocked(mockReservationService.moveReservation).mockResolvedValue(ok(testReservation));
+
+        // Act
+        const response = await request(librarianApp)
+          .post(`/api/reservations/${testReservationId}/move`)
+          .send({ position: 1, reason: 'アクセシビリティ対応' });
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(mockReservationService.moveReservation).toHaveBeenCalledWith(testReservationId, {
+          position: 1,
+          staffId: 'librarian-1',
+          reason: 'アクセシビリティ対応',
+        });
+      });
+
+      it('移動先の順番が未指定の場合は400を返す', async () => {
+        // Act
+        const response = await request(librarianApp)
+          .post(`/api/reservations/${testReservationId}/move`)
+          .send({ reason: 'アクセシビリティ対応' });
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect(response.body.error).toHaveProperty('field', 'position');
+        expect(mockReservationService.moveReservation).not.toHaveBeenCalled();
+      });
+
+      it('理由が未指定の場合は400を返す', async () => {
+        // Act
+        const response = await request(librarianApp)
+          .post(`/api/reservations/${testReservationId}/move`)
+          .send({ position: 1, reason: '' });
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect(response.body.error).toHaveProperty('field', 'reason');
+        expect(mockReservationService.moveReservation).not.toHaveBeenCalled();
+      });
+
+      it('取り置き中の予約の場合は409を返す', async () => {
+        // Arrange
+        const error: ReservationError = {
+          type: 'INVALID_RESERVATION_STATUS',
+          reservationId: testReservationId,
+          status: 'NOTIFIED',
+        };
+        vi.mocked(mockReservationService.moveReservation).mockResolvedValue(err(error));
+
+        // Act
+        const response = await request(librarianApp)
+          .post(`/api/reservations/${testReservationId}/move`)
+          .send({ position: 2, reason: 'アクセシビリティ対応' });
+
+        // Assert
+        expect(response.status).toBe(409);
+      });
+
+      it('利用者ロールの場合は403を返す', async () => {
+        // Arrange
+        const patronApp = createTestApp(
+          mockReservationService,
+          mockReservationRepository,
+          'patron'
+        );
+
+        // Act
+        const response = await request(patronApp)
+          .post(`/api/reservations/${testReservationId}/move`)
+          .send({ position: 1, reason: 'アクセシビリティ対応' });
+
+        // Assert
+        expect(response.status).toBe(403);
+        expect(mockReservationService.moveReservation).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  // ============================================
+  // 輸送依頼
+  // ============================================
+
+  describe('輸送依頼', () => {
+    let librarianApp: Express;
+
+    const testTransitRequestId = createTransitRequestId('transit-1');
+    const testTransitRequest: TransitRequest = {
+      id: testTransitRequestId,
+      copyId: createCopyId('copy-1'),
+      reservationId: testReservationId,
+      fromServicePointId: createServicePointId('sp-east'),
+      toServicePointId: createServicePointId('sp-central'),
+      status: 'IN_TRANSIT',
+      createdAt: new Date('2024-06-10T10:00:00Z'),
+      receivedAt: null,
+    };
+
+    beforeEach(() => {
+      librarianApp = createTestApp(mockReservationService, mockReservationRepository, 'librarian');
+    });
+
+    describe('GET /api/transits - 輸送依頼一覧取得', () => {
+      it('ステータスで絞り込んだ輸送依頼一覧を取得し200を返す', async () => {
+        // Arrange
+        vi.mocked(mockReservationService.getTransitRequests).mockResolvedValue(
+          ok([testTransitRequest])
+        );
+
+        // Act
+        const response = await request(librarianApp).get('/api/transits?status=IN_TRANSIT');
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(response.body).toHaveLength(1);
+        expect(response.body[0]).toHaveProperty('toServicePointId', 'sp-central');
+        expect(mockReservationService.getTransitRequests).toHaveBeenCalledWith('IN_TRANSIT');
+      });
+
+      it('不正なステータスの場合は400を返す', async () => {
+        // Act
+        const response = await request(librarianApp).get('/api/transits?status=LOST');
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect(response.body.error).toHaveProperty('field', 'status');
+        expect(mockReservationService.getTransitRequests).not.toHaveBeenCalled();
+      });
+
+      it('利用者ロールの場合は403を返す', async () => {
+        // Arrange
+        const patronApp = createTestApp(
+          mockReservationService,
+          mockReservationRepository,
+          'patron'
+        );
+
+        // Act
+        const response = await request(patronApp).get('/api/transits');
+
+        // Assert
+        expect(response.status).toBe(403);
+      });
+    });
+
+    describe('POST /api/transits/:id/receive - 輸送依頼の受取館での受領', () => {
+      it('受領して取り置きを開始した予約を含む結果を200で返す', async () => {
+        // Arrange
+        vi.mocked(mockReservationService.receiveTransit).mockResolvedValue(
+          ok({
+            transitRequest: { ...testTransitRequest, status: 'RECEIVED', receivedAt: new Date() },
+            notifiedReservation: { ...testReservation, status: 'NOTIFIED' },
+          })
+        );
+
+        // Act
+        const response = await request(librarianApp).post(
+          `/api/transits/${testTransitRequestId}/receive`
+        );
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(response.body.transitRequest).toHaveProperty('status', 'RECEIVED');
+        expect(response.body.notifiedReservation).toHaveProperty('status', 'NOTIFIED');
+        expect(mockReservationService.receiveTransit).toHaveBeenCalledWith(testTransitRequestId);
+      });
+
+      it('受領済みの輸送依頼の場合は409を返す', async () => {
+        // Arrange
+        vi.mocked(mockReservationService.receiveTransit).mockResolvedValue(
+          err({ type: 'TRANSIT_ALREADY_RECEIVED', transitRequestId: testTransitRequestId })
+        );
+
+        // Act
+        const response = await request(librarianApp).post(
+          `/api/transits/${testTransitRequestId}/receive`
+        );
+
+        // Assert
+        expect(response.status).toBe(409);
+      });
+
+      it('存在しない輸送依頼の場合は404を返す', async () => {
+        // Arrange
+        vi.mocked(mockReservationService.receiveTransit).mockResolvedValue(
+          err({ type: 'TRANSIT_NOT_FOUND', transitRequestId: 'transit-unknown' })
+        );
+
+        // Act
+        const response = await request(librarianApp).post('/api/transits/transit-unknown/receive');
+
+        // Assert
+        expect(response.status).toBe(404);
+      });
+    });
+  });
 });
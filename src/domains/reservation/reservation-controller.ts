@@ -6,15 +6,35 @@
  * エンドポイント:
  * - POST /api/reservations - 予約作成
  * - DELETE /api/reservations/:id - 予約キャンセル
+ * - GET /api/reservations/hold-shelf/pull-list - 取り置き棚の回収リスト
+ * - POST /api/reservations/:id/suspend - 予約の休止
+ * - POST /api/reservations/:id/resume - 予約の休止解除
+ * - GET /api/reservations/:id/estimate - 予約の受取可能見込み
  * - GET /api/users/:id/reservations - 利用者の予約一覧
+ * - POST /api/users/:id/reservations/suspend - 利用者の予約の一括休止
+ * - POST /api/users/:id/reservations/resume - 利用者の予約の一括休止解除
+ * - GET /api/books/:id/reservation-queue - 書籍の予約キュー取得（図書館員のみ）
+ * - GET /api/books/:id/reservation-queue/changes - 予約キューの変更履歴取得（図書館員のみ）
+ * - POST /api/books/:id/reservation-queue/renumber - 予約キューの順番の振り直し（図書館員のみ）
+ * - POST /api/reservations/:id/move - 予約キュー内の順番の移動（図書館員のみ）
+ * - GET /api/transits - 輸送依頼一覧取得（図書館員のみ）
+ * - POST /api/transits/:id/receive - 輸送依頼の受取館での受領（図書館員のみ）
  */
 
 import { Router, type Request, type Response } from 'express';
-import type { ReservationId, UserId, BookId } from '../../shared/branded-types.js';
+import type {
+  ReservationId,
+  UserId,
+  BookId,
+  ServicePointId,
+  TransitRequestId,
+} from '../../shared/branded-types.js';
 import { isOk } from '../../shared/result.js';
+import { toDateKey } from '../calendar/calendar-service.js';
+import { requireLibrarian, type AuthenticatedRequest } from '../auth/rbac.js';
 import type { ReservationService } from './reservation-service.js';
 import type { ReservationRepository } from './reservation-repository.js';
-import type { CreateReservationInput, ReservationError } from './types.js';
+import type { CreateReservationInput, ReservationError, TransitRequestStatus } from './types.js';
 
 // ============================================
 // リクエストボディ型定義
@@ -24,6 +44,18 @@ import type { CreateReservationInput, ReservationError } from './types.js';
 interface CreateReservationRequestBody {
   userId?: string;
   bookId?: string;
+  pickupLocationId?: unknown;
+}
+
+/** 予約休止リクエストボディ */
+interface SuspendReservationRequestBody {
+  until?: string;
+}
+
+/** 予約キュー内の順番の移動リクエストボディ */
+interface MoveReservationRequestBody {
+  position?: unknown;
+  reason?: unknown;
 }
 
 // ============================================
@@ -39,6 +71,12 @@ function getErrorStatusCode(error: ReservationError): number {
       return 400;
     case 'USER_NOT_FOUND':
       return 404;
+    case 'RESERVATION_LIMIT_EXCEEDED':
+      return 409;
+    case 'BOOK_ALREADY_ON_LOAN':
+      return 409;
+    case 'PATRON_BLOCKED':
+      return 409;
     case 'BOOK_NOT_FOUND':
       return 404;
     case 'RESERVATION_NOT_FOUND':
@@ -47,9 +85,20 @@ function getErrorStatusCode(error: ReservationError): number {
       return 409;
     case 'ALREADY_RESERVED':
       return 409;
+    case 'INVALID_RESERVATION_STATUS':
+      return 409;
+    case 'SERVICE_POINT_NOT_FOUND':
+      return 404;
+    case 'TRANSIT_NOT_FOUND':
+      return 404;
+    case 'TRANSIT_ALREADY_RECEIVED':
+      return 409;
   }
 }
 
+/** 輸送依頼ステータスとして指定可能な値 */
+const TRANSIT_REQUEST_STATUSES: readonly string[] = ['IN_TRANSIT', 'RECEIVED'];
+
 // ============================================
 // コントローラーファクトリ
 // ============================================
@@ -97,9 +146,29 @@ export function createReservationController(
       return;
     }
 
+    // バリデーション: pickupLocationIdは省略可能（指定する場合はサービスポイントID）
+    const { pickupLocationId } = body;
+    if (
+      pickupLocationId !== undefined &&
+      pickupLocationId !== null &&
+      (typeof pickupLocationId !== 'string' || pickupLocationId === '')
+    ) {
+      res.status(400).json({
+        error: {
+          type: 'VALIDATION_ERROR',
+          field: 'pickupLocationId',
+          message: '受取館はサービスポイントIDで指定してください',
+        },
+      });
+      return;
+    }
+
     const input: CreateReservationInput = {
       userId: body.userId as UserId,
       bookId: body.bookId as BookId,
+      ...(typeof pickupLocationId === 'string' && {
+        pickupLocationId: pickupLocationId as ServicePointId,
+      }),
     };
 
     const result = await reservationService.createReservation(input);
@@ -129,6 +198,91 @@ export function createReservationController(
     }
   });
 
+  // ============================================
+  // GET /api/reservations/hold-shelf/pull-list - 取り置き棚の回収リスト
+  // ============================================
+
+  router.get(
+    '/reservations/hold-shelf/pull-list',
+    async (req: Request, res: Response): Promise<void> => {
+      // 対象日の指定がなければ今日の回収リスト
+      const date = typeof req.query.date === 'string' ? req.query.date : toDateKey(new Date());
+
+      const result = await reservationService.getHoldShelfPullList(date);
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // POST /api/reservations/:id/suspend - 予約の休止
+  // ============================================
+
+  router.post('/reservations/:id/suspend', async (req: Request, res: Response): Promise<void> => {
+    const reservationId = req.params.id as ReservationId;
+    const body = (req.body ?? {}) as SuspendReservationRequestBody;
+
+    // バリデーション: untilが必須（形式の検証はサービスで行う）
+    if (typeof body.until !== 'string' || body.until === '') {
+      res.status(400).json({
+        error: {
+          type: 'VALIDATION_ERROR',
+          field: 'until',
+          message: '休止期限は必須です',
+        },
+      });
+      return;
+    }
+
+    const result = await reservationService.suspendReservation(reservationId, body.until);
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // POST /api/reservations/:id/resume - 予約の休止解除
+  // ============================================
+
+  router.post('/reservations/:id/resume', async (req: Request, res: Response): Promise<void> => {
+    const reservationId = req.params.id as ReservationId;
+
+    const result = await reservationService.resumeReservation(reservationId);
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // GET /api/reservations/:id/estimate - 予約の受取可能見込み
+  // ============================================
+
+  router.get('/reservations/:id/estimate', async (req: Request, res: Response): Promise<void> => {
+    const reservationId = req.params.id as ReservationId;
+
+    const result = await reservationService.estimateWait(reservationId);
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
   // ============================================
   // GET /api/users/:id/reservations - 利用者の予約一覧
   // ============================================
@@ -141,5 +295,230 @@ export function createReservationController(
     res.status(200).json(reservations);
   });
 
+  // ============================================
+  // POST /api/users/:id/reservations/suspend - 利用者の予約の一括休止
+  // ============================================
+
+  router.post(
+    '/users/:id/reservations/suspend',
+    async (req: Request, res: Response): Promise<void> => {
+      const userId = req.params.id as UserId;
+      const body = (req.body ?? {}) as SuspendReservationRequestBody;
+
+      // バリデーション: untilが必須（形式の検証はサービスで行う）
+      if (typeof body.until !== 'string' || body.until === '') {
+        res.status(400).json({
+          error: {
+            type: 'VALIDATION_ERROR',
+            field: 'until',
+            message: '休止期限は必須です',
+          },
+        });
+        return;
+      }
+
+      const result = await reservationService.suspendUserReservations(userId, body.until);
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // POST /api/users/:id/reservations/resume - 利用者の予約の一括休止解除
+  // ============================================
+
+  router.post(
+    '/users/:id/reservations/resume',
+    async (req: Request, res: Response): Promise<void> => {
+      const userId = req.params.id as UserId;
+
+      const result = await reservationService.resumeUserReservations(userId);
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // GET /api/books/:id/reservation-queue - 書籍の予約キュー取得
+  // ============================================
+
+  router.get(
+    '/books/:id/reservation-queue',
+    requireLibrarian,
+    async (req: Request, res: Response): Promise<void> => {
+      const bookId = req.params.id as BookId;
+
+      const result = await reservationService.getReservationQueue(bookId);
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // GET /api/books/:id/reservation-queue/changes - 予約キューの変更履歴取得
+  // ============================================
+
+  router.get(
+    '/books/:id/reservation-queue/changes',
+    requireLibrarian,
+    async (req: Request, res: Response): Promise<void> => {
+      const bookId = req.params.id as BookId;
+
+      const result = await reservationService.getQueueChanges(bookId);
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // POST /api/books/:id/reservation-queue/renumber - 予約キューの順番の振り直し
+  // ============================================
+
+  router.post(
+    '/books/:id/reservation-queue/renumber',
+    requireLibrarian,
+    async (req: Request, res: Response): Promise<void> => {
+      const bookId = req.params.id as BookId;
+
+      const result = await reservationService.renumberQueue(bookId);
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // POST /api/reservations/:id/move - 予約キュー内の順番の移動
+  // ============================================
+
+  router.post(
+    '/reservations/:id/move',
+    requireLibrarian,
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+      const reservationId = req.params.id as ReservationId;
+      const body = (req.body ?? {}) as MoveReservationRequestBody;
+
+      // requireLibrarian を通過しているためセッションは存在する
+      if (req.session === undefined) {
+        res.status(401).json({ error: { type: 'UNAUTHORIZED', message: '認証が必要です' } });
+        return;
+      }
+
+      // バリデーション: positionが必須
+      if (typeof body.position !== 'number') {
+        res.status(400).json({
+          error: {
+            type: 'VALIDATION_ERROR',
+            field: 'position',
+            message: '移動先の順番は必須です',
+          },
+        });
+        return;
+      }
+
+      // バリデーション: reasonが必須
+      if (typeof body.reason !== 'string' || body.reason.trim() === '') {
+        res.status(400).json({
+          error: {
+            type: 'VALIDATION_ERROR',
+            field: 'reason',
+            message: '順番を変更する理由は必須です',
+          },
+        });
+        return;
+      }
+
+      const result = await reservationService.moveReservation(reservationId, {
+        position: body.position,
+        staffId: req.session.userId,
+        reason: body.reason,
+      });
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
+  // ============================================
+  // GET /api/transits - 輸送依頼一覧取得
+  // ============================================
+
+  router.get('/transits', requireLibrarian, async (req: Request, res: Response): Promise<void> => {
+    const { status } = req.query;
+
+    // バリデーション: statusはIN_TRANSIT, RECEIVEDのいずれか（省略時はすべて）
+    if (
+      status !== undefined &&
+      (typeof status !== 'string' || !TRANSIT_REQUEST_STATUSES.includes(status))
+    ) {
+      res.status(400).json({
+        error: {
+          type: 'VALIDATION_ERROR',
+          field: 'status',
+          message: 'statusはIN_TRANSIT, RECEIVEDのいずれかを指定してください',
+        },
+      });
+      return;
+    }
+
+    const result = await reservationService.getTransitRequests(
+      status as TransitRequestStatus | undefined
+    );
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    }
+    // ReservationService.getTransitRequests は never エラーを返すため、else ブランチは到達不可能
+  });
+
+  // ============================================
+  // POST /api/transits/:id/receive - 輸送依頼の受取館での受領
+  // ============================================
+
+  router.post(
+    '/transits/:id/receive',
+    requireLibrarian,
+    async (req: Request, res: Response): Promise<void> => {
+      const transitRequestId = req.params.id as TransitRequestId;
+
+      const result = await reservationService.receiveTransit(transitRequestId);
+
+      if (isOk(result)) {
+        res.status(200).json(result.value);
+      } else {
+        const statusCode = getErrorStatusCode(result.error);
+        res.status(statusCode).json({ error: result.error });
+      }
+    }
+  );
+
   return router;
 }
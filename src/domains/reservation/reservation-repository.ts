@@ -5,13 +5,25 @@
  * 具体的な実装は Infrastructure 層で行います。
  */
 
-import type { ReservationId, UserId, BookId } from '../../shared/branded-types.js';
+import type {
+  ReservationId,
+  TransitRequestId,
+  UserId,
+  BookId,
+  CopyId,
+} from '../../shared/branded-types.js';
 import type { Result } from '../../shared/result.js';
 import type {
   Reservation,
   CreateReservationInput,
   ReservationError,
   ReservationStatus,
+  ReservationQueueChange,
+  RecordReservationQueueChangeInput,
+  TransitRequest,
+  TransitRequestStatus,
+  CreateTransitRequestInput,
+  HoldOutcomeCounts,
 } from './types.js';
 
 // ============================================
@@ -31,6 +43,13 @@ export interface ReservationRepository {
     queuePosition: number
   ): Promise<Result<Reservation, ReservationError>>;
 
+  /**
+   * 書籍の予約キューをロック（作業単位の終了まで、同じ書籍の予約の順番の決定を直列化する）
+   * 作業単位の中で呼び出すこと
+   * @param bookId - 書籍ID
+   */
+  lockQueue(bookId: BookId): Promise<void>;
+
   /**
    * IDで予約を取得
    * @param id - 予約ID
@@ -39,7 +58,7 @@ export interface ReservationRepository {
   findById(id: ReservationId): Promise<Result<Reservation, ReservationError>>;
 
   /**
-   * 書籍IDでアクティブな予約一覧を取得（FIFO順）
+   * 書籍IDでアクティブな予約一覧を取得（FIFO順、輸送中の予約を含む）
    * @param bookId - 書籍ID
    * @returns アクティブな予約一覧（queuePosition順）
    */
@@ -52,6 +71,13 @@ export interface ReservationRepository {
    */
   countActiveByBookId(bookId: BookId): Promise<number>;
 
+  /**
+   * 利用者のアクティブな予約数を取得（休止中の予約を含む）
+   * @param userId - ユーザーID
+   * @returns アクティブな予約数
+   */
+  countActiveByUserId(userId: UserId): Promise<number>;
+
   /**
    * ユーザーが特定の書籍に対してアクティブな予約を持っているかチェック
    * @param userId - ユーザーID
@@ -75,6 +101,98 @@ export interface ReservationRepository {
     expiresAt?: Date
   ): Promise<Result<Reservation, ReservationError>>;
 
+  /**
+   * 予約に取り置き棚の蔵書コピーを割り当てる
+   * @param id - 予約ID
+   * @param copyId - 取り置く蔵書コピーID
+   * @returns 更新された予約またはエラー
+   */
+  assignCopy(id: ReservationId, copyId: CopyId): Promise<Result<Reservation, ReservationError>>;
+
+  /**
+   * 予約の休止期限を更新
+   * @param id - 予約ID
+   * @param suspendedUntil - 休止期限（休止を解除する場合はnull）
+   * @returns 更新された予約またはエラー
+   */
+  updateSuspension(
+    id: ReservationId,
+    suspendedUntil: Date | null
+  ): Promise<Result<Reservation, ReservationError>>;
+
+  /**
+   * 予約キュー内の順番を更新
+   * @param id - 予約ID
+   * @param queuePosition - 新しい順番
+   * @returns 更新された予約またはエラー
+   */
+  updateQueuePosition(
+    id: ReservationId,
+    queuePosition: number
+  ): Promise<Result<Reservation, ReservationError>>;
+
+  /**
+   * 予約キューの手動並べ替えを履歴に記録
+   * @param input - 予約キュー変更履歴の記録入力
+   * @returns 記録された履歴
+   */
+  recordQueueChange(input: RecordReservationQueueChangeInput): Promise<ReservationQueueChange>;
+
+  /**
+   * 書籍の予約キューの手動並べ替えの履歴を取得
+   * @param bookId - 書籍ID
+   * @returns 予約キュー変更履歴（新しい順）
+   */
+  findQueueChangesByBookId(bookId: BookId): Promise<ReservationQueueChange[]>;
+
+  /**
+   * 輸送依頼を作成
+   * @param input - 輸送依頼作成入力
+   * @returns 作成された輸送依頼
+   */
+  createTransitRequest(input: CreateTransitRequestInput): Promise<TransitRequest>;
+
+  /**
+   * IDで輸送依頼を取得
+   * @param id - 輸送依頼ID
+   * @returns 輸送依頼またはTRANSIT_NOT_FOUNDエラー
+   */
+  findTransitRequestById(id: TransitRequestId): Promise<Result<TransitRequest, ReservationError>>;
+
+  /**
+   * 輸送依頼の一覧を取得
+   * @param status - 絞り込むステータス（省略時はすべて）
+   * @returns 輸送依頼一覧（作成日時順）
+   */
+  findTransitRequests(status?: TransitRequestStatus): Promise<TransitRequest[]>;
+
+  /**
+   * 輸送依頼を受領済みにする
+   * @param id - 輸送依頼ID
+   * @param receivedAt - 受領日時
+   * @returns 更新された輸送依頼またはエラー
+   */
+  markTransitReceived(
+    id: TransitRequestId,
+    receivedAt: Date
+  ): Promise<Result<TransitRequest, ReservationError>>;
+
+  /**
+   * 蔵書コピーを取り置き中の予約を取得（NOTIFIED状態）
+   * @param copyId - 蔵書コピーID
+   * @returns 取り置き中の予約（なければnull）
+   */
+  findHoldByCopyId(copyId: CopyId): Promise<Reservation | null>;
+
+  /**
+   * 指定期間内に有効期限が切れた取り置きの一覧を取得
+   * 蔵書コピーが次順位の予約者に引き継がれたものは除く
+   * @param from - 期間の開始日時（この日時を含む）
+   * @param to - 期間の終了日時（この日時を含まない）
+   * @returns 期限切れの取り置き一覧（有効期限順）
+   */
+  findExpiredHolds(from: Date, to: Date): Promise<Reservation[]>;
+
   /**
    * ユーザーの予約一覧を取得
    * @param userId - ユーザーID
@@ -84,7 +202,15 @@ export interface ReservationRepository {
 
   /**
    * 有効期限切れの予約一覧を取得（NOTIFIED状態で期限切れ）
+   * @param now - 基準日時（この日時より前に有効期限が切れたもの）
    * @returns 有効期限切れの予約一覧
    */
-  findExpiredReservations(): Promise<Reservation[]>;
+  findExpiredReservations(now: Date): Promise<Reservation[]>;
+
+  /**
+   * 書籍の取り置きの結果件数を取得（取り置き後に貸出完了・期限切れとなった予約数）
+   * @param bookId - 書籍ID
+   * @returns 取り置きの結果件数
+   */
+  countHoldOutcomes(bookId: BookId): Promise<HoldOutcomeCounts>;
 }
@@ -4,22 +4,49 @@
  * 予約サービスのユニットテスト
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
-import { createReservationService, type ReservationService } from './reservation-service.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  createReservationService,
+  parseReservationLimitsByPatronCategory,
+  type ReservationService,
+} from './reservation-service.js';
 import type { ReservationRepository } from './reservation-repository.js';
 import type { BookRepository } from '../book/book-repository.js';
 import type { UserRepository } from '../user/user-repository.js';
-import type { Reservation, ReservationError } from './types.js';
-import type { Book, BookCopy } from '../book/types.js';
+import type { ServicePointRepository } from '../service-point/service-point-repository.js';
+import type { LoanRepository } from '../loan/loan-repository.js';
+import type { FineService } from '../fine/fine-service.js';
+import type {
+  Reservation,
+  ReservationError,
+  ReservationStatus,
+  ReservationQueueChange,
+  HoldOutcomeCounts,
+  TransitRequest,
+} from './types.js';
+import type { Book, BookCopy, BookCopyStatus } from '../book/types.js';
 import type { User } from '../user/types.js';
+import type { ServicePoint, ServicePointError } from '../service-point/types.js';
+import type { Loan } from '../loan/types.js';
+import type { FineError } from '../fine/types.js';
 import type { Result } from '../../shared/result.js';
 import { ok, err, isOk, isErr } from '../../shared/result.js';
+import { createPassthroughUnitOfWork, type UnitOfWork } from '../../shared/unit-of-work.js';
+import { createInMemoryEventBus, type EventBus } from '../../shared/domain-events.js';
+import type { CalendarService } from '../calendar/calendar-service.js';
+import type { OpeningCalendar } from '../calendar/types.js';
+import { ALWAYS_OPEN_CALENDAR } from '../calendar/types.js';
 import {
   createUserId,
   createBookId,
   createReservationId,
   createCopyId,
+  createLoanId,
+  createReservationQueueChangeId,
+  createServicePointId,
+  createTransitRequestId,
 } from '../../shared/branded-types.js';
+import type { ReservationId, CopyId } from '../../shared/branded-types.js';
 
 // ============================================
 // モック作成ヘルパー
@@ -34,6 +61,7 @@ function createMockUser(overrides: Partial<User> = {}): User {
     phone: '03-1234-5678',
     registeredAt: new Date('2024-01-01'),
     loanLimit: 5,
+    patronCategory: null,
     ...overrides,
   };
 }
@@ -43,10 +71,15 @@ function createMockBook(overrides: Partial<Book> = {}): Book {
     id: createBookId('book-1'),
     title: 'テスト書籍',
     author: 'テスト著者',
+    contributors: [],
     publisher: 'テスト出版社',
     publicationYear: 2024,
     isbn: '9784000000001',
     category: 'プログラミング',
+    classification: null,
+    callNumber: null,
+    subjectHeadings: [],
+    replacementCost: null,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
     ...overrides,
@@ -57,6 +90,7 @@ function createMockBookCopy(overrides: Partial<BookCopy> = {}): BookCopy {
   return {
     id: createCopyId('copy-1'),
     bookId: createBookId('book-1'),
+    barcode: 'LIB000000017',
     location: 'A-1-1',
     status: 'BORROWED',
     createdAt: new Date('2024-01-01'),
@@ -74,6 +108,35 @@ function createMockReservation(overrides: Partial<Reservation> = {}): Reservatio
     expiresAt: null,
     status: 'PENDING',
     queuePosition: 1,
+    copyId: null,
+    suspendedUntil: null,
+    pickupLocationId: null,
+    ...overrides,
+  };
+}
+
+function createMockServicePoint(overrides: Partial<ServicePoint> = {}): ServicePoint {
+  return {
+    id: createServicePointId('sp-central'),
+    code: 'CENTRAL',
+    name: '中央館',
+    active: true,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    ...overrides,
+  };
+}
+
+function createMockTransitRequest(overrides: Partial<TransitRequest> = {}): TransitRequest {
+  return {
+    id: createTransitRequestId('transit-1'),
+    copyId: createCopyId('copy-1'),
+    reservationId: createReservationId('reservation-1'),
+    fromServicePointId: createServicePointId('sp-east'),
+    toServicePointId: createServicePointId('sp-central'),
+    status: 'IN_TRANSIT',
+    createdAt: new Date('2024-01-20'),
+    receivedAt: null,
     ...overrides,
   };
 }
@@ -97,6 +160,9 @@ function createMockReservationRepository(
         )
       );
     },
+    lockQueue: (): Promise<void> => {
+      return Promise.resolve();
+    },
     findById: (): Promise<Result<Reservation, ReservationError>> => {
       return Promise.resolve(ok(createMockReservation()));
     },
@@ -106,6 +172,12 @@ function createMockReservationRepository(
     countActiveByBookId: (): Promise<number> => {
       return Promise.resolve(0);
     },
+    countActiveByUserId: (): Promise<number> => {
+      return Promise.resolve(0);
+    },
+    countHoldOutcomes: (): Promise<HoldOutcomeCounts> => {
+      return Promise.resolve({ fulfilledCount: 0, expiredCount: 0 });
+    },
     hasActiveReservation: (): Promise<boolean> => {
       return Promise.resolve(false);
     },
@@ -118,13 +190,50 @@ function createMockReservationRepository(
     findExpiredReservations: (): Promise<Reservation[]> => {
       return Promise.resolve([]);
     },
+    assignCopy: (id, copyId): Promise<Result<Reservation, ReservationError>> => {
+      return Promise.resolve(ok(createMockReservation({ id, status: 'NOTIFIED', copyId })));
+    },
+    findHoldByCopyId: (): Promise<Reservation | null> => {
+      return Promise.resolve(null);
+    },
+    findExpiredHolds: (): Promise<Reservation[]> => {
+      return Promise.resolve([]);
+    },
+    updateSuspension: (id, suspendedUntil): Promise<Result<Reservation, ReservationError>> => {
+      return Promise.resolve(ok(createMockReservation({ id, suspendedUntil })));
+    },
+    updateQueuePosition: (id, queuePosition): Promise<Result<Reservation, ReservationError>> => {
+      return Promise.resolve(ok(createMockReservation({ id, queuePosition })));
+    },
+    recordQueueChange: (input): Promise<ReservationQueueChange> => {
+      return Promise.resolve({
+        ...input,
+        id: createReservationQueueChangeId('queue-change-1'),
+        changedAt: new Date('2024-01-20'),
+      });
+    },
+    findQueueChangesByBookId: (): Promise<ReservationQueueChange[]> => {
+      return Promise.resolve([]);
+    },
+    createTransitRequest: (input): Promise<TransitRequest> => {
+      return Promise.resolve(createMockTransitRequest({ ...input }));
+    },
+    findTransitRequestById: (): Promise<Result<TransitRequest, ReservationError>> => {
+      return Promise.resolve(ok(createMockTransitRequest()));
+    },
+    findTransitRequests: (): Promise<TransitRequest[]> => {
+      return Promise.resolve([]);
+    },
+    markTransitReceived: (id, receivedAt): Promise<Result<TransitRequest, ReservationError>> => {
+      return Promise.resolve(ok(createMockTransitRequest({ id, status: 'RECEIVED', receivedAt })));
+    },
     ...overrides,
   };
 }
 
 function createMockBookRepository(
-  overrides: Partial<Pick<BookRepository, 'findById' | 'findCopiesByBookId'>> = {}
-): Pick<BookRepository, 'findById' | 'findCopiesByBookId'> {
+  overrides: Partial<Pick<BookRepository, 'findById' | 'findCopiesByBookId' | 'updateCopy'>> = {}
+): Pick<BookRepository, 'findById' | 'findCopiesByBookId' | 'updateCopy'> {
   return {
     findById: (): Promise<Result<Book, { type: 'NOT_FOUND'; id: string }>> => {
       return Promise.resolve(ok(createMockBook()));
@@ -132,6 +241,9 @@ function createMockBookRepository(
     findCopiesByBookId: (): Promise<Result<BookCopy[], { type: 'NOT_FOUND'; id: string }>> => {
       return Promise.resolve(ok([createMockBookCopy({ status: 'BORROWED' })]));
     },
+    updateCopy: (copyId, status): Promise<Result<BookCopy, { type: 'NOT_FOUND'; id: string }>> => {
+      return Promise.resolve(ok(createMockBookCopy({ id: copyId, status })));
+    },
     ...overrides,
   };
 }
@@ -147,6 +259,67 @@ function createMockUserRepository(
   };
 }
 
+function createMockServicePointRepository(
+  overrides: Partial<Pick<ServicePointRepository, 'findById'>> = {}
+): Pick<ServicePointRepository, 'findById'> {
+  return {
+    findById: (id): Promise<Result<ServicePoint, ServicePointError>> => {
+      return Promise.resolve(ok(createMockServicePoint({ id })));
+    },
+    ...overrides,
+  };
+}
+
+type ServiceLoanRepository = Pick<
+  LoanRepository,
+  'findActiveByUserId' | 'findActiveByMultipleCopyIds' | 'findAverageLoanDays'
+>;
+
+function createMockLoanRepository(
+  activeLoans: Loan[] = [],
+  overrides: Partial<ServiceLoanRepository> = {}
+): ServiceLoanRepository {
+  return {
+    findActiveByUserId: (): Promise<Loan[]> => {
+      return Promise.resolve(activeLoans);
+    },
+    findActiveByMultipleCopyIds: (): Promise<Loan[]> => {
+      return Promise.resolve(activeLoans);
+    },
+    findAverageLoanDays: (): Promise<number | null> => {
+      return Promise.resolve(null);
+    },
+    ...overrides,
+  };
+}
+
+function createMockFineService(
+  balance = 0,
+  threshold = 1000
+): Pick<FineService, 'checkBorrowingEligibility'> {
+  return {
+    checkBorrowingEligibility: (
+      userId
+    ): Promise<Result<void, Extract<FineError, { type: 'BALANCE_THRESHOLD_EXCEEDED' }>>> => {
+      return Promise.resolve(
+        balance >= threshold
+          ? err({ type: 'BALANCE_THRESHOLD_EXCEEDED', userId, balance, threshold })
+          : ok(undefined)
+      );
+    },
+  };
+}
+
+function createMockCalendarService(
+  calendar: OpeningCalendar = ALWAYS_OPEN_CALENDAR
+): Pick<CalendarService, 'getOpeningCalendar'> {
+  return {
+    getOpeningCalendar: (): Promise<Result<OpeningCalendar, never>> => {
+      return Promise.resolve(ok(calendar));
+    },
+  };
+}
+
 // ============================================
 // テストスイート
 // ============================================
@@ -154,14 +327,32 @@ function createMockUserRepository(
 describe('ReservationService', () => {
   let service: ReservationService;
   let reservationRepo: ReservationRepository;
-  let bookRepo: Pick<BookRepository, 'findById' | 'findCopiesByBookId'>;
+  let bookRepo: Pick<BookRepository, 'findById' | 'findCopiesByBookId' | 'updateCopy'>;
   let userRepo: Pick<UserRepository, 'findById'>;
+  let servicePointRepo: Pick<ServicePointRepository, 'findById'>;
+  let loanRepo: ServiceLoanRepository;
+  let fineService: Pick<FineService, 'checkBorrowingEligibility'>;
+  let eventBus: EventBus;
 
   beforeEach(() => {
+    eventBus = createInMemoryEventBus();
     reservationRepo = createMockReservationRepository();
     bookRepo = createMockBookRepository();
     userRepo = createMockUserRepository();
-    service = createReservationService(reservationRepo, bookRepo, userRepo);
+    servicePointRepo = createMockServicePointRepository();
+    loanRepo = createMockLoanRepository();
+    fineService = createMockFineService();
+    service = createReservationService(
+      reservationRepo,
+      bookRepo,
+      userRepo,
+      createPassthroughUnitOfWork(),
+      createMockCalendarService(),
+      eventBus,
+      servicePointRepo,
+      loanRepo,
+      fineService
+    );
   });
 
   describe('createReservation', () => {
@@ -206,7 +397,8 @@ describe('ReservationService', () => {
     it('予約キューの順番がFIFOで設定される（2番目の予約はqueuePosition=2）', async () => {
       // Arrange
       reservationRepo = createMockReservationRepository({
-        countActiveByBookId: (): Promise<number> => Promise.resolve(1), // 既に1件予約あり
+        findActiveByBookId: (): Promise<Reservation[]> =>
+          Promise.resolve([createMockReservation({ queuePosition: 1 })]), // 既に1件予約あり
         create: (input, queuePosition) =>
           Promise.resolve(
             ok(
@@ -218,7 +410,17 @@ describe('ReservationService', () => {
             )
           ),
       });
-      service = createReservationService(reservationRepo, bookRepo, userRepo);
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
 
       const input = {
         userId: createUserId('user-2'),
@@ -235,12 +437,114 @@ describe('ReservationService', () => {
       }
     });
 
+    it('取消で順番が抜けていても既存の予約と重複しない順番（末尾）を設定する', async () => {
+      // Arrange: 順番2の予約が取り消され、順番1と3の予約が残っている
+      reservationRepo = createMockReservationRepository({
+        findActiveByBookId: (): Promise<Reservation[]> =>
+          Promise.resolve([
+            createMockReservation({ queuePosition: 1 }),
+            createMockReservation({ queuePosition: 3 }),
+          ]),
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.createReservation({
+        userId: createUserId('user-2'),
+        bookId: createBookId('book-1'),
+      });
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.queuePosition).toBe(4);
+      }
+    });
+
+    it('同時の予約で順番が重複しないよう、作業単位内で予約キューをロックしてから順番を決める', async () => {
+      // Arrange
+      const calls: string[] = [];
+      let inUnitOfWork = false;
+      const unitOfWork: UnitOfWork = {
+        run: async (work) => {
+          inUnitOfWork = true;
+          try {
+            return await work();
+          } finally {
+            inUnitOfWork = false;
+          }
+        },
+      };
+      const record = (name: string): void => {
+        calls.push(`${name}${inUnitOfWork ? ' (作業単位内)' : ''}`);
+      };
+      const base = createMockReservationRepository();
+      reservationRepo = createMockReservationRepository({
+        lockQueue: (bookId) => {
+          record(`lockQueue:${bookId}`);
+          return Promise.resolve();
+        },
+        findActiveByBookId: (bookId) => {
+          record('findActiveByBookId');
+          return base.findActiveByBookId(bookId);
+        },
+        create: (input, queuePosition) => {
+          record('create');
+          return base.create(input, queuePosition);
+        },
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        unitOfWork,
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      await service.createReservation({
+        userId: createUserId('user-2'),
+        bookId: createBookId('book-1'),
+      });
+
+      // Assert
+      expect(calls).toEqual([
+        'lockQueue:book-1 (作業単位内)',
+        'findActiveByBookId (作業単位内)',
+        'create (作業単位内)',
+      ]);
+    });
+
     it('存在しない利用者の場合、USER_NOT_FOUNDエラーを返す', async () => {
       // Arrange
       userRepo = createMockUserRepository({
         findById: () => Promise.resolve(err({ type: 'NOT_FOUND' as const, id: 'user-999' })),
       });
-      service = createReservationService(reservationRepo, bookRepo, userRepo);
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
 
       const input = {
         userId: createUserId('user-999'),
@@ -262,7 +566,17 @@ describe('ReservationService', () => {
       bookRepo = createMockBookRepository({
         findById: () => Promise.resolve(err({ type: 'NOT_FOUND' as const, id: 'book-999' })),
       });
-      service = createReservationService(reservationRepo, bookRepo, userRepo);
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
 
       const input = {
         userId: createUserId('user-1'),
@@ -284,7 +598,17 @@ describe('ReservationService', () => {
       reservationRepo = createMockReservationRepository({
         hasActiveReservation: () => Promise.resolve(true),
       });
-      service = createReservationService(reservationRepo, bookRepo, userRepo);
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
 
       const input = {
         userId: createUserId('user-1'),
@@ -311,7 +635,17 @@ describe('ReservationService', () => {
         findCopiesByBookId: () =>
           Promise.resolve(ok([createMockBookCopy({ status: 'AVAILABLE' })])),
       });
-      service = createReservationService(reservationRepo, bookRepo, userRepo);
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
 
       const input = {
         userId: createUserId('user-1'),
@@ -339,7 +673,17 @@ describe('ReservationService', () => {
             ])
           ),
       });
-      service = createReservationService(reservationRepo, bookRepo, userRepo);
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
 
       const input = {
         userId: createUserId('user-1'),
@@ -352,270 +696,2654 @@ describe('ReservationService', () => {
       // Assert
       expect(isOk(result)).toBe(true);
     });
-  });
 
-  describe('processReturnedBook', () => {
-    it('予約がある書籍が返却された時、先頭の予約者に通知フラグが設定される', async () => {
+    it('予約の登録後に予約登録イベントを発行する', async () => {
       // Arrange
-      const firstReservation = createMockReservation({
-        id: createReservationId('reservation-1'),
+      const placed = vi.fn().mockResolvedValue(undefined);
+      eventBus.subscribe('ReservationPlaced', placed);
+
+      const input = {
         userId: createUserId('user-1'),
         bookId: createBookId('book-1'),
-        queuePosition: 1,
-        status: 'PENDING',
+      };
+
+      // Act
+      const result = await service.createReservation(input);
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      expect(placed).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'ReservationPlaced',
+          userId: input.userId,
+          bookId: input.bookId,
+        })
+      );
+    });
+
+    it('予約できない場合は予約登録イベントを発行しない', async () => {
+      // Arrange
+      const placed = vi.fn().mockResolvedValue(undefined);
+      eventBus.subscribe('ReservationPlaced', placed);
+      bookRepo = createMockBookRepository({
+        findCopiesByBookId: () =>
+          Promise.resolve(ok([createMockBookCopy({ status: 'AVAILABLE' })])),
       });
-      const secondReservation = createMockReservation({
-        id: createReservationId('reservation-2'),
-        userId: createUserId('user-2'),
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.createReservation({
+        userId: createUserId('user-1'),
         bookId: createBookId('book-1'),
-        queuePosition: 2,
-        status: 'PENDING',
       });
 
+      // Assert
+      expect(isErr(result)).toBe(true);
+      expect(placed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('予約の上限と利用資格', () => {
+    function createService(): ReservationService {
+      return createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService,
+        { defaultLimit: 3, limitsByPatronCategory: { faculty: 10 } }
+      );
+    }
+
+    const input = {
+      userId: createUserId('user-1'),
+      bookId: createBookId('book-1'),
+    };
+
+    it('アクティブな予約数がデフォルトの上限に達している場合RESERVATION_LIMIT_EXCEEDEDエラー', async () => {
+      // Arrange
+      const create = vi.fn();
       reservationRepo = createMockReservationRepository({
-        findActiveByBookId: () => Promise.resolve([firstReservation, secondReservation]),
-        updateStatus: (id, status, notifiedAt, expiresAt) => {
-          return Promise.resolve(
-            ok(
-              createMockReservation({
-                id,
-                status,
-                notifiedAt: notifiedAt ?? null,
-                expiresAt: expiresAt ?? null,
-              })
-            )
-          );
-        },
+        countActiveByUserId: () => Promise.resolve(3),
+        create,
       });
-      service = createReservationService(reservationRepo, bookRepo, userRepo);
+      service = createService();
 
       // Act
-      const result = await service.processReturnedBook(createBookId('book-1'));
+      const result = await service.createReservation(input);
 
       // Assert
-      expect(isOk(result)).toBe(true);
-      if (isOk(result)) {
-        expect(result.value.notifiedReservation).toBeDefined();
-        expect(result.value.notifiedReservation?.id).toBe('reservation-1');
-        expect(result.value.notifiedReservation?.status).toBe('NOTIFIED');
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual({
+          type: 'RESERVATION_LIMIT_EXCEEDED',
+          userId: 'user-1',
+          limit: 3,
+          currentCount: 3,
+        });
       }
+      expect(create).not.toHaveBeenCalled();
     });
 
-    it('予約がない書籍が返却された場合、通知対象なしを返す', async () => {
+    it('利用者区分ごとの上限が設定されている場合はその上限を適用する', async () => {
       // Arrange
+      userRepo = createMockUserRepository({
+        findById: () => Promise.resolve(ok(createMockUser({ patronCategory: 'faculty' }))),
+      });
       reservationRepo = createMockReservationRepository({
-        findActiveByBookId: () => Promise.resolve([]),
+        countActiveByUserId: () => Promise.resolve(3),
       });
-      service = createReservationService(reservationRepo, bookRepo, userRepo);
+      service = createService();
 
       // Act
-      const result = await service.processReturnedBook(createBookId('book-1'));
+      const result = await service.createReservation(input);
 
       // Assert
       expect(isOk(result)).toBe(true);
-      if (isOk(result)) {
-        expect(result.value.notifiedReservation).toBeNull();
-      }
     });
 
-    it('通知時に予約有効期限が7日後に設定される', async () => {
+    it('区分別の上限がない利用者区分にはデフォルトの上限を適用する', async () => {
       // Arrange
-      const reservation = createMockReservation({
-        id: createReservationId('reservation-1'),
-        status: 'PENDING',
+      userRepo = createMockUserRepository({
+        findById: () => Promise.resolve(ok(createMockUser({ patronCategory: 'student' }))),
       });
-
-      let capturedExpiresAt: Date | undefined;
       reservationRepo = createMockReservationRepository({
-        findActiveByBookId: () => Promise.resolve([reservation]),
-        updateStatus: (_id, _status, _notifiedAt, expiresAt) => {
-          capturedExpiresAt = expiresAt;
-          return Promise.resolve(
-            ok(
-              createMockReservation({
-                status: 'NOTIFIED',
-                notifiedAt: new Date(),
-                expiresAt: expiresAt ?? null,
-              })
-            )
-          );
-        },
+        countActiveByUserId: () => Promise.resolve(3),
       });
-      service = createReservationService(reservationRepo, bookRepo, userRepo);
+      service = createService();
 
       // Act
-      const now = new Date();
-      await service.processReturnedBook(createBookId('book-1'));
+      const result = await service.createReservation(input);
 
       // Assert
-      expect(capturedExpiresAt).toBeDefined();
-      if (capturedExpiresAt) {
-        const daysDiff = Math.round(
-          (capturedExpiresAt.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
-        );
-        expect(daysDiff).toBe(7);
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('RESERVATION_LIMIT_EXCEEDED');
       }
     });
-  });
 
-  describe('expireOverdueReservations', () => {
-    it('有効期限切れの予約をEXPIREDステータスに更新する', async () => {
+    it('利用者がこの書籍の蔵書コピーを借りている場合BOOK_ALREADY_ON_LOANエラー', async () => {
       // Arrange
-      const expiredReservation = createMockReservation({
-        id: createReservationId('reservation-1'),
-        status: 'NOTIFIED',
-        expiresAt: new Date('2024-01-01'), // 過去の日付
-      });
-
-      const updatedIds: string[] = [];
-      reservationRepo = createMockReservationRepository({
-        findExpiredReservations: () => Promise.resolve([expiredReservation]),
-        updateStatus: (id, status) => {
-          updatedIds.push(id);
-          return Promise.resolve(
-            ok(
-              createMockReservation({
-                id,
-                status,
-              })
-            )
-          );
+      loanRepo = createMockLoanRepository([
+        {
+          id: createLoanId('loan-1'),
+          userId: createUserId('user-1'),
+          bookCopyId: createCopyId('copy-1'),
+          borrowedAt: new Date('2024-01-10'),
+          dueDate: new Date('2024-01-24'),
+          returnedAt: null,
+          returnProcessedAt: null,
+          status: 'ACTIVE',
+          renewalCount: 0,
+          loanPolicyId: null,
+          recalledAt: null,
         },
-      });
-      service = createReservationService(reservationRepo, bookRepo, userRepo);
+      ]);
+      service = createService();
 
       // Act
-      const result = await service.expireOverdueReservations();
+      const result = await service.createReservation(input);
 
       // Assert
-      expect(isOk(result)).toBe(true);
-      if (isOk(result)) {
-        expect(result.value.expiredCount).toBe(1);
-        expect(updatedIds).toContain('reservation-1');
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual({
+          type: 'BOOK_ALREADY_ON_LOAN',
+          userId: 'user-1',
+          bookId: 'book-1',
+        });
       }
     });
 
-    it('期限切れ予約がない場合、expiredCount=0を返す', async () => {
+    it('未払いの延滞料金が閾値以上の利用者はPATRON_BLOCKEDエラー', async () => {
       // Arrange
-      reservationRepo = createMockReservationRepository({
-        findExpiredReservations: () => Promise.resolve([]),
-      });
-      service = createReservationService(reservationRepo, bookRepo, userRepo);
+      const countActiveByUserId = vi.fn(() => Promise.resolve(0));
+      reservationRepo = createMockReservationRepository({ countActiveByUserId });
+      fineService = createMockFineService(1500, 1000);
+      service = createService();
 
       // Act
-      const result = await service.expireOverdueReservations();
+      const result = await service.createReservation(input);
 
       // Assert
-      expect(isOk(result)).toBe(true);
-      if (isOk(result)) {
-        expect(result.value.expiredCount).toBe(0);
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual({
+          type: 'PATRON_BLOCKED',
+          userId: 'user-1',
+          balance: 1500,
+          threshold: 1000,
+        });
       }
+      expect(countActiveByUserId).not.toHaveBeenCalled();
     });
+  });
 
-    it('期限切れ予約後、次順位の予約者に通知トリガーが発生する', async () => {
+  describe('受取館の指定', () => {
+    it('受取館を指定して予約を作成できる', async () => {
       // Arrange
-      const expiredReservation = createMockReservation({
-        id: createReservationId('reservation-1'),
+      const create = vi.fn((input: { pickupLocationId?: unknown }, queuePosition: number) =>
+        Promise.resolve(
+          ok(
+            createMockReservation({
+              queuePosition,
+              pickupLocationId: createServicePointId(String(input.pickupLocationId)),
+            })
+          )
+        )
+      );
+      reservationRepo = createMockReservationRepository({ create });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.createReservation({
         userId: createUserId('user-1'),
         bookId: createBookId('book-1'),
-        status: 'NOTIFIED',
-        expiresAt: new Date('2024-01-01'),
-        queuePosition: 1,
+        pickupLocationId: createServicePointId('sp-central'),
       });
-      const nextReservation = createMockReservation({
+
+      // Assert
+      expect(create).toHaveBeenCalledWith(
+        expect.objectContaining({ pickupLocationId: 'sp-central' }),
+        1
+      );
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.pickupLocationId).toBe('sp-central');
+      }
+    });
+
+    it('存在しないサービスポイントを受取館に指定するとSERVICE_POINT_NOT_FOUNDエラー', async () => {
+      // Arrange
+      servicePointRepo = createMockServicePointRepository({
+        findById: (id) =>
+          Promise.resolve(err({ type: 'SERVICE_POINT_NOT_FOUND', servicePointId: id })),
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.createReservation({
+        userId: createUserId('user-1'),
+        bookId: createBookId('book-1'),
+        pickupLocationId: createServicePointId('sp-unknown'),
+      });
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual({
+          type: 'SERVICE_POINT_NOT_FOUND',
+          servicePointId: 'sp-unknown',
+        });
+      }
+    });
+
+    it('無効化されたサービスポイントは受取館に指定できない', async () => {
+      // Arrange
+      servicePointRepo = createMockServicePointRepository({
+        findById: (id) => Promise.resolve(ok(createMockServicePoint({ id, active: false }))),
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.createReservation({
+        userId: createUserId('user-1'),
+        bookId: createBookId('book-1'),
+        pickupLocationId: createServicePointId('sp-closed'),
+      });
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('VALIDATION_ERROR');
+      }
+    });
+  });
+
+  describe('processReturnedBook', () => {
+    it('予約がある書籍が返却された時、先頭の予約者に通知フラグが設定される', async () => {
+      // Arrange
+      const firstReservation = createMockReservation({
+        id: createReservationId('reservation-1'),
+        userId: createUserId('user-1'),
+        bookId: createBookId('book-1'),
+        queuePosition: 1,
+        status: 'PENDING',
+      });
+      const secondReservation = createMockReservation({
         id: createReservationId('reservation-2'),
         userId: createUserId('user-2'),
         bookId: createBookId('book-1'),
-        status: 'PENDING',
         queuePosition: 2,
+        status: 'PENDING',
       });
 
-      const notifiedIds: string[] = [];
       reservationRepo = createMockReservationRepository({
-        findExpiredReservations: () => Promise.resolve([expiredReservation]),
-        findActiveByBookId: (bookId) => {
-          if (bookId === 'book-1') {
-            return Promise.resolve([nextReservation]);
-          }
-          return Promise.resolve([]);
-        },
-        updateStatus: (id, status) => {
-          if (status === 'NOTIFIED') {
-            notifiedIds.push(id);
-          }
+        findActiveByBookId: () => Promise.resolve([firstReservation, secondReservation]),
+        updateStatus: (id, status, notifiedAt, expiresAt) => {
           return Promise.resolve(
             ok(
               createMockReservation({
                 id,
                 status,
+                notifiedAt: notifiedAt ?? null,
+                expiresAt: expiresAt ?? null,
               })
             )
           );
         },
       });
-      service = createReservationService(reservationRepo, bookRepo, userRepo);
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
 
       // Act
-      const result = await service.expireOverdueReservations();
+      const result = await service.processReturnedBook(
+        createBookId('book-1'),
+        createCopyId('copy-1')
+      );
 
       // Assert
       expect(isOk(result)).toBe(true);
       if (isOk(result)) {
-        expect(result.value.expiredCount).toBe(1);
-        expect(result.value.nextNotifiedReservations).toHaveLength(1);
-        expect(notifiedIds).toContain('reservation-2');
+        expect(result.value.notifiedReservation).toBeDefined();
+        expect(result.value.notifiedReservation?.id).toBe('reservation-1');
+        expect(result.value.notifiedReservation?.status).toBe('NOTIFIED');
       }
     });
-  });
 
-  describe('cancelReservation', () => {
-    it('予約をキャンセルしてCANCELLEDステータスに更新できる', async () => {
+    it('休止中の予約は順番を保持したまま飛ばし、次の予約者に通知する', async () => {
+      // Arrange
+      const suspendedReservation = createMockReservation({
+        id: createReservationId('reservation-1'),
+        queuePosition: 1,
+        suspendedUntil: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      });
+      const nextReservation = createMockReservation({
+        id: createReservationId('reservation-2'),
+        userId: createUserId('user-2'),
+        queuePosition: 2,
+      });
+      const updateStatus = vi.fn((id: ReservationId, status: ReservationStatus) =>
+        Promise.resolve(ok(createMockReservation({ id, status })))
+      );
+      reservationRepo = createMockReservationRepository({
+        findActiveByBookId: () => Promise.resolve([suspendedReservation, nextReservation]),
+        updateStatus,
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.processReturnedBook(
+        createBookId('book-1'),
+        createCopyId('copy-1')
+      );
+
+      // Assert
+      expect(isOk(result) && result.value.notifiedReservation?.id).toBe('reservation-2');
+      expect(updateStatus.mock.calls.map(([id]) => id)).toEqual(['reservation-2']);
+    });
+
+    it('休止期限を過ぎた予約は通知の対象に戻る', async () => {
+      // Arrange
+      const resumedReservation = createMockReservation({
+        id: createReservationId('reservation-1'),
+        suspendedUntil: new Date('2024-01-01'),
+      });
+      reservationRepo = createMockReservationRepository({
+        findActiveByBookId: () => Promise.resolve([resumedReservation]),
+        updateStatus: (id, status) => Promise.resolve(ok(createMockReservation({ id, status }))),
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.processReturnedBook(
+        createBookId('book-1'),
+        createCopyId('copy-1')
+      );
+
+      // Assert
+      expect(isOk(result) && result.value.notifiedReservation?.id).toBe('reservation-1');
+    });
+
+    it('予約がない書籍が返却された場合、通知対象なしを返す', async () => {
+      // Arrange
+      reservationRepo = createMockReservationRepository({
+        findActiveByBookId: () => Promise.resolve([]),
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.processReturnedBook(
+        createBookId('book-1'),
+        createCopyId('copy-1')
+      );
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.notifiedReservation).toBeNull();
+      }
+    });
+
+    it('通知時に予約有効期限が7日後に設定される', async () => {
       // Arrange
       const reservation = createMockReservation({
         id: createReservationId('reservation-1'),
         status: 'PENDING',
       });
 
+      let capturedExpiresAt: Date | undefined;
       reservationRepo = createMockReservationRepository({
-        findById: () => Promise.resolve(ok(reservation)),
-        updateStatus: (id, status) => {
+        findActiveByBookId: () => Promise.resolve([reservation]),
+        updateStatus: (_id, _status, _notifiedAt, expiresAt) => {
+          capturedExpiresAt = expiresAt;
           return Promise.resolve(
             ok(
               createMockReservation({
-                id,
-                status,
+                status: 'NOTIFIED',
+                notifiedAt: new Date(),
+                expiresAt: expiresAt ?? null,
               })
             )
           );
         },
       });
-      service = createReservationService(reservationRepo, bookRepo, userRepo);
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
 
       // Act
-      const result = await service.cancelReservation(createReservationId('reservation-1'));
+      const now = new Date();
+      await service.processReturnedBook(createBookId('book-1'), createCopyId('copy-1'));
+
+      // Assert
+      expect(capturedExpiresAt).toBeDefined();
+      if (capturedExpiresAt) {
+        const daysDiff = Math.round(
+          (capturedExpiresAt.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
+        );
+        expect(daysDiff).toBe(7);
+      }
+    });
+    it('予約有効期限は休館日を除いた開館日数で計算する', async () => {
+      // Arrange（2024-06-10（月）に通知、日曜定休の場合は 6/18（火）が期限）
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(2024, 5, 10, 10, 0, 0));
+      const reservation = createMockReservation({
+        id: createReservationId('reservation-1'),
+        status: 'PENDING',
+      });
+
+      let capturedExpiresAt: Date | undefined;
+      reservationRepo = createMockReservationRepository({
+        findActiveByBookId: () => Promise.resolve([reservation]),
+        updateStatus: (_id, _status, _notifiedAt, expiresAt) => {
+          capturedExpiresAt = expiresAt;
+          return Promise.resolve(ok(createMockReservation({ status: 'NOTIFIED' })));
+        },
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService({
+          ...ALWAYS_OPEN_CALENDAR,
+          weeklyHours: [{ weekday: 0, opensAt: null, closesAt: null }],
+        }),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      await service.processReturnedBook(createBookId('book-1'), createCopyId('copy-1'));
+      vi.useRealTimers();
+
+      // Assert
+      expect(capturedExpiresAt).toEqual(new Date(2024, 5, 18, 10, 0, 0));
+    });
+
+    it('返却された蔵書コピーを取り置き棚に確保し、通知した予約に割り当てる', async () => {
+      // Arrange
+      const reservation = createMockReservation({
+        id: createReservationId('reservation-1'),
+        status: 'PENDING',
+      });
+      const assignCopy = vi.fn((id: ReservationId, copyId: CopyId) =>
+        Promise.resolve(ok(createMockReservation({ id, status: 'NOTIFIED', copyId })))
+      );
+      const updateCopy = vi.fn((copyId: CopyId, status: BookCopyStatus) =>
+        Promise.resolve(ok(createMockBookCopy({ id: copyId, status })))
+      );
+      reservationRepo = createMockReservationRepository({
+        findActiveByBookId: () => Promise.resolve([reservation]),
+        assignCopy,
+      });
+      bookRepo = createMockBookRepository({ updateCopy });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.processReturnedBook(
+        createBookId('book-1'),
+        createCopyId('copy-2')
+      );
 
       // Assert
+      expect(assignCopy).toHaveBeenCalledWith('reservation-1', 'copy-2');
+      expect(updateCopy).toHaveBeenCalledWith('copy-2', 'RESERVED');
       expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.notifiedReservation?.copyId).toBe('copy-2');
+      }
     });
 
-    it('存在しない予約をキャンセルしようとするとエラーを返す', async () => {
+    it('予約がない場合は返却された蔵書コピーを取り置かない', async () => {
       // Arrange
+      const updateCopy = vi.fn();
+      bookRepo = createMockBookRepository({ updateCopy });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      await service.processReturnedBook(createBookId('book-1'), createCopyId('copy-1'));
+
+      // Assert
+      expect(updateCopy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('返却されたサービスポイントと受取館', () => {
+    const pickupAtCentral = createMockReservation({
+      pickupLocationId: createServicePointId('sp-central'),
+    });
+
+    it('受取館と異なるサービスポイントで返却された場合は通知せず輸送依頼を作成する', async () => {
+      // Arrange
+      const notified = vi.fn().mockResolvedValue(undefined);
+      eventBus.subscribe('ReservationNotified', notified);
+      const updateStatus = vi.fn((id: ReservationId, status: ReservationStatus) =>
+        Promise.resolve(ok(createMockReservation({ id, status })))
+      );
+      const updateCopy = vi.fn((copyId: CopyId, status: BookCopyStatus) =>
+        Promise.resolve(ok(createMockBookCopy({ id: copyId, status })))
+      );
+      const createTransitRequest = vi.fn(
+        (input: Omit<TransitRequest, 'id' | 'status' | 'createdAt' | 'receivedAt'>) =>
+          Promise.resolve(createMockTransitRequest({ ...input }))
+      );
       reservationRepo = createMockReservationRepository({
-        findById: () =>
-          Promise.resolve(
-            err({ type: 'RESERVATION_NOT_FOUND' as const, reservationId: 'reservation-999' })
-          ),
+        findActiveByBookId: () => Promise.resolve([pickupAtCentral]),
+        updateStatus,
+        createTransitRequest,
       });
-      service = createReservationService(reservationRepo, bookRepo, userRepo);
+      bookRepo = createMockBookRepository({ updateCopy });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
 
       // Act
-      const result = await service.cancelReservation(createReservationId('reservation-999'));
+      const result = await service.processReturnedBook(
+        createBookId('book-1'),
+        createCopyId('copy-1'),
+        createServicePointId('sp-east')
+      );
 
       // Assert
-      expect(isErr(result)).toBe(true);
-      if (isErr(result)) {
-        expect(result.error.type).toBe('RESERVATION_NOT_FOUND');
+      expect(updateStatus).toHaveBeenCalledWith('reservation-1', 'IN_TRANSIT');
+      expect(updateCopy).toHaveBeenCalledWith('copy-1', 'RESERVED');
+      expect(createTransitRequest).toHaveBeenCalledWith({
+        copyId: 'copy-1',
+        reservationId: 'reservation-1',
+        fromServicePointId: 'sp-east',
+        toServicePointId: 'sp-central',
+      });
+      expect(notified).not.toHaveBeenCalled();
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.notifiedReservation).toBeNull();
+        expect(result.value.transitRequest?.toServicePointId).toBe('sp-central');
+      }
+    });
+
+    it('受取館で返却された場合は輸送依頼を作成せずに通知する', async () => {
+      // Arrange
+      const createTransitRequest = vi.fn();
+      reservationRepo = createMockReservationRepository({
+        findActiveByBookId: () => Promise.resolve([pickupAtCentral]),
+        updateStatus: (id, status) => Promise.resolve(ok(createMockReservation({ id, status }))),
+        createTransitRequest,
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.processReturnedBook(
+        createBookId('book-1'),
+        createCopyId('copy-1'),
+        createServicePointId('sp-central')
+      );
+
+      // Assert
+      expect(createTransitRequest).not.toHaveBeenCalled();
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.notifiedReservation?.status).toBe('NOTIFIED');
+        expect(result.value.transitRequest).toBeNull();
+      }
+    });
+
+    it('返却されたサービスポイントが不明な場合は輸送依頼を作成せずに通知する', async () => {
+      // Arrange
+      const createTransitRequest = vi.fn();
+      reservationRepo = createMockReservationRepository({
+        findActiveByBookId: () => Promise.resolve([pickupAtCentral]),
+        updateStatus: (id, status) => Promise.resolve(ok(createMockReservation({ id, status }))),
+        createTransitRequest,
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.processReturnedBook(
+        createBookId('book-1'),
+        createCopyId('copy-1')
+      );
+
+      // Assert
+      expect(createTransitRequest).not.toHaveBeenCalled();
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.notifiedReservation).not.toBeNull();
       }
     });
   });
+
+  describe('allocateReturnedCopy', () => {
+    it('返却処理の作業単位内で先頭の予約者に取り置きを確保し、取り置き開始イベントは発行しない', async () => {
+      // Arrange
+      const notified = vi.fn().mockResolvedValue(undefined);
+      eventBus.subscribe('ReservationNotified', notified);
+      const assignCopy = vi.fn((id: ReservationId, copyId: CopyId) =>
+        Promise.resolve(ok(createMockReservation({ id, status: 'NOTIFIED', copyId })))
+      );
+      const updateCopy = vi.fn((copyId: CopyId, status: BookCopyStatus) =>
+        Promise.resolve(ok(createMockBookCopy({ id: copyId, status })))
+      );
+      reservationRepo = createMockReservationRepository({
+        findActiveByBookId: () => Promise.resolve([createMockReservation()]),
+        assignCopy,
+      });
+      bookRepo = createMockBookRepository({ updateCopy });
+      const unitOfWork = createPassthroughUnitOfWork();
+      const run = vi.spyOn(unitOfWork, 'run');
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        unitOfWork,
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.allocateReturnedCopy(
+        createBookId('book-1'),
+        createCopyId('copy-1')
+      );
+
+      // Assert
+      expect(isOk(result) && result.value.notifiedReservation?.copyId).toBe('copy-1');
+      expect(assignCopy).toHaveBeenCalledWith('reservation-1', 'copy-1');
+      expect(updateCopy).toHaveBeenCalledWith('copy-1', 'RESERVED');
+      expect(run).not.toHaveBeenCalled();
+      expect(notified).not.toHaveBeenCalled();
+    });
+
+    it('返却場所が受取館と異なる場合は輸送依頼を作成する', async () => {
+      // Arrange
+      const createTransitRequest = vi.fn(() => Promise.resolve(createMockTransitRequest()));
+      reservationRepo = createMockReservationRepository({
+        findActiveByBookId: () =>
+          Promise.resolve([
+            createMockReservation({ pickupLocationId: createServicePointId('sp-central') }),
+          ]),
+        createTransitRequest,
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      await service.allocateReturnedCopy(
+        createBookId('book-1'),
+        createCopyId('copy-1'),
+        createServicePointId('sp-east')
+      );
+
+      // Assert
+      expect(createTransitRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ fromServicePointId: 'sp-east', toServicePointId: 'sp-central' })
+      );
+    });
+  });
+
+  describe('expireOverdueReservations', () => {
+    it('指定された基準日時で有効期限切れの予約を検索する', async () => {
+      // Arrange
+      const now = new Date('2024-06-10T09:00:00Z');
+      const findExpiredReservations = vi.fn().mockResolvedValue([]);
+      reservationRepo = createMockReservationRepository({ findExpiredReservations });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.expireOverdueReservations(now);
+
+      // Assert
+      expect(findExpiredReservations).toHaveBeenCalledWith(now);
+      expect(isOk(result) && result.value.expiredCount).toBe(0);
+    });
+
+    it('有効期限切れの予約をEXPIREDステータスに更新する', async () => {
+      // Arrange
+      const expiredReservation = createMockReservation({
+        id: createReservationId('reservation-1'),
+        status: 'NOTIFIED',
+        expiresAt: new Date('2024-01-01'), // 過去の日付
+      });
+
+      const updatedIds: string[] = [];
+      reservationRepo = createMockReservationRepository({
+        findExpiredReservations: () => Promise.resolve([expiredReservation]),
+        updateStatus: (id, status) => {
+          updatedIds.push(id);
+          return Promise.resolve(
+            ok(
+              createMockReservation({
+                id,
+                status,
+              })
+            )
+          );
+        },
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.expireOverdueReservations();
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.expiredCount).toBe(1);
+        expect(updatedIds).toContain('reservation-1');
+      }
+    });
+
+    it('期限切れ予約ごとに期限切れ更新と次順位者への通知を1つの作業単位で実行する', async () => {
+      // Arrange
+      const expiredReservations = [
+        createMockReservation({
+          id: createReservationId('reservation-1'),
+          bookId: createBookId('book-1'),
+          status: 'NOTIFIED',
+        }),
+        createMockReservation({
+          id: createReservationId('reservation-2'),
+          bookId: createBookId('book-2'),
+          status: 'NOTIFIED',
+        }),
+      ];
+
+      const events: string[] = [];
+      const unitOfWork: UnitOfWork = {
+        run: async (work) => {
+          events.push('begin');
+          const result = await work();
+          events.push('end');
+          return result;
+        },
+      };
+      reservationRepo = createMockReservationRepository({
+        findExpiredReservations: () => Promise.resolve(expiredReservations),
+        findActiveByBookId: () => Promise.resolve([]),
+        updateStatus: (id, status) => {
+          events.push(`update:${id}`);
+          return Promise.resolve(ok(createMockReservation({ id, status })));
+        },
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        unitOfWork,
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      await service.expireOverdueReservations();
+
+      // Assert
+      expect(events).toEqual([
+        'begin',
+        'update:reservation-1',
+        'end',
+        'begin',
+        'update:reservation-2',
+        'end',
+      ]);
+    });
+
+    it('期限切れ予約がない場合、expiredCount=0を返す', async () => {
+      // Arrange
+      reservationRepo = createMockReservationRepository({
+        findExpiredReservations: () => Promise.resolve([]),
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.expireOverdueReservations();
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.expiredCount).toBe(0);
+      }
+    });
+
+    it('期限切れ予約後、次順位の予約者に通知トリガーが発生する', async () => {
+      // Arrange
+      const expiredReservation = createMockReservation({
+        id: createReservationId('reservation-1'),
+        userId: createUserId('user-1'),
+        bookId: createBookId('book-1'),
+        status: 'NOTIFIED',
+        expiresAt: new Date('2024-01-01'),
+        queuePosition: 1,
+      });
+      const nextReservation = createMockReservation({
+        id: createReservationId('reservation-2'),
+        userId: createUserId('user-2'),
+        bookId: createBookId('book-1'),
+        status: 'PENDING',
+        queuePosition: 2,
+      });
+
+      const notifiedIds: string[] = [];
+      reservationRepo = createMockReservationRepository({
+        findExpiredReservations: () => Promise.resolve([expiredReservation]),
+        findActiveByBookId: (bookId) => {
+          if (bookId === 'book-1') {
+            return Promise.resolve([nextReservation]);
+          }
+          return Promise.resolve([]);
+        },
+        updateStatus: (id, status) => {
+          if (status === 'NOTIFIED') {
+            notifiedIds.push(id);
+          }
+          return Promise.resolve(
+            ok(
+              createMockReservation({
+                id,
+                status,
+              })
+            )
+          );
+        },
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.expireOverdueReservations();
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.expiredCount).toBe(1);
+        expect(result.value.nextNotifiedReservations).toHaveLength(1);
+        expect(notifiedIds).toContain('reservation-2');
+      }
+    });
+
+    it('取り置き中の蔵書コピーを次順位の予約者に引き継ぐ', async () => {
+      // Arrange
+      const expiredHold = createMockReservation({
+        id: createReservationId('reservation-1'),
+        status: 'NOTIFIED',
+        copyId: createCopyId('copy-1'),
+      });
+      const nextReservation = createMockReservation({
+        id: createReservationId('reservation-2'),
+        userId: createUserId('user-2'),
+        status: 'PENDING',
+        queuePosition: 2,
+      });
+      const assignCopy = vi.fn((id: ReservationId, copyId: CopyId) =>
+        Promise.resolve(ok(createMockReservation({ id, status: 'NOTIFIED', copyId })))
+      );
+      const updateCopy = vi.fn((copyId: CopyId, status: BookCopyStatus) =>
+        Promise.resolve(ok(createMockBookCopy({ id: copyId, status })))
+      );
+      reservationRepo = createMockReservationRepository({
+        findExpiredReservations: () => Promise.resolve([expiredHold]),
+        findActiveByBookId: () => Promise.resolve([nextReservation]),
+        assignCopy,
+      });
+      bookRepo = createMockBookRepository({ updateCopy });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.expireOverdueReservations();
+
+      // Assert
+      expect(assignCopy).toHaveBeenCalledWith('reservation-2', 'copy-1');
+      expect(updateCopy).not.toHaveBeenCalledWith('copy-1', 'AVAILABLE');
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.nextNotifiedReservations[0]?.copyId).toBe('copy-1');
+      }
+    });
+
+    it('次順位の予約者がいない場合は取り置き中の蔵書コピーを貸出可能に戻す', async () => {
+      // Arrange
+      const expiredHold = createMockReservation({
+        id: createReservationId('reservation-1'),
+        status: 'NOTIFIED',
+        copyId: createCopyId('copy-1'),
+      });
+      const updateCopy = vi.fn((copyId: CopyId, status: BookCopyStatus) =>
+        Promise.resolve(ok(createMockBookCopy({ id: copyId, status })))
+      );
+      reservationRepo = createMockReservationRepository({
+        findExpiredReservations: () => Promise.resolve([expiredHold]),
+        findActiveByBookId: () => Promise.resolve([]),
+      });
+      bookRepo = createMockBookRepository({ updateCopy });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      await service.expireOverdueReservations();
+
+      // Assert
+      expect(updateCopy).toHaveBeenCalledWith('copy-1', 'AVAILABLE');
+    });
+    it('取り置きの引き継ぎ先は休止中の予約を飛ばして選ぶ', async () => {
+      // Arrange
+      const expiredHold = createMockReservation({
+        id: createReservationId('reservation-1'),
+        status: 'NOTIFIED',
+        copyId: createCopyId('copy-1'),
+      });
+      const suspendedReservation = createMockReservation({
+        id: createReservationId('reservation-2'),
+        userId: createUserId('user-2'),
+        queuePosition: 2,
+        suspendedUntil: new Date(2024, 5, 20),
+      });
+      const nextReservation = createMockReservation({
+        id: createReservationId('reservation-3'),
+        userId: createUserId('user-3'),
+        queuePosition: 3,
+      });
+      const assignCopy = vi.fn((id: ReservationId, copyId: CopyId) =>
+        Promise.resolve(ok(createMockReservation({ id, status: 'NOTIFIED', copyId })))
+      );
+      reservationRepo = createMockReservationRepository({
+        findExpiredReservations: () => Promise.resolve([expiredHold]),
+        findActiveByBookId: () => Promise.resolve([suspendedReservation, nextReservation]),
+        assignCopy,
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.expireOverdueReservations(new Date(2024, 5, 10));
+
+      // Assert
+      expect(assignCopy).toHaveBeenCalledWith('reservation-3', 'copy-1');
+      expect(isOk(result) && result.value.nextNotifiedReservations.map((r) => r.id)).toEqual([
+        'reservation-3',
+      ]);
+    });
+  });
+
+  describe('cancelReservation', () => {
+    it('予約をキャンセルしてCANCELLEDステータスに更新できる', async () => {
+      // Arrange
+      const reservation = createMockReservation({
+        id: createReservationId('reservation-1'),
+        status: 'PENDING',
+      });
+
+      reservationRepo = createMockReservationRepository({
+        findById: () => Promise.resolve(ok(reservation)),
+        updateStatus: (id, status) => {
+          return Promise.resolve(
+            ok(
+              createMockReservation({
+                id,
+                status,
+              })
+            )
+          );
+        },
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.cancelReservation(createReservationId('reservation-1'));
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+    });
+
+    it('存在しない予約をキャンセルしようとするとエラーを返す', async () => {
+      // Arrange
+      reservationRepo = createMockReservationRepository({
+        findById: () =>
+          Promise.resolve(
+            err({ type: 'RESERVATION_NOT_FOUND' as const, reservationId: 'reservation-999' })
+          ),
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.cancelReservation(createReservationId('reservation-999'));
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('RESERVATION_NOT_FOUND');
+      }
+    });
+
+    it('取り置き中の予約をキャンセルすると蔵書コピーを貸出可能に戻す', async () => {
+      // Arrange
+      const hold = createMockReservation({
+        id: createReservationId('reservation-1'),
+        status: 'NOTIFIED',
+        copyId: createCopyId('copy-1'),
+      });
+      const updateCopy = vi.fn((copyId: CopyId, status: BookCopyStatus) =>
+        Promise.resolve(ok(createMockBookCopy({ id: copyId, status })))
+      );
+      reservationRepo = createMockReservationRepository({
+        findById: () => Promise.resolve(ok(hold)),
+        findActiveByBookId: () => Promise.resolve([]),
+      });
+      bookRepo = createMockBookRepository({ updateCopy });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.cancelReservation(createReservationId('reservation-1'));
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      expect(updateCopy).toHaveBeenCalledWith('copy-1', 'AVAILABLE');
+    });
+  });
+
+  describe('予約の休止', () => {
+    // 休止期限は明日以降の日付のみ指定できるため、十分先の日付を使用する
+    const until = '2099-06-01';
+
+    it('予約待ちの予約を休止期限の日の0時まで休止する', async () => {
+      // Arrange
+      const updateSuspension = vi.fn((id: ReservationId, suspendedUntil: Date | null) =>
+        Promise.resolve(ok(createMockReservation({ id, suspendedUntil })))
+      );
+      reservationRepo = createMockReservationRepository({ updateSuspension });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.suspendReservation(createReservationId('reservation-1'), until);
+
+      // Assert
+      expect(updateSuspension).toHaveBeenCalledWith('reservation-1', new Date(2099, 5, 1));
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.suspendedUntil).toEqual(new Date(2099, 5, 1));
+        expect(result.value.queuePosition).toBe(1);
+      }
+    });
+
+    it('取り置き中の予約は休止できず、INVALID_RESERVATION_STATUSを返す', async () => {
+      // Arrange
+      const updateSuspension = vi.fn();
+      reservationRepo = createMockReservationRepository({
+        findById: () => Promise.resolve(ok(createMockReservation({ status: 'NOTIFIED' }))),
+        updateSuspension,
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.suspendReservation(createReservationId('reservation-1'), until);
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual({
+          type: 'INVALID_RESERVATION_STATUS',
+          reservationId: 'reservation-1',
+          status: 'NOTIFIED',
+        });
+      }
+      expect(updateSuspension).not.toHaveBeenCalled();
+    });
+
+    it.each(['2024-01-01', '2099-02-30', 'next week'])(
+      '休止期限 "%s" はVALIDATION_ERRORを返す',
+      async (invalidUntil) => {
+        // Act
+        const result = await service.suspendReservation(
+          createReservationId('reservation-1'),
+          invalidUntil
+        );
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error).toMatchObject({ type: 'VALIDATION_ERROR', field: 'until' });
+        }
+      }
+    );
+
+    it('予約の休止を解除する', async () => {
+      // Arrange
+      const updateSuspension = vi.fn((id: ReservationId, suspendedUntil: Date | null) =>
+        Promise.resolve(ok(createMockReservation({ id, suspendedUntil })))
+      );
+      reservationRepo = createMockReservationRepository({
+        findById: () =>
+          Promise.resolve(ok(createMockReservation({ suspendedUntil: new Date(2099, 5, 1) }))),
+        updateSuspension,
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.resumeReservation(createReservationId('reservation-1'));
+
+      // Assert
+      expect(updateSuspension).toHaveBeenCalledWith('reservation-1', null);
+      expect(isOk(result) && result.value.suspendedUntil).toBeNull();
+    });
+
+    it('利用者の予約待ちの予約のみをまとめて休止する', async () => {
+      // Arrange
+      const pending = createMockReservation({ id: createReservationId('reservation-1') });
+      const hold = createMockReservation({
+        id: createReservationId('reservation-2'),
+        status: 'NOTIFIED',
+      });
+      const fulfilled = createMockReservation({
+        id: createReservationId('reservation-3'),
+        status: 'FULFILLED',
+      });
+      const updateSuspension = vi.fn((id: ReservationId, suspendedUntil: Date | null) =>
+        Promise.resolve(ok(createMockReservation({ id, suspendedUntil })))
+      );
+      reservationRepo = createMockReservationRepository({
+        findByUserId: () => Promise.resolve([pending, hold, fulfilled]),
+        updateSuspension,
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.suspendUserReservations(createUserId('user-1'), until);
+
+      // Assert
+      expect(updateSuspension).toHaveBeenCalledTimes(1);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.map((r) => r.id)).toEqual(['reservation-1']);
+      }
+    });
+
+    it('利用者の休止中の予約の休止をまとめて解除する', async () => {
+      // Arrange
+      const suspended = createMockReservation({
+        id: createReservationId('reservation-1'),
+        suspendedUntil: new Date(2099, 5, 1),
+      });
+      const active = createMockReservation({ id: createReservationId('reservation-2') });
+      const updateSuspension = vi.fn((id: ReservationId, suspendedUntil: Date | null) =>
+        Promise.resolve(ok(createMockReservation({ id, suspendedUntil })))
+      );
+      reservationRepo = createMockReservationRepository({
+        findByUserId: () => Promise.resolve([suspended, active]),
+        updateSuspension,
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.resumeUserReservations(createUserId('user-1'));
+
+      // Assert
+      expect(updateSuspension).toHaveBeenCalledTimes(1);
+      expect(updateSuspension).toHaveBeenCalledWith('reservation-1', null);
+      expect(isOk(result) && result.value).toHaveLength(1);
+    });
+
+    it('利用者が存在しない場合、USER_NOT_FOUNDを返す', async () => {
+      // Arrange
+      userRepo = createMockUserRepository({
+        findById: () => Promise.resolve(err({ type: 'NOT_FOUND', id: 'user-999' })),
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.suspendUserReservations(createUserId('user-999'), until);
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('USER_NOT_FOUND');
+      }
+    });
+  });
+
+  describe('getHoldShelfPullList', () => {
+    it('対象日中に有効期限が切れた取り置きを返す', async () => {
+      // Arrange
+      const expiredHold = createMockReservation({
+        status: 'EXPIRED',
+        copyId: createCopyId('copy-1'),
+        expiresAt: new Date(2024, 5, 18, 10, 0, 0),
+      });
+      const findExpiredHolds = vi.fn((_from: Date, _to: Date) => Promise.resolve([expiredHold]));
+      reservationRepo = createMockReservationRepository({ findExpiredHolds });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.getHoldShelfPullList('2024-06-18');
+
+      // Assert
+      expect(findExpiredHolds).toHaveBeenCalledWith(
+        new Date(2024, 5, 18, 0, 0, 0),
+        new Date(2024, 5, 19, 0, 0, 0)
+      );
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toEqual([expiredHold]);
+      }
+    });
+
+    it('対象日の形式が不正な場合、VALIDATION_ERRORを返す', async () => {
+      // Act
+      const result = await service.getHoldShelfPullList('2024-02-30');
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('VALIDATION_ERROR');
+      }
+    });
+  });
+
+  describe('イベント連携', () => {
+    const loanEvent = {
+      loanId: createLoanId('loan-1'),
+      userId: createUserId('user-1'),
+      bookId: createBookId('book-1'),
+      copyId: createCopyId('copy-1'),
+      servicePointId: null,
+      occurredAt: new Date('2024-01-20'),
+    };
+
+    it('返却イベントで返却時に確保した取り置きの開始イベントを発行する', async () => {
+      // Arrange
+      const notified = vi.fn().mockResolvedValue(undefined);
+      eventBus.subscribe('ReservationNotified', notified);
+      const findActiveByBookId = vi.fn();
+      reservationRepo = createMockReservationRepository({
+        findHoldByCopyId: () =>
+          Promise.resolve(
+            createMockReservation({
+              userId: createUserId('user-2'),
+              status: 'NOTIFIED',
+              copyId: createCopyId('copy-1'),
+            })
+          ),
+        findActiveByBookId,
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      await eventBus.publish({ type: 'LoanReturned', ...loanEvent });
+
+      // Assert
+      expect(findActiveByBookId).not.toHaveBeenCalled();
+      expect(notified).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'ReservationNotified',
+          reservationId: 'reservation-1',
+          copyId: 'copy-1',
+        })
+      );
+    });
+
+    it('返却時に取り置きを確保していない場合（予約なし・輸送中）は取り置き開始イベントを発行しない', async () => {
+      // Arrange
+      const notified = vi.fn().mockResolvedValue(undefined);
+      eventBus.subscribe('ReservationNotified', notified);
+      const updateCopy = vi.fn();
+      reservationRepo = createMockReservationRepository({
+        findHoldByCopyId: () => Promise.resolve(null),
+        findActiveByBookId: () => Promise.resolve([createMockReservation()]),
+      });
+      bookRepo = createMockBookRepository({ updateCopy });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      await eventBus.publish({ type: 'LoanReturned', ...loanEvent });
+
+      // Assert
+      expect(updateCopy).not.toHaveBeenCalled();
+      expect(notified).not.toHaveBeenCalled();
+    });
+
+    it('予約者本人の貸出イベントで予約を貸出完了にする', async () => {
+      // Arrange
+      const updateStatus = vi.fn((id: ReservationId) =>
+        Promise.resolve(ok(createMockReservation({ id, status: 'FULFILLED' })))
+      );
+      reservationRepo = createMockReservationRepository({
+        findActiveByBookId: () =>
+          Promise.resolve([
+            createMockReservation({
+              status: 'NOTIFIED',
+              copyId: createCopyId('copy-1'),
+            }),
+          ]),
+        updateStatus,
+      });
+      const updateCopy = vi.fn();
+      bookRepo = createMockBookRepository({ updateCopy });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      await eventBus.publish({ type: 'LoanCreated', ...loanEvent });
+
+      // Assert
+      expect(updateStatus).toHaveBeenCalledWith('reservation-1', 'FULFILLED');
+      expect(updateCopy).not.toHaveBeenCalled();
+    });
+
+    it('別のコピーを取り置き中の予約者が借りた場合、取り置き中のコピーを次順位者に引き継ぐ', async () => {
+      // Arrange
+      const holdingReservation = createMockReservation({
+        status: 'NOTIFIED',
+        copyId: createCopyId('copy-2'),
+      });
+      const nextReservation = createMockReservation({
+        id: createReservationId('reservation-2'),
+        userId: createUserId('user-2'),
+        queuePosition: 2,
+      });
+      const assignCopy = vi.fn((id: ReservationId, copyId: CopyId) =>
+        Promise.resolve(ok(createMockReservation({ id, status: 'NOTIFIED', copyId })))
+      );
+      reservationRepo = createMockReservationRepository({
+        findActiveByBookId: () => Promise.resolve([holdingReservation, nextReservation]),
+        assignCopy,
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.fulfillReservationForLoan(
+        loanEvent.userId,
+        loanEvent.bookId,
+        loanEvent.copyId
+      );
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.notifiedReservation?.id).toBe('reservation-2');
+      }
+      expect(assignCopy).toHaveBeenCalledWith('reservation-2', 'copy-2');
+    });
+
+    it('予約していない利用者の貸出では何もしない', async () => {
+      // Arrange
+      const updateStatus = vi.fn();
+      reservationRepo = createMockReservationRepository({
+        findActiveByBookId: () =>
+          Promise.resolve([createMockReservation({ userId: createUserId('user-2') })]),
+        updateStatus,
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.fulfillReservationForLoan(
+        loanEvent.userId,
+        loanEvent.bookId,
+        loanEvent.copyId
+      );
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.fulfilledReservation).toBeNull();
+      }
+      expect(updateStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('予約キューの管理', () => {
+    const staffId = createUserId('librarian-1');
+
+    // キャンセル・期限切れで順番2が空いた予約キュー
+    const queue = [
+      createMockReservation({ id: createReservationId('reservation-1'), queuePosition: 1 }),
+      createMockReservation({
+        id: createReservationId('reservation-2'),
+        userId: createUserId('user-2'),
+        queuePosition: 3,
+      }),
+      createMockReservation({
+        id: createReservationId('reservation-3'),
+        userId: createUserId('user-3'),
+        queuePosition: 4,
+      }),
+    ];
+
+    function createServiceWithQueue(overrides: Partial<ReservationRepository> = {}): void {
+      reservationRepo = createMockReservationRepository({
+        findById: (id) => {
+          const reservation = queue.find((r) => r.id === id);
+          return Promise.resolve(
+            reservation !== undefined
+              ? ok(reservation)
+              : err({ type: 'RESERVATION_NOT_FOUND', reservationId: id })
+          );
+        },
+        findActiveByBookId: () => Promise.resolve(queue),
+        ...overrides,
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+    }
+
+    it('予約キューを予約キューの順に取得できる', async () => {
+      // Arrange
+      createServiceWithQueue();
+
+      // Act
+      const result = await service.getReservationQueue(createBookId('book-1'));
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.map((r) => r.id)).toEqual([
+          'reservation-1',
+          'reservation-2',
+          'reservation-3',
+        ]);
+      }
+    });
+
+    it('存在しない書籍の予約キューはBOOK_NOT_FOUNDを返す', async () => {
+      // Arrange
+      bookRepo = createMockBookRepository({
+        findById: () => Promise.resolve(err({ type: 'NOT_FOUND', id: 'book-x' })),
+      });
+      createServiceWithQueue();
+
+      // Act
+      const result = await service.getReservationQueue(createBookId('book-x'));
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('BOOK_NOT_FOUND');
+      }
+    });
+
+    it('予約を先頭に移動し、予約キューを連番に振り直して履歴に記録する', async () => {
+      // Arrange
+      const updateQueuePosition = vi.fn((id: ReservationId, queuePosition: number) =>
+        Promise.resolve(ok(createMockReservation({ id, queuePosition })))
+      );
+      const recordQueueChange = vi.fn(
+        (input: Parameters<ReservationRepository['recordQueueChange']>[0]) =>
+          Promise.resolve({
+            ...input,
+            id: createReservationQueueChangeId('queue-change-1'),
+            changedAt: new Date('2024-01-20'),
+          })
+      );
+      createServiceWithQueue({ updateQueuePosition, recordQueueChange });
+
+      // Act
+      const result = await service.moveReservation(createReservationId('reservation-3'), {
+        position: 1,
+        staffId,
+        reason: '  アクセシビリティ対応  ',
+      });
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.id).toBe('reservation-3');
+        expect(result.value.queuePosition).toBe(1);
+      }
+      // reservation-2 は移動後も順番3のため更新しない
+      expect(updateQueuePosition.mock.calls).toEqual([
+        ['reservation-3', 1],
+        ['reservation-1', 2],
+      ]);
+      expect(recordQueueChange).toHaveBeenCalledWith({
+        reservationId: 'reservation-3',
+        bookId: 'book-1',
+        staffId: 'librarian-1',
+        fromPosition: 3,
+        toPosition: 1,
+        reason: 'アクセシビリティ対応',
+      });
+    });
+
+    it('取り置き中の予約は移動できず、INVALID_RESERVATION_STATUSを返す', async () => {
+      // Arrange
+      const updateQueuePosition = vi.fn();
+      createServiceWithQueue({
+        findById: () => Promise.resolve(ok(createMockReservation({ status: 'NOTIFIED' }))),
+        updateQueuePosition,
+      });
+
+      // Act
+      const result = await service.moveReservation(createReservationId('reservation-1'), {
+        position: 2,
+        staffId,
+        reason: 'アクセシビリティ対応',
+      });
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('INVALID_RESERVATION_STATUS');
+      }
+      expect(updateQueuePosition).not.toHaveBeenCalled();
+    });
+
+    it('移動先が予約キューの件数を超える場合はVALIDATION_ERRORを返す', async () => {
+      // Arrange
+      const updateQueuePosition = vi.fn();
+      const recordQueueChange = vi.fn();
+      createServiceWithQueue({ updateQueuePosition, recordQueueChange });
+
+      // Act
+      const result = await service.moveReservation(createReservationId('reservation-1'), {
+        position: 4,
+        staffId,
+        reason: 'アクセシビリティ対応',
+      });
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+        expect(result.error.field).toBe('position');
+      }
+      expect(updateQueuePosition).not.toHaveBeenCalled();
+      expect(recordQueueChange).not.toHaveBeenCalled();
+    });
+
+    it('理由が空の場合はVALIDATION_ERRORを返す', async () => {
+      // Arrange
+      createServiceWithQueue();
+
+      // Act
+      const result = await service.moveReservation(createReservationId('reservation-3'), {
+        position: 1,
+        staffId,
+        reason: '   ',
+      });
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+        expect(result.error.field).toBe('reason');
+      }
+    });
+
+    it('予約キューの空いた順番を詰めて振り直す（並び順は変えない）', async () => {
+      // Arrange
+      const updateQueuePosition = vi.fn((id: ReservationId, queuePosition: number) =>
+        Promise.resolve(ok(createMockReservation({ id, queuePosition })))
+      );
+      const recordQueueChange = vi.fn();
+      createServiceWithQueue({ updateQueuePosition, recordQueueChange });
+
+      // Act
+      const result = await service.renumberQueue(createBookId('book-1'));
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.map((r) => [r.id, r.queuePosition])).toEqual([
+          ['reservation-1', 1],
+          ['reservation-2', 2],
+          ['reservation-3', 3],
+        ]);
+      }
+      // 順番が変わらない予約は更新しない
+      expect(updateQueuePosition.mock.calls).toEqual([
+        ['reservation-2', 2],
+        ['reservation-3', 3],
+      ]);
+      // 振り直しは手動の並べ替えではないため履歴に記録しない
+      expect(recordQueueChange).not.toHaveBeenCalled();
+    });
+
+    it('予約キューの変更履歴を取得できる', async () => {
+      // Arrange
+      const change: ReservationQueueChange = {
+        id: createReservationQueueChangeId('queue-change-1'),
+        reservationId: createReservationId('reservation-3'),
+        bookId: createBookId('book-1'),
+        staffId,
+        fromPosition: 3,
+        toPosition: 1,
+        reason: 'アクセシビリティ対応',
+        changedAt: new Date('2024-01-20'),
+      };
+      createServiceWithQueue({ findQueueChangesByBookId: () => Promise.resolve([change]) });
+
+      // Act
+      const result = await service.getQueueChanges(createBookId('book-1'));
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toEqual([change]);
+      }
+    });
+  });
+
+  describe('受取可能見込み', () => {
+    const now = new Date('2024-06-10T10:00:00Z');
+    const daysLater = (days: number): Date => new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+    function createLoan(copyId: string, dueDate: Date): Loan {
+      return {
+        id: createLoanId(`loan-${copyId}`),
+        userId: createUserId('borrower-1'),
+        bookCopyId: createCopyId(copyId),
+        borrowedAt: daysLater(-10),
+        dueDate,
+        returnedAt: null,
+        returnProcessedAt: null,
+        status: 'ACTIVE',
+        renewalCount: 0,
+        loanPolicyId: null,
+        recalledAt: null,
+      };
+    }
+
+    /** 予約キュー（順番1〜3の予約待ち）と蔵書コピー・貸出・履歴を指定してサービスを作成 */
+    function createServiceWith(options: {
+      readonly copies: BookCopy[];
+      readonly loans: Loan[];
+      readonly queue: Reservation[];
+      readonly averageLoanDays?: number | null;
+      readonly holdOutcomes?: HoldOutcomeCounts;
+    }): void {
+      reservationRepo = createMockReservationRepository({
+        findById: (id) => {
+          const reservation = options.queue.find((r) => r.id === id);
+          return Promise.resolve(
+            reservation !== undefined
+              ? ok(reservation)
+              : err({ type: 'RESERVATION_NOT_FOUND', reservationId: id })
+          );
+        },
+        findActiveByBookId: () => Promise.resolve(options.queue),
+        countHoldOutcomes: () =>
+          Promise.resolve(options.holdOutcomes ?? { fulfilledCount: 0, expiredCount: 0 }),
+      });
+      bookRepo = createMockBookRepository({
+        findCopiesByBookId: () => Promise.resolve(ok(options.copies)),
+      });
+      loanRepo = createMockLoanRepository(options.loans, {
+        findAverageLoanDays: () => Promise.resolve(options.averageLoanDays ?? null),
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+    }
+
+    const queue = [1, 2, 3].map((position) =>
+      createMockReservation({
+        id: createReservationId(`reservation-${String(position)}`),
+        userId: createUserId(`user-${String(position)}`),
+        queuePosition: position,
+      })
+    );
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(now);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('予約キューの先頭は貸出中の蔵書コピーの返却期限に受け取れる見込み', async () => {
+      // Arrange
+      createServiceWith({
+        copies: [createMockBookCopy({ id: createCopyId('copy-1'), status: 'BORROWED' })],
+        loans: [createLoan('copy-1', daysLater(5))],
+        queue,
+      });
+
+      // Act
+      const result = await service.estimateWait(createReservationId('reservation-1'));
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toEqual({
+          reservationId: 'reservation-1',
+          bookId: 'book-1',
+          status: 'PENDING',
+          queuePosition: 1,
+          reservationsAhead: 0,
+          estimatedAvailableAt: daysLater(5),
+          averageLoanDays: 14,
+          noShowRate: 0,
+        });
+      }
+    });
+
+    it('先に待っている予約者ごとに平均貸出日数を加算する', async () => {
+      // Arrange
+      createServiceWith({
+        copies: [createMockBookCopy({ id: createCopyId('copy-1'), status: 'BORROWED' })],
+        loans: [createLoan('copy-1', daysLater(5))],
+        queue,
+        averageLoanDays: 10,
+      });
+
+      // Act
+      const result = await service.estimateWait(createReservationId('reservation-3'));
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.reservationsAhead).toBe(2);
+        expect(result.value.estimatedAvailableAt).toEqual(daysLater(25));
+        expect(result.value.averageLoanDays).toBe(10);
+      }
+    });
+
+    it('先に待っている休止中の予約者は見込みの算出に含めない', async () => {
+      // Arrange（順番1の予約者が休止中）
+      const [first, second, third] = queue;
+      createServiceWith({
+        copies: [createMockBookCopy({ id: createCopyId('copy-1'), status: 'BORROWED' })],
+        loans: [createLoan('copy-1', daysLater(5))],
+        queue: [{ ...first!, suspendedUntil: daysLater(30) }, second!, third!],
+        averageLoanDays: 10,
+      });
+
+      // Act
+      const result = await service.estimateWait(createReservationId('reservation-3'));
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.reservationsAhead).toBe(1);
+        expect(result.value.estimatedAvailableAt).toEqual(daysLater(15));
+      }
+    });
+
+    it('未受取率に応じて先に待っている予約者の占有期間を取り置き期間で按分する', async () => {
+      // Arrange（未受取率25%: 0.25 × 7日 + 0.75 × 14日 = 12.25日）
+      createServiceWith({
+        copies: [createMockBookCopy({ id: createCopyId('copy-1'), status: 'BORROWED' })],
+        loans: [createLoan('copy-1', daysLater(5))],
+        queue,
+        holdOutcomes: { fulfilledCount: 3, expiredCount: 1 },
+      });
+
+      // Act
+      const result = await service.estimateWait(createReservationId('reservation-2'));
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.noShowRate).toBe(0.25);
+        expect(result.value.estimatedAvailableAt).toEqual(daysLater(5 + 12.25));
+      }
+    });
+
+    it('複数の蔵書コピーは返却期限の早い順に先の予約者へ割り当てる', async () => {
+      // Arrange
+      createServiceWith({
+        copies: [
+          createMockBookCopy({ id: createCopyId('copy-1'), status: 'BORROWED' }),
+          createMockBookCopy({ id: createCopyId('copy-2'), status: 'BORROWED' }),
+          createMockBookCopy({ id: createCopyId('copy-3'), status: 'LOST' }),
+        ],
+        loans: [createLoan('copy-1', daysLater(3)), createLoan('copy-2', daysLater(10))],
+        queue,
+      });
+
+      // Act
+      const result = await service.estimateWait(createReservationId('reservation-2'));
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.estimatedAvailableAt).toEqual(daysLater(10));
+      }
+    });
+
+    it('延滞中の蔵書コピーは現在から割り当てる', async () => {
+      // Arrange
+      createServiceWith({
+        copies: [createMockBookCopy({ id: createCopyId('copy-1'), status: 'BORROWED' })],
+        loans: [createLoan('copy-1', daysLater(-3))],
+        queue,
+      });
+
+      // Act
+      const result = await service.estimateWait(createReservationId('reservation-1'));
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.estimatedAvailableAt).toEqual(now);
+      }
+    });
+
+    it('休止中の予約は休止期限より前に受け取れる見込みにならない', async () => {
+      // Arrange
+      const suspended = createMockReservation({
+        id: createReservationId('reservation-1'),
+        queuePosition: 1,
+        suspendedUntil: daysLater(30),
+      });
+      createServiceWith({
+        copies: [createMockBookCopy({ id: createCopyId('copy-1'), status: 'BORROWED' })],
+        loans: [createLoan('copy-1', daysLater(5))],
+        queue: [suspended],
+      });
+
+      // Act
+      const result = await service.estimateWait(suspended.id);
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.estimatedAvailableAt).toEqual(daysLater(30));
+      }
+    });
+
+    it('貸出できる蔵書コピーがない場合は見込みなし', async () => {
+      // Arrange
+      createServiceWith({
+        copies: [createMockBookCopy({ id: createCopyId('copy-1'), status: 'LOST' })],
+        loans: [],
+        queue,
+      });
+
+      // Act
+      const result = await service.estimateWait(createReservationId('reservation-1'));
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.estimatedAvailableAt).toBeNull();
+      }
+    });
+
+    it('取り置き中の予約は取り置きの開始日時を返す', async () => {
+      // Arrange
+      const notified = createMockReservation({
+        id: createReservationId('reservation-1'),
+        status: 'NOTIFIED',
+        notifiedAt: daysLater(-1),
+        copyId: createCopyId('copy-1'),
+      });
+      createServiceWith({
+        copies: [createMockBookCopy({ id: createCopyId('copy-1'), status: 'RESERVED' })],
+        loans: [],
+        queue: [notified],
+      });
+
+      // Act
+      const result = await service.estimateWait(notified.id);
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.reservationsAhead).toBe(0);
+        expect(result.value.estimatedAvailableAt).toEqual(daysLater(-1));
+      }
+    });
+
+    it('アクティブでない予約の場合INVALID_RESERVATION_STATUSエラー', async () => {
+      // Arrange
+      const cancelled = createMockReservation({ status: 'CANCELLED' });
+      createServiceWith({ copies: [], loans: [], queue: [cancelled] });
+
+      // Act
+      const result = await service.estimateWait(cancelled.id);
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('INVALID_RESERVATION_STATUS');
+      }
+    });
+  });
+
+  describe('購入リクエストによる予約', () => {
+    const input = {
+      userId: createUserId('user-1'),
+      bookId: createBookId('book-1'),
+    };
+
+    function createServiceWith(
+      overrides: {
+        reservationRepo?: ReservationRepository;
+        bookRepo?: Pick<BookRepository, 'findById' | 'findCopiesByBookId' | 'updateCopy'>;
+      } = {}
+    ): ReservationService {
+      return createReservationService(
+        overrides.reservationRepo ?? reservationRepo,
+        overrides.bookRepo ?? bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+    }
+
+    it('貸出可能な蔵書コピーがあれば予約してすぐに取り置き、取り置き開始イベントを発行する', async () => {
+      // Arrange
+      const notified = vi.fn().mockResolvedValue(undefined);
+      const placed = vi.fn().mockResolvedValue(undefined);
+      eventBus.subscribe('ReservationNotified', notified);
+      eventBus.subscribe('ReservationPlaced', placed);
+      const assignCopy = vi.fn((id: ReservationId, copyId: CopyId) =>
+        Promise.resolve(ok(createMockReservation({ id, status: 'NOTIFIED', copyId })))
+      );
+      const updateCopy = vi.fn((copyId: CopyId, status: BookCopyStatus) =>
+        Promise.resolve(ok(createMockBookCopy({ id: copyId, status })))
+      );
+      service = createServiceWith({
+        reservationRepo: createMockReservationRepository({ assignCopy }),
+        bookRepo: createMockBookRepository({
+          findCopiesByBookId: () =>
+            Promise.resolve(
+              ok([createMockBookCopy({ id: createCopyId('copy-new'), status: 'AVAILABLE' })])
+            ),
+          updateCopy,
+        }),
+      });
+
+      // Act
+      const result = await service.placeAcquisitionHold(input);
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.status).toBe('NOTIFIED');
+        expect(result.value.copyId).toBe('copy-new');
+      }
+      expect(assignCopy).toHaveBeenCalledWith('reservation-1', 'copy-new');
+      expect(updateCopy).toHaveBeenCalledWith('copy-new', 'RESERVED');
+      expect(notified).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'ReservationNotified', copyId: 'copy-new' })
+      );
+      // 取り置き済みのため自動リコールの契機となる予約登録イベントは発行しない
+      expect(placed).not.toHaveBeenCalled();
+    });
+
+    it('貸出可能な蔵書コピーがなければ予約キューで待ち、予約登録イベントを発行する', async () => {
+      // Arrange
+      const placed = vi.fn().mockResolvedValue(undefined);
+      eventBus.subscribe('ReservationPlaced', placed);
+      const assignCopy = vi.fn();
+      service = createServiceWith({
+        reservationRepo: createMockReservationRepository({ assignCopy }),
+      });
+
+      // Act
+      const result = await service.placeAcquisitionHold(input);
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.status).toBe('PENDING');
+      }
+      expect(assignCopy).not.toHaveBeenCalled();
+      expect(placed).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'ReservationPlaced', userId: 'user-1', bookId: 'book-1' })
+      );
+    });
+
+    it('予約上限に達している場合は通常の予約と同様にエラーを返す', async () => {
+      // Arrange
+      service = createServiceWith({
+        reservationRepo: createMockReservationRepository({
+          countActiveByUserId: () => Promise.resolve(5),
+        }),
+        bookRepo: createMockBookRepository({
+          findCopiesByBookId: () =>
+            Promise.resolve(ok([createMockBookCopy({ status: 'AVAILABLE' })])),
+        }),
+      });
+
+      // Act
+      const result = await service.placeAcquisitionHold(input);
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('RESERVATION_LIMIT_EXCEEDED');
+      }
+    });
+  });
+
+  describe('輸送依頼の受領', () => {
+    const inTransit = createMockReservation({
+      status: 'IN_TRANSIT',
+      copyId: createCopyId('copy-1'),
+      pickupLocationId: createServicePointId('sp-central'),
+    });
+
+    it('受取館で受領すると取り置きを開始し、取り置き開始イベントを発行する', async () => {
+      // Arrange
+      const notified = vi.fn().mockResolvedValue(undefined);
+      eventBus.subscribe('ReservationNotified', notified);
+      const markTransitReceived = vi.fn((id: TransitRequest['id'], receivedAt: Date) =>
+        Promise.resolve(ok(createMockTransitRequest({ id, status: 'RECEIVED', receivedAt })))
+      );
+      const updateStatus = vi.fn(
+        (id: ReservationId, status: ReservationStatus, notifiedAt?: Date, expiresAt?: Date) =>
+          Promise.resolve(
+            ok(
+              createMockReservation({
+                id,
+                status,
+                notifiedAt: notifiedAt ?? null,
+                expiresAt: expiresAt ?? null,
+              })
+            )
+          )
+      );
+      reservationRepo = createMockReservationRepository({
+        findById: () => Promise.resolve(ok(inTransit)),
+        markTransitReceived,
+        updateStatus,
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.receiveTransit(createTransitRequestId('transit-1'));
+
+      // Assert
+      expect(markTransitReceived).toHaveBeenCalledWith('transit-1', expect.any(Date));
+      expect(updateStatus).toHaveBeenCalledWith(
+        'reservation-1',
+        'NOTIFIED',
+        expect.any(Date),
+        expect.any(Date)
+      );
+      expect(notified).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'ReservationNotified',
+          reservationId: 'reservation-1',
+          copyId: 'copy-1',
+        })
+      );
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.transitRequest.status).toBe('RECEIVED');
+        expect(result.value.notifiedReservation?.copyId).toBe('copy-1');
+      }
+    });
+
+    it('輸送中に予約がキャンセルされた場合は受取館で次順位の予約者に引き継ぐ', async () => {
+      // Arrange
+      const nextReservation = createMockReservation({
+        id: createReservationId('reservation-2'),
+        userId: createUserId('user-2'),
+        queuePosition: 2,
+        pickupLocationId: createServicePointId('sp-central'),
+      });
+      const assignCopy = vi.fn((id: ReservationId, copyId: CopyId) =>
+        Promise.resolve(ok(createMockReservation({ id, status: 'NOTIFIED', copyId })))
+      );
+      const createTransitRequest = vi.fn();
+      reservationRepo = createMockReservationRepository({
+        findById: () => Promise.resolve(ok({ ...inTransit, status: 'CANCELLED' })),
+        findActiveByBookId: () => Promise.resolve([nextReservation]),
+        assignCopy,
+        createTransitRequest,
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.receiveTransit(createTransitRequestId('transit-1'));
+
+      // Assert
+      expect(assignCopy).toHaveBeenCalledWith('reservation-2', 'copy-1');
+      expect(createTransitRequest).not.toHaveBeenCalled();
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.notifiedReservation?.id).toBe('reservation-2');
+      }
+    });
+
+    it('輸送中に予約がキャンセルされ次順位の予約者がいない場合は蔵書コピーを貸出可能に戻す', async () => {
+      // Arrange
+      const updateCopy = vi.fn((copyId: CopyId, status: BookCopyStatus) =>
+        Promise.resolve(ok(createMockBookCopy({ id: copyId, status })))
+      );
+      reservationRepo = createMockReservationRepository({
+        findById: () => Promise.resolve(ok({ ...inTransit, status: 'CANCELLED' })),
+      });
+      bookRepo = createMockBookRepository({ updateCopy });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.receiveTransit(createTransitRequestId('transit-1'));
+
+      // Assert
+      expect(updateCopy).toHaveBeenCalledWith('copy-1', 'AVAILABLE');
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.notifiedReservation).toBeNull();
+      }
+    });
+
+    it('受領済みの輸送依頼はTRANSIT_ALREADY_RECEIVEDエラー', async () => {
+      // Arrange
+      const markTransitReceived = vi.fn();
+      reservationRepo = createMockReservationRepository({
+        findTransitRequestById: (id) =>
+          Promise.resolve(ok(createMockTransitRequest({ id, status: 'RECEIVED' }))),
+        markTransitReceived,
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.receiveTransit(createTransitRequestId('transit-1'));
+
+      // Assert
+      expect(markTransitReceived).not.toHaveBeenCalled();
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual({
+          type: 'TRANSIT_ALREADY_RECEIVED',
+          transitRequestId: 'transit-1',
+        });
+      }
+    });
+
+    it('存在しない輸送依頼はTRANSIT_NOT_FOUNDエラー', async () => {
+      // Arrange
+      reservationRepo = createMockReservationRepository({
+        findTransitRequestById: (id) =>
+          Promise.resolve(err({ type: 'TRANSIT_NOT_FOUND', transitRequestId: id })),
+      });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.receiveTransit(createTransitRequestId('transit-unknown'));
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('TRANSIT_NOT_FOUND');
+      }
+    });
+
+    it('ステータスを指定して輸送依頼の一覧を取得できる', async () => {
+      // Arrange
+      const transit = createMockTransitRequest();
+      const findTransitRequests = vi.fn(() => Promise.resolve([transit]));
+      reservationRepo = createMockReservationRepository({ findTransitRequests });
+      service = createReservationService(
+        reservationRepo,
+        bookRepo,
+        userRepo,
+        createPassthroughUnitOfWork(),
+        createMockCalendarService(),
+        eventBus,
+        servicePointRepo,
+        loanRepo,
+        fineService
+      );
+
+      // Act
+      const result = await service.getTransitRequests('IN_TRANSIT');
+
+      // Assert
+      expect(findTransitRequests).toHaveBeenCalledWith('IN_TRANSIT');
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toEqual([transit]);
+      }
+    });
+  });
+});
+
+describe('parseReservationLimitsByPatronCategory', () => {
+  it('区分ごとの予約上限を解析し、不正な項目は無視する', () => {
+    expect(
+      parseReservationLimitsByPatronCategory(' student=3, faculty = 10 ,staff=-1,guest,=2')
+    ).toEqual({ student: 3, faculty: 10 });
+  });
+
+  it('空文字列の場合は区分別の上限なし', () => {
+    expect(parseReservationLimitsByPatronCategory('')).toEqual({});
+  });
 });
@@ -1,16 +1,53 @@
 /**
  * ReservationService - 予約管理サービス
  *
- * 予約の作成・キャンセル処理を提供します。
+ * 予約の作成・キャンセル・休止処理と、図書館員による予約キューの管理を提供します。
+ * 予約の作成時は、利用者区分ごとの予約上限・借りている書籍の予約・延滞料金による利用停止を確認します。
+ * 貸出中の蔵書コピーの返却期限・平均貸出日数・取り置きの未受取率から受取可能見込みを算出します。
+ * 休止中の予約は予約キュー内の順番を保持したまま通知の対象外とし、次の予約者に通知します。
+ * 予約キューの手動並べ替えは、操作した職員と理由を履歴に記録します。
+ * 購入リクエストにより受け入れた書籍は、リクエストした利用者のために予約し、すぐに取り置きます。
+ * 返却されたサービスポイントが予約の受取館と異なる場合は輸送依頼を作成し、
+ * 受取館で受領を確認してから予約者に通知します。
+ * 返却された蔵書コピーは返却処理の作業単位内で予約キューの先頭予約者に割り当て、
+ * 返却（LoanReturned）を購読して取り置き開始を通知します。貸出（LoanCreated）を購読して
+ * 借りた利用者の予約を貸出完了にします。予約の登録・取り置き開始はイベントとして発行します。
  */
 
 import type { Result } from '../../shared/result.js';
 import { err, ok } from '../../shared/result.js';
-import type { BookId, ReservationId } from '../../shared/branded-types.js';
+import type {
+  BookId,
+  CopyId,
+  ReservationId,
+  ServicePointId,
+  TransitRequestId,
+  UserId,
+} from '../../shared/branded-types.js';
+import type { UnitOfWork } from '../../shared/unit-of-work.js';
+import type { EventBus } from '../../shared/domain-events.js';
 import type { ReservationRepository } from './reservation-repository.js';
 import type { BookRepository } from '../book/book-repository.js';
 import type { UserRepository } from '../user/user-repository.js';
-import type { Reservation, CreateReservationInput, ReservationError } from './types.js';
+import type { LoanRepository } from '../loan/loan-repository.js';
+import type { FineService } from '../fine/fine-service.js';
+import type { ServicePointRepository } from '../service-point/service-point-repository.js';
+import type { CalendarService } from '../calendar/calendar-service.js';
+import { addOpenDays, toDateKey } from '../calendar/calendar-service.js';
+import { ALWAYS_OPEN_CALENDAR } from '../calendar/types.js';
+import { DEFAULT_LOAN_DURATION_DAYS } from '../loan/types.js';
+import type {
+  Reservation,
+  CreateReservationInput,
+  ReservationError,
+  MoveReservationInput,
+  ReservationQueueChange,
+  ReservationLimitConfig,
+  ReservationWaitEstimate,
+  TransitRequest,
+  TransitRequestStatus,
+} from './types.js';
+import { DEFAULT_RESERVATION_LIMIT_CONFIG } from './types.js';
 
 // ============================================
 // 結果型定義
@@ -20,6 +57,24 @@ import type { Reservation, CreateReservationInput, ReservationError } from './ty
 export interface ProcessReturnedBookResult {
   /** 通知された予約（なければnull） */
   readonly notifiedReservation: Reservation | null;
+  /** 受取館への輸送依頼（返却されたサービスポイントが受取館と異なる場合のみ、なければnull） */
+  readonly transitRequest: TransitRequest | null;
+}
+
+/** 輸送依頼の受領処理結果 */
+export interface ReceiveTransitResult {
+  /** 受領済みとなった輸送依頼 */
+  readonly transitRequest: TransitRequest;
+  /** 取り置きを開始して通知された予約（なければnull） */
+  readonly notifiedReservation: Reservation | null;
+}
+
+/** 貸出による予約完了処理結果 */
+export interface FulfillReservationResult {
+  /** 貸出完了となった予約（なければnull） */
+  readonly fulfilledReservation: Reservation | null;
+  /** 別の蔵書コピーの取り置きを引き継いで通知された予約（なければnull） */
+  readonly notifiedReservation: Reservation | null;
 }
 
 /** 期限切れ予約処理結果 */
@@ -34,9 +89,95 @@ export interface ExpireReservationsResult {
 // 定数
 // ============================================
 
-/** 予約有効期限（日数） */
+/** 予約有効期限（開館日数） */
 const RESERVATION_EXPIRY_DAYS = 7;
 
+/** 1日のミリ秒数 */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 日付形式（YYYY-MM-DD） */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ============================================
+// ヘルパー関数
+// ============================================
+
+/**
+ * YYYY-MM-DD形式の日付をローカル時刻の0時として解析（不正な形式の場合はnull）
+ */
+function parseDateKey(date: string): Date | null {
+  const parsed = new Date(`${date}T00:00:00`);
+  if (!DATE_PATTERN.test(date) || Number.isNaN(parsed.getTime()) || toDateKey(parsed) !== date) {
+    return null;
+  }
+  return parsed;
+}
+
+/**
+ * 利用者区分に適用される予約上限を取得（区分別の上限がなければデフォルトの上限）
+ */
+function getReservationLimit(
+  config: ReservationLimitConfig,
+  patronCategory: string | null
+): number {
+  if (patronCategory !== null && Object.hasOwn(config.limitsByPatronCategory, patronCategory)) {
+    return config.limitsByPatronCategory[patronCategory] ?? config.defaultLimit;
+  }
+  return config.defaultLimit;
+}
+
+/**
+ * 利用者区分ごとの予約上限の設定値を解析
+ * 形式: `区分=上限` をカンマ区切りで列挙（例: `student=3,faculty=10`）。
+ * 上限が0以上の整数でない項目は無視する
+ */
+export function parseReservationLimitsByPatronCategory(value: string): Record<string, number> {
+  const limits: Record<string, number> = {};
+  for (const entry of value.split(',')) {
+    const [category = '', limit = ''] = entry.split('=').map((part) => part.trim());
+    if (category !== '' && /^\d+$/.test(limit)) {
+      limits[category] = parseInt(limit, 10);
+    }
+  }
+  return limits;
+}
+
+/**
+ * 蔵書コピーが次の予約者に割り当てられるまでの見込み日時（ミリ秒）を算出
+ * 返却待ちの蔵書コピーを、先に待っている予約者に空いた順に割り当てていく。
+ * 各予約者は1サイクル（受け取れば平均貸出日数、受け取らなければ取り置き期間）蔵書コピーを占有する
+ * @param copyFreeAt - 蔵書コピーごとの次に空く見込み日時（ミリ秒）
+ * @param reservationsAhead - 先に待っている予約数
+ * @param cycleMs - 1人の予約者が蔵書コピーを占有する見込み期間（ミリ秒）
+ * @returns 見込み日時（蔵書コピーがない場合はnull）
+ */
+function estimateAllocationTime(
+  copyFreeAt: readonly number[],
+  reservationsAhead: number,
+  cycleMs: number
+): number | null {
+  if (copyFreeAt.length === 0) {
+    return null;
+  }
+
+  const freeAt = [...copyFreeAt];
+  for (let i = 0; i < reservationsAhead; i++) {
+    const earliestIndex = freeAt.indexOf(Math.min(...freeAt));
+    freeAt[earliestIndex] = (freeAt[earliestIndex] ?? 0) + cycleMs;
+  }
+  return Math.min(...freeAt);
+}
+
+/**
+ * 通知の対象となる予約か判定（予約待ちで、休止中でないもの）
+ */
+function isNotifiable(reservation: Reservation, now: Date): boolean {
+  return (
+    reservation.status === 'PENDING' &&
+    (reservation.suspendedUntil === null || reservation.suspendedUntil <= now)
+  );
+}
+
 // ============================================
 // サービスインターフェース
 // ============================================
@@ -45,33 +186,196 @@ const RESERVATION_EXPIRY_DAYS = 7;
 export interface ReservationService {
   /**
    * 新しい予約を作成
-   * 貸出中の書籍に対してのみ予約可能
+   * 貸出中の書籍に対してのみ予約可能。
+   * 延滞料金により利用停止中の利用者、予約上限に達した利用者、その書籍を借りている利用者は予約できない
+   * 登録後に予約登録イベントを発行する（自動リコールは貸出管理側で購読して行う）
    * @param input - 予約作成入力（userId, bookId）
    * @returns 作成された予約またはエラー
    */
   createReservation(input: CreateReservationInput): Promise<Result<Reservation, ReservationError>>;
 
+  /**
+   * 購入リクエストにより受け入れた書籍を、リクエストした利用者のために予約
+   * 貸出可能な蔵書コピーがあっても予約でき、その場合は蔵書コピーをすぐに取り置いて通知する。
+   * 利用停止・予約上限・重複予約などのチェックは通常の予約と同様に行う
+   * @param input - 予約作成入力（userId, bookId）
+   * @returns 作成された予約（取り置いた場合は取り置き中の予約）またはエラー
+   */
+  placeAcquisitionHold(
+    input: CreateReservationInput
+  ): Promise<Result<Reservation, ReservationError>>;
+
   /**
    * 返却された書籍の予約処理
-   * 予約キューの先頭予約者に通知し、有効期限を設定
+   * 予約キューの先頭予約者に通知し、有効期限を設定する。
+   * 返却された蔵書コピーは取り置き棚に確保し（RESERVED）、通知した予約に割り当てる。
+   * 返却されたサービスポイントが受取館と異なる場合は通知せず、受取館への輸送依頼を作成する
    * @param bookId - 返却された書籍ID
-   * @returns 通知された予約情報
+   * @param copyId - 返却された蔵書コピーID
+   * @param servicePointId - 返却を受け付けたサービスポイント（不明な場合はnull）
+   * @returns 通知された予約と輸送依頼
    */
-  processReturnedBook(bookId: BookId): Promise<Result<ProcessReturnedBookResult, never>>;
+  processReturnedBook(
+    bookId: BookId,
+    copyId: CopyId,
+    servicePointId?: ServicePointId | null
+  ): Promise<Result<ProcessReturnedBookResult, never>>;
+
+  /**
+   * 返却された蔵書コピーを予約キューの先頭予約者に割り当てる
+   * 返却処理の作業単位内で呼び出し、返却と取り置きの確保を1つのトランザクションで行う。
+   * 取り置き開始イベントは発行せず、コミット後の返却イベント（LoanReturned）の購読時に発行する
+   * @param bookId - 返却された書籍ID
+   * @param copyId - 返却された蔵書コピーID
+   * @param servicePointId - 返却を受け付けたサービスポイント（不明な場合はnull）
+   * @returns 通知対象の予約と輸送依頼
+   */
+  allocateReturnedCopy(
+    bookId: BookId,
+    copyId: CopyId,
+    servicePointId?: ServicePointId | null
+  ): Promise<Result<ProcessReturnedBookResult, never>>;
+
+  /**
+   * 貸出による予約の完了処理
+   * 借りた利用者の同一書籍のアクティブな予約を貸出完了にする。
+   * 別の蔵書コピーを取り置き中だった場合は、そのコピーを次順位者に引き継ぐ
+   * @param userId - 借りた利用者ID
+   * @param bookId - 貸し出された書籍ID
+   * @param copyId - 貸し出された蔵書コピーID
+   * @returns 処理結果またはエラー
+   */
+  fulfillReservationForLoan(
+    userId: UserId,
+    bookId: BookId,
+    copyId: CopyId
+  ): Promise<Result<FulfillReservationResult, ReservationError>>;
 
   /**
    * 有効期限切れ予約の処理
-   * 期限切れ予約をEXPIRED状態に更新し、次順位者に通知
+   * 期限切れ予約をEXPIRED状態に更新し、次順位者に通知。
+   * 取り置き中の蔵書コピーは次順位者に引き継ぎ、次順位者がいなければ貸出可能に戻す
+   * @param now - 基準日時（省略時は現在時刻）
    * @returns 処理結果（期限切れ数、次順位通知リスト）
    */
-  expireOverdueReservations(): Promise<Result<ExpireReservationsResult, never>>;
+  expireOverdueReservations(now?: Date): Promise<Result<ExpireReservationsResult, never>>;
 
   /**
    * 予約をキャンセル
+   * 取り置き中の蔵書コピーは次順位者に引き継ぎ、次順位者がいなければ貸出可能に戻す
    * @param reservationId - キャンセルする予約ID
    * @returns 成功またはエラー
    */
   cancelReservation(reservationId: ReservationId): Promise<Result<void, ReservationError>>;
+
+  /**
+   * 取り置き棚の回収リストを取得
+   * 指定日に有効期限が切れ、取り置き棚から書架に戻す必要がある取り置きの一覧
+   * @param date - 対象日（YYYY-MM-DD）
+   * @returns 期限切れの取り置き一覧またはエラー
+   */
+  getHoldShelfPullList(date: string): Promise<Result<Reservation[], ReservationError>>;
+
+  /**
+   * 予約を休止
+   * 休止期限まで予約キュー内の順番を保持したまま通知の対象外とする（予約待ちの予約のみ）
+   * @param reservationId - 予約ID
+   * @param until - 休止期限（YYYY-MM-DD、この日から通知の対象に戻る）
+   * @returns 更新された予約またはエラー
+   */
+  suspendReservation(
+    reservationId: ReservationId,
+    until: string
+  ): Promise<Result<Reservation, ReservationError>>;
+
+  /**
+   * 予約の休止を解除
+   * @param reservationId - 予約ID
+   * @returns 更新された予約またはエラー
+   */
+  resumeReservation(reservationId: ReservationId): Promise<Result<Reservation, ReservationError>>;
+
+  /**
+   * 利用者の予約待ちの予約をすべて休止
+   * @param userId - 利用者ID
+   * @param until - 休止期限（YYYY-MM-DD、この日から通知の対象に戻る）
+   * @returns 休止した予約一覧またはエラー
+   */
+  suspendUserReservations(
+    userId: UserId,
+    until: string
+  ): Promise<Result<Reservation[], ReservationError>>;
+
+  /**
+   * 利用者の休止中の予約の休止をすべて解除
+   * @param userId - 利用者ID
+   * @returns 休止を解除した予約一覧またはエラー
+   */
+  resumeUserReservations(userId: UserId): Promise<Result<Reservation[], ReservationError>>;
+
+  /**
+   * 書籍の予約キューを取得
+   * @param bookId - 書籍ID
+   * @returns アクティブな予約一覧（予約キューの順）またはエラー
+   */
+  getReservationQueue(bookId: BookId): Promise<Result<Reservation[], ReservationError>>;
+
+  /**
+   * 予約キュー内の順番を移動（予約待ちの予約のみ）
+   * 移動後の予約キューは1から連番に振り直し、操作した職員と理由を履歴に記録する
+   * @param reservationId - 予約ID
+   * @param input - 移動入力（移動先の順番、職員ID、理由）
+   * @returns 移動した予約またはエラー
+   */
+  moveReservation(
+    reservationId: ReservationId,
+    input: MoveReservationInput
+  ): Promise<Result<Reservation, ReservationError>>;
+
+  /**
+   * 予約キューの順番を1から連番に振り直す
+   * キャンセル・期限切れで空いた順番を詰める（並び順は変更しない）
+   * @param bookId - 書籍ID
+   * @returns 振り直した予約キューまたはエラー
+   */
+  renumberQueue(bookId: BookId): Promise<Result<Reservation[], ReservationError>>;
+
+  /**
+   * 書籍の予約キューの手動並べ替えの履歴を取得
+   * @param bookId - 書籍ID
+   * @returns 予約キュー変更履歴（新しい順）またはエラー
+   */
+  getQueueChanges(bookId: BookId): Promise<Result<ReservationQueueChange[], ReservationError>>;
+
+  /**
+   * 予約の受取可能見込みを取得
+   * 貸出中の蔵書コピーの返却期限を起点に、先に待っている予約者が平均貸出日数ずつ
+   * （受け取らない場合は取り置き期間だけ）蔵書コピーを占有するものとして算出する概算。
+   * 取り置き中の予約は取り置きの開始日時、輸送中の予約は見込みなし（null）とする
+   * @param reservationId - 予約ID
+   * @returns 受取可能見込みまたはエラー（アクティブでない予約はINVALID_RESERVATION_STATUS）
+   */
+  estimateWait(
+    reservationId: ReservationId
+  ): Promise<Result<ReservationWaitEstimate, ReservationError>>;
+
+  /**
+   * 輸送依頼の一覧を取得
+   * @param status - 絞り込むステータス（省略時はすべて）
+   * @returns 輸送依頼一覧（作成日時順）
+   */
+  getTransitRequests(status?: TransitRequestStatus): Promise<Result<TransitRequest[], never>>;
+
+  /**
+   * 輸送依頼の蔵書コピーを受取館で受領する
+   * 予約が輸送中のままであれば取り置きを開始して予約者に通知する。
+   * 輸送中に予約がキャンセル・貸出完了となった場合は、受取館で次順位の予約者に引き継ぐ
+   * @param transitRequestId - 輸送依頼ID
+   * @returns 受領処理結果またはエラー
+   */
+  receiveTransit(
+    transitRequestId: TransitRequestId
+  ): Promise<Result<ReceiveTransitResult, ReservationError>>;
 }
 
 // ============================================
@@ -81,16 +385,31 @@ export interface ReservationService {
 /** ReservationService 実装を作成 */
 export function createReservationService(
   reservationRepository: ReservationRepository,
-  bookRepository: Pick<BookRepository, 'findById' | 'findCopiesByBookId'>,
-  userRepository: Pick<UserRepository, 'findById'>
+  bookRepository: Pick<BookRepository, 'findById' | 'findCopiesByBookId' | 'updateCopy'>,
+  userRepository: Pick<UserRepository, 'findById'>,
+  unitOfWork: UnitOfWork,
+  calendarService: Pick<CalendarService, 'getOpeningCalendar'>,
+  eventBus: EventBus,
+  servicePointRepository: Pick<ServicePointRepository, 'findById'>,
+  loanRepository: Pick<
+    LoanRepository,
+    'findActiveByUserId' | 'findActiveByMultipleCopyIds' | 'findAverageLoanDays'
+  >,
+  fineService: Pick<FineService, 'checkBorrowingEligibility'>,
+  limitConfig: ReservationLimitConfig = DEFAULT_RESERVATION_LIMIT_CONFIG
 ): ReservationService {
   /**
-   * 予約者に通知を送信し、有効期限を設定
+   * 予約者に通知を送信し、有効期限を設定（休館日は有効期限の日数に含めない）
+   * 蔵書コピーが指定された場合は取り置き棚に確保して予約に割り当てる
    */
-  async function notifyReservation(reservation: Reservation): Promise<Reservation | null> {
+  async function notifyReservation(
+    reservation: Reservation,
+    copyId: CopyId | null
+  ): Promise<Reservation | null> {
     const notifiedAt = new Date();
-    const expiresAt = new Date(notifiedAt);
-    expiresAt.setDate(expiresAt.getDate() + RESERVATION_EXPIRY_DAYS);
+    const calendarResult = await calendarService.getOpeningCalendar();
+    const calendar = calendarResult.success ? calendarResult.value : ALWAYS_OPEN_CALENDAR;
+    const expiresAt = addOpenDays(calendar, notifiedAt, RESERVATION_EXPIRY_DAYS);
 
     const updateResult = await reservationRepository.updateStatus(
       reservation.id,
@@ -98,100 +417,451 @@ export function createReservationService(
       notifiedAt,
       expiresAt
     );
-
-    if (updateResult.success) {
+    if (!updateResult.success) {
+      return null;
+    }
+    if (copyId === null) {
       return updateResult.value;
     }
+
+    const assignResult = await reservationRepository.assignCopy(reservation.id, copyId);
+    if (!assignResult.success) {
+      return null;
+    }
+    const copyResult = await bookRepository.updateCopy(copyId, 'RESERVED');
+    if (!copyResult.success) {
+      return null;
+    }
+    return assignResult.value;
+  }
+
+  /**
+   * 蔵書コピーを予約に割り当てる
+   * 蔵書コピーのあるサービスポイントが受取館と異なる場合は、取り置き棚に確保したうえで
+   * 予約を輸送中にして受取館への輸送依頼を作成する（通知は受取館での受領後に行う）
+   * @param currentLocationId - 蔵書コピーのあるサービスポイント（不明な場合はnull）
+   */
+  async function allocateCopy(
+    reservation: Reservation,
+    copyId: CopyId,
+    currentLocationId: ServicePointId | null
+  ): Promise<ProcessReturnedBookResult> {
+    const { pickupLocationId } = reservation;
+    if (
+      pickupLocationId === null ||
+      currentLocationId === null ||
+      pickupLocationId === currentLocationId
+    ) {
+      const notifiedReservation = await notifyReservation(reservation, copyId);
+      return { notifiedReservation, transitRequest: null };
+    }
+
+    const updateResult = await reservationRepository.updateStatus(reservation.id, 'IN_TRANSIT');
+    if (!updateResult.success) {
+      return { notifiedReservation: null, transitRequest: null };
+    }
+    const assignResult = await reservationRepository.assignCopy(reservation.id, copyId);
+    if (!assignResult.success) {
+      return { notifiedReservation: null, transitRequest: null };
+    }
+    const copyResult = await bookRepository.updateCopy(copyId, 'RESERVED');
+    if (!copyResult.success) {
+      return { notifiedReservation: null, transitRequest: null };
+    }
+
+    const transitRequest = await reservationRepository.createTransitRequest({
+      copyId,
+      reservationId: reservation.id,
+      fromServicePointId: currentLocationId,
+      toServicePointId: pickupLocationId,
+    });
+    return { notifiedReservation: null, transitRequest };
+  }
+
+  /**
+   * 取り置きを解除し、蔵書コピーを次順位の予約者に引き継ぐ（休止中の予約は飛ばす）
+   * 蔵書コピーは解除した予約の受取館にあるものとし、次順位の受取館と異なれば輸送する。
+   * 次順位の予約者がいなければ蔵書コピーを貸出可能に戻す
+   * @returns 引き継いで通知した予約（なければnull）
+   */
+  async function releaseHold(
+    reservation: Reservation,
+    copyId: CopyId,
+    now: Date = new Date()
+  ): Promise<Reservation | null> {
+    const activeReservations = await reservationRepository.findActiveByBookId(reservation.bookId);
+    const nextPending = activeReservations.find(
+      (r) => isNotifiable(r, now) && r.id !== reservation.id
+    );
+
+    if (nextPending != null) {
+      const allocation = await allocateCopy(nextPending, copyId, reservation.pickupLocationId);
+      return allocation.notifiedReservation;
+    }
+
+    await bookRepository.updateCopy(copyId, 'AVAILABLE');
     return null;
   }
 
-  return {
-    async createReservation(
-      input: CreateReservationInput
-    ): Promise<Result<Reservation, ReservationError>> {
-      const { userId, bookId } = input;
+  /**
+   * 取り置き開始イベントを発行（作業単位のコミット後に呼び出すこと）
+   */
+  /**
+   * 返却された蔵書コピーを先頭の予約者（PENDING状態で休止中でないもの）に割り当てる
+   * 作業単位内で呼び出すこと
+   */
+  async function allocateToQueue(
+    bookId: BookId,
+    copyId: CopyId,
+    servicePointId: ServicePointId | null
+  ): Promise<ProcessReturnedBookResult> {
+    // 1. 該当書籍のアクティブな予約一覧を取得（FIFO順）
+    const reservations = await reservationRepository.findActiveByBookId(bookId);
 
-      // 1. 利用者の存在確認
-      const userResult = await userRepository.findById(userId);
-      if (!userResult.success) {
-        return err({
-          type: 'USER_NOT_FOUND',
-          userId: userId,
-        });
-      }
+    // 2. 先頭の予約者を選ぶ（予約がなければ通知対象なし）
+    const now = new Date();
+    const firstPendingReservation = reservations.find((r) => isNotifiable(r, now));
+    if (firstPendingReservation == null) {
+      return { notifiedReservation: null, transitRequest: null };
+    }
 
-      // 2. 書籍の存在確認
-      const bookResult = await bookRepository.findById(bookId);
-      if (!bookResult.success) {
-        return err({
-          type: 'BOOK_NOT_FOUND',
-          bookId: bookId,
-        });
+    // 3. 返却された蔵書コピーを取り置き棚に確保し、受取館が異なれば輸送依頼を作成
+    return allocateCopy(firstPendingReservation, copyId, servicePointId);
+  }
+
+  async function publishNotified(reservation: Reservation | null): Promise<void> {
+    if (reservation === null) {
+      return;
+    }
+
+    await eventBus.publish({
+      type: 'ReservationNotified',
+      reservationId: reservation.id,
+      userId: reservation.userId,
+      bookId: reservation.bookId,
+      copyId: reservation.copyId,
+      expiresAt: reservation.expiresAt,
+      occurredAt: new Date(),
+    });
+  }
+
+  /**
+   * 休止期限を検証し、日時に変換（今日より後の日付のみ指定できる）
+   */
+  function validateSuspendUntil(until: string): Result<Date, ReservationError> {
+    const suspendedUntil = parseDateKey(until);
+    if (suspendedUntil === null) {
+      return err({
+        type: 'VALIDATION_ERROR',
+        field: 'until',
+        message: '休止期限はYYYY-MM-DD形式で指定してください',
+      });
+    }
+    if (until <= toDateKey(new Date())) {
+      return err({
+        type: 'VALIDATION_ERROR',
+        field: 'until',
+        message: '休止期限は明日以降の日付を指定してください',
+      });
+    }
+    return ok(suspendedUntil);
+  }
+
+  /**
+   * 複数の予約の休止期限をまとめて更新（1件でも失敗した場合はすべて取り消す）
+   */
+  async function updateSuspensions(
+    reservations: readonly Reservation[],
+    suspendedUntil: Date | null
+  ): Promise<Result<Reservation[], ReservationError>> {
+    return unitOfWork.run<Reservation[], ReservationError>(async () => {
+      const updated: Reservation[] = [];
+      for (const reservation of reservations) {
+        const result = await reservationRepository.updateSuspension(reservation.id, suspendedUntil);
+        if (!result.success) {
+          return result;
+        }
+        updated.push(result.value);
       }
+      return ok(updated);
+    });
+  }
 
-      // 3. 同一ユーザーによる同一書籍への重複予約チェック
-      const hasExisting = await reservationRepository.hasActiveReservation(userId, bookId);
-      if (hasExisting) {
-        return err({
-          type: 'ALREADY_RESERVED',
-          userId: userId,
-          bookId: bookId,
-        });
+  /**
+   * 予約キューの順番を並び順どおり1から連番に更新（作業単位の中で呼び出すこと）
+   * @returns 更新後の予約キュー
+   */
+  async function applyQueueOrder(
+    queue: readonly Reservation[]
+  ): Promise<Result<Reservation[], ReservationError>> {
+    const renumbered: Reservation[] = [];
+    for (const [index, reservation] of queue.entries()) {
+      const queuePosition = index + 1;
+      if (reservation.queuePosition === queuePosition) {
+        renumbered.push(reservation);
+        continue;
+      }
+      const result = await reservationRepository.updateQueuePosition(reservation.id, queuePosition);
+      if (!result.success) {
+        return result;
       }
+      renumbered.push(result.value);
+    }
+    return ok(renumbered);
+  }
 
-      // 4. 書籍の蔵書コピーの状態を確認（すべて貸出可能なら予約不可）
-      const copiesResult = await bookRepository.findCopiesByBookId(bookId);
-      if (!copiesResult.success) {
+  /**
+   * 予約の登録可否を確認して予約を作成する（予約登録イベントの発行は呼び出し側で行う）
+   * @param allowAvailableCopy - 貸出可能な蔵書コピーがある書籍の予約を許可するか
+   * @returns 作成された予約と、貸出可能な蔵書コピーのID（なければnull）
+   */
+  async function placeReservation(
+    input: CreateReservationInput,
+    allowAvailableCopy: boolean
+  ): Promise<
+    Result<{ reservation: Reservation; availableCopyId: CopyId | null }, ReservationError>
+  > {
+    const { userId, bookId, pickupLocationId = null } = input;
+
+    // 1. 利用者の存在確認
+    const userResult = await userRepository.findById(userId);
+    if (!userResult.success) {
+      return err({
+        type: 'USER_NOT_FOUND',
+        userId: userId,
+      });
+    }
+    const user = userResult.value;
+
+    // 2. 未払いの延滞料金が閾値以上の利用者は利用停止中のため予約不可
+    const eligibilityResult = await fineService.checkBorrowingEligibility(userId);
+    if (!eligibilityResult.success) {
+      return err({
+        type: 'PATRON_BLOCKED',
+        userId: userId,
+        balance: eligibilityResult.error.balance,
+        threshold: eligibilityResult.error.threshold,
+      });
+    }
+
+    // 3. 利用者区分ごとの予約上限チェック（休止中の予約も数える）
+    const limit = getReservationLimit(limitConfig, user.patronCategory);
+    const activeReservationsCount = await reservationRepository.countActiveByUserId(userId);
+    if (activeReservationsCount >= limit) {
+      return err({
+        type: 'RESERVATION_LIMIT_EXCEEDED',
+        userId: userId,
+        limit,
+        currentCount: activeReservationsCount,
+      });
+    }
+
+    // 4. 書籍の存在確認
+    const bookResult = await bookRepository.findById(bookId);
+    if (!bookResult.success) {
+      return err({
+        type: 'BOOK_NOT_FOUND',
+        bookId: bookId,
+      });
+    }
+
+    // 5. 受取館の確認（有効なサービスポイントのみ指定できる）
+    if (pickupLocationId !== null) {
+      const servicePointResult = await servicePointRepository.findById(pickupLocationId);
+      if (!servicePointResult.success) {
         return err({
-          type: 'BOOK_NOT_FOUND',
-          bookId: bookId,
+          type: 'SERVICE_POINT_NOT_FOUND',
+          servicePointId: pickupLocationId,
         });
       }
-      const copies = copiesResult.value;
-
-      // すべてのコピーが AVAILABLE なら予約不可（貸出可能な本は予約できない）
-      const hasAvailableCopy = copies.some((copy) => copy.status === 'AVAILABLE');
-      if (hasAvailableCopy) {
+      if (!servicePointResult.value.active) {
         return err({
-          type: 'BOOK_AVAILABLE',
-          bookId: bookId,
+          type: 'VALIDATION_ERROR',
+          field: 'pickupLocationId',
+          message: '受取館に指定したサービスポイントは現在利用できません',
         });
       }
+    }
 
-      // 5. 予約キュー内の順番を計算（既存の予約数 + 1）
-      const currentQueueCount = await reservationRepository.countActiveByBookId(bookId);
-      const queuePosition = currentQueueCount + 1;
+    // 6. 同一ユーザーによる同一書籍への重複予約チェック
+    const hasExisting = await reservationRepository.hasActiveReservation(userId, bookId);
+    if (hasExisting) {
+      return err({
+        type: 'ALREADY_RESERVED',
+        userId: userId,
+        bookId: bookId,
+      });
+    }
+
+    // 7. 書籍の蔵書コピーの状態を確認（すべて貸出可能なら予約不可）
+    const copiesResult = await bookRepository.findCopiesByBookId(bookId);
+    if (!copiesResult.success) {
+      return err({
+        type: 'BOOK_NOT_FOUND',
+        bookId: bookId,
+      });
+    }
+    const copies = copiesResult.value;
+
+    // 利用者がこの書籍のいずれかの蔵書コピーを借りている場合は予約不可
+    const activeLoans = await loanRepository.findActiveByUserId(userId);
+    const isBorrowing = activeLoans.some((loan) =>
+      copies.some((copy) => copy.id === loan.bookCopyId)
+    );
+    if (isBorrowing) {
+      return err({
+        type: 'BOOK_ALREADY_ON_LOAN',
+        userId: userId,
+        bookId: bookId,
+      });
+    }
 
-      // 6. 予約を作成
-      const reservationResult = await reservationRepository.create(input, queuePosition);
+    // 貸出可能なコピーがあれば予約不可（貸出可能な本は予約できない）
+    const availableCopy = copies.find((copy) => copy.status === 'AVAILABLE');
+    if (availableCopy !== undefined && !allowAvailableCopy) {
+      return err({
+        type: 'BOOK_AVAILABLE',
+        bookId: bookId,
+      });
+    }
 
+    // 8. 予約キューをロックして順番を計算し、予約を作成（キューの末尾 = 最大の順番 + 1）
+    //    取消・期限切れで抜けた順番は詰めないため、予約数 + 1 では既存の順番と重複しうる
+    //    同じ書籍への同時の予約で順番が重複しないよう、作成までを1つの作業単位で行う
+    const reservationResult = await unitOfWork.run(async () => {
+      await reservationRepository.lockQueue(bookId);
+      const activeReservations = await reservationRepository.findActiveByBookId(bookId);
+      const queuePosition =
+        activeReservations.reduce(
+          (max, reservation) => Math.max(max, reservation.queuePosition),
+          0
+        ) + 1;
+      return reservationRepository.create(input, queuePosition);
+    });
+    if (!reservationResult.success) {
       return reservationResult;
+    }
+
+    return ok({
+      reservation: reservationResult.value,
+      availableCopyId: availableCopy?.id ?? null,
+    });
+  }
+
+  /**
+   * 予約登録イベントを発行（購読側の処理の成否は予約結果に影響しない）
+   */
+  async function publishPlaced(reservation: Reservation): Promise<void> {
+    await eventBus.publish({
+      type: 'ReservationPlaced',
+      reservationId: reservation.id,
+      userId: reservation.userId,
+      bookId: reservation.bookId,
+      occurredAt: new Date(),
+    });
+  }
+
+  const service: ReservationService = {
+    async createReservation(
+      input: CreateReservationInput
+    ): Promise<Result<Reservation, ReservationError>> {
+      const result = await placeReservation(input, false);
+      if (!result.success) {
+        return result;
+      }
+
+      // 10. 予約登録イベントを発行
+      await publishPlaced(result.value.reservation);
+      return ok(result.value.reservation);
     },
 
-    async processReturnedBook(bookId: BookId): Promise<Result<ProcessReturnedBookResult, never>> {
-      // 1. 該当書籍のアクティブな予約一覧を取得（FIFO順）
-      const reservations = await reservationRepository.findActiveByBookId(bookId);
+    async placeAcquisitionHold(
+      input: CreateReservationInput
+    ): Promise<Result<Reservation, ReservationError>> {
+      const result = await placeReservation(input, true);
+      if (!result.success) {
+        return result;
+      }
+      const { reservation, availableCopyId } = result.value;
 
-      // 2. 予約がなければ通知対象なし
-      if (reservations.length === 0) {
-        return ok({ notifiedReservation: null });
+      // 貸出可能な蔵書コピーがなければ通常の予約と同様に予約キューで待つ
+      if (availableCopyId === null) {
+        await publishPlaced(reservation);
+        return ok(reservation);
       }
 
-      // 3. 先頭の予約者（PENDING状態のもの）に通知
-      const firstPendingReservation = reservations.find((r) => r.status === 'PENDING');
-      if (firstPendingReservation == null) {
-        return ok({ notifiedReservation: null });
+      // 受け入れた蔵書コピーをすぐに取り置く（受け入れ直後で所在が未確定のため輸送依頼は作成しない）
+      const notifyResult = await unitOfWork.run(async () =>
+        ok(await notifyReservation(reservation, availableCopyId))
+      );
+      const notifiedReservation = notifyResult.success ? notifyResult.value : null;
+      await publishNotified(notifiedReservation);
+      return ok(notifiedReservation ?? reservation);
+    },
+
+    async processReturnedBook(
+      bookId: BookId,
+      copyId: CopyId,
+      servicePointId: ServicePointId | null = null
+    ): Promise<Result<ProcessReturnedBookResult, never>> {
+      const result = await unitOfWork.run(async () =>
+        ok(await allocateToQueue(bookId, copyId, servicePointId))
+      );
+
+      if (result.success) {
+        await publishNotified(result.value.notifiedReservation);
       }
+      return result;
+    },
+
+    async allocateReturnedCopy(
+      bookId: BookId,
+      copyId: CopyId,
+      servicePointId: ServicePointId | null = null
+    ): Promise<Result<ProcessReturnedBookResult, never>> {
+      return ok(await allocateToQueue(bookId, copyId, servicePointId));
+    },
 
-      // 4. 通知処理
-      const notifiedReservation = await notifyReservation(firstPendingReservation);
+    async fulfillReservationForLoan(
+      userId: UserId,
+      bookId: BookId,
+      copyId: CopyId
+    ): Promise<Result<FulfillReservationResult, ReservationError>> {
+      const result = await unitOfWork.run<FulfillReservationResult, ReservationError>(async () => {
+        // 1. 借りた利用者の同一書籍のアクティブな予約を取得
+        const reservations = await reservationRepository.findActiveByBookId(bookId);
+        const reservation = reservations.find((r) => r.userId === userId);
+        if (reservation == null) {
+          return ok({ fulfilledReservation: null, notifiedReservation: null });
+        }
+
+        // 2. FULFILLEDステータスに更新
+        const updateResult = await reservationRepository.updateStatus(reservation.id, 'FULFILLED');
+        if (!updateResult.success) {
+          return err(updateResult.error);
+        }
 
-      return ok({ notifiedReservation });
+        // 3. 別の蔵書コピーを取り置き中だった場合は次順位予約者に引き継ぐ（いなければ貸出可能に戻す）
+        const heldCopyId = reservation.status === 'NOTIFIED' ? reservation.copyId : null;
+        const notifiedReservation =
+          heldCopyId !== null && heldCopyId !== copyId
+            ? await releaseHold(reservation, heldCopyId)
+            : null;
+
+        return ok({ fulfilledReservation: updateResult.value, notifiedReservation });
+      });
+
+      if (result.success) {
+        await publishNotified(result.value.notifiedReservation);
+      }
+      return result;
     },
 
-    async expireOverdueReservations(): Promise<Result<ExpireReservationsResult, never>> {
+    async expireOverdueReservations(
+      now: Date = new Date()
+    ): Promise<Result<ExpireReservationsResult, never>> {
       // 1. 有効期限切れの予約を取得
-      const expiredReservations = await reservationRepository.findExpiredReservations();
+      const expiredReservations = await reservationRepository.findExpiredReservations(now);
 
       // 2. 期限切れ予約がなければ終了
       if (expiredReservations.length === 0) {
@@ -204,27 +874,43 @@ export function createReservationService(
       const nextNotifiedReservations: Reservation[] = [];
       const processedBookIds = new Set<string>();
 
-      // 3. 各期限切れ予約を処理
+      // 3. 各期限切れ予約を処理（期限切れ更新と次順位者への通知を1つの作業単位とする）
       for (const reservation of expiredReservations) {
-        // EXPIRED状態に更新
-        await reservationRepository.updateStatus(reservation.id, 'EXPIRED');
-
-        // 同一書籍の次順位予約者に通知（書籍ごとに1回のみ）
-        if (!processedBookIds.has(reservation.bookId)) {
+        const { copyId } = reservation;
+        const notifyNext = !processedBookIds.has(reservation.bookId);
+        if (copyId === null) {
           processedBookIds.add(reservation.bookId);
+        }
+
+        const notifiedResult = await unitOfWork.run(async () => {
+          // EXPIRED状態に更新
+          await reservationRepository.updateStatus(reservation.id, 'EXPIRED');
+
+          // 取り置き中の蔵書コピーは次順位予約者に引き継ぐ（取り置きごとに1件）
+          if (copyId !== null) {
+            return ok(await releaseHold(reservation, copyId, now));
+          }
+
+          // 同一書籍の次順位予約者に通知（書籍ごとに1回のみ）
+          if (!notifyNext) {
+            return ok(null);
+          }
 
           // 次の予約者を取得
           const activeReservations = await reservationRepository.findActiveByBookId(
             reservation.bookId
           );
-          const nextPending = activeReservations.find((r) => r.status === 'PENDING');
+          const nextPending = activeReservations.find((r) => isNotifiable(r, now));
 
-          if (nextPending != null) {
-            const notified = await notifyReservation(nextPending);
-            if (notified != null) {
-              nextNotifiedReservations.push(notified);
-            }
+          if (nextPending == null) {
+            return ok(null);
           }
+          return ok(await notifyReservation(nextPending, null));
+        });
+
+        if (notifiedResult.success && notifiedResult.value != null) {
+          nextNotifiedReservations.push(notifiedResult.value);
+          await publishNotified(notifiedResult.value);
         }
       }
 
@@ -235,19 +921,416 @@ export function createReservationService(
     },
 
     async cancelReservation(reservationId: ReservationId): Promise<Result<void, ReservationError>> {
+      const result = await unitOfWork.run<Reservation | null, ReservationError>(async () => {
+        // 1. 予約の存在確認
+        const reservationResult = await reservationRepository.findById(reservationId);
+        if (!reservationResult.success) {
+          return err(reservationResult.error);
+        }
+        const reservation = reservationResult.value;
+
+        // 2. CANCELLEDステータスに更新
+        const updateResult = await reservationRepository.updateStatus(reservationId, 'CANCELLED');
+        if (!updateResult.success) {
+          return err(updateResult.error);
+        }
+
+        // 3. 取り置き中の蔵書コピーを次順位予約者に引き継ぐ（いなければ貸出可能に戻す）
+        if (reservation.status === 'NOTIFIED' && reservation.copyId !== null) {
+          return ok(await releaseHold(reservation, reservation.copyId));
+        }
+
+        return ok(null);
+      });
+
+      if (!result.success) {
+        return result;
+      }
+      await publishNotified(result.value);
+      return ok(undefined);
+    },
+
+    async getHoldShelfPullList(date: string): Promise<Result<Reservation[], ReservationError>> {
+      // 1. 対象日の形式チェック
+      const from = parseDateKey(date);
+      if (from === null) {
+        return err({
+          type: 'VALIDATION_ERROR',
+          field: 'date',
+          message: '対象日はYYYY-MM-DD形式で指定してください',
+        });
+      }
+
+      // 2. 対象日中に有効期限が切れた取り置きを取得
+      const to = new Date(from);
+      to.setDate(to.getDate() + 1);
+      const holds = await reservationRepository.findExpiredHolds(from, to);
+
+      return ok(holds);
+    },
+
+    async suspendReservation(
+      reservationId: ReservationId,
+      until: string
+    ): Promise<Result<Reservation, ReservationError>> {
+      // 1. 休止期限のチェック
+      const suspendedUntil = validateSuspendUntil(until);
+      if (!suspendedUntil.success) {
+        return suspendedUntil;
+      }
+
+      // 2. 予約の存在確認
+      const reservationResult = await reservationRepository.findById(reservationId);
+      if (!reservationResult.success) {
+        return reservationResult;
+      }
+      const reservation = reservationResult.value;
+
+      // 3. 予約待ちの予約のみ休止できる（取り置き中の予約は休止できない）
+      if (reservation.status !== 'PENDING') {
+        return err({
+          type: 'INVALID_RESERVATION_STATUS',
+          reservationId,
+          status: reservation.status,
+        });
+      }
+
+      // 4. 休止期限を設定（予約キュー内の順番は変更しない）
+      return reservationRepository.updateSuspension(reservationId, suspendedUntil.value);
+    },
+
+    async resumeReservation(
+      reservationId: ReservationId
+    ): Promise<Result<Reservation, ReservationError>> {
       // 1. 予約の存在確認
       const reservationResult = await reservationRepository.findById(reservationId);
       if (!reservationResult.success) {
-        return err(reservationResult.error);
+        return reservationResult;
       }
+      const reservation = reservationResult.value;
 
-      // 2. CANCELLEDステータスに更新
-      const updateResult = await reservationRepository.updateStatus(reservationId, 'CANCELLED');
-      if (!updateResult.success) {
-        return err(updateResult.error);
+      // 2. 予約待ちの予約のみ休止を解除できる
+      if (reservation.status !== 'PENDING') {
+        return err({
+          type: 'INVALID_RESERVATION_STATUS',
+          reservationId,
+          status: reservation.status,
+        });
       }
 
-      return ok(undefined);
+      // 3. 休止期限を解除
+      return reservationRepository.updateSuspension(reservationId, null);
+    },
+
+    async suspendUserReservations(
+      userId: UserId,
+      until: string
+    ): Promise<Result<Reservation[], ReservationError>> {
+      // 1. 休止期限のチェック
+      const suspendedUntil = validateSuspendUntil(until);
+      if (!suspendedUntil.success) {
+        return suspendedUntil;
+      }
+
+      // 2. 利用者の存在確認
+      const userResult = await userRepository.findById(userId);
+      if (!userResult.success) {
+        return err({ type: 'USER_NOT_FOUND', userId });
+      }
+
+      // 3. 予約待ちの予約をすべて休止（取り置き中の予約はそのまま）
+      const reservations = await reservationRepository.findByUserId(userId);
+      const pending = reservations.filter((r) => r.status === 'PENDING');
+      return updateSuspensions(pending, suspendedUntil.value);
+    },
+
+    async resumeUserReservations(userId: UserId): Promise<Result<Reservation[], ReservationError>> {
+      // 1. 利用者の存在確認
+      const userResult = await userRepository.findById(userId);
+      if (!userResult.success) {
+        return err({ type: 'USER_NOT_FOUND', userId });
+      }
+
+      // 2. 休止中の予約の休止をすべて解除
+      const reservations = await reservationRepository.findByUserId(userId);
+      const suspended = reservations.filter(
+        (r) => r.status === 'PENDING' && r.suspendedUntil !== null
+      );
+      return updateSuspensions(suspended, null);
+    },
+
+    async getReservationQueue(bookId: BookId): Promise<Result<Reservation[], ReservationError>> {
+      // 1. 書籍の存在確認
+      const bookResult = await bookRepository.findById(bookId);
+      if (!bookResult.success) {
+        return err({ type: 'BOOK_NOT_FOUND', bookId });
+      }
+
+      // 2. アクティブな予約を予約キューの順に取得
+      return ok(await reservationRepository.findActiveByBookId(bookId));
+    },
+
+    async moveReservation(
+      reservationId: ReservationId,
+      input: MoveReservationInput
+    ): Promise<Result<Reservation, ReservationError>> {
+      const reason = input.reason.trim();
+
+      // 1. 入力のチェック
+      if (!Number.isInteger(input.position) || input.position < 1) {
+        return err({
+          type: 'VALIDATION_ERROR',
+          field: 'position',
+          message: '移動先の順番は1以上の整数で指定してください',
+        });
+      }
+      if (reason === '') {
+        return err({
+          type: 'VALIDATION_ERROR',
+          field: 'reason',
+          message: '順番を変更する理由は必須です',
+        });
+      }
+
+      return unitOfWork.run<Reservation, ReservationError>(async () => {
+        // 2. 予約の存在確認
+        const reservationResult = await reservationRepository.findById(reservationId);
+        if (!reservationResult.success) {
+          return reservationResult;
+        }
+        const reservation = reservationResult.value;
+
+        // 3. 予約待ちの予約のみ移動できる（取り置き中の予約は移動できない）
+        if (reservation.status !== 'PENDING') {
+          return err({
+            type: 'INVALID_RESERVATION_STATUS',
+            reservationId,
+            status: reservation.status,
+          });
+        }
+
+        // 4. 移動先が予約キューの範囲内か確認（並行する予約の登録と順番が重複しないようロック）
+        await reservationRepository.lockQueue(reservation.bookId);
+        const queue = await reservationRepository.findActiveByBookId(reservation.bookId);
+        const fromIndex = queue.findIndex((r) => r.id === reservationId);
+        if (input.position > queue.length) {
+          return err({
+            type: 'VALIDATION_ERROR',
+            field: 'position',
+            message: `移動先の順番は1〜${String(queue.length)}で指定してください`,
+          });
+        }
+
+        // 5. 並べ替えて順番を振り直す
+        const reordered = queue.filter((r) => r.id !== reservationId);
+        reordered.splice(input.position - 1, 0, reservation);
+        const applyResult = await applyQueueOrder(reordered);
+        if (!applyResult.success) {
+          return applyResult;
+        }
+
+        // 6. 操作した職員と理由を履歴に記録
+        await reservationRepository.recordQueueChange({
+          reservationId,
+          bookId: reservation.bookId,
+          staffId: input.staffId,
+          fromPosition: fromIndex + 1,
+          toPosition: input.position,
+          reason,
+        });
+
+        const moved = applyResult.value.find((r) => r.id === reservationId);
+        return ok(moved ?? reservation);
+      });
+    },
+
+    async renumberQueue(bookId: BookId): Promise<Result<Reservation[], ReservationError>> {
+      // 1. 書籍の存在確認
+      const bookResult = await bookRepository.findById(bookId);
+      if (!bookResult.success) {
+        return err({ type: 'BOOK_NOT_FOUND', bookId });
+      }
+
+      // 2. 現在の並び順のまま1から連番に振り直す
+      return unitOfWork.run<Reservation[], ReservationError>(async () => {
+        await reservationRepository.lockQueue(bookId);
+        const queue = await reservationRepository.findActiveByBookId(bookId);
+        return applyQueueOrder(queue);
+      });
+    },
+
+    async getQueueChanges(
+      bookId: BookId
+    ): Promise<Result<ReservationQueueChange[], ReservationError>> {
+      // 1. 書籍の存在確認
+      const bookResult = await bookRepository.findById(bookId);
+      if (!bookResult.success) {
+        return err({ type: 'BOOK_NOT_FOUND', bookId });
+      }
+
+      return ok(await reservationRepository.findQueueChangesByBookId(bookId));
+    },
+
+    async estimateWait(
+      reservationId: ReservationId
+    ): Promise<Result<ReservationWaitEstimate, ReservationError>> {
+      // 1. 予約の存在確認（アクティブな予約のみ）
+      const reservationResult = await reservationRepository.findById(reservationId);
+      if (!reservationResult.success) {
+        return reservationResult;
+      }
+      const reservation = reservationResult.value;
+      if (
+        reservation.status !== 'PENDING' &&
+        reservation.status !== 'IN_TRANSIT' &&
+        reservation.status !== 'NOTIFIED'
+      ) {
+        return err({
+          type: 'INVALID_RESERVATION_STATUS',
+          reservationId,
+          status: reservation.status,
+        });
+      }
+
+      // 2. 書籍の蔵書コピーを取得（紛失・破損・補修中のコピーは返却待ちの対象外）
+      const copiesResult = await bookRepository.findCopiesByBookId(reservation.bookId);
+      if (!copiesResult.success) {
+        return err({ type: 'BOOK_NOT_FOUND', bookId: reservation.bookId });
+      }
+      const copies = copiesResult.value.filter(
+        (copy) =>
+          copy.status === 'AVAILABLE' || copy.status === 'BORROWED' || copy.status === 'RESERVED'
+      );
+      const copyIds = copies.map((copy) => copy.id);
+
+      // 3. 平均貸出日数と取り置きの未受取率を算出（履歴がなければ標準の貸出期間・未受取なし）
+      const [averageLoanDaysResult, holdOutcomes, activeLoans, activeReservations] =
+        await Promise.all([
+          loanRepository.findAverageLoanDays(copyIds),
+          reservationRepository.countHoldOutcomes(reservation.bookId),
+          loanRepository.findActiveByMultipleCopyIds(copyIds),
+          reservationRepository.findActiveByBookId(reservation.bookId),
+        ]);
+      const averageLoanDays = averageLoanDaysResult ?? DEFAULT_LOAN_DURATION_DAYS;
+      const holdCount = holdOutcomes.fulfilledCount + holdOutcomes.expiredCount;
+      const noShowRate = holdCount === 0 ? 0 : holdOutcomes.expiredCount / holdCount;
+
+      const estimate = {
+        reservationId,
+        bookId: reservation.bookId,
+        status: reservation.status,
+        queuePosition: reservation.queuePosition,
+        averageLoanDays: Math.round(averageLoanDays * 10) / 10,
+        noShowRate: Math.round(noShowRate * 100) / 100,
+      };
+
+      // 4. 取り置き中・輸送中の予約は蔵書コピーの割り当てを待っていない
+      if (reservation.status !== 'PENDING') {
+        return ok({
+          ...estimate,
+          reservationsAhead: 0,
+          estimatedAvailableAt: reservation.status === 'NOTIFIED' ? reservation.notifiedAt : null,
+        });
+      }
+
+      // 5. 蔵書コピーごとに次に空く見込み日時を求める
+      //    貸出中は返却期限（延滞中は現在）、取り置き中は取り置きした予約者の1サイクル後
+      const now = Date.now();
+      const cycleMs =
+        (noShowRate * RESERVATION_EXPIRY_DAYS + (1 - noShowRate) * averageLoanDays) * DAY_MS;
+      const copyFreeAt = copies.map((copy) => {
+        if (copy.status === 'BORROWED') {
+          const loan = activeLoans.find((l) => l.bookCopyId === copy.id);
+          return loan === undefined
+            ? now + averageLoanDays * DAY_MS
+            : Math.max(loan.dueDate.getTime(), now);
+        }
+        if (copy.status === 'RESERVED') {
+          return now + cycleMs;
+        }
+        return now;
+      });
+
+      // 6. 先に待っている予約者に割り当てた後、この予約に割り当てられる見込み日時を算出
+      //    休止中の予約は返却された蔵書コピーの割り当て対象にならないため、先に待っている数に含めない
+      const reservationsAhead = activeReservations.filter(
+        (r) => isNotifiable(r, new Date(now)) && r.queuePosition < reservation.queuePosition
+      ).length;
+      const allocatedAt = estimateAllocationTime(copyFreeAt, reservationsAhead, cycleMs);
+
+      // 休止中の予約は休止期限まで通知されない
+      const suspendedUntil = reservation.suspendedUntil?.getTime() ?? 0;
+      return ok({
+        ...estimate,
+        reservationsAhead,
+        estimatedAvailableAt:
+          allocatedAt === null ? null : new Date(Math.max(allocatedAt, suspendedUntil)),
+      });
+    },
+
+    async getTransitRequests(
+      status?: TransitRequestStatus
+    ): Promise<Result<TransitRequest[], never>> {
+      return ok(await reservationRepository.findTransitRequests(status));
+    },
+
+    async receiveTransit(
+      transitRequestId: TransitRequestId
+    ): Promise<Result<ReceiveTransitResult, ReservationError>> {
+      const result = await unitOfWork.run<ReceiveTransitResult, ReservationError>(async () => {
+        // 1. 輸送依頼の存在確認
+        const transitResult = await reservationRepository.findTransitRequestById(transitRequestId);
+        if (!transitResult.success) {
+          return transitResult;
+        }
+        const transit = transitResult.value;
+
+        // 2. 受領済みの輸送依頼は再度受領できない
+        if (transit.status === 'RECEIVED') {
+          return err({ type: 'TRANSIT_ALREADY_RECEIVED', transitRequestId });
+        }
+
+        // 3. 受領済みに更新
+        const receivedResult = await reservationRepository.markTransitReceived(
+          transitRequestId,
+          new Date()
+        );
+        if (!receivedResult.success) {
+          return receivedResult;
+        }
+
+        // 4. 予約が輸送中のままであれば取り置きを開始して通知
+        const reservationResult = await reservationRepository.findById(transit.reservationId);
+        if (!reservationResult.success) {
+          return reservationResult;
+        }
+        const reservation = reservationResult.value;
+        if (reservation.status === 'IN_TRANSIT') {
+          const notifiedReservation = await notifyReservation(reservation, transit.copyId);
+          return ok({ transitRequest: receivedResult.value, notifiedReservation });
+        }
+
+        // 5. 輸送中にキャンセル・貸出完了となった場合は受取館で次順位の予約者に引き継ぐ
+        const notifiedReservation = await releaseHold(reservation, transit.copyId);
+        return ok({ transitRequest: receivedResult.value, notifiedReservation });
+      });
+
+      if (result.success) {
+        await publishNotified(result.value.notifiedReservation);
+      }
+      return result;
     },
   };
+
+  // 返却の作業単位内で確保した取り置きの開始を通知する（輸送中の予約は受取館での受領時に通知する）
+  eventBus.subscribe('LoanReturned', async (event) => {
+    await publishNotified(await reservationRepository.findHoldByCopyId(event.copyId));
+  });
+
+  // 予約者本人が借りた場合は予約を貸出完了にする
+  eventBus.subscribe('LoanCreated', async (event) => {
+    await service.fulfillReservationForLoan(event.userId, event.bookId, event.copyId);
+  });
+
+  return service;
 }
@@ -4,7 +4,15 @@
  * 予約管理ドメインの型定義を提供します。
  */
 
-import type { ReservationId, UserId, BookId } from '../../shared/branded-types.js';
+import type {
+  ReservationId,
+  ReservationQueueChangeId,
+  ServicePointId,
+  TransitRequestId,
+  UserId,
+  BookId,
+  CopyId,
+} from '../../shared/branded-types.js';
 
 // ============================================
 // 予約ステータス型定義
@@ -13,6 +21,7 @@ import type { ReservationId, UserId, BookId } from '../../shared/branded-types.j
 /** 予約ステータス */
 export type ReservationStatus =
   | 'PENDING' // 予約待ち
+  | 'IN_TRANSIT' // 蔵書コピーを受取館へ輸送中
   | 'NOTIFIED' // 通知済み（返却されて利用可能）
   | 'FULFILLED' // 貸出完了
   | 'EXPIRED' // 有効期限切れ
@@ -33,12 +42,139 @@ export interface Reservation {
   readonly status: ReservationStatus;
   /** 予約キュー内の順番（1始まり） */
   readonly queuePosition: number;
+  /** 取り置き棚に確保した蔵書コピーID（通知時に割り当て、未割り当てならnull） */
+  readonly copyId: CopyId | null;
+  /**
+   * 休止期限（この日時まで通知の対象外とし、次の予約者に順番を譲る。休止していない場合はnull）
+   * 休止中も予約キュー内の順番は保持する
+   */
+  readonly suspendedUntil: Date | null;
+  /** 受取館のサービスポイントID（指定がない場合は返却されたサービスポイントで受け取る） */
+  readonly pickupLocationId: ServicePointId | null;
 }
 
 /** 予約作成入力 */
 export interface CreateReservationInput {
   readonly userId: UserId;
   readonly bookId: BookId;
+  /** 受取館のサービスポイントID（有効なサービスポイントのみ指定できる） */
+  readonly pickupLocationId?: ServicePointId | null;
+}
+
+// ============================================
+// 受取可能見込み型定義
+// ============================================
+
+/** 予約の受取可能見込み */
+export interface ReservationWaitEstimate {
+  readonly reservationId: ReservationId;
+  readonly bookId: BookId;
+  readonly status: ReservationStatus;
+  /** 予約キュー内の順番 */
+  readonly queuePosition: number;
+  /** この予約より先に蔵書コピーの割り当てを待っている予約数（休止中の予約を含む） */
+  readonly reservationsAhead: number;
+  /** 受取可能になる見込み日時（輸送中、または貸出できる蔵書コピーがない場合はnull） */
+  readonly estimatedAvailableAt: Date | null;
+  /** 見込みの算出に用いた平均貸出日数（返却履歴がない場合は標準の貸出期間） */
+  readonly averageLoanDays: number;
+  /** 見込みの算出に用いた取り置きの未受取率（0〜1） */
+  readonly noShowRate: number;
+}
+
+/** 取り置きの結果件数（未受取率の算出用） */
+export interface HoldOutcomeCounts {
+  /** 取り置き後に貸出完了となった件数 */
+  readonly fulfilledCount: number;
+  /** 取り置き後に受け取られず期限切れとなった件数 */
+  readonly expiredCount: number;
+}
+
+// ============================================
+// 予約上限設定
+// ============================================
+
+/** 予約上限設定 */
+export interface ReservationLimitConfig {
+  /** 利用者1人あたりのアクティブな予約の上限（区分別の上限がない利用者に適用） */
+  readonly defaultLimit: number;
+  /** 利用者区分ごとのアクティブな予約の上限 */
+  readonly limitsByPatronCategory: Readonly<Record<string, number>>;
+}
+
+/** デフォルトの予約上限設定 */
+export const DEFAULT_RESERVATION_LIMIT_CONFIG: ReservationLimitConfig = {
+  defaultLimit: 5,
+  limitsByPatronCategory: {},
+};
+
+// ============================================
+// 輸送依頼型定義
+// ============================================
+
+/** 輸送依頼ステータス */
+export type TransitRequestStatus =
+  | 'IN_TRANSIT' // 輸送中
+  | 'RECEIVED'; // 受取館で受領済み
+
+/** 輸送依頼（返却されたサービスポイントから予約の受取館への蔵書コピーの輸送） */
+export interface TransitRequest {
+  readonly id: TransitRequestId;
+  readonly copyId: CopyId;
+  readonly reservationId: ReservationId;
+  /** 発送元（返却されたサービスポイント） */
+  readonly fromServicePointId: ServicePointId;
+  /** 輸送先（予約の受取館） */
+  readonly toServicePointId: ServicePointId;
+  readonly status: TransitRequestStatus;
+  readonly createdAt: Date;
+  /** 受取館で受領した日時（未受領の場合はnull） */
+  readonly receivedAt: Date | null;
+}
+
+/** 輸送依頼作成入力 */
+export interface CreateTransitRequestInput {
+  readonly copyId: CopyId;
+  readonly reservationId: ReservationId;
+  readonly fromServicePointId: ServicePointId;
+  readonly toServicePointId: ServicePointId;
+}
+
+// ============================================
+// 予約キュー管理型定義
+// ============================================
+
+/** 予約キュー内の順番の移動入力 */
+export interface MoveReservationInput {
+  /** 移動先の順番（1始まり、予約キューの件数以下） */
+  readonly position: number;
+  /** 操作した職員の利用者ID */
+  readonly staffId: UserId;
+  /** 順番を変更する理由（アクセシビリティ対応など） */
+  readonly reason: string;
+}
+
+/** 予約キューの手動並べ替えの履歴 */
+export interface ReservationQueueChange {
+  readonly id: ReservationQueueChangeId;
+  readonly reservationId: ReservationId;
+  readonly bookId: BookId;
+  /** 操作した職員の利用者ID */
+  readonly staffId: UserId;
+  readonly fromPosition: number;
+  readonly toPosition: number;
+  readonly reason: string;
+  readonly changedAt: Date;
+}
+
+/** 予約キュー変更履歴の記録入力 */
+export interface RecordReservationQueueChangeInput {
+  readonly reservationId: ReservationId;
+  readonly bookId: BookId;
+  readonly staffId: UserId;
+  readonly fromPosition: number;
+  readonly toPosition: number;
+  readonly reason: string;
 }
 
 // ============================================
@@ -59,5 +195,26 @@ export type ReservationError =
       readonly bookId: string;
     }
   | { readonly type: 'RESERVATION_NOT_FOUND'; readonly reservationId: string }
+  | {
+      readonly type: 'INVALID_RESERVATION_STATUS';
+      readonly reservationId: string;
+      readonly status: ReservationStatus;
+    }
   | { readonly type: 'BOOK_NOT_FOUND'; readonly bookId: string }
-  | { readonly type: 'USER_NOT_FOUND'; readonly userId: string };
+  | { readonly type: 'USER_NOT_FOUND'; readonly userId: string }
+  | {
+      readonly type: 'RESERVATION_LIMIT_EXCEEDED';
+      readonly userId: string;
+      readonly limit: number;
+      readonly currentCount: number;
+    }
+  | { readonly type: 'BOOK_ALREADY_ON_LOAN'; readonly userId: string; readonly bookId: string }
+  | {
+      readonly type: 'PATRON_BLOCKED';
+      readonly userId: string;
+      readonly balance: number;
+      readonly threshold: number;
+    }
+  | { readonly type: 'SERVICE_POINT_NOT_FOUND'; readonly servicePointId: string }
+  | { readonly type: 'TRANSIT_NOT_FOUND'; readonly transitRequestId: string }
+  | { readonly type: 'TRANSIT_ALREADY_RECEIVED'; readonly transitRequestId: string };
@@ -0,0 +1,5 @@
+// ServicePoint domain - サービスポイント（予約の受取館）
+export * from './types.js';
+export * from './service-point-repository.js';
+export * from './service-point-service.js';
+export * from './service-point-controller.js';
@@ -0,0 +1,191 @@
+/**
+ * ServicePointController テスト
+ *
+ * サービスポイント管理REST APIのテストを記述します。
+ *
+ * エンドポイント:
+ * - GET /api/service-points - サービスポイント一覧取得
+ * - POST /api/service-points - サービスポイント登録（管理者のみ）
+ * - PUT /api/service-points/:id - サービスポイント編集（管理者のみ）
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { type Express } from 'express';
+import request from 'supertest';
+import { createServicePointController } from './service-point-controller.js';
+import type { ServicePointService } from './service-point-service.js';
+import type { ServicePoint } from './types.js';
+import { createServicePointId, createUserId } from '../../shared/branded-types.js';
+import { ok, err } from '../../shared/result.js';
+import type { AuthenticatedRequest } from '../auth/rbac.js';
+import type { UserRole } from '../auth/types.js';
+
+// ============================================
+// モックファクトリ
+// ============================================
+
+function createMockServicePointService(): ServicePointService {
+  return {
+    createServicePoint: vi.fn(),
+    getAllServicePoints: vi.fn(),
+    updateServicePoint: vi.fn(),
+  };
+}
+
+// ============================================
+// テストデータ
+// ============================================
+
+const testServicePoint: ServicePoint = {
+  id: createServicePointId('sp-001'),
+  code: 'CENTRAL',
+  name: '中央館',
+  active: true,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+};
+
+// ============================================
+// テストセットアップ
+// ============================================
+
+function createTestApp(servicePointService: ServicePointService, role?: UserRole): Express {
+  const app = express();
+  app.use(express.json());
+  if (role !== undefined) {
+    app.use((req: AuthenticatedRequest, _res, next) => {
+      req.session = {
+        userId: createUserId('user-001'),
+        role,
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      };
+      next();
+    });
+  }
+  app.use('/api/service-points', createServicePointController(servicePointService));
+  return app;
+}
+
+// ============================================
+// テスト
+// ============================================
+
+describe('ServicePointController', () => {
+  let mockServicePointService: ServicePointService;
+  let app: Express;
+
+  beforeEach(() => {
+    mockServicePointService = createMockServicePointService();
+    app = createTestApp(mockServicePointService, 'admin');
+  });
+
+  describe('GET /api/service-points - サービスポイント一覧取得', () => {
+    it('利用者ロールでも一覧を取得できる', async () => {
+      // Arrange
+      vi.mocked(mockServicePointService.getAllServicePoints).mockResolvedValue(
+        ok([testServicePoint])
+      );
+
+      // Act
+      const response = await request(createTestApp(mockServicePointService, 'patron')).get(
+        '/api/service-points'
+      );
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0]).toHaveProperty('code', 'CENTRAL');
+    });
+  });
+
+  describe('POST /api/service-points - サービスポイント登録', () => {
+    it('サービスポイントを登録し201を返す', async () => {
+      // Arrange
+      vi.mocked(mockServicePointService.createServicePoint).mockResolvedValue(ok(testServicePoint));
+
+      // Act
+      const response = await request(app)
+        .post('/api/service-points')
+        .send({ code: 'CENTRAL', name: '中央館' });
+
+      // Assert
+      expect(response.status).toBe(201);
+      expect(mockServicePointService.createServicePoint).toHaveBeenCalledWith({
+        code: 'CENTRAL',
+        name: '中央館',
+      });
+    });
+
+    it('コードが重複する場合は409を返す', async () => {
+      // Arrange
+      vi.mocked(mockServicePointService.createServicePoint).mockResolvedValue(
+        err({ type: 'DUPLICATE_SERVICE_POINT', code: 'CENTRAL' })
+      );
+
+      // Act
+      const response = await request(app)
+        .post('/api/service-points')
+        .send({ code: 'CENTRAL', name: '中央館' });
+
+      // Assert
+      expect(response.status).toBe(409);
+    });
+
+    it('バリデーションエラーの場合は400を返す', async () => {
+      // Arrange
+      vi.mocked(mockServicePointService.createServicePoint).mockResolvedValue(
+        err({ type: 'VALIDATION_ERROR', field: 'code', message: 'invalid' })
+      );
+
+      // Act
+      const response = await request(app).post('/api/service-points').send({ name: '中央館' });
+
+      // Assert
+      expect(response.status).toBe(400);
+    });
+
+    it('管理者以外の場合は403を返す', async () => {
+      // Act
+      const response = await request(createTestApp(mockServicePointService, 'librarian'))
+        .post('/api/service-points')
+        .send({ code: 'EAST', name: '東分館' });
+
+      // Assert
+      expect(response.status).toBe(403);
+      expect(mockServicePointService.createServicePoint).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /api/service-points/:id - サービスポイント編集', () => {
+    it('指定されたフィールドのみで更新し200を返す', async () => {
+      // Arrange
+      vi.mocked(mockServicePointService.updateServicePoint).mockResolvedValue(
+        ok({ ...testServicePoint, active: false })
+      );
+
+      // Act
+      const response = await request(app).put('/api/service-points/sp-001').send({ active: false });
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('active', false);
+      expect(mockServicePointService.updateServicePoint).toHaveBeenCalledWith('sp-001', {
+        active: false,
+      });
+    });
+
+    it('存在しないサービスポイントの場合は404を返す', async () => {
+      // Arrange
+      vi.mocked(mockServicePointService.updateServicePoint).mockResolvedValue(
+        err({ type: 'SERVICE_POINT_NOT_FOUND', servicePointId: 'sp-999' })
+      );
+
+      // Act
+      const response = await request(app).put('/api/service-points/sp-999').send({ name: '西館' });
+
+      // Assert
+      expect(response.status).toBe(404);
+    });
+  });
+});
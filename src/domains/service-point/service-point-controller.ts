@@ -0,0 +1,124 @@
+/**
+ * ServicePointController - サービスポイント管理REST APIコントローラー
+ *
+ * サービスポイント（予約の受取館）管理のREST APIエンドポイントを提供します。
+ * 一覧は予約時の受取館の選択に使用するため誰でも取得でき、登録・編集は管理者のみ行えます。
+ *
+ * エンドポイント:
+ * - GET /api/service-points - サービスポイント一覧取得
+ * - POST /api/service-points - サービスポイント登録（管理者のみ）
+ * - PUT /api/service-points/:id - サービスポイント編集（管理者のみ）
+ */
+
+import { Router, type Request, type Response } from 'express';
+import type { ServicePointId } from '../../shared/branded-types.js';
+import { isOk } from '../../shared/result.js';
+import { requireAdmin } from '../auth/rbac.js';
+import type { ServicePointService } from './service-point-service.js';
+import type { UpdateServicePointInput, ServicePointError } from './types.js';
+
+// ============================================
+// リクエストボディ型定義
+// ============================================
+
+/** サービスポイント登録リクエストボディ */
+interface CreateServicePointRequestBody {
+  code?: string;
+  name?: string;
+}
+
+/** サービスポイント更新リクエストボディ */
+interface UpdateServicePointRequestBody {
+  name?: string;
+  active?: boolean;
+}
+
+// ============================================
+// HTTPステータスコード決定
+// ============================================
+
+/**
+ * ServicePointErrorに基づいてHTTPステータスコードを決定
+ */
+function getErrorStatusCode(error: ServicePointError): number {
+  switch (error.type) {
+    case 'VALIDATION_ERROR':
+      return 400;
+    case 'SERVICE_POINT_NOT_FOUND':
+      return 404;
+    case 'DUPLICATE_SERVICE_POINT':
+      return 409;
+  }
+}
+
+// ============================================
+// コントローラーファクトリ
+// ============================================
+
+/**
+ * ServicePointControllerを作成
+ * @param servicePointService - ServicePointServiceインスタンス
+ * @returns Expressルーター
+ */
+export function createServicePointController(servicePointService: ServicePointService): Router {
+  const router = Router();
+
+  // ============================================
+  // GET /api/service-points - サービスポイント一覧取得
+  // ============================================
+
+  router.get('/', async (_req: Request, res: Response): Promise<void> => {
+    const result = await servicePointService.getAllServicePoints();
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    }
+    // ServicePointService.getAllServicePoints は never エラーを返すため、else ブランチは到達不可能
+  });
+
+  // ============================================
+  // POST /api/service-points - サービスポイント登録
+  // ============================================
+
+  router.post('/', requireAdmin, async (req: Request, res: Response): Promise<void> => {
+    const body = (req.body ?? {}) as CreateServicePointRequestBody;
+
+    const result = await servicePointService.createServicePoint({
+      code: body.code ?? '',
+      name: body.name ?? '',
+    });
+
+    if (isOk(result)) {
+      res.status(201).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  // ============================================
+  // PUT /api/service-points/:id - サービスポイント編集
+  // ============================================
+
+  router.put('/:id', requireAdmin, async (req: Request, res: Response): Promise<void> => {
+    const servicePointId = req.params.id as ServicePointId;
+    const body = (req.body ?? {}) as UpdateServicePointRequestBody;
+
+    // 指定されたフィールドのみを更新対象に含める
+    const input: UpdateServicePointInput = {
+      ...(body.name !== undefined && { name: body.name }),
+      ...(body.active !== undefined && { active: body.active }),
+    };
+
+    const result = await servicePointService.updateServicePoint(servicePointId, input);
+
+    if (isOk(result)) {
+      res.status(200).json(result.value);
+    } else {
+      const statusCode = getErrorStatusCode(result.error);
+      res.status(statusCode).json({ error: result.error });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,53 @@
+/**
+ * ServicePointRepository Interface
+ *
+ * サービスポイントデータの永続化を担当するリポジトリのインターフェース定義。
+ * 具体的な実装は Infrastructure 層で行います。
+ */
+
+import type { ServicePointId } from '../../shared/branded-types.js';
+import type { Result } from '../../shared/result.js';
+import type {
+  ServicePoint,
+  CreateServicePointInput,
+  UpdateServicePointInput,
+  ServicePointError,
+} from './types.js';
+
+// ============================================
+// リポジトリインターフェース
+// ============================================
+
+/** サービスポイントリポジトリ */
+export interface ServicePointRepository {
+  /**
+   * 新しいサービスポイントを作成
+   * @param input - サービスポイント作成入力
+   * @returns 作成されたサービスポイントまたはエラー（コードの重複はDUPLICATE_SERVICE_POINT）
+   */
+  create(input: CreateServicePointInput): Promise<Result<ServicePoint, ServicePointError>>;
+
+  /**
+   * IDでサービスポイントを取得
+   * @param id - サービスポイントID
+   * @returns サービスポイントまたはSERVICE_POINT_NOT_FOUNDエラー
+   */
+  findById(id: ServicePointId): Promise<Result<ServicePoint, ServicePointError>>;
+
+  /**
+   * 全てのサービスポイントを取得
+   * @returns サービスポイント一覧（コード順）
+   */
+  findAll(): Promise<ServicePoint[]>;
+
+  /**
+   * サービスポイントを更新
+   * @param id - サービスポイントID
+   * @param input - 更新入力
+   * @returns 更新されたサービスポイントまたはエラー
+   */
+  update(
+    id: ServicePointId,
+    input: UpdateServicePointInput
+  ): Promise<Result<ServicePoint, ServicePointError>>;
+}
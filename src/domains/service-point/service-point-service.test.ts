@@ -0,0 +1,181 @@
+/**
+ * ServicePointService テスト
+ *
+ * サービスポイント（予約の受取館）の登録・一覧・更新のテスト。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createServicePointService, type ServicePointService } from './service-point-service.js';
+import type { ServicePointRepository } from './service-point-repository.js';
+import type { ServicePoint } from './types.js';
+import { createServicePointId } from '../../shared/branded-types.js';
+import { ok, err, isOk, isErr } from '../../shared/result.js';
+
+// ============================================
+// モックファクトリ
+// ============================================
+
+function createMockServicePointRepository(): ServicePointRepository {
+  return {
+    create: vi.fn(),
+    findById: vi.fn(),
+    findAll: vi.fn(),
+    update: vi.fn(),
+  };
+}
+
+function createTestServicePoint(overrides: Partial<ServicePoint> = {}): ServicePoint {
+  return {
+    id: createServicePointId('sp-001'),
+    code: 'CENTRAL',
+    name: '中央館',
+    active: true,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    ...overrides,
+  };
+}
+
+// ============================================
+// テスト
+// ============================================
+
+describe('ServicePointService', () => {
+  let service: ServicePointService;
+  let mockRepository: ServicePointRepository;
+
+  beforeEach(() => {
+    mockRepository = createMockServicePointRepository();
+    service = createServicePointService(mockRepository);
+  });
+
+  describe('createServicePoint', () => {
+    describe('正常系', () => {
+      it('有効な入力でサービスポイントを登録できる', async () => {
+        // Arrange
+        const servicePoint = createTestServicePoint({ code: 'EAST-1', name: '東分館' });
+        vi.mocked(mockRepository.create).mockResolvedValue(ok(servicePoint));
+
+        // Act
+        const result = await service.createServicePoint({ code: 'EAST-1', name: ' 東分館 ' });
+
+        // Assert
+        expect(isOk(result)).toBe(true);
+        expect(mockRepository.create).toHaveBeenCalledWith({ code: 'EAST-1', name: '東分館' });
+      });
+    });
+
+    describe('異常系', () => {
+      it('コードに小文字・記号が含まれる場合エラーを返す', async () => {
+        // Act
+        const result = await service.createServicePoint({ code: 'east_1', name: '東分館' });
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+          expect(result.error.field).toBe('code');
+        }
+        expect(mockRepository.create).not.toHaveBeenCalled();
+      });
+
+      it('名称が空の場合エラーを返す', async () => {
+        // Act
+        const result = await service.createServicePoint({ code: 'EAST', name: ' ' });
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result) && result.error.type === 'VALIDATION_ERROR') {
+          expect(result.error.field).toBe('name');
+        }
+        expect(mockRepository.create).not.toHaveBeenCalled();
+      });
+
+      it('コードが重複する場合はリポジトリのエラーを返す', async () => {
+        // Arrange
+        vi.mocked(mockRepository.create).mockResolvedValue(
+          err({ type: 'DUPLICATE_SERVICE_POINT', code: 'CENTRAL' })
+        );
+
+        // Act
+        const result = await service.createServicePoint({ code: 'CENTRAL', name: '中央館' });
+
+        // Assert
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error.type).toBe('DUPLICATE_SERVICE_POINT');
+        }
+      });
+    });
+  });
+
+  describe('getAllServicePoints', () => {
+    it('無効化したものを含むサービスポイント一覧を返す', async () => {
+      // Arrange
+      const servicePoints = [
+        createTestServicePoint(),
+        createTestServicePoint({ id: createServicePointId('sp-002'), code: 'OLD', active: false }),
+      ];
+      vi.mocked(mockRepository.findAll).mockResolvedValue(servicePoints);
+
+      // Act
+      const result = await service.getAllServicePoints();
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toEqual(servicePoints);
+      }
+    });
+  });
+
+  describe('updateServicePoint', () => {
+    it('サービスポイントを無効化できる', async () => {
+      // Arrange
+      const servicePoint = createTestServicePoint();
+      vi.mocked(mockRepository.findById).mockResolvedValue(ok(servicePoint));
+      vi.mocked(mockRepository.update).mockResolvedValue(
+        ok(createTestServicePoint({ active: false }))
+      );
+
+      // Act
+      const result = await service.updateServicePoint(servicePoint.id, { active: false });
+
+      // Assert
+      expect(isOk(result)).toBe(true);
+      expect(mockRepository.update).toHaveBeenCalledWith(servicePoint.id, { active: false });
+    });
+
+    it('名称を空にする場合エラーを返す', async () => {
+      // Arrange
+      vi.mocked(mockRepository.findById).mockResolvedValue(ok(createTestServicePoint()));
+
+      // Act
+      const result = await service.updateServicePoint(createServicePointId('sp-001'), {
+        name: '',
+      });
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('存在しないサービスポイントの場合SERVICE_POINT_NOT_FOUNDエラーを返す', async () => {
+      // Arrange
+      vi.mocked(mockRepository.findById).mockResolvedValue(
+        err({ type: 'SERVICE_POINT_NOT_FOUND', servicePointId: 'sp-999' })
+      );
+
+      // Act
+      const result = await service.updateServicePoint(createServicePointId('sp-999'), {
+        active: false,
+      });
+
+      // Assert
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.type).toBe('SERVICE_POINT_NOT_FOUND');
+      }
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+  });
+});
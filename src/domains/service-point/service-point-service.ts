@@ -0,0 +1,145 @@
+/**
+ * ServicePointService - サービスポイント管理サービス
+ *
+ * 予約の受取館として選択できるサービスポイント（分館・カウンター）の管理を提供します。
+ * 過去の予約・輸送依頼から参照されるため削除はできず、廃止した分館は無効化します。
+ */
+
+import type { ServicePointId } from '../../shared/branded-types.js';
+import type { Result } from '../../shared/result.js';
+import { ok, err, isErr } from '../../shared/result.js';
+import { validateRequired } from '../../shared/validation.js';
+import type { ServicePointRepository } from './service-point-repository.js';
+import type {
+  ServicePoint,
+  CreateServicePointInput,
+  UpdateServicePointInput,
+  ServicePointError,
+} from './types.js';
+
+// ============================================
+// 定数
+// ============================================
+
+/** サービスポイントコードの形式（英大文字・数字・ハイフン） */
+const SERVICE_POINT_CODE_PATTERN = /^[A-Z0-9-]{1,20}$/;
+
+// ============================================
+// サービスインターフェース
+// ============================================
+
+/** ServicePointService インターフェース */
+export interface ServicePointService {
+  /**
+   * 新しいサービスポイントを登録
+   * @param input - サービスポイント作成入力
+   * @returns 作成されたサービスポイントまたはエラー
+   */
+  createServicePoint(
+    input: CreateServicePointInput
+  ): Promise<Result<ServicePoint, ServicePointError>>;
+
+  /**
+   * 全てのサービスポイントを取得
+   * @returns サービスポイント一覧（無効化したものを含む）
+   */
+  getAllServicePoints(): Promise<Result<ServicePoint[], never>>;
+
+  /**
+   * サービスポイントを更新（名称の変更・有効/無効の切り替え）
+   * @param id - サービスポイントID
+   * @param input - 更新入力
+   * @returns 更新されたサービスポイントまたはエラー
+   */
+  updateServicePoint(
+    id: ServicePointId,
+    input: UpdateServicePointInput
+  ): Promise<Result<ServicePoint, ServicePointError>>;
+}
+
+// ============================================
+// バリデーション関数
+// ============================================
+
+/**
+ * サービスポイント作成入力をバリデーション
+ */
+function validateCreateInput(
+  input: CreateServicePointInput
+): Result<CreateServicePointInput, ServicePointError> {
+  if (!SERVICE_POINT_CODE_PATTERN.test(input.code)) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'code',
+      message: 'コードは英大文字・数字・ハイフンの20文字以内で指定してください',
+    });
+  }
+
+  const nameResult = validateRequired(input.name, 'name');
+  if (isErr(nameResult)) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      field: 'name',
+      message: nameResult.error.message,
+    });
+  }
+
+  return ok(input);
+}
+
+// ============================================
+// サービス実装
+// ============================================
+
+/**
+ * ServicePointServiceを作成
+ * @param repository - サービスポイントリポジトリ
+ * @returns ServicePointService
+ */
+export function createServicePointService(repository: ServicePointRepository): ServicePointService {
+  return {
+    async createServicePoint(
+      input: CreateServicePointInput
+    ): Promise<Result<ServicePoint, ServicePointError>> {
+      // 入力バリデーション
+      const validationResult = validateCreateInput(input);
+      if (isErr(validationResult)) {
+        return validationResult;
+      }
+
+      // サービスポイント作成（コードの重複はリポジトリで検出）
+      return repository.create({ code: input.code, name: input.name.trim() });
+    },
+
+    async getAllServicePoints(): Promise<Result<ServicePoint[], never>> {
+      const servicePoints = await repository.findAll();
+      return ok(servicePoints);
+    },
+
+    async updateServicePoint(
+      id: ServicePointId,
+      input: UpdateServicePointInput
+    ): Promise<Result<ServicePoint, ServicePointError>> {
+      // サービスポイント存在チェック
+      const existingResult = await repository.findById(id);
+      if (isErr(existingResult)) {
+        return existingResult;
+      }
+
+      // 名称が指定されていて空の場合はエラー
+      if (input.name !== undefined && input.name.trim() === '') {
+        return err({
+          type: 'VALIDATION_ERROR',
+          field: 'name',
+          message: 'name cannot be empty',
+        });
+      }
+
+      // サービスポイント更新
+      return repository.update(id, {
+        ...input,
+        ...(input.name !== undefined && { name: input.name.trim() }),
+      });
+    },
+  };
+}
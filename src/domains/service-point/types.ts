@@ -0,0 +1,45 @@
+/**
+ * ServicePoint Domain - 型定義
+ *
+ * 予約の受取館・返却受付館となるサービスポイント（分館・カウンター）の型定義を提供します。
+ */
+
+import type { ServicePointId } from '../../shared/branded-types.js';
+
+// ============================================
+// サービスポイント型定義
+// ============================================
+
+/** サービスポイント */
+export interface ServicePoint {
+  readonly id: ServicePointId;
+  /** サービスポイントコード（一意、例: MAIN, EAST） */
+  readonly code: string;
+  readonly name: string;
+  /** 予約の受取館として選択できるか（廃止した分館はfalse） */
+  readonly active: boolean;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/** サービスポイント作成入力 */
+export interface CreateServicePointInput {
+  readonly code: string;
+  readonly name: string;
+}
+
+/** サービスポイント更新入力 */
+export interface UpdateServicePointInput {
+  readonly name?: string;
+  readonly active?: boolean;
+}
+
+// ============================================
+// エラー型定義
+// ============================================
+
+/** サービスポイントエラー */
+export type ServicePointError =
+  | { readonly type: 'VALIDATION_ERROR'; readonly field: string; readonly message: string }
+  | { readonly type: 'SERVICE_POINT_NOT_FOUND'; readonly servicePointId: string }
+  | { readonly type: 'DUPLICATE_SERVICE_POINT'; readonly code: string };
@@ -5,6 +5,7 @@
  */
 
 import type { UserId } from '../../shared/branded-types.js';
+import type { LoanStatus } from '../loan/types.js';
 
 // ============================================
 // 利用者型定義
@@ -19,6 +20,8 @@ export interface User {
   readonly phone: string | null;
   readonly registeredAt: Date;
   readonly loanLimit: number;
+  /** 利用者区分（貸出ポリシーの適用キー） */
+  readonly patronCategory: string | null;
 }
 
 /** 利用者登録入力 */
@@ -28,6 +31,7 @@ export interface CreateUserInput {
   readonly email: string;
   readonly phone?: string | null;
   readonly loanLimit?: number;
+  readonly patronCategory?: string | null;
 }
 
 /** 利用者更新入力 */
@@ -37,6 +41,7 @@ export interface UpdateUserInput {
   readonly email?: string;
   readonly phone?: string | null;
   readonly loanLimit?: number;
+  readonly patronCategory?: string | null;
 }
 
 /** 利用者検索条件 */
@@ -55,6 +60,8 @@ export interface LoanSummary {
   readonly borrowedAt: Date;
   readonly dueDate: Date;
   readonly returnedAt: Date | null;
+  /** 貸出ステータス（返却申告中は CLAIMED_RETURNED、紛失・破損処理された貸出は LOST / DAMAGED） */
+  readonly status: LoanStatus;
   readonly isOverdue: boolean;
 }
 
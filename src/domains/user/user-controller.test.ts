@@ -46,6 +46,7 @@ function createTestUser(overrides?: Partial<User>): User {
     phone: '03-1234-5678',
     registeredAt: new Date('2024-01-01'),
     loanLimit: 5,
+    patronCategory: null,
     ...overrides,
   };
 }
@@ -58,6 +59,7 @@ function createTestLoanSummary(overrides?: Partial<LoanSummary>): LoanSummary {
     borrowedAt: new Date('2024-01-15'),
     dueDate: new Date('2024-01-29'),
     returnedAt: null,
+    status: 'ACTIVE',
     isOverdue: false,
     ...overrides,
   };
@@ -249,6 +251,7 @@ describe('UserController', () => {
         bookCopyId: 'copy-2',
         bookTitle: 'Another Book',
         returnedAt: new Date('2024-01-20'),
+        status: 'RETURNED',
       });
 
       const userWithLoans: UserWithLoans = {
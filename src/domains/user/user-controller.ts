@@ -27,6 +27,7 @@ interface CreateUserRequestBody {
   email?: string;
   phone?: string | null;
   loanLimit?: number;
+  patronCategory?: string | null;
 }
 
 // ============================================
@@ -95,6 +96,7 @@ export function createUserController(userService: UserService): Router {
       email: body.email ?? '',
       phone: body.phone ?? null,
       ...(body.loanLimit !== undefined && { loanLimit: body.loanLimit }),
+      ...(body.patronCategory !== undefined && { patronCategory: body.patronCategory }),
     };
 
     const result = await userService.createUser(input);
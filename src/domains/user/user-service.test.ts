@@ -37,6 +37,7 @@ function createMockUser(overrides: Partial<User> = {}): User {
     phone: '03-1234-5678',
     registeredAt: new Date('2024-01-01'),
     loanLimit: 5,
+    patronCategory: null,
     ...overrides,
   };
 }
@@ -554,6 +555,7 @@ describe('UserService', () => {
           borrowedAt: new Date('2024-01-01'),
           dueDate: new Date('2024-01-15'),
           returnedAt: null,
+          status: 'ACTIVE',
           isOverdue: false,
         },
         {
@@ -563,6 +565,7 @@ describe('UserService', () => {
           borrowedAt: new Date('2023-12-01'),
           dueDate: new Date('2023-12-15'),
           returnedAt: new Date('2023-12-14'),
+          status: 'RETURNED',
           isOverdue: false,
         },
       ];
@@ -582,6 +585,45 @@ describe('UserService', () => {
       }
     });
 
+    it('紛失・破損処理された貸出は状態付きで貸出履歴に含まれる', async () => {
+      const userId = createUserId('user-123');
+      const loans = [
+        {
+          id: 'loan-1',
+          bookCopyId: 'copy-1',
+          bookTitle: 'テスト書籍1',
+          borrowedAt: new Date('2024-01-01'),
+          dueDate: new Date('2024-01-15'),
+          returnedAt: new Date('2024-02-01'),
+          status: 'LOST',
+          isOverdue: false,
+        },
+        {
+          id: 'loan-2',
+          bookCopyId: 'copy-2',
+          bookTitle: 'テスト書籍2',
+          borrowedAt: new Date('2023-12-01'),
+          dueDate: new Date('2023-12-15'),
+          returnedAt: new Date('2023-12-14'),
+          status: 'DAMAGED',
+          isOverdue: false,
+        },
+      ];
+      mockRepository = createMockRepository({
+        findById: vi.fn().mockResolvedValue(ok(createMockUser({ id: userId }))),
+        findUserLoans: vi.fn().mockResolvedValue(loans),
+      });
+      service = createUserService(mockRepository);
+
+      const result = await service.getUserWithLoans(userId);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.currentLoans).toHaveLength(0);
+        expect(result.value.loanHistory.map((loan) => loan.status)).toEqual(['LOST', 'DAMAGED']);
+      }
+    });
+
     it('存在しない利用者IDの場合はNOT_FOUNDエラーを返す', async () => {
       const userId = createUserId('non-existent');
       mockRepository = createMockRepository({
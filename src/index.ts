@@ -1,49 +1,95 @@
 // Library Inventory System - Entry Point
-import express from 'express';
-import { securityHeadersMiddleware, sanitizeInputMiddleware } from './shared/index.js';
+import { randomUUID } from 'node:crypto';
+import { createInMemoryEventBus, createLogger, isOk } from './shared/index.js';
+import { createApp } from './app.js';
 
 // サービス
 import { createBookService } from './domains/book/book-service.js';
 import { createSearchService } from './domains/book/search-service.js';
+import { createMarcService } from './domains/book/marc-service.js';
+import { createClassificationService } from './domains/book/classification-service.js';
+import { DEFAULT_BARCODE_CONFIG } from './domains/book/types.js';
 import { createLoanService } from './domains/loan/loan-service.js';
+import { createLoanPolicyService } from './domains/loan/loan-policy-service.js';
+import { DEFAULT_RETURN_CLAIM_CONFIG, DEFAULT_RECALL_CONFIG } from './domains/loan/types.js';
 import { createUserService } from './domains/user/user-service.js';
-import { createReservationService } from './domains/reservation/reservation-service.js';
+import {
+  createReservationService,
+  parseReservationLimitsByPatronCategory,
+} from './domains/reservation/reservation-service.js';
+import { DEFAULT_RESERVATION_LIMIT_CONFIG } from './domains/reservation/types.js';
 import { createReportService } from './domains/report/report-service.js';
+import { DEFAULT_PURCHASE_CANDIDATE_CONFIG } from './domains/report/types.js';
+import { createFineService } from './domains/fine/fine-service.js';
+import { DEFAULT_FINE_CONFIG } from './domains/fine/types.js';
+import { createCalendarService } from './domains/calendar/calendar-service.js';
+import {
+  createNotificationQueue,
+  createNotificationService,
+} from './domains/notification/index.js';
+import { createJobService, startJobScheduler } from './domains/job/job-service.js';
+import {
+  createReservationExpiryJob,
+  createOverdueReminderJob,
+  createDueSoonReminderJob,
+  createOverdueSnapshotJob,
+} from './domains/job/library-jobs.js';
+import { DEFAULT_JOB_LOCK_TTL_MS } from './domains/job/types.js';
+import { createServicePointService } from './domains/service-point/service-point-service.js';
+import { createPurchaseSuggestionService } from './domains/purchase-suggestion/purchase-suggestion-service.js';
+import { createBookImportService } from './domains/book-import/book-import-service.js';
+import { DEFAULT_BOOK_IMPORT_CONFIG } from './domains/book-import/types.js';
+import { createRedisSessionStore } from './domains/auth/session-store.js';
+import { createAuthService } from './domains/auth/auth-service.js';
+import { DEFAULT_SESSION_TTL_SECONDS, type SessionId } from './domains/auth/types.js';
 
 // コントローラー
+import { createAuthController } from './domains/auth/auth-controller.js';
 import { createBookController } from './domains/book/book-controller.js';
 import { createSearchController } from './domains/book/search-controller.js';
+import { createMarcController } from './domains/book/marc-controller.js';
+import { createClassificationController } from './domains/book/classification-controller.js';
 import { createLoanController } from './domains/loan/loan-controller.js';
+import { createLoanPolicyController } from './domains/loan/loan-policy-controller.js';
 import { createUserController } from './domains/user/user-controller.js';
 import { createReservationController } from './domains/reservation/reservation-controller.js';
 import { createReportController } from './domains/report/report-controller.js';
+import { createFineController } from './domains/fine/fine-controller.js';
+import { createCalendarController } from './domains/calendar/calendar-controller.js';
+import { createJobController } from './domains/job/job-controller.js';
+import { createServicePointController } from './domains/service-point/service-point-controller.js';
+import { createPurchaseSuggestionController } from './domains/purchase-suggestion/purchase-suggestion-controller.js';
+import { createBookImportController } from './domains/book-import/book-import-controller.js';
 
 // データベース
 import { DatabasePool, createDatabaseConfig } from './infrastructure/database/database.js';
+import { createPgUnitOfWork } from './infrastructure/database/unit-of-work.js';
 
 // PostgreSQLリポジトリ
 import {
   createPgBookRepository,
   createPgSearchRepository,
+  createPgClassificationRepository,
   createPgUserRepository,
+  createPgUserAuthRepository,
   createPgLoanRepository,
   createPgReservationRepository,
   createPgReportRepository,
   createPgOverdueRecordRepository,
+  createPgLoanPolicyRepository,
+  createPgFineRepository,
+  createPgFineRateRepository,
+  createPgReturnClaimRepository,
+  createPgBookDropRepository,
+  createPgCalendarRepository,
+  createPgJobRepository,
+  createPgServicePointRepository,
+  createPgPurchaseSuggestionRepository,
+  createPgBookImportRepository,
 } from './infrastructure/repositories/index.js';
 
-const app = express();
 const PORT = process.env.PORT ?? 3000;
 
-// セキュリティミドルウェア（CSPヘッダー設定等）
-app.use(securityHeadersMiddleware);
-
-// JSON パース
-app.use(express.json());
-
-// 入力サニタイズミドルウェア
-app.use(sanitizeInputMiddleware);
-
 // ============================================
 // データベース接続
 // ============================================
@@ -57,6 +103,7 @@ const dbConfig = createDatabaseConfig({
 });
 
 const pool = new DatabasePool(dbConfig);
+const unitOfWork = createPgUnitOfWork(pool);
 
 // ============================================
 // リポジトリ初期化（PostgreSQL）
@@ -64,63 +111,245 @@ const pool = new DatabasePool(dbConfig);
 
 const bookRepository = createPgBookRepository(pool);
 const searchRepository = createPgSearchRepository(pool);
+const classificationRepository = createPgClassificationRepository(pool);
 const userRepository = createPgUserRepository(pool);
+const userAuthRepository = createPgUserAuthRepository(pool);
 const loanRepository = createPgLoanRepository(pool);
 const reservationRepository = createPgReservationRepository(pool);
 const reportRepository = createPgReportRepository(pool);
 const overdueRecordRepository = createPgOverdueRecordRepository(pool);
+const loanPolicyRepository = createPgLoanPolicyRepository(pool);
+const fineRepository = createPgFineRepository(pool);
+const fineRateRepository = createPgFineRateRepository(pool);
+const returnClaimRepository = createPgReturnClaimRepository(pool);
+const bookDropRepository = createPgBookDropRepository(pool);
+const calendarRepository = createPgCalendarRepository(pool);
+const jobRepository = createPgJobRepository(pool);
+const servicePointRepository = createPgServicePointRepository(pool);
+const purchaseSuggestionRepository = createPgPurchaseSuggestionRepository(pool);
+const bookImportRepository = createPgBookImportRepository(pool);
+
+// ============================================
+// 通知キュー（Redis + BullMQ）
+// ============================================
+
+const redisUrl =
+  process.env.REDIS_URL ??
+  `redis://${process.env.REDIS_HOST ?? 'redis'}:${process.env.REDIS_PORT ?? '6379'}`;
+
+const notificationQueue = createNotificationQueue({
+  redisUrl,
+  maxRetries: 3,
+  retryDelay: 1000,
+});
+
+// ============================================
+// セッションストア（Redis）
+// ============================================
+
+const sessionStore = createRedisSessionStore({
+  redisUrl,
+  sessionTtlSeconds: DEFAULT_SESSION_TTL_SECONDS,
+});
+
+// ============================================
+// ドメインイベント
+// ============================================
+
+const logger = createLogger();
+
+// 各サービスはファクトリ内で必要なイベントを購読する（返却→予約キュー、予約登録→自動リコール等）
+const eventBus = createInMemoryEventBus((error, event) => {
+  logger.error('Domain event handler failed', { eventType: event.type, error });
+});
 
 // ============================================
 // サービス初期化
 // ============================================
 
-const bookService = createBookService(bookRepository);
+const authService = createAuthService({
+  sessionStore,
+  userAuthRepository,
+  sessionTtlSeconds: DEFAULT_SESSION_TTL_SECONDS,
+});
+
+const bookService = createBookService(bookRepository, {
+  ...DEFAULT_BARCODE_CONFIG,
+  prefix: process.env.COPY_BARCODE_PREFIX ?? DEFAULT_BARCODE_CONFIG.prefix,
+});
 const searchService = createSearchService(searchRepository);
+const marcService = createMarcService(bookService, bookRepository);
+const classificationService = createClassificationService(classificationRepository);
 const userService = createUserService(userRepository);
+const calendarService = createCalendarService(calendarRepository);
+const notificationService = createNotificationService(notificationQueue, eventBus);
+const fineService = createFineService(
+  fineRepository,
+  fineRateRepository,
+  userRepository,
+  unitOfWork,
+  {
+    ...DEFAULT_FINE_CONFIG,
+    balanceThreshold: parseInt(
+      process.env.FINE_BALANCE_THRESHOLD ?? String(DEFAULT_FINE_CONFIG.balanceThreshold),
+      10
+    ),
+  }
+);
+const reservationService = createReservationService(
+  reservationRepository,
+  bookRepository,
+  userRepository,
+  unitOfWork,
+  calendarService,
+  eventBus,
+  servicePointRepository,
+  loanRepository,
+  fineService,
+  {
+    defaultLimit: parseInt(
+      process.env.RESERVATION_LIMIT ?? String(DEFAULT_RESERVATION_LIMIT_CONFIG.defaultLimit),
+      10
+    ),
+    limitsByPatronCategory: parseReservationLimitsByPatronCategory(
+      process.env.RESERVATION_LIMITS_BY_PATRON_CATEGORY ?? ''
+    ),
+  }
+);
 const loanService = createLoanService(
   loanRepository,
   bookRepository,
   userRepository,
-  overdueRecordRepository
-);
-const reservationService = createReservationService(
+  overdueRecordRepository,
   reservationRepository,
+  loanPolicyRepository,
+  unitOfWork,
+  fineService,
+  returnClaimRepository,
+  bookDropRepository,
+  calendarService,
+  notificationService,
+  eventBus,
+  reservationService,
+  {
+    maxOpenClaims: parseInt(
+      process.env.MAX_OPEN_RETURN_CLAIMS ?? String(DEFAULT_RETURN_CLAIM_CONFIG.maxOpenClaims),
+      10
+    ),
+  },
+  {
+    ...DEFAULT_RECALL_CONFIG,
+    autoRecallOnReservation: process.env.AUTO_RECALL_ON_RESERVATION === 'true',
+  }
+);
+const loanPolicyService = createLoanPolicyService(loanPolicyRepository);
+const servicePointService = createServicePointService(servicePointRepository);
+const purchaseSuggestionService = createPurchaseSuggestionService(
+  purchaseSuggestionRepository,
+  userRepository,
   bookRepository,
-  userRepository
+  reservationService
 );
-const reportService = createReportService(reportRepository);
+const bookImportService = createBookImportService(
+  bookImportRepository,
+  bookService,
+  bookRepository,
+  unitOfWork,
+  {
+    ...DEFAULT_BOOK_IMPORT_CONFIG,
+    chunkSize: parseInt(
+      process.env.BOOK_IMPORT_CHUNK_SIZE ?? String(DEFAULT_BOOK_IMPORT_CONFIG.chunkSize),
+      10
+    ),
+  }
+);
+const reportService = createReportService(reportRepository, {
+  holdsPerCopyThreshold: parseFloat(
+    process.env.PURCHASE_HOLDS_PER_COPY_THRESHOLD ??
+      String(DEFAULT_PURCHASE_CANDIDATE_CONFIG.holdsPerCopyThreshold)
+  ),
+});
+
+// ============================================
+// 定期実行ジョブ
+// ============================================
+
+// 複数インスタンスで起動した場合もジョブごとのロックにより1インスタンスのみが実行する
+const jobService = createJobService(
+  [
+    createReservationExpiryJob(reservationService),
+    createOverdueReminderJob(loanRepository, notificationService),
+    createDueSoonReminderJob(loanRepository, notificationService),
+    createOverdueSnapshotJob(loanRepository, overdueRecordRepository, calendarService),
+  ],
+  jobRepository,
+  {
+    instanceId: process.env.INSTANCE_ID ?? randomUUID(),
+    lockTtlMs: DEFAULT_JOB_LOCK_TTL_MS,
+  }
+);
+startJobScheduler(jobService, 60_000, (error) => {
+  logger.error('Job scheduler check failed', { error });
+});
 
 // ============================================
 // コントローラー初期化
 // ============================================
 
+const authRouter = createAuthController(authService);
 const bookRouter = createBookController(bookService);
 const searchRouter = createSearchController(searchService);
-const loanRouter = createLoanController(loanService);
+const marcRouter = createMarcController(marcService);
+const classificationRouter = createClassificationController(classificationService);
+const loanRouter = createLoanController(loanService, bookService);
+const loanPolicyRouter = createLoanPolicyController(loanPolicyService);
 const userRouter = createUserController(userService);
 const reservationRouter = createReservationController(reservationService, reservationRepository);
 const reportRouter = createReportController(reportService);
+const fineRouter = createFineController(fineService);
+const calendarRouter = createCalendarController(calendarService);
+const jobRouter = createJobController(jobService);
+const servicePointRouter = createServicePointController(servicePointService);
+const purchaseSuggestionRouter = createPurchaseSuggestionController(purchaseSuggestionService);
+const bookImportRouter = createBookImportController(bookImportService);
 
 // ============================================
-// ルート登録
+// アプリケーション組み立て
 // ============================================
 
-// 注意: searchRouterを先にマウントして、/searchが/:idパラメータとして解釈されないようにする
-app.use('/api/books', searchRouter);
-app.use('/api/books', bookRouter);
-app.use('/api/loans', loanRouter);
-app.use('/api/users', userRouter);
-app.use('/api/reservations', reservationRouter);
-app.use('/api/reports', reportRouter);
-
-// ヘルスチェック
-app.get('/health', (_req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
+const app = createApp(
+  {
+    auth: authRouter,
+    bookImport: bookImportRouter,
+    search: searchRouter,
+    marc: marcRouter,
+    classification: classificationRouter,
+    book: bookRouter,
+    loan: loanRouter,
+    loanPolicy: loanPolicyRouter,
+    user: userRouter,
+    reservation: reservationRouter,
+    report: reportRouter,
+    fine: fineRouter,
+    calendar: calendarRouter,
+    job: jobRouter,
+    servicePoint: servicePointRouter,
+    purchaseSuggestion: purchaseSuggestionRouter,
+  },
+  {
+    // セッションストアに接続できない場合は未認証として扱う（ロールガードが401を返す）
+    validateSession: async (sessionId) => {
+      const result = await authService.validateSession(sessionId as SessionId);
+      return isOk(result) ? result.value : null;
+    },
+    bookImportBodyLimit: process.env.BOOK_IMPORT_BODY_LIMIT ?? '20mb',
+  }
+);
 
 app.listen(PORT, () => {
   console.log(`Server is running on port ${String(PORT)}`);
   console.log(`API endpoints available:`);
+  console.log(`  - POST /api/auth/login`);
   console.log(`  - GET  /api/books/search`);
   console.log(`  - GET  /api/books/:id`);
   console.log(`  - POST /api/books`);
@@ -128,6 +357,9 @@ app.listen(PORT, () => {
   console.log(`  - GET  /api/loans`);
   console.log(`  - GET  /api/reservations`);
   console.log(`  - GET  /api/reports/statistics`);
+  console.log(`  - GET  /api/jobs`);
+  console.log(`  - GET  /api/service-points`);
+  console.log(`  - GET  /api/purchase-suggestions`);
 });
 
 export default app;
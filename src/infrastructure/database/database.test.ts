@@ -49,6 +49,13 @@ describe('DatabasePool', () => {
     expect(typeof pool.query).toBe('function');
   });
 
+  it('should provide transaction method', () => {
+    const config = createDatabaseConfig();
+    const pool = new DatabasePool(config);
+
+    expect(typeof pool.transaction).toBe('function');
+  });
+
   it('should provide close method', () => {
     const config = createDatabaseConfig();
     const pool = new DatabasePool(config);
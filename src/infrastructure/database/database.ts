@@ -1,4 +1,5 @@
-import { Pool, PoolConfig, QueryResult, QueryResultRow } from 'pg';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Pool, PoolClient, PoolConfig, QueryResult, QueryResultRow } from 'pg';
 
 /**
  * Database configuration interface
@@ -32,6 +33,8 @@ export function createDatabaseConfig(overrides: Partial<DatabaseConfig> = {}): D
 export class DatabasePool {
   private readonly pool: Pool;
   private readonly config: DatabaseConfig;
+  private readonly transactionClient = new AsyncLocalStorage<PoolClient>();
+  private savepointSequence = 0;
 
   constructor(config: DatabaseConfig) {
     this.config = config;
@@ -55,14 +58,73 @@ export class DatabasePool {
 
   /**
    * Execute a query
+   * Inside a transaction, the query runs on the transaction's client
    */
   async query<T extends QueryResultRow = QueryResultRow>(
     text: string,
     params?: unknown[]
   ): Promise<QueryResult<T>> {
+    const client = this.transactionClient.getStore();
+    if (client !== undefined) {
+      return client.query<T>(text, params);
+    }
     return this.pool.query<T>(text, params);
   }
 
+  /**
+   * Execute work inside a transaction
+   * All queries issued through this pool during the work share one client.
+   * The transaction is rolled back when the work throws or shouldRollback returns true.
+   * Nested calls run inside a savepoint of the outer transaction, so a failed nested call
+   * (including a failed statement such as a unique violation) only rolls back its own work
+   * and the outer transaction can continue.
+   */
+  async transaction<T>(
+    work: () => Promise<T>,
+    shouldRollback: (result: T) => boolean = () => false
+  ): Promise<T> {
+    const outerClient = this.transactionClient.getStore();
+    if (outerClient !== undefined) {
+      return this.savepoint(outerClient, work, shouldRollback);
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await this.transactionClient.run(client, work);
+      await client.query(shouldRollback(result) ? 'ROLLBACK' : 'COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Execute nested work inside a savepoint of the current transaction
+   */
+  private async savepoint<T>(
+    client: PoolClient,
+    work: () => Promise<T>,
+    shouldRollback: (result: T) => boolean
+  ): Promise<T> {
+    this.savepointSequence += 1;
+    const name = `sp_${String(this.savepointSequence)}`;
+    await client.query(`SAVEPOINT ${name}`);
+    try {
+      const result = await work();
+      await client.query(
+        shouldRollback(result) ? `ROLLBACK TO SAVEPOINT ${name}` : `RELEASE SAVEPOINT ${name}`
+      );
+      return result;
+    } catch (error) {
+      await client.query(`ROLLBACK TO SAVEPOINT ${name}`);
+      throw error;
+    }
+  }
+
   /**
    * Close the connection pool
    */
@@ -1,6 +1,7 @@
 // Database module exports
 export { DatabaseConfig, DatabasePool, createDatabaseConfig } from './database.js';
 export { Migration, MigrationRunner, createMigration } from './migration.js';
+export { createPgUnitOfWork } from './unit-of-work.js';
 export {
   createBooksTableMigration,
   createBookCopiesTableMigration,
@@ -9,5 +10,33 @@ export {
   createReservationsTableMigration,
   createOverdueRecordsTableMigration,
   createFullTextSearchIndexMigration,
+  alterBooksPublisherNotNullMigration,
+  addLoansRenewalCountMigration,
+  createLoanPoliciesTableMigration,
+  addUsersPatronCategoryMigration,
+  addLoansLoanPolicyIdMigration,
+  createLoansActiveCopyUniqueIndexMigration,
+  createFineRatesTableMigration,
+  createFineTransactionsTableMigration,
+  addBooksReplacementCostMigration,
+  alterBookCopiesStatusLostDamagedMigration,
+  addLoansStatusMigration,
+  alterFineTransactionsTypeReplacementMigration,
+  alterLoansStatusClaimedReturnedMigration,
+  createReturnClaimsTableMigration,
+  addLoansReturnProcessedAtMigration,
+  createBookDropModeTableMigration,
+  createOpeningHoursTableMigration,
+  createHolidaysTableMigration,
+  createClosuresTableMigration,
+  addLoansRecalledAtMigration,
+  addReservationsCopyIdMigration,
+  createJobTablesMigration,
+  createOverdueSnapshotsTableMigration,
+  addReservationsSuspendedUntilMigration,
+  createReservationQueueChangesTableMigration,
+  createServicePointsTableMigration,
+  addReservationsPickupLocationMigration,
+  createTransitRequestsTableMigration,
   getAllMigrations,
 } from './schema.js';
@@ -7,6 +7,40 @@ import {
   createReservationsTableMigration,
   createOverdueRecordsTableMigration,
   createFullTextSearchIndexMigration,
+  addLoansRenewalCountMigration,
+  createLoanPoliciesTableMigration,
+  addUsersPatronCategoryMigration,
+  addLoansLoanPolicyIdMigration,
+  createLoansActiveCopyUniqueIndexMigration,
+  createFineRatesTableMigration,
+  createFineTransactionsTableMigration,
+  addBooksReplacementCostMigration,
+  alterBookCopiesStatusLostDamagedMigration,
+  addLoansStatusMigration,
+  alterFineTransactionsTypeReplacementMigration,
+  alterLoansStatusClaimedReturnedMigration,
+  createReturnClaimsTableMigration,
+  addLoansReturnProcessedAtMigration,
+  createBookDropModeTableMigration,
+  createOpeningHoursTableMigration,
+  createHolidaysTableMigration,
+  createClosuresTableMigration,
+  addLoansRecalledAtMigration,
+  addReservationsCopyIdMigration,
+  createJobTablesMigration,
+  createOverdueSnapshotsTableMigration,
+  addReservationsSuspendedUntilMigration,
+  createReservationQueueChangesTableMigration,
+  createServicePointsTableMigration,
+  addReservationsPickupLocationMigration,
+  createTransitRequestsTableMigration,
+  createPurchaseSuggestionsTableMigration,
+  addBookCopiesBarcodeMigration,
+  createBookImportTablesMigration,
+  normalizeBooksIsbnMigration,
+  createBookContributorsTablesMigration,
+  createClassificationsTablesMigration,
+  addUsersCredentialsMigration,
   getAllMigrations,
 } from './schema.js';
 
@@ -130,11 +164,421 @@ describe('Schema Migrations', () => {
     });
   });
 
+  describe('Loans Renewal Count', () => {
+    it('should add renewal_count column to loans table', () => {
+      const migration = addLoansRenewalCountMigration();
+
+      expect(migration.name).toBe('009_add_loans_renewal_count');
+      expect(migration.up).toContain('ALTER TABLE loans');
+      expect(migration.up).toContain('renewal_count INTEGER NOT NULL DEFAULT 0');
+      expect(migration.down).toContain('DROP COLUMN IF EXISTS renewal_count');
+    });
+  });
+
+  describe('LoanPolicies Table', () => {
+    it('should create loan_policies table migration with correct structure', () => {
+      const migration = createLoanPoliciesTableMigration();
+
+      expect(migration.name).toBe('010_create_loan_policies_table');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS loan_policies');
+      expect(migration.up).toContain('book_category VARCHAR(100)');
+      expect(migration.up).toContain('patron_category VARCHAR(50)');
+      expect(migration.up).toContain('loan_duration_days INTEGER NOT NULL');
+      expect(migration.up).toContain('max_renewals INTEGER NOT NULL');
+      expect(migration.up).toContain('max_items INTEGER');
+      expect(migration.up).toContain('grace_period_days INTEGER NOT NULL DEFAULT 0');
+      expect(migration.up).toContain(
+        'CREATE UNIQUE INDEX IF NOT EXISTS idx_loan_policies_categories'
+      );
+      expect(migration.down).toContain('DROP TABLE IF EXISTS loan_policies');
+    });
+
+    it('should add patron_category column to users table', () => {
+      const migration = addUsersPatronCategoryMigration();
+
+      expect(migration.name).toBe('011_add_users_patron_category');
+      expect(migration.up).toContain('ALTER TABLE users');
+      expect(migration.up).toContain('patron_category VARCHAR(50)');
+      expect(migration.down).toContain('DROP COLUMN IF EXISTS patron_category');
+    });
+
+    it('should add loan_policy_id column to loans table', () => {
+      const migration = addLoansLoanPolicyIdMigration();
+
+      expect(migration.name).toBe('012_add_loans_loan_policy_id');
+      expect(migration.up).toContain('ALTER TABLE loans');
+      expect(migration.up).toContain('REFERENCES loan_policies(id) ON DELETE SET NULL');
+      expect(migration.down).toContain('DROP COLUMN IF EXISTS loan_policy_id');
+    });
+  });
+
+  describe('Loans Active Copy Unique Index', () => {
+    it('should allow only one active loan per book copy', () => {
+      const migration = createLoansActiveCopyUniqueIndexMigration();
+
+      expect(migration.name).toBe('013_create_loans_active_copy_unique_index');
+      expect(migration.up).toContain('CREATE UNIQUE INDEX IF NOT EXISTS');
+      expect(migration.up).toContain('ON loans(book_copy_id) WHERE returned_at IS NULL');
+      expect(migration.down).toContain('DROP INDEX IF EXISTS idx_loans_active_book_copy_id');
+    });
+
+    it('should report copies with several active loans before creating the index', () => {
+      const migration = createLoansActiveCopyUniqueIndexMigration();
+
+      expect(migration.up).toContain('HAVING COUNT(*) > 1');
+      expect(migration.up).toContain('RAISE EXCEPTION');
+      expect(migration.up.indexOf('RAISE EXCEPTION')).toBeLessThan(
+        migration.up.indexOf('CREATE UNIQUE INDEX')
+      );
+    });
+  });
+
+  describe('Fines Tables', () => {
+    it('should create fine_rates table migration with correct structure', () => {
+      const migration = createFineRatesTableMigration();
+
+      expect(migration.name).toBe('014_create_fine_rates_table');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS fine_rates');
+      expect(migration.up).toContain('daily_rate INTEGER NOT NULL');
+      expect(migration.up).toContain('max_amount INTEGER');
+      expect(migration.up).toContain(
+        'CREATE UNIQUE INDEX IF NOT EXISTS idx_fine_rates_book_category'
+      );
+      expect(migration.down).toContain('DROP TABLE IF EXISTS fine_rates');
+    });
+
+    it('should create fine_transactions table migration with correct structure', () => {
+      const migration = createFineTransactionsTableMigration();
+
+      expect(migration.name).toBe('015_create_fine_transactions_table');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS fine_transactions');
+      expect(migration.up).toContain('user_id UUID NOT NULL REFERENCES users(id)');
+      expect(migration.up).toContain("CHECK (type IN ('CHARGE', 'PAYMENT', 'WAIVER', 'REFUND'))");
+      expect(migration.up).toContain('amount INTEGER NOT NULL CHECK (amount > 0)');
+      expect(migration.down).toContain('DROP TABLE IF EXISTS fine_transactions');
+    });
+  });
+
+  describe('Lost and Damaged Items', () => {
+    it('should add replacement_cost column to books', () => {
+      const migration = addBooksReplacementCostMigration();
+
+      expect(migration.name).toBe('016_add_books_replacement_cost');
+      expect(migration.up).toContain('ALTER TABLE books ADD COLUMN IF NOT EXISTS replacement_cost');
+      expect(migration.down).toContain('DROP COLUMN IF EXISTS replacement_cost');
+    });
+
+    it('should allow LOST and DAMAGED book copy statuses', () => {
+      const migration = alterBookCopiesStatusLostDamagedMigration();
+
+      expect(migration.name).toBe('017_alter_book_copies_status_lost_damaged');
+      expect(migration.up).toContain(
+        "CHECK (status IN ('AVAILABLE', 'BORROWED', 'RESERVED', 'MAINTENANCE', 'LOST', 'DAMAGED'))"
+      );
+      expect(migration.down).toContain(
+        "CHECK (status IN ('AVAILABLE', 'BORROWED', 'RESERVED', 'MAINTENANCE'))"
+      );
+    });
+
+    it('should add status column to loans and backfill returned loans', () => {
+      const migration = addLoansStatusMigration();
+
+      expect(migration.name).toBe('018_add_loans_status');
+      expect(migration.up).toContain("CHECK (status IN ('ACTIVE', 'RETURNED', 'LOST', 'DAMAGED'))");
+      expect(migration.up).toContain(
+        "UPDATE loans SET status = 'RETURNED' WHERE returned_at IS NOT NULL"
+      );
+      expect(migration.down).toContain('DROP COLUMN IF EXISTS status');
+    });
+
+    it('should allow REPLACEMENT fine transactions', () => {
+      const migration = alterFineTransactionsTypeReplacementMigration();
+
+      expect(migration.name).toBe('019_alter_fine_transactions_type_replacement');
+      expect(migration.up).toContain(
+        "CHECK (type IN ('CHARGE', 'REPLACEMENT', 'PAYMENT', 'WAIVER', 'REFUND'))"
+      );
+    });
+  });
+
+  describe('Return Claims', () => {
+    it('should allow CLAIMED_RETURNED loan status', () => {
+      const migration = alterLoansStatusClaimedReturnedMigration();
+
+      expect(migration.name).toBe('020_alter_loans_status_claimed_returned');
+      expect(migration.up).toContain(
+        "CHECK (status IN ('ACTIVE', 'CLAIMED_RETURNED', 'RETURNED', 'LOST', 'DAMAGED'))"
+      );
+      expect(migration.down).toContain(
+        "CHECK (status IN ('ACTIVE', 'RETURNED', 'LOST', 'DAMAGED'))"
+      );
+    });
+
+    it('should create return_claims table with one open claim per loan', () => {
+      const migration = createReturnClaimsTableMigration();
+
+      expect(migration.name).toBe('021_create_return_claims_table');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS return_claims');
+      expect(migration.up).toContain('loan_id UUID NOT NULL REFERENCES loans(id)');
+      expect(migration.up).toContain('claimed_by UUID NOT NULL REFERENCES users(id)');
+      expect(migration.up).toContain("CHECK (resolution IN ('FOUND', 'RETURNED', 'LOST'))");
+      expect(migration.up).toContain('ON return_claims(loan_id) WHERE resolved_at IS NULL');
+      expect(migration.down).toContain('DROP TABLE IF EXISTS return_claims');
+    });
+  });
+
+  describe('Backdated Returns', () => {
+    it('should add return_processed_at column to loans and backfill returned loans', () => {
+      const migration = addLoansReturnProcessedAtMigration();
+
+      expect(migration.name).toBe('022_add_loans_return_processed_at');
+      expect(migration.up).toContain(
+        'ALTER TABLE loans ADD COLUMN IF NOT EXISTS return_processed_at'
+      );
+      expect(migration.up).toContain('SET return_processed_at = returned_at');
+      expect(migration.down).toContain('DROP COLUMN IF EXISTS return_processed_at');
+    });
+
+    it('should create single-row book_drop_mode table disabled by default', () => {
+      const migration = createBookDropModeTableMigration();
+
+      expect(migration.name).toBe('023_create_book_drop_mode_table');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS book_drop_mode');
+      expect(migration.up).toContain('CHECK (id = 1)');
+      expect(migration.up).toContain('INSERT INTO book_drop_mode (id, enabled) VALUES (1, FALSE)');
+      expect(migration.down).toContain('DROP TABLE IF EXISTS book_drop_mode');
+    });
+  });
+
+  describe('Opening Calendar', () => {
+    it('should create opening_hours table with Sunday closed by default', () => {
+      const migration = createOpeningHoursTableMigration();
+
+      expect(migration.name).toBe('024_create_opening_hours_table');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS opening_hours');
+      expect(migration.up).toContain('CHECK (weekday BETWEEN 0 AND 6)');
+      expect(migration.up).toContain('(0, NULL, NULL)');
+      expect(migration.down).toContain('DROP TABLE IF EXISTS opening_hours');
+    });
+
+    it('should create holidays table', () => {
+      const migration = createHolidaysTableMigration();
+
+      expect(migration.name).toBe('025_create_holidays_table');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS holidays');
+      expect(migration.up).toContain('recurring BOOLEAN NOT NULL DEFAULT FALSE');
+      expect(migration.down).toContain('DROP TABLE IF EXISTS holidays');
+    });
+
+    it('should create closures table with valid period constraint', () => {
+      const migration = createClosuresTableMigration();
+
+      expect(migration.name).toBe('026_create_closures_table');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS closures');
+      expect(migration.up).toContain('CHECK (start_date <= end_date)');
+      expect(migration.down).toContain('DROP TABLE IF EXISTS closures');
+    });
+
+    it('should add recalled_at column to loans table', () => {
+      const migration = addLoansRecalledAtMigration();
+
+      expect(migration.name).toBe('027_add_loans_recalled_at');
+      expect(migration.up).toContain('ADD COLUMN IF NOT EXISTS recalled_at');
+      expect(migration.down).toContain('DROP COLUMN IF EXISTS recalled_at');
+    });
+
+    it('should add copy_id column to reservations table', () => {
+      const migration = addReservationsCopyIdMigration();
+
+      expect(migration.name).toBe('028_add_reservations_copy_id');
+      expect(migration.up).toContain('ADD COLUMN IF NOT EXISTS copy_id');
+      expect(migration.up).toContain('REFERENCES book_copies(id)');
+      expect(migration.down).toContain('DROP COLUMN IF EXISTS copy_id');
+    });
+
+    it('should create job_states and job_runs tables', () => {
+      const migration = createJobTablesMigration();
+
+      expect(migration.name).toBe('029_create_job_tables');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS job_states');
+      expect(migration.up).toContain('locked_until TIMESTAMP WITH TIME ZONE');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS job_runs');
+      expect(migration.down).toContain('DROP TABLE IF EXISTS job_runs');
+      expect(migration.down).toContain('DROP TABLE IF EXISTS job_states');
+    });
+
+    it('should create overdue_snapshots table unique per date and loan', () => {
+      const migration = createOverdueSnapshotsTableMigration();
+
+      expect(migration.name).toBe('030_create_overdue_snapshots_table');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS overdue_snapshots');
+      expect(migration.up).toContain('UNIQUE (snapshot_date, loan_id)');
+      expect(migration.down).toContain('DROP TABLE IF EXISTS overdue_snapshots');
+    });
+
+    it('should add suspended_until column to reservations table', () => {
+      const migration = addReservationsSuspendedUntilMigration();
+
+      expect(migration.name).toBe('031_add_reservations_suspended_until');
+      expect(migration.up).toContain('ADD COLUMN IF NOT EXISTS suspended_until');
+      expect(migration.down).toContain('DROP COLUMN IF EXISTS suspended_until');
+    });
+
+    it('should create reservation_queue_changes table', () => {
+      const migration = createReservationQueueChangesTableMigration();
+
+      expect(migration.name).toBe('032_create_reservation_queue_changes_table');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS reservation_queue_changes');
+      expect(migration.up).toContain('staff_id UUID NOT NULL REFERENCES users(id)');
+      expect(migration.up).toContain('reason TEXT NOT NULL');
+      expect(migration.down).toContain('DROP TABLE IF EXISTS reservation_queue_changes');
+    });
+
+    it('should create service_points table with unique code', () => {
+      const migration = createServicePointsTableMigration();
+
+      expect(migration.name).toBe('033_create_service_points_table');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS service_points');
+      expect(migration.up).toContain('code VARCHAR(20) NOT NULL UNIQUE');
+      expect(migration.down).toContain('DROP TABLE IF EXISTS service_points');
+    });
+
+    it('should add pickup_location_id and IN_TRANSIT status to reservations table', () => {
+      const migration = addReservationsPickupLocationMigration();
+
+      expect(migration.name).toBe('034_add_reservations_pickup_location');
+      expect(migration.up).toContain('ADD COLUMN IF NOT EXISTS pickup_location_id');
+      expect(migration.up).toContain("'IN_TRANSIT'");
+      expect(migration.down).toContain('DROP COLUMN IF EXISTS pickup_location_id');
+      expect(migration.down).not.toContain("'IN_TRANSIT'");
+    });
+
+    it('should create transit_requests table', () => {
+      const migration = createTransitRequestsTableMigration();
+
+      expect(migration.name).toBe('035_create_transit_requests_table');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS transit_requests');
+      expect(migration.up).toContain(
+        'to_service_point_id UUID NOT NULL REFERENCES service_points(id)'
+      );
+      expect(migration.down).toContain('DROP TABLE IF EXISTS transit_requests');
+    });
+
+    it('should create purchase_suggestions table', () => {
+      const migration = createPurchaseSuggestionsTableMigration();
+
+      expect(migration.name).toBe('036_create_purchase_suggestions_table');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS purchase_suggestions');
+      expect(migration.up).toContain("'SUBMITTED', 'APPROVED', 'REJECTED', 'ORDERED', 'RECEIVED'");
+      expect(migration.up).toContain('reservation_id UUID REFERENCES reservations(id)');
+      expect(migration.down).toContain('DROP TABLE IF EXISTS purchase_suggestions');
+    });
+
+    it('should add unique barcode to book_copies and number existing copies', () => {
+      const migration = addBookCopiesBarcodeMigration();
+
+      expect(migration.name).toBe('037_add_book_copies_barcode');
+      expect(migration.up).toContain('CREATE SEQUENCE IF NOT EXISTS book_copy_barcode_seq');
+      expect(migration.up).toContain('ADD COLUMN IF NOT EXISTS barcode VARCHAR(64)');
+      expect(migration.up).toContain("nextval('book_copy_barcode_seq')");
+      expect(migration.up).toContain('ALTER COLUMN barcode SET NOT NULL');
+      expect(migration.up).toContain(
+        'CREATE UNIQUE INDEX IF NOT EXISTS idx_book_copies_barcode ON book_copies(barcode)'
+      );
+      expect(migration.down).toContain('DROP COLUMN IF EXISTS barcode');
+      expect(migration.down).toContain('DROP SEQUENCE IF EXISTS book_copy_barcode_seq');
+    });
+
+    it('should create book_import_jobs and book_import_rows tables', () => {
+      const migration = createBookImportTablesMigration();
+
+      expect(migration.name).toBe('038_create_book_import_tables');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS book_import_jobs');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS book_import_rows');
+      expect(migration.up).toContain("'PENDING', 'CREATED', 'UPDATED', 'FAILED'");
+      expect(migration.up).toContain('PRIMARY KEY (job_id, row_number)');
+      expect(migration.down).toContain('DROP TABLE IF EXISTS book_import_rows');
+      expect(migration.down).toContain('DROP TABLE IF EXISTS book_import_jobs');
+    });
+  });
+
+  describe('normalizeBooksIsbnMigration', () => {
+    it('should normalise ISBNs and merge duplicated books', () => {
+      const migration = normalizeBooksIsbnMigration();
+
+      expect(migration.name).toBe('039_normalize_books_isbn');
+      expect(migration.up).toContain('CREATE FUNCTION pg_temp.canonical_isbn');
+      expect(migration.up).toContain('PARTITION BY pg_temp.canonical_isbn(isbn)');
+      expect(migration.up).toContain('UPDATE book_copies SET book_id = m.keep_id');
+      expect(migration.up).toContain('DELETE FROM books USING book_isbn_merges');
+      expect(migration.up).toContain('UPDATE books SET isbn = pg_temp.canonical_isbn(isbn)');
+      expect(migration.down).toBe('SELECT 1;');
+    });
+  });
+
+  describe('createBookContributorsTablesMigration', () => {
+    it('should create persons and book_contributors and split existing authors', () => {
+      const migration = createBookContributorsTablesMigration();
+
+      expect(migration.name).toBe('040_create_book_contributors');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS persons');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS book_contributors');
+      expect(migration.up).toContain("'AUTHOR', 'EDITOR', 'TRANSLATOR', 'ILLUSTRATOR'");
+      expect(migration.up).toContain('PRIMARY KEY (book_id, position)');
+      expect(migration.up).toContain('regexp_split_to_table(trim(b.author)');
+      expect(migration.up).toContain('INSERT INTO book_contributors');
+      // "Surname, Forename" names must not be split on the ASCII comma
+      expect(migration.up).toContain(
+        "regexp_split_to_table(trim(b.author), '\\s*[，、;；/／]\\s*')"
+      );
+      expect(migration.down).toContain('DROP TABLE IF EXISTS book_contributors');
+      expect(migration.down).toContain('DROP TABLE IF EXISTS persons');
+    });
+  });
+
+  describe('createClassificationsTablesMigration', () => {
+    it('should create classification tables and map existing categories to subject headings', () => {
+      const migration = createClassificationsTablesMigration();
+
+      expect(migration.name).toBe('041_create_classifications');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS classifications');
+      expect(migration.up).toContain('UNIQUE (scheme, number)');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS subject_headings');
+      expect(migration.up).toContain('CREATE TABLE IF NOT EXISTS book_subject_headings');
+      expect(migration.up).toContain('ADD COLUMN IF NOT EXISTS classification_id');
+      expect(migration.up).toContain('ADD COLUMN IF NOT EXISTS call_number');
+      expect(migration.up).toContain("('NDC', '9', '文学', 1)");
+      expect(migration.up).toContain("('DDC', '800', 'Literature', 1)");
+      expect(migration.up).toContain("('小説', ARRAY['fiction', 'novel', 'novels', '物語'], '9')");
+      expect(migration.up).toContain('lower(trim(category)) AS term');
+      expect(migration.up).toContain('INSERT INTO book_subject_headings');
+      expect(migration.up).toContain('SET classification_id = sh.classification_id');
+      expect(migration.down).toContain('DROP TABLE IF EXISTS book_subject_headings');
+      expect(migration.down).toContain('DROP COLUMN IF EXISTS classification_id');
+      expect(migration.down).toContain('DROP TABLE IF EXISTS classifications');
+    });
+  });
+
+  describe('addUsersCredentialsMigration', () => {
+    it('should add role and password_hash columns to users', () => {
+      const migration = addUsersCredentialsMigration();
+
+      expect(migration.name).toBe('042_add_users_credentials');
+      expect(migration.up).toContain(
+        "ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'patron'"
+      );
+      expect(migration.up).toContain("CHECK (role IN ('patron', 'librarian', 'admin'))");
+      expect(migration.up).toContain('ADD COLUMN IF NOT EXISTS password_hash VARCHAR(255)');
+      expect(migration.down).toContain('DROP COLUMN IF EXISTS password_hash');
+      expect(migration.down).toContain('DROP COLUMN IF EXISTS role');
+    });
+  });
+
   describe('Get All Migrations', () => {
     it('should return all migrations in correct order', () => {
       const migrations = getAllMigrations();
 
-      expect(migrations).toHaveLength(8);
+      expect(migrations).toHaveLength(42);
       expect(migrations[0]!.name).toBe('001_create_books_table');
       expect(migrations[1]!.name).toBe('002_create_book_copies_table');
       expect(migrations[2]!.name).toBe('003_create_users_table');
@@ -143,6 +587,40 @@ describe('Schema Migrations', () => {
       expect(migrations[5]!.name).toBe('006_create_overdue_records_table');
       expect(migrations[6]!.name).toBe('007_create_full_text_search_index');
       expect(migrations[7]!.name).toBe('008_alter_books_publisher_not_null');
+      expect(migrations[8]!.name).toBe('009_add_loans_renewal_count');
+      expect(migrations[9]!.name).toBe('010_create_loan_policies_table');
+      expect(migrations[10]!.name).toBe('011_add_users_patron_category');
+      expect(migrations[11]!.name).toBe('012_add_loans_loan_policy_id');
+      expect(migrations[12]!.name).toBe('013_create_loans_active_copy_unique_index');
+      expect(migrations[13]!.name).toBe('014_create_fine_rates_table');
+      expect(migrations[14]!.name).toBe('015_create_fine_transactions_table');
+      expect(migrations[15]!.name).toBe('016_add_books_replacement_cost');
+      expect(migrations[16]!.name).toBe('017_alter_book_copies_status_lost_damaged');
+      expect(migrations[17]!.name).toBe('018_add_loans_status');
+      expect(migrations[18]!.name).toBe('019_alter_fine_transactions_type_replacement');
+      expect(migrations[19]!.name).toBe('020_alter_loans_status_claimed_returned');
+      expect(migrations[20]!.name).toBe('021_create_return_claims_table');
+      expect(migrations[21]!.name).toBe('022_add_loans_return_processed_at');
+      expect(migrations[22]!.name).toBe('023_create_book_drop_mode_table');
+      expect(migrations[23]!.name).toBe('024_create_opening_hours_table');
+      expect(migrations[24]!.name).toBe('025_create_holidays_table');
+      expect(migrations[25]!.name).toBe('026_create_closures_table');
+      expect(migrations[26]!.name).toBe('027_add_loans_recalled_at');
+      expect(migrations[27]!.name).toBe('028_add_reservations_copy_id');
+      expect(migrations[28]!.name).toBe('029_create_job_tables');
+      expect(migrations[29]!.name).toBe('030_create_overdue_snapshots_table');
+      expect(migrations[30]!.name).toBe('031_add_reservations_suspended_until');
+      expect(migrations[31]!.name).toBe('032_create_reservation_queue_changes_table');
+      expect(migrations[32]!.name).toBe('033_create_service_points_table');
+      expect(migrations[33]!.name).toBe('034_add_reservations_pickup_location');
+      expect(migrations[34]!.name).toBe('035_create_transit_requests_table');
+      expect(migrations[35]!.name).toBe('036_create_purchase_suggestions_table');
+      expect(migrations[36]!.name).toBe('037_add_book_copies_barcode');
+      expect(migrations[37]!.name).toBe('038_create_book_import_tables');
+      expect(migrations[38]!.name).toBe('039_normalize_books_isbn');
+      expect(migrations[39]!.name).toBe('040_create_book_contributors');
+      expect(migrations[40]!.name).toBe('041_create_classifications');
+      expect(migrations[41]!.name).toBe('042_add_users_credentials');
     });
   });
 });
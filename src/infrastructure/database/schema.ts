@@ -175,6 +175,984 @@ ALTER TABLE books ALTER COLUMN publisher SET NOT NULL;
   });
 }
 
+/**
+ * Add renewal_count column to loans table migration
+ */
+export function addLoansRenewalCountMigration(): Migration {
+  return createMigration({
+    name: '009_add_loans_renewal_count',
+    up: `
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS renewal_count INTEGER NOT NULL DEFAULT 0;
+`,
+    down: 'ALTER TABLE loans DROP COLUMN IF EXISTS renewal_count;',
+  });
+}
+
+/**
+ * Create LoanPolicies table migration
+ */
+export function createLoanPoliciesTableMigration(): Migration {
+  return createMigration({
+    name: '010_create_loan_policies_table',
+    up: `
+CREATE TABLE IF NOT EXISTS loan_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  book_category VARCHAR(100),
+  patron_category VARCHAR(50),
+  loan_duration_days INTEGER NOT NULL CHECK (loan_duration_days > 0),
+  max_renewals INTEGER NOT NULL CHECK (max_renewals >= 0),
+  max_items INTEGER CHECK (max_items > 0),
+  grace_period_days INTEGER NOT NULL DEFAULT 0 CHECK (grace_period_days >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loan_policies_categories
+  ON loan_policies(COALESCE(book_category, ''), COALESCE(patron_category, ''));
+`,
+    down: 'DROP TABLE IF EXISTS loan_policies;',
+  });
+}
+
+/**
+ * Add patron_category column to users table migration
+ */
+export function addUsersPatronCategoryMigration(): Migration {
+  return createMigration({
+    name: '011_add_users_patron_category',
+    up: `
+ALTER TABLE users ADD COLUMN IF NOT EXISTS patron_category VARCHAR(50);
+`,
+    down: 'ALTER TABLE users DROP COLUMN IF EXISTS patron_category;',
+  });
+}
+
+/**
+ * Add loan_policy_id column to loans table migration
+ */
+export function addLoansLoanPolicyIdMigration(): Migration {
+  return createMigration({
+    name: '012_add_loans_loan_policy_id',
+    up: `
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS loan_policy_id UUID REFERENCES loan_policies(id) ON DELETE SET NULL;
+`,
+    down: 'ALTER TABLE loans DROP COLUMN IF EXISTS loan_policy_id;',
+  });
+}
+
+/**
+ * Create partial unique index allowing only one active loan per copy migration
+ *
+ * Fails with the conflicting copies listed when existing data already has several
+ * active loans for one copy, since picking which loan to close needs a librarian.
+ */
+export function createLoansActiveCopyUniqueIndexMigration(): Migration {
+  return createMigration({
+    name: '013_create_loans_active_copy_unique_index',
+    up: `
+DO $$
+DECLARE
+  conflicts TEXT;
+BEGIN
+  SELECT string_agg(book_copy_id::TEXT || ' (' || active_count::TEXT || ' active loans)', ', ')
+    INTO conflicts
+    FROM (
+      SELECT book_copy_id, COUNT(*) AS active_count
+        FROM loans
+       WHERE returned_at IS NULL
+       GROUP BY book_copy_id
+      HAVING COUNT(*) > 1
+    ) AS duplicates;
+
+  IF conflicts IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot create idx_loans_active_book_copy_id: book copies with more than one active loan: %. Return the duplicate loans and rerun the migration.', conflicts;
+  END IF;
+END
+$$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loans_active_book_copy_id
+  ON loans(book_copy_id) WHERE returned_at IS NULL;
+`,
+    down: 'DROP INDEX IF EXISTS idx_loans_active_book_copy_id;',
+  });
+}
+
+/**
+ * Create fine_rates table migration
+ */
+export function createFineRatesTableMigration(): Migration {
+  return createMigration({
+    name: '014_create_fine_rates_table',
+    up: `
+CREATE TABLE IF NOT EXISTS fine_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  book_category VARCHAR(100),
+  daily_rate INTEGER NOT NULL CHECK (daily_rate >= 0),
+  max_amount INTEGER CHECK (max_amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fine_rates_book_category
+  ON fine_rates(COALESCE(book_category, ''));
+`,
+    down: 'DROP TABLE IF EXISTS fine_rates;',
+  });
+}
+
+/**
+ * Create fine_transactions (patron account ledger) table migration
+ */
+export function createFineTransactionsTableMigration(): Migration {
+  return createMigration({
+    name: '015_create_fine_transactions_table',
+    up: `
+CREATE TABLE IF NOT EXISTS fine_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('CHARGE', 'PAYMENT', 'WAIVER', 'REFUND')),
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  loan_id UUID REFERENCES loans(id) ON DELETE SET NULL,
+  reason VARCHAR(500),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fine_transactions_user_id ON fine_transactions(user_id);
+`,
+    down: 'DROP TABLE IF EXISTS fine_transactions;',
+  });
+}
+
+/**
+ * Add replacement_cost column to books table migration
+ */
+export function addBooksReplacementCostMigration(): Migration {
+  return createMigration({
+    name: '016_add_books_replacement_cost',
+    up: `
+ALTER TABLE books ADD COLUMN IF NOT EXISTS replacement_cost INTEGER CHECK (replacement_cost >= 0);
+`,
+    down: 'ALTER TABLE books DROP COLUMN IF EXISTS replacement_cost;',
+  });
+}
+
+/**
+ * Allow LOST and DAMAGED statuses on book_copies migration
+ */
+export function alterBookCopiesStatusLostDamagedMigration(): Migration {
+  return createMigration({
+    name: '017_alter_book_copies_status_lost_damaged',
+    up: `
+ALTER TABLE book_copies DROP CONSTRAINT IF EXISTS book_copies_status_check;
+ALTER TABLE book_copies ADD CONSTRAINT book_copies_status_check
+  CHECK (status IN ('AVAILABLE', 'BORROWED', 'RESERVED', 'MAINTENANCE', 'LOST', 'DAMAGED'));
+`,
+    down: `
+ALTER TABLE book_copies DROP CONSTRAINT IF EXISTS book_copies_status_check;
+ALTER TABLE book_copies ADD CONSTRAINT book_copies_status_check
+  CHECK (status IN ('AVAILABLE', 'BORROWED', 'RESERVED', 'MAINTENANCE'));
+`,
+  });
+}
+
+/**
+ * Add status column to loans table migration
+ */
+export function addLoansStatusMigration(): Migration {
+  return createMigration({
+    name: '018_add_loans_status',
+    up: `
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'ACTIVE'
+  CHECK (status IN ('ACTIVE', 'RETURNED', 'LOST', 'DAMAGED'));
+
+-- 既存の返却済み貸出を RETURNED に更新
+UPDATE loans SET status = 'RETURNED' WHERE returned_at IS NOT NULL;
+`,
+    down: 'ALTER TABLE loans DROP COLUMN IF EXISTS status;',
+  });
+}
+
+/**
+ * Allow REPLACEMENT type on fine_transactions migration
+ */
+export function alterFineTransactionsTypeReplacementMigration(): Migration {
+  return createMigration({
+    name: '019_alter_fine_transactions_type_replacement',
+    up: `
+ALTER TABLE fine_transactions DROP CONSTRAINT IF EXISTS fine_transactions_type_check;
+ALTER TABLE fine_transactions ADD CONSTRAINT fine_transactions_type_check
+  CHECK (type IN ('CHARGE', 'REPLACEMENT', 'PAYMENT', 'WAIVER', 'REFUND'));
+`,
+    down: `
+ALTER TABLE fine_transactions DROP CONSTRAINT IF EXISTS fine_transactions_type_check;
+ALTER TABLE fine_transactions ADD CONSTRAINT fine_transactions_type_check
+  CHECK (type IN ('CHARGE', 'PAYMENT', 'WAIVER', 'REFUND'));
+`,
+  });
+}
+
+/**
+ * Allow CLAIMED_RETURNED status on loans migration
+ */
+export function alterLoansStatusClaimedReturnedMigration(): Migration {
+  return createMigration({
+    name: '020_alter_loans_status_claimed_returned',
+    up: `
+ALTER TABLE loans DROP CONSTRAINT IF EXISTS loans_status_check;
+ALTER TABLE loans ADD CONSTRAINT loans_status_check
+  CHECK (status IN ('ACTIVE', 'CLAIMED_RETURNED', 'RETURNED', 'LOST', 'DAMAGED'));
+`,
+    down: `
+ALTER TABLE loans DROP CONSTRAINT IF EXISTS loans_status_check;
+ALTER TABLE loans ADD CONSTRAINT loans_status_check
+  CHECK (status IN ('ACTIVE', 'RETURNED', 'LOST', 'DAMAGED'));
+`,
+  });
+}
+
+/**
+ * Create return_claims table migration
+ */
+export function createReturnClaimsTableMigration(): Migration {
+  return createMigration({
+    name: '021_create_return_claims_table',
+    up: `
+CREATE TABLE IF NOT EXISTS return_claims (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  loan_id UUID NOT NULL REFERENCES loans(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  claimed_by UUID NOT NULL REFERENCES users(id),
+  claimed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  search_count INTEGER NOT NULL DEFAULT 0 CHECK (search_count >= 0),
+  last_searched_at TIMESTAMP WITH TIME ZONE,
+  resolution VARCHAR(20) CHECK (resolution IN ('FOUND', 'RETURNED', 'LOST')),
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_return_claims_open_loan_id
+  ON return_claims(loan_id) WHERE resolved_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_return_claims_open_user_id
+  ON return_claims(user_id) WHERE resolved_at IS NULL;
+`,
+    down: 'DROP TABLE IF EXISTS return_claims;',
+  });
+}
+
+/**
+ * Add return_processed_at column to loans table migration
+ */
+export function addLoansReturnProcessedAtMigration(): Migration {
+  return createMigration({
+    name: '022_add_loans_return_processed_at',
+    up: `
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS return_processed_at TIMESTAMP WITH TIME ZONE;
+
+-- 既存の返却済み貸出は返却日時を処理日時とする
+UPDATE loans SET return_processed_at = returned_at
+  WHERE status = 'RETURNED' AND return_processed_at IS NULL;
+`,
+    down: 'ALTER TABLE loans DROP COLUMN IF EXISTS return_processed_at;',
+  });
+}
+
+/**
+ * Create book_drop_mode (library-wide single row) table migration
+ */
+export function createBookDropModeTableMigration(): Migration {
+  return createMigration({
+    name: '023_create_book_drop_mode_table',
+    up: `
+CREATE TABLE IF NOT EXISTS book_drop_mode (
+  id SMALLINT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO book_drop_mode (id, enabled) VALUES (1, FALSE) ON CONFLICT (id) DO NOTHING;
+`,
+    down: 'DROP TABLE IF EXISTS book_drop_mode;',
+  });
+}
+
+/**
+ * Create opening_hours (weekly opening hours per weekday) table migration
+ */
+export function createOpeningHoursTableMigration(): Migration {
+  return createMigration({
+    name: '024_create_opening_hours_table',
+    up: `
+CREATE TABLE IF NOT EXISTS opening_hours (
+  weekday SMALLINT PRIMARY KEY CHECK (weekday BETWEEN 0 AND 6),
+  opens_at TIME,
+  closes_at TIME,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (
+    (opens_at IS NULL AND closes_at IS NULL)
+    OR (opens_at IS NOT NULL AND closes_at IS NOT NULL AND opens_at < closes_at)
+  )
+);
+
+-- 既定は日曜定休（月〜土 9:00〜19:00）
+INSERT INTO opening_hours (weekday, opens_at, closes_at) VALUES
+  (0, NULL, NULL),
+  (1, '09:00', '19:00'),
+  (2, '09:00', '19:00'),
+  (3, '09:00', '19:00'),
+  (4, '09:00', '19:00'),
+  (5, '09:00', '19:00'),
+  (6, '09:00', '19:00')
+ON CONFLICT (weekday) DO NOTHING;
+`,
+    down: 'DROP TABLE IF EXISTS opening_hours;',
+  });
+}
+
+/**
+ * Create holidays table migration
+ */
+export function createHolidaysTableMigration(): Migration {
+  return createMigration({
+    name: '025_create_holidays_table',
+    up: `
+CREATE TABLE IF NOT EXISTS holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  date DATE NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  recurring BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_holidays_date ON holidays(date);
+`,
+    down: 'DROP TABLE IF EXISTS holidays;',
+  });
+}
+
+/**
+ * Create closures (one-off closure periods) table migration
+ */
+export function createClosuresTableMigration(): Migration {
+  return createMigration({
+    name: '026_create_closures_table',
+    up: `
+CREATE TABLE IF NOT EXISTS closures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason VARCHAR(200) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (start_date <= end_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_closures_period ON closures(start_date, end_date);
+`,
+    down: 'DROP TABLE IF EXISTS closures;',
+  });
+}
+
+/**
+ * Add recalled_at column to loans table migration
+ */
+export function addLoansRecalledAtMigration(): Migration {
+  return createMigration({
+    name: '027_add_loans_recalled_at',
+    up: `
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS recalled_at TIMESTAMP WITH TIME ZONE;
+`,
+    down: 'ALTER TABLE loans DROP COLUMN IF EXISTS recalled_at;',
+  });
+}
+
+/**
+ * Add copy_id column to reservations table migration (hold shelf allocation)
+ */
+export function addReservationsCopyIdMigration(): Migration {
+  return createMigration({
+    name: '028_add_reservations_copy_id',
+    up: `
+ALTER TABLE reservations
+  ADD COLUMN IF NOT EXISTS copy_id UUID REFERENCES book_copies(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reservations_copy_id ON reservations(copy_id);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_reservations_copy_id;
+ALTER TABLE reservations DROP COLUMN IF EXISTS copy_id;
+`,
+  });
+}
+
+/**
+ * Create job_states (last run time and leader lock per job) and job_runs tables migration
+ */
+export function createJobTablesMigration(): Migration {
+  return createMigration({
+    name: '029_create_job_tables',
+    up: `
+CREATE TABLE IF NOT EXISTS job_states (
+  name VARCHAR(100) PRIMARY KEY,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  locked_by VARCHAR(255),
+  locked_until TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS job_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_name VARCHAR(100) NOT NULL,
+  trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('SCHEDULED', 'MANUAL')),
+  status VARCHAR(20) NOT NULL CHECK (status IN ('SUCCEEDED', 'FAILED')),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  finished_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  summary TEXT,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_runs_job_name_started_at
+  ON job_runs(job_name, started_at DESC);
+`,
+    down: `
+DROP TABLE IF EXISTS job_runs;
+DROP TABLE IF EXISTS job_states;
+`,
+  });
+}
+
+/**
+ * Create overdue_snapshots (daily snapshot of overdue loans) table migration
+ */
+export function createOverdueSnapshotsTableMigration(): Migration {
+  return createMigration({
+    name: '030_create_overdue_snapshots_table',
+    up: `
+CREATE TABLE IF NOT EXISTS overdue_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  snapshot_date DATE NOT NULL,
+  loan_id UUID NOT NULL REFERENCES loans(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  overdue_days INTEGER NOT NULL CHECK (overdue_days >= 0),
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (snapshot_date, loan_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_overdue_snapshots_user_id ON overdue_snapshots(user_id);
+`,
+    down: 'DROP TABLE IF EXISTS overdue_snapshots;',
+  });
+}
+
+/**
+ * Add suspended_until column to reservations table migration (reservation freeze periods)
+ */
+export function addReservationsSuspendedUntilMigration(): Migration {
+  return createMigration({
+    name: '031_add_reservations_suspended_until',
+    up: `
+ALTER TABLE reservations ADD COLUMN IF NOT EXISTS suspended_until TIMESTAMP WITH TIME ZONE;
+`,
+    down: 'ALTER TABLE reservations DROP COLUMN IF EXISTS suspended_until;',
+  });
+}
+
+/**
+ * Create reservation_queue_changes table migration (audit log of manual queue reorders)
+ */
+export function createReservationQueueChangesTableMigration(): Migration {
+  return createMigration({
+    name: '032_create_reservation_queue_changes_table',
+    up: `
+CREATE TABLE IF NOT EXISTS reservation_queue_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reservation_id UUID NOT NULL REFERENCES reservations(id) ON DELETE CASCADE,
+  book_id UUID NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  staff_id UUID NOT NULL REFERENCES users(id),
+  from_position INTEGER NOT NULL CHECK (from_position >= 1),
+  to_position INTEGER NOT NULL CHECK (to_position >= 1),
+  reason TEXT NOT NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservation_queue_changes_book_id
+  ON reservation_queue_changes(book_id, changed_at DESC);
+`,
+    down: 'DROP TABLE IF EXISTS reservation_queue_changes;',
+  });
+}
+
+/**
+ * Create service_points table migration (branches and counters used as reservation pickup locations)
+ */
+export function createServicePointsTableMigration(): Migration {
+  return createMigration({
+    name: '033_create_service_points_table',
+    up: `
+CREATE TABLE IF NOT EXISTS service_points (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(20) NOT NULL UNIQUE,
+  name VARCHAR(255) NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+`,
+    down: 'DROP TABLE IF EXISTS service_points;',
+  });
+}
+
+/**
+ * Add pickup location and IN_TRANSIT status to reservations migration
+ */
+export function addReservationsPickupLocationMigration(): Migration {
+  return createMigration({
+    name: '034_add_reservations_pickup_location',
+    up: `
+ALTER TABLE reservations ADD COLUMN IF NOT EXISTS pickup_location_id UUID REFERENCES service_points(id);
+ALTER TABLE reservations DROP CONSTRAINT IF EXISTS reservations_status_check;
+ALTER TABLE reservations ADD CONSTRAINT reservations_status_check
+  CHECK (status IN ('PENDING', 'IN_TRANSIT', 'NOTIFIED', 'FULFILLED', 'EXPIRED', 'CANCELLED'));
+`,
+    down: `
+ALTER TABLE reservations DROP CONSTRAINT IF EXISTS reservations_status_check;
+ALTER TABLE reservations ADD CONSTRAINT reservations_status_check
+  CHECK (status IN ('PENDING', 'NOTIFIED', 'FULFILLED', 'EXPIRED', 'CANCELLED'));
+ALTER TABLE reservations DROP COLUMN IF EXISTS pickup_location_id;
+`,
+  });
+}
+
+/**
+ * Create transit_requests table migration (copies sent between service points for reservations)
+ */
+export function createTransitRequestsTableMigration(): Migration {
+  return createMigration({
+    name: '035_create_transit_requests_table',
+    up: `
+CREATE TABLE IF NOT EXISTS transit_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  copy_id UUID NOT NULL REFERENCES book_copies(id) ON DELETE CASCADE,
+  reservation_id UUID NOT NULL REFERENCES reservations(id) ON DELETE CASCADE,
+  from_service_point_id UUID NOT NULL REFERENCES service_points(id),
+  to_service_point_id UUID NOT NULL REFERENCES service_points(id),
+  status VARCHAR(20) NOT NULL DEFAULT 'IN_TRANSIT' CHECK (status IN ('IN_TRANSIT', 'RECEIVED')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  received_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_transit_requests_status ON transit_requests(status, created_at);
+`,
+    down: 'DROP TABLE IF EXISTS transit_requests;',
+  });
+}
+
+/**
+ * Create purchase_suggestions table migration (patron/librarian requests for titles not in the catalogue)
+ */
+export function createPurchaseSuggestionsTableMigration(): Migration {
+  return createMigration({
+    name: '036_create_purchase_suggestions_table',
+    up: `
+CREATE TABLE IF NOT EXISTS purchase_suggestions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id),
+  title VARCHAR(500) NOT NULL,
+  author VARCHAR(255),
+  isbn VARCHAR(20),
+  note TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'SUBMITTED'
+    CHECK (status IN ('SUBMITTED', 'APPROVED', 'REJECTED', 'ORDERED', 'RECEIVED')),
+  handled_by UUID REFERENCES users(id),
+  rejection_reason TEXT,
+  book_id UUID REFERENCES books(id),
+  reservation_id UUID REFERENCES reservations(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_suggestions_status ON purchase_suggestions(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_purchase_suggestions_user_id ON purchase_suggestions(user_id);
+`,
+    down: 'DROP TABLE IF EXISTS purchase_suggestions;',
+  });
+}
+
+/**
+ * Add barcode to book_copies migration
+ *
+ * Existing copies are numbered from the barcode sequence with the default prefix (LIB),
+ * eight sequence digits and a GS1 mod-10 check digit over the sequence digits.
+ */
+export function addBookCopiesBarcodeMigration(): Migration {
+  return createMigration({
+    name: '037_add_book_copies_barcode',
+    up: `
+CREATE SEQUENCE IF NOT EXISTS book_copy_barcode_seq;
+ALTER TABLE book_copies ADD COLUMN IF NOT EXISTS barcode VARCHAR(64);
+
+WITH numbered AS (
+  SELECT id, lpad(nextval('book_copy_barcode_seq')::text, 8, '0') AS digits
+  FROM (SELECT id FROM book_copies WHERE barcode IS NULL ORDER BY created_at) AS pending
+)
+UPDATE book_copies SET barcode = 'LIB' || numbered.digits || (
+  (10 - (
+    SELECT SUM(substr(numbered.digits, i, 1)::int * CASE WHEN i % 2 = 0 THEN 3 ELSE 1 END)
+    FROM generate_series(1, 8) AS i
+  ) % 10) % 10
+)::text
+FROM numbered
+WHERE book_copies.id = numbered.id;
+
+ALTER TABLE book_copies ALTER COLUMN barcode SET NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_book_copies_barcode ON book_copies(barcode);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_book_copies_barcode;
+ALTER TABLE book_copies DROP COLUMN IF EXISTS barcode;
+DROP SEQUENCE IF EXISTS book_copy_barcode_seq;
+`,
+  });
+}
+
+/**
+ * Create book_import_jobs and book_import_rows tables migration (bulk CSV/TSV catalogue import)
+ *
+ * Each row keeps its own result so an interrupted import resumes from the first PENDING row.
+ */
+export function createBookImportTablesMigration(): Migration {
+  return createMigration({
+    name: '038_create_book_import_tables',
+    up: `
+CREATE TABLE IF NOT EXISTS book_import_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  format VARCHAR(3) NOT NULL CHECK (format IN ('CSV', 'TSV')),
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING'
+    CHECK (status IN ('PENDING', 'IN_PROGRESS', 'COMPLETED')),
+  total_rows INTEGER NOT NULL,
+  processed_rows INTEGER NOT NULL DEFAULT 0,
+  created_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  chunk_size INTEGER NOT NULL CHECK (chunk_size > 0),
+  created_by UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS book_import_rows (
+  job_id UUID NOT NULL REFERENCES book_import_jobs(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+  data JSONB,
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING'
+    CHECK (status IN ('PENDING', 'CREATED', 'UPDATED', 'FAILED')),
+  book_id UUID REFERENCES books(id) ON DELETE SET NULL,
+  copies_created INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]',
+  PRIMARY KEY (job_id, row_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_book_import_rows_status ON book_import_rows(job_id, status, row_number);
+`,
+    down: `
+DROP TABLE IF EXISTS book_import_rows;
+DROP TABLE IF EXISTS book_import_jobs;
+`,
+  });
+}
+
+/**
+ * Normalise books.isbn to the canonical form migration
+ *
+ * Every ISBN is stored as an ISBN-13 without hyphens or spaces; ISBN-10 values are converted
+ * with a recalculated check digit. Books that turn out to be the same edition are merged into
+ * the earliest registered one: copies, reservations, queue changes, purchase suggestions and
+ * import rows are moved to it before the duplicates are deleted. Purchase suggestion ISBNs are
+ * normalised the same way. Values that are not ISBN-10 or ISBN-13 are left unchanged.
+ * Merged books and the original ISBN forms cannot be restored, so down is a no-op.
+ */
+export function normalizeBooksIsbnMigration(): Migration {
+  return createMigration({
+    name: '039_normalize_books_isbn',
+    up: `
+CREATE FUNCTION pg_temp.canonical_isbn(value TEXT) RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN digits ~ '^97[89][0-9]{10}$' THEN digits
+    WHEN digits ~ '^[0-9]{9}[0-9X]$' THEN '978' || left(digits, 9) || (
+      (10 - (
+        SELECT SUM(substr('978' || left(digits, 9), i, 1)::int * CASE WHEN i % 2 = 0 THEN 3 ELSE 1 END)
+        FROM generate_series(1, 12) AS i
+      ) % 10) % 10
+    )::text
+    ELSE value
+  END
+  FROM (SELECT upper(regexp_replace(value, '[-\\s]', '', 'g')) AS digits) AS stripped
+$$ LANGUAGE SQL IMMUTABLE;
+
+CREATE TEMPORARY TABLE book_isbn_merges AS
+SELECT id, keep_id FROM (
+  SELECT id, first_value(id) OVER (
+    PARTITION BY pg_temp.canonical_isbn(isbn) ORDER BY created_at, id
+  ) AS keep_id
+  FROM books
+) AS ranked
+WHERE id <> keep_id;
+
+UPDATE book_copies SET book_id = m.keep_id FROM book_isbn_merges m WHERE book_copies.book_id = m.id;
+UPDATE reservations SET book_id = m.keep_id FROM book_isbn_merges m WHERE reservations.book_id = m.id;
+UPDATE reservation_queue_changes SET book_id = m.keep_id
+  FROM book_isbn_merges m WHERE reservation_queue_changes.book_id = m.id;
+UPDATE purchase_suggestions SET book_id = m.keep_id
+  FROM book_isbn_merges m WHERE purchase_suggestions.book_id = m.id;
+UPDATE book_import_rows SET book_id = m.keep_id
+  FROM book_isbn_merges m WHERE book_import_rows.book_id = m.id;
+DELETE FROM books USING book_isbn_merges m WHERE books.id = m.id;
+
+UPDATE books SET isbn = pg_temp.canonical_isbn(isbn), updated_at = NOW()
+WHERE isbn <> pg_temp.canonical_isbn(isbn);
+UPDATE purchase_suggestions SET isbn = pg_temp.canonical_isbn(isbn)
+WHERE isbn IS NOT NULL AND isbn <> pg_temp.canonical_isbn(isbn);
+
+DROP TABLE book_isbn_merges;
+DROP FUNCTION pg_temp.canonical_isbn(TEXT);
+`,
+    down: 'SELECT 1;',
+  });
+}
+
+/**
+ * Create persons and book_contributors tables migration
+ *
+ * A person is one contributor name shared by all of their books; book_contributors links a
+ * book to its people with a role and a display position. Existing author strings are split
+ * on "、", ";", "/" (including full-width forms) and the full-width "，", and a trailing "編",
+ * "訳" or "絵" after whitespace marks an editor, translator or illustrator; any other name is
+ * an author. The ASCII comma does not split, so inverted "Surname, Forename" names (as stored
+ * by MARC imports) stay one person. books.author is kept as the display string.
+ */
+export function createBookContributorsTablesMigration(): Migration {
+  return createMigration({
+    name: '040_create_book_contributors',
+    up: `
+CREATE TABLE IF NOT EXISTS persons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(300) NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS book_contributors (
+  book_id UUID NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  person_id UUID NOT NULL REFERENCES persons(id),
+  role VARCHAR(20) NOT NULL CHECK (role IN ('AUTHOR', 'EDITOR', 'TRANSLATOR', 'ILLUSTRATOR')),
+  position INTEGER NOT NULL CHECK (position > 0),
+  PRIMARY KEY (book_id, position),
+  UNIQUE (book_id, person_id, role)
+);
+
+CREATE INDEX IF NOT EXISTS idx_book_contributors_person ON book_contributors(person_id, role);
+
+CREATE TEMPORARY TABLE author_parts AS
+SELECT book_id, name, role, MIN(ordinality) AS ordinality
+FROM (
+  SELECT
+    b.id AS book_id,
+    regexp_replace(part.value, '\\s+(編|訳|絵)$', '') AS name,
+    CASE
+      WHEN part.value ~ '\\s+編$' THEN 'EDITOR'
+      WHEN part.value ~ '\\s+訳$' THEN 'TRANSLATOR'
+      WHEN part.value ~ '\\s+絵$' THEN 'ILLUSTRATOR'
+      ELSE 'AUTHOR'
+    END AS role,
+    part.ordinality
+  FROM books b,
+    regexp_split_to_table(trim(b.author), '\\s*[，、;；/／]\\s*') WITH ORDINALITY AS part(value, ordinality)
+  WHERE part.value <> ''
+) AS parts
+GROUP BY book_id, name, role;
+
+INSERT INTO persons (name)
+SELECT DISTINCT name FROM author_parts
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO book_contributors (book_id, person_id, role, position)
+SELECT a.book_id, p.id, a.role,
+  ROW_NUMBER() OVER (PARTITION BY a.book_id ORDER BY a.ordinality)
+FROM author_parts a
+JOIN persons p ON p.name = a.name;
+
+DROP TABLE author_parts;
+`,
+    down: `
+DROP TABLE IF EXISTS book_contributors;
+DROP TABLE IF EXISTS persons;
+`,
+  });
+}
+
+/**
+ * Create classification scheme, subject heading and book classification tables
+ *
+ * classifications holds the class number trees of the supported schemes (NDC and DDC); each
+ * class points at its parent and records its depth, and the top-level classes of both schemes
+ * are seeded. subject_headings is the controlled vocabulary: a preferred label, alternate labels
+ * and the class the heading usually files under. A small starter vocabulary is seeded against the
+ * NDC classes.
+ *
+ * Books gain a classification, a call number and an ordered list of subject headings. Existing
+ * category strings are matched case-insensitively against heading labels and alternate labels
+ * ("Fiction", "fiction" and "小説" all map to 小説); categories with no match become new headings,
+ * using the most common spelling as the label. Each book is linked to its category's heading and
+ * takes the heading's class when it has none. books.category is kept as entered.
+ */
+export function createClassificationsTablesMigration(): Migration {
+  return createMigration({
+    name: '041_create_classifications',
+    up: `
+CREATE TABLE IF NOT EXISTS classifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scheme VARCHAR(10) NOT NULL CHECK (scheme IN ('NDC', 'DDC')),
+  number VARCHAR(50) NOT NULL,
+  label VARCHAR(200) NOT NULL,
+  parent_id UUID REFERENCES classifications(id),
+  level INTEGER NOT NULL CHECK (level > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (scheme, number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_classifications_parent ON classifications(scheme, parent_id);
+
+CREATE TABLE IF NOT EXISTS subject_headings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  label VARCHAR(200) NOT NULL,
+  alternate_labels TEXT[] NOT NULL DEFAULT '{}',
+  classification_id UUID REFERENCES classifications(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subject_headings_label ON subject_headings((lower(label)));
+
+ALTER TABLE books
+  ADD COLUMN IF NOT EXISTS classification_id UUID REFERENCES classifications(id),
+  ADD COLUMN IF NOT EXISTS call_number VARCHAR(50);
+
+CREATE INDEX IF NOT EXISTS idx_books_classification ON books(classification_id);
+
+CREATE TABLE IF NOT EXISTS book_subject_headings (
+  book_id UUID NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  subject_heading_id UUID NOT NULL REFERENCES subject_headings(id),
+  position INTEGER NOT NULL CHECK (position > 0),
+  PRIMARY KEY (book_id, position),
+  UNIQUE (book_id, subject_heading_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_book_subject_headings_heading ON book_subject_headings(subject_heading_id);
+
+INSERT INTO classifications (scheme, number, label, level) VALUES
+  ('NDC', '0', '総記', 1),
+  ('NDC', '1', '哲学', 1),
+  ('NDC', '2', '歴史', 1),
+  ('NDC', '3', '社会科学', 1),
+  ('NDC', '4', '自然科学', 1),
+  ('NDC', '5', '技術', 1),
+  ('NDC', '6', '産業', 1),
+  ('NDC', '7', '芸術', 1),
+  ('NDC', '8', '言語', 1),
+  ('NDC', '9', '文学', 1),
+  ('DDC', '000', 'Computer science, information & general works', 1),
+  ('DDC', '100', 'Philosophy & psychology', 1),
+  ('DDC', '200', 'Religion', 1),
+  ('DDC', '300', 'Social sciences', 1),
+  ('DDC', '400', 'Language', 1),
+  ('DDC', '500', 'Science', 1),
+  ('DDC', '600', 'Technology', 1),
+  ('DDC', '700', 'Arts & recreation', 1),
+  ('DDC', '800', 'Literature', 1),
+  ('DDC', '900', 'History & geography', 1)
+ON CONFLICT (scheme, number) DO NOTHING;
+
+INSERT INTO subject_headings (label, alternate_labels, classification_id)
+SELECT v.label, v.alternate_labels, c.id
+FROM (VALUES
+  ('図書館学', ARRAY['library science'], '0'),
+  ('プログラミング', ARRAY['programming', 'コンピュータ', 'computers'], '0'),
+  ('哲学', ARRAY['philosophy'], '1'),
+  ('歴史', ARRAY['history'], '2'),
+  ('ビジネス', ARRAY['business', '経営'], '3'),
+  ('科学', ARRAY['science', '自然科学'], '4'),
+  ('技術', ARRAY['technology', '技術書', '工学'], '5'),
+  ('芸術', ARRAY['art', 'arts', '美術'], '7'),
+  ('言語', ARRAY['language', 'languages', '語学'], '8'),
+  ('文学', ARRAY['literature'], '9'),
+  ('小説', ARRAY['fiction', 'novel', 'novels', '物語'], '9')
+) AS v(label, alternate_labels, number)
+JOIN classifications c ON c.scheme = 'NDC' AND c.number = v.number
+ON CONFLICT ((lower(label))) DO NOTHING;
+
+CREATE TEMPORARY TABLE category_terms AS
+SELECT lower(trim(category)) AS term, mode() WITHIN GROUP (ORDER BY trim(category)) AS label
+FROM books
+WHERE trim(COALESCE(category, '')) <> ''
+GROUP BY lower(trim(category));
+
+INSERT INTO subject_headings (label)
+SELECT t.label
+FROM category_terms t
+WHERE NOT EXISTS (
+  SELECT 1 FROM subject_headings sh
+  WHERE t.term IN (SELECT lower(l) FROM unnest(ARRAY[sh.label::text] || sh.alternate_labels) AS l)
+)
+ON CONFLICT ((lower(label))) DO NOTHING;
+
+INSERT INTO book_subject_headings (book_id, subject_heading_id, position)
+SELECT DISTINCT ON (b.id) b.id, sh.id, 1
+FROM books b
+JOIN subject_headings sh
+  ON lower(trim(b.category)) IN (SELECT lower(l) FROM unnest(ARRAY[sh.label::text] || sh.alternate_labels) AS l)
+ORDER BY b.id, lower(sh.label) = lower(trim(b.category)) DESC
+ON CONFLICT DO NOTHING;
+
+UPDATE books b
+SET classification_id = sh.classification_id
+FROM book_subject_headings bsh
+JOIN subject_headings sh ON sh.id = bsh.subject_heading_id
+WHERE bsh.book_id = b.id
+  AND bsh.position = 1
+  AND b.classification_id IS NULL
+  AND sh.classification_id IS NOT NULL;
+
+DROP TABLE category_terms;
+`,
+    down: `
+DROP TABLE IF EXISTS book_subject_headings;
+ALTER TABLE books
+  DROP COLUMN IF EXISTS call_number,
+  DROP COLUMN IF EXISTS classification_id;
+DROP TABLE IF EXISTS subject_headings;
+DROP TABLE IF EXISTS classifications;
+`,
+  });
+}
+
+/**
+ * Add role and password_hash columns to users table migration
+ *
+ * Existing users become patrons without a password; they cannot log in until a password
+ * is set with the set-user-password script.
+ */
+export function addUsersCredentialsMigration(): Migration {
+  return createMigration({
+    name: '042_add_users_credentials',
+    up: `
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'patron' CHECK (role IN ('patron', 'librarian', 'admin')),
+  ADD COLUMN IF NOT EXISTS password_hash VARCHAR(255);
+`,
+    down: `
+ALTER TABLE users
+  DROP COLUMN IF EXISTS password_hash,
+  DROP COLUMN IF EXISTS role;
+`,
+  });
+}
+
 /**
  * Get all migrations in order
  */
@@ -188,5 +1166,39 @@ export function getAllMigrations(): Migration[] {
     createOverdueRecordsTableMigration(),
     createFullTextSearchIndexMigration(),
     alterBooksPublisherNotNullMigration(),
+    addLoansRenewalCountMigration(),
+    createLoanPoliciesTableMigration(),
+    addUsersPatronCategoryMigration(),
+    addLoansLoanPolicyIdMigration(),
+    createLoansActiveCopyUniqueIndexMigration(),
+    createFineRatesTableMigration(),
+    createFineTransactionsTableMigration(),
+    addBooksReplacementCostMigration(),
+    alterBookCopiesStatusLostDamagedMigration(),
+    addLoansStatusMigration(),
+    alterFineTransactionsTypeReplacementMigration(),
+    alterLoansStatusClaimedReturnedMigration(),
+    createReturnClaimsTableMigration(),
+    addLoansReturnProcessedAtMigration(),
+    createBookDropModeTableMigration(),
+    createOpeningHoursTableMigration(),
+    createHolidaysTableMigration(),
+    createClosuresTableMigration(),
+    addLoansRecalledAtMigration(),
+    addReservationsCopyIdMigration(),
+    createJobTablesMigration(),
+    createOverdueSnapshotsTableMigration(),
+    addReservationsSuspendedUntilMigration(),
+    createReservationQueueChangesTableMigration(),
+    createServicePointsTableMigration(),
+    addReservationsPickupLocationMigration(),
+    createTransitRequestsTableMigration(),
+    createPurchaseSuggestionsTableMigration(),
+    addBookCopiesBarcodeMigration(),
+    createBookImportTablesMigration(),
+    normalizeBooksIsbnMigration(),
+    createBookContributorsTablesMigration(),
+    createClassificationsTablesMigration(),
+    addUsersCredentialsMigration(),
   ];
 }
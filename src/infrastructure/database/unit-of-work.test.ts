@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createDatabaseConfig, DatabasePool } from './database.js';
+import { createPgUnitOfWork } from './unit-of-work.js';
+import { createPgLoanRepository } from '../repositories/pg-loan-repository.js';
+import { createCopyId, createUserId, type CopyId } from '../../shared/branded-types.js';
+import { ok, err, isOk, isErr, type Result } from '../../shared/result.js';
+import type { Loan, LoanError } from '../../domains/loan/types.js';
+
+/**
+ * Fake pg client that follows PostgreSQL transaction semantics closely enough for these tests:
+ * a failed statement aborts the transaction until it is rolled back (to a savepoint),
+ * and loans has a unique active loan per book copy.
+ */
+const fakePg = vi.hoisted(() => {
+  interface State {
+    activeCopyIds: Set<string>;
+    aborted: boolean;
+    savepoints: { name: string; activeCopyIds: Set<string> }[];
+    committedCopyIds: Set<string>;
+    statements: string[];
+  }
+
+  const state: State = {
+    activeCopyIds: new Set(),
+    aborted: false,
+    savepoints: [],
+    committedCopyIds: new Set(),
+    statements: [],
+  };
+
+  function query(text: string, params: unknown[] = []): Promise<{ rows: unknown[] }> {
+    state.statements.push(text);
+
+    if (text === 'BEGIN') {
+      state.activeCopyIds = new Set(state.committedCopyIds);
+      return Promise.resolve({ rows: [] });
+    }
+    if (text === 'COMMIT' || text === 'ROLLBACK') {
+      if (text === 'COMMIT' && !state.aborted) {
+        state.committedCopyIds = new Set(state.activeCopyIds);
+      }
+      state.aborted = false;
+      state.savepoints = [];
+      return Promise.resolve({ rows: [] });
+    }
+    if (text.startsWith('ROLLBACK TO SAVEPOINT ')) {
+      const name = text.slice('ROLLBACK TO SAVEPOINT '.length);
+      const index = state.savepoints.findIndex((savepoint) => savepoint.name === name);
+      const savepoint = state.savepoints[index];
+      if (savepoint === undefined) {
+        return Promise.reject(new Error(`savepoint "${name}" does not exist`));
+      }
+      state.activeCopyIds = new Set(savepoint.activeCopyIds);
+      state.savepoints = state.savepoints.slice(0, index + 1);
+      state.aborted = false;
+      return Promise.resolve({ rows: [] });
+    }
+    if (state.aborted) {
+      return Promise.reject(
+        new Error('current transaction is aborted, commands ignored until end of transaction block')
+      );
+    }
+    if (text.startsWith('SAVEPOINT ')) {
+      state.savepoints.push({
+        name: text.slice('SAVEPOINT '.length),
+        activeCopyIds: new Set(state.activeCopyIds),
+      });
+      return Promise.resolve({ rows: [] });
+    }
+    if (text.startsWith('RELEASE SAVEPOINT ')) {
+      const name = text.slice('RELEASE SAVEPOINT '.length);
+      state.savepoints = state.savepoints.filter((savepoint) => savepoint.name !== name);
+      return Promise.resolve({ rows: [] });
+    }
+    if (text.includes('INSERT INTO loans')) {
+      const [userId, copyId, dueDate] = params as [string, string, Date];
+      if (state.activeCopyIds.has(copyId)) {
+        state.aborted = true;
+        return Promise.reject(
+          Object.assign(new Error('duplicate key value violates unique constraint'), {
+            code: '23505',
+          })
+        );
+      }
+      state.activeCopyIds.add(copyId);
+      return Promise.resolve({
+        rows: [
+          {
+            id: `loan-${copyId}`,
+            user_id: userId,
+            book_copy_id: copyId,
+            borrowed_at: new Date('2024-01-01'),
+            due_date: dueDate,
+            returned_at: null,
+            return_processed_at: null,
+            status: 'ACTIVE',
+            renewal_count: 0,
+            loan_policy_id: null,
+            recalled_at: null,
+          },
+        ],
+      });
+    }
+    return Promise.reject(new Error(`Unexpected query: ${text}`));
+  }
+
+  class Pool {
+    connect(): Promise<{ query: typeof query; release: () => void }> {
+      return Promise.resolve({ query, release: () => undefined });
+    }
+
+    query(text: string, params?: unknown[]): Promise<{ rows: unknown[] }> {
+      return query(text, params);
+    }
+  }
+
+  function reset(committedCopyIds: readonly string[] = []): void {
+    state.activeCopyIds = new Set();
+    state.aborted = false;
+    state.savepoints = [];
+    state.committedCopyIds = new Set(committedCopyIds);
+    state.statements = [];
+  }
+
+  return { Pool, state, reset };
+});
+
+vi.mock('pg', () => ({ Pool: fakePg.Pool }));
+
+describe('PgUnitOfWork', () => {
+  let pool: DatabasePool;
+
+  beforeEach(() => {
+    fakePg.reset();
+    pool = new DatabasePool(createDatabaseConfig());
+  });
+
+  it('should run nested work inside a savepoint and release it on Ok', async () => {
+    const unitOfWork = createPgUnitOfWork(pool);
+
+    const result = await unitOfWork.run(() => unitOfWork.run(() => Promise.resolve(ok(1))));
+
+    expect(result).toEqual(ok(1));
+    expect(fakePg.state.statements).toEqual([
+      'BEGIN',
+      'SAVEPOINT sp_1',
+      'RELEASE SAVEPOINT sp_1',
+      'COMMIT',
+    ]);
+  });
+
+  it('should roll back only the nested work when it returns Err', async () => {
+    const unitOfWork = createPgUnitOfWork(pool);
+
+    const result = await unitOfWork.run(async () => {
+      const nested = await unitOfWork.run(() => Promise.resolve(err('failed')));
+      return isErr(nested) ? ok('continued') : nested;
+    });
+
+    expect(result).toEqual(ok('continued'));
+    expect(fakePg.state.statements).toEqual([
+      'BEGIN',
+      'SAVEPOINT sp_1',
+      'ROLLBACK TO SAVEPOINT sp_1',
+      'COMMIT',
+    ]);
+  });
+
+  it('should keep processing an all-or-nothing batch after a duplicate active loan', async () => {
+    // copy-2 already has an active loan, so its insert hits the unique index
+    fakePg.reset(['copy-2']);
+    const unitOfWork = createPgUnitOfWork(pool);
+    const loanRepository = createPgLoanRepository(pool);
+    const copyIds: CopyId[] = [
+      createCopyId('copy-1'),
+      createCopyId('copy-2'),
+      createCopyId('copy-3'),
+    ];
+    const outcomes: Result<Loan, LoanError>[] = [];
+
+    // Same shape as LoanService.checkoutBatch in ALL_OR_NOTHING mode: one outer unit of work,
+    // one nested unit of work per item
+    const runResult = await unitOfWork.run(async (): Promise<Result<void, void>> => {
+      for (const copyId of copyIds) {
+        outcomes.push(
+          await unitOfWork.run(() =>
+            loanRepository.create(
+              { userId: createUserId('user-1'), bookCopyId: copyId },
+              new Date('2024-01-15'),
+              null
+            )
+          )
+        );
+      }
+      return outcomes.some((outcome) => isErr(outcome)) ? err(undefined) : ok(undefined);
+    });
+
+    expect(isErr(runResult)).toBe(true);
+    expect(isOk(outcomes[0] ?? err(undefined))).toBe(true);
+    expect(outcomes[1]).toEqual(err({ type: 'BOOK_NOT_AVAILABLE', copyId: 'copy-2' }));
+    expect(isOk(outcomes[2] ?? err(undefined))).toBe(true);
+    expect(fakePg.state.statements.at(-1)).toBe('ROLLBACK');
+    expect([...fakePg.state.committedCopyIds]).toEqual(['copy-2']);
+  });
+});
@@ -0,0 +1,15 @@
+import type { UnitOfWork } from '../../shared/unit-of-work.js';
+import { isErr, type Result } from '../../shared/result.js';
+import type { DatabasePool } from './database.js';
+
+/**
+ * Create a PostgreSQL-backed unit of work
+ * Work returning Err (or throwing) is rolled back; Ok is committed.
+ */
+export function createPgUnitOfWork(pool: DatabasePool): UnitOfWork {
+  return {
+    async run<T, E>(work: () => Promise<Result<T, E>>): Promise<Result<T, E>> {
+      return pool.transaction(work, (result) => isErr(result));
+    },
+  };
+}
@@ -7,8 +7,20 @@
 // PostgreSQLリポジトリ
 export { createPgBookRepository } from './pg-book-repository.js';
 export { createPgSearchRepository } from './pg-search-repository.js';
+export { createPgClassificationRepository } from './pg-classification-repository.js';
 export { createPgUserRepository } from './pg-user-repository.js';
+export { createPgUserAuthRepository } from './pg-user-auth-repository.js';
 export { createPgLoanRepository } from './pg-loan-repository.js';
 export { createPgReservationRepository } from './pg-reservation-repository.js';
 export { createPgReportRepository } from './pg-report-repository.js';
 export { createPgOverdueRecordRepository } from './pg-overdue-record-repository.js';
+export { createPgLoanPolicyRepository } from './pg-loan-policy-repository.js';
+export { createPgFineRepository } from './pg-fine-repository.js';
+export { createPgFineRateRepository } from './pg-fine-rate-repository.js';
+export { createPgReturnClaimRepository } from './pg-return-claim-repository.js';
+export { createPgBookDropRepository } from './pg-book-drop-repository.js';
+export { createPgCalendarRepository } from './pg-calendar-repository.js';
+export { createPgJobRepository } from './pg-job-repository.js';
+export { createPgServicePointRepository } from './pg-service-point-repository.js';
+export { createPgPurchaseSuggestionRepository } from './pg-purchase-suggestion-repository.js';
+export { createPgBookImportRepository } from './pg-book-import-repository.js';
@@ -0,0 +1,62 @@
+/**
+ * PostgreSQL 返却ポストモードリポジトリ
+ *
+ * PostgreSQLを使用した返却ポストモードの永続化実装（図書館全体で1行のみ）
+ */
+
+import type { BookDropRepository } from '../../domains/loan/book-drop-repository.js';
+import type { BookDropMode } from '../../domains/loan/types.js';
+import type { DatabasePool } from '../database/database.js';
+
+// ============================================
+// 行型定義
+// ============================================
+
+interface BookDropModeRow {
+  enabled: boolean;
+  updated_at: Date;
+}
+
+// ============================================
+// 変換関数
+// ============================================
+
+function rowToBookDropMode(row: BookDropModeRow): BookDropMode {
+  return {
+    enabled: row.enabled,
+    updatedAt: row.updated_at,
+  };
+}
+
+// ============================================
+// リポジトリ実装
+// ============================================
+
+/**
+ * PostgreSQL返却ポストモードリポジトリを作成
+ */
+export function createPgBookDropRepository(pool: DatabasePool): BookDropRepository {
+  return {
+    async getMode(): Promise<BookDropMode> {
+      const result = await pool.query<BookDropModeRow>(
+        'SELECT enabled, updated_at FROM book_drop_mode WHERE id = 1'
+      );
+      const row = result.rows[0];
+      if (!row) throw new Error('Book drop mode is not initialized');
+      return rowToBookDropMode(row);
+    },
+
+    async setMode(enabled: boolean): Promise<BookDropMode> {
+      const result = await pool.query<BookDropModeRow>(
+        `INSERT INTO book_drop_mode (id, enabled, updated_at)
+         VALUES (1, $1, NOW())
+         ON CONFLICT (id) DO UPDATE SET enabled = EXCLUDED.enabled, updated_at = NOW()
+         RETURNING enabled, updated_at`,
+        [enabled]
+      );
+      const row = result.rows[0];
+      if (!row) throw new Error('Failed to update book drop mode');
+      return rowToBookDropMode(row);
+    },
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * PostgreSQL 書籍一括取り込みリポジトリ
+ *
+ * PostgreSQLを使用した書籍一括取り込みジョブ・取り込み行の永続化実装
+ */
+
+import type { BookImportRepository } from '../../domains/book-import/book-import-repository.js';
+import type {
+  BookImportJob,
+  BookImportJobStatus,
+  BookImportFormat,
+  BookImportRow,
+  BookImportRowData,
+  BookImportRowStatus,
+  BookImportRowResult,
+  BookImportFieldError,
+  CreateBookImportJobInput,
+  BookImportError,
+} from '../../domains/book-import/types.js';
+import type { BookImportJobId } from '../../shared/branded-types.js';
+import { createBookId, createBookImportJobId, createUserId } from '../../shared/branded-types.js';
+import { ok, err, type Result } from '../../shared/result.js';
+import type { DatabasePool } from '../database/database.js';
+
+// ============================================
+// 行型定義
+// ============================================
+
+interface BookImportJobRow {
+  id: string;
+  format: BookImportFormat;
+  status: BookImportJobStatus;
+  total_rows: number;
+  processed_rows: number;
+  created_count: number;
+  updated_count: number;
+  failed_count: number;
+  chunk_size: number;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+interface BookImportRowRow {
+  job_id: string;
+  row_number: number;
+  data: BookImportRowData | null;
+  status: BookImportRowStatus;
+  book_id: string | null;
+  copies_created: number;
+  errors: BookImportFieldError[];
+}
+
+// ============================================
+// 変換関数
+// ============================================
+
+function rowToBookImportJob(row: BookImportJobRow): BookImportJob {
+  return {
+    id: createBookImportJobId(row.id),
+    format: row.format,
+    status: row.status,
+    totalRows: row.total_rows,
+    processedRows: row.processed_rows,
+    createdCount: row.created_count,
+    updatedCount: row.updated_count,
+    failedCount: row.failed_count,
+    chunkSize: row.chunk_size,
+    createdBy: createUserId(row.created_by),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    completedAt: row.completed_at,
+  };
+}
+
+function rowToBookImportRow(row: BookImportRowRow): BookImportRow {
+  return {
+    jobId: createBookImportJobId(row.job_id),
+    rowNumber: row.row_number,
+    data: row.data,
+    status: row.status,
+    bookId: row.book_id !== null ? createBookId(row.book_id) : null,
+    copiesCreated: row.copies_created,
+    errors: row.errors,
+  };
+}
+
+// ============================================
+// リポジトリ実装
+// ============================================
+
+/**
+ * PostgreSQL書籍一括取り込みリポジトリを作成
+ */
+export function createPgBookImportRepository(pool: DatabasePool): BookImportRepository {
+  return {
+    async createJob(input: CreateBookImportJobInput): Promise<BookImportJob> {
+      return pool.transaction(async () => {
+        const result = await pool.query<BookImportJobRow>(
+          `INSERT INTO book_import_jobs (format, total_rows, chunk_size, created_by)
+           VALUES ($1, $2, $3, $4)
+           RETURNING *`,
+          [input.format, input.rows.length, input.chunkSize, input.createdBy]
+        );
+        const row = result.rows[0];
+        if (!row) throw new Error('Failed to create book import job');
+
+        await pool.query(
+          `INSERT INTO book_import_rows (job_id, row_number, data, errors)
+           SELECT $1, * FROM unnest($2::int[], $3::jsonb[], $4::jsonb[])`,
+          [
+            row.id,
+            input.rows.map((r) => r.rowNumber),
+            input.rows.map((r) => (r.data !== null ? JSON.stringify(r.data) : null)),
+            input.rows.map((r) => JSON.stringify(r.errors)),
+          ]
+        );
+        return rowToBookImportJob(row);
+      });
+    },
+
+    async findJobById(id: BookImportJobId): Promise<Result<BookImportJob, BookImportError>> {
+      const result = await pool.query<BookImportJobRow>(
+        'SELECT * FROM book_import_jobs WHERE id = $1',
+        [id]
+      );
+      const row = result.rows[0];
+      if (!row) {
+        return err({ type: 'IMPORT_JOB_NOT_FOUND', jobId: id });
+      }
+      return ok(rowToBookImportJob(row));
+    },
+
+    async findPendingRows(jobId: BookImportJobId, limit: number): Promise<BookImportRow[]> {
+      // 同じジョブを同時に実行した場合も同じ行を二重に処理しない
+      const result = await pool.query<BookImportRowRow>(
+        `SELECT * FROM book_import_rows
+         WHERE job_id = $1 AND status = 'PENDING'
+         ORDER BY row_number
+         LIMIT $2
+         FOR UPDATE SKIP LOCKED`,
+        [jobId, limit]
+      );
+      return result.rows.map(rowToBookImportRow);
+    },
+
+    async findRows(jobId: BookImportJobId, status?: BookImportRowStatus): Promise<BookImportRow[]> {
+      const result = await pool.query<BookImportRowRow>(
+        `SELECT * FROM book_import_rows
+         WHERE job_id = $1 AND ($2::text IS NULL OR status = $2)
+         ORDER BY row_number`,
+        [jobId, status ?? null]
+      );
+      return result.rows.map(rowToBookImportRow);
+    },
+
+    async recordRowResult(
+      jobId: BookImportJobId,
+      rowNumber: number,
+      result: BookImportRowResult
+    ): Promise<void> {
+      await pool.query(
+        `UPDATE book_import_rows SET status = $1, book_id = $2, copies_created = $3, errors = $4
+         WHERE job_id = $5 AND row_number = $6`,
+        [
+          result.status,
+          result.bookId,
+          result.copiesCreated,
+          JSON.stringify(result.errors),
+          jobId,
+          rowNumber,
+        ]
+      );
+    },
+
+    async refreshJobProgress(
+      jobId: BookImportJobId
+    ): Promise<Result<BookImportJob, BookImportError>> {
+      const result = await pool.query<BookImportJobRow>(
+        `UPDATE book_import_jobs AS j SET
+           processed_rows = c.processed,
+           created_count = c.created,
+           updated_count = c.updated,
+           failed_count = c.failed,
+           status = CASE WHEN c.processed = j.total_rows THEN 'COMPLETED' ELSE 'IN_PROGRESS' END,
+           completed_at = CASE WHEN c.processed = j.total_rows THEN NOW() ELSE NULL END,
+           updated_at = NOW()
+         FROM (
+           SELECT
+             COUNT(*) FILTER (WHERE status <> 'PENDING')::int AS processed,
+             COUNT(*) FILTER (WHERE status = 'CREATED')::int AS created,
+             COUNT(*) FILTER (WHERE status = 'UPDATED')::int AS updated,
+             COUNT(*) FILTER (WHERE status = 'FAILED')::int AS failed
+           FROM book_import_rows
+           WHERE job_id = $1
+         ) AS c
+         WHERE j.id = $1
+         RETURNING j.*`,
+        [jobId]
+      );
+      const row = result.rows[0];
+      if (!row) {
+        return err({ type: 'IMPORT_JOB_NOT_FOUND', jobId });
+      }
+      return ok(rowToBookImportJob(row));
+    },
+  };
+}
@@ -13,10 +13,27 @@ import type {
   UpdateBookInput,
   CreateCopyInput,
   BookError,
+  ContributorInput,
+  ContributorRole,
+  Person,
+  ClassificationScheme,
 } from '../../domains/book/types.js';
-import type { BookId, CopyId } from '../../shared/branded-types.js';
-import { createBookId, createCopyId } from '../../shared/branded-types.js';
-import { ok, err, type Result } from '../../shared/result.js';
+import type {
+  BookId,
+  ClassificationId,
+  CopyId,
+  PersonId,
+  SubjectHeadingId,
+} from '../../shared/branded-types.js';
+import {
+  createBookId,
+  createClassificationId,
+  createCopyId,
+  createPersonId,
+  createSubjectHeadingId,
+} from '../../shared/branded-types.js';
+import { ok, err, isOk, isErr, type Result } from '../../shared/result.js';
+import { normalizeISBN } from '../../shared/isbn.js';
 import type { DatabasePool } from '../database/database.js';
 
 // ============================================
@@ -31,13 +48,45 @@ interface BookRow {
   publication_year: number | null;
   isbn: string;
   category: string | null;
+  classification_id: string | null;
+  call_number: string | null;
+  replacement_cost: number | null;
   created_at: Date;
   updated_at: Date;
+  contributors: ContributorRow[];
+  classification: BookClassificationRow | null;
+  subject_headings: BookSubjectHeadingRow[];
+}
+
+interface ContributorRow {
+  person_id: string;
+  name: string;
+  role: ContributorRole;
+  position: number;
+}
+
+interface BookClassificationRow {
+  id: string;
+  scheme: ClassificationScheme;
+  number: string;
+  label: string;
+}
+
+interface BookSubjectHeadingRow {
+  id: string;
+  label: string;
+}
+
+interface PersonRow {
+  id: string;
+  name: string;
+  created_at: Date;
 }
 
 interface BookCopyRow {
   id: string;
   book_id: string;
+  barcode: string;
   location: string;
   status: BookCopyStatus;
   created_at: Date;
@@ -52,25 +101,80 @@ function rowToBook(row: BookRow): Book {
     id: createBookId(row.id),
     title: row.title,
     author: row.author,
+    contributors: row.contributors.map((contributor) => ({
+      personId: createPersonId(contributor.person_id),
+      name: contributor.name,
+      role: contributor.role,
+      position: contributor.position,
+    })),
     publisher: row.publisher,
     publicationYear: row.publication_year,
     isbn: row.isbn,
     category: row.category,
+    classification:
+      row.classification !== null
+        ? {
+            id: createClassificationId(row.classification.id),
+            scheme: row.classification.scheme,
+            number: row.classification.number,
+            label: row.classification.label,
+          }
+        : null,
+    callNumber: row.call_number,
+    subjectHeadings: row.subject_headings.map((heading) => ({
+      id: createSubjectHeadingId(heading.id),
+      label: heading.label,
+    })),
+    replacementCost: row.replacement_cost,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
 }
 
+function rowToPerson(row: PersonRow): Person {
+  return {
+    id: createPersonId(row.id),
+    name: row.name,
+    createdAt: row.created_at,
+  };
+}
+
 function rowToBookCopy(row: BookCopyRow): BookCopy {
   return {
     id: createCopyId(row.id),
     bookId: createBookId(row.book_id),
+    barcode: row.barcode,
     location: row.location,
     status: row.status,
     createdAt: row.created_at,
   };
 }
 
+// ============================================
+// クエリ
+// ============================================
+
+/** 書籍と寄与者一覧・分類・件名標目一覧（表示順のJSON配列）を取得するSELECT句 */
+const SELECT_BOOKS = `
+SELECT books.*, COALESCE((
+  SELECT json_agg(json_build_object(
+    'person_id', p.id, 'name', p.name, 'role', bc.role, 'position', bc.position
+  ) ORDER BY bc.position)
+  FROM book_contributors bc
+  JOIN persons p ON p.id = bc.person_id
+  WHERE bc.book_id = books.id
+), '[]') AS contributors, (
+  SELECT json_build_object('id', c.id, 'scheme', c.scheme, 'number', c.number, 'label', c.label)
+  FROM classifications c
+  WHERE c.id = books.classification_id
+) AS classification, COALESCE((
+  SELECT json_agg(json_build_object('id', sh.id, 'label', sh.label) ORDER BY bsh.position)
+  FROM book_subject_headings bsh
+  JOIN subject_headings sh ON sh.id = bsh.subject_heading_id
+  WHERE bsh.book_id = books.id
+), '[]') AS subject_headings
+FROM books`;
+
 // ============================================
 // リポジトリ実装
 // ============================================
@@ -79,86 +183,250 @@ function rowToBookCopy(row: BookCopyRow): BookCopy {
  * PostgreSQL書籍リポジトリを作成
  */
 export function createPgBookRepository(pool: DatabasePool): BookRepository {
+  /**
+   * IDで書籍を寄与者一覧とともに取得
+   */
+  async function findBook(id: string): Promise<Book | null> {
+    const result = await pool.query<BookRow>(`${SELECT_BOOKS} WHERE books.id = $1`, [id]);
+    const row = result.rows[0];
+    return row ? rowToBook(row) : null;
+  }
+
+  /**
+   * 書籍の寄与者を置き換える（未登録の名前の人物は作成する）
+   */
+  async function replaceContributors(
+    bookId: string,
+    contributors: readonly ContributorInput[]
+  ): Promise<void> {
+    const names = contributors.map((c) => c.name);
+    const roles = contributors.map((c) => c.role);
+    await pool.query('DELETE FROM book_contributors WHERE book_id = $1', [bookId]);
+    await pool.query(
+      `INSERT INTO persons (name) SELECT DISTINCT unnest($1::text[]) ON CONFLICT (name) DO NOTHING`,
+      [names]
+    );
+    await pool.query(
+      `INSERT INTO book_contributors (book_id, person_id, role, position)
+       SELECT $1, p.id, c.role, c.position
+       FROM unnest($2::text[], $3::text[]) WITH ORDINALITY AS c(name, role, position)
+       JOIN persons p ON p.name = c.name`,
+      [bookId, names, roles]
+    );
+  }
+
+  /**
+   * 分類・件名標目が登録済みか確認
+   */
+  async function validateClassificationReferences(input: {
+    readonly classificationId?: ClassificationId | null;
+    readonly subjectHeadingIds?: readonly SubjectHeadingId[];
+  }): Promise<Result<void, BookError>> {
+    if (input.classificationId !== undefined && input.classificationId !== null) {
+      const result = await pool.query('SELECT 1 FROM classifications WHERE id = $1', [
+        input.classificationId,
+      ]);
+      if (result.rows.length === 0) {
+        return err({
+          type: 'VALIDATION_ERROR',
+          field: 'classificationId',
+          message: `分類 ${input.classificationId} が見つかりません`,
+        });
+      }
+    }
+
+    if (input.subjectHeadingIds !== undefined && input.subjectHeadingIds.length > 0) {
+      const result = await pool.query<{ id: string }>(
+        'SELECT id FROM subject_headings WHERE id = ANY($1)',
+        [input.subjectHeadingIds]
+      );
+      const found = new Set(result.rows.map((row) => row.id));
+      const missing = input.subjectHeadingIds.find((id) => !found.has(id));
+      if (missing !== undefined) {
+        return err({
+          type: 'VALIDATION_ERROR',
+          field: 'subjectHeadingIds',
+          message: `件名標目 ${missing} が見つかりません`,
+        });
+      }
+    }
+
+    return ok(undefined);
+  }
+
+  /**
+   * 書籍の件名標目を置き換える
+   */
+  async function replaceSubjectHeadings(
+    bookId: string,
+    subjectHeadingIds: readonly SubjectHeadingId[]
+  ): Promise<void> {
+    await pool.query('DELETE FROM book_subject_headings WHERE book_id = $1', [bookId]);
+    await pool.query(
+      `INSERT INTO book_subject_headings (book_id, subject_heading_id, position)
+       SELECT $1, h.id, h.position
+       FROM unnest($2::uuid[]) WITH ORDINALITY AS h(id, position)`,
+      [bookId, subjectHeadingIds]
+    );
+  }
+
   return {
-    async create(input: CreateBookInput): Promise<Result<Book, BookError>> {
-      try {
-        const result = await pool.query<BookRow>(
-          `INSERT INTO books (title, author, publisher, publication_year, isbn, category)
-           VALUES ($1, $2, $3, $4, $5, $6)
-           RETURNING *`,
-          [
-            input.title,
-            input.author,
-            input.publisher,
-            input.publicationYear ?? null,
-            input.isbn,
-            input.category ?? null,
-          ]
-        );
-        const row = result.rows[0];
-        if (!row) throw new Error('Failed to create book');
-        return ok(rowToBook(row));
-      } catch (error) {
-        if ((error as { code?: string }).code === '23505') {
-          return err({ type: 'DUPLICATE_ISBN', isbn: input.isbn });
-        }
-        throw error;
+    async create(
+      input: CreateBookInput & {
+        readonly author: string;
+        readonly contributors: readonly ContributorInput[];
       }
+    ): Promise<Result<Book, BookError>> {
+      return pool.transaction(
+        async (): Promise<Result<Book, BookError>> => {
+          const referencesResult = await validateClassificationReferences(input);
+          if (isErr(referencesResult)) {
+            return referencesResult;
+          }
+
+          let id: string;
+          try {
+            const result = await pool.query<{ id: string }>(
+              `INSERT INTO books (title, author, publisher, publication_year, isbn, category, classification_id, call_number, replacement_cost)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+             RETURNING id`,
+              [
+                input.title,
+                input.author,
+                input.publisher,
+                input.publicationYear ?? null,
+                input.isbn,
+                input.category ?? null,
+                input.classificationId ?? null,
+                input.callNumber ?? null,
+                input.replacementCost ?? null,
+              ]
+            );
+            const row = result.rows[0];
+            if (!row) throw new Error('Failed to create book');
+            id = row.id;
+          } catch (error) {
+            if ((error as { code?: string }).code === '23505') {
+              return err({ type: 'DUPLICATE_ISBN', isbn: input.isbn });
+            }
+            throw error;
+          }
+
+          await replaceContributors(id, input.contributors);
+          if (input.subjectHeadingIds !== undefined) {
+            await replaceSubjectHeadings(id, input.subjectHeadingIds);
+          }
+          const book = await findBook(id);
+          if (!book) throw new Error('Failed to create book');
+          return ok(book);
+        },
+        (result) => isErr(result)
+      );
     },
 
     async findById(id: BookId): Promise<Result<Book, BookError>> {
-      const result = await pool.query<BookRow>('SELECT * FROM books WHERE id = $1', [id]);
-      const row = result.rows[0];
-      if (!row) {
+      const book = await findBook(id);
+      if (!book) {
         return err({ type: 'NOT_FOUND', id });
       }
-      return ok(rowToBook(row));
+      return ok(book);
     },
 
     async findByIsbn(isbn: string): Promise<Book | null> {
-      const result = await pool.query<BookRow>('SELECT * FROM books WHERE isbn = $1', [isbn]);
+      // 書籍のISBNは正規形で保存しているため、いずれの形式で指定しても正規形で検索する
+      const normalized = normalizeISBN(isbn);
+      if (isErr(normalized)) {
+        return null;
+      }
+      const result = await pool.query<BookRow>(`${SELECT_BOOKS} WHERE books.isbn = $1`, [
+        normalized.value,
+      ]);
       const row = result.rows[0];
       return row ? rowToBook(row) : null;
     },
 
-    async update(id: BookId, input: UpdateBookInput): Promise<Result<Book, BookError>> {
-      const existing = await pool.query<BookRow>('SELECT * FROM books WHERE id = $1', [id]);
-      const current = existing.rows[0];
-      if (!current) {
-        return err({ type: 'NOT_FOUND', id });
+    async findByIsbns(isbns: readonly string[]): Promise<Book[]> {
+      const normalized = isbns
+        .map((isbn) => normalizeISBN(isbn))
+        .filter(isOk)
+        .map((result) => result.value);
+      if (normalized.length === 0) {
+        return [];
       }
+      const result = await pool.query<BookRow>(`${SELECT_BOOKS} WHERE books.isbn = ANY($1)`, [
+        normalized,
+      ]);
+      return result.rows.map(rowToBook);
+    },
 
-      try {
-        const result = await pool.query<BookRow>(
-          `UPDATE books SET
-             title = $1,
-             author = $2,
-             publisher = $3,
-             publication_year = $4,
-             isbn = $5,
-             category = $6,
-             updated_at = NOW()
-           WHERE id = $7
-           RETURNING *`,
-          [
-            input.title ?? current.title,
-            input.author ?? current.author,
-            input.publisher !== undefined ? input.publisher : current.publisher,
-            input.publicationYear !== undefined ? input.publicationYear : current.publication_year,
-            input.isbn ?? current.isbn,
-            input.category !== undefined ? input.category : current.category,
-            id,
-          ]
-        );
-        const row = result.rows[0];
-        if (!row) throw new Error('Failed to update book');
-        return ok(rowToBook(row));
-      } catch (error) {
-        if ((error as { code?: string }).code === '23505') {
-          return err({ type: 'DUPLICATE_ISBN', isbn: input.isbn ?? '' });
-        }
-        throw error;
-      }
+    async update(id: BookId, input: UpdateBookInput): Promise<Result<Book, BookError>> {
+      return pool.transaction(
+        async (): Promise<Result<Book, BookError>> => {
+          const existing = await pool.query<
+            Omit<BookRow, 'contributors' | 'classification' | 'subject_headings'>
+          >('SELECT * FROM books WHERE id = $1', [id]);
+          const current = existing.rows[0];
+          if (!current) {
+            return err({ type: 'NOT_FOUND', id });
+          }
+
+          const referencesResult = await validateClassificationReferences(input);
+          if (isErr(referencesResult)) {
+            return referencesResult;
+          }
+
+          try {
+            await pool.query(
+              `UPDATE books SET
+               title = $1,
+               author = $2,
+               publisher = $3,
+               publication_year = $4,
+               isbn = $5,
+               category = $6,
+               classification_id = $7,
+               call_number = $8,
+               replacement_cost = $9,
+               updated_at = NOW()
+             WHERE id = $10`,
+              [
+                input.title ?? current.title,
+                input.author ?? current.author,
+                input.publisher !== undefined ? input.publisher : current.publisher,
+                input.publicationYear !== undefined
+                  ? input.publicationYear
+                  : current.publication_year,
+                input.isbn ?? current.isbn,
+                input.category !== undefined ? input.category : current.category,
+                input.classificationId !== undefined
+                  ? input.classificationId
+                  : current.classification_id,
+                input.callNumber !== undefined ? input.callNumber : current.call_number,
+                input.replacementCost !== undefined
+                  ? input.replacementCost
+                  : current.replacement_cost,
+                id,
+              ]
+            );
+          } catch (error) {
+            if ((error as { code?: string }).code === '23505') {
+              return err({ type: 'DUPLICATE_ISBN', isbn: input.isbn ?? '' });
+            }
+            throw error;
+          }
+
+          if (input.contributors !== undefined) {
+            await replaceContributors(id, input.contributors);
+          }
+          if (input.subjectHeadingIds !== undefined) {
+            await replaceSubjectHeadings(id, input.subjectHeadingIds);
+          }
+          const book = await findBook(id);
+          if (!book) throw new Error('Failed to update book');
+          return ok(book);
+        },
+        (result) => isErr(result)
+      );
     },
 
     async delete(id: BookId): Promise<Result<void, BookError>> {
@@ -169,21 +437,61 @@ export function createPgBookRepository(pool: DatabasePool): BookRepository {
       return ok(undefined);
     },
 
-    async createCopy(bookId: BookId, input: CreateCopyInput): Promise<Result<BookCopy, BookError>> {
+    async findPersonById(id: PersonId): Promise<Person | null> {
+      const result = await pool.query<PersonRow>('SELECT * FROM persons WHERE id = $1', [id]);
+      const row = result.rows[0];
+      return row ? rowToPerson(row) : null;
+    },
+
+    async findByContributor(personId: PersonId, role?: ContributorRole): Promise<Book[]> {
+      const result = await pool.query<BookRow>(
+        `${SELECT_BOOKS}
+         WHERE EXISTS (
+           SELECT 1 FROM book_contributors bc
+           WHERE bc.book_id = books.id
+             AND bc.person_id = $1
+             AND ($2::text IS NULL OR bc.role = $2)
+         )
+         ORDER BY books.publication_year DESC NULLS LAST, books.title`,
+        [personId, role ?? null]
+      );
+      return result.rows.map(rowToBook);
+    },
+
+    async createCopy(
+      bookId: BookId,
+      input: CreateCopyInput & { readonly barcode: string }
+    ): Promise<Result<BookCopy, BookError>> {
       const bookExists = await pool.query('SELECT 1 FROM books WHERE id = $1', [bookId]);
       if (bookExists.rows.length === 0) {
         return err({ type: 'NOT_FOUND', id: bookId });
       }
 
-      const result = await pool.query<BookCopyRow>(
-        `INSERT INTO book_copies (book_id, location, status)
-         VALUES ($1, $2, $3)
-         RETURNING *`,
-        [bookId, input.location, input.status ?? 'AVAILABLE']
+      try {
+        const result = await pool.query<BookCopyRow>(
+          `INSERT INTO book_copies (book_id, barcode, location, status)
+           VALUES ($1, $2, $3, $4)
+           RETURNING *`,
+          [bookId, input.barcode, input.location, input.status ?? 'AVAILABLE']
+        );
+        const row = result.rows[0];
+        if (!row) throw new Error('Failed to create book copy');
+        return ok(rowToBookCopy(row));
+      } catch (error) {
+        if ((error as { code?: string }).code === '23505') {
+          return err({ type: 'DUPLICATE_BARCODE', barcode: input.barcode });
+        }
+        throw error;
+      }
+    },
+
+    async nextCopyBarcodeSequence(): Promise<number> {
+      const result = await pool.query<{ value: string }>(
+        "SELECT nextval('book_copy_barcode_seq') AS value"
       );
       const row = result.rows[0];
-      if (!row) throw new Error('Failed to create book copy');
-      return ok(rowToBookCopy(row));
+      if (!row) throw new Error('Failed to allocate barcode sequence');
+      return parseInt(row.value, 10);
     },
 
     async findCopyById(copyId: CopyId): Promise<Result<BookCopy, BookError>> {
@@ -197,6 +505,17 @@ export function createPgBookRepository(pool: DatabasePool): BookRepository {
       return ok(rowToBookCopy(row));
     },
 
+    async findCopyByBarcode(barcode: string): Promise<Result<BookCopy, BookError>> {
+      const result = await pool.query<BookCopyRow>('SELECT * FROM book_copies WHERE barcode = $1', [
+        barcode,
+      ]);
+      const row = result.rows[0];
+      if (!row) {
+        return err({ type: 'NOT_FOUND', id: barcode });
+      }
+      return ok(rowToBookCopy(row));
+    },
+
     async updateCopy(copyId: CopyId, status: BookCopyStatus): Promise<Result<BookCopy, BookError>> {
       const result = await pool.query<BookCopyRow>(
         `UPDATE book_copies SET status = $1 WHERE id = $2 RETURNING *`,
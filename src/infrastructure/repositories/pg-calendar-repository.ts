@@ -0,0 +1,180 @@
+/**
+ * PostgreSQL 開館カレンダーリポジトリ
+ *
+ * PostgreSQLを使用した開館時間・休館日・臨時休館データの永続化実装
+ */
+
+import type { CalendarRepository } from '../../domains/calendar/calendar-repository.js';
+import type {
+  WeeklyHours,
+  Holiday,
+  CreateHolidayInput,
+  Closure,
+  CreateClosureInput,
+  CalendarError,
+} from '../../domains/calendar/types.js';
+import type { HolidayId, ClosureId } from '../../shared/branded-types.js';
+import { createHolidayId, createClosureId } from '../../shared/branded-types.js';
+import { ok, err, type Result } from '../../shared/result.js';
+import type { DatabasePool } from '../database/database.js';
+
+// ============================================
+// 行型定義
+// ============================================
+
+interface WeeklyHoursRow {
+  weekday: number;
+  opens_at: string | null;
+  closes_at: string | null;
+}
+
+interface HolidayRow {
+  id: string;
+  date: string;
+  name: string;
+  recurring: boolean;
+  created_at: Date;
+}
+
+interface ClosureRow {
+  id: string;
+  start_date: string;
+  end_date: string;
+  reason: string;
+  created_at: Date;
+}
+
+// ============================================
+// SQL
+// ============================================
+
+const SELECT_WEEKLY_HOURS = `SELECT weekday,
+  to_char(opens_at, 'HH24:MI') AS opens_at,
+  to_char(closes_at, 'HH24:MI') AS closes_at
+FROM opening_hours`;
+
+const HOLIDAY_COLUMNS = `id, to_char(date, 'YYYY-MM-DD') AS date, name, recurring, created_at`;
+
+const CLOSURE_COLUMNS = `id,
+  to_char(start_date, 'YYYY-MM-DD') AS start_date,
+  to_char(end_date, 'YYYY-MM-DD') AS end_date,
+  reason, created_at`;
+
+// ============================================
+// 変換関数
+// ============================================
+
+function rowToWeeklyHours(row: WeeklyHoursRow): WeeklyHours {
+  return {
+    weekday: row.weekday,
+    opensAt: row.opens_at,
+    closesAt: row.closes_at,
+  };
+}
+
+function rowToHoliday(row: HolidayRow): Holiday {
+  return {
+    id: createHolidayId(row.id),
+    date: row.date,
+    name: row.name,
+    recurring: row.recurring,
+    createdAt: row.created_at,
+  };
+}
+
+function rowToClosure(row: ClosureRow): Closure {
+  return {
+    id: createClosureId(row.id),
+    startDate: row.start_date,
+    endDate: row.end_date,
+    reason: row.reason,
+    createdAt: row.created_at,
+  };
+}
+
+// ============================================
+// リポジトリ実装
+// ============================================
+
+/**
+ * PostgreSQL開館カレンダーリポジトリを作成
+ */
+export function createPgCalendarRepository(pool: DatabasePool): CalendarRepository {
+  async function findWeeklyHours(): Promise<WeeklyHours[]> {
+    const result = await pool.query<WeeklyHoursRow>(`${SELECT_WEEKLY_HOURS} ORDER BY weekday`);
+    return result.rows.map(rowToWeeklyHours);
+  }
+
+  return {
+    findWeeklyHours,
+
+    async updateWeeklyHours(hours: readonly WeeklyHours[]): Promise<WeeklyHours[]> {
+      for (const entry of hours) {
+        await pool.query(
+          `INSERT INTO opening_hours (weekday, opens_at, closes_at, updated_at)
+           VALUES ($1, $2, $3, NOW())
+           ON CONFLICT (weekday) DO UPDATE SET
+             opens_at = EXCLUDED.opens_at,
+             closes_at = EXCLUDED.closes_at,
+             updated_at = NOW()`,
+          [entry.weekday, entry.opensAt, entry.closesAt]
+        );
+      }
+      return findWeeklyHours();
+    },
+
+    async findAllHolidays(): Promise<Holiday[]> {
+      const result = await pool.query<HolidayRow>(
+        `SELECT ${HOLIDAY_COLUMNS} FROM holidays ORDER BY holidays.date`
+      );
+      return result.rows.map(rowToHoliday);
+    },
+
+    async createHoliday(input: CreateHolidayInput): Promise<Holiday> {
+      const result = await pool.query<HolidayRow>(
+        `INSERT INTO holidays (date, name, recurring)
+         VALUES ($1, $2, $3)
+         RETURNING ${HOLIDAY_COLUMNS}`,
+        [input.date, input.name, input.recurring ?? false]
+      );
+      const row = result.rows[0];
+      if (!row) throw new Error('Failed to create holiday');
+      return rowToHoliday(row);
+    },
+
+    async deleteHoliday(id: HolidayId): Promise<Result<void, CalendarError>> {
+      const result = await pool.query('DELETE FROM holidays WHERE id = $1', [id]);
+      if (result.rowCount === 0) {
+        return err({ type: 'HOLIDAY_NOT_FOUND', holidayId: id });
+      }
+      return ok(undefined);
+    },
+
+    async findAllClosures(): Promise<Closure[]> {
+      const result = await pool.query<ClosureRow>(
+        `SELECT ${CLOSURE_COLUMNS} FROM closures ORDER BY closures.start_date`
+      );
+      return result.rows.map(rowToClosure);
+    },
+
+    async createClosure(input: CreateClosureInput): Promise<Closure> {
+      const result = await pool.query<ClosureRow>(
+        `INSERT INTO closures (start_date, end_date, reason)
+         VALUES ($1, $2, $3)
+         RETURNING ${CLOSURE_COLUMNS}`,
+        [input.startDate, input.endDate, input.reason]
+      );
+      const row = result.rows[0];
+      if (!row) throw new Error('Failed to create closure');
+      return rowToClosure(row);
+    },
+
+    async deleteClosure(id: ClosureId): Promise<Result<void, CalendarError>> {
+      const result = await pool.query('DELETE FROM closures WHERE id = $1', [id]);
+      if (result.rowCount === 0) {
+        return err({ type: 'CLOSURE_NOT_FOUND', closureId: id });
+      }
+      return ok(undefined);
+    },
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * PostgreSQL 分類・件名標目リポジトリ
+ *
+ * PostgreSQLを使用した分類表（NDC・DDC）と件名標目の永続化実装
+ */
+
+import type { ClassificationRepository } from '../../domains/book/classification-repository.js';
+import type {
+  BookError,
+  Classification,
+  ClassificationScheme,
+  CreateClassificationInput,
+  CreateSubjectHeadingInput,
+  SubjectHeading,
+} from '../../domains/book/types.js';
+import type { ClassificationId } from '../../shared/branded-types.js';
+import { createClassificationId, createSubjectHeadingId } from '../../shared/branded-types.js';
+import { ok, err, type Result } from '../../shared/result.js';
+import type { DatabasePool } from '../database/database.js';
+
+// ============================================
+// 行型定義
+// ============================================
+
+interface ClassificationRow {
+  id: string;
+  scheme: ClassificationScheme;
+  number: string;
+  label: string;
+  parent_id: string | null;
+  level: number;
+  created_at: Date;
+}
+
+interface SubjectHeadingRow {
+  id: string;
+  label: string;
+  alternate_labels: string[];
+  classification_id: string | null;
+  created_at: Date;
+}
+
+// ============================================
+// 変換関数
+// ============================================
+
+function rowToClassification(row: ClassificationRow): Classification {
+  return {
+    id: createClassificationId(row.id),
+    scheme: row.scheme,
+    number: row.number,
+    label: row.label,
+    parentId: row.parent_id !== null ? createClassificationId(row.parent_id) : null,
+    level: row.level,
+    createdAt: row.created_at,
+  };
+}
+
+function rowToSubjectHeading(row: SubjectHeadingRow): SubjectHeading {
+  return {
+    id: createSubjectHeadingId(row.id),
+    label: row.label,
+    alternateLabels: row.alternate_labels,
+    classificationId:
+      row.classification_id !== null ? createClassificationId(row.classification_id) : null,
+    createdAt: row.created_at,
+  };
+}
+
+// ============================================
+// リポジトリ実装
+// ============================================
+
+/**
+ * PostgreSQL分類・件名標目リポジトリを作成
+ */
+export function createPgClassificationRepository(pool: DatabasePool): ClassificationRepository {
+  return {
+    async createClassification(
+      input: CreateClassificationInput & { readonly level: number }
+    ): Promise<Result<Classification, BookError>> {
+      try {
+        const result = await pool.query<ClassificationRow>(
+          `INSERT INTO classifications (scheme, number, label, parent_id, level)
+           VALUES ($1, $2, $3, $4, $5)
+           RETURNING *`,
+          [input.scheme, input.number, input.label, input.parentId ?? null, input.level]
+        );
+        const row = result.rows[0];
+        if (!row) throw new Error('Failed to create classification');
+        return ok(rowToClassification(row));
+      } catch (error) {
+        if ((error as { code?: string }).code === '23505') {
+          return err({
+            type: 'DUPLICATE_CLASSIFICATION',
+            scheme: input.scheme,
+            number: input.number,
+          });
+        }
+        throw error;
+      }
+    },
+
+    async findClassificationById(id: ClassificationId): Promise<Classification | null> {
+      const result = await pool.query<ClassificationRow>(
+        'SELECT * FROM classifications WHERE id = $1',
+        [id]
+      );
+      const row = result.rows[0];
+      return row ? rowToClassification(row) : null;
+    },
+
+    async findClassificationChildren(
+      scheme: ClassificationScheme,
+      parentId: ClassificationId | null
+    ): Promise<Classification[]> {
+      const result = await pool.query<ClassificationRow>(
+        `SELECT * FROM classifications
+         WHERE scheme = $1 AND parent_id IS NOT DISTINCT FROM $2
+         ORDER BY number`,
+        [scheme, parentId]
+      );
+      return result.rows.map(rowToClassification);
+    },
+
+    async findClassificationAncestors(id: ClassificationId): Promise<Classification[]> {
+      const result = await pool.query<ClassificationRow>(
+        `WITH RECURSIVE ancestors AS (
+           SELECT parent.* FROM classifications c
+           JOIN classifications parent ON parent.id = c.parent_id
+           WHERE c.id = $1
+           UNION ALL
+           SELECT parent.* FROM ancestors a
+           JOIN classifications parent ON parent.id = a.parent_id
+         )
+         SELECT * FROM ancestors ORDER BY level`,
+        [id]
+      );
+      return result.rows.map(rowToClassification);
+    },
+
+    async createSubjectHeading(
+      input: CreateSubjectHeadingInput & { readonly alternateLabels: readonly string[] }
+    ): Promise<Result<SubjectHeading, BookError>> {
+      try {
+        const result = await pool.query<SubjectHeadingRow>(
+          `INSERT INTO subject_headings (label, alternate_labels, classification_id)
+           VALUES ($1, $2, $3)
+           RETURNING *`,
+          [input.label, input.alternateLabels, input.classificationId ?? null]
+        );
+        const row = result.rows[0];
+        if (!row) throw new Error('Failed to create subject heading');
+        return ok(rowToSubjectHeading(row));
+      } catch (error) {
+        if ((error as { code?: string }).code === '23505') {
+          return err({ type: 'DUPLICATE_SUBJECT_HEADING', label: input.label });
+        }
+        throw error;
+      }
+    },
+
+    async searchSubjectHeadings(query: string): Promise<SubjectHeading[]> {
+      const result = await pool.query<SubjectHeadingRow>(
+        `SELECT * FROM subject_headings sh
+         WHERE $1 = ''
+            OR EXISTS (
+              SELECT 1 FROM unnest(ARRAY[sh.label::text] || sh.alternate_labels) AS l
+              WHERE l ILIKE '%' || $1 || '%'
+            )
+         ORDER BY sh.label`,
+        [query]
+      );
+      return result.rows.map(rowToSubjectHeading);
+    },
+  };
+}
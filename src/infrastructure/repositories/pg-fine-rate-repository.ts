@@ -0,0 +1,148 @@
+/**
+ * PostgreSQL 延滞料金レートリポジトリ
+ *
+ * PostgreSQLを使用した延滞料金レートデータの永続化実装
+ */
+
+import type { FineRateRepository } from '../../domains/fine/fine-rate-repository.js';
+import type {
+  FineRate,
+  CreateFineRateInput,
+  UpdateFineRateInput,
+  FineError,
+} from '../../domains/fine/types.js';
+import type { FineRateId } from '../../shared/branded-types.js';
+import { createFineRateId } from '../../shared/branded-types.js';
+import { ok, err, type Result } from '../../shared/result.js';
+import type { DatabasePool } from '../database/database.js';
+
+// ============================================
+// 行型定義
+// ============================================
+
+interface FineRateRow {
+  id: string;
+  book_category: string | null;
+  daily_rate: number;
+  max_amount: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// ============================================
+// 変換関数
+// ============================================
+
+function rowToFineRate(row: FineRateRow): FineRate {
+  return {
+    id: createFineRateId(row.id),
+    bookCategory: row.book_category,
+    dailyRate: row.daily_rate,
+    maxAmount: row.max_amount,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// ============================================
+// リポジトリ実装
+// ============================================
+
+/**
+ * PostgreSQL延滞料金レートリポジトリを作成
+ */
+export function createPgFineRateRepository(pool: DatabasePool): FineRateRepository {
+  return {
+    async create(input: CreateFineRateInput): Promise<Result<FineRate, FineError>> {
+      const bookCategory = input.bookCategory ?? null;
+
+      try {
+        const result = await pool.query<FineRateRow>(
+          `INSERT INTO fine_rates (book_category, daily_rate, max_amount)
+           VALUES ($1, $2, $3)
+           RETURNING *`,
+          [bookCategory, input.dailyRate, input.maxAmount ?? null]
+        );
+        const row = result.rows[0];
+        if (!row) throw new Error('Failed to create fine rate');
+        return ok(rowToFineRate(row));
+      } catch (error) {
+        if ((error as { code?: string }).code === '23505') {
+          return err({ type: 'DUPLICATE_RATE', bookCategory });
+        }
+        throw error;
+      }
+    },
+
+    async findById(id: FineRateId): Promise<Result<FineRate, FineError>> {
+      const result = await pool.query<FineRateRow>('SELECT * FROM fine_rates WHERE id = $1', [id]);
+      const row = result.rows[0];
+      if (!row) {
+        return err({ type: 'RATE_NOT_FOUND', rateId: id });
+      }
+      return ok(rowToFineRate(row));
+    },
+
+    async findAll(): Promise<FineRate[]> {
+      const result = await pool.query<FineRateRow>(
+        'SELECT * FROM fine_rates ORDER BY book_category NULLS FIRST'
+      );
+      return result.rows.map(rowToFineRate);
+    },
+
+    async findApplicable(bookCategory: string | null): Promise<FineRate[]> {
+      const result = await pool.query<FineRateRow>(
+        'SELECT * FROM fine_rates WHERE book_category IS NULL OR book_category = $1',
+        [bookCategory]
+      );
+      return result.rows.map(rowToFineRate);
+    },
+
+    async update(id: FineRateId, input: UpdateFineRateInput): Promise<Result<FineRate, FineError>> {
+      const existing = await pool.query<FineRateRow>('SELECT * FROM fine_rates WHERE id = $1', [
+        id,
+      ]);
+      const current = existing.rows[0];
+      if (!current) {
+        return err({ type: 'RATE_NOT_FOUND', rateId: id });
+      }
+
+      const bookCategory =
+        input.bookCategory !== undefined ? input.bookCategory : current.book_category;
+
+      try {
+        const result = await pool.query<FineRateRow>(
+          `UPDATE fine_rates SET
+             book_category = $1,
+             daily_rate = $2,
+             max_amount = $3,
+             updated_at = NOW()
+           WHERE id = $4
+           RETURNING *`,
+          [
+            bookCategory,
+            input.dailyRate ?? current.daily_rate,
+            input.maxAmount !== undefined ? input.maxAmount : current.max_amount,
+            id,
+          ]
+        );
+        const row = result.rows[0];
+        if (!row) throw new Error('Failed to update fine rate');
+        return ok(rowToFineRate(row));
+      } catch (error) {
+        if ((error as { code?: string }).code === '23505') {
+          return err({ type: 'DUPLICATE_RATE', bookCategory });
+        }
+        throw error;
+      }
+    },
+
+    async delete(id: FineRateId): Promise<Result<void, FineError>> {
+      const result = await pool.query('DELETE FROM fine_rates WHERE id = $1', [id]);
+      if (result.rowCount === 0) {
+        return err({ type: 'RATE_NOT_FOUND', rateId: id });
+      }
+      return ok(undefined);
+    },
+  };
+}
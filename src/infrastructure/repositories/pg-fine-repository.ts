@@ -0,0 +1,101 @@
+/**
+ * PostgreSQL 利用者口座取引リポジトリ
+ *
+ * PostgreSQLを使用した延滞料金・支払い等の取引データの永続化実装
+ */
+
+import type { FineRepository } from '../../domains/fine/fine-repository.js';
+import type {
+  FineTransaction,
+  FineTransactionType,
+  CreateFineTransactionInput,
+} from '../../domains/fine/types.js';
+import type { LoanId, UserId } from '../../shared/branded-types.js';
+import { createFineTransactionId, createUserId, createLoanId } from '../../shared/branded-types.js';
+import type { DatabasePool } from '../database/database.js';
+
+// ============================================
+// 行型定義
+// ============================================
+
+interface FineTransactionRow {
+  id: string;
+  user_id: string;
+  type: FineTransactionType;
+  amount: number;
+  loan_id: string | null;
+  reason: string | null;
+  created_at: Date;
+}
+
+// ============================================
+// 変換関数
+// ============================================
+
+function rowToFineTransaction(row: FineTransactionRow): FineTransaction {
+  return {
+    id: createFineTransactionId(row.id),
+    userId: createUserId(row.user_id),
+    type: row.type,
+    amount: row.amount,
+    loanId: row.loan_id !== null ? createLoanId(row.loan_id) : null,
+    reason: row.reason,
+    createdAt: row.created_at,
+  };
+}
+
+// ============================================
+// リポジトリ実装
+// ============================================
+
+/**
+ * PostgreSQL利用者口座取引リポジトリを作成
+ */
+export function createPgFineRepository(pool: DatabasePool): FineRepository {
+  return {
+    async createTransaction(input: CreateFineTransactionInput): Promise<FineTransaction> {
+      const result = await pool.query<FineTransactionRow>(
+        `INSERT INTO fine_transactions (user_id, type, amount, loan_id, reason)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [input.userId, input.type, input.amount, input.loanId ?? null, input.reason ?? null]
+      );
+      const row = result.rows[0];
+      if (!row) throw new Error('Failed to create fine transaction');
+      return rowToFineTransaction(row);
+    },
+
+    async findTransactionsByUserId(userId: UserId): Promise<FineTransaction[]> {
+      const result = await pool.query<FineTransactionRow>(
+        'SELECT * FROM fine_transactions WHERE user_id = $1 ORDER BY created_at DESC',
+        [userId]
+      );
+      return result.rows.map(rowToFineTransaction);
+    },
+
+    async findTransactionsByLoanId(loanId: LoanId): Promise<FineTransaction[]> {
+      const result = await pool.query<FineTransactionRow>(
+        'SELECT * FROM fine_transactions WHERE loan_id = $1 ORDER BY created_at DESC',
+        [loanId]
+      );
+      return result.rows.map(rowToFineTransaction);
+    },
+
+    async getBalance(userId: UserId): Promise<number> {
+      const result = await pool.query<{ balance: number }>(
+        `SELECT COALESCE(SUM(
+           CASE WHEN type IN ('CHARGE', 'REPLACEMENT', 'REFUND') THEN amount ELSE -amount END
+         ), 0)::integer AS balance
+         FROM fine_transactions
+         WHERE user_id = $1`,
+        [userId]
+      );
+      return result.rows[0]?.balance ?? 0;
+    },
+
+    async lockAccount(userId: UserId): Promise<void> {
+      // 口座専用のテーブルはないため、利用者の行をロックして同じ利用者の取引記録を直列化する
+      await pool.query('SELECT id FROM users WHERE id = $1 FOR UPDATE', [userId]);
+    },
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * PostgreSQL ジョブリポジトリ
+ *
+ * PostgreSQLを使用したジョブの実行状態・実行履歴の永続化実装
+ */
+
+import type { JobRepository } from '../../domains/job/job-repository.js';
+import type {
+  JobRun,
+  JobRunStatus,
+  JobTrigger,
+  RecordJobRunInput,
+} from '../../domains/job/types.js';
+import { createJobRunId } from '../../shared/branded-types.js';
+import type { DatabasePool } from '../database/database.js';
+
+// ============================================
+// 行型定義
+// ============================================
+
+interface JobStateRow {
+  last_run_at: Date | null;
+}
+
+interface JobRunRow {
+  id: string;
+  job_name: string;
+  trigger: JobTrigger;
+  status: JobRunStatus;
+  started_at: Date;
+  finished_at: Date;
+  summary: string | null;
+  error: string | null;
+}
+
+// ============================================
+// 変換関数
+// ============================================
+
+function rowToJobRun(row: JobRunRow): JobRun {
+  return {
+    id: createJobRunId(row.id),
+    jobName: row.job_name,
+    trigger: row.trigger,
+    status: row.status,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    summary: row.summary,
+    error: row.error,
+  };
+}
+
+// ============================================
+// リポジトリ実装
+// ============================================
+
+/**
+ * PostgreSQLジョブリポジトリを作成
+ */
+export function createPgJobRepository(pool: DatabasePool): JobRepository {
+  return {
+    async findLastRunAt(jobName: string): Promise<Date | null> {
+      const result = await pool.query<JobStateRow>(
+        'SELECT last_run_at FROM job_states WHERE name = $1',
+        [jobName]
+      );
+      return result.rows[0]?.last_run_at ?? null;
+    },
+
+    async tryAcquireLock(
+      jobName: string,
+      holder: string,
+      now: Date,
+      lockedUntil: Date
+    ): Promise<boolean> {
+      // 未ロックまたはロックの有効期限が切れている場合のみ取得できる
+      const result = await pool.query(
+        `INSERT INTO job_states (name, locked_by, locked_until)
+         VALUES ($1, $2, $4)
+         ON CONFLICT (name) DO UPDATE SET
+           locked_by = EXCLUDED.locked_by,
+           locked_until = EXCLUDED.locked_until
+         WHERE job_states.locked_until IS NULL OR job_states.locked_until < $3
+         RETURNING name`,
+        [jobName, holder, now, lockedUntil]
+      );
+      return result.rows.length > 0;
+    },
+
+    async releaseLock(jobName: string, holder: string): Promise<void> {
+      await pool.query(
+        `UPDATE job_states SET locked_by = NULL, locked_until = NULL
+         WHERE name = $1 AND locked_by = $2`,
+        [jobName, holder]
+      );
+    },
+
+    async recordRun(input: RecordJobRunInput): Promise<JobRun> {
+      // 実行履歴の記録と前回実行日時の更新を1つの文で行う
+      const result = await pool.query<JobRunRow>(
+        `WITH state AS (
+           INSERT INTO job_states (name, last_run_at)
+           VALUES ($1, $4)
+           ON CONFLICT (name) DO UPDATE SET last_run_at = EXCLUDED.last_run_at
+         )
+         INSERT INTO job_runs (job_name, trigger, status, started_at, finished_at, summary, error)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [
+          input.jobName,
+          input.trigger,
+          input.status,
+          input.startedAt,
+          input.finishedAt,
+          input.summary,
+          input.error,
+        ]
+      );
+      const row = result.rows[0];
+      if (!row) throw new Error('Failed to record job run');
+      return rowToJobRun(row);
+    },
+
+    async findRunsByJobName(jobName: string, limit: number): Promise<JobRun[]> {
+      const result = await pool.query<JobRunRow>(
+        `SELECT * FROM job_runs
+         WHERE job_name = $1
+         ORDER BY started_at DESC
+         LIMIT $2`,
+        [jobName, limit]
+      );
+      return result.rows.map(rowToJobRun);
+    },
+  };
+}
@@ -0,0 +1,187 @@
+/**
+ * PostgreSQL 貸出ポリシーリポジトリ
+ *
+ * PostgreSQLを使用した貸出ポリシーデータの永続化実装
+ */
+
+import type { LoanPolicyRepository } from '../../domains/loan/loan-policy-repository.js';
+import type {
+  LoanPolicy,
+  CreateLoanPolicyInput,
+  UpdateLoanPolicyInput,
+  LoanPolicyError,
+} from '../../domains/loan/types.js';
+import type { LoanPolicyId } from '../../shared/branded-types.js';
+import { createLoanPolicyId } from '../../shared/branded-types.js';
+import { ok, err, type Result } from '../../shared/result.js';
+import type { DatabasePool } from '../database/database.js';
+
+// ============================================
+// 行型定義
+// ============================================
+
+interface LoanPolicyRow {
+  id: string;
+  name: string;
+  book_category: string | null;
+  patron_category: string | null;
+  loan_duration_days: number;
+  max_renewals: number;
+  max_items: number | null;
+  grace_period_days: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// ============================================
+// 変換関数
+// ============================================
+
+function rowToLoanPolicy(row: LoanPolicyRow): LoanPolicy {
+  return {
+    id: createLoanPolicyId(row.id),
+    name: row.name,
+    bookCategory: row.book_category,
+    patronCategory: row.patron_category,
+    loanDurationDays: row.loan_duration_days,
+    maxRenewals: row.max_renewals,
+    maxItems: row.max_items,
+    gracePeriodDays: row.grace_period_days,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// ============================================
+// リポジトリ実装
+// ============================================
+
+/**
+ * PostgreSQL貸出ポリシーリポジトリを作成
+ */
+export function createPgLoanPolicyRepository(pool: DatabasePool): LoanPolicyRepository {
+  return {
+    async create(input: CreateLoanPolicyInput): Promise<Result<LoanPolicy, LoanPolicyError>> {
+      const bookCategory = input.bookCategory ?? null;
+      const patronCategory = input.patronCategory ?? null;
+
+      try {
+        const result = await pool.query<LoanPolicyRow>(
+          `INSERT INTO loan_policies
+             (name, book_category, patron_category, loan_duration_days, max_renewals, max_items, grace_period_days)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)
+           RETURNING *`,
+          [
+            input.name,
+            bookCategory,
+            patronCategory,
+            input.loanDurationDays,
+            input.maxRenewals,
+            input.maxItems ?? null,
+            input.gracePeriodDays ?? 0,
+          ]
+        );
+        const row = result.rows[0];
+        if (!row) throw new Error('Failed to create loan policy');
+        return ok(rowToLoanPolicy(row));
+      } catch (error) {
+        if ((error as { code?: string }).code === '23505') {
+          return err({ type: 'DUPLICATE_POLICY', bookCategory, patronCategory });
+        }
+        throw error;
+      }
+    },
+
+    async findById(id: LoanPolicyId): Promise<Result<LoanPolicy, LoanPolicyError>> {
+      const result = await pool.query<LoanPolicyRow>('SELECT * FROM loan_policies WHERE id = $1', [
+        id,
+      ]);
+      const row = result.rows[0];
+      if (!row) {
+        return err({ type: 'POLICY_NOT_FOUND', policyId: id });
+      }
+      return ok(rowToLoanPolicy(row));
+    },
+
+    async findAll(): Promise<LoanPolicy[]> {
+      const result = await pool.query<LoanPolicyRow>(
+        'SELECT * FROM loan_policies ORDER BY book_category NULLS FIRST, patron_category NULLS FIRST'
+      );
+      return result.rows.map(rowToLoanPolicy);
+    },
+
+    async findApplicable(
+      bookCategory: string | null,
+      patronCategory: string | null
+    ): Promise<LoanPolicy[]> {
+      const result = await pool.query<LoanPolicyRow>(
+        `SELECT * FROM loan_policies
+         WHERE (book_category IS NULL OR book_category = $1)
+           AND (patron_category IS NULL OR patron_category = $2)`,
+        [bookCategory, patronCategory]
+      );
+      return result.rows.map(rowToLoanPolicy);
+    },
+
+    async update(
+      id: LoanPolicyId,
+      input: UpdateLoanPolicyInput
+    ): Promise<Result<LoanPolicy, LoanPolicyError>> {
+      const existing = await pool.query<LoanPolicyRow>(
+        'SELECT * FROM loan_policies WHERE id = $1',
+        [id]
+      );
+      const current = existing.rows[0];
+      if (!current) {
+        return err({ type: 'POLICY_NOT_FOUND', policyId: id });
+      }
+
+      const bookCategory =
+        input.bookCategory !== undefined ? input.bookCategory : current.book_category;
+      const patronCategory =
+        input.patronCategory !== undefined ? input.patronCategory : current.patron_category;
+
+      try {
+        const result = await pool.query<LoanPolicyRow>(
+          `UPDATE loan_policies SET
+             name = $1,
+             book_category = $2,
+             patron_category = $3,
+             loan_duration_days = $4,
+             max_renewals = $5,
+             max_items = $6,
+             grace_period_days = $7,
+             updated_at = NOW()
+           WHERE id = $8
+           RETURNING *`,
+          [
+            input.name ?? current.name,
+            bookCategory,
+            patronCategory,
+            input.loanDurationDays ?? current.loan_duration_days,
+            input.maxRenewals ?? current.max_renewals,
+            input.maxItems !== undefined ? input.maxItems : current.max_items,
+            input.gracePeriodDays ?? current.grace_period_days,
+            id,
+          ]
+        );
+        const row = result.rows[0];
+        if (!row) throw new Error('Failed to update loan policy');
+        return ok(rowToLoanPolicy(row));
+      } catch (error) {
+        if ((error as { code?: string }).code === '23505') {
+          return err({ type: 'DUPLICATE_POLICY', bookCategory, patronCategory });
+        }
+        throw error;
+      }
+    },
+
+    async delete(id: LoanPolicyId): Promise<Result<void, LoanPolicyError>> {
+      const result = await pool.query('DELETE FROM loan_policies WHERE id = $1', [id]);
+      if (result.rowCount === 0) {
+        return err({ type: 'POLICY_NOT_FOUND', policyId: id });
+      }
+      return ok(undefined);
+    },
+  };
+}
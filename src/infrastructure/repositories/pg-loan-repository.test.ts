@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createDatabaseConfig, DatabasePool } from '../database/database.js';
+import { createPgLoanRepository } from './pg-loan-repository.js';
+import { createCopyId, createLoanId, createUserId } from '../../shared/branded-types.js';
+import { err, isOk } from '../../shared/result.js';
+
+/**
+ * Fake pg pool whose query results are queued per test
+ */
+const fakePg = vi.hoisted(() => {
+  const query = vi.fn<(text: string, params?: unknown[]) => Promise<{ rows: unknown[] }>>();
+
+  class Pool {
+    query(text: string, params?: unknown[]): Promise<{ rows: unknown[] }> {
+      return query(text, params);
+    }
+  }
+
+  return { Pool, query };
+});
+
+vi.mock('pg', () => ({ Pool: fakePg.Pool }));
+
+const GUARD = "status = 'ACTIVE' AND returned_at IS NULL AND recalled_at IS NULL";
+
+function loanRow(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: 'loan-1',
+    user_id: 'user-1',
+    book_copy_id: 'copy-1',
+    borrowed_at: new Date('2024-01-01'),
+    due_date: new Date('2024-01-15'),
+    returned_at: null,
+    return_processed_at: null,
+    status: 'ACTIVE',
+    renewal_count: 0,
+    loan_policy_id: null,
+    recalled_at: null,
+    ...overrides,
+  };
+}
+
+describe('PgLoanRepository', () => {
+  const loanId = createLoanId('loan-1');
+  let repository: ReturnType<typeof createPgLoanRepository>;
+
+  beforeEach(() => {
+    fakePg.query.mockReset();
+    repository = createPgLoanRepository(new DatabasePool(createDatabaseConfig()));
+  });
+
+  describe('create', () => {
+    const input = { userId: createUserId('user-1'), bookCopyId: createCopyId('copy-1') };
+
+    it('should return BOOK_NOT_AVAILABLE when the copy already has an active loan', async () => {
+      // idx_loans_active_book_copy_id rejects the second concurrent checkout
+      fakePg.query.mockRejectedValueOnce(
+        Object.assign(new Error('duplicate key value violates unique constraint'), {
+          code: '23505',
+        })
+      );
+
+      const result = await repository.create(input, new Date('2024-01-15'), null);
+
+      expect(result).toEqual(err({ type: 'BOOK_NOT_AVAILABLE', copyId: 'copy-1' }));
+    });
+
+    it('should rethrow other database errors', async () => {
+      const error = Object.assign(new Error('foreign key violation'), { code: '23503' });
+      fakePg.query.mockRejectedValueOnce(error);
+
+      await expect(repository.create(input, new Date('2024-01-15'), null)).rejects.toBe(error);
+    });
+  });
+
+  describe('renew', () => {
+    it('should only update a loan that is still active, unreturned and unrecalled', async () => {
+      fakePg.query.mockResolvedValueOnce({
+        rows: [loanRow({ due_date: new Date('2024-01-29'), renewal_count: 1 })],
+      });
+
+      const result = await repository.renew(loanId, new Date('2024-01-29'));
+
+      expect(isOk(result) && result.value.renewalCount).toBe(1);
+      expect(fakePg.query.mock.calls[0]?.[0]).toContain(GUARD);
+    });
+
+    it('should return ALREADY_RETURNED when the loan was returned after it was checked', async () => {
+      fakePg.query.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({
+        rows: [loanRow({ returned_at: new Date('2024-01-10'), status: 'RETURNED' })],
+      });
+
+      const result = await repository.renew(loanId, new Date('2024-01-29'));
+
+      expect(result).toEqual(err({ type: 'ALREADY_RETURNED', loanId: 'loan-1' }));
+    });
+
+    it('should return LOAN_RECALLED when the loan was recalled after it was checked', async () => {
+      fakePg.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [loanRow({ recalled_at: new Date('2024-01-10') })] });
+
+      const result = await repository.renew(loanId, new Date('2024-01-29'));
+
+      expect(result).toEqual(err({ type: 'LOAN_RECALLED', loanId: 'loan-1' }));
+    });
+
+    it('should return LOAN_NOT_FOUND when the loan does not exist', async () => {
+      fakePg.query.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [] });
+
+      const result = await repository.renew(loanId, new Date('2024-01-29'));
+
+      expect(result).toEqual(err({ type: 'LOAN_NOT_FOUND', loanId: 'loan-1' }));
+    });
+  });
+
+  describe('recall', () => {
+    it('should only update a loan that is still active, unreturned and unrecalled', async () => {
+      const recalledAt = new Date('2024-01-10');
+      fakePg.query.mockResolvedValueOnce({
+        rows: [loanRow({ due_date: new Date('2024-01-13'), recalled_at: recalledAt })],
+      });
+
+      const result = await repository.recall(loanId, new Date('2024-01-13'), recalledAt);
+
+      expect(isOk(result) && result.value.recalledAt).toEqual(recalledAt);
+      expect(fakePg.query.mock.calls[0]?.[0]).toContain(GUARD);
+    });
+
+    it('should return ALREADY_RECALLED when the loan was recalled concurrently', async () => {
+      fakePg.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [loanRow({ recalled_at: new Date('2024-01-09') })] });
+
+      const result = await repository.recall(
+        loanId,
+        new Date('2024-01-13'),
+        new Date('2024-01-10')
+      );
+
+      expect(result).toEqual(err({ type: 'ALREADY_RECALLED', loanId: 'loan-1' }));
+    });
+
+    it('should return INVALID_LOAN_STATUS when the loan is no longer active', async () => {
+      fakePg.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [loanRow({ status: 'CLAIMED_RETURNED' })] });
+
+      const result = await repository.recall(
+        loanId,
+        new Date('2024-01-13'),
+        new Date('2024-01-10')
+      );
+
+      expect(result).toEqual(
+        err({ type: 'INVALID_LOAN_STATUS', loanId: 'loan-1', status: 'CLAIMED_RETURNED' })
+      );
+    });
+  });
+});
@@ -5,9 +5,14 @@
  */
 
 import type { LoanRepository } from '../../domains/loan/loan-repository.js';
-import type { Loan, CreateLoanInput, LoanError } from '../../domains/loan/types.js';
-import type { LoanId, UserId, CopyId } from '../../shared/branded-types.js';
-import { createLoanId, createUserId, createCopyId } from '../../shared/branded-types.js';
+import type { Loan, LoanStatus, CreateLoanInput, LoanError } from '../../domains/loan/types.js';
+import type { LoanId, UserId, CopyId, LoanPolicyId } from '../../shared/branded-types.js';
+import {
+  createLoanId,
+  createUserId,
+  createCopyId,
+  createLoanPolicyId,
+} from '../../shared/branded-types.js';
 import { ok, err, type Result } from '../../shared/result.js';
 import type { DatabasePool } from '../database/database.js';
 
@@ -22,12 +27,21 @@ interface LoanRow {
   borrowed_at: Date;
   due_date: Date;
   returned_at: Date | null;
+  return_processed_at: Date | null;
+  status: LoanStatus;
+  renewal_count: number;
+  loan_policy_id: string | null;
+  recalled_at: Date | null;
 }
 
 interface CountRow {
   count: string;
 }
 
+interface AverageDaysRow {
+  average_days: string | null;
+}
+
 // ============================================
 // 変換関数
 // ============================================
@@ -40,6 +54,11 @@ function rowToLoan(row: LoanRow): Loan {
     borrowedAt: row.borrowed_at,
     dueDate: row.due_date,
     returnedAt: row.returned_at,
+    returnProcessedAt: row.return_processed_at,
+    status: row.status,
+    renewalCount: row.renewal_count,
+    loanPolicyId: row.loan_policy_id !== null ? createLoanPolicyId(row.loan_policy_id) : null,
+    recalledAt: row.recalled_at,
   };
 }
 
@@ -51,17 +70,51 @@ function rowToLoan(row: LoanRow): Loan {
  * PostgreSQL貸出リポジトリを作成
  */
 export function createPgLoanRepository(pool: DatabasePool): LoanRepository {
+  /**
+   * 貸出中の貸出のみを対象とする更新で対象行がなかった理由を判定
+   * （判定の後に別の処理で返却・リコール等された場合）
+   */
+  async function toInactiveLoanError(
+    id: LoanId,
+    recalledError: 'LOAN_RECALLED' | 'ALREADY_RECALLED'
+  ): Promise<LoanError> {
+    const result = await pool.query<LoanRow>('SELECT * FROM loans WHERE id = $1', [id]);
+    const row = result.rows[0];
+    if (!row) {
+      return { type: 'LOAN_NOT_FOUND', loanId: id };
+    }
+    if (row.returned_at !== null) {
+      return { type: 'ALREADY_RETURNED', loanId: id };
+    }
+    if (row.status !== 'ACTIVE') {
+      return { type: 'INVALID_LOAN_STATUS', loanId: id, status: row.status };
+    }
+    return { type: recalledError, loanId: id };
+  }
+
   return {
-    async create(input: CreateLoanInput, dueDate: Date): Promise<Result<Loan, LoanError>> {
-      const result = await pool.query<LoanRow>(
-        `INSERT INTO loans (user_id, book_copy_id, due_date)
-         VALUES ($1, $2, $3)
-         RETURNING *`,
-        [input.userId, input.bookCopyId, dueDate]
-      );
-      const row = result.rows[0];
-      if (!row) throw new Error('Failed to create loan');
-      return ok(rowToLoan(row));
+    async create(
+      input: CreateLoanInput,
+      dueDate: Date,
+      loanPolicyId: LoanPolicyId | null
+    ): Promise<Result<Loan, LoanError>> {
+      try {
+        const result = await pool.query<LoanRow>(
+          `INSERT INTO loans (user_id, book_copy_id, due_date, loan_policy_id)
+           VALUES ($1, $2, $3, $4)
+           RETURNING *`,
+          [input.userId, input.bookCopyId, dueDate, loanPolicyId]
+        );
+        const row = result.rows[0];
+        if (!row) throw new Error('Failed to create loan');
+        return ok(rowToLoan(row));
+      } catch (error) {
+        // 同一蔵書コピーのアクティブな貸出が既に存在する（一意インデックス違反）
+        if ((error as { code?: string }).code === '23505') {
+          return err({ type: 'BOOK_NOT_AVAILABLE', copyId: input.bookCopyId });
+        }
+        throw error;
+      }
     },
 
     async findById(id: LoanId): Promise<Result<Loan, LoanError>> {
@@ -81,6 +134,18 @@ export function createPgLoanRepository(pool: DatabasePool): LoanRepository {
       return parseInt(result.rows[0]?.count ?? '0', 10);
     },
 
+    async countActiveLoansByBookCategory(userId: UserId, category: string): Promise<number> {
+      const result = await pool.query<CountRow>(
+        `SELECT COUNT(*) as count
+         FROM loans l
+         JOIN book_copies bc ON l.book_copy_id = bc.id
+         JOIN books b ON bc.book_id = b.id
+         WHERE l.user_id = $1 AND l.returned_at IS NULL AND b.category = $2`,
+        [userId, category]
+      );
+      return parseInt(result.rows[0]?.count ?? '0', 10);
+    },
+
     async findActiveByUserId(userId: UserId): Promise<Loan[]> {
       const result = await pool.query<LoanRow>(
         'SELECT * FROM loans WHERE user_id = $1 AND returned_at IS NULL ORDER BY borrowed_at',
@@ -110,10 +175,50 @@ export function createPgLoanRepository(pool: DatabasePool): LoanRepository {
       return result.rows.map(rowToLoan);
     },
 
-    async updateReturnedAt(id: LoanId, returnedAt: Date): Promise<Result<Loan, LoanError>> {
+    async findAverageLoanDays(copyIds: readonly CopyId[]): Promise<number | null> {
+      if (copyIds.length === 0) {
+        return null;
+      }
+      const placeholders = copyIds.map((_, i) => `$${String(i + 1)}`).join(', ');
+      const result = await pool.query<AverageDaysRow>(
+        `SELECT AVG(EXTRACT(EPOCH FROM (returned_at - borrowed_at)) / 86400) as average_days
+         FROM loans
+         WHERE book_copy_id IN (${placeholders}) AND status = 'RETURNED'`,
+        [...copyIds]
+      );
+      const averageDays = result.rows[0]?.average_days ?? null;
+      return averageDays === null ? null : parseFloat(averageDays);
+    },
+
+    async findOverdue(asOf: Date): Promise<Loan[]> {
+      const result = await pool.query<LoanRow>(
+        `SELECT * FROM loans
+         WHERE status = 'ACTIVE' AND returned_at IS NULL AND due_date < $1
+         ORDER BY due_date`,
+        [asOf]
+      );
+      return result.rows.map(rowToLoan);
+    },
+
+    async findDueBetween(from: Date, to: Date): Promise<Loan[]> {
+      const result = await pool.query<LoanRow>(
+        `SELECT * FROM loans
+         WHERE status = 'ACTIVE' AND returned_at IS NULL AND due_date >= $1 AND due_date < $2
+         ORDER BY due_date`,
+        [from, to]
+      );
+      return result.rows.map(rowToLoan);
+    },
+
+    async updateReturnedAt(
+      id: LoanId,
+      returnedAt: Date,
+      processedAt: Date
+    ): Promise<Result<Loan, LoanError>> {
       const result = await pool.query<LoanRow>(
-        `UPDATE loans SET returned_at = $1 WHERE id = $2 RETURNING *`,
-        [returnedAt, id]
+        `UPDATE loans SET returned_at = $1, return_processed_at = $2, status = 'RETURNED'
+         WHERE id = $3 RETURNING *`,
+        [returnedAt, processedAt, id]
       );
       const row = result.rows[0];
       if (!row) {
@@ -121,5 +226,49 @@ export function createPgLoanRepository(pool: DatabasePool): LoanRepository {
       }
       return ok(rowToLoan(row));
     },
+
+    async updateStatus(
+      id: LoanId,
+      status: LoanStatus,
+      returnedAt: Date | null
+    ): Promise<Result<Loan, LoanError>> {
+      const result = await pool.query<LoanRow>(
+        `UPDATE loans SET status = $1, returned_at = $2 WHERE id = $3 RETURNING *`,
+        [status, returnedAt, id]
+      );
+      const row = result.rows[0];
+      if (!row) {
+        return err({ type: 'LOAN_NOT_FOUND', loanId: id });
+      }
+      return ok(rowToLoan(row));
+    },
+
+    async renew(id: LoanId, dueDate: Date): Promise<Result<Loan, LoanError>> {
+      const result = await pool.query<LoanRow>(
+        `UPDATE loans SET due_date = $1, renewal_count = renewal_count + 1
+         WHERE id = $2 AND status = 'ACTIVE' AND returned_at IS NULL AND recalled_at IS NULL
+         RETURNING *`,
+        [dueDate, id]
+      );
+      const row = result.rows[0];
+      if (!row) {
+        return err(await toInactiveLoanError(id, 'LOAN_RECALLED'));
+      }
+      return ok(rowToLoan(row));
+    },
+
+    async recall(id: LoanId, dueDate: Date, recalledAt: Date): Promise<Result<Loan, LoanError>> {
+      const result = await pool.query<LoanRow>(
+        `UPDATE loans SET due_date = $1, recalled_at = $2
+         WHERE id = $3 AND status = 'ACTIVE' AND returned_at IS NULL AND recalled_at IS NULL
+         RETURNING *`,
+        [dueDate, recalledAt, id]
+      );
+      const row = result.rows[0];
+      if (!row) {
+        return err(await toInactiveLoanError(id, 'ALREADY_RECALLED'));
+      }
+      return ok(rowToLoan(row));
+    },
   };
 }
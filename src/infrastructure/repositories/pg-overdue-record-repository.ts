@@ -8,7 +8,11 @@ import type {
   OverdueRecordRepository,
   OverdueRecordRepositoryError,
 } from '../../domains/loan/overdue-record-repository.js';
-import type { OverdueRecord, CreateOverdueRecordInput } from '../../domains/loan/types.js';
+import type {
+  OverdueRecord,
+  CreateOverdueRecordInput,
+  OverdueSnapshotEntry,
+} from '../../domains/loan/types.js';
 import type { LoanId, UserId, OverdueRecordId } from '../../shared/branded-types.js';
 import { createOverdueRecordId, createLoanId } from '../../shared/branded-types.js';
 import { ok, err, type Result } from '../../shared/result.js';
@@ -94,5 +98,22 @@ export function createPgOverdueRecordRepository(pool: DatabasePool): OverdueReco
       );
       return result.rows.map(rowToOverdueRecord);
     },
+
+    async saveSnapshot(
+      snapshotDate: string,
+      entries: readonly OverdueSnapshotEntry[]
+    ): Promise<number> {
+      for (const entry of entries) {
+        await pool.query(
+          `INSERT INTO overdue_snapshots (snapshot_date, loan_id, user_id, overdue_days)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (snapshot_date, loan_id) DO UPDATE SET
+             overdue_days = EXCLUDED.overdue_days,
+             recorded_at = NOW()`,
+          [snapshotDate, entry.loanId, entry.userId, entry.overdueDays]
+        );
+      }
+      return entries.length;
+    },
   };
 }
@@ -0,0 +1,155 @@
+/**
+ * PostgreSQL 購入リクエストリポジトリ
+ *
+ * PostgreSQLを使用した購入リクエストデータの永続化実装
+ */
+
+import type { PurchaseSuggestionRepository } from '../../domains/purchase-suggestion/purchase-suggestion-repository.js';
+import type {
+  PurchaseSuggestion,
+  CreatePurchaseSuggestionInput,
+  PurchaseSuggestionStatus,
+  PurchaseSuggestionStatusChange,
+  PurchaseSuggestionFilter,
+  PurchaseSuggestionError,
+} from '../../domains/purchase-suggestion/types.js';
+import type { PurchaseSuggestionId, ReservationId } from '../../shared/branded-types.js';
+import {
+  createBookId,
+  createPurchaseSuggestionId,
+  createReservationId,
+  createUserId,
+} from '../../shared/branded-types.js';
+import { ok, err, type Result } from '../../shared/result.js';
+import type { DatabasePool } from '../database/database.js';
+
+// ============================================
+// 行型定義
+// ============================================
+
+interface PurchaseSuggestionRow {
+  id: string;
+  user_id: string;
+  title: string;
+  author: string | null;
+  isbn: string | null;
+  note: string | null;
+  status: PurchaseSuggestionStatus;
+  handled_by: string | null;
+  rejection_reason: string | null;
+  book_id: string | null;
+  reservation_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// ============================================
+// 変換関数
+// ============================================
+
+function rowToPurchaseSuggestion(row: PurchaseSuggestionRow): PurchaseSuggestion {
+  return {
+    id: createPurchaseSuggestionId(row.id),
+    userId: createUserId(row.user_id),
+    title: row.title,
+    author: row.author,
+    isbn: row.isbn,
+    note: row.note,
+    status: row.status,
+    handledBy: row.handled_by !== null ? createUserId(row.handled_by) : null,
+    rejectionReason: row.rejection_reason,
+    bookId: row.book_id !== null ? createBookId(row.book_id) : null,
+    reservationId: row.reservation_id !== null ? createReservationId(row.reservation_id) : null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// ============================================
+// リポジトリ実装
+// ============================================
+
+/**
+ * PostgreSQL購入リクエストリポジトリを作成
+ */
+export function createPgPurchaseSuggestionRepository(
+  pool: DatabasePool
+): PurchaseSuggestionRepository {
+  return {
+    async create(input: CreatePurchaseSuggestionInput): Promise<PurchaseSuggestion> {
+      const result = await pool.query<PurchaseSuggestionRow>(
+        `INSERT INTO purchase_suggestions (user_id, title, author, isbn, note)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [input.userId, input.title, input.author ?? null, input.isbn ?? null, input.note ?? null]
+      );
+      const row = result.rows[0];
+      if (!row) throw new Error('Failed to create purchase suggestion');
+      return rowToPurchaseSuggestion(row);
+    },
+
+    async findById(
+      id: PurchaseSuggestionId
+    ): Promise<Result<PurchaseSuggestion, PurchaseSuggestionError>> {
+      const result = await pool.query<PurchaseSuggestionRow>(
+        'SELECT * FROM purchase_suggestions WHERE id = $1',
+        [id]
+      );
+      const row = result.rows[0];
+      if (!row) {
+        return err({ type: 'PURCHASE_SUGGESTION_NOT_FOUND', suggestionId: id });
+      }
+      return ok(rowToPurchaseSuggestion(row));
+    },
+
+    async findAll(filter: PurchaseSuggestionFilter): Promise<PurchaseSuggestion[]> {
+      const result = await pool.query<PurchaseSuggestionRow>(
+        `SELECT * FROM purchase_suggestions
+         WHERE ($1::text IS NULL OR status = $1)
+           AND ($2::uuid IS NULL OR user_id = $2)
+         ORDER BY created_at`,
+        [filter.status ?? null, filter.userId ?? null]
+      );
+      return result.rows.map(rowToPurchaseSuggestion);
+    },
+
+    async updateStatus(
+      id: PurchaseSuggestionId,
+      change: PurchaseSuggestionStatusChange
+    ): Promise<Result<PurchaseSuggestion, PurchaseSuggestionError>> {
+      const result = await pool.query<PurchaseSuggestionRow>(
+        `UPDATE purchase_suggestions SET
+           status = $1,
+           handled_by = $2,
+           rejection_reason = COALESCE($3, rejection_reason),
+           book_id = COALESCE($4, book_id),
+           updated_at = NOW()
+         WHERE id = $5
+         RETURNING *`,
+        [change.status, change.handledBy, change.rejectionReason ?? null, change.bookId ?? null, id]
+      );
+      const row = result.rows[0];
+      if (!row) {
+        return err({ type: 'PURCHASE_SUGGESTION_NOT_FOUND', suggestionId: id });
+      }
+      return ok(rowToPurchaseSuggestion(row));
+    },
+
+    async assignReservation(
+      id: PurchaseSuggestionId,
+      reservationId: ReservationId
+    ): Promise<Result<PurchaseSuggestion, PurchaseSuggestionError>> {
+      const result = await pool.query<PurchaseSuggestionRow>(
+        `UPDATE purchase_suggestions SET reservation_id = $1, updated_at = NOW()
+         WHERE id = $2
+         RETURNING *`,
+        [reservationId, id]
+      );
+      const row = result.rows[0];
+      if (!row) {
+        return err({ type: 'PURCHASE_SUGGESTION_NOT_FOUND', suggestionId: id });
+      }
+      return ok(rowToPurchaseSuggestion(row));
+    },
+  };
+}
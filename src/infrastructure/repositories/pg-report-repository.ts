@@ -9,8 +9,25 @@ import type {
   DateRange,
   PopularBookItem,
   CategoryStatisticsItem,
+  ClassificationLoanCount,
+  OpenReturnClaimItem,
+  ReservationWaitStatisticsItem,
+  HoldRatioStatisticsItem,
 } from '../../domains/report/types.js';
-import { createBookId } from '../../shared/branded-types.js';
+import type {
+  BookClassification,
+  ClassificationScheme,
+  ContributorRole,
+} from '../../domains/book/types.js';
+import {
+  createBookId,
+  createClassificationId,
+  createCopyId,
+  createLoanId,
+  createPersonId,
+  createReturnClaimId,
+  createUserId,
+} from '../../shared/branded-types.js';
 import type { DatabasePool } from '../database/database.js';
 
 // ============================================
@@ -25,14 +42,70 @@ interface PopularBookRow {
   book_id: string;
   title: string;
   author: string;
+  contributors: ContributorRow[];
   loan_count: string;
 }
 
+interface ContributorRow {
+  person_id: string;
+  name: string;
+  role: ContributorRole;
+  position: number;
+}
+
 interface CategoryStatsRow {
   category: string;
   loan_count: string;
 }
 
+interface ClassificationLoanCountRow {
+  /** 最上位の分類から書籍の分類までのJSON配列（未分類の書籍はnull） */
+  path: ClassificationPathRow[] | null;
+  loan_count: string;
+}
+
+interface ClassificationPathRow {
+  id: string;
+  scheme: ClassificationScheme;
+  number: string;
+  label: string;
+}
+
+interface OpenReturnClaimRow {
+  claim_id: string;
+  loan_id: string;
+  user_id: string;
+  user_name: string;
+  book_copy_id: string;
+  book_title: string;
+  claimed_by: string;
+  claimed_at: Date;
+  search_count: number;
+  last_searched_at: Date | null;
+}
+
+interface ReservationWaitStatisticsRow {
+  book_id: string;
+  title: string;
+  category: string | null;
+  copy_count: string;
+  reservation_count: string;
+  active_reservation_count: string;
+  notified_count: string;
+  total_wait_days: string;
+  fulfilled_count: string;
+  expired_count: string;
+}
+
+interface HoldRatioStatisticsRow {
+  book_id: string;
+  title: string;
+  author: string;
+  isbn: string;
+  copy_count: string;
+  active_reservation_count: string;
+}
+
 // ============================================
 // リポジトリ実装
 // ============================================
@@ -60,6 +133,15 @@ export function createPgReportRepository(pool: DatabasePool): ReportRepository {
       return parseInt(result.rows[0]?.count ?? '0', 10);
     },
 
+    async countRenewals(dateRange: DateRange): Promise<number> {
+      const result = await pool.query<CountRow>(
+        `SELECT COALESCE(SUM(renewal_count), 0) as count FROM loans
+         WHERE borrowed_at >= $1 AND borrowed_at <= $2`,
+        [dateRange.startDate, dateRange.endDate]
+      );
+      return parseInt(result.rows[0]?.count ?? '0', 10);
+    },
+
     async countOverdues(dateRange: DateRange): Promise<number> {
       const result = await pool.query<CountRow>(
         `SELECT COUNT(*) as count FROM overdue_records
@@ -71,7 +153,15 @@ export function createPgReportRepository(pool: DatabasePool): ReportRepository {
 
     async getPopularBooks(dateRange: DateRange, limit: number): Promise<PopularBookItem[]> {
       const result = await pool.query<PopularBookRow>(
-        `SELECT b.id as book_id, b.title, b.author, COUNT(l.id) as loan_count
+        `SELECT b.id as book_id, b.title, b.author, COUNT(l.id) as loan_count,
+           COALESCE((
+             SELECT json_agg(json_build_object(
+               'person_id', p.id, 'name', p.name, 'role', bcn.role, 'position', bcn.position
+             ) ORDER BY bcn.position)
+             FROM book_contributors bcn
+             JOIN persons p ON p.id = bcn.person_id
+             WHERE bcn.book_id = b.id
+           ), '[]') as contributors
          FROM books b
          JOIN book_copies bc ON b.id = bc.book_id
          JOIN loans l ON bc.id = l.book_copy_id
@@ -85,6 +175,12 @@ export function createPgReportRepository(pool: DatabasePool): ReportRepository {
         bookId: createBookId(row.book_id),
         title: row.title,
         author: row.author,
+        contributors: row.contributors.map((contributor) => ({
+          personId: createPersonId(contributor.person_id),
+          name: contributor.name,
+          role: contributor.role,
+          position: contributor.position,
+        })),
         loanCount: parseInt(row.loan_count, 10),
         rank: index + 1,
       }));
@@ -124,5 +220,136 @@ export function createPgReportRepository(pool: DatabasePool): ReportRepository {
         };
       });
     },
+
+    async getClassificationLoanCounts(
+      dateRange: DateRange,
+      scheme: ClassificationScheme
+    ): Promise<ClassificationLoanCount[]> {
+      // 分類表の最上位の分類から順に辿り、各分類までの経路を求める
+      const result = await pool.query<ClassificationLoanCountRow>(
+        `WITH RECURSIVE paths AS (
+           SELECT c.id, jsonb_build_array(jsonb_build_object(
+             'id', c.id, 'scheme', c.scheme, 'number', c.number, 'label', c.label
+           )) AS path
+           FROM classifications c
+           WHERE c.scheme = $3 AND c.parent_id IS NULL
+           UNION ALL
+           SELECT c.id, p.path || jsonb_build_object(
+             'id', c.id, 'scheme', c.scheme, 'number', c.number, 'label', c.label
+           )
+           FROM classifications c
+           JOIN paths p ON c.parent_id = p.id
+         )
+         SELECT paths.path, COUNT(l.id) as loan_count
+         FROM books b
+         JOIN book_copies bc ON b.id = bc.book_id
+         JOIN loans l ON bc.id = l.book_copy_id
+         LEFT JOIN paths ON paths.id = b.classification_id
+         WHERE l.borrowed_at >= $1 AND l.borrowed_at <= $2
+         GROUP BY paths.path`,
+        [dateRange.startDate, dateRange.endDate, scheme]
+      );
+
+      return result.rows.map((row) => ({
+        path: (row.path ?? []).map(
+          (item): BookClassification => ({
+            id: createClassificationId(item.id),
+            scheme: item.scheme,
+            number: item.number,
+            label: item.label,
+          })
+        ),
+        loanCount: parseInt(row.loan_count, 10),
+      }));
+    },
+
+    async getOpenReturnClaims(): Promise<OpenReturnClaimItem[]> {
+      const result = await pool.query<OpenReturnClaimRow>(
+        `SELECT rc.id as claim_id, rc.loan_id, rc.user_id, u.name as user_name,
+                l.book_copy_id, b.title as book_title, rc.claimed_by, rc.claimed_at,
+                rc.search_count, rc.last_searched_at
+         FROM return_claims rc
+         JOIN users u ON rc.user_id = u.id
+         JOIN loans l ON rc.loan_id = l.id
+         JOIN book_copies bc ON l.book_copy_id = bc.id
+         JOIN books b ON bc.book_id = b.id
+         WHERE rc.resolved_at IS NULL
+         ORDER BY rc.claimed_at ASC`
+      );
+
+      return result.rows.map((row) => ({
+        claimId: createReturnClaimId(row.claim_id),
+        loanId: createLoanId(row.loan_id),
+        userId: createUserId(row.user_id),
+        userName: row.user_name,
+        bookCopyId: createCopyId(row.book_copy_id),
+        bookTitle: row.book_title,
+        claimedBy: createUserId(row.claimed_by),
+        claimedAt: row.claimed_at,
+        searchCount: row.search_count,
+        lastSearchedAt: row.last_searched_at,
+      }));
+    },
+
+    async getReservationWaitStatistics(
+      dateRange: DateRange
+    ): Promise<ReservationWaitStatisticsItem[]> {
+      const result = await pool.query<ReservationWaitStatisticsRow>(
+        `SELECT b.id as book_id, b.title, b.category,
+                (SELECT COUNT(*) FROM book_copies bc
+                 WHERE bc.book_id = b.id AND bc.status NOT IN ('LOST', 'DAMAGED')) as copy_count,
+                COUNT(r.id) as reservation_count,
+                COUNT(r.id) FILTER (WHERE r.status IN ('PENDING', 'IN_TRANSIT', 'NOTIFIED'))
+                  as active_reservation_count,
+                COUNT(r.notified_at) as notified_count,
+                COALESCE(SUM(EXTRACT(EPOCH FROM (r.notified_at - r.reserved_at)) / 86400), 0)
+                  as total_wait_days,
+                COUNT(r.id) FILTER (WHERE r.status = 'FULFILLED' AND r.notified_at IS NOT NULL)
+                  as fulfilled_count,
+                COUNT(r.id) FILTER (WHERE r.status = 'EXPIRED' AND r.notified_at IS NOT NULL)
+                  as expired_count
+         FROM reservations r
+         JOIN books b ON r.book_id = b.id
+         WHERE r.reserved_at >= $1 AND r.reserved_at <= $2
+         GROUP BY b.id, b.title, b.category`,
+        [dateRange.startDate, dateRange.endDate]
+      );
+
+      return result.rows.map((row) => ({
+        bookId: createBookId(row.book_id),
+        title: row.title,
+        category: row.category,
+        copyCount: parseInt(row.copy_count, 10),
+        reservationCount: parseInt(row.reservation_count, 10),
+        activeReservationCount: parseInt(row.active_reservation_count, 10),
+        notifiedCount: parseInt(row.notified_count, 10),
+        totalWaitDays: parseFloat(row.total_wait_days),
+        fulfilledCount: parseInt(row.fulfilled_count, 10),
+        expiredCount: parseInt(row.expired_count, 10),
+      }));
+    },
+
+    async getHoldRatioStatistics(): Promise<HoldRatioStatisticsItem[]> {
+      // アクティブな予約は ReservationRepository.countActiveByBookId と同じステータスを数える
+      const result = await pool.query<HoldRatioStatisticsRow>(
+        `SELECT b.id as book_id, b.title, b.author, b.isbn,
+                (SELECT COUNT(*) FROM book_copies bc
+                 WHERE bc.book_id = b.id AND bc.status NOT IN ('LOST', 'DAMAGED')) as copy_count,
+                COUNT(r.id) as active_reservation_count
+         FROM reservations r
+         JOIN books b ON r.book_id = b.id
+         WHERE r.status IN ('PENDING', 'IN_TRANSIT', 'NOTIFIED')
+         GROUP BY b.id, b.title, b.author, b.isbn`
+      );
+
+      return result.rows.map((row) => ({
+        bookId: createBookId(row.book_id),
+        title: row.title,
+        author: row.author,
+        isbn: row.isbn,
+        copyCount: parseInt(row.copy_count, 10),
+        activeReservationCount: parseInt(row.active_reservation_count, 10),
+      }));
+    },
   };
 }
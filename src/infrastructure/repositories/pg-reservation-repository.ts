@@ -10,9 +10,29 @@ import type {
   CreateReservationInput,
   ReservationError,
   ReservationStatus,
+  ReservationQueueChange,
+  RecordReservationQueueChangeInput,
+  TransitRequest,
+  TransitRequestStatus,
+  CreateTransitRequestInput,
+  HoldOutcomeCounts,
 } from '../../domains/reservation/types.js';
-import type { ReservationId, UserId, BookId } from '../../shared/branded-types.js';
-import { createReservationId, createUserId, createBookId } from '../../shared/branded-types.js';
+import type {
+  ReservationId,
+  TransitRequestId,
+  UserId,
+  BookId,
+  CopyId,
+} from '../../shared/branded-types.js';
+import {
+  createReservationId,
+  createUserId,
+  createBookId,
+  createCopyId,
+  createReservationQueueChangeId,
+  createServicePointId,
+  createTransitRequestId,
+} from '../../shared/branded-types.js';
 import { ok, err, type Result } from '../../shared/result.js';
 import type { DatabasePool } from '../database/database.js';
 
@@ -29,12 +49,42 @@ interface ReservationRow {
   expires_at: Date | null;
   status: ReservationStatus;
   queue_position: number;
+  copy_id: string | null;
+  suspended_until: Date | null;
+  pickup_location_id: string | null;
+}
+
+interface ReservationQueueChangeRow {
+  id: string;
+  reservation_id: string;
+  book_id: string;
+  staff_id: string;
+  from_position: number;
+  to_position: number;
+  reason: string;
+  changed_at: Date;
+}
+
+interface TransitRequestRow {
+  id: string;
+  copy_id: string;
+  reservation_id: string;
+  from_service_point_id: string;
+  to_service_point_id: string;
+  status: TransitRequestStatus;
+  created_at: Date;
+  received_at: Date | null;
 }
 
 interface CountRow {
   count: string;
 }
 
+interface HoldOutcomeCountsRow {
+  fulfilled_count: string;
+  expired_count: string;
+}
+
 // ============================================
 // 変換関数
 // ============================================
@@ -49,6 +99,36 @@ function rowToReservation(row: ReservationRow): Reservation {
     expiresAt: row.expires_at,
     status: row.status,
     queuePosition: row.queue_position,
+    copyId: row.copy_id !== null ? createCopyId(row.copy_id) : null,
+    suspendedUntil: row.suspended_until,
+    pickupLocationId:
+      row.pickup_location_id !== null ? createServicePointId(row.pickup_location_id) : null,
+  };
+}
+
+function rowToTransitRequest(row: TransitRequestRow): TransitRequest {
+  return {
+    id: createTransitRequestId(row.id),
+    copyId: createCopyId(row.copy_id),
+    reservationId: createReservationId(row.reservation_id),
+    fromServicePointId: createServicePointId(row.from_service_point_id),
+    toServicePointId: createServicePointId(row.to_service_point_id),
+    status: row.status,
+    createdAt: row.created_at,
+    receivedAt: row.received_at,
+  };
+}
+
+function rowToQueueChange(row: ReservationQueueChangeRow): ReservationQueueChange {
+  return {
+    id: createReservationQueueChangeId(row.id),
+    reservationId: createReservationId(row.reservation_id),
+    bookId: createBookId(row.book_id),
+    staffId: createUserId(row.staff_id),
+    fromPosition: row.from_position,
+    toPosition: row.to_position,
+    reason: row.reason,
+    changedAt: row.changed_at,
   };
 }
 
@@ -66,16 +146,21 @@ export function createPgReservationRepository(pool: DatabasePool): ReservationRe
       queuePosition: number
     ): Promise<Result<Reservation, ReservationError>> {
       const result = await pool.query<ReservationRow>(
-        `INSERT INTO reservations (user_id, book_id, queue_position)
-         VALUES ($1, $2, $3)
+        `INSERT INTO reservations (user_id, book_id, queue_position, pickup_location_id)
+         VALUES ($1, $2, $3, $4)
          RETURNING *`,
-        [input.userId, input.bookId, queuePosition]
+        [input.userId, input.bookId, queuePosition, input.pickupLocationId ?? null]
       );
       const row = result.rows[0];
       if (!row) throw new Error('Failed to create reservation');
       return ok(rowToReservation(row));
     },
 
+    async lockQueue(bookId: BookId): Promise<void> {
+      // 予約キュー専用のテーブルはないため、書籍の行をロックして同じ書籍の予約の順番の決定を直列化する
+      await pool.query('SELECT id FROM books WHERE id = $1 FOR UPDATE', [bookId]);
+    },
+
     async findById(id: ReservationId): Promise<Result<Reservation, ReservationError>> {
       const result = await pool.query<ReservationRow>('SELECT * FROM reservations WHERE id = $1', [
         id,
@@ -90,8 +175,8 @@ export function createPgReservationRepository(pool: DatabasePool): ReservationRe
     async findActiveByBookId(bookId: BookId): Promise<Reservation[]> {
       const result = await pool.query<ReservationRow>(
         `SELECT * FROM reservations
-         WHERE book_id = $1 AND status IN ('PENDING', 'NOTIFIED')
-         ORDER BY queue_position`,
+         WHERE book_id = $1 AND status IN ('PENDING', 'IN_TRANSIT', 'NOTIFIED')
+         ORDER BY queue_position, reserved_at`,
         [bookId]
       );
       return result.rows.map(rowToReservation);
@@ -100,16 +185,25 @@ export function createPgReservationRepository(pool: DatabasePool): ReservationRe
     async countActiveByBookId(bookId: BookId): Promise<number> {
       const result = await pool.query<CountRow>(
         `SELECT COUNT(*) as count FROM reservations
-         WHERE book_id = $1 AND status IN ('PENDING', 'NOTIFIED')`,
+         WHERE book_id = $1 AND status IN ('PENDING', 'IN_TRANSIT', 'NOTIFIED')`,
         [bookId]
       );
       return parseInt(result.rows[0]?.count ?? '0', 10);
     },
 
+    async countActiveByUserId(userId: UserId): Promise<number> {
+      const result = await pool.query<CountRow>(
+        `SELECT COUNT(*) as count FROM reservations
+         WHERE user_id = $1 AND status IN ('PENDING', 'IN_TRANSIT', 'NOTIFIED')`,
+        [userId]
+      );
+      return parseInt(result.rows[0]?.count ?? '0', 10);
+    },
+
     async hasActiveReservation(userId: UserId, bookId: BookId): Promise<boolean> {
       const result = await pool.query<CountRow>(
         `SELECT COUNT(*) as count FROM reservations
-         WHERE user_id = $1 AND book_id = $2 AND status IN ('PENDING', 'NOTIFIED')`,
+         WHERE user_id = $1 AND book_id = $2 AND status IN ('PENDING', 'IN_TRANSIT', 'NOTIFIED')`,
         [userId, bookId]
       );
       return parseInt(result.rows[0]?.count ?? '0', 10) > 0;
@@ -137,6 +231,173 @@ export function createPgReservationRepository(pool: DatabasePool): ReservationRe
       return ok(rowToReservation(row));
     },
 
+    async assignCopy(
+      id: ReservationId,
+      copyId: CopyId
+    ): Promise<Result<Reservation, ReservationError>> {
+      const result = await pool.query<ReservationRow>(
+        `UPDATE reservations SET copy_id = $1
+         WHERE id = $2
+         RETURNING *`,
+        [copyId, id]
+      );
+      const row = result.rows[0];
+      if (!row) {
+        return err({ type: 'RESERVATION_NOT_FOUND', reservationId: id });
+      }
+      return ok(rowToReservation(row));
+    },
+
+    async updateSuspension(
+      id: ReservationId,
+      suspendedUntil: Date | null
+    ): Promise<Result<Reservation, ReservationError>> {
+      const result = await pool.query<ReservationRow>(
+        `UPDATE reservations SET suspended_until = $1
+         WHERE id = $2
+         RETURNING *`,
+        [suspendedUntil, id]
+      );
+      const row = result.rows[0];
+      if (!row) {
+        return err({ type: 'RESERVATION_NOT_FOUND', reservationId: id });
+      }
+      return ok(rowToReservation(row));
+    },
+
+    async updateQueuePosition(
+      id: ReservationId,
+      queuePosition: number
+    ): Promise<Result<Reservation, ReservationError>> {
+      const result = await pool.query<ReservationRow>(
+        `UPDATE reservations SET queue_position = $1
+         WHERE id = $2
+         RETURNING *`,
+        [queuePosition, id]
+      );
+      const row = result.rows[0];
+      if (!row) {
+        return err({ type: 'RESERVATION_NOT_FOUND', reservationId: id });
+      }
+      return ok(rowToReservation(row));
+    },
+
+    async recordQueueChange(
+      input: RecordReservationQueueChangeInput
+    ): Promise<ReservationQueueChange> {
+      const result = await pool.query<ReservationQueueChangeRow>(
+        `INSERT INTO reservation_queue_changes
+           (reservation_id, book_id, staff_id, from_position, to_position, reason)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [
+          input.reservationId,
+          input.bookId,
+          input.staffId,
+          input.fromPosition,
+          input.toPosition,
+          input.reason,
+        ]
+      );
+      const row = result.rows[0];
+      if (!row) throw new Error('Failed to record reservation queue change');
+      return rowToQueueChange(row);
+    },
+
+    async findQueueChangesByBookId(bookId: BookId): Promise<ReservationQueueChange[]> {
+      const result = await pool.query<ReservationQueueChangeRow>(
+        `SELECT * FROM reservation_queue_changes
+         WHERE book_id = $1
+         ORDER BY changed_at DESC`,
+        [bookId]
+      );
+      return result.rows.map(rowToQueueChange);
+    },
+
+    async createTransitRequest(input: CreateTransitRequestInput): Promise<TransitRequest> {
+      const result = await pool.query<TransitRequestRow>(
+        `INSERT INTO transit_requests
+           (copy_id, reservation_id, from_service_point_id, to_service_point_id)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [input.copyId, input.reservationId, input.fromServicePointId, input.toServicePointId]
+      );
+      const row = result.rows[0];
+      if (!row) throw new Error('Failed to create transit request');
+      return rowToTransitRequest(row);
+    },
+
+    async findTransitRequestById(
+      id: TransitRequestId
+    ): Promise<Result<TransitRequest, ReservationError>> {
+      const result = await pool.query<TransitRequestRow>(
+        'SELECT * FROM transit_requests WHERE id = $1',
+        [id]
+      );
+      const row = result.rows[0];
+      if (!row) {
+        return err({ type: 'TRANSIT_NOT_FOUND', transitRequestId: id });
+      }
+      return ok(rowToTransitRequest(row));
+    },
+
+    async findTransitRequests(status?: TransitRequestStatus): Promise<TransitRequest[]> {
+      const result = await pool.query<TransitRequestRow>(
+        `SELECT * FROM transit_requests
+         WHERE $1::text IS NULL OR status = $1
+         ORDER BY created_at`,
+        [status ?? null]
+      );
+      return result.rows.map(rowToTransitRequest);
+    },
+
+    async markTransitReceived(
+      id: TransitRequestId,
+      receivedAt: Date
+    ): Promise<Result<TransitRequest, ReservationError>> {
+      const result = await pool.query<TransitRequestRow>(
+        `UPDATE transit_requests SET status = 'RECEIVED', received_at = $1
+         WHERE id = $2
+         RETURNING *`,
+        [receivedAt, id]
+      );
+      const row = result.rows[0];
+      if (!row) {
+        return err({ type: 'TRANSIT_NOT_FOUND', transitRequestId: id });
+      }
+      return ok(rowToTransitRequest(row));
+    },
+
+    async findHoldByCopyId(copyId: CopyId): Promise<Reservation | null> {
+      const result = await pool.query<ReservationRow>(
+        `SELECT * FROM reservations
+         WHERE copy_id = $1 AND status = 'NOTIFIED'
+         ORDER BY notified_at DESC
+         LIMIT 1`,
+        [copyId]
+      );
+      const row = result.rows[0];
+      return row ? rowToReservation(row) : null;
+    },
+
+    async findExpiredHolds(from: Date, to: Date): Promise<Reservation[]> {
+      const result = await pool.query<ReservationRow>(
+        `SELECT * FROM reservations r
+         WHERE r.copy_id IS NOT NULL
+           AND r.status IN ('NOTIFIED', 'EXPIRED')
+           AND r.expires_at >= $1 AND r.expires_at < $2
+           AND NOT EXISTS (
+             SELECT 1 FROM reservations next
+             WHERE next.copy_id = r.copy_id
+               AND next.id <> r.id
+               AND next.notified_at > r.notified_at
+           )
+         ORDER BY r.expires_at`,
+        [from, to]
+      );
+      return result.rows.map(rowToReservation);
+    },
+
     async findByUserId(userId: UserId): Promise<Reservation[]> {
       const result = await pool.query<ReservationRow>(
         'SELECT * FROM reservations WHERE user_id = $1 ORDER BY reserved_at DESC',
@@ -145,13 +406,28 @@ export function createPgReservationRepository(pool: DatabasePool): ReservationRe
       return result.rows.map(rowToReservation);
     },
 
-    async findExpiredReservations(): Promise<Reservation[]> {
+    async findExpiredReservations(now: Date): Promise<Reservation[]> {
       const result = await pool.query<ReservationRow>(
         `SELECT * FROM reservations
-         WHERE status = 'NOTIFIED' AND expires_at < NOW()`,
-        []
+         WHERE status = 'NOTIFIED' AND expires_at < $1`,
+        [now]
       );
       return result.rows.map(rowToReservation);
     },
+
+    async countHoldOutcomes(bookId: BookId): Promise<HoldOutcomeCounts> {
+      const result = await pool.query<HoldOutcomeCountsRow>(
+        `SELECT COUNT(*) FILTER (WHERE status = 'FULFILLED') as fulfilled_count,
+                COUNT(*) FILTER (WHERE status = 'EXPIRED') as expired_count
+         FROM reservations
+         WHERE book_id = $1 AND notified_at IS NOT NULL`,
+        [bookId]
+      );
+      const row = result.rows[0];
+      return {
+        fulfilledCount: parseInt(row?.fulfilled_count ?? '0', 10),
+        expiredCount: parseInt(row?.expired_count ?? '0', 10),
+      };
+    },
   };
 }
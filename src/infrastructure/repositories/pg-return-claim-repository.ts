@@ -0,0 +1,119 @@
+/**
+ * PostgreSQL 返却申告リポジトリ
+ *
+ * PostgreSQLを使用した返却申告データの永続化実装
+ */
+
+import type { ReturnClaimRepository } from '../../domains/loan/return-claim-repository.js';
+import type {
+  ReturnClaim,
+  CreateReturnClaimInput,
+  ReturnClaimResolution,
+} from '../../domains/loan/types.js';
+import type { LoanId, ReturnClaimId, UserId } from '../../shared/branded-types.js';
+import { createReturnClaimId, createLoanId, createUserId } from '../../shared/branded-types.js';
+import type { DatabasePool } from '../database/database.js';
+
+// ============================================
+// 行型定義
+// ============================================
+
+interface ReturnClaimRow {
+  id: string;
+  loan_id: string;
+  user_id: string;
+  claimed_by: string;
+  claimed_at: Date;
+  search_count: number;
+  last_searched_at: Date | null;
+  resolution: ReturnClaimResolution | null;
+  resolved_at: Date | null;
+}
+
+// ============================================
+// 変換関数
+// ============================================
+
+function rowToReturnClaim(row: ReturnClaimRow): ReturnClaim {
+  return {
+    id: createReturnClaimId(row.id),
+    loanId: createLoanId(row.loan_id),
+    userId: createUserId(row.user_id),
+    claimedBy: createUserId(row.claimed_by),
+    claimedAt: row.claimed_at,
+    searchCount: row.search_count,
+    lastSearchedAt: row.last_searched_at,
+    resolution: row.resolution,
+    resolvedAt: row.resolved_at,
+  };
+}
+
+// ============================================
+// リポジトリ実装
+// ============================================
+
+/**
+ * PostgreSQL返却申告リポジトリを作成
+ */
+export function createPgReturnClaimRepository(pool: DatabasePool): ReturnClaimRepository {
+  return {
+    async create(input: CreateReturnClaimInput): Promise<ReturnClaim> {
+      const result = await pool.query<ReturnClaimRow>(
+        `INSERT INTO return_claims (loan_id, user_id, claimed_by)
+         VALUES ($1, $2, $3)
+         RETURNING *`,
+        [input.loanId, input.userId, input.claimedBy]
+      );
+      const row = result.rows[0];
+      if (!row) throw new Error('Failed to create return claim');
+      return rowToReturnClaim(row);
+    },
+
+    async findOpenByLoanId(loanId: LoanId): Promise<ReturnClaim | null> {
+      const result = await pool.query<ReturnClaimRow>(
+        'SELECT * FROM return_claims WHERE loan_id = $1 AND resolved_at IS NULL',
+        [loanId]
+      );
+      const row = result.rows[0];
+      return row ? rowToReturnClaim(row) : null;
+    },
+
+    async countOpenByUserId(userId: UserId): Promise<number> {
+      const result = await pool.query<{ count: string }>(
+        'SELECT COUNT(*) as count FROM return_claims WHERE user_id = $1 AND resolved_at IS NULL',
+        [userId]
+      );
+      return parseInt(result.rows[0]?.count ?? '0', 10);
+    },
+
+    async recordSearch(id: ReturnClaimId, searchedAt: Date): Promise<ReturnClaim> {
+      const result = await pool.query<ReturnClaimRow>(
+        `UPDATE return_claims
+         SET search_count = search_count + 1, last_searched_at = $1
+         WHERE id = $2
+         RETURNING *`,
+        [searchedAt, id]
+      );
+      const row = result.rows[0];
+      if (!row) throw new Error('Failed to record return claim search');
+      return rowToReturnClaim(row);
+    },
+
+    async resolve(
+      id: ReturnClaimId,
+      resolution: ReturnClaimResolution,
+      resolvedAt: Date
+    ): Promise<ReturnClaim> {
+      const result = await pool.query<ReturnClaimRow>(
+        `UPDATE return_claims
+         SET resolution = $1, resolved_at = $2
+         WHERE id = $3
+         RETURNING *`,
+        [resolution, resolvedAt, id]
+      );
+      const row = result.rows[0];
+      if (!row) throw new Error('Failed to resolve return claim');
+      return rowToReturnClaim(row);
+    },
+  };
+}
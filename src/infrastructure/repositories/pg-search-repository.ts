@@ -9,8 +9,13 @@ import type {
   SearchBooksInput,
   SearchBooksResult,
 } from '../../domains/book/search-repository.js';
-import type { Book } from '../../domains/book/types.js';
-import { createBookId } from '../../shared/branded-types.js';
+import type { Book, ClassificationScheme, ContributorRole } from '../../domains/book/types.js';
+import {
+  createBookId,
+  createClassificationId,
+  createPersonId,
+  createSubjectHeadingId,
+} from '../../shared/branded-types.js';
 import type { DatabasePool } from '../database/database.js';
 
 // ============================================
@@ -25,8 +30,32 @@ interface BookRow {
   publication_year: number | null;
   isbn: string;
   category: string | null;
+  call_number: string | null;
+  replacement_cost: number | null;
   created_at: Date;
   updated_at: Date;
+  contributors: ContributorRow[];
+  classification: BookClassificationRow | null;
+  subject_headings: BookSubjectHeadingRow[];
+}
+
+interface ContributorRow {
+  person_id: string;
+  name: string;
+  role: ContributorRole;
+  position: number;
+}
+
+interface BookClassificationRow {
+  id: string;
+  scheme: ClassificationScheme;
+  number: string;
+  label: string;
+}
+
+interface BookSubjectHeadingRow {
+  id: string;
+  label: string;
 }
 
 interface CountRow {
@@ -42,10 +71,31 @@ function rowToBook(row: BookRow): Book {
     id: createBookId(row.id),
     title: row.title,
     author: row.author,
+    contributors: row.contributors.map((contributor) => ({
+      personId: createPersonId(contributor.person_id),
+      name: contributor.name,
+      role: contributor.role,
+      position: contributor.position,
+    })),
     publisher: row.publisher,
     publicationYear: row.publication_year,
     isbn: row.isbn,
     category: row.category,
+    classification:
+      row.classification !== null
+        ? {
+            id: createClassificationId(row.classification.id),
+            scheme: row.classification.scheme,
+            number: row.classification.number,
+            label: row.classification.label,
+          }
+        : null,
+    callNumber: row.call_number,
+    subjectHeadings: row.subject_headings.map((heading) => ({
+      id: createSubjectHeadingId(heading.id),
+      label: heading.label,
+    })),
+    replacementCost: row.replacement_cost,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -68,14 +118,27 @@ export function createPgSearchRepository(pool: DatabasePool): SearchRepository {
       // キーワード検索
       if (input.keyword.trim() !== '') {
         const keyword = `%${input.keyword}%`;
+        // キーワードがISBNの場合は正規形でも一致させる（ISBN-10・ハイフン付きのキーワード）
+        const isbnCondition =
+          input.isbn !== undefined ? ` OR isbn = $${String(paramIndex + 1)}` : '';
+        // 著者表示に加えて寄与者（編者・訳者・画家を含む）の名前でも一致させる
         conditions.push(`(
           title ILIKE $${String(paramIndex)} OR
           author ILIKE $${String(paramIndex)} OR
+          EXISTS (
+            SELECT 1 FROM book_contributors bcn
+            JOIN persons p ON p.id = bcn.person_id
+            WHERE bcn.book_id = books.id AND p.name ILIKE $${String(paramIndex)}
+          ) OR
           isbn ILIKE $${String(paramIndex)} OR
-          category ILIKE $${String(paramIndex)}
+          category ILIKE $${String(paramIndex)}${isbnCondition}
         )`);
         params.push(keyword);
         paramIndex++;
+        if (input.isbn !== undefined) {
+          params.push(input.isbn);
+          paramIndex++;
+        }
       }
 
       // カテゴリフィルタ
@@ -122,7 +185,26 @@ export function createPgSearchRepository(pool: DatabasePool): SearchRepository {
 
       // データ取得
       const dataResult = await pool.query<BookRow>(
-        `SELECT * FROM books ${whereClause} ${orderClause}`,
+        `SELECT books.*, COALESCE((
+           SELECT json_agg(json_build_object(
+             'person_id', p.id, 'name', p.name, 'role', bcn.role, 'position', bcn.position
+           ) ORDER BY bcn.position)
+           FROM book_contributors bcn
+           JOIN persons p ON p.id = bcn.person_id
+           WHERE bcn.book_id = books.id
+         ), '[]') AS contributors, (
+           SELECT json_build_object(
+             'id', cls.id, 'scheme', cls.scheme, 'number', cls.number, 'label', cls.label
+           )
+           FROM classifications cls
+           WHERE cls.id = books.classification_id
+         ) AS classification, COALESCE((
+           SELECT json_agg(json_build_object('id', shd.id, 'label', shd.label) ORDER BY bsh.position)
+           FROM book_subject_headings bsh
+           JOIN subject_headings shd ON shd.id = bsh.subject_heading_id
+           WHERE bsh.book_id = books.id
+         ), '[]') AS subject_headings
+         FROM books ${whereClause} ${orderClause}`,
         params
       );
 
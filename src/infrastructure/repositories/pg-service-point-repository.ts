@@ -0,0 +1,114 @@
+/**
+ * PostgreSQL サービスポイントリポジトリ
+ *
+ * PostgreSQLを使用したサービスポイントデータの永続化実装
+ */
+
+import type { ServicePointRepository } from '../../domains/service-point/service-point-repository.js';
+import type {
+  ServicePoint,
+  CreateServicePointInput,
+  UpdateServicePointInput,
+  ServicePointError,
+} from '../../domains/service-point/types.js';
+import type { ServicePointId } from '../../shared/branded-types.js';
+import { createServicePointId } from '../../shared/branded-types.js';
+import { ok, err, type Result } from '../../shared/result.js';
+import type { DatabasePool } from '../database/database.js';
+
+// ============================================
+// 行型定義
+// ============================================
+
+interface ServicePointRow {
+  id: string;
+  code: string;
+  name: string;
+  active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// ============================================
+// 変換関数
+// ============================================
+
+function rowToServicePoint(row: ServicePointRow): ServicePoint {
+  return {
+    id: createServicePointId(row.id),
+    code: row.code,
+    name: row.name,
+    active: row.active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// ============================================
+// リポジトリ実装
+// ============================================
+
+/**
+ * PostgreSQLサービスポイントリポジトリを作成
+ */
+export function createPgServicePointRepository(pool: DatabasePool): ServicePointRepository {
+  return {
+    async create(input: CreateServicePointInput): Promise<Result<ServicePoint, ServicePointError>> {
+      try {
+        const result = await pool.query<ServicePointRow>(
+          `INSERT INTO service_points (code, name)
+           VALUES ($1, $2)
+           RETURNING *`,
+          [input.code, input.name]
+        );
+        const row = result.rows[0];
+        if (!row) throw new Error('Failed to create service point');
+        return ok(rowToServicePoint(row));
+      } catch (error) {
+        if ((error as { code?: string }).code === '23505') {
+          return err({ type: 'DUPLICATE_SERVICE_POINT', code: input.code });
+        }
+        throw error;
+      }
+    },
+
+    async findById(id: ServicePointId): Promise<Result<ServicePoint, ServicePointError>> {
+      const result = await pool.query<ServicePointRow>(
+        'SELECT * FROM service_points WHERE id = $1',
+        [id]
+      );
+      const row = result.rows[0];
+      if (!row) {
+        return err({ type: 'SERVICE_POINT_NOT_FOUND', servicePointId: id });
+      }
+      return ok(rowToServicePoint(row));
+    },
+
+    async findAll(): Promise<ServicePoint[]> {
+      const result = await pool.query<ServicePointRow>(
+        'SELECT * FROM service_points ORDER BY code'
+      );
+      return result.rows.map(rowToServicePoint);
+    },
+
+    async update(
+      id: ServicePointId,
+      input: UpdateServicePointInput
+    ): Promise<Result<ServicePoint, ServicePointError>> {
+      const result = await pool.query<ServicePointRow>(
+        `UPDATE service_points SET
+           name = COALESCE($1, name),
+           active = COALESCE($2, active),
+           updated_at = NOW()
+         WHERE id = $3
+         RETURNING *`,
+        [input.name ?? null, input.active ?? null, id]
+      );
+      const row = result.rows[0];
+      if (!row) {
+        return err({ type: 'SERVICE_POINT_NOT_FOUND', servicePointId: id });
+      }
+      return ok(rowToServicePoint(row));
+    },
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * PostgreSQL ユーザー認証リポジトリ
+ *
+ * PostgreSQLの利用者テーブルを使用したログイン用ユーザー情報の取得実装
+ */
+
+import type { AuthUser, UserAuthRepository } from '../../domains/auth/auth-service.js';
+import { verifyPassword } from '../../domains/auth/password.js';
+import type { UserRole } from '../../domains/auth/types.js';
+import type { DatabasePool } from '../database/database.js';
+
+// ============================================
+// 行型定義
+// ============================================
+
+interface AuthUserRow {
+  id: string;
+  name: string;
+  email: string;
+  password_hash: string;
+  role: UserRole;
+}
+
+// ============================================
+// リポジトリ実装
+// ============================================
+
+/**
+ * PostgreSQL ユーザー認証リポジトリを作成
+ * パスワード未設定の利用者はログインできないため検索対象外とする
+ * @param pool - データベース接続プール
+ * @returns UserAuthRepository
+ */
+export function createPgUserAuthRepository(pool: DatabasePool): UserAuthRepository {
+  return {
+    async findByEmail(email: string): Promise<AuthUser | null> {
+      const result = await pool.query<AuthUserRow>(
+        `SELECT id, name, email, password_hash, role FROM users
+         WHERE lower(email) = lower($1) AND password_hash IS NOT NULL`,
+        [email]
+      );
+      const row = result.rows[0];
+      if (row === undefined) {
+        return null;
+      }
+
+      return {
+        id: row.id,
+        name: row.name,
+        email: row.email,
+        passwordHash: row.password_hash,
+        role: row.role,
+      };
+    },
+
+    validatePassword(password: string, hash: string): Promise<boolean> {
+      return verifyPassword(password, hash);
+    },
+  };
+}
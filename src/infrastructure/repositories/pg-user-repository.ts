@@ -17,6 +17,7 @@ import { DEFAULT_LOAN_LIMIT } from '../../domains/user/types.js';
 import type { UserId } from '../../shared/branded-types.js';
 import { createUserId } from '../../shared/branded-types.js';
 import { ok, err, type Result } from '../../shared/result.js';
+import type { LoanStatus } from '../../domains/loan/types.js';
 import type { DatabasePool } from '../database/database.js';
 
 // ============================================
@@ -31,6 +32,7 @@ interface UserRow {
   phone: string | null;
   registered_at: Date;
   loan_limit: number;
+  patron_category: string | null;
 }
 
 interface LoanSummaryRow {
@@ -40,6 +42,7 @@ interface LoanSummaryRow {
   borrowed_at: Date;
   due_date: Date;
   returned_at: Date | null;
+  status: LoanStatus;
 }
 
 // ============================================
@@ -55,13 +58,15 @@ function rowToUser(row: UserRow): User {
     phone: row.phone,
     registeredAt: row.registered_at,
     loanLimit: row.loan_limit,
+    patronCategory: row.patron_category,
   };
 }
 
 function rowToLoanSummary(row: LoanSummaryRow): LoanSummary {
   const now = new Date();
   const dueDate = new Date(row.due_date);
-  const isOverdue = row.returned_at === null && dueDate < now;
+  // 返却申告中の貸出は延滞として扱わない
+  const isOverdue = row.status === 'ACTIVE' && dueDate < now;
 
   return {
     id: row.id,
@@ -70,6 +75,7 @@ function rowToLoanSummary(row: LoanSummaryRow): LoanSummary {
     borrowedAt: row.borrowed_at,
     dueDate: row.due_date,
     returnedAt: row.returned_at,
+    status: row.status,
     isOverdue,
   };
 }
@@ -86,8 +92,8 @@ export function createPgUserRepository(pool: DatabasePool): UserRepository {
     async create(input: CreateUserInput): Promise<Result<User, UserError>> {
       try {
         const result = await pool.query<UserRow>(
-          `INSERT INTO users (name, address, email, phone, loan_limit)
-           VALUES ($1, $2, $3, $4, $5)
+          `INSERT INTO users (name, address, email, phone, loan_limit, patron_category)
+           VALUES ($1, $2, $3, $4, $5, $6)
            RETURNING *`,
           [
             input.name,
@@ -95,6 +101,7 @@ export function createPgUserRepository(pool: DatabasePool): UserRepository {
             input.email,
             input.phone ?? null,
             input.loanLimit ?? DEFAULT_LOAN_LIMIT,
+            input.patronCategory ?? null,
           ]
         );
         const row = result.rows[0];
@@ -159,7 +166,8 @@ export function createPgUserRepository(pool: DatabasePool): UserRepository {
 
     async findUserLoans(userId: UserId): Promise<LoanSummary[]> {
       const result = await pool.query<LoanSummaryRow>(
-        `SELECT l.id, l.book_copy_id, b.title as book_title, l.borrowed_at, l.due_date, l.returned_at
+        `SELECT l.id, l.book_copy_id, b.title as book_title, l.borrowed_at, l.due_date, l.returned_at,
+                l.status
          FROM loans l
          JOIN book_copies bc ON l.book_copy_id = bc.id
          JOIN books b ON bc.book_id = b.id
@@ -184,8 +192,9 @@ export function createPgUserRepository(pool: DatabasePool): UserRepository {
              address = $2,
              email = $3,
              phone = $4,
-             loan_limit = $5
-           WHERE id = $6
+             loan_limit = $5,
+             patron_category = $6
+           WHERE id = $7
            RETURNING *`,
           [
             input.name ?? current.name,
@@ -193,6 +202,7 @@ export function createPgUserRepository(pool: DatabasePool): UserRepository {
             input.email ?? current.email,
             input.phone !== undefined ? input.phone : current.phone,
             input.loanLimit ?? current.loan_limit,
+            input.patronCategory !== undefined ? input.patronCategory : current.patron_category,
             id,
           ]
         );
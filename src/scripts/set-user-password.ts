@@ -0,0 +1,64 @@
+/**
+ * 利用者パスワード設定スクリプト
+ *
+ * 既存の利用者にログイン用のパスワードとロールを設定します
+ * 使い方: npm run user:set-password -- <メールアドレス> <patron|librarian|admin>
+ * パスワードは環境変数 USER_PASSWORD から読み込みます（シェル履歴に残さないため）
+ */
+
+import { DatabasePool, createDatabaseConfig } from '../infrastructure/database/database.js';
+import { hashPassword } from '../domains/auth/password.js';
+import type { UserRole } from '../domains/auth/types.js';
+
+const USER_ROLES: readonly UserRole[] = ['patron', 'librarian', 'admin'];
+
+function isUserRole(value: string): value is UserRole {
+  return (USER_ROLES as readonly string[]).includes(value);
+}
+
+async function setUserPassword(): Promise<void> {
+  const [email, role] = process.argv.slice(2);
+  const password = process.env.USER_PASSWORD ?? '';
+  const errorLog = console.error.bind(console);
+
+  if (email === undefined || role === undefined || !isUserRole(role) || password === '') {
+    errorLog(
+      '❌ Usage: USER_PASSWORD=<password> npm run user:set-password -- <email> <patron|librarian|admin>'
+    );
+    process.exit(1);
+  }
+
+  const pool = new DatabasePool(
+    createDatabaseConfig({
+      host: process.env.POSTGRES_HOST ?? 'postgres',
+      port: parseInt(process.env.POSTGRES_PORT ?? '5432', 10),
+      database: process.env.POSTGRES_DB ?? 'library_db',
+      user: process.env.POSTGRES_USER ?? 'library_user',
+      password: process.env.POSTGRES_PASSWORD ?? 'library_password',
+    })
+  );
+
+  try {
+    const passwordHash = await hashPassword(password);
+    const result = await pool.query(
+      'UPDATE users SET password_hash = $1, role = $2 WHERE lower(email) = lower($3)',
+      [passwordHash, role, email]
+    );
+
+    if (result.rowCount === 0) {
+      errorLog(`❌ User not found: ${email}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(`✅ Password set for ${email} (${role})`);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    errorLog(`❌ Setting the password failed: ${message}`);
+    process.exitCode = 1;
+  } finally {
+    await pool.close();
+  }
+}
+
+void setUserPassword();
@@ -38,6 +38,51 @@ export type CopyId = Brand<string, 'CopyId'>;
 /** 延滞記録ID */
 export type OverdueRecordId = Brand<string, 'OverdueRecordId'>;
 
+/** 貸出ポリシーID */
+export type LoanPolicyId = Brand<string, 'LoanPolicyId'>;
+
+/** 延滞料金取引ID */
+export type FineTransactionId = Brand<string, 'FineTransactionId'>;
+
+/** 延滞料金レートID */
+export type FineRateId = Brand<string, 'FineRateId'>;
+
+/** 返却申告ID */
+export type ReturnClaimId = Brand<string, 'ReturnClaimId'>;
+
+/** 休館日ID */
+export type HolidayId = Brand<string, 'HolidayId'>;
+
+/** 臨時休館ID */
+export type ClosureId = Brand<string, 'ClosureId'>;
+
+/** ジョブ実行履歴ID */
+export type JobRunId = Brand<string, 'JobRunId'>;
+
+/** 予約キュー変更履歴ID */
+export type ReservationQueueChangeId = Brand<string, 'ReservationQueueChangeId'>;
+
+/** サービスポイント（受取館）ID */
+export type ServicePointId = Brand<string, 'ServicePointId'>;
+
+/** 館間輸送依頼ID */
+export type TransitRequestId = Brand<string, 'TransitRequestId'>;
+
+/** 購入リクエストID */
+export type PurchaseSuggestionId = Brand<string, 'PurchaseSuggestionId'>;
+
+/** 書籍一括取り込みジョブID */
+export type BookImportJobId = Brand<string, 'BookImportJobId'>;
+
+/** 人物（著者・編者・訳者・画家）ID */
+export type PersonId = Brand<string, 'PersonId'>;
+
+/** 分類（NDC・DDCの分類項目）ID */
+export type ClassificationId = Brand<string, 'ClassificationId'>;
+
+/** 件名標目ID */
+export type SubjectHeadingId = Brand<string, 'SubjectHeadingId'>;
+
 // ============================================
 // ファクトリ関数
 // ============================================
@@ -119,3 +164,198 @@ export function createOverdueRecordId(value: string): OverdueRecordId {
   }
   return value as OverdueRecordId;
 }
+
+/**
+ * LoanPolicyIdを作成
+ * @param value - ID文字列
+ * @returns LoanPolicyId
+ * @throws Error - 空文字列の場合
+ */
+export function createLoanPolicyId(value: string): LoanPolicyId {
+  if (!value || value.trim() === '') {
+    throw new Error('LoanPolicyId cannot be empty');
+  }
+  return value as LoanPolicyId;
+}
+
+/**
+ * FineTransactionIdを作成
+ * @param value - ID文字列
+ * @returns FineTransactionId
+ * @throws Error - 空文字列の場合
+ */
+export function createFineTransactionId(value: string): FineTransactionId {
+  if (!value || value.trim() === '') {
+    throw new Error('FineTransactionId cannot be empty');
+  }
+  return value as FineTransactionId;
+}
+
+/**
+ * FineRateIdを作成
+ * @param value - ID文字列
+ * @returns FineRateId
+ * @throws Error - 空文字列の場合
+ */
+export function createFineRateId(value: string): FineRateId {
+  if (!value || value.trim() === '') {
+    throw new Error('FineRateId cannot be empty');
+  }
+  return value as FineRateId;
+}
+
+/**
+ * ReturnClaimIdを作成
+ * @param value - ID文字列
+ * @returns ReturnClaimId
+ * @throws Error - 空文字列の場合
+ */
+export function createReturnClaimId(value: string): ReturnClaimId {
+  if (!value || value.trim() === '') {
+    throw new Error('ReturnClaimId cannot be empty');
+  }
+  return value as ReturnClaimId;
+}
+
+/**
+ * HolidayIdを作成
+ * @param value - ID文字列
+ * @returns HolidayId
+ * @throws Error - 空文字列の場合
+ */
+export function createHolidayId(value: string): HolidayId {
+  if (!value || value.trim() === '') {
+    throw new Error('HolidayId cannot be empty');
+  }
+  return value as HolidayId;
+}
+
+/**
+ * ClosureIdを作成
+ * @param value - ID文字列
+ * @returns ClosureId
+ * @throws Error - 空文字列の場合
+ */
+export function createClosureId(value: string): ClosureId {
+  if (!value || value.trim() === '') {
+    throw new Error('ClosureId cannot be empty');
+  }
+  return value as ClosureId;
+}
+
+/**
+ * JobRunIdを作成
+ * @param value - ID文字列
+ * @returns JobRunId
+ * @throws Error - 空文字列の場合
+ */
+export function createJobRunId(value: string): JobRunId {
+  if (!value || value.trim() === '') {
+    throw new Error('JobRunId cannot be empty');
+  }
+  return value as JobRunId;
+}
+
+/**
+ * ReservationQueueChangeIdを作成
+ * @param value - ID文字列
+ * @returns ReservationQueueChangeId
+ * @throws Error - 空文字列の場合
+ */
+export function createReservationQueueChangeId(value: string): ReservationQueueChangeId {
+  if (!value || value.trim() === '') {
+    throw new Error('ReservationQueueChangeId cannot be empty');
+  }
+  return value as ReservationQueueChangeId;
+}
+
+/**
+ * ServicePointIdを作成
+ * @param value - ID文字列
+ * @returns ServicePointId
+ * @throws Error - 空文字列の場合
+ */
+export function createServicePointId(value: string): ServicePointId {
+  if (!value || value.trim() === '') {
+    throw new Error('ServicePointId cannot be empty');
+  }
+  return value as ServicePointId;
+}
+
+/**
+ * TransitRequestIdを作成
+ * @param value - ID文字列
+ * @returns TransitRequestId
+ * @throws Error - 空文字列の場合
+ */
+export function createTransitRequestId(value: string): TransitRequestId {
+  if (!value || value.trim() === '') {
+    throw new Error('TransitRequestId cannot be empty');
+  }
+  return value as TransitRequestId;
+}
+
+/**
+ * PurchaseSuggestionIdを作成
+ * @param value - ID文字列
+ * @returns PurchaseSuggestionId
+ * @throws Error - 空文字列の場合
+ */
+export function createPurchaseSuggestionId(value: string): PurchaseSuggestionId {
+  if (!value || value.trim() === '') {
+    throw new Error('PurchaseSuggestionId cannot be empty');
+  }
+  return value as PurchaseSuggestionId;
+}
+
+/**
+ * BookImportJobIdを作成
+ * @param value - ID文字列
+ * @returns BookImportJobId
+ * @throws Error - 空文字列の場合
+ */
+export function createBookImportJobId(value: string): BookImportJobId {
+  if (!value || value.trim() === '') {
+    throw new Error('BookImportJobId cannot be empty');
+  }
+  return value as BookImportJobId;
+}
+
+/**
+ * PersonIdを作成
+ * @param value - ID文字列
+ * @returns PersonId
+ * @throws Error - 空文字列の場合
+ */
+export function createPersonId(value: string): PersonId {
+  if (!value || value.trim() === '') {
+    throw new Error('PersonId cannot be empty');
+  }
+  return value as PersonId;
+}
+
+/**
+ * ClassificationIdを作成
+ * @param value - ID文字列
+ * @returns ClassificationId
+ * @throws Error - 空文字列の場合
+ */
+export function createClassificationId(value: string): ClassificationId {
+  if (!value || value.trim() === '') {
+    throw new Error('ClassificationId cannot be empty');
+  }
+  return value as ClassificationId;
+}
+
+/**
+ * SubjectHeadingIdを作成
+ * @param value - ID文字列
+ * @returns SubjectHeadingId
+ * @throws Error - 空文字列の場合
+ */
+export function createSubjectHeadingId(value: string): SubjectHeadingId {
+  if (!value || value.trim() === '') {
+    throw new Error('SubjectHeadingId cannot be empty');
+  }
+  return value as SubjectHeadingId;
+}
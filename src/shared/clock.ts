@@ -0,0 +1,38 @@
+/**
+ * Clock
+ *
+ * 現在時刻の取得を抽象化し、時刻に依存する処理をテスト可能にするためのインターフェース。
+ */
+
+// ============================================
+// インターフェース
+// ============================================
+
+/** 時計 */
+export interface Clock {
+  /**
+   * 現在時刻を取得
+   * @returns 現在時刻
+   */
+  now(): Date;
+}
+
+// ============================================
+// ファクトリ関数
+// ============================================
+
+/** システム時刻を返す時計 */
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * 常に指定した時刻を返す時計を作成（テスト用）
+ * @param date - 返す時刻
+ * @returns Clock
+ */
+export function createFixedClock(date: Date): Clock {
+  return {
+    now: () => new Date(date),
+  };
+}
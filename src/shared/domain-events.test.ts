@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createInMemoryEventBus, type LoanReturned } from './domain-events.js';
+import { createBookId, createCopyId, createLoanId, createUserId } from './branded-types.js';
+
+const loanReturned: LoanReturned = {
+  type: 'LoanReturned',
+  loanId: createLoanId('loan-1'),
+  userId: createUserId('user-1'),
+  bookId: createBookId('book-1'),
+  copyId: createCopyId('copy-1'),
+  servicePointId: null,
+  occurredAt: new Date('2024-01-15'),
+};
+
+describe('In-memory EventBus', () => {
+  it('should deliver events to handlers subscribed to the same type', async () => {
+    const bus = createInMemoryEventBus();
+    const onReturned = vi.fn().mockResolvedValue(undefined);
+    const onCreated = vi.fn().mockResolvedValue(undefined);
+    bus.subscribe('LoanReturned', onReturned);
+    bus.subscribe('LoanCreated', onCreated);
+
+    await bus.publish(loanReturned);
+
+    expect(onReturned).toHaveBeenCalledWith(loanReturned);
+    expect(onCreated).not.toHaveBeenCalled();
+  });
+
+  it('should run handlers sequentially in subscription order', async () => {
+    const bus = createInMemoryEventBus();
+    const calls: string[] = [];
+    bus.subscribe('LoanReturned', async () => {
+      await Promise.resolve();
+      calls.push('first');
+    });
+    bus.subscribe('LoanReturned', () => {
+      calls.push('second');
+      return Promise.resolve();
+    });
+
+    await bus.publish(loanReturned);
+
+    expect(calls).toEqual(['first', 'second']);
+  });
+
+  it('should not propagate handler failures to the publisher', async () => {
+    const onHandlerError = vi.fn();
+    const bus = createInMemoryEventBus(onHandlerError);
+    const failure = new Error('handler failed');
+    const next = vi.fn().mockResolvedValue(undefined);
+    bus.subscribe('LoanReturned', () => Promise.reject(failure));
+    bus.subscribe('LoanReturned', next);
+
+    await expect(bus.publish(loanReturned)).resolves.toBeUndefined();
+
+    expect(onHandlerError).toHaveBeenCalledWith(failure, loanReturned);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should stop delivering events after unsubscribe', async () => {
+    const bus = createInMemoryEventBus();
+    const handler = vi.fn().mockResolvedValue(undefined);
+    const unsubscribe = bus.subscribe('LoanReturned', handler);
+
+    unsubscribe();
+    await bus.publish(loanReturned);
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
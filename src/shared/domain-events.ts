@@ -0,0 +1,142 @@
+/**
+ * ドメインイベント
+ *
+ * ドメイン間の連携をイベントの発行・購読で行うための抽象。
+ * サービスは作業単位のコミット後にイベントを発行し、他ドメインのサービスは
+ * 自身のファクトリ内で必要なイベントを購読します。
+ */
+
+import type {
+  BookId,
+  CopyId,
+  LoanId,
+  ReservationId,
+  ServicePointId,
+  UserId,
+} from './branded-types.js';
+
+// ============================================
+// イベント型定義
+// ============================================
+
+/** 貸出が作成された */
+export interface LoanCreated {
+  readonly type: 'LoanCreated';
+  readonly loanId: LoanId;
+  readonly userId: UserId;
+  readonly bookId: BookId;
+  readonly copyId: CopyId;
+  readonly occurredAt: Date;
+}
+
+/** 貸出中の蔵書が返却され、書架に戻せる状態になった（予約待ちがあれば取り置きに確保済み） */
+export interface LoanReturned {
+  readonly type: 'LoanReturned';
+  readonly loanId: LoanId;
+  readonly userId: UserId;
+  readonly bookId: BookId;
+  readonly copyId: CopyId;
+  /** 返却を受け付けたサービスポイント（不明な場合はnull） */
+  readonly servicePointId: ServicePointId | null;
+  readonly occurredAt: Date;
+}
+
+/** 予約が登録された */
+export interface ReservationPlaced {
+  readonly type: 'ReservationPlaced';
+  readonly reservationId: ReservationId;
+  readonly userId: UserId;
+  readonly bookId: BookId;
+  readonly occurredAt: Date;
+}
+
+/** 予約者に貸出可能になったことを通知した（取り置き開始） */
+export interface ReservationNotified {
+  readonly type: 'ReservationNotified';
+  readonly reservationId: ReservationId;
+  readonly userId: UserId;
+  readonly bookId: BookId;
+  /** 取り置き中の蔵書コピー（コピー未割当の場合はnull） */
+  readonly copyId: CopyId | null;
+  readonly expiresAt: Date | null;
+  readonly occurredAt: Date;
+}
+
+/** ドメインイベント */
+export type DomainEvent = LoanCreated | LoanReturned | ReservationPlaced | ReservationNotified;
+
+/** ドメインイベント種別 */
+export type DomainEventType = DomainEvent['type'];
+
+/** イベント種別に対応するイベント型 */
+export type DomainEventOf<K extends DomainEventType> = Extract<DomainEvent, { type: K }>;
+
+/** イベントハンドラー */
+export type DomainEventHandler<K extends DomainEventType> = (
+  event: DomainEventOf<K>
+) => Promise<void>;
+
+// ============================================
+// インターフェース
+// ============================================
+
+/** イベントバス */
+export interface EventBus {
+  /**
+   * イベントを発行
+   * 購読中のハンドラーを登録順に実行し、全て完了してから解決する。
+   * ハンドラーの失敗は発行元に伝播しない
+   * @param event - 発行するイベント
+   */
+  publish(event: DomainEvent): Promise<void>;
+
+  /**
+   * イベントを購読
+   * @param type - イベント種別
+   * @param handler - イベントハンドラー
+   * @returns 購読解除関数
+   */
+  subscribe<K extends DomainEventType>(type: K, handler: DomainEventHandler<K>): () => void;
+}
+
+/** ハンドラー失敗時のコールバック */
+export type EventHandlerErrorCallback = (error: unknown, event: DomainEvent) => void;
+
+// ============================================
+// ファクトリ関数
+// ============================================
+
+/**
+ * プロセス内で同期的にハンドラーを実行するイベントバスを作成
+ * @param onHandlerError - ハンドラー失敗時のコールバック（省略時は何もしない）
+ * @returns EventBus
+ */
+export function createInMemoryEventBus(onHandlerError?: EventHandlerErrorCallback): EventBus {
+  const handlers = new Map<DomainEventType, ((event: DomainEvent) => Promise<void>)[]>();
+
+  return {
+    async publish(event: DomainEvent): Promise<void> {
+      // 実行中の購読解除に影響されないよう、発行時点のハンドラーを複製して実行
+      const subscribed = [...(handlers.get(event.type) ?? [])];
+      for (const handler of subscribed) {
+        try {
+          await handler(event);
+        } catch (error) {
+          onHandlerError?.(error, event);
+        }
+      }
+    },
+
+    subscribe<K extends DomainEventType>(type: K, handler: DomainEventHandler<K>): () => void {
+      const wrapped = (event: DomainEvent): Promise<void> => handler(event as DomainEventOf<K>);
+      handlers.set(type, [...(handlers.get(type) ?? []), wrapped]);
+
+      return () => {
+        handlers.set(
+          type,
+          (handlers.get(type) ?? []).filter((h) => h !== wrapped)
+        );
+      };
+    },
+  };
+}
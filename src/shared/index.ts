@@ -33,10 +33,43 @@ export {
   flatMap,
 } from './result.js';
 
+// ============================================
+// Unit of Work（トランザクション）
+// ============================================
+export { UnitOfWork, createPassthroughUnitOfWork } from './unit-of-work.js';
+
+// ============================================
+// Clock（現在時刻）
+// ============================================
+export { Clock, systemClock, createFixedClock } from './clock.js';
+
+// ============================================
+// Logger（ログ出力）
+// ============================================
+export { LogLevel, LogFields, Logger, createLogger } from './logger.js';
+
+// ============================================
+// Domain Events（ドメイン間連携）
+// ============================================
+export {
+  LoanCreated,
+  LoanReturned,
+  ReservationPlaced,
+  ReservationNotified,
+  DomainEvent,
+  DomainEventType,
+  DomainEventOf,
+  DomainEventHandler,
+  EventBus,
+  EventHandlerErrorCallback,
+  createInMemoryEventBus,
+} from './domain-events.js';
+
 // ============================================
 // Validation（バリデーション）
 // ============================================
 export { ValidationError, validateISBN, validateRequired } from './validation.js';
+export { normalizeISBN, convertISBN10To13, convertISBN13To10, hyphenateISBN } from './isbn.js';
 
 // ============================================
 // Security（セキュリティ）
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeISBN, convertISBN10To13, convertISBN13To10, hyphenateISBN } from './isbn.js';
+
+describe('ISBN Utilities', () => {
+  describe('normalizeISBN', () => {
+    it('should strip hyphens and spaces from ISBN-13', () => {
+      expect(normalizeISBN('978-4-00-310101-8')).toEqual({
+        success: true,
+        value: '9784003101018',
+      });
+      expect(normalizeISBN('978 0 306 40615 7')).toEqual({
+        success: true,
+        value: '9780306406157',
+      });
+    });
+
+    it('should convert ISBN-10 to the same canonical ISBN-13', () => {
+      expect(normalizeISBN('4-00-310101-4')).toEqual({ success: true, value: '9784003101018' });
+      expect(normalizeISBN('0306406152')).toEqual({ success: true, value: '9780306406157' });
+    });
+
+    it('should accept ISBN-10 with a lowercase x check digit', () => {
+      expect(normalizeISBN('0-8044-2957-x')).toEqual({ success: true, value: '9780804429573' });
+    });
+
+    it('should reject an invalid ISBN', () => {
+      const result = normalizeISBN('978-4-00-310101-0');
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.type).toBe('INVALID_ISBN');
+      }
+    });
+  });
+
+  describe('convertISBN10To13', () => {
+    it('should convert ISBN-10 to ISBN-13 with a recalculated check digit', () => {
+      expect(convertISBN10To13('0-8044-2957-X')).toEqual({
+        success: true,
+        value: '9780804429573',
+      });
+    });
+
+    it('should reject ISBN-13 input', () => {
+      expect(convertISBN10To13('9784003101018').success).toBe(false);
+    });
+  });
+
+  describe('convertISBN13To10', () => {
+    it('should convert a 978 ISBN-13 to ISBN-10', () => {
+      expect(convertISBN13To10('978-4-00-310101-8')).toEqual({
+        success: true,
+        value: '4003101014',
+      });
+    });
+
+    it('should use X for a check digit of 10', () => {
+      expect(convertISBN13To10('9780804429573')).toEqual({ success: true, value: '080442957X' });
+    });
+
+    it('should reject a 979 ISBN-13', () => {
+      const result = convertISBN13To10('979-10-90636-07-1');
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('hyphenateISBN', () => {
+    it('should hyphenate Japanese ISBNs by publisher ranges', () => {
+      expect(hyphenateISBN('9784003101018')).toBe('978-4-00-310101-8');
+      expect(hyphenateISBN('9784101010014')).toBe('978-4-10-101001-4');
+    });
+
+    it('should hyphenate English-language ISBNs by publisher ranges', () => {
+      expect(hyphenateISBN('9780306406157')).toBe('978-0-306-40615-7');
+      expect(hyphenateISBN('9781402894626')).toBe('978-1-4028-9462-6');
+    });
+
+    it('should hyphenate ISBN-10 input as ISBN-13', () => {
+      expect(hyphenateISBN('0-8044-2957-X')).toBe('978-0-8044-2957-3');
+    });
+
+    it('should split only the registration group when publisher ranges are unknown', () => {
+      expect(hyphenateISBN('9791090636071')).toBe('979-10-9063607-1');
+    });
+
+    it('should return an invalid ISBN unchanged', () => {
+      expect(hyphenateISBN('invalid-isbn')).toBe('invalid-isbn');
+    });
+  });
+});
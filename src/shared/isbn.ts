@@ -0,0 +1,262 @@
+/**
+ * ISBNユーティリティ
+ *
+ * ISBNの正規化・変換・ハイフン区切りの表示形式を提供します。
+ * - 正規形: ハイフンを除いたISBN-13（ISBN-10・ハイフン付きの入力も同じ正規形になる）
+ * - ISBN-10 ↔ ISBN-13 変換
+ * - 登録グループの範囲に基づくハイフン区切り
+ */
+
+import { Result, ok, err, isErr } from './result.js';
+import { validateISBN, type ValidationError } from './validation.js';
+
+// ============================================
+// 範囲定義
+// ============================================
+
+/**
+ * 記号の桁数の範囲
+ *
+ * 対象の記号以降の7桁（不足する場合は右を0で埋める）が start 以上 end 以下のとき、記号の桁数は length。
+ * length が 0 の範囲は未割り当て。
+ */
+interface IsbnRange {
+  readonly start: number;
+  readonly end: number;
+  readonly length: number;
+}
+
+/** 記号の桁数の範囲を作成 */
+function range(start: number, end: number, length: number): IsbnRange {
+  return { start, end, length };
+}
+
+/** 接頭記号（978・979）ごとの登録グループ記号の範囲 */
+const GROUP_RANGES = new Map<string, readonly IsbnRange[]>([
+  [
+    '978',
+    [
+      range(0, 5999999, 1),
+      range(6000000, 6499999, 3),
+      range(6500000, 6599999, 2),
+      range(6600000, 6999999, 0),
+      range(7000000, 7999999, 1),
+      range(8000000, 9499999, 2),
+      range(9500000, 9899999, 3),
+      range(9900000, 9989999, 4),
+      range(9990000, 9999999, 5),
+    ],
+  ],
+  [
+    '979',
+    [
+      range(0, 999999, 0),
+      range(1000000, 1299999, 2),
+      range(1300000, 7999999, 0),
+      range(8000000, 8999999, 1),
+      range(9000000, 9999999, 0),
+    ],
+  ],
+]);
+
+/**
+ * 登録グループごとの出版者記号の範囲
+ *
+ * 範囲を持たない登録グループは、登録グループ記号までを区切る
+ */
+const REGISTRANT_RANGES = new Map<string, readonly IsbnRange[]>([
+  // 英語圏
+  [
+    '978-0',
+    [
+      range(0, 1999999, 2),
+      range(2000000, 6999999, 3),
+      range(7000000, 8499999, 4),
+      range(8500000, 8999999, 5),
+      range(9000000, 9499999, 6),
+      range(9500000, 9999999, 7),
+    ],
+  ],
+  [
+    '978-1',
+    [
+      range(0, 999999, 2),
+      range(1000000, 3999999, 3),
+      range(4000000, 5499999, 4),
+      range(5500000, 8697999, 5),
+      range(8698000, 9989999, 6),
+      range(9990000, 9999999, 7),
+    ],
+  ],
+  // 日本
+  [
+    '978-4',
+    [
+      range(0, 1999999, 2),
+      range(2000000, 6999999, 3),
+      range(7000000, 8499999, 4),
+      range(8500000, 8999999, 5),
+      range(9000000, 9499999, 6),
+      range(9500000, 9999999, 7),
+    ],
+  ],
+]);
+
+/**
+ * 範囲から記号の桁数を取得
+ * @param ranges - 記号の桁数の範囲
+ * @param digits - 対象の記号以降の数字列
+ * @returns 記号の桁数（未割り当ての場合 null）
+ */
+function findLength(ranges: readonly IsbnRange[], digits: string): number | null {
+  const value = Number(digits.slice(0, 7).padEnd(7, '0'));
+  const found = ranges.find((r) => value >= r.start && value <= r.end);
+  return found !== undefined && found.length > 0 ? found.length : null;
+}
+
+// ============================================
+// チェックディジット
+// ============================================
+
+/**
+ * ISBN-13 のチェックディジットを計算
+ * @param digits - チェックディジットを除いた12桁
+ */
+function calculateISBN13CheckDigit(digits: string): string {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(digits.charAt(i)) * (i % 2 === 0 ? 1 : 3);
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * ISBN-10 のチェックディジットを計算（10 は X）
+ * @param digits - チェックディジットを除いた9桁
+ */
+function calculateISBN10CheckDigit(digits: string): string {
+  let sum = 0;
+  for (let i = 0; i < 9; i++) {
+    sum += Number(digits.charAt(i)) * (10 - i);
+  }
+  const checkDigit = (11 - (sum % 11)) % 11;
+  return checkDigit === 10 ? 'X' : String(checkDigit);
+}
+
+// ============================================
+// 正規化・変換
+// ============================================
+
+/**
+ * ハイフン・スペースを除去した数字列を取得（ISBN-10 のチェックディジット x は大文字にする）
+ */
+function stripISBN(isbn: string): string {
+  return isbn.replace(/[-\s]/g, '').toUpperCase();
+}
+
+/**
+ * ISBN-10 を ISBN-13 に変換
+ * @param isbn - ISBN-10（ハイフン・スペースを含んでもよい）
+ * @returns ハイフンを除いたISBN-13、またはバリデーションエラー
+ */
+export function convertISBN10To13(isbn: string): Result<string, ValidationError> {
+  const validation = validateISBN(isbn);
+  if (isErr(validation)) {
+    return validation;
+  }
+
+  const digits = stripISBN(isbn);
+  if (digits.length !== 10) {
+    return err({ type: 'INVALID_ISBN', message: `ISBN ${isbn} is not an ISBN-10` });
+  }
+
+  const body = `978${digits.slice(0, 9)}`;
+  return ok(`${body}${calculateISBN13CheckDigit(body)}`);
+}
+
+/**
+ * ISBNを正規形（ハイフンを除いたISBN-13）に変換
+ *
+ * ISBN-10・ISBN-13 のいずれの形式でも、ハイフン・スペースの有無にかかわらず同じ正規形になる
+ * @param isbn - ISBN-10 または ISBN-13
+ * @returns 正規形のISBN、またはバリデーションエラー
+ */
+export function normalizeISBN(isbn: string): Result<string, ValidationError> {
+  const validation = validateISBN(isbn);
+  if (isErr(validation)) {
+    return validation;
+  }
+
+  const digits = stripISBN(isbn);
+  return digits.length === 10 ? convertISBN10To13(digits) : ok(digits);
+}
+
+/**
+ * ISBN-13 を ISBN-10 に変換
+ *
+ * ISBN-10 の形式を持つのは接頭記号 978 の ISBN のみ（979 はエラー）
+ * @param isbn - ISBN-10 または ISBN-13
+ * @returns ハイフンを除いたISBN-10、またはバリデーションエラー
+ */
+export function convertISBN13To10(isbn: string): Result<string, ValidationError> {
+  const normalized = normalizeISBN(isbn);
+  if (isErr(normalized)) {
+    return normalized;
+  }
+
+  if (!normalized.value.startsWith('978')) {
+    return err({
+      type: 'INVALID_ISBN',
+      message: `ISBN ${isbn} has no ISBN-10 form (only the 978 prefix can be converted)`,
+    });
+  }
+
+  const body = normalized.value.slice(3, 12);
+  return ok(`${body}${calculateISBN10CheckDigit(body)}`);
+}
+
+// ============================================
+// 表示形式
+// ============================================
+
+/**
+ * ISBNをハイフン区切りのISBN-13に変換（例: 978-4-00-310101-8）
+ *
+ * 登録グループの範囲で接頭記号・登録グループ記号・出版者記号・書名記号・チェックディジットに区切る。
+ * 出版者記号の範囲を持たない登録グループは、登録グループ記号以降を「書名記号を含む記号-チェックディジット」と区切る。
+ * 検証できないISBN、未割り当ての登録グループのISBNは正規化せずにそのまま返す。
+ * @param isbn - ISBN-10 または ISBN-13
+ * @returns ハイフン区切りのISBN-13
+ */
+export function hyphenateISBN(isbn: string): string {
+  const normalized = normalizeISBN(isbn);
+  if (isErr(normalized)) {
+    return isbn;
+  }
+
+  const digits = normalized.value;
+  const prefix = digits.slice(0, 3);
+  const groupLength = findLength(GROUP_RANGES.get(prefix) ?? [], digits.slice(3));
+  if (groupLength === null) {
+    return isbn;
+  }
+
+  const group = digits.slice(3, 3 + groupLength);
+  const rest = digits.slice(3 + groupLength, 12);
+  const checkDigit = digits.slice(12);
+
+  const registrantRanges = REGISTRANT_RANGES.get(`${prefix}-${group}`);
+  const registrantLength =
+    registrantRanges !== undefined ? findLength(registrantRanges, rest) : null;
+  if (registrantLength === null || registrantLength >= rest.length) {
+    return [prefix, group, rest, checkDigit].join('-');
+  }
+
+  return [
+    prefix,
+    group,
+    rest.slice(0, registrantLength),
+    rest.slice(registrantLength),
+    checkDigit,
+  ].join('-');
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { createLogger } from './logger.js';
+import { createFixedClock } from './clock.js';
+
+describe('Logger', () => {
+  const clock = createFixedClock(new Date('2024-01-15T09:00:00.000Z'));
+
+  function createCapturingLogger(): { lines: string[]; logger: ReturnType<typeof createLogger> } {
+    const lines: string[] = [];
+    const logger = createLogger((line) => {
+      lines.push(line);
+    }, clock);
+    return { lines, logger };
+  }
+
+  it('should write one JSON line with time, level and message', () => {
+    const { lines, logger } = createCapturingLogger();
+
+    logger.info('Server started', { port: 3000 });
+
+    expect(lines).toEqual([
+      '{"time":"2024-01-15T09:00:00.000Z","level":"info","message":"Server started","port":3000}\n',
+    ]);
+  });
+
+  it('should include the name, message and stack of errors', () => {
+    const { lines, logger } = createCapturingLogger();
+    const error = new TypeError('boom');
+
+    logger.error('Domain event handler failed', { eventType: 'LoanReturned', error });
+
+    const entry = JSON.parse(lines[0] ?? '') as Record<string, unknown>;
+    expect(entry).toMatchObject({
+      level: 'error',
+      message: 'Domain event handler failed',
+      eventType: 'LoanReturned',
+      error: { name: 'TypeError', message: 'boom', stack: error.stack },
+    });
+  });
+
+  it('should label warnings with the warn level', () => {
+    const { lines, logger } = createCapturingLogger();
+
+    logger.warn('Lock expired');
+
+    expect(JSON.parse(lines[0] ?? '')).toMatchObject({ level: 'warn', message: 'Lock expired' });
+  });
+});
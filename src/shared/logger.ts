@@ -0,0 +1,75 @@
+/**
+ * Logger
+ *
+ * アプリケーションのログ出力を抽象化し、一行のJSONとして書き出すためのインターフェース。
+ */
+
+import { systemClock, type Clock } from './clock.js';
+
+// ============================================
+// 型定義
+// ============================================
+
+/** ログレベル */
+export type LogLevel = 'info' | 'warn' | 'error';
+
+/** ログに添える付加情報 */
+export type LogFields = Readonly<Record<string, unknown>>;
+
+/** ロガー */
+export interface Logger {
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+// ============================================
+// ファクトリ関数
+// ============================================
+
+/**
+ * Error はJSONに変換すると空になるため、名前・メッセージ・スタックを取り出す
+ */
+function toLoggable(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/**
+ * 一行のJSONでログを書き出すロガーを作成
+ * @param write - 一行を書き出す関数（省略時は標準エラー出力）
+ * @param clock - ログの時刻
+ * @returns Logger
+ */
+export function createLogger(
+  write: (line: string) => void = (line) => {
+    process.stderr.write(line);
+  },
+  clock: Clock = systemClock
+): Logger {
+  const log = (level: LogLevel, message: string, fields: LogFields = {}): void => {
+    const entry: Record<string, unknown> = {
+      time: clock.now().toISOString(),
+      level,
+      message,
+    };
+    for (const [key, value] of Object.entries(fields)) {
+      entry[key] = toLoggable(value);
+    }
+    write(`${JSON.stringify(entry)}\n`);
+  };
+
+  return {
+    info(message, fields): void {
+      log('info', message, fields);
+    },
+    warn(message, fields): void {
+      log('warn', message, fields);
+    },
+    error(message, fields): void {
+      log('error', message, fields);
+    },
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Unit of Work
+ *
+ * 複数のリポジトリ操作を1つの作業単位（トランザクション）として実行するための抽象。
+ * 具体的な実装は Infrastructure 層で行います。
+ */
+
+import type { Result } from './result.js';
+
+// ============================================
+// インターフェース
+// ============================================
+
+/** 作業単位 */
+export interface UnitOfWork {
+  /**
+   * 処理を1つの作業単位として実行
+   * 処理が Ok を返した場合はコミットし、Err を返した場合や例外が発生した場合はロールバックする
+   * 作業単位の中で呼び出した場合は入れ子の作業単位となり、ロールバックはその処理の分だけに留まる
+   * @param work - 実行する処理
+   * @returns 処理の結果
+   */
+  run<T, E>(work: () => Promise<Result<T, E>>): Promise<Result<T, E>>;
+}
+
+// ============================================
+// ファクトリ関数
+// ============================================
+
+/**
+ * トランザクションを伴わない作業単位を作成
+ * 処理をそのまま実行する（インメモリ実装・テスト用）
+ * @returns UnitOfWork
+ */
+export function createPassthroughUnitOfWork(): UnitOfWork {
+  return {
+    run: (work) => work(),
+  };
+}